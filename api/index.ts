@@ -26,7 +26,9 @@ const supabase = createClient(supabaseUrl, supabaseServiceKey);
 const supabaseAuth = createClient(supabaseUrl, supabaseAnonKey);
 
 // Content API utilities (inlined to avoid cross-directory import issues with @vercel/node)
-import { createHash, randomBytes } from "crypto";
+import { createHash, createHmac, randomBytes, randomUUID } from "crypto";
+import { lookup } from "dns/promises";
+import { BlockList, isIP, isIPv4 } from "net";
 
 function generateApiKey(): { key: string; hash: string; prefix: string } {
   const rawBytes = randomBytes(32);
@@ -40,28 +42,144 @@ function hashApiKey(key: string): string {
   return createHash("sha256").update(key).digest("hex");
 }
 
+// Key scopes and channel allow-lists (channel_ids NULL = every channel the
+// owner can write to; listed channels must be ones they own or edit). JWT
+// callers get full access. Canonical copy: server/api-auth.ts.
+const API_KEY_SCOPES = ["articles:write", "articles:read", "channels:read", "images:write"];
+const FULL_API_ACCESS = { scopes: API_KEY_SCOPES, channelIds: null };
+
+function canAccessChannel(access, channelId: number): boolean {
+  return !access.channelIds || access.channelIds.includes(channelId);
+}
+
+async function validateApiKeyAccess(sb: any, userId: number, scopes, channelIds) {
+  let resolvedScopes = API_KEY_SCOPES;
+  if (scopes !== undefined && scopes !== null) {
+    if (!Array.isArray(scopes) || scopes.length === 0) {
+      return { error: "scopes must be a non-empty array" };
+    }
+    const unknown = scopes.filter((s) => !API_KEY_SCOPES.includes(s));
+    if (unknown.length > 0) return { error: `Unknown scopes: ${unknown.join(", ")}` };
+    resolvedScopes = Array.from(new Set(scopes));
+  }
+  if (channelIds === undefined || channelIds === null) {
+    return { access: { scopes: resolvedScopes, channelIds: null } };
+  }
+  if (!Array.isArray(channelIds) || channelIds.some((id) => !Number.isInteger(id))) {
+    return { error: "channelIds must be an array of channel IDs" };
+  }
+  if (channelIds.length === 0) {
+    return { access: { scopes: resolvedScopes, channelIds: null } };
+  }
+  const ids = Array.from(new Set(channelIds));
+  const roles = await Promise.all(ids.map((id) => getChannelRole(sb, id, userId)));
+  if (!roles.every(canPublishInChannel)) {
+    return { error: "channelIds must be channels you own or edit" };
+  }
+  return { access: { scopes: resolvedScopes, channelIds: ids } };
+}
+
+// Token-bucket limits per API key and route group (buckets live in Postgres,
+// see consume_api_rate_limit). Canonical copy: server/api-auth.ts.
+const API_RATE_LIMITS: Record<string, { capacity: number; perMinute: number }> = {
+  "content.read": { capacity: 120, perMinute: 60 },
+  "articles.create": { capacity: 30, perMinute: 10 },
+  "articles.batch": { capacity: 5, perMinute: 1 },
+  "articles.update": { capacity: 60, perMinute: 20 },
+};
+
+async function consumeRateLimit(sb: any, apiKeyId: string, route: string) {
+  const config = API_RATE_LIMITS[route];
+  if (!config) return null;
+  const { data, error } = await sb.rpc("consume_api_rate_limit", {
+    p_api_key_id: apiKeyId,
+    p_route: route,
+    p_capacity: config.capacity,
+    p_refill_per_second: config.perMinute / 60,
+  });
+  const row = Array.isArray(data) ? data[0] : data;
+  if (error || !row) {
+    console.error("Error consuming rate limit:", error);
+    return null;
+  }
+  return {
+    allowed: row.allowed,
+    limit: config.capacity,
+    remaining: row.remaining,
+    reset: row.reset_seconds,
+    retryAfter: row.retry_after_seconds,
+  };
+}
+
+function setRateLimitHeaders(res, rateLimit) {
+  res.setHeader("X-RateLimit-Limit", rateLimit.limit);
+  res.setHeader("X-RateLimit-Remaining", rateLimit.remaining);
+  res.setHeader("X-RateLimit-Reset", rateLimit.reset);
+  if (!rateLimit.allowed) res.setHeader("Retry-After", rateLimit.retryAfter);
+}
+
 async function authenticateApiKey(
   apiKeyHeader: string,
-  sb: any
-): Promise<{ userId?: number; error?: string }> {
+  sb: any,
+  options: { route?: string; scope?: string } = {}
+): Promise<{ userId?: number; apiKeyId?: string; access?: any; error?: string; status?: number; rateLimit?: any }> {
   if (!apiKeyHeader || !apiKeyHeader.startsWith("nk_")) {
     return { error: "Invalid API key format" };
   }
   const keyHash = hashApiKey(apiKeyHeader);
   const { data: apiKeyRow, error } = await sb
-    .from("api_keys").select("id, user_id, is_revoked, expires_at").eq("key_hash", keyHash).single();
+    .from("api_keys").select("id, user_id, is_revoked, expires_at, scopes, channel_ids").eq("key_hash", keyHash).single();
   if (error || !apiKeyRow) return { error: "Invalid API key" };
   if (apiKeyRow.is_revoked) return { error: "API key has been revoked" };
   if (apiKeyRow.expires_at && new Date(apiKeyRow.expires_at) < new Date()) return { error: "API key has expired" };
+  const access = {
+    scopes: apiKeyRow.scopes || API_KEY_SCOPES,
+    channelIds: apiKeyRow.channel_ids?.length ? apiKeyRow.channel_ids : null,
+  };
+  if (options.scope && !access.scopes.includes(options.scope)) {
+    return { error: `API key is missing the ${options.scope} scope`, status: 403 };
+  }
+  const rateLimit = options.route ? await consumeRateLimit(sb, apiKeyRow.id, options.route) : null;
+  if (rateLimit && !rateLimit.allowed) return { error: "Rate limit exceeded", status: 429, rateLimit };
   sb.from("api_keys").update({ last_used_at: new Date().toISOString() }).eq("id", apiKeyRow.id).then(() => {});
-  return { userId: apiKeyRow.user_id };
+  return { userId: apiKeyRow.user_id, apiKeyId: apiKeyRow.id, access, rateLimit: rateLimit || undefined };
+}
+
+async function loadApiKeyUsage(sb: any, apiKeyIds: string[]) {
+  const usage = new Map();
+  for (const id of apiKeyIds) {
+    usage.set(id, { requestsToday: 0, throttledToday: 0, requestsLast7Days: 0 });
+  }
+  if (apiKeyIds.length === 0) return usage;
+  const today = new Date().toISOString().slice(0, 10);
+  const weekStart = new Date(Date.now() - 6 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  const { data, error } = await sb
+    .from("api_key_usage")
+    .select("api_key_id, day, request_count, throttled_count")
+    .in("api_key_id", apiKeyIds)
+    .gte("day", weekStart);
+  if (error) {
+    console.error("Error loading API key usage:", error);
+    return usage;
+  }
+  for (const row of data || []) {
+    const entry = usage.get(row.api_key_id);
+    if (!entry) continue;
+    entry.requestsLast7Days += row.request_count;
+    if (row.day === today) {
+      entry.requestsToday = row.request_count;
+      entry.throttledToday = row.throttled_count;
+    }
+  }
+  return usage;
 }
 
 // ---- Rich markdown → HTML converter ----
 // Implements docs/article-format.md: [!SUMMARY]/[!KEY]/[!QUOTE]/[!STAT] etc.
-// callouts, GFM tables, figure/captions + galleries, video embeds, ```chart
-// blocks. Self-contained (no deps). Canonical copy: server/markdown-to-html.ts
-// — keep the two in sync.
+// callouts, [^1] footnotes, [!SOURCES] lists, [!TIMELINE] blocks, GFM tables,
+// figure/captions + galleries, video embeds, ```chart and ```map blocks.
+// Self-contained (no deps).
+// Canonical copy: server/markdown-to-html.ts — keep the two in sync.
 
 const MD_CALLOUT_TITLES: Record<string, string> = {
   summary: "In brief",
@@ -71,9 +189,13 @@ const MD_CALLOUT_TITLES: Record<string, string> = {
   note: "Note",
   important: "Important",
   warning: "Caution",
+  sources: "Sources",
+  timeline: "Timeline",
 };
 
 const MD_IMG_LINE = /^!\[([^\]]*)\]\(([^)\s]+)\)$/;
+const MD_FOOTNOTE_DEF = /^\[\^([^\]\s]+)\]:[ \t]*(.*)$/;
+const MD_ISO_DATE = /^\d{4}(?:-\d{2}(?:-\d{2}(?:[ T]\d{2}:\d{2})?)?)?$/;
 
 function mdEscapeHtml(text: string): string {
   return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
@@ -137,6 +259,122 @@ function mdTable(block: string): string | null {
   return `<div class="table-wrap"><table class="article-table"><thead><tr>${th}</tr></thead><tbody>${trs}</tbody></table></div>`;
 }
 
+const MAP_LABEL_MAX = 120;
+
+function mdMapSpec(code: string): Record<string, unknown> | null {
+  let spec: any;
+  try {
+    spec = JSON.parse(code);
+  } catch {
+    return null;
+  }
+  if (!spec || typeof spec !== "object" || Array.isArray(spec)) return null;
+  const markers = (Array.isArray(spec.markers) ? spec.markers : [])
+    .filter(
+      (m: any) =>
+        Number.isFinite(m?.lat) &&
+        Number.isFinite(m?.lng) &&
+        Math.abs(m.lat) <= 90 &&
+        Math.abs(m.lng) <= 180
+    )
+    .map((m: any) => {
+      const label = typeof m.label === "string" ? m.label.trim().slice(0, MAP_LABEL_MAX) : "";
+      return label ? { lat: m.lat, lng: m.lng, label } : { lat: m.lat, lng: m.lng };
+    });
+  const area = spec.area && typeof spec.area === "object" && typeof spec.area.type === "string";
+  if (!markers.length && !area) return null;
+  return {
+    ...(markers.length ? { markers } : {}),
+    ...(area ? { area: spec.area } : {}),
+    ...(typeof spec.caption === "string" && spec.caption.trim()
+      ? { caption: spec.caption.trim() }
+      : {}),
+    ...(Number.isFinite(spec.zoom) ? { zoom: Math.min(22, Math.max(0, spec.zoom)) } : {}),
+  };
+}
+
+function mdFootnotes(markdown: string): { markdown: string; notes: string } {
+  const parts = markdown.split(/(```[\s\S]*?```)/);
+  const defs = new Map<string, string>();
+
+  for (let i = 0; i < parts.length; i += 2) {
+    const kept: string[] = [];
+    let current: string | null = null;
+    for (const line of parts[i].split("\n")) {
+      const def = line.match(MD_FOOTNOTE_DEF);
+      if (def) {
+        current = defs.has(def[1]) ? null : def[1];
+        if (current) defs.set(current, def[2].trim());
+        continue;
+      }
+      if (current !== null && /^(?: {2,}|\t)\S/.test(line)) {
+        defs.set(current, `${defs.get(current)} ${line.trim()}`.trim());
+        continue;
+      }
+      current = null;
+      kept.push(line);
+    }
+    parts[i] = kept.join("\n");
+  }
+  if (defs.size === 0) return { markdown, notes: "" };
+
+  const order: string[] = [];
+  const uses = new Map<string, number>();
+  const reference = (ref: string, id: string) => {
+    if (!defs.has(id)) return ref;
+    if (!uses.has(id)) order.push(id);
+    const use = (uses.get(id) || 0) + 1;
+    uses.set(id, use);
+    const n = order.indexOf(id) + 1;
+    return `<sup class="footnote-ref"><a href="#fn-${n}" id="fnref-${n}${
+      use > 1 ? `-${use}` : ""
+    }" data-footnote-ref>${n}</a></sup>`;
+  };
+  for (let i = 0; i < parts.length; i += 2) {
+    parts[i] = parts[i]
+      .split(/(`[^`\n]+`)/)
+      .map((seg, j) => (j % 2 ? seg : seg.replace(/\[\^([^\]\s]+)\]/g, reference)))
+      .join("");
+  }
+
+  const items = order
+    .map(
+      (id, i) =>
+        `<li id="fn-${i + 1}">${mdInline(defs.get(id)!)} <a href="#fnref-${i + 1}" class="footnote-backref" aria-label="Back to reference ${i + 1}">↩</a></li>`
+    )
+    .join("");
+  return {
+    markdown: parts.join(""),
+    notes: items
+      ? `<section class="footnotes" data-footnotes aria-label="Notes"><ol>${items}</ol></section>`
+      : "",
+  };
+}
+
+function mdTimeline(body: string): string {
+  const entries: { date: string; text: string }[] = [];
+  for (const raw of body.split("\n")) {
+    const line = raw.trim().replace(/^[-*+]\s+/, "");
+    if (!line) continue;
+    const m = line.match(/^(.+?)\s+(?:—|–|--)\s+(.+)$/) || line.match(/^(.+?):\s+(.+)$/);
+    if (m) {
+      entries.push({ date: m[1].replace(/^\*\*(.+)\*\*$/, "$1").trim(), text: m[2].trim() });
+    } else if (entries.length) {
+      entries[entries.length - 1].text += ` ${line}`;
+    } else {
+      entries.push({ date: "", text: line });
+    }
+  }
+  return entries
+    .map(({ date, text }) => {
+      const datetime = MD_ISO_DATE.test(date) ? ` datetime="${date.replace(" ", "T")}"` : "";
+      return `<li><time class="timeline-date"${datetime}>${mdEscapeHtml(date)}</time><div class="timeline-text">${mdInline(
+        text
+      )}</div></li>`;
+    })
+    .join("");
+}
+
 function mdCallout(block: string): string | null {
   const lines = block.split("\n").map((l) => l.replace(/^>\s?/, ""));
   const m = lines[0].match(/^\[!(\w+)\]\s*(.*)$/);
@@ -169,17 +407,41 @@ function mdCallout(block: string): string | null {
     }</aside>`;
   }
 
+  if (type === "timeline") {
+    return `<div class="article-timeline" data-timeline><div class="timeline-title">${mdInline(
+      titleRest || MD_CALLOUT_TITLES.timeline
+    )}</div><ol>${mdTimeline(body)}</ol></div>`;
+  }
+
+  if (type === "sources") {
+    const items = body
+      .split("\n")
+      .map((l) => l.trim().replace(/^(?:[-*+]|\d+\.)\s+/, ""))
+      .filter(Boolean)
+      .map((item) => `<li>${mdInline(item)}</li>`)
+      .join("");
+    return `<aside class="callout callout-sources" data-callout="sources"><div class="callout-title">${mdInline(
+      titleRest || MD_CALLOUT_TITLES.sources
+    )}</div><div class="callout-body"><ol>${items}</ol></div></aside>`;
+  }
+
   const known = ["summary", "key", "context", "tip", "note", "important", "warning"];
   const cls = known.includes(type) ? type : "note";
   const title = titleRest || MD_CALLOUT_TITLES[cls] || cls;
-  const bodyHtml = markdownToHtml(body);
+  const bodyHtml = mdRender(body);
   return `<aside class="callout callout-${cls}" data-callout="${cls}"><div class="callout-title">${mdInline(
     title
   )}</div><div class="callout-body">${bodyHtml}</div></aside>`;
 }
 
 function markdownToHtml(markdown: string): string {
-  let html = markdown.replace(/\r\n/g, "\n");
+  const { markdown: body, notes } = mdFootnotes(markdown.replace(/\r\n/g, "\n"));
+  const html = mdRender(body);
+  return notes ? `${html}\n${notes}` : html;
+}
+
+function mdRender(markdown: string): string {
+  let html = markdown;
 
   html = html.replace(/```(\w*)\n([\s\S]*?)```/g, (_m, lang, code) => {
     if ((lang || "").toLowerCase() === "chart") {
@@ -190,6 +452,13 @@ function markdownToHtml(markdown: string): string {
         return `<pre><code>${mdEscapeHtml(code.trimEnd())}</code></pre>`;
       }
     }
+    if ((lang || "").toLowerCase() === "map") {
+      const spec = mdMapSpec(code);
+      if (spec) {
+        return `<div class="article-map" data-map="${mdEscapeAttr(JSON.stringify(spec))}"></div>`;
+      }
+      return `<pre><code>${mdEscapeHtml(code.trimEnd())}</code></pre>`;
+    }
     return `<pre><code>${mdEscapeHtml(code.trimEnd())}</code></pre>`;
   });
 
@@ -202,7 +471,11 @@ function markdownToHtml(markdown: string): string {
     const t = block.trim();
     if (!t) continue;
 
-    if (t.startsWith("<pre><code>") || t.startsWith('<div class="article-chart"')) {
+    if (
+      t.startsWith("<pre><code>") ||
+      t.startsWith('<div class="article-chart"') ||
+      t.startsWith('<div class="article-map"')
+    ) {
       output.push(t);
       continue;
     }
@@ -290,6 +563,381 @@ function normalizeContent(content: string, format?: string): string {
   return markdownToHtml(content);
 }
 
+// ---- HTML sanitizer ----
+// Allow-list sanitizer every article write runs its HTML through after
+// normalizeContent; reports what it removed to the caller. Canonical copy:
+// server/html-sanitizer.ts — keep the two in sync.
+
+interface SanitizeRemoval {
+  /** element: a tag, with its contents for script and the like;
+   *  attribute: an attribute, class names or style declarations;
+   *  url: an href/src/cite dropped for its scheme or host */
+  kind: "element" | "attribute" | "url";
+  /** Tag name, or tag[attribute] */
+  name: string;
+  count: number;
+}
+
+interface SanitizeResult {
+  html: string;
+  removed: SanitizeRemoval[];
+}
+
+const SANITIZE_GLOBAL_ATTRS = ["class", "id", "title", "lang", "dir", "aria-label", "aria-hidden"];
+
+// Allowed tags → the attributes each accepts besides the global ones
+const SANITIZE_TAGS: Record<string, string[]> = {
+  a: ["href", "target", "rel", "name", "data-footnote-ref"],
+  abbr: [],
+  aside: ["data-callout"],
+  b: [],
+  blockquote: ["cite"],
+  br: [],
+  caption: [],
+  cite: [],
+  code: [],
+  col: ["span"],
+  colgroup: ["span"],
+  dd: [],
+  del: [],
+  details: ["open"],
+  div: ["data-chart", "data-map", "data-gallery", "data-count", "data-timeline"],
+  dl: [],
+  dt: [],
+  em: [],
+  figcaption: [],
+  figure: [],
+  h1: ["style"],
+  h2: ["style"],
+  h3: ["style"],
+  h4: ["style"],
+  h5: ["style"],
+  h6: ["style"],
+  hr: [],
+  i: [],
+  iframe: ["src", "title", "loading", "allow", "allowfullscreen", "width", "height", "frameborder"],
+  img: ["src", "alt", "width", "height", "loading"],
+  ins: [],
+  kbd: [],
+  li: ["value"],
+  mark: [],
+  ol: ["start", "reversed", "type"],
+  p: ["style"],
+  pre: [],
+  q: ["cite"],
+  s: [],
+  section: ["data-footnotes"],
+  small: [],
+  span: [],
+  strong: [],
+  sub: [],
+  summary: [],
+  sup: [],
+  table: [],
+  tbody: [],
+  td: ["colspan", "rowspan", "colwidth", "style"],
+  tfoot: [],
+  th: ["colspan", "rowspan", "colwidth", "scope", "style"],
+  thead: [],
+  time: ["datetime"],
+  tr: [],
+  u: [],
+  ul: [],
+};
+
+const SANITIZE_VOID_TAGS = new Set(["br", "col", "hr", "img", "input", "meta", "link", "base", "wbr", "source", "track", "area", "param", "embed", "keygen"]);
+
+// Removed together with everything inside them
+const SANITIZE_DROP_TAGS = new Set([
+  "script", "style", "template", "noscript", "object", "embed", "applet", "frame",
+  "frameset", "svg", "math", "head", "title", "textarea", "select", "option",
+  "button", "xmp", "noembed", "noframes", "plaintext", "iframe",
+]);
+
+// Their contents are text, not markup, so skip straight to the closing tag
+const SANITIZE_RAW_TEXT_TAGS = new Set([
+  "script", "style", "textarea", "title", "xmp", "iframe", "noembed", "noframes", "noscript", "plaintext",
+]);
+
+// Hosts markdownToHtml and the editor embed video from
+const SANITIZE_EMBED_HOSTS = new Set(["www.youtube-nocookie.com", "www.youtube.com", "player.vimeo.com"]);
+
+// Class names the article styles define; anything else could restyle the page
+const SANITIZE_CLASS = /^(?:(?:article|callout|video|table|pull|stat|language|footnote|timeline)-[\w-]+|callout|footnotes|underline|text-primary)$/;
+
+const SANITIZE_URL_ATTRS = new Set(["href", "src", "cite"]);
+
+// Sticky patterns, matched in place at an index (no slicing, so long articles
+// stay linear)
+const SANITIZE_END_TAG = new RegExp("</([a-zA-Z][\\w:-]*)[^>]*>", "y");
+const SANITIZE_START_TAG = new RegExp("<([a-zA-Z][\\w:-]*)", "y");
+const SANITIZE_ATTR_NAME = new RegExp("[^\\s/>=]+", "y");
+const SANITIZE_UNQUOTED_VALUE = new RegExp("[^\\s>]*", "y");
+
+function sanitizeMatchAt(pattern: RegExp, html: string, i: number) {
+  pattern.lastIndex = i;
+  return pattern.exec(html);
+}
+
+function sanitizeEscapeAttr(value: string): string {
+  return value
+    .replace(/&(?!#?[a-zA-Z0-9]+;)/g, "&amp;")
+    .replace(/"/g, "&quot;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+/** Decode what a browser would, enough to read a URL's scheme */
+function sanitizeDecodeUrl(value: string): string {
+  const named: Record<string, string> = {
+    amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", colon: ":", tab: "\t", newline: "\n", nbsp: " ",
+  };
+  const char = (code: number) =>
+    code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : "\ufffd";
+  return value
+    .replace(/&#x([0-9a-f]+);?/gi, (_m, hex) => char(parseInt(hex, 16)))
+    .replace(/&#(\d+);?/g, (_m, dec) => char(Number(dec)))
+    .replace(/&([a-z]+);/gi, (m, name) => named[name.toLowerCase()] ?? m);
+}
+
+/** Whether a URL attribute may stay: http(s)/mailto/tel or relative */
+function sanitizeUrlAllowed(tag: string, attr: string, value: string): boolean {
+  const url = sanitizeDecodeUrl(value).replace(/[\u0000- \u007f-\u009f]/g, "");
+  // An entity we couldn't decode before the path could be hiding a scheme
+  const head = url.split(/[/?#]/)[0];
+  if (/&[a-z]+;/i.test(head)) return false;
+  const scheme = url.match(/^([a-z][a-z0-9+.-]*):/i)?.[1].toLowerCase();
+  if (tag === "iframe") {
+    try {
+      const parsed = new URL(url);
+      return parsed.protocol === "https:" && SANITIZE_EMBED_HOSTS.has(parsed.hostname);
+    } catch {
+      return false;
+    }
+  }
+  if (!scheme) return true;
+  if (scheme === "http" || scheme === "https") return true;
+  if (attr === "href") return scheme === "mailto" || scheme === "tel";
+  if (tag === "img" && attr === "src") {
+    return /^data:image\/(?:png|gif|jpe?g|webp);base64,[a-z0-9+/=]*$/i.test(url);
+  }
+  return false;
+}
+
+/** Split a style attribute into the text-align declarations we keep and the rest */
+function sanitizeStyle(value: string) {
+  const declarations = value
+    .split(";")
+    .map((decl) => decl.trim().toLowerCase())
+    .filter(Boolean);
+  const kept = declarations.filter((decl) =>
+    /^text-align\s*:\s*(?:left|right|center|justify)$/.test(decl)
+  );
+  return { style: kept.join("; "), dropped: declarations.length - kept.length };
+}
+
+/** Parse the attributes of a start tag from index i; returns null if unterminated */
+function sanitizeParseTag(html: string, i: number) {
+  const attrs: [string, string | null][] = [];
+  let selfClosing = false;
+  while (i < html.length) {
+    const c = html[i];
+    if (c === ">") return { attrs, end: i + 1, selfClosing };
+    if (/[\s/]/.test(c)) {
+      if (c === "/" && html[i + 1] === ">") selfClosing = true;
+      i++;
+      continue;
+    }
+    const nameMatch = sanitizeMatchAt(SANITIZE_ATTR_NAME, html, i);
+    const name = nameMatch ? nameMatch[0] : html[i];
+    i += name.length;
+    while (/\s/.test(html[i] || "")) i++;
+    let value: string | null = null;
+    if (html[i] === "=") {
+      i++;
+      while (/\s/.test(html[i] || "")) i++;
+      const quote = html[i];
+      if (quote === '"' || quote === "'") {
+        const close = html.indexOf(quote, i + 1);
+        if (close === -1) return null;
+        value = html.slice(i + 1, close);
+        i = close + 1;
+      } else {
+        const unquoted = sanitizeMatchAt(SANITIZE_UNQUOTED_VALUE, html, i)![0];
+        value = unquoted;
+        i += unquoted.length;
+      }
+    }
+    attrs.push([name.toLowerCase(), value]);
+  }
+  return null;
+}
+
+function sanitizeArticleHtml(html: string): SanitizeResult {
+  const counts = new Map<string, SanitizeRemoval>();
+  const report = (kind: SanitizeRemoval["kind"], name: string) => {
+    const key = `${kind}:${name}`;
+    const entry = counts.get(key) || { kind, name, count: 0 };
+    entry.count++;
+    counts.set(key, entry);
+  };
+
+  const out: string[] = [];
+  // Open elements we emitted, so stray closing tags can be dropped and
+  // anything left open is closed at the end
+  const open: string[] = [];
+  // While inside a dropped element: its name and how deeply it's nested
+  let dropping: { tag: string; depth: number } | null = null;
+  let i = 0;
+
+  while (i < html.length) {
+    const lt = html.indexOf("<", i);
+    if (lt === -1) {
+      if (!dropping) out.push(html.slice(i));
+      break;
+    }
+    if (!dropping) out.push(html.slice(i, lt));
+    i = lt;
+
+    // Comments, doctypes and processing instructions
+    if (html.startsWith("<!--", i)) {
+      const close = html.indexOf("-->", i + 4);
+      i = close === -1 ? html.length : close + 3;
+      if (!dropping) report("element", "#comment");
+      continue;
+    }
+    if (html[i + 1] === "!" || html[i + 1] === "?") {
+      const close = html.indexOf(">", i);
+      i = close === -1 ? html.length : close + 1;
+      if (!dropping) report("element", "#declaration");
+      continue;
+    }
+
+    // Closing tag
+    const endTag = sanitizeMatchAt(SANITIZE_END_TAG, html, i);
+    if (endTag) {
+      i += endTag[0].length;
+      const tag = endTag[1].toLowerCase();
+      if (dropping) {
+        if (tag === dropping.tag && --dropping.depth === 0) dropping = null;
+        continue;
+      }
+      const at = open.lastIndexOf(tag);
+      if (at !== -1) {
+        while (open.length > at) out.push(`</${open.pop()}>`);
+      }
+      continue;
+    }
+
+    // Start tag
+    const startTag = sanitizeMatchAt(SANITIZE_START_TAG, html, i);
+    const parsed = startTag ? sanitizeParseTag(html, i + startTag[0].length) : null;
+    if (!startTag || !parsed) {
+      // A bare "<" is text
+      if (!dropping) out.push("&lt;");
+      i++;
+      continue;
+    }
+    i = parsed.end;
+    const tag = startTag[1].toLowerCase();
+
+    if (SANITIZE_RAW_TEXT_TAGS.has(tag)) {
+      const closePattern = new RegExp(`</${tag}[\\s>/]`, "gi");
+      closePattern.lastIndex = i;
+      const close = closePattern.exec(html);
+      const end = close ? html.indexOf(">", close.index) + 1 : html.length;
+      if (!dropping && tag === "iframe") {
+        const src = parsed.attrs.find(([name]) => name === "src")?.[1];
+        if (src && sanitizeUrlAllowed("iframe", "src", src)) {
+          out.push(sanitizeStartTag(tag, parsed.attrs, report), "</iframe>");
+        } else {
+          report("element", tag);
+        }
+      } else if (!dropping) {
+        report("element", tag);
+      }
+      i = end || html.length;
+      continue;
+    }
+
+    if (dropping) {
+      if (tag === dropping.tag && !parsed.selfClosing) dropping.depth++;
+      continue;
+    }
+
+    if (SANITIZE_DROP_TAGS.has(tag)) {
+      report("element", tag);
+      if (!SANITIZE_VOID_TAGS.has(tag) && !parsed.selfClosing) dropping = { tag, depth: 1 };
+      continue;
+    }
+
+    if (!SANITIZE_TAGS[tag]) {
+      // Unknown tag: unwrap it and keep its contents
+      report("element", tag);
+      continue;
+    }
+
+    out.push(sanitizeStartTag(tag, parsed.attrs, report));
+    if (!SANITIZE_VOID_TAGS.has(tag)) open.push(tag);
+  }
+
+  while (open.length > 0) out.push(`</${open.pop()}>`);
+  return { html: out.join(""), removed: Array.from(counts.values()) };
+}
+
+/** Rebuild an allowed start tag from its permitted attributes */
+function sanitizeStartTag(
+  tag: string,
+  attrs: [string, string | null][],
+  report: (kind: SanitizeRemoval["kind"], name: string) => void
+): string {
+  const allowed = SANITIZE_TAGS[tag];
+  const kept = new Map<string, string | null>();
+  for (const [name, value] of attrs) {
+    if (kept.has(name)) continue;
+    if (!SANITIZE_GLOBAL_ATTRS.includes(name) && !allowed.includes(name)) {
+      report("attribute", `${tag}[${name}]`);
+      continue;
+    }
+    if (SANITIZE_URL_ATTRS.has(name) && !sanitizeUrlAllowed(tag, name, value ?? "")) {
+      report("url", `${tag}[${name}]`);
+      continue;
+    }
+    if (name === "class") {
+      const classes = (value ?? "").split(/\s+/).filter(Boolean);
+      const safe = classes.filter((c) => SANITIZE_CLASS.test(c));
+      if (safe.length < classes.length) report("attribute", `${tag}[class]`);
+      if (safe.length > 0) kept.set(name, safe.join(" "));
+      continue;
+    }
+    if (name === "style") {
+      const { style, dropped } = sanitizeStyle(value ?? "");
+      if (dropped > 0) report("attribute", `${tag}[style]`);
+      if (style) kept.set(name, style);
+      continue;
+    }
+    if (name === "target") {
+      if (value === "_blank") kept.set(name, value);
+      else report("attribute", `${tag}[target]`);
+      continue;
+    }
+    kept.set(name, value);
+  }
+
+  // New tabs mustn't get a handle on this page
+  if (tag === "a" && kept.get("target") === "_blank") {
+    const rel = new Set((kept.get("rel") || "").split(/\s+/).filter(Boolean));
+    rel.add("noopener");
+    rel.add("noreferrer");
+    kept.set("rel", Array.from(rel).join(" "));
+  }
+
+  const rendered = Array.from(kept.entries())
+    .map(([name, value]) => (value === null ? ` ${name}` : ` ${name}="${sanitizeEscapeAttr(value)}"`))
+    .join("");
+  return `<${tag}${rendered}>`;
+}
+
 async function downloadAndUploadImage(imageInput: any, articleId: number, index: number, sb: any): Promise<any> {
   const { url, caption = "", order } = imageInput;
   try {
@@ -319,21 +967,26 @@ async function downloadAndUploadImage(imageInput: any, articleId: number, index:
   }
 }
 
-// Unified auth: try X-API-Key first, then fall back to Bearer JWT
+// Unified auth: try X-API-Key first, then fall back to Bearer JWT. API-key
+// requests are checked against the key's scopes and rate limited per route
+// group; JWT requests (the web app) get full access and aren't limited.
 async function authenticateRequest(
-  req: express.Request
-): Promise<{ userId?: number; error?: string; authMethod?: string }> {
+  req: express.Request,
+  res?: express.Response,
+  options: { route?: string; scope?: string } = {}
+): Promise<{ userId?: number; access?: any; error?: string; status?: number; authMethod?: string }> {
   const apiKeyHeader = req.headers["x-api-key"] as string | undefined;
   if (apiKeyHeader) {
-    const result = await authenticateApiKey(apiKeyHeader, supabase);
+    const result = await authenticateApiKey(apiKeyHeader, supabase, options);
+    if (res && result.rateLimit) setRateLimitHeaders(res, result.rateLimit);
     if (result.userId) {
-      return { userId: result.userId, authMethod: "api-key" };
+      return { userId: result.userId, access: result.access, authMethod: "api-key" };
     }
     return result;
   }
   const result = await authenticateUser(req);
   if (result.userId) {
-    return { userId: result.userId, authMethod: "jwt" };
+    return { userId: result.userId, access: FULL_API_ACCESS, authMethod: "jwt" };
   }
   return result;
 }
@@ -378,6 +1031,9 @@ async function authenticateUser(
 
 // Create Express app
 const app = express();
+// Behind Vercel's proxy: req.ip is the client from X-Forwarded-For, as in the
+// dev server (server/auth.ts)
+app.set("trust proxy", 1);
 
 // Debug logs for deployment
 console.log("API Handler initializing (all-in-one version)");
@@ -405,9 +1061,16 @@ app.use((req, res, next) => {
     res.header("Access-Control-Allow-Origin", origin);
     res.header(
       "Access-Control-Allow-Methods",
-      "GET, POST, PUT, DELETE, OPTIONS"
+      "GET, POST, PUT, PATCH, DELETE, OPTIONS"
+    );
+    res.header(
+      "Access-Control-Allow-Headers",
+      "Content-Type, Authorization, X-API-Key, Idempotency-Key"
+    );
+    res.header(
+      "Access-Control-Expose-Headers",
+      "X-RateLimit-Limit, X-RateLimit-Remaining, X-RateLimit-Reset, Retry-After, Idempotent-Replayed"
     );
-    res.header("Access-Control-Allow-Headers", "Content-Type, Authorization, X-API-Key");
     res.header("Access-Control-Allow-Credentials", "true");
   }
 
@@ -1133,9 +1796,98 @@ app.post("/api/channels", async (req, res) => {
   }
 });
 
+// ---- Scheduled publishing ----
+// A scheduled article has status "scheduled", published=false and a future
+// published_at. Due ones are promoted by the cron endpoint below and, at most
+// once a minute, before feeds and the sitemap render. Canonical copy:
+// server/scheduled-publishing.ts — keep the two in sync.
+
+const PROMOTION_THROTTLE_MS = 60 * 1000; // 1 minute
+let lastPromotionRun = 0;
+
+function parseScheduledFor(value): { date?: Date; error?: string } {
+  if (typeof value !== "string" && typeof value !== "number") {
+    return { error: "scheduledFor must be an ISO 8601 date string" };
+  }
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    return { error: "scheduledFor must be an ISO 8601 date string" };
+  }
+  if (date.getTime() <= Date.now()) {
+    return { error: "scheduledFor must be in the future" };
+  }
+  return { date };
+}
+
+async function promoteDueScheduledArticles(sb): Promise<any[]> {
+  lastPromotionRun = Date.now();
+  const { data, error } = await sb
+    .from("articles")
+    .update({ status: "published", published: true })
+    .eq("status", "scheduled")
+    .lte("published_at", new Date().toISOString())
+    .select("id, title, slug, channel_id, user_id, status, published, published_at");
+
+  if (error) {
+    console.error("Error promoting scheduled articles:", error);
+    return [];
+  }
+  if (data && data.length > 0) {
+    console.log(
+      `Promoted ${data.length} scheduled article(s):`,
+      data.map((a) => a.id).join(", ")
+    );
+    await Promise.all(
+      data.map(async (a) => {
+        await emitArticleWebhookEvent(sb, a.user_id, "article.published", webhookArticleData(a));
+        await notifyArticlePublished(sb, a);
+      })
+    );
+  }
+  return data || [];
+}
+
+async function promoteDueScheduledArticlesThrottled(sb): Promise<void> {
+  if (Date.now() - lastPromotionRun < PROMOTION_THROTTLE_MS) return;
+  await promoteDueScheduledArticles(sb);
+}
+
+// Promote due scheduled articles. Called by the Vercel cron (see vercel.json),
+// which sends "Authorization: Bearer $CRON_SECRET"; admins can also trigger it.
+app.get("/api/cron/publish-scheduled", async (req, res) => {
+  try {
+    const cronSecret = process.env.CRON_SECRET;
+    const isCron =
+      !!cronSecret && req.headers.authorization === `Bearer ${cronSecret}`;
+    if (!isCron) {
+      const uid = await getSupabaseUid(req);
+      if (!uid || !(await isAdminUser(uid))) {
+        return res.status(401).json({ error: "Unauthorized" });
+      }
+    }
+
+    const promoted = await promoteDueScheduledArticles(supabase);
+    return res.json({
+      promoted: promoted.length,
+      articles: promoted.map((a) => ({
+        id: a.id,
+        title: a.title,
+        slug: a.slug,
+        publishedAt: a.published_at,
+      })),
+    });
+  } catch (error) {
+    console.error("Error in publish-scheduled cron:", error);
+    return res.status(500).json({ error: "Server error" });
+  }
+});
+
 // Articles route with channel data
 app.get("/api/articles", async (req, res) => {
   try {
+    // Make sure stories that just came due show up in the feed
+    await promoteDueScheduledArticlesThrottled(supabase);
+
     console.log("Fetching articles with channel data from Supabase");
 
     // Fetch articles first
@@ -1255,7 +2007,9 @@ app.get("/api/articles", async (req, res) => {
             await supabase
               .from("comments")
               .select("article_id, id")
-              .in("article_id", articleIds);
+              .in("article_id", articleIds)
+              .is("deleted_at", null)
+              .is("hidden_at", null);
 
           if (commentCountsError) {
             console.error(
@@ -1434,11 +2188,26 @@ app.post("/api/articles", async (req, res) => {
       location_lat,
       location_lng,
       published = true,
+      scheduledFor,
+      liveStatus = null,
     } = req.body;
 
     if (!title || typeof title !== "string" || title.trim() === "") {
       return res.status(400).json({ error: "Title is required" });
     }
+    if (!isLiveStatus(liveStatus)) {
+      return res.status(400).json({ error: "liveStatus must be live, ended or null" });
+    }
+
+    // Optional future publish time — the article is held as "scheduled"
+    let scheduledDate: Date | undefined;
+    if (scheduledFor) {
+      const parsed = parseScheduledFor(scheduledFor);
+      if (parsed.error) {
+        return res.status(400).json({ error: parsed.error });
+      }
+      scheduledDate = parsed.date;
+    }
 
     if (!content || typeof content !== "string" || content.trim() === "") {
       return res.status(400).json({ error: "Content is required" });
@@ -1448,7 +2217,7 @@ app.post("/api/articles", async (req, res) => {
       return res.status(400).json({ error: "Valid channel ID is required" });
     }
 
-    // Verify the channel exists and belongs to this user
+    // Verify the channel exists and the user writes for it
     const channelIdNumber = parseInt(channelId);
     const { data: channel, error: channelError } = await supabase
       .from("channels")
@@ -1461,7 +2230,8 @@ app.post("/api/articles", async (req, res) => {
       return res.status(404).json({ error: "Channel not found" });
     }
 
-    if (channel.user_id !== userId) {
+    const role = await getChannelRole(supabase, channelIdNumber, userId);
+    if (!role) {
       console.error(
         `User ${userId} is not authorized to create article in channel ${channelIdNumber}`
       );
@@ -1469,6 +2239,13 @@ app.post("/api/articles", async (req, res) => {
         .status(403)
         .json({ error: "Not authorized to create article in this channel" });
     }
+    // Contributors write drafts; an editor or the owner publishes them
+    const mayPublish = canPublishInChannel(role);
+    if (scheduledDate && !mayPublish) {
+      return res
+        .status(403)
+        .json({ error: "Only editors and the channel owner can schedule articles" });
+    }
 
     // Generate a slug from the title
     const baseSlug = title
@@ -1486,20 +2263,30 @@ app.post("/api/articles", async (req, res) => {
 
     console.log("Generated slug for article:", fullSlug);
 
+    // Editor HTML goes through the same allow-list as API content
+    const { html: safeContent, removed: sanitized } = sanitizeArticleHtml(content);
+
     // Prepare the article object
     const articleData: any = {
       title: title.trim(),
-      content: content,
+      content: safeContent,
       channel_id: channelIdNumber,
       user_id: userId,
       category: category || "",
       slug: fullSlug,
-      published: published,
+      published: published && mayPublish,
       created_at: new Date().toISOString(),
-      status: published ? "published" : "draft",
+      status: published && mayPublish ? "published" : "draft",
       view_count: 0,
+      live_status: liveStatus,
     };
 
+    if (scheduledDate) {
+      articleData.published = false;
+      articleData.status = "scheduled";
+      articleData.published_at = scheduledDate.toISOString();
+    }
+
     // Handle backward compatibility for location
     articleData.location = location_name || location || null;
 
@@ -1628,14 +2415,94 @@ app.post("/api/articles", async (req, res) => {
       }
     }
 
+    if (article.published) {
+      await emitArticleWebhookEvent(
+        supabase,
+        userId,
+        "article.published",
+        webhookArticleData(article)
+      );
+      await notifyArticlePublished(supabase, article);
+    }
+
     // Return the created article
-    return res.status(201).json(article);
+    return res.status(201).json({ ...article, sanitized });
   } catch (error) {
     console.error("Error in create article endpoint:", error);
     return res.status(500).json({ error: "Server error" });
   }
 });
 
+// ---- Trending ----
+// Published articles ranked by view velocity: decayed views per hour from
+// article_views, boosted by net likes (SQL function trending_articles).
+// Registered before /api/articles/:id so "trending" isn't taken for an id.
+// Canonical copy: server/trending.ts — keep the two in sync.
+const TRENDING_WINDOW_HOURS = 48;
+const TRENDING_HALF_LIFE_HOURS = 6;
+const TRENDING_REACTION_BOOST = 0.25;
+const TRENDING_PAGE_SIZE = 20;
+const TRENDING_MAX_PAGE_SIZE = 50;
+
+/** Parse the ?limit= query param */
+function parseTrendingLimit(value: unknown): number {
+  return Math.min(
+    Math.max(parseInt(String(value ?? ""), 10) || TRENDING_PAGE_SIZE, 1),
+    TRENDING_MAX_PAGE_SIZE
+  );
+}
+
+/** Trending articles, hottest first, with their scores and channel */
+async function listTrendingArticles(
+  sb,
+  limit: number = TRENDING_PAGE_SIZE
+) {
+  const { data: scores, error } = await sb.rpc("trending_articles", {
+    window_hours: TRENDING_WINDOW_HOURS,
+    half_life_hours: TRENDING_HALF_LIFE_HOURS,
+    reaction_boost: TRENDING_REACTION_BOOST,
+    result_limit: limit,
+  });
+  if (error) throw error;
+  if (!scores || scores.length === 0) return [];
+
+  const { data: articles, error: articlesError } = await sb
+    .from("articles")
+    .select("id, title, slug, view_count, published_at, created_at, channel:channel_id(id, name, slug)")
+    .in("id", scores.map((s: any) => s.article_id));
+  if (articlesError) throw articlesError;
+  const articleMap = new Map((articles || []).map((a: any) => [a.id, a]));
+
+  return scores
+    .filter((s: any) => articleMap.has(s.article_id))
+    .map((s: any) => {
+      const article: any = articleMap.get(s.article_id);
+      return {
+        id: article.id,
+        title: article.title,
+        slug: article.slug,
+        channel: article.channel ?? null,
+        publishedAt: article.published_at ?? article.created_at,
+        viewCount: article.view_count || 0,
+        trendingScore: Number(Number(s.score).toPrecision(4)),
+        viewsPerHour: Number(Number(s.views_per_hour).toFixed(2)),
+        recentViews: Number(s.recent_views),
+        likes: Number(s.likes),
+        dislikes: Number(s.dislikes),
+      };
+    });
+}
+
+// Trending articles, hottest first. Query: limit (default 20, max 50)
+app.get("/api/articles/trending", async (req, res) => {
+  try {
+    return res.json(await listTrendingArticles(supabase, parseTrendingLimit(req.query.limit)));
+  } catch (error) {
+    console.error("Error in GET /api/articles/trending:", error);
+    return res.status(500).json({ error: "Failed to fetch trending articles" });
+  }
+});
+
 // Single article route (needed for article detail page)
 app.get("/api/articles/:id", async (req, res) => {
   try {
@@ -1841,6 +2708,14 @@ app.get("/api/articles/:id", async (req, res) => {
     // Add reaction data to the response
     await enrichArticleWithReactions(article, req);
 
+    // Everyone in the channel who wrote or edited it
+    try {
+      article.bylines = await listArticleBylines(supabase, article);
+    } catch (bylineError) {
+      console.error(`Error loading bylines for article ${article.id}:`, bylineError);
+      article.bylines = [];
+    }
+
     res.json(article);
   } catch (error) {
     console.error("Error fetching article:", error);
@@ -2149,11 +3024,19 @@ app.get("/api/user/channels", async (req, res) => {
         console.log("All channels in database:", allChannels);
       }
 
-      // Normal query for this user's channels
+      // Channels this user owns or writes for as an accepted member
+      const memberships = await listUserChannelMemberships(supabase, userId);
+      const memberChannelIds = memberships
+        .filter((m) => !m.pending)
+        .map((m) => m.channelId);
       const { data: channels, error: channelsError } = await supabase
         .from("channels")
         .select("*")
-        .eq("user_id", userId);
+        .or(
+          memberChannelIds.length > 0
+            ? `user_id.eq.${userId},id.in.(${memberChannelIds.join(",")})`
+            : `user_id.eq.${userId}`
+        );
 
       if (channelsError) {
         console.error("Error fetching user channels:", channelsError);
@@ -3175,6 +4058,21 @@ app.post("/api/channels/:id/subscribe", async (req, res) => {
     }
 
     console.log(`User ${userId} subscribed to channel ${channelId}`);
+
+    const { data: subscribedChannel } = await supabase
+      .from("channels")
+      .select("id, name, user_id")
+      .eq("id", channelId)
+      .maybeSingle();
+    if (subscribedChannel) {
+      await emitWebhookEvent(supabase, subscribedChannel.user_id, "channel.subscribed", {
+        channelId: subscribedChannel.id,
+        channelName: subscribedChannel.name,
+        subscriberId: userId,
+        subscribedAt: new Date().toISOString(),
+      });
+    }
+
     return res.status(201).json(data);
   } catch (error) {
     console.error("Error in subscribe endpoint:", error);
@@ -3380,7 +4278,9 @@ app.get("/api/channels/:id/articles", async (req, res) => {
       const { data: commentCounts, error: commentCountsError } = await supabase
         .from("comments")
         .select("article_id, id")
-        .in("article_id", articleIds);
+        .in("article_id", articleIds)
+        .is("deleted_at", null)
+        .is("hidden_at", null);
 
       if (commentCountsError) {
         console.error(
@@ -3593,15 +4493,10 @@ app.get("/api/channels/:id/drafts", async (req, res) => {
       return res.status(400).json({ error: "Invalid channel ID" });
     }
 
-    // Verify user owns this channel
-    const { data: channel, error: channelError } = await supabase
-      .from("channels")
-      .select("*")
-      .eq("id", channelId)
-      .eq("user_id", userId)
-      .single();
-
-    if (channelError || !channel) {
+    // Members see drafts: editors and the owner all of them, contributors
+    // their own
+    const role = await getChannelRole(supabase, channelId, userId);
+    if (!role) {
       console.error(
         `User ${userId} not authorized to view drafts for channel ${channelId}`
       );
@@ -3611,12 +4506,15 @@ app.get("/api/channels/:id/drafts", async (req, res) => {
     }
 
     // Fetch draft articles for the channel
-    const { data: drafts, error } = await supabase
+    let draftsQuery = supabase
       .from("articles")
       .select("*")
       .eq("channel_id", channelId)
-      .eq("published", false)
-      .order("created_at", { ascending: false });
+      .eq("published", false);
+    if (!canPublishInChannel(role)) draftsQuery = draftsQuery.eq("user_id", userId);
+    const { data: drafts, error } = await draftsQuery.order("created_at", {
+      ascending: false,
+    });
 
     if (error) {
       console.error(`Error fetching drafts for channel ${channelId}:`, error);
@@ -3781,14 +4679,374 @@ app.patch("/api/channels/:id", async (req, res) => {
   }
 });
 
-// Article comments endpoints
-app.post("/api/articles/:id/comments", async (req, res) => {
-  try {
-    const articleId = parseInt(req.params.id);
-    console.log(`Adding comment to article ${articleId}`);
+// ---- Comments ----
+// Author edits and soft deletes, channel-owner/admin hiding, reader flags,
+// the admin moderation queue and comment votes. Canonical copy:
+// server/comments.ts — keep the two in sync.
+const COMMENT_FLAG_REASONS = ["spam", "harassment", "off_topic", "other"];
+const COMMENT_MODERATION_ACTIONS = ["approve", "remove"];
 
-    // Extract the Authorization header (if any)
-    const authHeader = req.headers.authorization;
+const COMMENT_FLAG_DETAILS_MAX = 500;
+
+const COMMENT_SELECT =
+  "id, content, created_at, edited_at, deleted_at, hidden_at, parent_id, user:user_id(id, username)";
+
+/** Trimmed comment text, or null if it's missing or blank */
+function parseCommentContent(value: unknown): string | null {
+  if (typeof value !== "string" || value.trim() === "") return null;
+  return value.trim();
+}
+
+interface CommentVoteTally {
+  upvotes: number;
+  downvotes: number;
+  userVote: number; // the viewer's vote: 1, -1 or 0
+}
+
+/**
+ * Shape an article's comment rows for the thread view. Deleted comments lose
+ * their content and author; hidden ones lose their content unless the viewer
+ * moderates the channel. Removed comments with no visible replies beneath
+ * them are dropped entirely so they don't leave empty placeholders.
+ */
+function shapeCommentThread(
+  rows: any[],
+  options: { showHidden?: boolean; votes?: Map<number, CommentVoteTally> } = {}
+) {
+  const isRemoved = (row: any) => !!row.deleted_at || (!!row.hidden_at && !options.showHidden);
+  const children = new Map<number, any[]>();
+  for (const row of rows) {
+    if (row.parent_id == null) continue;
+    if (!children.has(row.parent_id)) children.set(row.parent_id, []);
+    children.get(row.parent_id)!.push(row);
+  }
+
+  const visible = new Map<number, boolean>();
+  const isVisible = (row: any): boolean => {
+    if (visible.has(row.id)) return visible.get(row.id)!;
+    visible.set(row.id, false); // guards against parent_id cycles
+    const result =
+      !isRemoved(row) || (children.get(row.id) || []).some((child) => isVisible(child));
+    visible.set(row.id, result);
+    return result;
+  };
+
+  return rows.filter(isVisible).map((row) => {
+    const deleted = !!row.deleted_at;
+    const hidden = !deleted && !!row.hidden_at;
+    const tally = options.votes?.get(row.id);
+    return {
+      id: row.id,
+      content: deleted || (hidden && !options.showHidden) ? null : row.content,
+      created_at: row.created_at,
+      edited_at: row.edited_at ?? null,
+      parent_id: row.parent_id ?? null,
+      user: deleted ? null : row.user ?? null,
+      deleted,
+      hidden,
+      upvotes: tally?.upvotes ?? 0,
+      downvotes: tally?.downvotes ?? 0,
+      score: (tally?.upvotes ?? 0) - (tally?.downvotes ?? 0),
+      user_vote: tally?.userVote ?? 0,
+    };
+  });
+}
+
+/** The comment plus the owner of the channel its article belongs to */
+async function loadCommentForModeration(sb, commentId: number) {
+  const { data, error } = await sb
+    .from("comments")
+    .select("*, article:article_id(id, user_id, channel:channel_id(id, user_id))")
+    .eq("id", commentId)
+    .maybeSingle();
+  if (error) throw error;
+  return data;
+}
+
+/** Whether the internal user id belongs to an admin */
+async function isAdminUserId(sb, userId: number): Promise<boolean> {
+  const { data: user } = await sb
+    .from("users")
+    .select("supabase_uid")
+    .eq("id", userId)
+    .maybeSingle();
+  if (!user?.supabase_uid) return false;
+  const { data: admin } = await sb
+    .from("admin_users")
+    .select("user_id")
+    .eq("user_id", user.supabase_uid)
+    .maybeSingle();
+  return !!admin;
+}
+
+/** Channel owners and admins may hide and restore an article's comments */
+async function canModerateArticleComments(
+  sb,
+  userId: number,
+  articleId: number
+): Promise<boolean> {
+  const { data: article } = await sb
+    .from("articles")
+    .select("id, channel:channel_id(user_id)")
+    .eq("id", articleId)
+    .maybeSingle();
+  const channel: any = article?.channel;
+  if (channel && channel.user_id === userId) return true;
+  return isAdminUserId(sb, userId);
+}
+
+/** Same check for a row from loadCommentForModeration, without re-reading the article */
+async function canModerateComment(
+  sb,
+  userId: number,
+  comment: any
+): Promise<boolean> {
+  if (comment.article?.channel?.user_id === userId) return true;
+  return isAdminUserId(sb, userId);
+}
+
+async function editComment(sb, commentId: number, content: string) {
+  const { data, error } = await sb
+    .from("comments")
+    .update({ content, edited_at: new Date().toISOString() })
+    .eq("id", commentId)
+    .select(COMMENT_SELECT)
+    .single();
+  if (error) throw error;
+  return shapeCommentThread([data])[0];
+}
+
+/** Soft delete: clear the content but keep the row for its replies */
+async function softDeleteComment(sb, commentId: number) {
+  const { error } = await sb
+    .from("comments")
+    .update({ content: "", deleted_at: new Date().toISOString() })
+    .eq("id", commentId);
+  if (error) throw error;
+}
+
+/**
+ * Hide or restore a comment. Hiding also resolves its open flags as removed,
+ * so the moderation queue doesn't ask about it again.
+ */
+async function setCommentHidden(
+  sb,
+  commentId: number,
+  hidden: boolean,
+  moderatorId: number
+) {
+  const { data, error } = await sb
+    .from("comments")
+    .update(
+      hidden
+        ? { hidden_at: new Date().toISOString(), hidden_by: moderatorId }
+        : { hidden_at: null, hidden_by: null }
+    )
+    .eq("id", commentId)
+    .select(COMMENT_SELECT)
+    .single();
+  if (error) throw error;
+  if (hidden) await resolveCommentFlags(sb, commentId, "removed", moderatorId);
+  return shapeCommentThread([data], { showHidden: true })[0];
+}
+
+/**
+ * Validate a flag request body. Returns the reason and optional details, or
+ * an error message.
+ */
+function parseCommentFlag(body: any): { reason?: string; details?: string | null; error?: string } {
+  const reason = body?.reason;
+  if (!COMMENT_FLAG_REASONS.includes(reason)) {
+    return { error: `reason must be one of ${COMMENT_FLAG_REASONS.join(", ")}` };
+  }
+  const details =
+    typeof body?.details === "string" && body.details.trim()
+      ? body.details.trim().slice(0, COMMENT_FLAG_DETAILS_MAX)
+      : null;
+  return { reason, details };
+}
+
+/** Record a reader's flag. Flagging the same comment twice is a no-op. */
+async function flagComment(
+  sb,
+  commentId: number,
+  userId: number,
+  reason: string,
+  details: string | null
+) {
+  const { error } = await sb
+    .from("comment_flags")
+    .upsert(
+      { comment_id: commentId, user_id: userId, reason, details },
+      { onConflict: "comment_id,user_id", ignoreDuplicates: true }
+    );
+  if (error) throw error;
+}
+
+/** Close every open flag on a comment */
+async function resolveCommentFlags(
+  sb,
+  commentId: number,
+  resolution: "approved" | "removed",
+  moderatorId: number
+) {
+  const { error } = await sb
+    .from("comment_flags")
+    .update({
+      resolved_at: new Date().toISOString(),
+      resolved_by: moderatorId,
+      resolution,
+    })
+    .eq("comment_id", commentId)
+    .is("resolved_at", null);
+  if (error) throw error;
+}
+
+/**
+ * Apply a moderation queue decision. approve leaves (or puts) the comment
+ * back on the page; remove hides it. Either way its open flags are closed.
+ */
+async function moderateFlaggedComment(
+  sb,
+  commentId: number,
+  action: string,
+  moderatorId: number
+) {
+  if (action === "remove") {
+    return setCommentHidden(sb, commentId, true, moderatorId);
+  }
+  const comment = await setCommentHidden(sb, commentId, false, moderatorId);
+  await resolveCommentFlags(sb, commentId, "approved", moderatorId);
+  return comment;
+}
+
+/**
+ * The moderation queue: comments with open flags, most-flagged first, each
+ * with its article and the individual reports.
+ */
+async function listFlaggedComments(sb) {
+  const { data, error } = await sb
+    .from("comment_flags")
+    .select(
+      `id, reason, details, created_at, reporter:user_id(id, username),
+       comment:comment_id(id, content, created_at, edited_at, deleted_at, hidden_at,
+         user:user_id(id, username), article:article_id(id, title, slug))`
+    )
+    .is("resolved_at", null)
+    .order("created_at", { ascending: false });
+  if (error) throw error;
+
+  const byComment = new Map<number, any>();
+  for (const flag of data || []) {
+    const comment: any = flag.comment;
+    if (!comment) continue;
+    if (!byComment.has(comment.id)) {
+      byComment.set(comment.id, {
+        comment: {
+          id: comment.id,
+          content: comment.content,
+          createdAt: comment.created_at,
+          editedAt: comment.edited_at,
+          deleted: !!comment.deleted_at,
+          hidden: !!comment.hidden_at,
+          author: comment.user ?? null,
+        },
+        article: comment.article ?? null,
+        flags: [],
+        latestFlagAt: flag.created_at,
+      });
+    }
+    const reporter: any = flag.reporter;
+    byComment.get(comment.id).flags.push({
+      id: flag.id,
+      reason: flag.reason,
+      details: flag.details,
+      createdAt: flag.created_at,
+      reporter: reporter ? { id: reporter.id, username: reporter.username } : null,
+    });
+  }
+
+  return Array.from(byComment.values()).sort(
+    (a, b) =>
+      b.flags.length - a.flags.length ||
+      new Date(b.latestFlagAt).getTime() - new Date(a.latestFlagAt).getTime()
+  );
+}
+
+// ---- Votes ----
+
+/** Vote tallies for the given comments, with the viewer's own vote if known */
+async function loadCommentVotes(
+  sb,
+  commentIds: number[],
+  viewerId?: number | null
+): Promise<Map<number, CommentVoteTally>> {
+  const tallies = new Map<number, CommentVoteTally>();
+  if (commentIds.length === 0) return tallies;
+
+  const { data, error } = await sb
+    .from("comment_votes")
+    .select("comment_id, user_id, value")
+    .in("comment_id", commentIds);
+  if (error) throw error;
+
+  for (const vote of data || []) {
+    if (!tallies.has(vote.comment_id)) {
+      tallies.set(vote.comment_id, { upvotes: 0, downvotes: 0, userVote: 0 });
+    }
+    const tally = tallies.get(vote.comment_id)!;
+    if (vote.value > 0) tally.upvotes++;
+    else tally.downvotes++;
+    if (viewerId && vote.user_id === viewerId) tally.userVote = vote.value;
+  }
+  return tallies;
+}
+
+/** Validate a vote request body: { value: 1 | -1 | 0 }, where 0 clears the vote */
+function parseCommentVote(body: any): { value?: number; error?: string } {
+  const value = body?.value;
+  if (value !== 1 && value !== -1 && value !== 0) {
+    return { error: "value must be 1, -1 or 0" };
+  }
+  return { value };
+}
+
+/** Set or clear the user's vote on a comment. Returns the comment's new tally. */
+async function setCommentVote(
+  sb,
+  commentId: number,
+  userId: number,
+  value: number
+) {
+  const { error } =
+    value === 0
+      ? await sb
+          .from("comment_votes")
+          .delete()
+          .eq("comment_id", commentId)
+          .eq("user_id", userId)
+      : await sb
+          .from("comment_votes")
+          .upsert(
+            { comment_id: commentId, user_id: userId, value },
+            { onConflict: "comment_id,user_id" }
+          );
+  if (error) throw error;
+
+  const tally = (await loadCommentVotes(sb, [commentId], userId)).get(commentId);
+  const upvotes = tally?.upvotes ?? 0;
+  const downvotes = tally?.downvotes ?? 0;
+  return { id: commentId, upvotes, downvotes, score: upvotes - downvotes, user_vote: value };
+}
+
+// Article comments endpoints
+app.post("/api/articles/:id/comments", async (req, res) => {
+  try {
+    const articleId = parseInt(req.params.id);
+    console.log(`Adding comment to article ${articleId}`);
+
+    // Extract the Authorization header (if any)
+    const authHeader = req.headers.authorization;
     if (!authHeader || !authHeader.startsWith("Bearer ")) {
       console.log("No Authorization header found for adding comment");
       return res.status(401).json({ error: "Authentication required" });
@@ -3825,7 +5083,7 @@ app.post("/api/articles/:id/comments", async (req, res) => {
     // Check if article exists
     const { data: article, error: articleError } = await supabase
       .from("articles")
-      .select("id")
+      .select("id, user_id")
       .eq("id", articleId)
       .single();
 
@@ -3863,6 +5121,18 @@ app.post("/api/articles/:id/comments", async (req, res) => {
     // Add parent_id if it's provided
     if (parent_id) {
       commentData.parent_id = parseInt(parent_id, 10);
+
+      const { data: parent } = await supabase
+        .from("comments")
+        .select("id, article_id, deleted_at, hidden_at")
+        .eq("id", commentData.parent_id)
+        .maybeSingle();
+      if (!parent || parent.article_id !== articleId) {
+        return res.status(400).json({ error: "Parent comment not found" });
+      }
+      if (parent.deleted_at || parent.hidden_at) {
+        return res.status(409).json({ error: "Cannot reply to a removed comment" });
+      }
     }
 
     console.log("Final comment data to insert:", commentData);
@@ -3879,6 +5149,17 @@ app.post("/api/articles/:id/comments", async (req, res) => {
     }
 
     console.log(`Comment added to article ${articleId} by user ${userId}`);
+    await emitWebhookEvent(supabase, article.user_id, "comment.created", {
+      id: comment.id,
+      articleId,
+      parentId: comment.parent_id ?? null,
+      content: comment.content,
+      author: comment.user
+        ? { id: comment.user.id, username: comment.user.username }
+        : null,
+      createdAt: comment.created_at,
+    });
+    await notifyCommentReply(supabase, comment);
     return res.status(201).json(comment);
   } catch (error) {
     console.error("Error in add comment endpoint:", error);
@@ -3911,14 +5192,7 @@ app.get("/api/articles/:id/comments", async (req, res) => {
     // Fetch comments with user info
     const { data: comments, error: commentsError } = await supabase
       .from("comments")
-      .select(
-        `
-        id,
-        content,
-        created_at,
-        user:user_id(id, username)
-      `
-      )
+      .select(COMMENT_SELECT)
       .eq("article_id", articleId)
       .order("created_at", { ascending: true });
 
@@ -3933,13 +5207,191 @@ app.get("/api/articles/:id/comments", async (req, res) => {
     console.log(
       `Found ${comments?.length || 0} comments for article ${articleId}`
     );
-    return res.json(comments || []);
+
+    // The channel owner and admins still see hidden comments so they can
+    // restore them; signed-in readers get their own votes back
+    let viewerId = null;
+    let showHidden = false;
+    if (req.headers.authorization) {
+      const { userId } = await authenticateUser(req);
+      if (userId) {
+        viewerId = userId;
+        showHidden = await canModerateArticleComments(supabase, userId, articleId);
+      }
+    }
+    const votes = await loadCommentVotes(
+      supabase,
+      (comments || []).map((c) => c.id),
+      viewerId
+    );
+    return res.json(shapeCommentThread(comments || [], { showHidden, votes }));
   } catch (error) {
     console.error("Error in get comments endpoint:", error);
     return res.status(500).json({ error: "Server error" });
   }
 });
 
+// Edit your own comment
+app.patch("/api/comments/:id", async (req, res) => {
+  try {
+    const { userId, error: authError } = await authenticateUser(req);
+    if (authError || !userId) {
+      return res.status(401).json({ error: authError || "Authentication required" });
+    }
+
+    const comment = await loadCommentForModeration(supabase, parseInt(req.params.id));
+    if (!comment) return res.status(404).json({ error: "Comment not found" });
+    if (comment.user_id !== userId) {
+      return res.status(403).json({ error: "You can only edit your own comments" });
+    }
+    if (comment.deleted_at || comment.hidden_at) {
+      return res.status(409).json({ error: "This comment has been removed" });
+    }
+
+    const content = parseCommentContent(req.body?.content);
+    if (!content) return res.status(400).json({ error: "Comment content is required" });
+    return res.json(await editComment(supabase, comment.id, content));
+  } catch (error) {
+    console.error("Error in PATCH /api/comments/:id:", error);
+    return res.status(500).json({ error: "Server error" });
+  }
+});
+
+// Delete your own comment. Soft: replies stay in the thread under a placeholder.
+app.delete("/api/comments/:id", async (req, res) => {
+  try {
+    const { userId, error: authError } = await authenticateUser(req);
+    if (authError || !userId) {
+      return res.status(401).json({ error: authError || "Authentication required" });
+    }
+
+    const comment = await loadCommentForModeration(supabase, parseInt(req.params.id));
+    if (!comment) return res.status(404).json({ error: "Comment not found" });
+    if (comment.user_id !== userId) {
+      return res.status(403).json({ error: "You can only delete your own comments" });
+    }
+    if (!comment.deleted_at) await softDeleteComment(supabase, comment.id);
+    return res.status(204).send();
+  } catch (error) {
+    console.error("Error in DELETE /api/comments/:id:", error);
+    return res.status(500).json({ error: "Server error" });
+  }
+});
+
+// Hide or restore a comment (channel owner or admin). Body: { hidden: boolean }
+app.put("/api/comments/:id/visibility", async (req, res) => {
+  try {
+    const { userId, error: authError } = await authenticateUser(req);
+    if (authError || !userId) {
+      return res.status(401).json({ error: authError || "Authentication required" });
+    }
+    if (typeof req.body?.hidden !== "boolean") {
+      return res.status(400).json({ error: "hidden must be true or false" });
+    }
+
+    const comment = await loadCommentForModeration(supabase, parseInt(req.params.id));
+    if (!comment) return res.status(404).json({ error: "Comment not found" });
+    if (!(await canModerateComment(supabase, userId, comment))) {
+      return res.status(403).json({ error: "Only the channel owner or an admin can moderate comments" });
+    }
+    return res.json(await setCommentHidden(supabase, comment.id, req.body.hidden, userId));
+  } catch (error) {
+    console.error("Error in PUT /api/comments/:id/visibility:", error);
+    return res.status(500).json({ error: "Server error" });
+  }
+});
+
+// Vote a comment up or down. Body: { value: 1 | -1 | 0 } (0 clears your vote)
+app.post("/api/comments/:id/vote", async (req, res) => {
+  try {
+    const { userId, error: authError } = await authenticateUser(req);
+    if (authError || !userId) {
+      return res.status(401).json({ error: authError || "Authentication required" });
+    }
+
+    const { value, error: voteError } = parseCommentVote(req.body);
+    if (voteError) return res.status(400).json({ error: voteError });
+
+    const comment = await loadCommentForModeration(supabase, parseInt(req.params.id));
+    if (!comment) return res.status(404).json({ error: "Comment not found" });
+    if (comment.deleted_at || comment.hidden_at) {
+      return res.status(409).json({ error: "This comment has been removed" });
+    }
+    if (comment.user_id === userId) {
+      return res.status(400).json({ error: "You can't vote on your own comment" });
+    }
+    return res.json(await setCommentVote(supabase, comment.id, userId, value));
+  } catch (error) {
+    console.error("Error in POST /api/comments/:id/vote:", error);
+    return res.status(500).json({ error: "Server error" });
+  }
+});
+
+// Report a comment to the moderators. Body: { reason, details? }
+app.post("/api/comments/:id/flag", async (req, res) => {
+  try {
+    const { userId, error: authError } = await authenticateUser(req);
+    if (authError || !userId) {
+      return res.status(401).json({ error: authError || "Authentication required" });
+    }
+
+    const { reason, details, error: flagError } = parseCommentFlag(req.body);
+    if (flagError) return res.status(400).json({ error: flagError });
+
+    const comment = await loadCommentForModeration(supabase, parseInt(req.params.id));
+    if (!comment || comment.deleted_at) {
+      return res.status(404).json({ error: "Comment not found" });
+    }
+    if (comment.user_id === userId) {
+      return res.status(400).json({ error: "You can't flag your own comment" });
+    }
+    await flagComment(supabase, comment.id, userId, reason, details);
+    return res.status(201).json({ message: "Thanks, a moderator will review this comment" });
+  } catch (error) {
+    console.error("Error in POST /api/comments/:id/flag:", error);
+    return res.status(500).json({ error: "Server error" });
+  }
+});
+
+// Moderation queue: comments with unresolved flags (admin only)
+app.get("/api/admin/comment-flags", async (req, res) => {
+  try {
+    const uid = await getSupabaseUid(req);
+    if (!uid || !(await isAdminUser(uid))) {
+      return res.status(403).json({ error: "Admin access required" });
+    }
+    return res.json(await listFlaggedComments(supabase));
+  } catch (error) {
+    console.error("Error in GET /api/admin/comment-flags:", error);
+    return res.status(500).json({ error: "Server error" });
+  }
+});
+
+// Resolve a flagged comment (admin only). Body: { action: "approve" | "remove" }
+app.post("/api/admin/comment-flags/:commentId", async (req, res) => {
+  try {
+    const uid = await getSupabaseUid(req);
+    if (!uid || !(await isAdminUser(uid))) {
+      return res.status(403).json({ error: "Admin access required" });
+    }
+    const { userId } = await authenticateUser(req);
+
+    const action = req.body?.action;
+    if (!COMMENT_MODERATION_ACTIONS.includes(action)) {
+      return res
+        .status(400)
+        .json({ error: `action must be one of ${COMMENT_MODERATION_ACTIONS.join(", ")}` });
+    }
+
+    const comment = await loadCommentForModeration(supabase, parseInt(req.params.commentId));
+    if (!comment) return res.status(404).json({ error: "Comment not found" });
+    return res.json(await moderateFlaggedComment(supabase, comment.id, action, userId));
+  } catch (error) {
+    console.error("Error in POST /api/admin/comment-flags/:commentId:", error);
+    return res.status(500).json({ error: "Server error" });
+  }
+});
+
 // Article view endpoint
 app.post("/api/articles/:slug/view", async (req, res) => {
   try {
@@ -4007,22 +5459,31 @@ app.post("/api/articles/:slug/view", async (req, res) => {
 
     let shouldInvalidateFeeds = false;
     let updatedViewCount = currentCount;
+    // Echoed back so the client can attach read depth to this view
+    let viewId = existingView?.id ?? null;
+    const ipHash = viewerIpHash(req.ip);
 
     if (!existingView) {
       console.log("New view detected, recording view");
 
       // Record the view in article_views table
-      const { error: viewError } = await supabase.from("article_views").insert({
-        article_id: articleId,
-        user_id: userId,
-        client_identifier: clientIdentifier,
-        viewed_at: new Date().toISOString(),
-      });
+      const { data: insertedView, error: viewError } = await supabase
+        .from("article_views")
+        .insert({
+          article_id: articleId,
+          user_id: userId,
+          client_identifier: clientIdentifier,
+          viewed_at: new Date().toISOString(),
+          ...parseViewContext(req.body, req.headers["user-agent"], req.ip),
+        })
+        .select("id")
+        .single();
 
       if (viewError) {
         console.error("Error recording view:", viewError);
         throw viewError;
       }
+      viewId = insertedView.id;
 
       // Increment the current view count by 1, ALWAYS preserving the current count
       // This ensures admin-set counts are respected
@@ -4047,6 +5508,10 @@ app.post("/api/articles/:slug/view", async (req, res) => {
       console.log(
         "View already recorded for this client, not incrementing count"
       );
+      // A returning reader may be on another network; their engagement beacon comes from this one
+      if (ipHash && existingView.ip_hash !== ipHash) {
+        await supabase.from("article_views").update({ ip_hash: ipHash }).eq("id", existingView.id);
+      }
     }
 
     // Return the current view count
@@ -4056,6 +5521,7 @@ app.post("/api/articles/:slug/view", async (req, res) => {
       message: existingView ? "View already recorded" : "View recorded",
       shouldInvalidateFeeds,
       view_count: updatedViewCount,
+      viewId,
     });
   } catch (error) {
     console.error("Error processing view:", error);
@@ -4063,61 +5529,294 @@ app.post("/api/articles/:slug/view", async (req, res) => {
   }
 });
 
-// Article update endpoint
-app.patch("/api/articles/:id", async (req, res) => {
+// ---- Article revision history ----
+// Every edit, status toggle and restore appends a snapshot to
+// article_revisions. Canonical copy: server/article-revisions.ts — keep the
+// two in sync.
+
+const REVISION_INSERT_ATTEMPTS = 3; // tries at a free revision number
+
+async function recordArticleRevision(
+  sb,
+  before,
+  after,
+  editedBy: number,
+  source: "original" | "edit" | "status" | "restore",
+  restoredFrom?: number
+): Promise<void> {
   try {
-    console.log("Update article endpoint called");
-
-    // Get article ID or slug from URL parameter
-    const idOrSlug = req.params.id;
-    console.log("Looking up article:", idOrSlug);
+    // Racing saves can pick the same number and collide on the unique
+    // (article_id, revision_number); the loser reads the latest again
+    for (let attempt = 1; ; attempt++) {
+      const { data: latest } = await sb
+        .from("article_revisions")
+        .select("revision_number")
+        .eq("article_id", after.id)
+        .order("revision_number", { ascending: false })
+        .limit(1)
+        .maybeSingle();
 
-    // Authenticate user
-    const { userId, error: authError } = await authenticateUser(req);
-    if (authError) {
-      return res.status(401).json({ message: authError });
-    }
+      let next = (latest?.revision_number || 0) + 1;
+      const rows: any[] = [];
+
+      if (!latest) {
+        // First tracked change: keep what the article looked like beforehand
+        rows.push({
+          article_id: before.id,
+          revision_number: next++,
+          title: before.title,
+          content: before.content,
+          status: before.status ?? null,
+          published: before.published ?? null,
+          source: "original",
+          edited_by: before.user_id,
+        });
+      }
 
-    // Fetch the article to check ownership - try both ID and slug
-    let article;
-    let fetchError;
+      rows.push({
+        article_id: after.id,
+        revision_number: next,
+        title: after.title,
+        content: after.content,
+        status: after.status ?? null,
+        published: after.published ?? null,
+        source,
+        restored_from: restoredFrom ?? null,
+        edited_by: editedBy,
+      });
 
-    if (/^\d+$/.test(idOrSlug)) {
-      // It's a numeric ID
-      const result = await supabase
-        .from("articles")
-        .select("*")
-        .eq("id", parseInt(idOrSlug))
-        .single();
-      article = result.data;
-      fetchError = result.error;
-    } else {
-      // Try slug lookup
-      const result = await supabase
-        .from("articles")
-        .select("*")
-        .eq("slug", idOrSlug)
-        .single();
-      article = result.data;
-      fetchError = result.error;
+      const { error } = await sb.from("article_revisions").insert(rows);
+      if (!error) return;
+      if (error.code !== "23505" || attempt >= REVISION_INSERT_ATTEMPTS) {
+        console.error("Error recording article revision:", error);
+        return;
+      }
     }
+  } catch (error) {
+    console.error("Error recording article revision:", error);
+  }
+}
 
-    if (fetchError || !article) {
-      console.error("Error fetching article:", fetchError);
-      return res.status(404).json({ message: "Article not found" });
-    }
+function mapRevisionRow(row, includeContent = false) {
+  const mapped: Record<string, any> = {
+    id: row.id,
+    revisionNumber: row.revision_number,
+    title: row.title,
+    status: row.status,
+    published: row.published,
+    source: row.source,
+    restoredFrom: row.restored_from,
+    createdAt: row.created_at,
+    editedBy: row.editor
+      ? { id: row.editor.id, username: row.editor.username }
+      : null,
+  };
+  if (includeContent) mapped.content = row.content;
+  return mapped;
+}
 
-    // Check if user owns the article
-    if (article.user_id !== userId) {
-      return res
-        .status(403)
-        .json({ message: "Not authorized to update this article" });
-    }
+// Resolve an article by id or slug and check the caller owns it. Revision
+// history is owner-only: it can contain text that was deliberately removed.
+// Restoring changes the article, so on a published one it needs publish rights.
+async function loadOwnedArticleForRevisions(req, res, restoring = false) {
+  const { userId, error: authError } = await authenticateUser(req);
+  if (authError) {
+    res.status(401).json({ error: authError });
+    return null;
+  }
 
-    // Extract update fields from request body
-    const {
-      title,
-      content,
+  const idOrSlug = req.params.id;
+  const isNumericId = /^\d+$/.test(idOrSlug);
+  const { data: article, error } = await supabase
+    .from("articles")
+    .select("*")
+    .eq(isNumericId ? "id" : "slug", isNumericId ? parseInt(idOrSlug) : idOrSlug)
+    .single();
+
+  if (error || !article) {
+    res.status(404).json({ error: "Article not found" });
+    return null;
+  }
+  const access = await getArticleAccess(supabase, article, userId);
+  if (!(restoring ? canEditArticle(article, access) : access.canEdit)) {
+    res.status(403).json({
+      error: restoring
+        ? "Not authorized to change this article"
+        : "Not authorized to view this article's history",
+    });
+    return null;
+  }
+  return { article, userId };
+}
+
+const REVISION_SELECT =
+  "id, revision_number, title, status, published, source, restored_from, created_at, editor:edited_by(id, username)";
+
+// List revisions, newest first (content omitted — fetch one to diff it)
+app.get("/api/articles/:id/revisions", async (req, res) => {
+  try {
+    const owned = await loadOwnedArticleForRevisions(req, res);
+    if (!owned) return;
+
+    const { data, error } = await supabase
+      .from("article_revisions")
+      .select(REVISION_SELECT)
+      .eq("article_id", owned.article.id)
+      .order("revision_number", { ascending: false });
+
+    if (error) {
+      console.error("Error fetching article revisions:", error);
+      return res.status(500).json({ error: "Failed to fetch revisions" });
+    }
+
+    return res.json((data || []).map((row) => mapRevisionRow(row)));
+  } catch (error) {
+    console.error("Error in list revisions endpoint:", error);
+    return res.status(500).json({ error: "Server error" });
+  }
+});
+
+// Get a single revision including its content
+app.get("/api/articles/:id/revisions/:revisionId", async (req, res) => {
+  try {
+    const owned = await loadOwnedArticleForRevisions(req, res);
+    if (!owned) return;
+
+    const { data, error } = await supabase
+      .from("article_revisions")
+      .select(`${REVISION_SELECT}, content`)
+      .eq("article_id", owned.article.id)
+      .eq("id", parseInt(req.params.revisionId))
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error fetching article revision:", error);
+      return res.status(500).json({ error: "Failed to fetch revision" });
+    }
+    if (!data) {
+      return res.status(404).json({ error: "Revision not found" });
+    }
+
+    return res.json(mapRevisionRow(data, true));
+  } catch (error) {
+    console.error("Error in get revision endpoint:", error);
+    return res.status(500).json({ error: "Server error" });
+  }
+});
+
+// Restore a revision's title and content. The slug and publish state are
+// left alone so existing links keep working; the restore itself becomes a
+// new revision, so it can be undone the same way.
+app.post("/api/articles/:id/revisions/:revisionId/restore", async (req, res) => {
+  try {
+    const owned = await loadOwnedArticleForRevisions(req, res, true);
+    if (!owned) return;
+    const { article, userId } = owned;
+
+    const { data: revision, error: revisionError } = await supabase
+      .from("article_revisions")
+      .select("id, revision_number, title, content")
+      .eq("article_id", article.id)
+      .eq("id", parseInt(req.params.revisionId))
+      .maybeSingle();
+
+    if (revisionError) {
+      console.error("Error fetching revision to restore:", revisionError);
+      return res.status(500).json({ error: "Failed to fetch revision" });
+    }
+    if (!revision) {
+      return res.status(404).json({ error: "Revision not found" });
+    }
+
+    // Revisions saved before sanitizing existed may hold unsafe markup
+    const { data: updatedArticle, error: updateError } = await supabase
+      .from("articles")
+      .update({
+        title: revision.title,
+        content: sanitizeArticleHtml(revision.content || "").html,
+        last_edited: new Date().toISOString(),
+      })
+      .eq("id", article.id)
+      .select()
+      .single();
+
+    if (updateError) {
+      console.error(`Error restoring article ${article.id}:`, updateError);
+      return res.status(500).json({ error: "Failed to restore revision" });
+    }
+
+    await recordArticleRevision(
+      supabase,
+      article,
+      updatedArticle,
+      userId,
+      "restore",
+      revision.revision_number
+    );
+
+    return res.json(updatedArticle);
+  } catch (error) {
+    console.error("Error in restore revision endpoint:", error);
+    return res.status(500).json({ error: "Server error" });
+  }
+});
+
+// Article update endpoint
+app.patch("/api/articles/:id", async (req, res) => {
+  try {
+    console.log("Update article endpoint called");
+
+    // Get article ID or slug from URL parameter
+    const idOrSlug = req.params.id;
+    console.log("Looking up article:", idOrSlug);
+
+    // Authenticate user
+    const { userId, error: authError } = await authenticateUser(req);
+    if (authError) {
+      return res.status(401).json({ message: authError });
+    }
+
+    // Fetch the article to check ownership - try both ID and slug
+    let article;
+    let fetchError;
+
+    if (/^\d+$/.test(idOrSlug)) {
+      // It's a numeric ID
+      const result = await supabase
+        .from("articles")
+        .select("*")
+        .eq("id", parseInt(idOrSlug))
+        .single();
+      article = result.data;
+      fetchError = result.error;
+    } else {
+      // Try slug lookup
+      const result = await supabase
+        .from("articles")
+        .select("*")
+        .eq("slug", idOrSlug)
+        .single();
+      article = result.data;
+      fetchError = result.error;
+    }
+
+    if (fetchError || !article) {
+      console.error("Error fetching article:", fetchError);
+      return res.status(404).json({ message: "Article not found" });
+    }
+
+    // Check the user's role in the article's channel
+    const access = await getArticleAccess(supabase, article, userId);
+    if (!canEditArticle(article, access)) {
+      return res
+        .status(403)
+        .json({ message: "Not authorized to update this article" });
+    }
+
+    // Extract update fields from request body
+    const {
+      title,
+      content,
       categoryId,
       categoryIds,
       category,
@@ -4125,10 +5824,40 @@ app.patch("/api/articles/:id", async (req, res) => {
       location_name,
       location_lat,
       location_lng,
+      scheduledFor,
+      liveStatus,
     } = req.body;
 
     // Construct update object with only provided fields
     const updates: any = {};
+
+    // liveStatus: "live" starts live coverage, "ended" closes it, null makes
+    // the article a regular one again (its updates are kept)
+    if (liveStatus !== undefined) {
+      if (!isLiveStatus(liveStatus)) {
+        return res.status(400).json({ message: "liveStatus must be live, ended or null" });
+      }
+      updates.live_status = liveStatus;
+    }
+
+    // scheduledFor: a future time (re)schedules the article; null cancels a
+    // pending schedule and returns it to drafts.
+    if (scheduledFor) {
+      if (!access.canPublish) {
+        return res
+          .status(403)
+          .json({ message: "Only editors and the channel owner can schedule articles" });
+      }
+      const parsed = parseScheduledFor(scheduledFor);
+      if (parsed.error) {
+        return res.status(400).json({ message: parsed.error });
+      }
+      updates.status = "scheduled";
+      updates.published = false;
+      updates.published_at = parsed.date.toISOString();
+    } else if (scheduledFor === null && article.status === "scheduled") {
+      updates.status = "draft";
+    }
     if (title !== undefined) {
       updates.title = title;
 
@@ -4148,7 +5877,13 @@ app.patch("/api/articles/:id", async (req, res) => {
 
       console.log("Generated new slug for article update:", updates.slug);
     }
-    if (content !== undefined) updates.content = content;
+    // Editor HTML goes through the same allow-list as API content
+    let sanitized;
+    if (typeof content === "string") {
+      ({ html: updates.content, removed: sanitized } = sanitizeArticleHtml(content));
+    } else if (content !== undefined) {
+      return res.status(400).json({ message: "content must be a string" });
+    }
     if (category !== undefined) updates.category = category;
 
     // Handle location fields with the new structure
@@ -4194,6 +5929,14 @@ app.patch("/api/articles/:id", async (req, res) => {
       });
     }
 
+    // Only title/content changes are worth a revision
+    if (
+      updatedArticle.title !== article.title ||
+      updatedArticle.content !== article.content
+    ) {
+      await recordArticleRevision(supabase, article, updatedArticle, userId, "edit");
+    }
+
     // Handle category relationships if categoryIds is provided
     if (categoryIds && Array.isArray(categoryIds)) {
       // First remove all existing category relationships
@@ -4214,13 +5957,78 @@ app.patch("/api/articles/:id", async (req, res) => {
       }
     }
 
-    return res.json(updatedArticle);
+    await emitArticleWebhookEvent(
+      supabase,
+      userId,
+      updatedArticle.published && !article.published
+        ? "article.published"
+        : "article.updated",
+      webhookArticleData(updatedArticle)
+    );
+    if (updatedArticle.published && !article.published) {
+      await notifyArticlePublished(supabase, updatedArticle);
+    }
+
+    return res.json(sanitized ? { ...updatedArticle, sanitized } : updatedArticle);
   } catch (error) {
     console.error("Error in update article endpoint:", error);
     return res.status(500).json({ message: "Failed to update article" });
   }
 });
 
+// Delete an article along with its comments, reactions, images and
+// category links. Failures on the related rows are logged; the error from
+// deleting the article itself is returned.
+async function deleteArticleAndRelations(articleId: number) {
+  // Step 1: Delete all comments for this article
+  const { error: commentsError } = await supabase
+    .from("comments")
+    .delete()
+    .eq("article_id", articleId);
+
+  if (commentsError) {
+    console.error("Error deleting comments:", commentsError);
+  }
+
+  // Step 2: Delete all reactions for this article
+  const { error: reactionsError } = await supabase
+    .from("reactions")
+    .delete()
+    .eq("article_id", articleId);
+
+  if (reactionsError) {
+    console.error("Error deleting reactions:", reactionsError);
+  }
+
+  // Step 3: Delete all images for this article
+  const { error: imagesError } = await supabase
+    .from("article_images")
+    .delete()
+    .eq("article_id", articleId);
+
+  if (imagesError) {
+    console.error("Error deleting images:", imagesError);
+  }
+
+  // Step 4: Delete all category associations
+  const { error: categoriesError } = await supabase
+    .from("article_categories")
+    .delete()
+    .eq("article_id", articleId);
+
+  if (categoriesError) {
+    console.error("Error deleting article categories:", categoriesError);
+  }
+
+  // Step 5: Finally, delete the article
+  const { error: articleError } = await supabase
+    .from("articles")
+    .delete()
+    .eq("id", articleId);
+
+  return articleError;
+}
+
 // Delete an article
 app.delete("/api/articles/:id", async (req, res) => {
   try {
@@ -4265,7 +6073,7 @@ app.delete("/api/articles/:id", async (req, res) => {
       return res.status(404).json({ message: "Article not found" });
     }
 
-    if (article.user_id !== userId) {
+    if (!canEditArticle(article, await getArticleAccess(supabase, article, userId))) {
       return res
         .status(403)
         .json({ message: "You don't have permission to delete this article" });
@@ -4274,51 +6082,7 @@ app.delete("/api/articles/:id", async (req, res) => {
     console.log(`Deleting article ${article.id} with a direct SQL approach`);
 
     try {
-      // Step 1: Delete all comments for this article
-      const { error: commentsError } = await supabase
-        .from("comments")
-        .delete()
-        .eq("article_id", article.id);
-
-      if (commentsError) {
-        console.error("Error deleting comments:", commentsError);
-      }
-
-      // Step 2: Delete all reactions for this article
-      const { error: reactionsError } = await supabase
-        .from("reactions")
-        .delete()
-        .eq("article_id", article.id);
-
-      if (reactionsError) {
-        console.error("Error deleting reactions:", reactionsError);
-      }
-
-      // Step 3: Delete all images for this article
-      const { error: imagesError } = await supabase
-        .from("article_images")
-        .delete()
-        .eq("article_id", article.id);
-
-      if (imagesError) {
-        console.error("Error deleting images:", imagesError);
-      }
-
-      // Step 4: Delete all category associations
-      const { error: categoriesError } = await supabase
-        .from("article_categories")
-        .delete()
-        .eq("article_id", article.id);
-
-      if (categoriesError) {
-        console.error("Error deleting article categories:", categoriesError);
-      }
-
-      // Step 5: Finally, delete the article
-      const { error: articleError } = await supabase
-        .from("articles")
-        .delete()
-        .eq("id", article.id);
+      const articleError = await deleteArticleAndRelations(article.id);
 
       if (articleError) {
         console.error("Error deleting article:", articleError);
@@ -4330,6 +6094,12 @@ app.delete("/api/articles/:id", async (req, res) => {
       }
 
       console.log(`Successfully deleted article ${article.id}`);
+      await emitArticleWebhookEvent(
+        supabase,
+        article.user_id,
+        "article.deleted",
+        webhookArticleData(article)
+      );
       return res.status(204).send();
     } catch (err) {
       console.error("Error during article deletion sequence:", err);
@@ -4603,7 +6373,7 @@ app.post("/api/articles/:slug/reactions", async (req, res) => {
     // First, get the article ID from the slug
     const { data: article, error: articleError } = await supabase
       .from("articles")
-      .select("id")
+      .select("id, user_id, title, slug")
       .eq("slug", articleSlug)
       .single();
 
@@ -4674,6 +6444,7 @@ app.post("/api/articles/:slug/reactions", async (req, res) => {
           console.error("Error updating reaction:", updateError);
           throw updateError;
         }
+        await notifyArticleReaction(supabase, article, userId, isLike);
       }
     } else {
       console.log("Creating new reaction");
@@ -4689,6 +6460,7 @@ app.post("/api/articles/:slug/reactions", async (req, res) => {
         console.error("Error adding reaction:", addError);
         throw addError;
       }
+      await notifyArticleReaction(supabase, article, userId, isLike);
     }
 
     // Get updated reaction counts
@@ -4892,10 +6664,10 @@ app.put("/api/articles/:id/images", async (req, res) => {
       return res.status(401).json({ message: authError });
     }
 
-    // Verify article ownership
+    // Verify the user may edit the article
     const { data: article, error: articleError } = await supabase
       .from("articles")
-      .select("user_id")
+      .select("user_id, channel_id, published")
       .eq("id", articleId)
       .single();
 
@@ -4903,7 +6675,7 @@ app.put("/api/articles/:id/images", async (req, res) => {
       return res.status(404).json({ message: "Article not found" });
     }
 
-    if (article.user_id !== userId) {
+    if (!canEditArticle(article, await getArticleAccess(supabase, article, userId))) {
       return res.status(403).json({
         message: "You don't have permission to update this article's images",
       });
@@ -5023,7 +6795,7 @@ app.post("/api/articles/:id/images", async (req, res) => {
       return res.status(404).json({ message: "Article not found" });
     }
 
-    if (article.user_id !== userId) {
+    if (!canEditArticle(article, await getArticleAccess(supabase, article, userId))) {
       console.log(
         `Permission denied - article.user_id: ${article.user_id}, userId: ${userId}`
       );
@@ -5243,24 +7015,39 @@ app.post("/api/articles/:id/toggle-status", async (req, res) => {
       return res.status(404).json({ message: "Article not found" });
     }
 
-    // Check if user owns the article
-    if (article.user_id !== userId) {
+    // Editors and the owner publish, schedule and take articles offline
+    const access = await getArticleAccess(supabase, article, userId);
+    const publishing = !article.published || !!req.body?.scheduledFor;
+    if (!(publishing ? access.canPublish : canEditArticle(article, access))) {
       return res
         .status(403)
         .json({ message: "Not authorized to toggle this article's status" });
     }
 
-    // Toggle the published status
+    // Toggle the published status, or schedule it when a future
+    // scheduledFor is given. Toggling a scheduled article publishes it now.
     const newStatus = article.published ? false : true;
+    const toggleUpdates: any = {
+      published: newStatus,
+      status: newStatus ? "published" : "draft",
+      last_edited: new Date().toISOString(),
+    };
+    if (req.body?.scheduledFor) {
+      const parsed = parseScheduledFor(req.body.scheduledFor);
+      if (parsed.error) {
+        return res.status(400).json({ message: parsed.error });
+      }
+      toggleUpdates.published = false;
+      toggleUpdates.status = "scheduled";
+      toggleUpdates.published_at = parsed.date.toISOString();
+    } else if (newStatus) {
+      toggleUpdates.published_at = new Date().toISOString();
+    }
 
     // Update the article
     const { data: updatedArticle, error: updateError } = await supabase
       .from("articles")
-      .update({
-        published: newStatus,
-        status: newStatus ? "published" : "draft",
-        last_edited: new Date().toISOString(),
-      })
+      .update(toggleUpdates)
       .eq("id", article.id) // Always use numeric ID for update
       .select()
       .single();
@@ -5272,11 +7059,18 @@ app.post("/api/articles/:id/toggle-status", async (req, res) => {
         .json({ message: "Failed to toggle article status" });
     }
 
-    console.log(
-      `Article ${article.id} toggled to ${
-        updatedArticle.published ? "published" : "draft"
-      }`
+    await recordArticleRevision(supabase, article, updatedArticle, userId, "status");
+    await emitArticleWebhookEvent(
+      supabase,
+      userId,
+      updatedArticle.published ? "article.published" : "article.updated",
+      webhookArticleData(updatedArticle)
     );
+    if (updatedArticle.published) {
+      await notifyArticlePublished(supabase, updatedArticle);
+    }
+
+    console.log(`Article ${article.id} toggled to ${updatedArticle.status}`);
     return res.json(updatedArticle);
   } catch (error) {
     console.error("Error in toggle article status endpoint:", error);
@@ -5376,7 +7170,9 @@ app.get("/api/articles/:idOrSlug", async (req, res) => {
     const { data: comments, error: commentsError } = await supabase
       .from("comments")
       .select("id")
-      .eq("article_id", article.id);
+      .eq("article_id", article.id)
+      .is("deleted_at", null)
+      .is("hidden_at", null);
 
     if (commentsError) {
       console.error("Error fetching comment count:", commentsError);
@@ -5522,11 +7318,21 @@ app.post("/api/v1/api-keys", async (req, res) => {
       return res.status(401).json({ error: authError || "Authentication required" });
     }
 
-    const { name, expiresInDays } = req.body;
+    const { name, expiresInDays, scopes, channelIds } = req.body;
     if (!name?.trim()) {
       return res.status(400).json({ error: "Key name is required" });
     }
 
+    const { access, error: accessError } = await validateApiKeyAccess(
+      supabase,
+      userId,
+      scopes,
+      channelIds
+    );
+    if (!access) {
+      return res.status(400).json({ error: accessError });
+    }
+
     const { key, hash, prefix } = generateApiKey();
 
     const expiresAt = expiresInDays
@@ -5541,6 +7347,8 @@ app.post("/api/v1/api-keys", async (req, res) => {
         user_id: userId,
         name: name.trim(),
         expires_at: expiresAt,
+        scopes: access.scopes,
+        channel_ids: access.channelIds,
       }])
       .select()
       .single();
@@ -5555,6 +7363,8 @@ app.post("/api/v1/api-keys", async (req, res) => {
       key, // Only returned once at creation time
       prefix,
       name: apiKeyRow.name,
+      scopes: apiKeyRow.scopes,
+      channelIds: apiKeyRow.channel_ids,
       createdAt: apiKeyRow.created_at,
       expiresAt: apiKeyRow.expires_at,
     });
@@ -5574,7 +7384,7 @@ app.get("/api/v1/api-keys", async (req, res) => {
 
     const { data: keys, error } = await supabase
       .from("api_keys")
-      .select("id, key_prefix, name, created_at, last_used_at, expires_at, is_revoked")
+      .select("id, key_prefix, name, scopes, channel_ids, created_at, last_used_at, expires_at, is_revoked")
       .eq("user_id", userId)
       .order("created_at", { ascending: false });
 
@@ -5583,14 +7393,18 @@ app.get("/api/v1/api-keys", async (req, res) => {
       return res.status(500).json({ error: "Failed to list API keys" });
     }
 
+    const usage = await loadApiKeyUsage(supabase, keys.map((k: any) => k.id));
     return res.json(keys.map((k: any) => ({
       id: k.id,
       prefix: k.key_prefix,
       name: k.name,
+      scopes: k.scopes,
+      channelIds: k.channel_ids,
       createdAt: k.created_at,
       lastUsedAt: k.last_used_at,
       expiresAt: k.expires_at,
       isRevoked: k.is_revoked,
+      usage: usage.get(k.id),
     })));
   } catch (error) {
     console.error("Error in GET /api/v1/api-keys:", error);
@@ -5639,639 +7453,4922 @@ app.delete("/api/v1/api-keys/:id", async (req, res) => {
   }
 });
 
-// --- API Access Management (admin-only) ---
+// ---- Webhooks ----
+// Per-API-key subscriptions that receive HMAC-signed POSTs when the key
+// owner's content changes. Failed deliveries are retried with backoff by the
+// deliver-webhooks cron. Canonical copy: server/webhooks.ts — keep the two
+// in sync.
+
+const WEBHOOK_EVENTS = [
+  "article.published",
+  "article.updated",
+  "article.deleted",
+  "comment.created",
+  "channel.subscribed",
+];
+
+const WEBHOOK_SITE_BASE = "https://www.newsplatform.org"; // for article urls
+const WEBHOOK_TIMEOUT = 5000; // 5 seconds
+// Delay before retry N (after the first attempt fails); then give up
+const WEBHOOK_RETRY_DELAYS_MS = [
+  60 * 1000, // 1 minute
+  5 * 60 * 1000, // 5 minutes
+  30 * 60 * 1000, // 30 minutes
+  2 * 60 * 60 * 1000, // 2 hours
+  12 * 60 * 60 * 1000, // 12 hours
+];
+// Plain-http localhost subscriptions are allowed outside production
+const WEBHOOK_ALLOW_LOCAL = process.env.NODE_ENV !== "production";
+const LOCAL_WEBHOOK_HOSTS = ["localhost", "127.0.0.1", "::1"];
+
+// Addresses a webhook may never reach: "this" network, RFC 1918, carrier-grade
+// NAT, loopback, link-local, benchmarking, multicast and reserved ranges
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 127], // unspecified and loopback
+  ["fc00::", 7], // unique local
+  ["fe80::", 10], // link-local
+  ["ff00::", 8], // multicast
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
 
-// Helper: get Supabase UUID from request JWT
-async function getSupabaseUid(req: express.Request): Promise<string | null> {
-  const authHeader = req.headers.authorization;
-  if (!authHeader?.startsWith("Bearer ")) return null;
-  const token = authHeader.split(" ")[1];
-  const { data } = await supabaseAuth.auth.getUser(token);
-  return data?.user?.id || null;
+function isPrivateAddress(address: string): boolean {
+  // IPv4-mapped IPv6 (::ffff:10.0.0.1) is checked as the IPv4 address
+  const mapped = address.toLowerCase().match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return PRIVATE_ADDRESSES.check(mapped[1], "ipv4");
+  return PRIVATE_ADDRESSES.check(address, isIPv4(address) ? "ipv4" : "ipv6");
 }
 
-// Helper: check if Supabase UUID is in admin_users
-async function isAdminUser(uid: string): Promise<boolean> {
-  const { data } = await supabase
-    .from("admin_users")
-    .select("user_id")
-    .eq("user_id", uid)
-    .maybeSingle();
-  return !!data;
+/** Generate a signing secret: whsec_ + 48 hex chars */
+function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString("hex")}`;
 }
 
-// List users with API access
-app.get("/api/v1/api-access-users", async (req, res) => {
+/** Signature header value for a payload body sent at `timestamp` (unix seconds) */
+function signWebhookPayload(
+  secret: string,
+  timestamp: number,
+  body: string
+): string {
+  const mac = createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+  return `t=${timestamp},v1=${mac}`;
+}
+
+/**
+ * Validate a subscription URL. Returns an error message or null.
+ * Plain http is only accepted for localhost, and only when allowInsecure.
+ */
+function validateWebhookUrl(
+  url: unknown,
+  allowInsecure: boolean
+): string | null {
+  if (typeof url !== "string" || !url.trim()) return "url is required";
+  let parsed: URL;
   try {
-    const uid = await getSupabaseUid(req);
-    if (!uid || !(await isAdminUser(uid))) {
-      return res.status(403).json({ error: "Admin access required" });
-    }
+    parsed = new URL(url);
+  } catch {
+    return "url must be a valid URL";
+  }
+  if (parsed.protocol === "https:") return null;
+  const isLocal = ["localhost", "127.0.0.1", "[::1]"].includes(parsed.hostname);
+  if (parsed.protocol === "http:" && isLocal && allowInsecure) return null;
+  return "url must use https";
+}
 
-    const { data: grants, error } = await supabase
-      .from("api_access_users")
-      .select("user_id, created_at, granted_by")
-      .order("created_at", { ascending: false });
+/**
+ * Check where a subscription URL leads. Returns an error message when its
+ * host is, or resolves to, a private or local address, else null. Local
+ * hosts pass when allowInsecure, as in validateWebhookUrl.
+ */
+async function webhookDestinationError(
+  url: string,
+  allowInsecure: boolean
+): Promise<string | null> {
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname.replace(/^\[|\]$/g, "");
+  } catch {
+    return "url must be a valid URL";
+  }
+  if (allowInsecure && LOCAL_WEBHOOK_HOSTS.includes(hostname)) return null;
 
-    if (error) {
-      return res.status(500).json({ error: "Failed to list API access users" });
+  let addresses: string[];
+  if (isIP(hostname)) {
+    addresses = [hostname];
+  } else {
+    try {
+      addresses = (await lookup(hostname, { all: true })).map((a) => a.address);
+    } catch {
+      return "url host could not be resolved";
     }
+  }
+  if (addresses.some(isPrivateAddress)) {
+    return "url must not point to a private or local address";
+  }
+  return null;
+}
 
-    // Look up usernames for each granted user
-    const results = [];
-    for (const grant of grants || []) {
-      const { data: authUser } = await supabase
-        .from("users")
-        .select("id, username")
-        .eq("supabase_uid", grant.user_id)
-        .maybeSingle();
+/** Validate an events list. Returns an error message or null. */
+function validateWebhookEvents(events: unknown): string | null {
+  if (!Array.isArray(events) || events.length === 0) {
+    return "events must be a non-empty array";
+  }
+  const unknown = events.filter((e) => !WEBHOOK_EVENTS.includes(e));
+  if (unknown.length > 0) return `Unknown events: ${unknown.join(", ")}`;
+  return null;
+}
 
-      results.push({
-        supabaseUid: grant.user_id,
-        username: authUser?.username || "Unknown",
-        localUserId: authUser?.id,
-        grantedAt: grant.created_at,
+/** Shape a subscription row for API responses (never includes the secret) */
+function mapWebhookRow(row: any) {
+  return {
+    id: row.id,
+    apiKeyId: row.api_key_id,
+    url: row.url,
+    events: row.events,
+    isActive: row.is_active,
+    secretPrefix: row.secret ? row.secret.substring(0, 12) : null,
+    createdAt: row.created_at,
+  };
+}
+
+/** Shape a delivery row for the delivery log */
+function mapWebhookDeliveryRow(row: any) {
+  return {
+    id: row.id,
+    event: row.event,
+    status: row.status,
+    attempts: row.attempts,
+    nextAttemptAt: row.next_attempt_at,
+    lastStatusCode: row.last_status_code,
+    lastError: row.last_error,
+    createdAt: row.created_at,
+    deliveredAt: row.delivered_at,
+    payload: row.payload,
+  };
+}
+
+/**
+ * POST one delivery and record the outcome. Returns true on a 2xx.
+ */
+async function attemptWebhookDelivery(
+  sb,
+  delivery: any,
+  subscription: { url: string; secret: string }
+): Promise<boolean> {
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const attempts = (delivery.attempts || 0) + 1;
+  let statusCode: number | null = null;
+  // DNS may have changed since the subscription was saved
+  let errorMessage = await webhookDestinationError(subscription.url, WEBHOOK_ALLOW_LOCAL);
+
+  if (errorMessage === null) {
+    try {
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), WEBHOOK_TIMEOUT);
+      const response = await fetch(subscription.url, {
+        method: "POST",
+        redirect: "manual",
+        signal: controller.signal,
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "NewsPlatform-Webhooks/1.0",
+          "X-NewsPlatform-Event": delivery.event,
+          "X-NewsPlatform-Delivery": delivery.id,
+          "X-NewsPlatform-Signature": signWebhookPayload(
+            subscription.secret,
+            timestamp,
+            body
+          ),
+        },
+        body,
       });
+      clearTimeout(timeoutId);
+      statusCode = response.status;
+      if (!response.ok) errorMessage = `HTTP ${response.status}`;
+    } catch (error: any) {
+      errorMessage =
+        error?.name === "AbortError" ? "Timed out" : error?.message || "Request failed";
     }
+  }
 
-    return res.json(results);
-  } catch (error) {
-    console.error("Error in GET /api/v1/api-access-users:", error);
-    return res.status(500).json({ error: "Server error" });
+  const succeeded = errorMessage === null;
+  const retryDelay = WEBHOOK_RETRY_DELAYS_MS[attempts - 1];
+  const update: Record<string, any> = {
+    attempts,
+    last_status_code: statusCode,
+    last_error: errorMessage,
+  };
+  if (succeeded) {
+    update.status = "succeeded";
+    update.delivered_at = new Date().toISOString();
+    update.next_attempt_at = null;
+  } else if (retryDelay !== undefined) {
+    update.status = "pending";
+    update.next_attempt_at = new Date(Date.now() + retryDelay).toISOString();
+  } else {
+    update.status = "failed";
+    update.next_attempt_at = null;
   }
-});
 
-// Grant API access to a user by username
-app.post("/api/v1/api-access-users", async (req, res) => {
+  const { error } = await sb
+    .from("webhook_deliveries")
+    .update(update)
+    .eq("id", delivery.id);
+  if (error) {
+    console.error(`Error recording webhook delivery ${delivery.id}:`, error);
+  }
+  return succeeded;
+}
+
+/**
+ * Fan an event out to every active subscription the content owner has for it.
+ * Never throws — webhook trouble must not fail the request that caused it.
+ */
+async function emitWebhookEvent(
+  sb,
+  ownerUserId: number,
+  event: string,
+  data: Record<string, any>
+): Promise<void> {
   try {
-    const uid = await getSupabaseUid(req);
-    if (!uid || !(await isAdminUser(uid))) {
-      return res.status(403).json({ error: "Admin access required" });
+    const { data: subscriptions, error } = await sb
+      .from("webhook_subscriptions")
+      .select("id, url, secret, api_key:api_key_id(is_revoked, expires_at, channel_ids)")
+      .eq("user_id", ownerUserId)
+      .eq("is_active", true)
+      .contains("events", [event]);
+
+    if (error) {
+      console.error("Error loading webhook subscriptions:", error);
+      return;
+    }
+
+    // Keys that were revoked or expired stop receiving events, and
+    // channel-restricted keys only hear about their own channels
+    const live = (subscriptions || []).filter((s: any) => {
+      const key = s.api_key;
+      if (!key || key.is_revoked) return false;
+      if (key.expires_at && new Date(key.expires_at) <= new Date()) return false;
+      if (!key.channel_ids?.length || !data.channelId) return true;
+      return key.channel_ids.includes(data.channelId);
+    });
+    if (live.length === 0) return;
+
+    // The delivery id goes in the payload so receivers can dedupe retries
+    const createdAt = new Date().toISOString();
+    const deliveries = live.map((s: any) => {
+      const id = randomUUID();
+      return {
+        id,
+        subscription_id: s.id,
+        event,
+        payload: { id, event, createdAt, data },
+      };
+    });
+
+    const { error: insertError } = await sb
+      .from("webhook_deliveries")
+      .insert(deliveries);
+    if (insertError) {
+      console.error("Error creating webhook deliveries:", insertError);
+      return;
     }
 
-    const { username } = req.body;
-    if (!username?.trim()) {
-      return res.status(400).json({ error: "Username is required" });
+    await Promise.all(
+      deliveries.map((delivery, i) =>
+        attemptWebhookDelivery(sb, delivery, live[i])
+      )
+    );
+  } catch (error) {
+    console.error(`Error emitting webhook event ${event}:`, error);
+  }
+}
+
+/**
+ * Send a "ping" event to one subscription so its owner can check their
+ * receiver. Goes through the delivery log like any other event.
+ */
+async function sendWebhookPing(
+  sb,
+  subscription: any
+): Promise<any> {
+  const id = randomUUID();
+  const delivery = {
+    id,
+    subscription_id: subscription.id,
+    event: "ping",
+    payload: {
+      id,
+      event: "ping",
+      createdAt: new Date().toISOString(),
+      data: { subscriptionId: subscription.id, events: subscription.events },
+    },
+  };
+  const { error } = await sb.from("webhook_deliveries").insert([delivery]);
+  if (error) throw new Error("Failed to create test delivery");
+
+  await attemptWebhookDelivery(sb, delivery, subscription);
+  const { data } = await sb
+    .from("webhook_deliveries")
+    .select("*")
+    .eq("id", id)
+    .single();
+  return data;
+}
+
+/** Retry pending deliveries whose backoff has elapsed (run from cron). */
+async function retryDueWebhookDeliveries(
+  sb
+): Promise<{ attempted: number; succeeded: number }> {
+  const { data: due, error } = await sb
+    .from("webhook_deliveries")
+    .select("*, subscription:subscription_id(url, secret, is_active)")
+    .eq("status", "pending")
+    .lte("next_attempt_at", new Date().toISOString())
+    .order("next_attempt_at")
+    .limit(50);
+
+  if (error) {
+    console.error("Error loading due webhook deliveries:", error);
+    return { attempted: 0, succeeded: 0 };
+  }
+
+  let succeeded = 0;
+  for (const delivery of due || []) {
+    if (!delivery.subscription?.is_active) {
+      await sb
+        .from("webhook_deliveries")
+        .update({ status: "failed", next_attempt_at: null, last_error: "Subscription disabled" })
+        .eq("id", delivery.id);
+      continue;
+    }
+    if (await attemptWebhookDelivery(sb, delivery, delivery.subscription)) {
+      succeeded++;
     }
+  }
+  return { attempted: (due || []).length, succeeded };
+}
 
-    // Find the user by username
-    const { data: dbUser } = await supabase
-      .from("users")
-      .select("id, username, supabase_uid")
-      .eq("username", username.trim())
+/** The article fields sent with article.* events */
+function webhookArticleData(article: any) {
+  return {
+    id: article.id,
+    title: article.title,
+    slug: article.slug,
+    channelId: article.channel_id,
+    status: article.status,
+    published: article.published,
+    publishedAt: article.published_at,
+    url: `${WEBHOOK_SITE_BASE}/articles/${article.id}${article.slug ? `/${article.slug}` : ""}`,
+  };
+}
+
+/**
+ * Emit an article.* event to the owner of the article's channel, whoever
+ * made the change — contributors and editors act on the owner's channel, so
+ * the owner's integrations are the ones listening. Articles outside a channel
+ * go to `fallbackUserId` (the author). Never throws.
+ */
+async function emitArticleWebhookEvent(
+  sb,
+  fallbackUserId: number,
+  event: string,
+  data: ReturnType<typeof webhookArticleData>
+): Promise<void> {
+  let ownerUserId = fallbackUserId;
+  if (data.channelId) {
+    const { data: channel, error } = await sb
+      .from("channels")
+      .select("user_id")
+      .eq("id", data.channelId)
       .maybeSingle();
+    if (error) console.error(`Error loading channel ${data.channelId} for webhook:`, error);
+    if (channel?.user_id) ownerUserId = channel.user_id;
+  }
+  await emitWebhookEvent(sb, ownerUserId, event, data);
+}
 
-    if (!dbUser || !dbUser.supabase_uid) {
-      return res.status(404).json({ error: "User not found" });
+// Load a webhook subscription and check it belongs to userId
+async function loadOwnedWebhook(res, id, userId) {
+  const { data: subscription } = await supabase
+    .from("webhook_subscriptions")
+    .select("*")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (!subscription) {
+    res.status(404).json({ error: "Webhook not found" });
+    return null;
+  }
+  if (subscription.user_id !== userId) {
+    res.status(403).json({ error: "Not authorized to manage this webhook" });
+    return null;
+  }
+  return subscription;
+}
+
+// List the webhooks on an API key
+app.get("/api/v1/api-keys/:id/webhooks", async (req, res) => {
+  try {
+    const { userId, error: authError } = await authenticateUser(req);
+    if (authError || !userId) {
+      return res.status(401).json({ error: authError || "Authentication required" });
     }
 
-    // Check if already granted
-    const { data: existing } = await supabase
-      .from("api_access_users")
-      .select("user_id")
-      .eq("user_id", dbUser.supabase_uid)
+    const { data: key } = await supabase
+      .from("api_keys")
+      .select("id, user_id")
+      .eq("id", req.params.id)
       .maybeSingle();
+    if (!key) {
+      return res.status(404).json({ error: "API key not found" });
+    }
+    if (key.user_id !== userId) {
+      return res.status(403).json({ error: "Not authorized to view this key" });
+    }
 
-    if (existing) {
-      return res.status(409).json({ error: "User already has API access" });
+    const { data, error } = await supabase
+      .from("webhook_subscriptions")
+      .select("*")
+      .eq("api_key_id", key.id)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("Error listing webhooks:", error);
+      return res.status(500).json({ error: "Failed to list webhooks" });
     }
 
-    // Grant access
-    const { error: insertError } = await supabase
-      .from("api_access_users")
-      .insert([{ user_id: dbUser.supabase_uid, granted_by: uid }]);
+    return res.json((data || []).map(mapWebhookRow));
+  } catch (error) {
+    console.error("Error in GET /api/v1/api-keys/:id/webhooks:", error);
+    return res.status(500).json({ error: "Server error" });
+  }
+});
 
-    if (insertError) {
-      console.error("Error granting API access:", insertError);
-      return res.status(500).json({ error: "Failed to grant API access" });
+// Subscribe a URL to events on an API key
+app.post("/api/v1/api-keys/:id/webhooks", async (req, res) => {
+  try {
+    const { userId, error: authError } = await authenticateUser(req);
+    if (authError || !userId) {
+      return res.status(401).json({ error: authError || "Authentication required" });
+    }
+
+    const { data: key } = await supabase
+      .from("api_keys")
+      .select("id, user_id, is_revoked")
+      .eq("id", req.params.id)
+      .maybeSingle();
+    if (!key) {
+      return res.status(404).json({ error: "API key not found" });
+    }
+    if (key.user_id !== userId) {
+      return res.status(403).json({ error: "Not authorized to manage this key" });
+    }
+    if (key.is_revoked) {
+      return res.status(400).json({ error: "API key has been revoked" });
+    }
+
+    const { url, events } = req.body;
+    const validationError =
+      validateWebhookUrl(url, process.env.NODE_ENV !== "production") ||
+      validateWebhookEvents(events) ||
+      (await webhookDestinationError(url, process.env.NODE_ENV !== "production"));
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const secret = generateWebhookSecret();
+    const { data: subscription, error } = await supabase
+      .from("webhook_subscriptions")
+      .insert([{
+        api_key_id: key.id,
+        user_id: userId,
+        url: url.trim(),
+        events: Array.from(new Set(events)),
+        secret,
+      }])
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error creating webhook:", error);
+      return res.status(500).json({ error: "Failed to create webhook" });
     }
 
     return res.status(201).json({
-      supabaseUid: dbUser.supabase_uid,
-      username: dbUser.username,
-      localUserId: dbUser.id,
+      ...mapWebhookRow(subscription),
+      secret, // Only returned once at creation time
     });
   } catch (error) {
-    console.error("Error in POST /api/v1/api-access-users:", error);
+    console.error("Error in POST /api/v1/api-keys/:id/webhooks:", error);
     return res.status(500).json({ error: "Server error" });
   }
 });
 
-// Revoke API access
-app.delete("/api/v1/api-access-users/:userId", async (req, res) => {
+// Update a webhook's URL, events or active flag
+app.patch("/api/v1/webhooks/:id", async (req, res) => {
   try {
-    const uid = await getSupabaseUid(req);
-    if (!uid || !(await isAdminUser(uid))) {
-      return res.status(403).json({ error: "Admin access required" });
+    const { userId, error: authError } = await authenticateUser(req);
+    if (authError || !userId) {
+      return res.status(401).json({ error: authError || "Authentication required" });
     }
 
-    const targetUid = req.params.userId;
-    const { error } = await supabase
-      .from("api_access_users")
-      .delete()
-      .eq("user_id", targetUid);
+    const subscription = await loadOwnedWebhook(res, req.params.id, userId);
+    if (!subscription) return;
+
+    const { url, events, isActive } = req.body;
+    const updates: Record<string, any> = {};
+    if (url !== undefined) {
+      const urlError =
+        validateWebhookUrl(url, process.env.NODE_ENV !== "production") ||
+        (await webhookDestinationError(url, process.env.NODE_ENV !== "production"));
+      if (urlError) return res.status(400).json({ error: urlError });
+      updates.url = url.trim();
+    }
+    if (events !== undefined) {
+      const eventsError = validateWebhookEvents(events);
+      if (eventsError) return res.status(400).json({ error: eventsError });
+      updates.events = Array.from(new Set(events));
+    }
+    if (isActive !== undefined) {
+      if (typeof isActive !== "boolean") {
+        return res.status(400).json({ error: "isActive must be a boolean" });
+      }
+      updates.is_active = isActive;
+    }
+    if (Object.keys(updates).length === 0) {
+      return res.status(400).json({ error: "Nothing to update" });
+    }
+
+    const { data, error } = await supabase
+      .from("webhook_subscriptions")
+      .update(updates)
+      .eq("id", subscription.id)
+      .select()
+      .single();
 
     if (error) {
-      console.error("Error revoking API access:", error);
-      return res.status(500).json({ error: "Failed to revoke API access" });
+      console.error("Error updating webhook:", error);
+      return res.status(500).json({ error: "Failed to update webhook" });
     }
 
-    return res.json({ message: "API access revoked" });
+    return res.json(mapWebhookRow(data));
   } catch (error) {
-    console.error("Error in DELETE /api/v1/api-access-users:", error);
+    console.error("Error in PATCH /api/v1/webhooks/:id:", error);
     return res.status(500).json({ error: "Server error" });
   }
 });
 
-// Search users by username (admin-only, for the grant UI)
-app.get("/api/users/search", async (req, res) => {
+// Delete a webhook (and its delivery log)
+app.delete("/api/v1/webhooks/:id", async (req, res) => {
   try {
-    const uid = await getSupabaseUid(req);
-    if (!uid || !(await isAdminUser(uid))) {
-      return res.status(403).json({ error: "Admin access required" });
+    const { userId, error: authError } = await authenticateUser(req);
+    if (authError || !userId) {
+      return res.status(401).json({ error: authError || "Authentication required" });
     }
 
-    const q = (req.query.q as string || "").trim();
-    if (!q) {
-      return res.json([]);
-    }
+    const subscription = await loadOwnedWebhook(res, req.params.id, userId);
+    if (!subscription) return;
 
-    const { data: users, error } = await supabase
-      .from("users")
-      .select("id, username")
-      .ilike("username", `%${q}%`)
-      .limit(10);
+    const { error } = await supabase
+      .from("webhook_subscriptions")
+      .delete()
+      .eq("id", subscription.id);
 
     if (error) {
-      return res.status(500).json({ error: "Search failed" });
+      console.error("Error deleting webhook:", error);
+      return res.status(500).json({ error: "Failed to delete webhook" });
     }
 
-    return res.json(users || []);
+    return res.json({ message: "Webhook deleted" });
   } catch (error) {
-    console.error("Error in GET /api/users/search:", error);
+    console.error("Error in DELETE /api/v1/webhooks/:id:", error);
     return res.status(500).json({ error: "Server error" });
   }
 });
 
-// --- Content API Helpers ---
-
-// Create a single article (shared logic for single and batch endpoints)
-async function createSingleArticle(
-  articleData: any,
-  userId: number
-): Promise<any> {
-  const {
-    title,
-    content,
-    contentFormat = "markdown",
-    channelId,
-    categoryIds = [],
-    location,
-    locationLat,
-    locationLng,
-    published = true,
-    images = [],
-  } = articleData;
+// Recent deliveries for a webhook, newest first
+app.get("/api/v1/webhooks/:id/deliveries", async (req, res) => {
+  try {
+    const { userId, error: authError } = await authenticateUser(req);
+    if (authError || !userId) {
+      return res.status(401).json({ error: authError || "Authentication required" });
+    }
 
-  // Validation
-  if (!title?.trim()) throw new Error("Title is required");
-  if (!content?.trim()) throw new Error("Content is required");
-  if (!channelId) throw new Error("channelId is required");
-  if (categoryIds.length > 3) throw new Error("Maximum 3 categories allowed");
-  if (images.length > 5) throw new Error("Maximum 5 images allowed");
+    const subscription = await loadOwnedWebhook(res, req.params.id, userId);
+    if (!subscription) return;
 
-  // Convert content to HTML
-  const htmlContent = normalizeContent(content, contentFormat);
+    const { data, error } = await supabase
+      .from("webhook_deliveries")
+      .select("*")
+      .eq("subscription_id", subscription.id)
+      .order("created_at", { ascending: false })
+      .limit(50);
 
-  // Verify channel ownership
-  const { data: channel, error: channelError } = await supabase
-    .from("channels")
-    .select("id, user_id")
-    .eq("id", channelId)
-    .single();
+    if (error) {
+      console.error("Error listing webhook deliveries:", error);
+      return res.status(500).json({ error: "Failed to list deliveries" });
+    }
 
-  if (channelError || !channel) {
-    throw new Error("Channel not found");
-  }
-  if (channel.user_id !== userId) {
-    throw new Error("Not authorized for this channel");
+    return res.json((data || []).map(mapWebhookDeliveryRow));
+  } catch (error) {
+    console.error("Error in GET /api/v1/webhooks/:id/deliveries:", error);
+    return res.status(500).json({ error: "Server error" });
   }
+});
 
-  // Duplicate detection (same title + channel in last 24h)
-  const oneDayAgo = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
-  const { data: existingArticles } = await supabase
-    .from("articles")
-    .select("id, title")
-    .eq("channel_id", channelId)
-    .eq("title", title.trim())
-    .gte("created_at", oneDayAgo);
+// Send a ping event to check the receiver
+app.post("/api/v1/webhooks/:id/test", async (req, res) => {
+  try {
+    const { userId, error: authError } = await authenticateUser(req);
+    if (authError || !userId) {
+      return res.status(401).json({ error: authError || "Authentication required" });
+    }
 
-  if (existingArticles && existingArticles.length > 0) {
-    const err: any = new Error(
-      `Duplicate: "${title}" already published to this channel in the last 24 hours`
-    );
-    err.status = 409;
-    err.existingArticleId = existingArticles[0].id;
-    throw err;
+    const subscription = await loadOwnedWebhook(res, req.params.id, userId);
+    if (!subscription) return;
+
+    const delivery = await sendWebhookPing(supabase, subscription);
+    return res.json(mapWebhookDeliveryRow(delivery));
+  } catch (error) {
+    console.error("Error in POST /api/v1/webhooks/:id/test:", error);
+    return res.status(500).json({ error: "Server error" });
   }
+});
 
-  // Generate slug
-  const baseSlug = title
-    .trim()
-    .toLowerCase()
-    .replace(/[^a-z0-9]+/g, "-")
+// Retry failed deliveries whose backoff has elapsed. Called by the Vercel
+// cron (see vercel.json) with "Authorization: Bearer $CRON_SECRET"; admins
+// can also trigger it.
+app.get("/api/cron/deliver-webhooks", async (req, res) => {
+  try {
+    const cronSecret = process.env.CRON_SECRET;
+    const isCron =
+      !!cronSecret && req.headers.authorization === `Bearer ${cronSecret}`;
+    if (!isCron) {
+      const uid = await getSupabaseUid(req);
+      if (!uid || !(await isAdminUser(uid))) {
+        return res.status(401).json({ error: "Unauthorized" });
+      }
+    }
+
+    return res.json(await retryDueWebhookDeliveries(supabase));
+  } catch (error) {
+    console.error("Error in deliver-webhooks cron:", error);
+    return res.status(500).json({ error: "Server error" });
+  }
+});
+
+// --- API Access Management (admin-only) ---
+
+// Helper: get Supabase UUID from request JWT
+async function getSupabaseUid(req: express.Request): Promise<string | null> {
+  const authHeader = req.headers.authorization;
+  if (!authHeader?.startsWith("Bearer ")) return null;
+  const token = authHeader.split(" ")[1];
+  const { data } = await supabaseAuth.auth.getUser(token);
+  return data?.user?.id || null;
+}
+
+// Helper: check if Supabase UUID is in admin_users
+async function isAdminUser(uid: string): Promise<boolean> {
+  const { data } = await supabase
+    .from("admin_users")
+    .select("user_id")
+    .eq("user_id", uid)
+    .maybeSingle();
+  return !!data;
+}
+
+// List users with API access
+app.get("/api/v1/api-access-users", async (req, res) => {
+  try {
+    const uid = await getSupabaseUid(req);
+    if (!uid || !(await isAdminUser(uid))) {
+      return res.status(403).json({ error: "Admin access required" });
+    }
+
+    const { data: grants, error } = await supabase
+      .from("api_access_users")
+      .select("user_id, created_at, granted_by")
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      return res.status(500).json({ error: "Failed to list API access users" });
+    }
+
+    // Look up usernames for each granted user
+    const results = [];
+    for (const grant of grants || []) {
+      const { data: authUser } = await supabase
+        .from("users")
+        .select("id, username")
+        .eq("supabase_uid", grant.user_id)
+        .maybeSingle();
+
+      results.push({
+        supabaseUid: grant.user_id,
+        username: authUser?.username || "Unknown",
+        localUserId: authUser?.id,
+        grantedAt: grant.created_at,
+      });
+    }
+
+    return res.json(results);
+  } catch (error) {
+    console.error("Error in GET /api/v1/api-access-users:", error);
+    return res.status(500).json({ error: "Server error" });
+  }
+});
+
+// Usage across every API key, busiest first (admin-only)
+app.get("/api/v1/admin/api-usage", async (req, res) => {
+  try {
+    const uid = await getSupabaseUid(req);
+    if (!uid || !(await isAdminUser(uid))) {
+      return res.status(403).json({ error: "Admin access required" });
+    }
+
+    const { data: keys, error } = await supabase
+      .from("api_keys")
+      .select("id, key_prefix, name, is_revoked, last_used_at, user:user_id(id, username)");
+
+    if (error) {
+      console.error("Error listing API keys for usage:", error);
+      return res.status(500).json({ error: "Failed to load API usage" });
+    }
+
+    const usage = await loadApiKeyUsage(supabase, keys.map((k: any) => k.id));
+    const results = keys
+      .map((k: any) => ({
+        id: k.id,
+        prefix: k.key_prefix,
+        name: k.name,
+        username: k.user?.username || "Unknown",
+        isRevoked: k.is_revoked,
+        lastUsedAt: k.last_used_at,
+        usage: usage.get(k.id),
+      }))
+      .filter((k) => !k.isRevoked || k.usage.requestsLast7Days > 0)
+      .sort(
+        (a, b) =>
+          b.usage.requestsToday - a.usage.requestsToday ||
+          b.usage.requestsLast7Days - a.usage.requestsLast7Days
+      );
+
+    return res.json({ limits: API_RATE_LIMITS, keys: results });
+  } catch (error) {
+    console.error("Error in GET /api/v1/admin/api-usage:", error);
+    return res.status(500).json({ error: "Server error" });
+  }
+});
+
+// Grant API access to a user by username
+app.post("/api/v1/api-access-users", async (req, res) => {
+  try {
+    const uid = await getSupabaseUid(req);
+    if (!uid || !(await isAdminUser(uid))) {
+      return res.status(403).json({ error: "Admin access required" });
+    }
+
+    const { username } = req.body;
+    if (!username?.trim()) {
+      return res.status(400).json({ error: "Username is required" });
+    }
+
+    // Find the user by username
+    const { data: dbUser } = await supabase
+      .from("users")
+      .select("id, username, supabase_uid")
+      .eq("username", username.trim())
+      .maybeSingle();
+
+    if (!dbUser || !dbUser.supabase_uid) {
+      return res.status(404).json({ error: "User not found" });
+    }
+
+    // Check if already granted
+    const { data: existing } = await supabase
+      .from("api_access_users")
+      .select("user_id")
+      .eq("user_id", dbUser.supabase_uid)
+      .maybeSingle();
+
+    if (existing) {
+      return res.status(409).json({ error: "User already has API access" });
+    }
+
+    // Grant access
+    const { error: insertError } = await supabase
+      .from("api_access_users")
+      .insert([{ user_id: dbUser.supabase_uid, granted_by: uid }]);
+
+    if (insertError) {
+      console.error("Error granting API access:", insertError);
+      return res.status(500).json({ error: "Failed to grant API access" });
+    }
+
+    return res.status(201).json({
+      supabaseUid: dbUser.supabase_uid,
+      username: dbUser.username,
+      localUserId: dbUser.id,
+    });
+  } catch (error) {
+    console.error("Error in POST /api/v1/api-access-users:", error);
+    return res.status(500).json({ error: "Server error" });
+  }
+});
+
+// Revoke API access
+app.delete("/api/v1/api-access-users/:userId", async (req, res) => {
+  try {
+    const uid = await getSupabaseUid(req);
+    if (!uid || !(await isAdminUser(uid))) {
+      return res.status(403).json({ error: "Admin access required" });
+    }
+
+    const targetUid = req.params.userId;
+    const { error } = await supabase
+      .from("api_access_users")
+      .delete()
+      .eq("user_id", targetUid);
+
+    if (error) {
+      console.error("Error revoking API access:", error);
+      return res.status(500).json({ error: "Failed to revoke API access" });
+    }
+
+    return res.json({ message: "API access revoked" });
+  } catch (error) {
+    console.error("Error in DELETE /api/v1/api-access-users:", error);
+    return res.status(500).json({ error: "Server error" });
+  }
+});
+
+// Search users by username (admin-only, for the grant UI)
+// Admins search users; channel owners search for people to invite
+app.get("/api/users/search", async (req, res) => {
+  try {
+    const uid = await getSupabaseUid(req);
+    if (!uid || !(await isAdminUser(uid))) {
+      const { userId } = await authenticateUser(req);
+      if (!userId || !(await ownsAnyChannel(supabase, userId))) {
+        return res.status(403).json({ error: "Admin or channel owner access required" });
+      }
+    }
+
+    const q = (req.query.q as string || "").trim();
+    if (!q) {
+      return res.json([]);
+    }
+
+    const { data: users, error } = await supabase
+      .from("users")
+      .select("id, username")
+      .ilike("username", `%${q}%`)
+      .limit(10);
+
+    if (error) {
+      return res.status(500).json({ error: "Search failed" });
+    }
+
+    return res.json(users || []);
+  } catch (error) {
+    console.error("Error in GET /api/users/search:", error);
+    return res.status(500).json({ error: "Server error" });
+  }
+});
+
+// ---- Idempotency keys ----
+// Idempotency-Key support for the v1 create endpoints: the first request
+// with a key stores its response, retries with the same body and query
+// string get it replayed, a different body or query is a 422. Canonical
+// copy: server/idempotency.ts — keep the two in sync.
+
+const IDEMPOTENCY_WINDOW_HOURS = 24;
+// A claim with no stored response after this long belongs to a request that
+// died mid-flight (well past the function timeout); a retry may take it over.
+const IDEMPOTENCY_STALE_MS = 5 * 60 * 1000;
+
+interface IdempotentRequest {
+  userId: number;
+  route: string;
+  key: string;
+}
+
+interface IdempotencyCheck {
+  request?: IdempotentRequest; // claimed; finish with completeIdempotentRequest
+  replay?: { status: number; body: any };
+  error?: string;
+  status?: number;
+}
+
+/** JSON with object keys sorted, so key order doesn't change the hash */
+function canonicalJson(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    return `{${Object.keys(value)
+      .sort()
+      .filter((k) => value[k] !== undefined)
+      .map((k) => `${JSON.stringify(k)}:${canonicalJson(value[k])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * Fingerprint of a request: its body and query string, since flags like
+ * ?dryRun and ?atomic change what the same body does
+ */
+function hashRequest(body: any, query: any): string {
+  return createHash("sha256").update(canonicalJson({ body, query: query ?? {} })).digest("hex");
+}
+
+/**
+ * Claim an Idempotency-Key for a request, or say how to answer it instead.
+ * Returns {} when no header was sent, so callers just carry on.
+ */
+async function beginIdempotentRequest(
+  sb,
+  userId: number,
+  route: string,
+  header: string | string[] | undefined,
+  body: any,
+  query: any
+): Promise<IdempotencyCheck> {
+  if (header === undefined) return {};
+  const key = Array.isArray(header) ? header[0] : header;
+  if (!key || key.length > 255 || !/^[\x21-\x7e]+$/.test(key)) {
+    return { error: "Idempotency-Key must be 1-255 visible ASCII characters", status: 400 };
+  }
+
+  const requestHash = hashRequest(body, query);
+  const request = { userId, route, key };
+
+  // Expired keys may be reused
+  const cutoff = new Date(Date.now() - IDEMPOTENCY_WINDOW_HOURS * 60 * 60 * 1000);
+  await sb
+    .from("api_idempotency_keys")
+    .delete()
+    .lt("created_at", cutoff.toISOString());
+
+  const { error: insertError } = await sb.from("api_idempotency_keys").insert({
+    user_id: userId,
+    route,
+    idempotency_key: key,
+    request_hash: requestHash,
+  });
+  if (!insertError) return { request };
+  if (insertError.code !== "23505") {
+    console.error("Error claiming idempotency key:", insertError);
+    return { error: "Failed to record Idempotency-Key", status: 500 };
+  }
+
+  const { data: existing } = await sb
+    .from("api_idempotency_keys")
+    .select("request_hash, response_status, response_body, created_at")
+    .eq("user_id", userId)
+    .eq("route", route)
+    .eq("idempotency_key", key)
+    .maybeSingle();
+
+  if (!existing) {
+    return { error: "A request with this Idempotency-Key is still being processed", status: 409 };
+  }
+  if (existing.request_hash !== requestHash) {
+    return {
+      error: "Idempotency-Key has already been used with a different request",
+      status: 422,
+    };
+  }
+  if (existing.response_status !== null) {
+    return { replay: { status: existing.response_status, body: existing.response_body } };
+  }
+
+  // Still running, unless the original request died; then take it over
+  if (Date.now() - new Date(existing.created_at).getTime() > IDEMPOTENCY_STALE_MS) {
+    const { data: reclaimed } = await sb
+      .from("api_idempotency_keys")
+      .update({ created_at: new Date().toISOString() })
+      .eq("user_id", userId)
+      .eq("route", route)
+      .eq("idempotency_key", key)
+      .eq("created_at", existing.created_at)
+      .is("response_status", null)
+      .select("idempotency_key");
+    if (reclaimed && reclaimed.length > 0) return { request };
+  }
+  return { error: "A request with this Idempotency-Key is still being processed", status: 409 };
+}
+
+/**
+ * Store the response for a claimed key. Server errors release the key
+ * instead, so the client can retry the same request.
+ */
+async function completeIdempotentRequest(
+  sb,
+  request: IdempotentRequest | undefined,
+  status: number,
+  body: any
+): Promise<void> {
+  if (!request) return;
+  const table = sb.from("api_idempotency_keys");
+  const query =
+    status >= 500
+      ? table.delete()
+      : table.update({ response_status: status, response_body: body });
+  const { error } = await query
+    .eq("user_id", request.userId)
+    .eq("route", request.route)
+    .eq("idempotency_key", request.key);
+  if (error) {
+    console.error("Error storing idempotent response:", error);
+  }
+}
+
+/** Answer with a stored response */
+function sendIdempotentReplay(res, replay: { status: number; body: any }) {
+  res.setHeader("Idempotent-Replayed", "true");
+  return res.status(replay.status).json(replay.body);
+}
+
+// --- Content API Helpers ---
+
+// Errors from the content helpers carry a machine-readable code and, where
+// one is to blame, the request field (batch results report both)
+function contentError(message: string, code: string, field?: string, status?: number) {
+  const err: any = new Error(message);
+  err.code = code;
+  if (field) err.field = field;
+  if (status) err.status = status;
+  return err;
+}
+
+// Category and image limits shared by create and update
+function validateContentLimits(categoryIds: any[], images: any[], access) {
+  if (!Array.isArray(categoryIds)) {
+    throw contentError("categoryIds must be an array", "invalid", "categoryIds");
+  }
+  if (!Array.isArray(images)) throw contentError("images must be an array", "invalid", "images");
+  if (categoryIds.length > 3) {
+    throw contentError("Maximum 3 categories allowed", "too_many", "categoryIds");
+  }
+  if (images.length > 5) throw contentError("Maximum 5 images allowed", "too_many", "images");
+  if (images.length > 0 && !access.scopes.includes("images:write")) {
+    throw contentError(
+      "Not authorized: API key is missing the images:write scope",
+      "missing_scope",
+      "images"
+    );
+  }
+}
+
+// Verify the caller writes for the channel and the API key may use it;
+// returns the channel with the caller's role
+async function requireContentChannel(channelId: number, userId: number, access) {
+  const { data: channel, error: channelError } = await supabase
+    .from("channels")
+    .select("id, user_id")
+    .eq("id", channelId)
+    .single();
+
+  if (channelError || !channel) {
+    throw contentError("Channel not found", "not_found", "channelId");
+  }
+  const role = await getChannelRole(supabase, channel.id, userId);
+  if (!role) {
+    throw contentError("Not authorized for this channel", "forbidden", "channelId");
+  }
+  if (!canAccessChannel(access, channel.id)) {
+    throw contentError(
+      "Not authorized: API key is restricted to other channels",
+      "channel_restricted",
+      "channelId"
+    );
+  }
+  return { ...channel, role };
+}
+
+// Date-prefixed slug for a title, suffixed on collision. ignoreArticleId
+// lets an article being retitled keep a slug it already holds.
+async function generateContentSlug(title: string, ignoreArticleId?: number): Promise<string> {
+  const baseSlug = title
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
     .replace(/^-+|-+$/g, "")
     .substring(0, 60);
   const date = new Date();
   const dateStr = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
   let fullSlug = `${dateStr}-${baseSlug}`;
 
-  // Handle slug collisions
-  let slugAttempt = 0;
-  let slugOk = false;
-  while (!slugOk && slugAttempt < 10) {
-    const candidateSlug = slugAttempt === 0 ? fullSlug : `${fullSlug}-${slugAttempt + 1}`;
-    const { data: existing } = await supabase
+  // Handle slug collisions
+  let slugAttempt = 0;
+  let slugOk = false;
+  while (!slugOk && slugAttempt < 10) {
+    const candidateSlug = slugAttempt === 0 ? fullSlug : `${fullSlug}-${slugAttempt + 1}`;
+    const { data: existing } = await supabase
+      .from("articles")
+      .select("id")
+      .eq("slug", candidateSlug)
+      .single();
+    if (!existing || existing.id === ignoreArticleId) {
+      fullSlug = candidateSlug;
+      slugOk = true;
+    } else {
+      slugAttempt++;
+    }
+  }
+  return fullSlug;
+}
+
+// Link categories to an article (the first is primary) and copy the primary
+// category's name into articles.category. Returns the ids that were linked.
+async function setContentCategories(articleId: number, categoryIds: number[]): Promise<number[]> {
+  const categoryResults = [];
+  for (let i = 0; i < categoryIds.length; i++) {
+    const { error: catError } = await supabase
+      .from("article_categories")
+      .insert([{
+        article_id: articleId,
+        category_id: categoryIds[i],
+        is_primary: i === 0,
+      }]);
+    if (!catError) {
+      categoryResults.push(categoryIds[i]);
+    }
+  }
+
+  // Update the category text field with the primary category name
+  let categoryName = "";
+  if (categoryIds.length > 0) {
+    const { data: catData } = await supabase
+      .from("categories")
+      .select("name")
+      .eq("id", categoryIds[0])
+      .single();
+    categoryName = catData?.name || "";
+  }
+  await supabase
+    .from("articles")
+    .update({ category: categoryName })
+    .eq("id", articleId);
+
+  return categoryResults;
+}
+
+// Download images from their URLs, upload them to storage and attach them.
+// Images that can't be fetched are skipped, or fail the call when strict.
+async function attachContentImages(
+  articleId: number,
+  images: any[],
+  strict = false
+): Promise<any[]> {
+  const processedImages = [];
+  for (let i = 0; i < images.length; i++) {
+    const result = await downloadAndUploadImage(images[i], articleId, i, supabase);
+    if (!result && strict) {
+      throw contentError(
+        `Image ${i + 1} could not be downloaded`,
+        "image_failed",
+        `images[${i}].url`
+      );
+    }
+    if (result) {
+      const { data: imgRecord } = await supabase
+        .from("article_images")
+        .insert([{
+          article_id: articleId,
+          image_url: result.imageUrl,
+          caption: result.caption,
+          order: result.order,
+        }])
+        .select()
+        .single();
+      if (imgRecord) processedImages.push(imgRecord);
+    }
+  }
+  return processedImages;
+}
+
+// Swap an article's categories for categoryIds (the first is primary). The
+// new links are written before the old ones are dropped, so a failure leaves
+// the article's categories as they were.
+async function replaceContentCategories(articleId: number, categoryIds: number[]): Promise<void> {
+  if (categoryIds.some((id) => !Number.isInteger(id))) {
+    throw contentError("categoryIds must be category IDs", "invalid", "categoryIds");
+  }
+  if (categoryIds.length > 0) {
+    const { error } = await supabase.from("article_categories").upsert(
+      categoryIds.map((categoryId, i) => ({
+        article_id: articleId,
+        category_id: categoryId,
+        is_primary: i === 0,
+      })),
+      { onConflict: "article_id,category_id" }
+    );
+    if (error?.code === "23503") {
+      throw contentError("Category not found", "not_found", "categoryIds");
+    }
+    if (error) {
+      throw contentError(`Failed to update categories: ${error.message}`, "update_failed", "categoryIds", 500);
+    }
+  }
+
+  let stale = supabase.from("article_categories").delete().eq("article_id", articleId);
+  if (categoryIds.length > 0) stale = stale.not("category_id", "in", `(${categoryIds.join(",")})`);
+  const { error: staleError } = await stale;
+  if (staleError) {
+    throw contentError(`Failed to update categories: ${staleError.message}`, "update_failed", "categoryIds", 500);
+  }
+
+  let categoryName = "";
+  if (categoryIds.length > 0) {
+    const { data: catData } = await supabase
+      .from("categories")
+      .select("name")
+      .eq("id", categoryIds[0])
+      .single();
+    categoryName = catData?.name || "";
+  }
+  await supabase.from("articles").update({ category: categoryName }).eq("id", articleId);
+}
+
+// Swap an article's images for new ones. Every new image is downloaded and
+// attached before the old rows go; if one can't be, the ones already
+// attached are removed again and the article keeps its old images.
+async function replaceContentImages(articleId: number, images: any[]): Promise<void> {
+  const { data: previous, error: previousError } = await supabase
+    .from("article_images")
+    .select("id")
+    .eq("article_id", articleId);
+  if (previousError) {
+    throw contentError(`Failed to update images: ${previousError.message}`, "update_failed", "images", 500);
+  }
+
+  const attached: number[] = [];
+  const discardAttached = () =>
+    attached.length ? supabase.from("article_images").delete().in("id", attached) : null;
+  for (let i = 0; i < images.length; i++) {
+    const result = await downloadAndUploadImage(images[i], articleId, i, supabase);
+    if (!result) {
+      await discardAttached();
+      throw contentError(`Image ${i + 1} could not be downloaded`, "image_failed", `images[${i}].url`);
+    }
+    const { data: imgRecord, error } = await supabase
+      .from("article_images")
+      .insert([{
+        article_id: articleId,
+        image_url: result.imageUrl,
+        caption: result.caption,
+        order: result.order,
+      }])
+      .select("id")
+      .single();
+    if (error || !imgRecord) {
+      await discardAttached();
+      throw contentError(
+        `Failed to attach image ${i + 1}: ${error?.message || "Unknown error"}`,
+        "update_failed",
+        `images[${i}]`,
+        500
+      );
+    }
+    attached.push(imgRecord.id);
+  }
+
+  const previousIds = (previous || []).map((img) => img.id);
+  if (previousIds.length > 0) {
+    const { error } = await supabase.from("article_images").delete().in("id", previousIds);
+    if (error) {
+      throw contentError(`Failed to remove replaced images: ${error.message}`, "update_failed", "images", 500);
+    }
+  }
+}
+
+// Location columns for an article; lat/lng also set the PostGIS point
+function contentLocationFields(location, locationLat, locationLng) {
+  const fields: any = {
+    location: location || null,
+    location_name: location || null,
+    location_lat: locationLat || null,
+    location_lng: locationLng || null,
+  };
+  if (locationLat && locationLng) {
+    fields.geom = `SRID=4326;POINT(${locationLng} ${locationLat})`;
+  }
+  return fields;
+}
+
+function mapContentArticle(article, images: any[], categories: number[]) {
+  return {
+    id: article.id,
+    title: article.title,
+    slug: article.slug,
+    channelId: article.channel_id,
+    status: article.status,
+    published: article.published,
+    createdAt: article.created_at,
+    url: `/articles/${article.id}/${article.slug}`,
+    liveStatus: article.live_status ?? null,
+    images,
+    categories,
+  };
+}
+
+// Map an error thrown by the content helpers to an HTTP status
+function contentErrorStatus(error: any): number {
+  if (error.status) return error.status;
+  return error.message?.includes("Not authorized") ? 403
+    : error.message?.includes("not found") ? 404
+    : 400;
+}
+
+// Validate an article for creation and render its content without writing
+// anything. checkReferences also confirms the categories exist and the image
+// URLs parse, which creation otherwise finds out by skipping them.
+async function prepareSingleArticle(
+  articleData: any,
+  userId: number,
+  access = FULL_API_ACCESS,
+  options: { skipDuplicateCheck?: boolean; checkReferences?: boolean } = {}
+) {
+  const {
+    title,
+    content,
+    contentFormat = "markdown",
+    channelId,
+    categoryIds = [],
+    location,
+    locationLat,
+    locationLng,
+    published = true,
+    images = [],
+    liveStatus = null,
+  } = articleData || {};
+
+  // Validation
+  if (typeof title !== "string" || !title.trim()) {
+    throw contentError("Title is required", "required", "title");
+  }
+  if (typeof content !== "string" || !content.trim()) {
+    throw contentError("Content is required", "required", "content");
+  }
+  if (!channelId) throw contentError("channelId is required", "required", "channelId");
+  if (!isLiveStatus(liveStatus)) {
+    throw contentError("liveStatus must be live, ended or null", "invalid", "liveStatus");
+  }
+  validateContentLimits(categoryIds, images, access);
+
+  // Convert content to HTML, then strip anything outside the allow-list
+  const { html: htmlContent, removed: sanitized } = sanitizeArticleHtml(
+    normalizeContent(content, contentFormat)
+  );
+
+  const { role } = await requireContentChannel(channelId, userId, access);
+
+  // Duplicate detection (same title + channel in last 24h)
+  if (!options.skipDuplicateCheck) {
+    const oneDayAgo = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+    const { data: existingArticles } = await supabase
+      .from("articles")
+      .select("id, title")
+      .eq("channel_id", channelId)
+      .eq("title", title.trim())
+      .gte("created_at", oneDayAgo);
+
+    if (existingArticles && existingArticles.length > 0) {
+      const err = contentError(
+        `Duplicate: "${title}" already published to this channel in the last 24 hours`,
+        "duplicate",
+        "title",
+        409
+      );
+      err.existingArticleId = existingArticles[0].id;
+      throw err;
+    }
+  }
+
+  if (options.checkReferences) {
+    if (categoryIds.length > 0) {
+      const { data: found } = await supabase
+        .from("categories")
+        .select("id")
+        .in("id", categoryIds);
+      const foundIds = new Set((found || []).map((c) => c.id));
+      const missing = categoryIds.findIndex((id) => !foundIds.has(Number(id)));
+      if (missing !== -1) {
+        throw contentError(
+          `Category ${categoryIds[missing]} not found`,
+          "not_found",
+          `categoryIds[${missing}]`
+        );
+      }
+    }
+    images.forEach((image, i) => {
+      let protocol = "";
+      try {
+        protocol = new URL(image?.url).protocol;
+      } catch {}
+      if (protocol !== "http:" && protocol !== "https:") {
+        throw contentError(`Image ${i + 1} needs an http(s) url`, "invalid", `images[${i}].url`);
+      }
+    });
+  }
+
+  return {
+    title: title.trim(),
+    htmlContent,
+    sanitized,
+    channelId,
+    categoryIds,
+    images,
+    // Contributors' articles wait as drafts for an editor
+    published: published && canPublishInChannel(role),
+    location,
+    locationLat,
+    locationLng,
+    liveStatus,
+  };
+}
+
+// Insert an article checked by prepareSingleArticle. With strictImages an
+// image that can't be fetched fails the insert and the article is removed.
+// deferWebhooks leaves article.published for the caller to send.
+async function insertPreparedArticle(
+  prepared: any,
+  userId: number,
+  options: { strictImages?: boolean; deferWebhooks?: boolean } = {}
+) {
+  // Build article record
+  const articleRecord: any = {
+    title: prepared.title,
+    content: prepared.htmlContent,
+    channel_id: prepared.channelId,
+    user_id: userId,
+    category: "",
+    slug: await generateContentSlug(prepared.title),
+    published: prepared.published,
+    status: prepared.published ? "published" : "draft",
+    view_count: 0,
+    live_status: prepared.liveStatus ?? null,
+    ...contentLocationFields(prepared.location, prepared.locationLat, prepared.locationLng),
+  };
+
+  // Insert article
+  const { data: article, error: createError } = await supabase
+    .from("articles")
+    .insert([articleRecord])
+    .select()
+    .single();
+
+  if (createError || !article) {
+    throw contentError(
+      `Failed to create article: ${createError?.message || "Unknown error"}`,
+      "create_failed"
+    );
+  }
+
+  let categoryResults: number[];
+  let processedImages: any[];
+  try {
+    categoryResults = prepared.categoryIds.length > 0
+      ? await setContentCategories(article.id, prepared.categoryIds)
+      : [];
+    processedImages = await attachContentImages(article.id, prepared.images, options.strictImages);
+  } catch (error) {
+    await removeCreatedArticle(article.id);
+    throw error;
+  }
+
+  if (article.published && !options.deferWebhooks) {
+    await emitArticleWebhookEvent(
+      supabase,
+      userId,
+      "article.published",
+      webhookArticleData(article)
+    );
+    await notifyArticlePublished(supabase, article);
+  }
+
+  return {
+    article,
+    result: {
+      ...mapContentArticle(article, processedImages, categoryResults),
+      sanitized: prepared.sanitized,
+    },
+  };
+}
+
+// Undo an article created moments ago: its rows and any images uploaded for
+// it (downloadAndUploadImage names them api_<articleId>_...)
+async function removeCreatedArticle(articleId: number) {
+  const deleteError = await deleteArticleAndRelations(articleId);
+  if (deleteError) {
+    console.error(`Error removing article ${articleId}:`, deleteError);
+  }
+  const { data: files } = await supabase.storage
+    .from("article-images")
+    .list("", { search: `api_${articleId}_` });
+  const paths = (files || [])
+    .map((f) => f.name)
+    .filter((name) => name.startsWith(`api_${articleId}_`));
+  if (paths.length > 0) {
+    await supabase.storage.from("article-images").remove(paths);
+  }
+}
+
+// Create a single article (shared logic for single and batch endpoints).
+// Requests sent with an Idempotency-Key skip the title duplicate check; the
+// key is what stops a retry creating a second copy.
+async function createSingleArticle(
+  articleData: any,
+  userId: number,
+  access = FULL_API_ACCESS,
+  options: { skipDuplicateCheck?: boolean } = {}
+): Promise<any> {
+  const prepared = await prepareSingleArticle(articleData, userId, access, options);
+  const { result } = await insertPreparedArticle(prepared, userId);
+  return result;
+}
+
+// A failed batch item; code and field come from contentError()
+function batchItemFailure(index: number, item: any, error: any) {
+  return {
+    index,
+    status: "failed",
+    title: item?.title || "Unknown",
+    error: error.message,
+    code: error.code || "invalid",
+    field: error.field || null,
+  };
+}
+
+// Run a batch import and return one result per item, in order.
+// - dryRun validates and renders every item without writing anything.
+// - atomic validates every item first and writes nothing if one fails; if an
+//   insert then fails, the articles already created are deleted again and
+//   article.published webhooks only go out once the whole batch is in.
+// - otherwise each item is created independently, as before.
+async function runArticleBatch(
+  articles: any[],
+  userId: number,
+  access,
+  options: { dryRun?: boolean; atomic?: boolean; skipDuplicateCheck?: boolean }
+): Promise<any[]> {
+  const results: any[] = [];
+
+  if (!options.dryRun && !options.atomic) {
+    for (let i = 0; i < articles.length; i++) {
+      try {
+        const result = await createSingleArticle(articles[i], userId, access, {
+          skipDuplicateCheck: options.skipDuplicateCheck,
+        });
+        results.push({ index: i, status: "created", title: result.title, article: result });
+      } catch (err: any) {
+        results.push(batchItemFailure(i, articles[i], err));
+      }
+    }
+    return results;
+  }
+
+  // Validate everything, including repeats of a title within the batch
+  const prepared: any[] = [];
+  const seen = new Set<string>();
+  for (let i = 0; i < articles.length; i++) {
+    try {
+      const item = await prepareSingleArticle(articles[i], userId, access, {
+        skipDuplicateCheck: options.skipDuplicateCheck,
+        checkReferences: true,
+      });
+      const seenKey = `${item.channelId}:${item.title}`;
+      if (!options.skipDuplicateCheck && seen.has(seenKey)) {
+        throw contentError(
+          `Duplicate: "${item.title}" appears more than once in this batch`,
+          "duplicate",
+          "title",
+          409
+        );
+      }
+      seen.add(seenKey);
+      prepared[i] = item;
+      results.push({
+        index: i,
+        status: "valid",
+        title: item.title,
+        channelId: item.channelId,
+        html: item.htmlContent,
+        sanitized: item.sanitized,
+      });
+    } catch (err: any) {
+      results.push(batchItemFailure(i, articles[i], err));
+    }
+  }
+  if (options.dryRun) return results;
+
+  const skipped = (i: number) => ({ index: i, status: "skipped", title: results[i].title });
+  if (results.some((r) => r.status === "failed")) {
+    return results.map((r, i) => (r.status === "failed" ? r : skipped(i)));
+  }
+
+  const inserted: any[] = [];
+  for (let i = 0; i < prepared.length; i++) {
+    try {
+      const { article, result } = await insertPreparedArticle(prepared[i], userId, {
+        strictImages: true,
+        deferWebhooks: true,
+      });
+      inserted.push(article);
+      results[i] = { index: i, status: "created", title: result.title, article: result };
+    } catch (err: any) {
+      for (const article of inserted) {
+        await removeCreatedArticle(article.id);
+      }
+      const failure = batchItemFailure(i, articles[i], err);
+      return results.map((r, j) =>
+        j < i ? { index: j, status: "rolled_back", title: r.title }
+          : j === i ? failure
+          : skipped(j)
+      );
+    }
+  }
+
+  for (const article of inserted) {
+    if (article.published) {
+      await emitArticleWebhookEvent(supabase, userId, "article.published", webhookArticleData(article));
+      await notifyArticlePublished(supabase, article);
+    }
+  }
+  return results;
+}
+
+// Fetch an article by id or slug for a v1 write, checking the caller's role
+// in its channel and the key's channel allow-list. publishing requires an
+// editor or the owner.
+async function loadContentArticle(
+  idOrSlug: string,
+  userId: number,
+  access,
+  options: { publishing?: boolean } = {}
+) {
+  let query = supabase.from("articles").select("*");
+  query = /^\d+$/.test(idOrSlug)
+    ? query.eq("id", parseInt(idOrSlug))
+    : query.eq("slug", idOrSlug);
+
+  const { data: article, error } = await query.single();
+  if (error || !article) {
+    throw contentError("Article not found", "not_found");
+  }
+  const articleAccess = await getArticleAccess(supabase, article, userId);
+  const allowed = options.publishing
+    ? articleAccess.canPublish
+    : canEditArticle(article, articleAccess);
+  if (!allowed) {
+    throw contentError("Not authorized to modify this article", "forbidden");
+  }
+  if (!canAccessChannel(access, article.channel_id)) {
+    throw contentError(
+      "Not authorized: API key is restricted to other channels",
+      "channel_restricted"
+    );
+  }
+  return article;
+}
+
+// Apply a partial update from the v1 API. Only the fields present are
+// changed; categoryIds and images replace the existing sets.
+async function updateSingleArticle(
+  article: any,
+  articleData: any,
+  userId: number,
+  access = FULL_API_ACCESS
+): Promise<any> {
+  const {
+    title,
+    content,
+    contentFormat = "markdown",
+    channelId,
+    categoryIds,
+    location,
+    locationLat,
+    locationLng,
+    images,
+    liveStatus,
+  } = articleData || {};
+
+  const updates: any = {};
+  let sanitized;
+
+  if (title !== undefined) {
+    if (typeof title !== "string" || !title.trim()) {
+      throw contentError("Title cannot be empty", "invalid", "title");
+    }
+    if (title.trim() !== article.title) {
+      updates.title = title.trim();
+      updates.slug = await generateContentSlug(title, article.id);
+    }
+  }
+  if (content !== undefined) {
+    if (typeof content !== "string" || !content.trim()) {
+      throw contentError("Content cannot be empty", "invalid", "content");
+    }
+    ({ html: updates.content, removed: sanitized } = sanitizeArticleHtml(
+      normalizeContent(content, contentFormat)
+    ));
+  }
+  validateContentLimits(categoryIds ?? [], images ?? [], access);
+
+  if (channelId !== undefined && channelId !== article.channel_id) {
+    await requireContentChannel(channelId, userId, access);
+    updates.channel_id = channelId;
+  }
+
+  if (location !== undefined) {
+    updates.location = location || null;
+    updates.location_name = location || null;
+  }
+  if (locationLat !== undefined) updates.location_lat = locationLat;
+  if (locationLng !== undefined) updates.location_lng = locationLng;
+  if (typeof locationLat === "number" && typeof locationLng === "number") {
+    updates.geom = `SRID=4326;POINT(${locationLng} ${locationLat})`;
+  } else if (locationLat === null && locationLng === null) {
+    updates.geom = null;
+  }
+  if (liveStatus !== undefined) {
+    if (!isLiveStatus(liveStatus)) {
+      throw contentError("liveStatus must be live, ended or null", "invalid", "liveStatus");
+    }
+    updates.live_status = liveStatus;
+  }
+
+  if (Object.keys(updates).length === 0 && categoryIds === undefined && images === undefined) {
+    throw contentError("No fields to update", "no_changes");
+  }
+  updates.last_edited = new Date().toISOString();
+
+  const { data: updatedArticle, error: updateError } = await supabase
+    .from("articles")
+    .update(updates)
+    .eq("id", article.id)
+    .select()
+    .single();
+
+  if (updateError || !updatedArticle) {
+    throw new Error(`Failed to update article: ${updateError?.message || "Unknown error"}`);
+  }
+
+  if (categoryIds !== undefined) await replaceContentCategories(article.id, categoryIds);
+  if (images !== undefined) await replaceContentImages(article.id, images);
+
+  if (
+    updatedArticle.title !== article.title ||
+    updatedArticle.content !== article.content
+  ) {
+    await recordArticleRevision(supabase, article, updatedArticle, userId, "edit");
+  }
+  await emitArticleWebhookEvent(
+    supabase,
+    userId,
+    "article.updated",
+    webhookArticleData(updatedArticle)
+  );
+
+  const result = await loadContentArticleResult(updatedArticle);
+  return sanitized ? { ...result, sanitized } : result;
+}
+
+// Publish now or return to drafts. Publishing a scheduled article publishes
+// it immediately; unpublishing one cancels the schedule.
+async function setContentArticlePublished(
+  article: any,
+  published: boolean,
+  userId: number
+): Promise<any> {
+  if (article.published === published && article.status !== "scheduled") {
+    return loadContentArticleResult(article);
+  }
+
+  const updates: any = {
+    published,
+    status: published ? "published" : "draft",
+    last_edited: new Date().toISOString(),
+  };
+  if (published) updates.published_at = new Date().toISOString();
+
+  const { data: updatedArticle, error: updateError } = await supabase
+    .from("articles")
+    .update(updates)
+    .eq("id", article.id)
+    .select()
+    .single();
+
+  if (updateError || !updatedArticle) {
+    throw new Error(`Failed to update article: ${updateError?.message || "Unknown error"}`);
+  }
+
+  await recordArticleRevision(supabase, article, updatedArticle, userId, "status");
+  await emitArticleWebhookEvent(
+    supabase,
+    userId,
+    published ? "article.published" : "article.updated",
+    webhookArticleData(updatedArticle)
+  );
+  if (published) await notifyArticlePublished(supabase, updatedArticle);
+
+  return loadContentArticleResult(updatedArticle);
+}
+
+// The create response shape, with the article's current images and categories
+async function loadContentArticleResult(article: any) {
+  const { data: images } = await supabase
+    .from("article_images")
+    .select("*")
+    .eq("article_id", article.id)
+    .order("order");
+  const { data: categories } = await supabase
+    .from("article_categories")
+    .select("category_id, is_primary")
+    .eq("article_id", article.id);
+
+  return mapContentArticle(
+    article,
+    images || [],
+    (categories || [])
+      .sort((a, b) => Number(b.is_primary) - Number(a.is_primary))
+      .map((c) => c.category_id)
+  );
+}
+
+// Admin: set engagement counters on an article. view_count is the article's
+// absolute view total; admin_like_count / admin_dislike_count are added on
+// top of real user reactions everywhere totals are computed.
+app.post("/api/v1/admin/articles/:id/engagement", async (req, res) => {
+  try {
+    const uid = await getSupabaseUid(req);
+    if (!uid || !(await isAdminUser(uid))) {
+      return res.status(403).json({ error: "Admin access required" });
+    }
+
+    const articleId = parseInt(req.params.id);
+    if (!articleId) {
+      return res.status(400).json({ error: "Invalid article id" });
+    }
+
+    const { viewCount, adminLikeCount, adminDislikeCount } = req.body || {};
+    const updates: any = {};
+    if (viewCount !== undefined)
+      updates.view_count = Math.max(0, parseInt(viewCount) || 0);
+    if (adminLikeCount !== undefined)
+      updates.admin_like_count = Math.max(0, parseInt(adminLikeCount) || 0);
+    if (adminDislikeCount !== undefined)
+      updates.admin_dislike_count = Math.max(0, parseInt(adminDislikeCount) || 0);
+    if (Object.keys(updates).length === 0) {
+      return res.status(400).json({ error: "No engagement fields provided" });
+    }
+
+    const { data: article, error } = await supabase
+      .from("articles")
+      .update(updates)
+      .eq("id", articleId)
+      .select("id, title, view_count, admin_like_count, admin_dislike_count")
+      .single();
+
+    if (error || !article) {
+      return res.status(404).json({ error: "Article not found or update failed" });
+    }
+
+    return res.json(article);
+  } catch (error) {
+    console.error("Error in POST /api/v1/admin/articles/:id/engagement:", error);
+    return res.status(500).json({ error: "Server error" });
+  }
+});
+
+// --- Content API Endpoints ---
+
+// Create a single article
+app.post("/api/v1/content/articles", async (req, res) => {
+  let idempotent: IdempotentRequest | undefined;
+  try {
+    const { userId, access, error: authError, status: authStatus } = await authenticateRequest(
+      req,
+      res,
+      { route: "articles.create", scope: "articles:write" }
+    );
+    if (authError || !userId) {
+      return res.status(authStatus || 401).json({ error: authError || "Authentication required" });
+    }
+
+    const idem = await beginIdempotentRequest(
+      supabase,
+      userId,
+      "articles.create",
+      req.headers["idempotency-key"],
+      req.body,
+      req.query
+    );
+    if (idem.error) return res.status(idem.status).json({ error: idem.error });
+    if (idem.replay) return sendIdempotentReplay(res, idem.replay);
+    idempotent = idem.request;
+
+    const result = await createSingleArticle(req.body, userId, access, {
+      skipDuplicateCheck: !!idempotent,
+    });
+    await completeIdempotentRequest(supabase, idempotent, 201, result);
+    return res.status(201).json(result);
+  } catch (error: any) {
+    console.error("Error in POST /api/v1/content/articles:", error);
+    const status = contentErrorStatus(error);
+    const body = status === 409
+      ? {
+          error: "Duplicate article detected",
+          message: error.message,
+          existingArticleId: error.existingArticleId,
+        }
+      : { error: error.message };
+    await completeIdempotentRequest(supabase, idempotent, status, body);
+    return res.status(status).json(body);
+  }
+});
+
+// Batch create articles
+app.post("/api/v1/content/articles/batch", async (req, res) => {
+  let idempotent: IdempotentRequest | undefined;
+  try {
+    const { userId, access, error: authError, status: authStatus } = await authenticateRequest(
+      req,
+      res,
+      { route: "articles.batch", scope: "articles:write" }
+    );
+    if (authError || !userId) {
+      return res.status(authStatus || 401).json({ error: authError || "Authentication required" });
+    }
+
+    const { articles } = req.body;
+    if (!Array.isArray(articles) || articles.length === 0) {
+      return res.status(400).json({ error: "articles array is required" });
+    }
+    if (articles.length > 10) {
+      return res.status(400).json({ error: "Maximum 10 articles per batch request" });
+    }
+
+    const dryRun = req.query.dryRun === "true" || req.body.dryRun === true;
+    const atomic = req.query.atomic === "true" || req.body.atomic === true;
+
+    // One key covers the whole batch; dry runs write nothing, so need none
+    if (!dryRun) {
+      const idem = await beginIdempotentRequest(
+        supabase,
+        userId,
+        "articles.batch",
+        req.headers["idempotency-key"],
+        req.body,
+        req.query
+      );
+      if (idem.error) return res.status(idem.status).json({ error: idem.error });
+      if (idem.replay) return sendIdempotentReplay(res, idem.replay);
+      idempotent = idem.request;
+    }
+
+    const results = await runArticleBatch(articles, userId, access, {
+      dryRun,
+      atomic,
+      skipDuplicateCheck: !!idempotent,
+    });
+    const count = (status: string) => results.filter((r) => r.status === status).length;
+    const failed = results
+      .filter((r) => r.status === "failed")
+      .map(({ status, ...r }) => r);
+
+    const response = {
+      dryRun,
+      atomic,
+      results,
+      created: results
+        .filter((r) => r.status === "created")
+        .map((r) => ({ index: r.index, ...r.article })),
+      failed,
+      summary: {
+        total: articles.length,
+        succeeded: count(dryRun ? "valid" : "created"),
+        failed: failed.length,
+        rolledBack: count("rolled_back"),
+        skipped: count("skipped"),
+      },
+    };
+    // A failed atomic batch wrote nothing
+    const status = dryRun ? 200 : atomic && failed.length > 0 ? 400 : 201;
+    await completeIdempotentRequest(supabase, idempotent, status, response);
+    return res.status(status).json(response);
+  } catch (error) {
+    console.error("Error in POST /api/v1/content/articles/batch:", error);
+    await completeIdempotentRequest(supabase, idempotent, 500, null);
+    return res.status(500).json({ error: "Server error" });
+  }
+});
+
+// List or search the caller's own articles (drafts and scheduled included).
+// With ?q= results are ranked by the same index as GET /api/search.
+app.get("/api/v1/content/articles", async (req, res) => {
+  try {
+    const { userId, access, error: authError, status: authStatus } = await authenticateRequest(
+      req,
+      res,
+      { route: "content.read", scope: "articles:read" }
+    );
+    if (authError || !userId) {
+      return res.status(authStatus || 401).json({ error: authError || "Authentication required" });
+    }
+
+    if (req.query.q !== undefined) {
+      const { params, error: paramsError } = parseSearchParams(req.query);
+      if (paramsError) {
+        return res.status(400).json({ error: paramsError });
+      }
+      const { results, total } = await searchArticles(supabase, params, userId, access.channelIds);
+      return res.json({ articles: results, total, limit: params.limit, offset: params.offset });
+    }
+
+    const limit = Math.min(Math.max(parseInt(String(req.query.limit || "20"), 10) || 20, 1), 50);
+    const offset = Math.max(parseInt(String(req.query.offset || "0"), 10) || 0, 0);
+    let listQuery = supabase
+      .from("articles")
+      .select(
+        "id, title, slug, channel_id, status, published, category, created_at, published_at, live_status",
+        { count: "exact" }
+      )
+      .eq("user_id", userId);
+    if (access.channelIds) listQuery = listQuery.in("channel_id", access.channelIds);
+    const { data, count, error } = await listQuery
+      .order("created_at", { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      console.error("Error listing v1 articles:", error);
+      return res.status(500).json({ error: "Failed to fetch articles" });
+    }
+
+    return res.json({
+      articles: (data || []).map((a) => ({
+        id: a.id,
+        title: a.title,
+        slug: a.slug,
+        channelId: a.channel_id,
+        status: a.status,
+        published: a.published,
+        category: a.category,
+        createdAt: a.created_at,
+        publishedAt: a.published_at,
+        url: `/articles/${a.id}/${a.slug}`,
+        liveStatus: a.live_status ?? null,
+      })),
+      total: count || 0,
+      limit,
+      offset,
+    });
+  } catch (error) {
+    console.error("Error in GET /api/v1/content/articles:", error);
+    return res.status(500).json({ error: "Server error" });
+  }
+});
+
+// Get article details
+app.get("/api/v1/content/articles/:id", async (req, res) => {
+  try {
+    const { userId, access, error: authError, status: authStatus } = await authenticateRequest(
+      req,
+      res,
+      { route: "content.read", scope: "articles:read" }
+    );
+    if (authError || !userId) {
+      return res.status(authStatus || 401).json({ error: authError || "Authentication required" });
+    }
+
+    const articleId = req.params.id;
+    const isNumeric = /^\d+$/.test(articleId);
+
+    let query = supabase.from("articles").select("*");
+    if (isNumeric) {
+      query = query.eq("id", parseInt(articleId));
+    } else {
+      query = query.eq("slug", articleId);
+    }
+
+    const { data: article, error } = await query.single();
+    if (error || !article) {
+      return res.status(404).json({ error: "Article not found" });
+    }
+
+    // Verify the caller may edit it
+    if (!(await getArticleAccess(supabase, article, userId)).canEdit) {
+      return res.status(403).json({ error: "Not authorized to view this article details" });
+    }
+    if (!canAccessChannel(access, article.channel_id)) {
+      return res.status(403).json({ error: "API key is restricted to other channels" });
+    }
+
+    // Get channel info
+    const { data: channel } = await supabase
+      .from("channels")
+      .select("id, name, slug")
+      .eq("id", article.channel_id)
+      .single();
+
+    // Get images
+    const { data: images } = await supabase
+      .from("article_images")
+      .select("*")
+      .eq("article_id", article.id)
+      .order("order");
+
+    // Get categories
+    const { data: categories } = await supabase
+      .from("article_categories")
+      .select("category_id, is_primary, categories(id, name)")
+      .eq("article_id", article.id);
+
+    return res.json({
+      id: article.id,
+      title: article.title,
+      slug: article.slug,
+      channelId: article.channel_id,
+      channelName: channel?.name || null,
+      status: article.status,
+      published: article.published,
+      createdAt: article.created_at,
+      viewCount: article.view_count,
+      url: `/articles/${article.id}/${article.slug}`,
+      liveStatus: article.live_status ?? null,
+      images: images || [],
+      categories: categories || [],
+    });
+  } catch (error) {
+    console.error("Error in GET /api/v1/content/articles/:id:", error);
+    return res.status(500).json({ error: "Server error" });
+  }
+});
+
+// Update an article. Accepts the create fields; only those sent change.
+app.patch("/api/v1/content/articles/:id", async (req, res) => {
+  try {
+    const { userId, access, error: authError, status: authStatus } = await authenticateRequest(
+      req,
+      res,
+      { route: "articles.update", scope: "articles:write" }
+    );
+    if (authError || !userId) {
+      return res.status(authStatus || 401).json({ error: authError || "Authentication required" });
+    }
+
+    const article = await loadContentArticle(req.params.id, userId, access);
+    const result = await updateSingleArticle(article, req.body, userId, access);
+    return res.json(result);
+  } catch (error: any) {
+    console.error("Error in PATCH /api/v1/content/articles/:id:", error);
+    return res.status(contentErrorStatus(error)).json({ error: error.message });
+  }
+});
+
+// Delete an article
+app.delete("/api/v1/content/articles/:id", async (req, res) => {
+  try {
+    const { userId, access, error: authError, status: authStatus } = await authenticateRequest(
+      req,
+      res,
+      { route: "articles.update", scope: "articles:write" }
+    );
+    if (authError || !userId) {
+      return res.status(authStatus || 401).json({ error: authError || "Authentication required" });
+    }
+
+    const article = await loadContentArticle(req.params.id, userId, access);
+    const deleteError = await deleteArticleAndRelations(article.id);
+    if (deleteError) {
+      console.error("Error deleting v1 article:", deleteError);
+      return res.status(500).json({ error: "Failed to delete article" });
+    }
+
+    await emitArticleWebhookEvent(supabase, userId, "article.deleted", webhookArticleData(article));
+    return res.json({ message: "Article deleted", id: article.id });
+  } catch (error: any) {
+    console.error("Error in DELETE /api/v1/content/articles/:id:", error);
+    return res.status(contentErrorStatus(error)).json({ error: error.message });
+  }
+});
+
+// Publish an article now, or move it back to drafts
+function contentPublishHandler(published: boolean) {
+  const action = published ? "publish" : "unpublish";
+  return async (req, res) => {
+    try {
+      const { userId, access, error: authError, status: authStatus } = await authenticateRequest(
+        req,
+        res,
+        { route: "articles.update", scope: "articles:write" }
+      );
+      if (authError || !userId) {
+        return res.status(authStatus || 401).json({ error: authError || "Authentication required" });
+      }
+
+      const article = await loadContentArticle(req.params.id, userId, access, { publishing: published });
+      const result = await setContentArticlePublished(article, published, userId);
+      return res.json(result);
+    } catch (error: any) {
+      console.error(`Error in POST /api/v1/content/articles/:id/${action}:`, error);
+      return res.status(contentErrorStatus(error)).json({ error: error.message });
+    }
+  };
+}
+
+app.post("/api/v1/content/articles/:id/publish", contentPublishHandler(true));
+app.post("/api/v1/content/articles/:id/unpublish", contentPublishHandler(false));
+
+// Append an entry to a live blog
+app.post("/api/v1/content/articles/:id/updates", async (req, res) => {
+  try {
+    const { userId, access, error: authError, status: authStatus } = await authenticateRequest(
+      req,
+      res,
+      { route: "articles.update", scope: "articles:write" }
+    );
+    if (authError || !userId) {
+      return res.status(authStatus || 401).json({ error: authError || "Authentication required" });
+    }
+
+    const article = await loadContentArticle(req.params.id, userId, access);
+    if (article.live_status !== "live") {
+      throw contentError(
+        article.live_status === "ended"
+          ? "Live coverage of this article has ended"
+          : "This article is not a live blog",
+        "invalid",
+        "liveStatus"
+      );
+    }
+    const { fields, sanitized, error: inputError } = parseLiveUpdateInput(req.body);
+    if (inputError) return res.status(400).json({ error: inputError });
+
+    const update = await createLiveUpdate(supabase, article.id, userId, fields);
+    return res.status(201).json(sanitized ? { ...update, sanitized } : update);
+  } catch (error: any) {
+    console.error("Error in POST /api/v1/content/articles/:id/updates:", error);
+    return res.status(contentErrorStatus(error)).json({ error: error.message });
+  }
+});
+
+// List user's channels
+app.get("/api/v1/content/channels", async (req, res) => {
+  try {
+    const { userId, access, error: authError, status: authStatus } = await authenticateRequest(
+      req,
+      res,
+      { route: "content.read", scope: "channels:read" }
+    );
+    if (authError || !userId) {
+      return res.status(authStatus || 401).json({ error: authError || "Authentication required" });
+    }
+
+    // ?q= narrows to the caller's channels matching the search
+    let channelIds: number[] | null = null;
+    if (req.query.q) {
+      const matches = await searchChannels(supabase, String(req.query.q), 50, userId);
+      channelIds = matches.map((c) => c.id);
+    }
+
+    let channelsQuery = supabase
+      .from("channels")
+      .select("*")
+      .eq("user_id", userId)
+      .order("created_at", { ascending: false });
+    if (channelIds) channelsQuery = channelsQuery.in("id", channelIds);
+    if (access.channelIds) channelsQuery = channelsQuery.in("id", access.channelIds);
+
+    const { data: channels, error } = await channelsQuery;
+
+    if (error) {
+      return res.status(500).json({ error: "Failed to fetch channels" });
+    }
+
+    // Enrich with article counts and subscriber counts
+    const enriched = await Promise.all(
+      (channels || []).map(async (ch: any) => {
+        const { count: articleCount } = await supabase
+          .from("articles")
+          .select("*", { count: "exact", head: true })
+          .eq("channel_id", ch.id)
+          .eq("published", true);
+
+        const { count: subscriberCount } = await supabase
+          .from("subscriptions")
+          .select("*", { count: "exact", head: true })
+          .eq("channel_id", ch.id);
+
+        return {
+          id: ch.id,
+          name: ch.name,
+          slug: ch.slug,
+          description: ch.description,
+          category: ch.category,
+          articleCount: articleCount || 0,
+          subscriberCount: (subscriberCount || 0) + (ch.admin_subscriber_count || 0),
+        };
+      })
+    );
+
+    return res.json(enriched);
+  } catch (error) {
+    console.error("Error in GET /api/v1/content/channels:", error);
+    return res.status(500).json({ error: "Server error" });
+  }
+});
+
+// List available categories (hierarchical)
+app.get("/api/v1/content/categories", async (req, res) => {
+  try {
+    // Categories are public, but still require auth for API consistency
+    const { userId, error: authError, status: authStatus } = await authenticateRequest(
+      req,
+      res,
+      { route: "content.read" }
+    );
+    if (authError || !userId) {
+      return res.status(authStatus || 401).json({ error: authError || "Authentication required" });
+    }
+
+    // ?q= returns a flat list of matching categories instead of the tree
+    if (req.query.q) {
+      return res.json(await searchCategories(supabase, String(req.query.q), 50));
+    }
+
+    const { data: categories, error } = await supabase
+      .from("categories")
+      .select("*")
+      .order("name");
+
+    if (error) {
+      return res.status(500).json({ error: "Failed to fetch categories" });
+    }
+
+    // Build hierarchical tree
+    const categoryMap = new Map<number, any>();
+    const roots: any[] = [];
+
+    for (const cat of categories || []) {
+      categoryMap.set(cat.id, { ...cat, children: [] });
+    }
+
+    for (const cat of categories || []) {
+      const node = categoryMap.get(cat.id);
+      if (cat.parent_id && categoryMap.has(cat.parent_id)) {
+        categoryMap.get(cat.parent_id).children.push(node);
+      } else {
+        roots.push(node);
+      }
+    }
+
+    return res.json(roots);
+  } catch (error) {
+    console.error("Error in GET /api/v1/content/categories:", error);
+    return res.status(500).json({ error: "Server error" });
+  }
+});
+
+// ---- Email digests ----
+// Daily/weekly digests of new articles in the channels a user subscribes to,
+// each led by its [!SUMMARY] bullets, sent through the MAIL_TRANSPORT
+// (resend | smtp | file). Canonical copy: server/email-digests.ts — keep the
+// two in sync.
+import { promises as fs } from "fs";
+import { createConnection } from "net";
+import path from "path";
+
+const DIGEST_FREQUENCIES = ["off", "daily", "weekly"];
+
+const DIGEST_SITE_BASE = process.env.SITE_URL || "https://www.newsplatform.org";
+const DIGEST_FROM = process.env.MAIL_FROM || "NewsPlatform <digest@newsplatform.org>";
+const MAX_DIGEST_ARTICLES = 20;
+// A digest is due this long after the last one; a little under the period so
+// a cron tick that runs a few minutes early doesn't skip a day
+const DIGEST_DUE_AFTER_MS: Record<string, number> = {
+  daily: 20 * 60 * 60 * 1000,
+  weekly: (6 * 24 + 20) * 60 * 60 * 1000,
+};
+// How far back a user's first digest looks
+const DIGEST_LOOKBACK_MS: Record<string, number> = {
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+};
+
+interface MailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  headers?: Record<string, string>;
+}
+
+interface MailTransport {
+  name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+interface DigestArticle {
+  title: string;
+  url: string;
+  channelName: string;
+  publishedAt: string;
+  summary: string[];
+}
+
+// ---- Mail transports ----
+
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value).toString("base64")}?=`;
+}
+
+function base64Lines(value: string): string {
+  return Buffer.from(value).toString("base64").replace(/.{76}/g, "$&\r\n");
+}
+
+function emailAddress(value: string): string {
+  return value.match(/<([^>]+)>/)?.[1] || value.trim();
+}
+
+/** Render a message as RFC 5322 text with HTML and plain-text alternatives */
+function formatMimeMessage(message: MailMessage): string {
+  const boundary = `np-${randomBytes(12).toString("hex")}`;
+  const headers: Record<string, string> = {
+    From: message.from,
+    To: message.to,
+    Subject: encodeHeader(message.subject),
+    Date: new Date().toUTCString(),
+    "Message-ID": `<${randomBytes(16).toString("hex")}@${emailAddress(message.from).split("@")[1] || "localhost"}>`,
+    "MIME-Version": "1.0",
+    "Content-Type": `multipart/alternative; boundary="${boundary}"`,
+    ...message.headers,
+  };
+  const part = (type: string, body: string) =>
+    [
+      `--${boundary}`,
+      `Content-Type: ${type}; charset=utf-8`,
+      "Content-Transfer-Encoding: base64",
+      "",
+      base64Lines(body),
+    ].join("\r\n");
+
+  return [
+    ...Object.entries(headers).map(([key, value]) => `${key}: ${value}`),
+    "",
+    part("text/plain", message.text),
+    part("text/html", message.html),
+    `--${boundary}--`,
+    "",
+  ].join("\r\n");
+}
+
+/** Write each message to <dir>/<timestamp>-<to>.eml */
+function createFileTransport(dir: string): MailTransport {
+  return {
+    name: "file",
+    async send(message) {
+      await fs.mkdir(dir, { recursive: true });
+      const safeTo = emailAddress(message.to).replace(/[^\w.@-]/g, "_");
+      const file = path.join(dir, `${Date.now()}-${safeTo}.eml`);
+      await fs.writeFile(file, formatMimeMessage(message));
+      console.log(`Wrote digest email to ${file}`);
+    },
+  };
+}
+
+/**
+ * Plain SMTP without auth or TLS, for a local sink (Mailpit, MailHog,
+ * smtp4dev). Not meant for a real relay.
+ */
+function createSmtpTransport(host: string, port: number): MailTransport {
+  return {
+    name: "smtp",
+    send: (message) =>
+      new Promise((resolve, reject) => {
+        const data = formatMimeMessage(message).replace(/^\./gm, "..");
+        const commands = [
+          "EHLO newsplatform.local",
+          `MAIL FROM:<${emailAddress(message.from)}>`,
+          `RCPT TO:<${emailAddress(message.to)}>`,
+          "DATA",
+          `${data}\r\n.`,
+          "QUIT",
+        ];
+        let step = -1; // -1 = waiting for the greeting
+        let pending = "";
+        let done = false;
+        const finish = (error?: Error) => {
+          if (done) return;
+          done = true;
+          socket.destroy();
+          error ? reject(error) : resolve();
+        };
+
+        const socket = createConnection({ host, port });
+        socket.setTimeout(10000, () => finish(new Error("SMTP timeout")));
+        socket.on("error", (error) => finish(error));
+        socket.on("close", () => finish(new Error("SMTP connection closed early")));
+        socket.on("data", (chunk) => {
+          pending += chunk.toString();
+          // A reply is complete once a line reads "NNN text" (no dash)
+          const lines = pending.split("\r\n");
+          const last = lines[lines.length - 2];
+          if (!last || !/^\d{3}( |$)/.test(last)) return;
+          pending = "";
+          if (parseInt(last, 10) >= 400) return finish(new Error(`SMTP error: ${last}`));
+          step++;
+          if (step === commands.length) return finish();
+          socket.write(`${commands[step]}\r\n`);
+        });
+      }),
+  };
+}
+
+function createResendTransport(apiKey: string): MailTransport {
+  return {
+    name: "resend",
+    async send(message) {
+      const response = await fetch("https://api.resend.com/emails", {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          from: message.from,
+          to: [message.to],
+          subject: message.subject,
+          html: message.html,
+          text: message.text,
+          headers: message.headers,
+        }),
+      });
+      if (!response.ok) {
+        throw new Error(`Resend returned ${response.status}: ${await response.text()}`);
+      }
+    },
+  };
+}
+
+/** The transport picked by MAIL_TRANSPORT, or null when mail isn't configured */
+function getMailTransport(): MailTransport | null {
+  const kind = process.env.MAIL_TRANSPORT || (process.env.RESEND_API_KEY ? "resend" : "");
+  switch (kind) {
+    case "resend":
+      return process.env.RESEND_API_KEY
+        ? createResendTransport(process.env.RESEND_API_KEY)
+        : null;
+    case "smtp":
+      return createSmtpTransport(
+        process.env.SMTP_HOST || "localhost",
+        parseInt(process.env.SMTP_PORT || "1025", 10)
+      );
+    case "file":
+      return createFileTransport(process.env.MAIL_SINK_DIR || ".mail");
+    default:
+      return null;
+  }
+}
+
+// ---- Digest content ----
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function htmlToText(html: string): string {
+  return html
+    .replace(/<[^>]+>/g, " ")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * The bullets of an article's [!SUMMARY] callout, or its opening paragraph
+ * (trimmed) when it has none.
+ */
+function extractArticleSummary(html: string): string[] {
+  const aside = (html || "").match(
+    /<aside class="callout callout-summary"[^>]*>([\s\S]*?)<\/aside>/
+  );
+  if (aside) {
+    const body = aside[1].replace(/<div class="callout-title">[\s\S]*?<\/div>/, "");
+    const bullets = Array.from(body.matchAll(/<li[^>]*>([\s\S]*?)<\/li>/g))
+      .map((m) => htmlToText(m[1]))
+      .filter(Boolean);
+    if (bullets.length > 0) return bullets;
+    const text = htmlToText(body);
+    if (text) return [text];
+  }
+
+  const paragraph = (html || "").match(/<p[^>]*>([\s\S]*?)<\/p>/);
+  const text = htmlToText(paragraph ? paragraph[1] : html || "");
+  if (!text) return [];
+  return [text.length > 280 ? `${text.slice(0, 277).trimEnd()}...` : text];
+}
+
+/** Render a digest as a subject line, HTML body and plain-text body */
+function buildDigestEmail(options: {
+  username: string;
+  frequency: string;
+  articles: DigestArticle[];
+  unsubscribeUrl: string;
+  preferencesUrl: string;
+}): { subject: string; html: string; text: string } {
+  const { username, frequency, articles, unsubscribeUrl, preferencesUrl } = options;
+  const period = frequency === "weekly" ? "this week" : "today";
+  const subject = `${articles.length} new ${articles.length === 1 ? "story" : "stories"} from your channels ${period}`;
+
+  // Group by channel, keeping the newest-first order within each
+  const byChannel = new Map<string, DigestArticle[]>();
+  for (const article of articles) {
+    byChannel.set(article.channelName, [...(byChannel.get(article.channelName) || []), article]);
+  }
+
+  const text = [
+    `Hi ${username},`,
+    "",
+    `Here's what was published ${period} in the channels you follow.`,
+    ...Array.from(byChannel.entries()).flatMap(([channel, items]) => [
+      "",
+      channel.toUpperCase(),
+      ...items.flatMap((a) => ["", a.title, ...a.summary.map((s) => `  - ${s}`), `  ${a.url}`]),
+    ]),
+    "",
+    "--",
+    `Change how often you get this: ${preferencesUrl}`,
+    `Unsubscribe: ${unsubscribeUrl}`,
+    "",
+  ].join("\n");
+
+  const html = `<!DOCTYPE html>
+<html><body style="margin:0;padding:24px;background:#f5f5f5;font-family:-apple-system,Segoe UI,Helvetica,Arial,sans-serif;color:#111">
+<div style="max-width:600px;margin:0 auto;background:#fff;border-radius:8px;padding:24px">
+<p style="margin:0 0 16px">Hi ${escapeHtml(username)},</p>
+<p style="margin:0 0 24px;color:#555">Here's what was published ${period} in the channels you follow.</p>
+${Array.from(byChannel.entries())
+  .map(
+    ([channel, items]) => `<h2 style="font-size:13px;text-transform:uppercase;letter-spacing:.05em;color:#888;margin:24px 0 8px">${escapeHtml(channel)}</h2>
+${items
+  .map(
+    (a) => `<div style="margin:0 0 20px">
+<a href="${escapeHtml(a.url)}" style="font-size:18px;font-weight:600;color:#111;text-decoration:none">${escapeHtml(a.title)}</a>
+${a.summary.length > 0 ? `<ul style="margin:8px 0 0;padding-left:20px;color:#333">${a.summary.map((s) => `<li style="margin:0 0 4px">${escapeHtml(s)}</li>`).join("")}</ul>` : ""}
+</div>`
+  )
+  .join("\n")}`
+  )
+  .join("\n")}
+<hr style="border:none;border-top:1px solid #eee;margin:24px 0 16px">
+<p style="font-size:12px;color:#888;margin:0">You get this ${escapeHtml(frequency)} digest because you subscribe to these channels on NewsPlatform.
+<a href="${escapeHtml(preferencesUrl)}" style="color:#888">Change frequency</a> ·
+<a href="${escapeHtml(unsubscribeUrl)}" style="color:#888">Unsubscribe</a></p>
+</div>
+</body></html>`;
+
+  return { subject, html, text };
+}
+
+/**
+ * The page behind the unsubscribe link. GET shows "confirm" (a form that POSTs
+ * back, so link scanners can't unsubscribe anyone); the POST, or a mail
+ * client's one-click request, shows "done".
+ */
+function renderUnsubscribePage(state: "confirm" | "done" | "invalid", token = ""): string {
+  const body =
+    state === "confirm"
+      ? `<h1>Stop email digests?</h1>
+<p>You won't get any more digest emails. You can turn them back on from your profile.</p>
+<form method="post" action="?token=${encodeURIComponent(token)}"><button type="submit">Unsubscribe</button></form>`
+      : state === "done"
+        ? `<h1>You're unsubscribed</h1>
+<p>You won't get any more digest emails. Changed your mind? Turn them back on from <a href="/profile">your profile</a>.</p>`
+        : `<h1>Link not recognised</h1>
+<p>This unsubscribe link is invalid. You can manage digests from <a href="/profile">your profile</a>.</p>`;
+  return `<!DOCTYPE html>
+<html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width,initial-scale=1"><title>Email digests - NewsPlatform</title></head>
+<body style="font-family:-apple-system,Segoe UI,Helvetica,Arial,sans-serif;max-width:480px;margin:64px auto;padding:0 16px;color:#111">
+${body}
+</body></html>`;
+}
+
+// ---- Preferences ----
+
+function generateUnsubscribeToken(): string {
+  return randomBytes(24).toString("hex");
+}
+
+/** A user's digest preferences, creating the row (frequency off) if needed */
+async function getDigestPreferences(sb, userId: number) {
+  const { data: existing } = await sb
+    .from("digest_preferences")
+    .select("*")
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (existing) return existing;
+
+  const { data: created, error } = await sb
+    .from("digest_preferences")
+    .insert({ user_id: userId, frequency: "off", unsubscribe_token: generateUnsubscribeToken() })
+    .select()
+    .single();
+  if (error && error.code !== "23505") throw error;
+  if (created) return created;
+
+  // Lost a race with another request creating it
+  const { data } = await sb
+    .from("digest_preferences")
+    .select("*")
+    .eq("user_id", userId)
+    .single();
+  return data;
+}
+
+async function setDigestFrequency(
+  sb,
+  userId: number,
+  frequency: string
+) {
+  await getDigestPreferences(sb, userId);
+  const { data, error } = await sb
+    .from("digest_preferences")
+    .update({ frequency, updated_at: new Date().toISOString() })
+    .eq("user_id", userId)
+    .select()
+    .single();
+  if (error) throw error;
+  return data;
+}
+
+/** Turn digests off for the token's owner. Returns false for an unknown token. */
+async function unsubscribeFromDigests(
+  sb,
+  token: string
+): Promise<boolean> {
+  if (!token) return false;
+  const { data } = await sb
+    .from("digest_preferences")
+    .update({ frequency: "off", updated_at: new Date().toISOString() })
+    .eq("unsubscribe_token", token)
+    .select("user_id");
+  return !!data && data.length > 0;
+}
+
+function mapDigestPreferences(row: any) {
+  return {
+    frequency: row.frequency,
+    lastSentAt: row.last_sent_at,
+  };
+}
+
+// ---- Sending ----
+
+/** Published articles from the user's subscribed channels, newest first */
+async function loadDigestArticles(
+  sb,
+  userId: number,
+  since: string
+): Promise<DigestArticle[]> {
+  const { data: subscriptions } = await sb
+    .from("subscriptions")
+    .select("channel_id")
+    .eq("user_id", userId);
+  const channelIds = (subscriptions || []).map((s: any) => s.channel_id);
+  if (channelIds.length === 0) return [];
+
+  const { data: articles, error } = await sb
+    .from("articles")
+    .select("id, title, slug, content, published_at, channel:channel_id(name)")
+    .in("channel_id", channelIds)
+    .eq("published", true)
+    .gt("published_at", since)
+    .order("published_at", { ascending: false })
+    .limit(MAX_DIGEST_ARTICLES);
+  if (error) {
+    console.error("Error loading digest articles:", error);
+    return [];
+  }
+
+  return (articles || []).map((a: any) => ({
+    title: a.title,
+    url: `${DIGEST_SITE_BASE}/articles/${a.id}${a.slug ? `/${a.slug}` : ""}`,
+    channelName: a.channel?.name || "NewsPlatform",
+    publishedAt: a.published_at,
+    summary: extractArticleSummary(a.content),
+  }));
+}
+
+/**
+ * Send every digest that is due. A user's row is claimed (last_sent_at moved
+ * to now) before sending so overlapping runs don't double-send; a failed send
+ * puts it back. force ignores the schedule, and userId limits the run to one
+ * user (both for local testing).
+ */
+async function sendDueDigests(
+  sb,
+  transport: MailTransport,
+  options: { force?: boolean; userId?: number } = {}
+): Promise<{ sent: number; empty: number; failed: number }> {
+  const summary = { sent: 0, empty: 0, failed: 0 };
+  const now = new Date();
+
+  let query = sb
+    .from("digest_preferences")
+    .select("user_id, frequency, unsubscribe_token, last_sent_at, user:user_id(username, supabase_uid)")
+    .neq("frequency", "off");
+  if (options.userId) query = query.eq("user_id", options.userId);
+  const { data: preferences, error } = await query;
+  if (error) {
+    console.error("Error loading digest preferences:", error);
+    return summary;
+  }
+
+  for (const pref of preferences || []) {
+    const user: any = pref.user;
+    const lastSent = pref.last_sent_at ? new Date(pref.last_sent_at).getTime() : 0;
+    if (!options.force && now.getTime() - lastSent < DIGEST_DUE_AFTER_MS[pref.frequency]) {
+      continue;
+    }
+
+    const since =
+      pref.last_sent_at ||
+      new Date(now.getTime() - DIGEST_LOOKBACK_MS[pref.frequency]).toISOString();
+    const articles = await loadDigestArticles(sb, pref.user_id, since);
+    if (articles.length === 0) {
+      summary.empty++;
+      continue;
+    }
+
+    const { data: authUser } = user?.supabase_uid
+      ? await sb.auth.admin.getUserById(user.supabase_uid)
+      : { data: null };
+    const email = authUser?.user?.email;
+    if (!email) {
+      summary.empty++;
+      continue;
+    }
+
+    let claim = sb
+      .from("digest_preferences")
+      .update({ last_sent_at: now.toISOString() })
+      .eq("user_id", pref.user_id);
+    claim = pref.last_sent_at ? claim.eq("last_sent_at", pref.last_sent_at) : claim.is("last_sent_at", null);
+    const { data: claimed } = await claim.select("user_id");
+    if (!claimed || claimed.length === 0) continue; // another run has it
+
+    const unsubscribeUrl = `${DIGEST_SITE_BASE}/api/digests/unsubscribe?token=${pref.unsubscribe_token}`;
+    const digest = buildDigestEmail({
+      username: user?.username || "there",
+      frequency: pref.frequency,
+      articles,
+      unsubscribeUrl,
+      preferencesUrl: `${DIGEST_SITE_BASE}/profile`,
+    });
+
+    try {
+      await transport.send({
+        from: DIGEST_FROM,
+        to: email,
+        ...digest,
+        headers: {
+          "List-Unsubscribe": `<${unsubscribeUrl}>`,
+          "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+        },
+      });
+      summary.sent++;
+    } catch (sendError) {
+      console.error(`Error sending digest to user ${pref.user_id}:`, sendError);
+      await sb
+        .from("digest_preferences")
+        .update({ last_sent_at: pref.last_sent_at })
+        .eq("user_id", pref.user_id);
+      summary.failed++;
+    }
+  }
+
+  return summary;
+}
+
+// Current user's digest settings
+app.get("/api/digest-preferences", async (req, res) => {
+  try {
+    const { userId, error: authError } = await authenticateUser(req);
+    if (authError || !userId) {
+      return res.status(401).json({ error: authError || "Authentication required" });
+    }
+    return res.json(mapDigestPreferences(await getDigestPreferences(supabase, userId)));
+  } catch (error) {
+    console.error("Error in GET /api/digest-preferences:", error);
+    return res.status(500).json({ error: "Server error" });
+  }
+});
+
+app.put("/api/digest-preferences", async (req, res) => {
+  try {
+    const { userId, error: authError } = await authenticateUser(req);
+    if (authError || !userId) {
+      return res.status(401).json({ error: authError || "Authentication required" });
+    }
+
+    const { frequency } = req.body || {};
+    if (!DIGEST_FREQUENCIES.includes(frequency)) {
+      return res
+        .status(400)
+        .json({ error: `frequency must be one of ${DIGEST_FREQUENCIES.join(", ")}` });
+    }
+    return res.json(mapDigestPreferences(await setDigestFrequency(supabase, userId, frequency)));
+  } catch (error) {
+    console.error("Error in PUT /api/digest-preferences:", error);
+    return res.status(500).json({ error: "Server error" });
+  }
+});
+
+// Unsubscribe link in every digest. GET asks for confirmation; POST (the
+// confirm button, or a mail client's List-Unsubscribe-Post) turns digests off.
+app.get("/api/digests/unsubscribe", (req, res) => {
+  const token = String(req.query.token || "");
+  res.type("html").send(renderUnsubscribePage(token ? "confirm" : "invalid", token));
+});
+
+app.post("/api/digests/unsubscribe", async (req, res) => {
+  try {
+    const done = await unsubscribeFromDigests(supabase, String(req.query.token || ""));
+    return res
+      .status(done ? 200 : 404)
+      .type("html")
+      .send(renderUnsubscribePage(done ? "done" : "invalid"));
+  } catch (error) {
+    console.error("Error in POST /api/digests/unsubscribe:", error);
+    return res.status(500).json({ error: "Server error" });
+  }
+});
+
+// Send the digests that are due. Called by the Vercel cron (see vercel.json)
+// with "Authorization: Bearer $CRON_SECRET"; admins can also trigger it.
+app.get("/api/cron/send-digests", async (req, res) => {
+  try {
+    const cronSecret = process.env.CRON_SECRET;
+    const isCron =
+      !!cronSecret && req.headers.authorization === `Bearer ${cronSecret}`;
+    if (!isCron) {
+      const uid = await getSupabaseUid(req);
+      if (!uid || !(await isAdminUser(uid))) {
+        return res.status(401).json({ error: "Unauthorized" });
+      }
+    }
+
+    const transport = getMailTransport();
+    if (!transport) {
+      return res.status(503).json({ error: "Mail transport is not configured" });
+    }
+    return res.json(await sendDueDigests(supabase, transport));
+  } catch (error) {
+    console.error("Error in send-digests cron:", error);
+    return res.status(500).json({ error: "Server error" });
+  }
+});
+
+// ---- Notifications ----
+// In-app notifications behind the nav bell: comment replies, new articles in
+// subscribed channels, reactions and channel invitations. Fan-out is best
+// effort and skips the actor. Canonical copy: server/notifications.ts — keep the two in sync.
+const NOTIFICATION_TYPES = [
+  "comment_reply",
+  "article_published",
+  "article_reaction",
+  "channel_invite",
+];
+
+const NOTIFICATION_PAGE_SIZE = 20;
+const NOTIFICATION_MAX_PAGE_SIZE = 50;
+const NOTIFICATION_INSERT_CHUNK = 500; // rows per insert when fanning out
+const NOTIFICATION_EXCERPT_LENGTH = 140;
+
+function notificationExcerpt(text: string): string {
+  const plain = String(text || "").replace(/\s+/g, " ").trim();
+  return plain.length > NOTIFICATION_EXCERPT_LENGTH
+    ? `${plain.slice(0, NOTIFICATION_EXCERPT_LENGTH - 1)}…`
+    : plain;
+}
+
+async function insertNotifications(sb, rows: any[]) {
+  for (let i = 0; i < rows.length; i += NOTIFICATION_INSERT_CHUNK) {
+    const chunk = rows.slice(i, i + NOTIFICATION_INSERT_CHUNK);
+    const { error } = await sb
+      .from("notifications")
+      .upsert(chunk, { onConflict: "user_id,dedupe_key", ignoreDuplicates: true });
+    if (error) throw error;
+  }
+}
+
+// ---- Fan-out ----
+
+/** Tell the parent comment's author about a reply */
+async function notifyCommentReply(
+  sb,
+  comment: { id: number; article_id: number; parent_id?: number | null; user_id: number; content: string }
+): Promise<void> {
+  if (!comment.parent_id) return;
+  try {
+    const { data: parent } = await sb
+      .from("comments")
+      .select("id, user_id")
+      .eq("id", comment.parent_id)
+      .maybeSingle();
+    if (!parent || parent.user_id === comment.user_id) return;
+
+    const { data: article } = await sb
       .from("articles")
-      .select("id")
-      .eq("slug", candidateSlug)
+      .select("title, slug")
+      .eq("id", comment.article_id)
+      .maybeSingle();
+
+    await insertNotifications(sb, [
+      {
+        user_id: parent.user_id,
+        type: "comment_reply",
+        actor_id: comment.user_id,
+        article_id: comment.article_id,
+        comment_id: comment.id,
+        data: {
+          articleTitle: article?.title ?? null,
+          articleSlug: article?.slug ?? null,
+          excerpt: notificationExcerpt(comment.content),
+        },
+      },
+    ]);
+  } catch (error) {
+    console.error("Error creating comment reply notification:", error);
+  }
+}
+
+/** Tell a channel's subscribers that one of its articles went live */
+async function notifyArticlePublished(
+  sb,
+  article: { id: number; title: string; slug?: string | null; channel_id?: number | null; user_id: number }
+): Promise<void> {
+  if (!article.channel_id) return;
+  try {
+    const { data: subscribers, error } = await sb
+      .from("subscriptions")
+      .select("user_id")
+      .eq("channel_id", article.channel_id);
+    if (error) throw error;
+
+    const recipients = Array.from(
+      new Set((subscribers || []).map((s) => s.user_id))
+    ).filter((userId) => userId !== article.user_id);
+    if (recipients.length === 0) return;
+
+    const { data: channel } = await sb
+      .from("channels")
+      .select("name")
+      .eq("id", article.channel_id)
+      .maybeSingle();
+
+    await insertNotifications(
+      sb,
+      recipients.map((userId) => ({
+        user_id: userId,
+        type: "article_published",
+        actor_id: article.user_id,
+        article_id: article.id,
+        channel_id: article.channel_id,
+        dedupe_key: `article_published:${article.id}`,
+        data: {
+          articleTitle: article.title,
+          articleSlug: article.slug ?? null,
+          channelName: channel?.name ?? null,
+        },
+      }))
+    );
+  } catch (error) {
+    console.error(`Error notifying subscribers about article ${article.id}:`, error);
+  }
+}
+
+/** Tell an article's author that someone reacted to it (once per reader) */
+async function notifyArticleReaction(
+  sb,
+  article: { id: number; title: string; slug?: string | null; user_id: number },
+  actorId: number,
+  isLike: boolean
+): Promise<void> {
+  if (article.user_id === actorId) return;
+  try {
+    await insertNotifications(sb, [
+      {
+        user_id: article.user_id,
+        type: "article_reaction",
+        actor_id: actorId,
+        article_id: article.id,
+        dedupe_key: `article_reaction:${article.id}:${actorId}`,
+        data: {
+          articleTitle: article.title,
+          articleSlug: article.slug ?? null,
+          isLike,
+        },
+      },
+    ]);
+  } catch (error) {
+    console.error(`Error creating reaction notification for article ${article.id}:`, error);
+  }
+}
+
+/** Tell a user they've been invited to write for a channel */
+async function notifyChannelInvite(
+  sb,
+  invite: { channelId: number; userId: number; invitedBy: number; role: string }
+): Promise<void> {
+  try {
+    const { data: channel } = await sb
+      .from("channels")
+      .select("name")
+      .eq("id", invite.channelId)
+      .maybeSingle();
+
+    await insertNotifications(sb, [
+      {
+        user_id: invite.userId,
+        type: "channel_invite",
+        actor_id: invite.invitedBy,
+        channel_id: invite.channelId,
+        data: {
+          channelName: channel?.name ?? null,
+          role: invite.role,
+        },
+      },
+    ]);
+  } catch (error) {
+    console.error(`Error notifying user ${invite.userId} about channel ${invite.channelId}:`, error);
+  }
+}
+
+// ---- Reading ----
+
+function mapNotificationRow(row: any) {
+  return {
+    id: row.id,
+    type: row.type,
+    actor: row.actor ? { id: row.actor.id, username: row.actor.username } : null,
+    articleId: row.article_id,
+    commentId: row.comment_id,
+    channelId: row.channel_id,
+    data: row.data || {},
+    readAt: row.read_at,
+    createdAt: row.created_at,
+  };
+}
+
+/** Count of the user's unread notifications */
+async function countUnreadNotifications(
+  sb,
+  userId: number
+): Promise<number> {
+  const { count, error } = await sb
+    .from("notifications")
+    .select("id", { count: "exact", head: true })
+    .eq("user_id", userId)
+    .is("read_at", null);
+  if (error) throw error;
+  return count || 0;
+}
+
+/**
+ * A page of the user's notifications, newest first, plus the unread count.
+ * Pass the last id seen as `before` to page further back.
+ */
+async function listNotifications(
+  sb,
+  userId: number,
+  options: { limit?: unknown; before?: unknown; unreadOnly?: boolean } = {}
+) {
+  const limit = Math.min(
+    Math.max(parseInt(String(options.limit ?? ""), 10) || NOTIFICATION_PAGE_SIZE, 1),
+    NOTIFICATION_MAX_PAGE_SIZE
+  );
+  let query = sb
+    .from("notifications")
+    .select("*, actor:actor_id(id, username)")
+    .eq("user_id", userId)
+    .order("id", { ascending: false })
+    .limit(limit);
+  const before = parseInt(String(options.before ?? ""), 10);
+  if (before > 0) query = query.lt("id", before);
+  if (options.unreadOnly) query = query.is("read_at", null);
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  return {
+    notifications: (data || []).map(mapNotificationRow),
+    unreadCount: await countUnreadNotifications(sb, userId),
+  };
+}
+
+/**
+ * Mark notifications read: the given ids, or every unread one when ids is
+ * "all". Returns the remaining unread count.
+ */
+async function markNotificationsRead(
+  sb,
+  userId: number,
+  ids: number[] | "all"
+): Promise<number> {
+  let query = sb
+    .from("notifications")
+    .update({ read_at: new Date().toISOString() })
+    .eq("user_id", userId)
+    .is("read_at", null);
+  if (ids !== "all") query = query.in("id", ids);
+
+  const { error } = await query;
+  if (error) throw error;
+  return countUnreadNotifications(sb, userId);
+}
+
+/**
+ * Validate a PATCH /api/notifications body: { all: true } or { ids: [..] }.
+ * Returns the ids to mark (or "all"), or an error message.
+ */
+function parseMarkReadBody(body: any): { ids?: number[] | "all"; error?: string } {
+  if (body?.all === true) return { ids: "all" };
+  if (!Array.isArray(body?.ids) || body.ids.length === 0) {
+    return { error: "Provide ids (a non-empty array) or all: true" };
+  }
+  const ids = body.ids.map((id: unknown) => Number(id));
+  if (ids.some((id: number) => !Number.isInteger(id) || id <= 0)) {
+    return { error: "ids must be positive integers" };
+  }
+  return { ids };
+}
+
+// Current user's notifications, newest first, with the unread count.
+// Query: limit (max 50), before (id cursor), unread=true
+app.get("/api/notifications", async (req, res) => {
+  try {
+    const { userId, error: authError } = await authenticateUser(req);
+    if (authError || !userId) {
+      return res.status(401).json({ error: authError || "Authentication required" });
+    }
+    return res.json(
+      await listNotifications(supabase, userId, {
+        limit: req.query.limit,
+        before: req.query.before,
+        unreadOnly: req.query.unread === "true",
+      })
+    );
+  } catch (error) {
+    console.error("Error in GET /api/notifications:", error);
+    return res.status(500).json({ error: "Server error" });
+  }
+});
+
+// Mark notifications read: { ids: [..] } or { all: true }
+app.patch("/api/notifications", async (req, res) => {
+  try {
+    const { userId, error: authError } = await authenticateUser(req);
+    if (authError || !userId) {
+      return res.status(401).json({ error: authError || "Authentication required" });
+    }
+
+    const { ids, error: bodyError } = parseMarkReadBody(req.body);
+    if (bodyError) return res.status(400).json({ error: bodyError });
+    return res.json({ unreadCount: await markNotificationsRead(supabase, userId, ids) });
+  } catch (error) {
+    console.error("Error in PATCH /api/notifications:", error);
+    return res.status(500).json({ error: "Server error" });
+  }
+});
+
+// ---- Bookmarks ----
+// Readers' read-later list, each bookmark with an optional private note kept
+// in the notes table. Canonical copy: server/bookmarks.ts — keep the two in sync.
+const BOOKMARK_NOTE_MAX = 2000;
+
+const BOOKMARK_SELECT = `article_id, created_at, note:note_id(id, content),
+  article:article_id(id, title, slug, status, published_at, created_at,
+    channel:channel_id(id, name, slug))`;
+
+function mapBookmarkRow(row: any) {
+  const article: any = row.article;
+  const note: any = row.note;
+  const channel: any = article?.channel;
+  return {
+    articleId: row.article_id,
+    savedAt: row.created_at,
+    note: note?.content ?? null,
+    article: article
+      ? {
+          id: article.id,
+          title: article.title,
+          slug: article.slug,
+          publishedAt: article.published_at ?? article.created_at,
+          channel: channel ? { id: channel.id, name: channel.name, slug: channel.slug } : null,
+        }
+      : null,
+  };
+}
+
+/**
+ * Validate a bookmark's note. undefined leaves an existing note alone, while
+ * null or a blank string clears it.
+ */
+function parseBookmarkNote(value: unknown): { note?: string | null; error?: string } {
+  if (value === undefined) return {};
+  if (value === null) return { note: null };
+  if (typeof value !== "string") return { error: "note must be a string" };
+  const note = value.trim();
+  if (note.length > BOOKMARK_NOTE_MAX) {
+    return { error: `note must be at most ${BOOKMARK_NOTE_MAX} characters` };
+  }
+  return { note: note || null };
+}
+
+/** The user's saved articles, most recently saved first */
+async function listBookmarks(sb, userId: number) {
+  const { data, error } = await sb
+    .from("bookmarks")
+    .select(BOOKMARK_SELECT)
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false });
+  if (error) throw error;
+  // Articles that were unpublished after being saved drop out of the list
+  return (data || [])
+    .filter((row: any) => row.article && row.article.status === "published")
+    .map(mapBookmarkRow);
+}
+
+/** Create, update or delete the private note behind a bookmark */
+async function setBookmarkNote(
+  sb,
+  userId: number,
+  articleId: number,
+  noteId: number | null,
+  note: string | null
+) {
+  if (note === null) {
+    if (!noteId) return;
+    const { error: unlinkError } = await sb
+      .from("bookmarks")
+      .update({ note_id: null })
+      .eq("user_id", userId)
+      .eq("article_id", articleId);
+    if (unlinkError) throw unlinkError;
+    const { error } = await sb.from("notes").delete().eq("id", noteId).eq("user_id", userId);
+    if (error) throw error;
+    return;
+  }
+
+  if (noteId) {
+    const { error } = await sb
+      .from("notes")
+      .update({ content: note })
+      .eq("id", noteId)
+      .eq("user_id", userId);
+    if (error) throw error;
+    return;
+  }
+
+  const { data: created, error } = await sb
+    .from("notes")
+    .insert({ content: note, user_id: userId, article_id: articleId })
+    .select("id")
+    .single();
+  if (error) throw error;
+  const { error: linkError } = await sb
+    .from("bookmarks")
+    .update({ note_id: created.id })
+    .eq("user_id", userId)
+    .eq("article_id", articleId);
+  if (linkError) throw linkError;
+}
+
+/**
+ * Save an article for the user, optionally setting its note (see
+ * parseBookmarkNote). Returns the bookmark, or null if the article doesn't
+ * exist or isn't published.
+ */
+async function saveBookmark(
+  sb,
+  userId: number,
+  articleId: number,
+  note?: string | null
+) {
+  const { data: article, error: articleError } = await sb
+    .from("articles")
+    .select("id, status")
+    .eq("id", articleId)
+    .maybeSingle();
+  if (articleError) throw articleError;
+  if (!article || article.status !== "published") return null;
+
+  const { error } = await sb
+    .from("bookmarks")
+    .upsert(
+      { user_id: userId, article_id: articleId },
+      { onConflict: "user_id,article_id", ignoreDuplicates: true }
+    );
+  if (error) throw error;
+
+  if (note !== undefined) {
+    const { data: existing, error: existingError } = await sb
+      .from("bookmarks")
+      .select("note_id")
+      .eq("user_id", userId)
+      .eq("article_id", articleId)
       .single();
-    if (!existing) {
-      fullSlug = candidateSlug;
-      slugOk = true;
-    } else {
-      slugAttempt++;
+    if (existingError) throw existingError;
+    await setBookmarkNote(sb, userId, articleId, existing.note_id, note);
+  }
+
+  const { data, error: readError } = await sb
+    .from("bookmarks")
+    .select(BOOKMARK_SELECT)
+    .eq("user_id", userId)
+    .eq("article_id", articleId)
+    .single();
+  if (readError) throw readError;
+  return mapBookmarkRow(data);
+}
+
+/** Remove a bookmark and its note. Returns false if it wasn't saved. */
+async function removeBookmark(
+  sb,
+  userId: number,
+  articleId: number
+): Promise<boolean> {
+  const { data: removed, error } = await sb
+    .from("bookmarks")
+    .delete()
+    .eq("user_id", userId)
+    .eq("article_id", articleId)
+    .select("note_id");
+  if (error) throw error;
+  if (!removed || removed.length === 0) return false;
+
+  const noteId = removed[0].note_id;
+  if (noteId) {
+    const { error: noteError } = await sb
+      .from("notes")
+      .delete()
+      .eq("id", noteId)
+      .eq("user_id", userId);
+    if (noteError) throw noteError;
+  }
+  return true;
+}
+
+// Current user's saved articles, most recently saved first
+app.get("/api/user/bookmarks", async (req, res) => {
+  try {
+    const { userId, error: authError } = await authenticateUser(req);
+    if (authError || !userId) {
+      return res.status(401).json({ error: authError || "Authentication required" });
+    }
+    return res.json(await listBookmarks(supabase, userId));
+  } catch (error) {
+    console.error("Error in GET /api/user/bookmarks:", error);
+    return res.status(500).json({ error: "Server error" });
+  }
+});
+
+// Save an article: { articleId, note? }. Saving again updates the note;
+// note: null or "" clears it.
+app.post("/api/user/bookmarks", async (req, res) => {
+  try {
+    const { userId, error: authError } = await authenticateUser(req);
+    if (authError || !userId) {
+      return res.status(401).json({ error: authError || "Authentication required" });
+    }
+
+    const articleId = Number(req.body?.articleId);
+    if (!Number.isInteger(articleId) || articleId <= 0) {
+      return res.status(400).json({ error: "articleId must be a positive integer" });
+    }
+    const { note, error: noteError } = parseBookmarkNote(req.body?.note);
+    if (noteError) return res.status(400).json({ error: noteError });
+
+    const bookmark = await saveBookmark(supabase, userId, articleId, note);
+    if (!bookmark) return res.status(404).json({ error: "Article not found" });
+    return res.json(bookmark);
+  } catch (error) {
+    console.error("Error in POST /api/user/bookmarks:", error);
+    return res.status(500).json({ error: "Server error" });
+  }
+});
+
+app.delete("/api/user/bookmarks/:articleId", async (req, res) => {
+  try {
+    const { userId, error: authError } = await authenticateUser(req);
+    if (authError || !userId) {
+      return res.status(401).json({ error: authError || "Authentication required" });
+    }
+
+    const articleId = Number(req.params.articleId);
+    if (!Number.isInteger(articleId) || articleId <= 0) {
+      return res.status(400).json({ error: "Invalid article ID" });
+    }
+    const removed = await removeBookmark(supabase, userId, articleId);
+    if (!removed) return res.status(404).json({ error: "Bookmark not found" });
+    return res.status(204).send();
+  } catch (error) {
+    console.error("Error in DELETE /api/user/bookmarks/:articleId:", error);
+    return res.status(500).json({ error: "Server error" });
+  }
+});
+
+// ---- For You feed ----
+// Per-reader ranking for the home page's For You tab: subscriptions, liked
+// categories and read channels, with freshness decay and per-channel
+// diversity rules. Canonical copy: server/feed.ts — keep the two in sync.
+const FOR_YOU_CANDIDATE_DAYS = 30;
+const FOR_YOU_MAX_CANDIDATES = 500;
+const FOR_YOU_SIGNAL_LIMIT = 200; // most recent likes / reads considered
+const FOR_YOU_PAGE_SIZE = 30;
+const FOR_YOU_MAX_PAGE_SIZE = 100;
+
+const FOR_YOU_WEIGHTS = {
+  base: 0.2, // every candidate, so cold-start readers get a fresh, popular feed
+  subscribed: 1.0,
+  likedCategory: 0.8, // scaled by how strongly the reader favours the category
+  readChannel: 0.5, // scaled by the channel's share of the reader's reads
+  popularity: 0.3, // scaled log of views against the most-viewed candidate
+};
+const FOR_YOU_HALF_LIFE_HOURS = 36;
+const FOR_YOU_ALREADY_READ_FACTOR = 0.15;
+const FOR_YOU_CHANNEL_REPEAT_FACTOR = 0.6;
+const FOR_YOU_MAX_CHANNEL_SHARE = 1 / 3;
+
+interface ForYouItem {
+  articleId: number;
+  score: number;
+}
+
+/** Parse the ?limit= query param */
+function parseForYouLimit(value: unknown): number {
+  return Math.min(
+    Math.max(parseInt(String(value ?? ""), 10) || FOR_YOU_PAGE_SIZE, 1),
+    FOR_YOU_MAX_PAGE_SIZE
+  );
+}
+
+/** Counts normalised so the strongest entry is 1 */
+function normaliseCounts(counts: Map<number, number>): Map<number, number> {
+  const max = Math.max(0, ...Array.from(counts.values()));
+  const normalised = new Map<number, number>();
+  if (max === 0) return normalised;
+  counts.forEach((count, key) => normalised.set(key, count / max));
+  return normalised;
+}
+
+function countBy(values: number[]): Map<number, number> {
+  const counts = new Map<number, number>();
+  for (const value of values) counts.set(value, (counts.get(value) || 0) + 1);
+  return counts;
+}
+
+/** Everything the ranking needs to know about the reader */
+async function loadReaderSignals(sb, userId: number) {
+  const [subscriptionsResult, likesResult, readsResult] = await Promise.all([
+    sb.from("subscriptions").select("channel_id").eq("user_id", userId),
+    sb
+      .from("reactions")
+      .select("article_id")
+      .eq("user_id", userId)
+      .eq("is_like", true)
+      .order("id", { ascending: false })
+      .limit(FOR_YOU_SIGNAL_LIMIT),
+    sb
+      .from("article_views")
+      .select("article_id")
+      .eq("user_id", userId)
+      .order("viewed_at", { ascending: false })
+      .limit(FOR_YOU_SIGNAL_LIMIT),
+  ]);
+  if (subscriptionsResult.error) throw subscriptionsResult.error;
+  if (likesResult.error) throw likesResult.error;
+  if (readsResult.error) throw readsResult.error;
+
+  const likedIds = (likesResult.data || []).map((r) => r.article_id);
+  const readIds = Array.from(new Set((readsResult.data || []).map((r) => r.article_id)));
+
+  let likedCategoryIds: number[] = [];
+  if (likedIds.length > 0) {
+    const { data, error } = await sb
+      .from("article_categories")
+      .select("category_id")
+      .in("article_id", likedIds);
+    if (error) throw error;
+    likedCategoryIds = (data || []).map((row) => row.category_id);
+  }
+
+  let readChannelIds: number[] = [];
+  if (readIds.length > 0) {
+    const { data, error } = await sb
+      .from("articles")
+      .select("channel_id")
+      .in("id", readIds);
+    if (error) throw error;
+    readChannelIds = (data || []).map((row) => row.channel_id).filter(Boolean);
+  }
+
+  return {
+    subscribedChannels: new Set((subscriptionsResult.data || []).map((s) => s.channel_id)),
+    categoryAffinity: normaliseCounts(countBy(likedCategoryIds)),
+    channelAffinity: normaliseCounts(countBy(readChannelIds)),
+    readArticles: new Set(readIds),
+  };
+}
+
+/**
+ * Greedy diversity re-rank. Repeatedly takes the best remaining article
+ * after discounting channels already picked, skipping a channel that was just
+ * shown or has reached its share of the feed while anything else remains.
+ */
+function diversify(
+  scored: { articleId: number; channelId: number | null; score: number }[],
+  limit: number
+): ForYouItem[] {
+  const remaining = scored.slice();
+  const picked: ForYouItem[] = [];
+  const perChannel = new Map<number, number>();
+  const maxPerChannel = Math.max(1, Math.floor(limit * FOR_YOU_MAX_CHANNEL_SHARE));
+  let lastChannel: number | null = null;
+
+  while (picked.length < limit && remaining.length > 0) {
+    let best = -1;
+    let bestScore = -Infinity;
+    let fallback = -1;
+    let fallbackScore = -Infinity;
+    remaining.forEach((item, index) => {
+      const seen = item.channelId != null ? perChannel.get(item.channelId) || 0 : 0;
+      const adjusted = item.score * Math.pow(FOR_YOU_CHANNEL_REPEAT_FACTOR, seen);
+      const blocked =
+        item.channelId != null &&
+        (item.channelId === lastChannel || seen >= maxPerChannel);
+      if (!blocked && adjusted > bestScore) {
+        best = index;
+        bestScore = adjusted;
+      }
+      if (adjusted > fallbackScore) {
+        fallback = index;
+        fallbackScore = adjusted;
+      }
+    });
+    const index = best >= 0 ? best : fallback;
+    const [item] = remaining.splice(index, 1);
+    picked.push({
+      articleId: item.articleId,
+      score: Number((best >= 0 ? bestScore : fallbackScore).toPrecision(4)),
+    });
+    if (item.channelId != null) {
+      perChannel.set(item.channelId, (perChannel.get(item.channelId) || 0) + 1);
+    }
+    lastChannel = item.channelId;
+  }
+  return picked;
+}
+
+/** The reader's ranked For You feed, best first */
+async function rankForYouFeed(
+  sb,
+  userId: number,
+  limit: number = FOR_YOU_PAGE_SIZE
+): Promise<ForYouItem[]> {
+  const since = new Date(Date.now() - FOR_YOU_CANDIDATE_DAYS * 24 * 60 * 60 * 1000);
+  const { data: candidates, error } = await sb
+    .from("articles")
+    .select("id, channel_id, user_id, view_count, created_at, published_at")
+    .eq("published", true)
+    .neq("user_id", userId)
+    .gte("created_at", since.toISOString())
+    .order("created_at", { ascending: false })
+    .limit(FOR_YOU_MAX_CANDIDATES);
+  if (error) throw error;
+  if (!candidates || candidates.length === 0) return [];
+
+  const signals = await loadReaderSignals(sb, userId);
+
+  const categoriesByArticle = new Map<number, number[]>();
+  if (signals.categoryAffinity.size > 0) {
+    const { data: rows, error: categoriesError } = await sb
+      .from("article_categories")
+      .select("article_id, category_id")
+      .in("article_id", candidates.map((a) => a.id));
+    if (categoriesError) throw categoriesError;
+    for (const row of rows || []) {
+      if (!categoriesByArticle.has(row.article_id)) categoriesByArticle.set(row.article_id, []);
+      categoriesByArticle.get(row.article_id)!.push(row.category_id);
+    }
+  }
+
+  const maxViews = Math.max(1, ...candidates.map((a) => a.view_count || 0));
+  const now = Date.now();
+  const scored = candidates.map((article) => {
+    const categoryAffinity = Math.max(
+      0,
+      ...(categoriesByArticle.get(article.id) || []).map(
+        (id) => signals.categoryAffinity.get(id) || 0
+      )
+    );
+    const relevance =
+      FOR_YOU_WEIGHTS.base +
+      (signals.subscribedChannels.has(article.channel_id) ? FOR_YOU_WEIGHTS.subscribed : 0) +
+      FOR_YOU_WEIGHTS.likedCategory * categoryAffinity +
+      FOR_YOU_WEIGHTS.readChannel * (signals.channelAffinity.get(article.channel_id) || 0) +
+      FOR_YOU_WEIGHTS.popularity * (Math.log1p(article.view_count || 0) / Math.log1p(maxViews));
+
+    const publishedAt = new Date(article.published_at || article.created_at).getTime();
+    const ageHours = Math.max(0, (now - publishedAt) / (60 * 60 * 1000));
+    const freshness = Math.pow(0.5, ageHours / FOR_YOU_HALF_LIFE_HOURS);
+    const seen = signals.readArticles.has(article.id) ? FOR_YOU_ALREADY_READ_FACTOR : 1;
+
+    return {
+      articleId: article.id,
+      channelId: article.channel_id ?? null,
+      score: relevance * freshness * seen,
+    };
+  });
+
+  scored.sort((a, b) => b.score - a.score);
+  return diversify(scored, limit);
+}
+
+// Current user's ranked For You feed: { items: [{ articleId, score }] }.
+// Query: limit (default 30, max 100)
+app.get("/api/feed/for-you", async (req, res) => {
+  try {
+    const { userId, error: authError } = await authenticateUser(req);
+    if (authError || !userId) {
+      return res.status(401).json({ error: authError || "Authentication required" });
+    }
+    return res.json({
+      items: await rankForYouFeed(supabase, userId, parseForYouLimit(req.query.limit)),
+    });
+  } catch (error) {
+    console.error("Error in GET /api/feed/for-you:", error);
+    return res.status(500).json({ error: "Server error" });
+  }
+});
+
+// ---- Channel analytics ----
+// Owner-only dashboard data: daily views, unique readers, comments and
+// subscriber growth plus per-article stats, aggregated by the
+// channel_daily_stats / channel_article_stats SQL functions.
+// Canonical copy: server/channel-analytics.ts — keep the two in sync.
+const ANALYTICS_DEFAULT_DAYS = 30;
+const ANALYTICS_MAX_DAYS = 366;
+const ANALYTICS_TOP_ARTICLES = 10;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const isoDay = (date: Date) => date.toISOString().slice(0, 10);
+
+/**
+ * Validate ?from=YYYY-MM-DD&to=YYYY-MM-DD. Defaults to the last 30 days
+ * ending today; ranges are capped at a year.
+ */
+function parseAnalyticsRange(query: any): { from?: string; to?: string; error?: string } {
+  const parseDay = (value: unknown): Date | null | undefined => {
+    if (value === undefined || value === "") return undefined;
+    if (typeof value !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+    const date = new Date(`${value}T00:00:00Z`);
+    return isNaN(date.getTime()) ? null : date;
+  };
+
+  const to = parseDay(query?.to);
+  const from = parseDay(query?.from);
+  if (to === null || from === null) return { error: "from and to must be dates (YYYY-MM-DD)" };
+
+  const toDate = to ?? new Date(`${isoDay(new Date())}T00:00:00Z`);
+  const fromDate = from ?? new Date(toDate.getTime() - (ANALYTICS_DEFAULT_DAYS - 1) * DAY_MS);
+  if (fromDate > toDate) return { error: "from must be on or before to" };
+  if ((toDate.getTime() - fromDate.getTime()) / DAY_MS + 1 > ANALYTICS_MAX_DAYS) {
+    return { error: `The range can cover at most ${ANALYTICS_MAX_DAYS} days` };
+  }
+  return { from: isoDay(fromDate), to: isoDay(toDate) };
+}
+
+/** The channel's analytics for an inclusive range of UTC days */
+async function getChannelAnalytics(
+  sb,
+  channelId: number,
+  range: { from: string; to: string }
+) {
+  const params = { channel_id_param: channelId, from_day: range.from, to_day: range.to };
+  const [dailyResult, articlesResult] = await Promise.all([
+    sb.rpc("channel_daily_stats", params),
+    sb.rpc("channel_article_stats", params),
+  ]);
+  if (dailyResult.error) throw dailyResult.error;
+  if (articlesResult.error) throw articlesResult.error;
+
+  const days: any[] = dailyResult.data || [];
+  const articles: any[] = articlesResult.data || [];
+  const sum = (rows: any[], key: string) => rows.reduce((n, row) => n + Number(row[key] || 0), 0);
+
+  const likes = sum(articles, "likes");
+  const dislikes = sum(articles, "dislikes");
+  const lastDay = days[days.length - 1];
+
+  return {
+    range,
+    totals: {
+      views: sum(days, "views"),
+      uniqueReaders: days.length ? Number(days[0].total_unique_readers) : 0,
+      comments: sum(days, "comments"),
+      newSubscribers: sum(days, "new_subscribers"),
+      subscribers: lastDay ? Number(lastDay.subscribers) : 0,
+      likes,
+      dislikes,
+      // Share of reactions that are likes; null before anyone has reacted
+      likeRatio: likes + dislikes > 0 ? likes / (likes + dislikes) : null,
+      articles: articles.length,
+    },
+    daily: days.map((row) => ({
+      date: row.day,
+      views: Number(row.views),
+      uniqueReaders: Number(row.unique_readers),
+      comments: Number(row.comments),
+      newSubscribers: Number(row.new_subscribers),
+      subscribers: Number(row.subscribers),
+    })),
+    topArticles: articles.slice(0, ANALYTICS_TOP_ARTICLES).map((row) => ({
+      id: row.article_id,
+      title: row.title,
+      slug: row.slug,
+      publishedAt: row.published_at,
+      views: Number(row.views),
+      uniqueReaders: Number(row.unique_readers),
+      likes: Number(row.likes),
+      dislikes: Number(row.dislikes),
+      comments: Number(row.comments),
+    })),
+  };
+}
+
+// Channel analytics for the owner. Query: from, to (YYYY-MM-DD, UTC days;
+// default the last 30 days)
+app.get("/api/channels/:id/analytics", async (req, res) => {
+  try {
+    const { userId, error: authError } = await authenticateUser(req);
+    if (authError || !userId) {
+      return res.status(401).json({ error: authError || "Authentication required" });
+    }
+
+    const channelId = Number(req.params.id);
+    if (!Number.isInteger(channelId) || channelId <= 0) {
+      return res.status(400).json({ error: "Invalid channel ID" });
     }
-  }
+    const { from, to, error: rangeError } = parseAnalyticsRange(req.query);
+    if (rangeError) return res.status(400).json({ error: rangeError });
 
-  // Build article record
-  const articleRecord: any = {
-    title: title.trim(),
-    content: htmlContent,
-    channel_id: channelId,
-    user_id: userId,
-    category: "",
-    slug: fullSlug,
-    published,
-    status: published ? "published" : "draft",
-    view_count: 0,
-    location: location || null,
-    location_name: location || null,
-    location_lat: locationLat || null,
-    location_lng: locationLng || null,
-  };
+    const { data: channel } = await supabase
+      .from("channels")
+      .select("id, user_id")
+      .eq("id", channelId)
+      .maybeSingle();
+    if (!channel) return res.status(404).json({ error: "Channel not found" });
+    if (channel.user_id !== userId) {
+      return res.status(403).json({ error: "Only the channel owner can view analytics" });
+    }
 
-  if (locationLat && locationLng) {
-    articleRecord.geom = `SRID=4326;POINT(${locationLng} ${locationLat})`;
+    return res.json(await getChannelAnalytics(supabase, channelId, { from, to }));
+  } catch (error) {
+    console.error("Error in GET /api/channels/:id/analytics:", error);
+    return res.status(500).json({ error: "Server error" });
   }
+});
 
-  // Insert article
-  const { data: article, error: createError } = await supabase
-    .from("articles")
-    .insert([articleRecord])
-    .select()
-    .single();
-
-  if (createError || !article) {
-    throw new Error(`Failed to create article: ${createError?.message || "Unknown error"}`);
+// ---- Article analytics ----
+// Referrer, UTM and device class from the view beacon, read depth from the
+// engagement beacon, aggregated per article by the article_traffic_stats SQL
+// function for the author's stats drawer. Engagement is only accepted from
+// the IP (keyed hash) or signed-in reader the view was recorded for.
+// Canonical copy: server/article-analytics.ts — keep the two in sync.
+const VIEW_FIELD_MAX_LENGTH = 100;
+const MAX_TIME_ON_PAGE_SECONDS = 4 * 60 * 60;
+const COMPLETED_SCROLL_DEPTH = 90; // a view that reached 90% counts as a full read
+
+type DeviceClass = "mobile" | "tablet" | "desktop" | "bot";
+
+/** Classify a User-Agent. Requests without one are scripts, not readers. */
+function deviceClassFromUserAgent(userAgent: unknown): DeviceClass {
+  const ua = typeof userAgent === "string" ? userAgent : "";
+  if (!ua || /bot|crawler|spider|slurp|headless|preview/i.test(ua)) return "bot";
+  if (/ipad|tablet|kindle|silk|playbook/i.test(ua) || (/android/i.test(ua) && !/mobile/i.test(ua))) {
+    return "tablet";
   }
+  if (/mobi|iphone|ipod|android|blackberry|opera mini|iemobile/i.test(ua)) return "mobile";
+  return "desktop";
+}
 
-  // Handle categories
-  const categoryResults = [];
-  for (let i = 0; i < categoryIds.length; i++) {
-    const { error: catError } = await supabase
-      .from("article_categories")
-      .insert([{
-        article_id: article.id,
-        category_id: categoryIds[i],
-        is_primary: i === 0,
-      }]);
-    if (!catError) {
-      categoryResults.push(categoryIds[i]);
-    }
+function cleanViewField(value: unknown, lowercase = false): string | null {
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim().slice(0, VIEW_FIELD_MAX_LENGTH);
+  if (!trimmed) return null;
+  return lowercase ? trimmed.toLowerCase() : trimmed;
+}
+
+/** Host of the referring page without "www.", or null for direct visits */
+function referrerHost(referrer: unknown): string | null {
+  if (typeof referrer !== "string" || !referrer) return null;
+  try {
+    const url = new URL(referrer);
+    if (url.protocol !== "http:" && url.protocol !== "https:") return null;
+    return url.hostname.toLowerCase().replace(/^www\./, "") || null;
+  } catch {
+    return null;
   }
+}
 
-  // Update the category text field with the primary category name
-  if (categoryIds.length > 0) {
-    const { data: catData } = await supabase
-      .from("categories")
-      .select("name")
-      .eq("id", categoryIds[0])
-      .single();
-    if (catData) {
-      await supabase
-        .from("articles")
-        .update({ category: catData.name })
-        .eq("id", article.id);
-    }
+/**
+ * Keyed hash of the reader's IP (req.ip), stored with their view to tie
+ * engagement beacons to it. Keyed with VIEW_IP_HASH_SECRET so the stored
+ * value can't be reversed by hashing every IPv4 address; without the secret
+ * no hash is stored and only signed-in readers' engagement is recorded.
+ */
+function viewerIpHash(ip: unknown): string | null {
+  const secret = process.env.VIEW_IP_HASH_SECRET;
+  if (typeof ip !== "string" || !ip.trim() || !secret) return null;
+  return createHmac("sha256", secret).update(ip.trim()).digest("hex");
+}
+
+/**
+ * The article_views columns describing where a view came from. The body is
+ * { referrer?, utm?: { source?, medium?, campaign? } } as sent by the client.
+ */
+function parseViewContext(body: any, userAgent: unknown, ip: unknown) {
+  const utm = body?.utm && typeof body.utm === "object" ? body.utm : {};
+  return {
+    referrer_host: referrerHost(body?.referrer),
+    utm_source: cleanViewField(utm.source, true),
+    utm_medium: cleanViewField(utm.medium, true),
+    utm_campaign: cleanViewField(utm.campaign),
+    device_class: deviceClassFromUserAgent(userAgent),
+    ip_hash: viewerIpHash(ip),
+  };
+}
+
+/**
+ * Validate an engagement beacon: { viewId, scrollDepth (0-100),
+ * timeOnPage (seconds) }. Out-of-range numbers are clamped.
+ */
+function parseEngagement(body: any): {
+  viewId?: number;
+  scrollDepth?: number;
+  timeOnPage?: number;
+  error?: string;
+} {
+  const viewId = Number(body?.viewId);
+  if (!Number.isInteger(viewId) || viewId <= 0) return { error: "viewId is required" };
+  const scrollDepth = Number(body?.scrollDepth);
+  const timeOnPage = Number(body?.timeOnPage);
+  if (!Number.isFinite(scrollDepth) || !Number.isFinite(timeOnPage)) {
+    return { error: "scrollDepth and timeOnPage must be numbers" };
   }
+  return {
+    viewId,
+    scrollDepth: Math.round(Math.min(Math.max(scrollDepth, 0), 100)),
+    timeOnPage: Math.round(Math.min(Math.max(timeOnPage, 0), MAX_TIME_ON_PAGE_SECONDS)),
+  };
+}
 
-  // Handle images (download from URLs, upload to storage)
-  const processedImages = [];
-  for (let i = 0; i < images.length; i++) {
-    const result = await downloadAndUploadImage(images[i], article.id, i, supabase);
-    if (result) {
-      const { data: imgRecord } = await supabase
-        .from("article_images")
-        .insert([{
-          article_id: article.id,
-          image_url: result.imageUrl,
-          caption: result.caption,
-          order: result.order,
-        }])
-        .select()
-        .single();
-      if (imgRecord) processedImages.push(imgRecord);
-    }
+/**
+ * Store a view's read depth, keeping the deepest scroll and longest visible
+ * time seen so far; a beacon that improves on neither changes nothing.
+ * Returns false when the view doesn't belong to the article or the viewer —
+ * the signed-in reader it was recorded for, or the IP it was recorded from.
+ */
+async function recordViewEngagement(
+  sb,
+  articleId: number,
+  viewId: number,
+  viewer: { userId: number | null; ipHash: string | null },
+  engagement: { scrollDepth: number; timeOnPage: number }
+): Promise<boolean> {
+  const { data: view, error } = await sb
+    .from("article_views")
+    .select("id, user_id, ip_hash, max_scroll_depth, time_on_page_seconds")
+    .eq("id", viewId)
+    .eq("article_id", articleId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!view) return false;
+  const ownView =
+    (viewer.userId !== null && view.user_id === viewer.userId) ||
+    (viewer.ipHash !== null && view.ip_hash === viewer.ipHash);
+  if (!ownView) return false;
+
+  const scrollDepth = view.max_scroll_depth ?? 0;
+  const timeOnPage = view.time_on_page_seconds ?? 0;
+  if (engagement.scrollDepth <= scrollDepth && engagement.timeOnPage <= timeOnPage) {
+    return true;
   }
 
+  const { error: updateError } = await sb
+    .from("article_views")
+    .update({
+      max_scroll_depth: Math.max(scrollDepth, engagement.scrollDepth),
+      time_on_page_seconds: Math.max(timeOnPage, engagement.timeOnPage),
+      engaged_at: new Date().toISOString(),
+    })
+    .eq("id", viewId);
+  if (updateError) throw updateError;
+  return true;
+}
+
+/** One article's traffic and engagement for an inclusive range of UTC days */
+async function getArticleStats(
+  sb,
+  articleId: number,
+  range: { from: string; to: string }
+) {
+  const { data, error } = await sb.rpc("article_traffic_stats", {
+    article_id_param: articleId,
+    from_day: range.from,
+    to_day: range.to,
+    completed_depth: COMPLETED_SCROLL_DEPTH,
+  });
+  if (error) throw error;
+
+  const stats: any = data || {};
+  const engagedViews = Number(stats.engaged_views || 0);
+  const round1 = (value: unknown) => (value == null ? null : Math.round(Number(value) * 10) / 10);
+
   return {
-    id: article.id,
-    title: article.title,
-    slug: article.slug,
-    channelId: article.channel_id,
-    status: article.status,
-    published: article.published,
-    createdAt: article.created_at,
-    url: `/articles/${article.id}/${article.slug}`,
-    images: processedImages,
-    categories: categoryResults,
+    range,
+    totals: {
+      views: Number(stats.views || 0),
+      trackedViews: Number(stats.tracked_views || 0),
+      engagedViews,
+      // Average of each reader's deepest scroll, 0-100; null until measured
+      avgReadCompletion: round1(stats.avg_scroll_depth),
+      // Share of engaged views that reached the end of the article
+      completionRate: engagedViews > 0 ? Number(stats.completed_views || 0) / engagedViews : null,
+      avgTimeOnPage: round1(stats.avg_time_on_page),
+    },
+    daily: (stats.daily || []).map((row: any) => ({ date: row.day, views: Number(row.views) })),
+    sources: (stats.sources || []).map((row: any) => ({
+      source: row.source,
+      views: Number(row.views),
+    })),
+    campaigns: (stats.campaigns || []).map((row: any) => ({
+      campaign: row.campaign,
+      views: Number(row.views),
+    })),
+    devices: (stats.devices || []).map((row: any) => ({
+      device: row.device,
+      views: Number(row.views),
+    })),
   };
 }
 
-// Admin: set engagement counters on an article. view_count is the article's
-// absolute view total; admin_like_count / admin_dislike_count are added on
-// top of real user reactions everywhere totals are computed.
-app.post("/api/v1/admin/articles/:id/engagement", async (req, res) => {
+app.post("/api/articles/:slug/engagement", async (req, res) => {
   try {
-    const uid = await getSupabaseUid(req);
-    if (!uid || !(await isAdminUser(uid))) {
-      return res.status(403).json({ error: "Admin access required" });
+    const { viewId, scrollDepth, timeOnPage, error: engagementError } = parseEngagement(req.body);
+    if (engagementError) return res.status(400).json({ error: engagementError });
+
+    const { data: article } = await supabase
+      .from("articles")
+      .select("id")
+      .eq("slug", req.params.slug)
+      .maybeSingle();
+    if (!article) return res.status(404).json({ error: "Article not found" });
+
+    // sendBeacon can't carry a token, so most beacons are matched by IP
+    let viewerUserId = null;
+    if (req.headers.authorization) {
+      const { userId } = await authenticateUser(req);
+      viewerUserId = userId || null;
     }
+    const viewer = {
+      userId: viewerUserId,
+      ipHash: viewerIpHash(req.ip),
+    };
+    const recorded = await recordViewEngagement(supabase, article.id, viewId, viewer, {
+      scrollDepth,
+      timeOnPage,
+    });
+    if (!recorded) return res.status(404).json({ error: "View not found" });
+    return res.status(204).end();
+  } catch (error) {
+    console.error("Error in POST /api/articles/:slug/engagement:", error);
+    return res.status(500).json({ error: "Server error" });
+  }
+});
 
-    const articleId = parseInt(req.params.id);
-    if (!articleId) {
-      return res.status(400).json({ error: "Invalid article id" });
+app.get("/api/articles/:id/stats", async (req, res) => {
+  try {
+    const { userId, error: authError } = await authenticateUser(req);
+    if (authError || !userId) {
+      return res.status(401).json({ error: authError || "Authentication required" });
     }
 
-    const { viewCount, adminLikeCount, adminDislikeCount } = req.body || {};
-    const updates: any = {};
-    if (viewCount !== undefined)
-      updates.view_count = Math.max(0, parseInt(viewCount) || 0);
-    if (adminLikeCount !== undefined)
-      updates.admin_like_count = Math.max(0, parseInt(adminLikeCount) || 0);
-    if (adminDislikeCount !== undefined)
-      updates.admin_dislike_count = Math.max(0, parseInt(adminDislikeCount) || 0);
-    if (Object.keys(updates).length === 0) {
-      return res.status(400).json({ error: "No engagement fields provided" });
+    const articleId = Number(req.params.id);
+    if (!Number.isInteger(articleId) || articleId <= 0) {
+      return res.status(400).json({ error: "Invalid article ID" });
     }
+    const { from, to, error: rangeError } = parseAnalyticsRange(req.query);
+    if (rangeError) return res.status(400).json({ error: rangeError });
 
-    const { data: article, error } = await supabase
+    const { data: article } = await supabase
       .from("articles")
-      .update(updates)
+      .select("id, user_id")
       .eq("id", articleId)
-      .select("id, title, view_count, admin_like_count, admin_dislike_count")
-      .single();
-
-    if (error || !article) {
-      return res.status(404).json({ error: "Article not found or update failed" });
+      .maybeSingle();
+    if (!article) return res.status(404).json({ error: "Article not found" });
+    if (article.user_id !== userId) {
+      return res.status(403).json({ error: "Only the author can view article stats" });
     }
 
-    return res.json(article);
+    return res.json(await getArticleStats(supabase, articleId, { from, to }));
   } catch (error) {
-    console.error("Error in POST /api/v1/admin/articles/:id/engagement:", error);
+    console.error("Error in GET /api/articles/:id/stats:", error);
     return res.status(500).json({ error: "Server error" });
   }
 });
 
-// --- Content API Endpoints ---
+// ---- Channel members ----
+// Owners, editors and contributors of shared channels: role checks for the
+// article write paths, invitations by username and article bylines.
+// Canonical copy: server/channel-members.ts — keep the two in sync.
+const CHANNEL_ROLES = ["owner", "editor", "contributor"] as const;
+type ChannelRole = (typeof CHANNEL_ROLES)[number];
 
-// Create a single article
-app.post("/api/v1/content/articles", async (req, res) => {
+// Roles the owner can hand out; ownership itself follows channels.user_id
+const INVITABLE_ROLES: ChannelRole[] = ["editor", "contributor"];
+
+const MEMBER_SELECT =
+  "user_id, role, invited_by, created_at, accepted_at, user:user_id(id, username)";
+
+function mapMemberRow(row: any) {
+  return {
+    userId: row.user_id,
+    username: row.user?.username ?? null,
+    role: row.role as ChannelRole,
+    invitedBy: row.invited_by,
+    invitedAt: row.created_at,
+    acceptedAt: row.accepted_at,
+    pending: !row.accepted_at,
+  };
+}
+
+/** Validate a role the owner may assign: editor or contributor */
+function parseMemberRole(value: unknown): ChannelRole | null {
+  return INVITABLE_ROLES.includes(value as ChannelRole) ? (value as ChannelRole) : null;
+}
+
+/** The user's role in the channel, or null if they aren't an accepted member */
+async function getChannelRole(
+  sb,
+  channelId: number,
+  userId: number
+): Promise<ChannelRole | null> {
+  const { data, error } = await sb
+    .from("channel_members")
+    .select("role")
+    .eq("channel_id", channelId)
+    .eq("user_id", userId)
+    .not("accepted_at", "is", null)
+    .maybeSingle();
+  if (error) throw error;
+  return (data?.role as ChannelRole) ?? null;
+}
+
+/** Editors and the owner publish; contributors only write drafts */
+function canPublishInChannel(role: ChannelRole | null): boolean {
+  return role === "owner" || role === "editor";
+}
+
+/**
+ * What the user may do with an article, from their role in its channel.
+ * canEdit covers drafts; changes to a published article go through
+ * canEditArticle.
+ */
+async function getArticleAccess(
+  sb,
+  article: { user_id: number; channel_id?: number | null },
+  userId: number
+) {
+  const role = article.channel_id
+    ? await getChannelRole(sb, article.channel_id, userId)
+    : null;
+  const isAuthor = article.user_id === userId;
+  // Articles outside any channel stay with their author
+  const canPublish = canPublishInChannel(role) || (isAuthor && !article.channel_id);
+  return {
+    role,
+    canPublish,
+    canEdit: canPublish || (isAuthor && role === "contributor"),
+  };
+}
+
+/**
+ * Whether the user may change the article: edit it, delete it, restore a
+ * revision or take it offline. Once it is published that needs publish
+ * rights, so a contributor's changes never go live without review.
+ */
+function canEditArticle(
+  article: { published?: boolean | null },
+  access: { canEdit: boolean; canPublish: boolean }
+): boolean {
+  return article.published ? access.canPublish : access.canEdit;
+}
+
+/** Whether the user owns at least one channel (and so can invite people) */
+async function ownsAnyChannel(sb, userId: number): Promise<boolean> {
+  const { count, error } = await sb
+    .from("channel_members")
+    .select("channel_id", { count: "exact", head: true })
+    .eq("user_id", userId)
+    .eq("role", "owner");
+  if (error) throw error;
+  return (count || 0) > 0;
+}
+
+/** Members and pending invitations: owner first, then editors, contributors */
+async function listChannelMembers(sb, channelId: number) {
+  const { data, error } = await sb
+    .from("channel_members")
+    .select(MEMBER_SELECT)
+    .eq("channel_id", channelId)
+    .order("created_at", { ascending: true });
+  if (error) throw error;
+  return (data || [])
+    .map(mapMemberRow)
+    .sort((a, b) => CHANNEL_ROLES.indexOf(a.role) - CHANNEL_ROLES.indexOf(b.role));
+}
+
+/**
+ * Invite a user by username. Fails with 404 for an unknown username and 409
+ * when they are already a member or already invited.
+ */
+async function inviteChannelMember(
+  sb,
+  channelId: number,
+  invitedBy: number,
+  username: string,
+  role: ChannelRole
+): Promise<{ member?: ReturnType<typeof mapMemberRow>; error?: string; status?: number }> {
+  const { data: invitee, error: userError } = await sb
+    .from("users")
+    .select("id, username")
+    .eq("username", username.trim())
+    .maybeSingle();
+  if (userError) throw userError;
+  if (!invitee) return { error: "User not found", status: 404 };
+
+  const { data: existing, error: existingError } = await sb
+    .from("channel_members")
+    .select("accepted_at")
+    .eq("channel_id", channelId)
+    .eq("user_id", invitee.id)
+    .maybeSingle();
+  if (existingError) throw existingError;
+  if (existing) {
+    return {
+      error: existing.accepted_at
+        ? `${invitee.username} is already a member of this channel`
+        : `${invitee.username} has already been invited`,
+      status: 409,
+    };
+  }
+
+  const { data, error } = await sb
+    .from("channel_members")
+    .insert({ channel_id: channelId, user_id: invitee.id, role, invited_by: invitedBy })
+    .select(MEMBER_SELECT)
+    .single();
+  if (error) throw error;
+
+  await notifyChannelInvite(sb, { channelId, userId: invitee.id, invitedBy, role });
+  return { member: mapMemberRow(data) };
+}
+
+/** Change a member's role. Returns null when there is no such non-owner member. */
+async function updateChannelMemberRole(
+  sb,
+  channelId: number,
+  userId: number,
+  role: ChannelRole
+) {
+  const { data, error } = await sb
+    .from("channel_members")
+    .update({ role })
+    .eq("channel_id", channelId)
+    .eq("user_id", userId)
+    .neq("role", "owner")
+    .select(MEMBER_SELECT)
+    .maybeSingle();
+  if (error) throw error;
+  return data ? mapMemberRow(data) : null;
+}
+
+/**
+ * Remove a member or withdraw / decline an invitation. The owner can't be
+ * removed. Returns false when there was nothing to remove.
+ */
+async function removeChannelMember(
+  sb,
+  channelId: number,
+  userId: number
+): Promise<boolean> {
+  const { data, error } = await sb
+    .from("channel_members")
+    .delete()
+    .eq("channel_id", channelId)
+    .eq("user_id", userId)
+    .neq("role", "owner")
+    .select("user_id");
+  if (error) throw error;
+  return (data || []).length > 0;
+}
+
+/** Accept a pending invitation. Returns null when there is none. */
+async function acceptChannelInvitation(
+  sb,
+  channelId: number,
+  userId: number
+) {
+  const { data, error } = await sb
+    .from("channel_members")
+    .update({ accepted_at: new Date().toISOString() })
+    .eq("channel_id", channelId)
+    .eq("user_id", userId)
+    .is("accepted_at", null)
+    .select(MEMBER_SELECT)
+    .maybeSingle();
+  if (error) throw error;
+  return data ? mapMemberRow(data) : null;
+}
+
+/** The user's channels with their role, including pending invitations */
+async function listUserChannelMemberships(sb, userId: number) {
+  const { data, error } = await sb
+    .from("channel_members")
+    .select("channel_id, role, created_at, accepted_at, channel:channel_id(id, name, slug)")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: true });
+  if (error) throw error;
+  return (data || []).map((row: any) => ({
+    channelId: row.channel_id,
+    role: row.role as ChannelRole,
+    pending: !row.accepted_at,
+    invitedAt: row.created_at,
+    channel: row.channel ?? null,
+  }));
+}
+
+/**
+ * An article's bylines: the author, then other current members of its
+ * channel in the order they first edited it.
+ */
+async function listArticleBylines(
+  sb,
+  article: { id: number; user_id: number; channel_id?: number | null }
+): Promise<{ id: number; username: string }[]> {
+  const { data: revisions, error } = await sb
+    .from("article_revisions")
+    .select("edited_by")
+    .eq("article_id", article.id)
+    .in("source", ["edit", "restore"])
+    .order("revision_number", { ascending: true });
+  if (error) throw error;
+
+  let editorIds = Array.from(
+    new Set((revisions || []).map((r: any) => r.edited_by as number))
+  ).filter((id) => id && id !== article.user_id);
+
+  if (editorIds.length > 0) {
+    let memberIds = new Set<number>();
+    if (article.channel_id) {
+      const { data: members, error: membersError } = await sb
+        .from("channel_members")
+        .select("user_id")
+        .eq("channel_id", article.channel_id)
+        .in("user_id", editorIds)
+        .not("accepted_at", "is", null);
+      if (membersError) throw membersError;
+      memberIds = new Set((members || []).map((m: any) => m.user_id));
+    }
+    editorIds = editorIds.filter((id) => memberIds.has(id));
+  }
+
+  const ids = [article.user_id, ...editorIds];
+  const { data: users, error: usersError } = await sb
+    .from("users")
+    .select("id, username")
+    .in("id", ids);
+  if (usersError) throw usersError;
+  const usersById = new Map((users || []).map((u: any) => [u.id, u]));
+  return ids
+    .filter((id) => usersById.has(id))
+    .map((id) => ({ id, username: usersById.get(id).username }));
+}
+
+// Numeric :id (channel) and :userId params of the member routes
+function parseMemberRouteIds(req) {
+  const channelId = Number(req.params.id);
+  const memberId = req.params.userId === undefined ? undefined : Number(req.params.userId);
+  const valid =
+    Number.isInteger(channelId) &&
+    channelId > 0 &&
+    (memberId === undefined || (Number.isInteger(memberId) && memberId > 0));
+  return { channelId, memberId, valid };
+}
+
+app.get("/api/channels/:id/members", async (req, res) => {
   try {
-    const { userId, error: authError } = await authenticateRequest(req);
+    const { userId, error: authError } = await authenticateUser(req);
     if (authError || !userId) {
       return res.status(401).json({ error: authError || "Authentication required" });
     }
+    const { channelId, valid } = parseMemberRouteIds(req);
+    if (!valid) return res.status(400).json({ error: "Invalid channel ID" });
 
-    const result = await createSingleArticle(req.body, userId);
-    return res.status(201).json(result);
-  } catch (error: any) {
-    console.error("Error in POST /api/v1/content/articles:", error);
-    if (error.status === 409) {
-      return res.status(409).json({
-        error: "Duplicate article detected",
-        message: error.message,
-        existingArticleId: error.existingArticleId,
-      });
+    if (!(await getChannelRole(supabase, channelId, userId))) {
+      return res.status(403).json({ error: "Only channel members can see the member list" });
     }
-    const status = error.message?.includes("Not authorized") ? 403
-      : error.message?.includes("not found") ? 404
-      : 400;
-    return res.status(status).json({ error: error.message });
+    return res.json(await listChannelMembers(supabase, channelId));
+  } catch (error) {
+    console.error("Error in GET /api/channels/:id/members:", error);
+    return res.status(500).json({ error: "Server error" });
   }
 });
 
-// Batch create articles
-app.post("/api/v1/content/articles/batch", async (req, res) => {
+app.post("/api/channels/:id/members", async (req, res) => {
   try {
-    const { userId, error: authError } = await authenticateRequest(req);
+    const { userId, error: authError } = await authenticateUser(req);
     if (authError || !userId) {
       return res.status(401).json({ error: authError || "Authentication required" });
     }
+    const { channelId, valid } = parseMemberRouteIds(req);
+    if (!valid) return res.status(400).json({ error: "Invalid channel ID" });
 
-    const { articles } = req.body;
-    if (!Array.isArray(articles) || articles.length === 0) {
-      return res.status(400).json({ error: "articles array is required" });
-    }
-    if (articles.length > 10) {
-      return res.status(400).json({ error: "Maximum 10 articles per batch request" });
-    }
+    const username = typeof req.body?.username === "string" ? req.body.username.trim() : "";
+    const role = parseMemberRole(req.body?.role);
+    if (!username) return res.status(400).json({ error: "username is required" });
+    if (!role) return res.status(400).json({ error: "role must be editor or contributor" });
 
-    const created: any[] = [];
-    const failed: any[] = [];
+    if ((await getChannelRole(supabase, channelId, userId)) !== "owner") {
+      return res.status(403).json({ error: "Only the channel owner can invite members" });
+    }
+    const result = await inviteChannelMember(supabase, channelId, userId, username, role);
+    if (result.error) return res.status(result.status || 400).json({ error: result.error });
+    return res.status(201).json(result.member);
+  } catch (error) {
+    console.error("Error in POST /api/channels/:id/members:", error);
+    return res.status(500).json({ error: "Server error" });
+  }
+});
 
-    for (let i = 0; i < articles.length; i++) {
-      try {
-        const result = await createSingleArticle(articles[i], userId);
-        created.push({ index: i, ...result });
-      } catch (err: any) {
-        failed.push({ index: i, title: articles[i]?.title || "Unknown", error: err.message });
-      }
+app.post("/api/channels/:id/members/accept", async (req, res) => {
+  try {
+    const { userId, error: authError } = await authenticateUser(req);
+    if (authError || !userId) {
+      return res.status(401).json({ error: authError || "Authentication required" });
     }
+    const { channelId, valid } = parseMemberRouteIds(req);
+    if (!valid) return res.status(400).json({ error: "Invalid channel ID" });
 
-    return res.status(201).json({
-      created,
-      failed,
-      summary: {
-        total: articles.length,
-        succeeded: created.length,
-        failed: failed.length,
-      },
-    });
+    const member = await acceptChannelInvitation(supabase, channelId, userId);
+    if (!member) return res.status(404).json({ error: "No pending invitation" });
+    return res.json(member);
   } catch (error) {
-    console.error("Error in POST /api/v1/content/articles/batch:", error);
+    console.error("Error in POST /api/channels/:id/members/accept:", error);
     return res.status(500).json({ error: "Server error" });
   }
 });
-
-// Get article details
-app.get("/api/v1/content/articles/:id", async (req, res) => {
+
+app.patch("/api/channels/:id/members/:userId", async (req, res) => {
   try {
-    const { userId, error: authError } = await authenticateRequest(req);
+    const { userId, error: authError } = await authenticateUser(req);
     if (authError || !userId) {
       return res.status(401).json({ error: authError || "Authentication required" });
     }
+    const { channelId, memberId, valid } = parseMemberRouteIds(req);
+    if (!valid) return res.status(400).json({ error: "Invalid channel or user ID" });
 
-    const articleId = req.params.id;
-    const isNumeric = /^\d+$/.test(articleId);
+    const role = parseMemberRole(req.body?.role);
+    if (!role) return res.status(400).json({ error: "role must be editor or contributor" });
 
-    let query = supabase.from("articles").select("*");
-    if (isNumeric) {
-      query = query.eq("id", parseInt(articleId));
-    } else {
-      query = query.eq("slug", articleId);
+    if ((await getChannelRole(supabase, channelId, userId)) !== "owner") {
+      return res.status(403).json({ error: "Only the channel owner can change roles" });
     }
+    const member = await updateChannelMemberRole(supabase, channelId, memberId, role);
+    if (!member) return res.status(404).json({ error: "Member not found" });
+    return res.json(member);
+  } catch (error) {
+    console.error("Error in PATCH /api/channels/:id/members/:userId:", error);
+    return res.status(500).json({ error: "Server error" });
+  }
+});
 
-    const { data: article, error } = await query.single();
-    if (error || !article) {
-      return res.status(404).json({ error: "Article not found" });
+// The owner removes a member or withdraws an invitation; members leave and
+// invitees decline by removing themselves
+app.delete("/api/channels/:id/members/:userId", async (req, res) => {
+  try {
+    const { userId, error: authError } = await authenticateUser(req);
+    if (authError || !userId) {
+      return res.status(401).json({ error: authError || "Authentication required" });
     }
+    const { channelId, memberId, valid } = parseMemberRouteIds(req);
+    if (!valid) return res.status(400).json({ error: "Invalid channel or user ID" });
 
-    // Verify ownership
-    if (article.user_id !== userId) {
-      return res.status(403).json({ error: "Not authorized to view this article details" });
+    if (
+      memberId !== userId &&
+      (await getChannelRole(supabase, channelId, userId)) !== "owner"
+    ) {
+      return res.status(403).json({ error: "Only the channel owner can remove members" });
     }
-
-    // Get channel info
-    const { data: channel } = await supabase
-      .from("channels")
-      .select("id, name, slug")
-      .eq("id", article.channel_id)
-      .single();
-
-    // Get images
-    const { data: images } = await supabase
-      .from("article_images")
-      .select("*")
-      .eq("article_id", article.id)
-      .order("order");
-
-    // Get categories
-    const { data: categories } = await supabase
-      .from("article_categories")
-      .select("category_id, is_primary, categories(id, name)")
-      .eq("article_id", article.id);
-
-    return res.json({
-      id: article.id,
-      title: article.title,
-      slug: article.slug,
-      channelId: article.channel_id,
-      channelName: channel?.name || null,
-      status: article.status,
-      published: article.published,
-      createdAt: article.created_at,
-      viewCount: article.view_count,
-      url: `/articles/${article.id}/${article.slug}`,
-      images: images || [],
-      categories: categories || [],
-    });
+    const removed = await removeChannelMember(supabase, channelId, memberId);
+    if (!removed) return res.status(404).json({ error: "Member not found" });
+    return res.status(204).end();
   } catch (error) {
-    console.error("Error in GET /api/v1/content/articles/:id:", error);
+    console.error("Error in DELETE /api/channels/:id/members/:userId:", error);
     return res.status(500).json({ error: "Server error" });
   }
 });
 
-// List user's channels
-app.get("/api/v1/content/channels", async (req, res) => {
+app.get("/api/user/channel-memberships", async (req, res) => {
   try {
-    const { userId, error: authError } = await authenticateRequest(req);
+    const { userId, error: authError } = await authenticateUser(req);
     if (authError || !userId) {
       return res.status(401).json({ error: authError || "Authentication required" });
     }
+    return res.json(await listUserChannelMemberships(supabase, userId));
+  } catch (error) {
+    console.error("Error in GET /api/user/channel-memberships:", error);
+    return res.status(500).json({ error: "Server error" });
+  }
+});
 
-    const { data: channels, error } = await supabase
-      .from("channels")
-      .select("*")
-      .eq("user_id", userId)
-      .order("created_at", { ascending: false });
+// ---- Live blogs ----
+// Articles with live_status set carry a stream of timestamped updates, each
+// with its own author and an optional pin. Posting follows the article's
+// rules: drafts take entries from anyone who can edit them, published live
+// blogs only from editors and the owner.
+// Canonical copy: server/live-blog.ts — keep the two in sync.
+const LIVE_STATUSES = ["live", "ended"] as const;
+type LiveStatus = (typeof LIVE_STATUSES)[number];
+
+const UPDATE_SELECT =
+  "id, article_id, title, content, pinned, created_at, updated_at, author:author_id(id, username)";
+const UPDATE_TITLE_MAX = 200;
+const DEFAULT_UPDATE_LIMIT = 100;
+const MAX_UPDATE_LIMIT = 500;
+
+function mapUpdateRow(row: any) {
+  return {
+    id: row.id,
+    articleId: row.article_id,
+    title: row.title ?? null,
+    content: row.content,
+    pinned: !!row.pinned,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at ?? null,
+    author: row.author ? { id: row.author.id, username: row.author.username } : null,
+  };
+}
 
-    if (error) {
-      return res.status(500).json({ error: "Failed to fetch channels" });
-    }
+type LiveUpdate = ReturnType<typeof mapUpdateRow>;
 
-    // Enrich with article counts and subscriber counts
-    const enriched = await Promise.all(
-      (channels || []).map(async (ch: any) => {
-        const { count: articleCount } = await supabase
-          .from("articles")
-          .select("*", { count: "exact", head: true })
-          .eq("channel_id", ch.id)
-          .eq("published", true);
+/** A valid articles.live_status: 'live', 'ended' or null for a regular article */
+function isLiveStatus(value: unknown): value is LiveStatus | null {
+  return value === null || LIVE_STATUSES.includes(value as LiveStatus);
+}
 
-        const { count: subscriberCount } = await supabase
-          .from("subscriptions")
-          .select("*", { count: "exact", head: true })
-          .eq("channel_id", ch.id);
+/** Whether the user may post, edit and delete entries of this live blog */
+function canPostLiveUpdates(
+  article: { published?: boolean | null },
+  access: { canEdit: boolean; canPublish: boolean }
+): boolean {
+  return canEditArticle(article, access);
+}
 
-        return {
-          id: ch.id,
-          name: ch.name,
-          slug: ch.slug,
-          description: ch.description,
-          category: ch.category,
-          articleCount: articleCount || 0,
-          subscriberCount: (subscriberCount || 0) + (ch.admin_subscriber_count || 0),
-        };
-      })
-    );
+/** ?limit= for the stream: default 100, at most 500 */
+function parseLiveUpdateLimit(value: unknown): number {
+  const limit = parseInt(String(value ?? ""), 10);
+  if (!Number.isFinite(limit) || limit < 1) return DEFAULT_UPDATE_LIMIT;
+  return Math.min(limit, MAX_UPDATE_LIMIT);
+}
 
-    return res.json(enriched);
+/**
+ * Validate an entry from a request body. Content is markdown or HTML like
+ * article content and is converted and sanitized here; `sanitized` lists
+ * what the sanitizer removed. With `partial`, every field is optional.
+ */
+function parseLiveUpdateInput(
+  body: any,
+  partial = false
+): {
+  fields?: { title?: string | null; content?: string; pinned?: boolean };
+  sanitized?: SanitizeRemoval[];
+  error?: string;
+} {
+  const fields: { title?: string | null; content?: string; pinned?: boolean } = {};
+  const { title, content, contentFormat, pinned } = body || {};
+
+  if (contentFormat !== undefined && contentFormat !== "markdown" && contentFormat !== "html") {
+    return { error: "contentFormat must be markdown or html" };
+  }
+  if (title !== undefined && title !== null && typeof title !== "string") {
+    return { error: "title must be a string" };
+  }
+  if (typeof title === "string" && title.trim().length > UPDATE_TITLE_MAX) {
+    return { error: `title must be at most ${UPDATE_TITLE_MAX} characters` };
+  }
+  if (pinned !== undefined && typeof pinned !== "boolean") {
+    return { error: "pinned must be a boolean" };
+  }
+  if (content !== undefined && typeof content !== "string") {
+    return { error: "content must be a string" };
+  }
+  if (!partial && !content?.trim()) {
+    return { error: "content is required" };
+  }
+
+  if (title !== undefined) fields.title = title?.trim() || null;
+  if (pinned !== undefined) fields.pinned = pinned;
+  let sanitized: SanitizeRemoval[] | undefined;
+  if (content !== undefined) {
+    if (!content.trim()) return { error: "content must not be empty" };
+    const result = sanitizeArticleHtml(normalizeContent(content, contentFormat));
+    fields.content = result.html;
+    if (result.removed.length > 0) sanitized = result.removed;
+  }
+  return { fields, sanitized };
+}
+
+/** The stream of one live blog: pinned entries first, then newest first */
+async function listLiveUpdates(
+  sb,
+  articleId: number,
+  limit = DEFAULT_UPDATE_LIMIT
+): Promise<LiveUpdate[]> {
+  const { data, error } = await sb
+    .from("article_updates")
+    .select(UPDATE_SELECT)
+    .eq("article_id", articleId)
+    .order("pinned", { ascending: false })
+    .order("created_at", { ascending: false })
+    .limit(limit);
+  if (error) throw error;
+  return (data || []).map(mapUpdateRow);
+}
+
+/** Append an entry. The article's last_edited moves with it. */
+async function createLiveUpdate(
+  sb,
+  articleId: number,
+  authorId: number,
+  fields: { title?: string | null; content?: string; pinned?: boolean }
+): Promise<LiveUpdate> {
+  const { data, error } = await sb
+    .from("article_updates")
+    .insert({
+      article_id: articleId,
+      author_id: authorId,
+      title: fields.title ?? null,
+      content: fields.content,
+      pinned: fields.pinned ?? false,
+    })
+    .select(UPDATE_SELECT)
+    .single();
+  if (error) throw error;
+
+  const { error: touchError } = await sb
+    .from("articles")
+    .update({ last_edited: data.created_at })
+    .eq("id", articleId);
+  if (touchError) console.error(`Error touching live blog ${articleId}:`, touchError);
+
+  return mapUpdateRow(data);
+}
+
+/**
+ * Edit an entry or change its pin. Pinning alone doesn't count as an edit.
+ * Returns null when the article has no such entry.
+ */
+async function updateLiveUpdate(
+  sb,
+  articleId: number,
+  updateId: number,
+  fields: { title?: string | null; content?: string; pinned?: boolean }
+): Promise<LiveUpdate | null> {
+  const changes: Record<string, unknown> = { ...fields };
+  if (fields.title !== undefined || fields.content !== undefined) {
+    changes.updated_at = new Date().toISOString();
+  }
+  const { data, error } = await sb
+    .from("article_updates")
+    .update(changes)
+    .eq("article_id", articleId)
+    .eq("id", updateId)
+    .select(UPDATE_SELECT)
+    .maybeSingle();
+  if (error) throw error;
+  return data ? mapUpdateRow(data) : null;
+}
+
+/** Remove an entry. Returns false when the article has no such entry. */
+async function deleteLiveUpdate(
+  sb,
+  articleId: number,
+  updateId: number
+): Promise<boolean> {
+  const { data, error } = await sb
+    .from("article_updates")
+    .delete()
+    .eq("article_id", articleId)
+    .eq("id", updateId)
+    .select("id");
+  if (error) throw error;
+  return (data || []).length > 0;
+}
+
+/**
+ * The latest entries of several live blogs, for feeds: at most `perArticle`
+ * each, newest first, grouped by article id.
+ */
+async function listLatestLiveUpdates(
+  sb,
+  articleIds: number[],
+  perArticle = 5
+): Promise<Map<number, LiveUpdate[]>> {
+  const byArticle = new Map<number, LiveUpdate[]>();
+  if (articleIds.length === 0) return byArticle;
+
+  const { data, error } = await sb
+    .from("article_updates")
+    .select(UPDATE_SELECT)
+    .in("article_id", articleIds)
+    .order("created_at", { ascending: false })
+    .limit(articleIds.length * perArticle * 4);
+  if (error) throw error;
+
+  for (const update of (data || []).map(mapUpdateRow)) {
+    const list = byArticle.get(update.articleId) || [];
+    if (list.length < perArticle) list.push(update);
+    byArticle.set(update.articleId, list);
+  }
+  return byArticle;
+}
+
+// Resolve the article behind :id (id or slug) for the live blog routes
+async function findLiveBlogArticle(idOrSlug: string) {
+  const isNumericId = /^\d+$/.test(idOrSlug);
+  const { data: article } = await supabase
+    .from("articles")
+    .select("id, user_id, channel_id, published, live_status")
+    .eq(isNumericId ? "id" : "slug", isNumericId ? parseInt(idOrSlug) : idOrSlug)
+    .maybeSingle();
+  return article;
+}
+
+// Authenticate and check the caller may post to the live blog. Responds and
+// returns null when they can't.
+async function loadLiveBlogForWriting(req, res) {
+  const { userId, error: authError } = await authenticateUser(req);
+  if (authError || !userId) {
+    res.status(401).json({ error: authError || "Authentication required" });
+    return null;
+  }
+  const article = await findLiveBlogArticle(req.params.id);
+  if (!article) {
+    res.status(404).json({ error: "Article not found" });
+    return null;
+  }
+  const access = await getArticleAccess(supabase, article, userId);
+  if (!canPostLiveUpdates(article, access)) {
+    res.status(403).json({ error: "Not authorized to post updates to this article" });
+    return null;
+  }
+  return { article, userId };
+}
+
+// The stream, pinned entries first. Public once the article is published;
+// liveStatus tells pollers when coverage has ended.
+app.get("/api/articles/:id/updates", async (req, res) => {
+  try {
+    const article = await findLiveBlogArticle(req.params.id);
+    if (!article) return res.status(404).json({ error: "Article not found" });
+    if (!article.published) {
+      const { userId } = await authenticateUser(req);
+      if (!userId || !(await getArticleAccess(supabase, article, userId)).canEdit) {
+        return res.status(404).json({ error: "Article not found" });
+      }
+    }
+    const updates = article.live_status
+      ? await listLiveUpdates(supabase, article.id, parseLiveUpdateLimit(req.query.limit))
+      : [];
+    return res.json({ liveStatus: article.live_status ?? null, updates });
   } catch (error) {
-    console.error("Error in GET /api/v1/content/channels:", error);
+    console.error("Error in GET /api/articles/:id/updates:", error);
     return res.status(500).json({ error: "Server error" });
   }
 });
 
-// List available categories (hierarchical)
-app.get("/api/v1/content/categories", async (req, res) => {
+app.post("/api/articles/:id/updates", async (req, res) => {
   try {
-    // Categories are public, but still require auth for API consistency
-    const { userId, error: authError } = await authenticateRequest(req);
-    if (authError || !userId) {
-      return res.status(401).json({ error: authError || "Authentication required" });
+    const writable = await loadLiveBlogForWriting(req, res);
+    if (!writable) return;
+    const { article, userId } = writable;
+
+    if (article.live_status !== "live") {
+      return res.status(400).json({
+        error:
+          article.live_status === "ended"
+            ? "Live coverage of this article has ended"
+            : "This article is not a live blog",
+      });
     }
+    const { fields, sanitized, error: inputError } = parseLiveUpdateInput(req.body);
+    if (inputError) return res.status(400).json({ error: inputError });
 
-    const { data: categories, error } = await supabase
-      .from("categories")
-      .select("*")
-      .order("name");
+    const update = await createLiveUpdate(supabase, article.id, userId, fields);
+    return res.status(201).json(sanitized ? { ...update, sanitized } : update);
+  } catch (error) {
+    console.error("Error in POST /api/articles/:id/updates:", error);
+    return res.status(500).json({ error: "Server error" });
+  }
+});
 
-    if (error) {
-      return res.status(500).json({ error: "Failed to fetch categories" });
-    }
+// Edit an entry or pin / unpin it; also allowed after coverage has ended
+app.patch("/api/articles/:id/updates/:updateId", async (req, res) => {
+  try {
+    const writable = await loadLiveBlogForWriting(req, res);
+    if (!writable) return;
 
-    // Build hierarchical tree
-    const categoryMap = new Map<number, any>();
-    const roots: any[] = [];
+    const { fields, sanitized, error: inputError } = parseLiveUpdateInput(req.body, true);
+    if (inputError) return res.status(400).json({ error: inputError });
 
-    for (const cat of categories || []) {
-      categoryMap.set(cat.id, { ...cat, children: [] });
-    }
+    const update = await updateLiveUpdate(
+      supabase,
+      writable.article.id,
+      parseInt(req.params.updateId),
+      fields
+    );
+    if (!update) return res.status(404).json({ error: "Update not found" });
+    return res.json(sanitized ? { ...update, sanitized } : update);
+  } catch (error) {
+    console.error("Error in PATCH /api/articles/:id/updates/:updateId:", error);
+    return res.status(500).json({ error: "Server error" });
+  }
+});
 
-    for (const cat of categories || []) {
-      const node = categoryMap.get(cat.id);
-      if (cat.parent_id && categoryMap.has(cat.parent_id)) {
-        categoryMap.get(cat.parent_id).children.push(node);
-      } else {
-        roots.push(node);
-      }
-    }
+app.delete("/api/articles/:id/updates/:updateId", async (req, res) => {
+  try {
+    const writable = await loadLiveBlogForWriting(req, res);
+    if (!writable) return;
 
-    return res.json(roots);
+    const removed = await deleteLiveUpdate(
+      supabase,
+      writable.article.id,
+      parseInt(req.params.updateId)
+    );
+    if (!removed) return res.status(404).json({ error: "Update not found" });
+    return res.status(204).end();
   } catch (error) {
-    console.error("Error in GET /api/v1/content/categories:", error);
+    console.error("Error in DELETE /api/articles/:id/updates/:updateId:", error);
     return res.status(500).json({ error: "Server error" });
   }
 });
@@ -6309,8 +12406,9 @@ function validateHomepageSettingsBody(body: any): string | null {
     "most_read_all_time",
     "manual",
     "manual_sponsored",
+    "trending",
   ];
-  const MOST_READ_WINDOWS = ["24h", "7d", "30d", "all"];
+  const MOST_READ_WINDOWS = ["24h", "7d", "30d", "all", "trending"];
   if (body.heroMode !== undefined && !HERO_MODES.includes(body.heroMode))
     return "Invalid heroMode";
   if (
@@ -6417,6 +12515,232 @@ app.put("/api/homepage/settings", async (req, res) => {
   }
 });
 
+// ---- Site search ----
+// Articles are ranked by the search_articles() Postgres function (weighted
+// tsvector over title, [!SUMMARY] callout and body text, with <mark>
+// snippets); channels and categories match with ilike. Canonical copy:
+// server/search.ts — keep the two in sync.
+
+const SEARCH_TYPES = ["all", "articles", "channels", "categories"];
+const MAX_SEARCH_LIMIT = 50;
+
+interface SearchParams {
+  q: string;
+  type: string;
+  categoryId: number | null;
+  categoryName: string | null;
+  location: string | null;
+  from: string | null;
+  to: string | null;
+  limit: number;
+  offset: number;
+}
+
+/**
+ * Validate search query-string params. Returns an error message for bad
+ * input, else the normalised params.
+ */
+function parseSearchParams(query: Record<string, any>): {
+  params?: SearchParams;
+  error?: string;
+} {
+  const q = String(query.q || "").trim();
+  if (q.length < 2) return { error: "Search query must be at least 2 characters" };
+  if (q.length > 200) return { error: "Search query is too long" };
+
+  const type = String(query.type || "all");
+  if (!SEARCH_TYPES.includes(type)) return { error: "Invalid type" };
+
+  const category = query.category ? String(query.category).trim() : "";
+  const isCategoryId = /^\d+$/.test(category);
+
+  const dates: Record<"from" | "to", string | null> = { from: null, to: null };
+  for (const key of ["from", "to"] as const) {
+    if (!query[key]) continue;
+    const d = new Date(String(query[key]));
+    if (isNaN(d.getTime())) return { error: `Invalid ${key} date` };
+    // A bare YYYY-MM-DD "to" date should include that whole day
+    if (key === "to" && /^\d{4}-\d{2}-\d{2}$/.test(String(query.to))) {
+      d.setUTCHours(23, 59, 59, 999);
+    }
+    dates[key] = d.toISOString();
+  }
+
+  const limit = Math.min(
+    Math.max(parseInt(String(query.limit || "20"), 10) || 20, 1),
+    MAX_SEARCH_LIMIT
+  );
+  const offset = Math.max(parseInt(String(query.offset || "0"), 10) || 0, 0);
+
+  return {
+    params: {
+      q,
+      type,
+      categoryId: category && isCategoryId ? parseInt(category, 10) : null,
+      categoryName: category && !isCategoryId ? category : null,
+      location: query.location ? String(query.location).trim() : null,
+      from: dates.from,
+      to: dates.to,
+      limit,
+      offset,
+    },
+  };
+}
+
+// Characters that are wildcards in LIKE or separators in PostgREST or() filters
+function toIlikeTerm(q: string): string {
+  return q.replace(/[%_,()*\\]/g, " ").trim();
+}
+
+/**
+ * Ranked article search. Pass ownerId to search that user's own articles
+ * (drafts and scheduled included) instead of the public published set, and
+ * channelFilter to only search those channels.
+ */
+async function searchArticles(
+  sb,
+  params: SearchParams,
+  ownerId: number | null = null,
+  channelFilter: number[] | null = null
+): Promise<{ results: any[]; total: number }> {
+  const { data, error } = await sb.rpc("search_articles", {
+    search_query: params.q,
+    category_id_filter: params.categoryId,
+    category_name_filter: params.categoryName,
+    location_filter: params.location,
+    from_date: params.from,
+    to_date: params.to,
+    owner_filter: ownerId,
+    channel_filter: channelFilter,
+    result_limit: params.limit,
+    result_offset: params.offset,
+  });
+
+  if (error) {
+    console.error("Error in search_articles:", error);
+    throw new Error("Search failed");
+  }
+
+  const rows = data || [];
+  const channelIds = Array.from(new Set(rows.map((r: any) => r.channel_id)));
+  const { data: channels } = channelIds.length
+    ? await sb
+        .from("channels")
+        .select("id, name, slug")
+        .in("id", channelIds)
+    : { data: [] as any[] };
+  const channelMap = new Map((channels || []).map((c: any) => [c.id, c]));
+
+  return {
+    total: rows.length ? Number(rows[0].total_count) : 0,
+    results: rows.map((r: any) => ({
+      id: r.id,
+      title: r.title,
+      slug: r.slug,
+      titleHighlight: r.title_highlight,
+      snippet: r.snippet,
+      category: r.category,
+      locationName: r.location_name,
+      status: r.status,
+      publishedAt: r.published_at,
+      createdAt: r.created_at,
+      rank: r.rank,
+      channel: channelMap.get(r.channel_id) || null,
+      url: `/articles/${r.id}${r.slug ? `/${r.slug}` : ""}`,
+    })),
+  };
+}
+
+/** Channels whose name or description contains the query. */
+async function searchChannels(
+  sb,
+  q: string,
+  limit: number,
+  ownerId: number | null = null
+): Promise<any[]> {
+  const term = toIlikeTerm(q);
+  if (!term) return [];
+  let query = sb
+    .from("channels")
+    .select("id, name, slug, description, category, profile_image")
+    .or(`name.ilike.%${term}%,description.ilike.%${term}%`)
+    .order("name")
+    .limit(limit);
+  if (ownerId !== null) query = query.eq("user_id", ownerId);
+
+  const { data, error } = await query;
+  if (error) {
+    console.error("Error searching channels:", error);
+    throw new Error("Search failed");
+  }
+  return (data || []).map((c: any) => ({
+    id: c.id,
+    name: c.name,
+    slug: c.slug,
+    description: c.description,
+    category: c.category,
+    profileImage: c.profile_image,
+  }));
+}
+
+/** Categories whose name contains the query. */
+async function searchCategories(
+  sb,
+  q: string,
+  limit: number
+): Promise<any[]> {
+  const term = toIlikeTerm(q);
+  if (!term) return [];
+  const { data, error } = await sb
+    .from("categories")
+    .select("id, name, parent_id")
+    .ilike("name", `%${term}%`)
+    .order("name")
+    .limit(limit);
+  if (error) {
+    console.error("Error searching categories:", error);
+    throw new Error("Search failed");
+  }
+  return (data || []).map((c: any) => ({
+    id: c.id,
+    name: c.name,
+    parentId: c.parent_id,
+  }));
+}
+
+// Public site search: GET /api/search?q=&type=&category=&location=&from=&to=
+app.get("/api/search", async (req, res) => {
+  try {
+    const { params, error: paramsError } = parseSearchParams(req.query);
+    if (paramsError) {
+      return res.status(400).json({ error: paramsError });
+    }
+
+    const wants = (type: string) => params.type === "all" || params.type === type;
+    // The "all" view is a preview; channels and categories get a short list
+    const sideLimit = params.type === "all" ? 5 : params.limit;
+
+    const [articles, channels, categories] = await Promise.all([
+      wants("articles")
+        ? searchArticles(supabase, params)
+        : Promise.resolve({ results: [], total: 0 }),
+      wants("channels") ? searchChannels(supabase, params.q, sideLimit) : Promise.resolve([]),
+      wants("categories") ? searchCategories(supabase, params.q, sideLimit) : Promise.resolve([]),
+    ]);
+
+    return res.json({
+      query: params.q,
+      articles: articles.results,
+      totalArticles: articles.total,
+      channels,
+      categories,
+    });
+  } catch (error) {
+    console.error("Error in GET /api/search:", error);
+    return res.status(500).json({ error: "Search failed" });
+  }
+});
+
 // ---- SEO: sitemap + RSS feeds ----
 // Served via vercel.json rewrites (/sitemap.xml, /rss.xml, /channels/:id/rss.xml).
 const SITE_BASE = "https://www.newsplatform.org"; // canonical host (apex 308s here)
@@ -6430,19 +12754,75 @@ function xmlEscape(s: any): string {
     .replace(/'/g, "&apos;");
 }
 
-function rssItemXml(a: any): string {
-  const link = `${SITE_BASE}/articles/${a.id}${a.slug ? `/${a.slug}` : ""}`;
-  const desc = String(a.content || "")
+const RSS_ARTICLE_SELECT =
+  "id, slug, title, content, category, created_at, published_at, live_status";
+const RSS_MAX_ITEMS = 50;
+// Entries per live blog that go out as their own items
+const RSS_LIVE_UPDATES = 5;
+
+function rssText(html: any, length: number): string {
+  return String(html || "")
     .replace(/<[^>]+>/g, " ")
     .replace(/\s+/g, " ")
     .trim()
-    .slice(0, 300);
+    .slice(0, length);
+}
+
+function rssItemXml(a: any): string {
+  const link = `${SITE_BASE}/articles/${a.id}${a.slug ? `/${a.slug}` : ""}`;
+  const desc = rssText(a.content, 300);
   const pub = a.published_at || a.created_at;
   return `<item><title>${xmlEscape(a.title)}</title><link>${xmlEscape(link)}</link><guid isPermaLink="true">${xmlEscape(link)}</guid>${
     pub ? `<pubDate>${new Date(pub).toUTCString()}</pubDate>` : ""
   }${a.category ? `<category>${xmlEscape(a.category)}</category>` : ""}<description>${xmlEscape(desc)}</description></item>`;
 }
 
+// A live blog entry links to its anchor on the article page
+function rssLiveUpdateItemXml(a: any, u: any): string {
+  const link = `${SITE_BASE}/articles/${a.id}${a.slug ? `/${a.slug}` : ""}#update-${u.id}`;
+  const desc = rssText(u.content, 300);
+  const title = `${a.title}: ${u.title || rssText(u.content, 80) || "Update"}`;
+  return `<item><title>${xmlEscape(title)}</title><link>${xmlEscape(link)}</link><guid isPermaLink="true">${xmlEscape(link)}</guid><pubDate>${new Date(
+    u.createdAt
+  ).toUTCString()}</pubDate>${a.category ? `<category>${xmlEscape(a.category)}</category>` : ""}<description>${xmlEscape(desc)}</description></item>`;
+}
+
+// Items for the feed's articles plus the latest entries of its running live
+// blogs, newest first. Live blogs published a while ago still get their new
+// entries in, even once the article itself has dropped out of the list.
+async function rssItemsXml(articles: any[], channelId?: number): Promise<string> {
+  let liveQuery = supabase
+    .from("articles")
+    .select(RSS_ARTICLE_SELECT)
+    .eq("published", true)
+    .eq("live_status", "live")
+    .limit(10);
+  if (channelId) liveQuery = liveQuery.eq("channel_id", channelId);
+  const { data: running } = await liveQuery;
+
+  const liveBlogs = new Map<number, any>();
+  for (const a of [...articles, ...(running || [])]) {
+    if (a.live_status) liveBlogs.set(a.id, a);
+  }
+  const updates = await listLatestLiveUpdates(
+    supabase,
+    Array.from(liveBlogs.keys()),
+    RSS_LIVE_UPDATES
+  );
+
+  const items = articles.map((a) => ({ date: a.published_at || a.created_at, xml: rssItemXml(a) }));
+  for (const [articleId, entries] of updates) {
+    for (const u of entries) {
+      items.push({ date: u.createdAt, xml: rssLiveUpdateItemXml(liveBlogs.get(articleId), u) });
+    }
+  }
+  return items
+    .sort((x, y) => new Date(y.date || 0).getTime() - new Date(x.date || 0).getTime())
+    .slice(0, RSS_MAX_ITEMS)
+    .map((item) => item.xml)
+    .join("");
+}
+
 function rssFeedXml(title: string, link: string, description: string, items: string): string {
   return `<?xml version="1.0" encoding="UTF-8"?>
 <rss version="2.0"><channel><title>${xmlEscape(title)}</title><link>${xmlEscape(link)}</link><description>${xmlEscape(description)}</description><language>en</language>${items}</channel></rss>`;
@@ -6450,6 +12830,7 @@ function rssFeedXml(title: string, link: string, description: string, items: str
 
 app.get("/sitemap.xml", async (req, res) => {
   try {
+    await promoteDueScheduledArticlesThrottled(supabase);
     const { data: articles } = await supabase
       .from("articles")
       .select("id, slug, created_at, last_edited")
@@ -6489,13 +12870,16 @@ app.get("/sitemap.xml", async (req, res) => {
 
 app.get("/rss.xml", async (req, res) => {
   try {
+    await promoteDueScheduledArticlesThrottled(supabase);
+    // Ordered by publish time so scheduled stories land at the top when
+    // they go live, not where their draft was created
     const { data: articles } = await supabase
       .from("articles")
-      .select("id, slug, title, content, category, created_at, published_at")
+      .select(RSS_ARTICLE_SELECT)
       .eq("published", true)
-      .order("created_at", { ascending: false })
-      .limit(50);
-    const items = (articles || []).map(rssItemXml).join("");
+      .order("published_at", { ascending: false, nullsFirst: false })
+      .limit(RSS_MAX_ITEMS);
+    const items = await rssItemsXml(articles || []);
     const xml = rssFeedXml(
       "NewsPlatform",
       SITE_BASE,
@@ -6524,15 +12908,16 @@ app.get("/channels/:id/rss.xml", async (req, res) => {
       .maybeSingle();
     if (!channel) return res.status(404).end();
 
+    await promoteDueScheduledArticlesThrottled(supabase);
     const { data: articles } = await supabase
       .from("articles")
-      .select("id, slug, title, content, category, created_at, published_at")
+      .select(RSS_ARTICLE_SELECT)
       .eq("channel_id", channelId)
       .eq("published", true)
-      .order("created_at", { ascending: false })
-      .limit(50);
+      .order("published_at", { ascending: false, nullsFirst: false })
+      .limit(RSS_MAX_ITEMS);
 
-    const items = (articles || []).map(rssItemXml).join("");
+    const items = await rssItemsXml(articles || [], channelId);
     const xml = rssFeedXml(
       `${channel.name} — NewsPlatform`,
       `${SITE_BASE}/channels/${channel.id}`,
@@ -12,6 +12,7 @@ const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
 const supabaseKey =
   process.env.SUPABASE_SERVICE_KEY || process.env.VITE_SUPABASE_ANON_KEY;
 const supabase = createClient(supabaseUrl, supabaseKey);
+const mapboxToken = process.env.MAPBOX_TOKEN || process.env.VITE_MAPBOX_TOKEN;
 
 function isCrawlerUA(userAgent) {
   if (!userAgent) return false;
@@ -39,7 +40,9 @@ function extractArticleRef(path) {
 
 function createDescription(content, maxLength = 160) {
   if (!content) return '';
-  const text = content.replace(/<[^>]*>/g, ' ');
+  const text = content
+    .replace(/<sup class="footnote-ref">[\s\S]*?<\/sup>/g, '')
+    .replace(/<[^>]*>/g, ' ');
   const cleanText = text.replace(/\s+/g, ' ').trim();
   if (cleanText.length <= maxLength) return cleanText;
   const truncated = cleanText.substring(0, maxLength);
@@ -49,6 +52,160 @@ function createDescription(content, maxLength = 160) {
   return truncated.substring(0, lastSpace) + '...';
 }
 
+const decodeEntities = (text) =>
+  text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&quot;/g, '"')
+    .replace(/&#0?39;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+
+/**
+ * Citations for the JSON-LD: the article's footnotes and [!SOURCES] list
+ * (see docs/article-format.md), each as a CreativeWork named by its text and
+ * pointing at its first http(s) link.
+ */
+function extractCitations(content) {
+  if (!content) return [];
+  const blocks = [
+    ...content.matchAll(/<section[^>]*data-footnotes[^>]*>([\s\S]*?)<\/section>/g),
+    ...content.matchAll(/<aside[^>]*data-callout="sources"[^>]*>([\s\S]*?)<\/aside>/g),
+  ].map((m) => m[1].replace(/<div class="callout-title">[\s\S]*?<\/div>/, ''));
+  const citations = [];
+  const seen = new Set();
+  for (const block of blocks) {
+    const items = [...block.matchAll(/<li[^>]*>([\s\S]*?)<\/li>/g)];
+    const entries = items.length ? items : [...block.matchAll(/<p[^>]*>([\s\S]*?)<\/p>/g)];
+    for (const [, item] of entries) {
+      const html = item.replace(/<a[^>]*footnote-backref[^>]*>[\s\S]*?<\/a>/g, '');
+      const url = html.match(/<a[^>]*href="(https?:\/\/[^"]+)"/)?.[1];
+      const name = decodeEntities(html.replace(/<[^>]*>/g, ' '))
+        .replace(/\s+/g, ' ')
+        .replace(/ ([,.;:])/g, '$1')
+        .trim();
+      const key = url || name;
+      if (!name || seen.has(key)) continue;
+      seen.add(key);
+      citations.push({
+        '@type': 'CreativeWork',
+        name,
+        ...(url ? { url: decodeEntities(url) } : {}),
+      });
+    }
+  }
+  return citations;
+}
+
+// ---- Static maps ----
+// Crawlers don't run the reader's map hydration, so ```map blocks and the
+// article's location become Mapbox Static Images. staticMapUrl mirrors the
+// one in client/src/components/article-map.tsx — keep the two in sync.
+
+const MAP_STYLE = 'mapbox/streets-v12';
+const MAP_COLOR = 'e4572e';
+const MAP_AREA_STYLE = {
+  stroke: `#${MAP_COLOR}`,
+  'stroke-width': 2,
+  'stroke-opacity': 0.9,
+  fill: `#${MAP_COLOR}`,
+  'fill-opacity': 0.15,
+};
+const MAP_DEFAULT_ZOOM = 12;
+const MAP_MAX_SIZE = 1280;
+const MAP_MAX_URL_LENGTH = 8000;
+
+const mapRound = (n) => Math.round(n * 1e5) / 1e5;
+// Rounded GeoJSON coordinates, or null when they aren't numbers in nested arrays
+const mapRoundCoords = (c) => {
+  if (typeof c === 'number') return Number.isFinite(c) ? mapRound(c) : null;
+  if (!Array.isArray(c)) return null;
+  const rounded = c.map(mapRoundCoords);
+  return rounded.includes(null) ? null : rounded;
+};
+
+function mapMarkers(spec) {
+  return (Array.isArray(spec?.markers) ? spec.markers : [])
+    .filter(
+      (m) =>
+        Number.isFinite(m?.lat) &&
+        Number.isFinite(m?.lng) &&
+        Math.abs(m.lat) <= 90 &&
+        Math.abs(m.lng) <= 180
+    )
+    .map((m) => ({
+      lat: m.lat,
+      lng: m.lng,
+      label: typeof m.label === 'string' ? m.label : undefined,
+    }));
+}
+
+function styledArea(area) {
+  if (!area || typeof area !== 'object') return null;
+  const features =
+    area.type === 'FeatureCollection'
+      ? Array.isArray(area.features) ? area.features : []
+      : [area.type === 'Feature' ? area : { type: 'Feature', geometry: area }];
+  // Features with malformed coordinates are skipped rather than breaking the map
+  const styled = features
+    .map((f) => ({ type: f?.geometry?.type, coordinates: mapRoundCoords(f?.geometry?.coordinates) }))
+    .filter((geometry) => typeof geometry.type === 'string' && geometry.coordinates)
+    .map((geometry) => ({ type: 'Feature', geometry, properties: MAP_AREA_STYLE }));
+  return styled.length ? { type: 'FeatureCollection', features: styled } : null;
+}
+
+function staticMapUrl(spec, width, height, token) {
+  const markers = mapMarkers(spec);
+  const area = styledArea(spec.area);
+  const overlays = [];
+  if (area) overlays.push(`geojson(${encodeURIComponent(JSON.stringify(area))})`);
+  markers.slice(0, 99).forEach((m, i) => {
+    const label = markers.length > 1 ? `-${i + 1}` : '';
+    overlays.push(`pin-s${label}+${MAP_COLOR}(${mapRound(m.lng)},${mapRound(m.lat)})`);
+  });
+  if (!overlays.length) return null;
+
+  let position = 'auto';
+  if (markers.length && (spec.zoom != null || (markers.length === 1 && !area))) {
+    const lng = markers.reduce((sum, m) => sum + m.lng, 0) / markers.length;
+    const lat = markers.reduce((sum, m) => sum + m.lat, 0) / markers.length;
+    position = `${mapRound(lng)},${mapRound(lat)},${spec.zoom ?? MAP_DEFAULT_ZOOM}`;
+  }
+  const size = `${Math.min(width, MAP_MAX_SIZE)}x${Math.min(height, MAP_MAX_SIZE)}@2x`;
+  const url = `https://api.mapbox.com/styles/v1/${MAP_STYLE}/static/${overlays.join(
+    ','
+  )}/${position}/${size}?access_token=${token}${position === 'auto' ? '&padding=48' : ''}`;
+
+  if (url.length > MAP_MAX_URL_LENGTH && area) {
+    return staticMapUrl({ ...spec, area: undefined }, width, height, token);
+  }
+  return url.length > MAP_MAX_URL_LENGTH ? null : url;
+}
+
+/** A map as a captioned image, or its caption and marker labels without a token */
+function staticMapFigure(spec, alt) {
+  const src = mapboxToken ? staticMapUrl(spec, 720, 405, mapboxToken) : null;
+  const labels = mapMarkers(spec).map((m) => m.label).filter(Boolean);
+  const caption = [spec.caption, labels.length > 1 ? labels.join(' · ') : labels[0]]
+    .filter(Boolean)
+    .join(' — ');
+  if (!src && !caption) return '';
+  return `<figure>${
+    src ? `<img src="${escapeHtml(src)}" alt="${escapeHtml(alt || caption || 'Map')}" width="720" height="405">` : ''
+  }${caption ? `<figcaption>${escapeHtml(caption)}</figcaption>` : ''}</figure>`;
+}
+
+/** Swap ```map placeholders in the article HTML for static figures */
+function renderStaticMaps(content) {
+  return content.replace(/<div class="article-map" data-map="([^"]*)"><\/div>/g, (_m, raw) => {
+    try {
+      return staticMapFigure(JSON.parse(decodeEntities(raw)));
+    } catch {
+      return '';
+    }
+  });
+}
+
 const escapeHtml = (text) =>
   String(text || '')
     .replace(/&/g, '&amp;')
@@ -126,6 +283,9 @@ export default async function handler(req, res) {
     const channelName = article.channel?.name || 'NewsPlatform';
     const publishedAt = article.published_at || article.created_at || null;
     const modifiedAt = article.last_edited || publishedAt;
+    const citations = extractCitations(article.content);
+    const hasLocation = article.location_lat != null && article.location_lng != null;
+    const locationName = article.location_name || article.location || '';
 
     // NewsArticle structured data
     const jsonLd = {
@@ -147,6 +307,20 @@ export default async function handler(req, res) {
       },
       mainEntityOfPage: { '@type': 'WebPage', '@id': articleUrl },
       ...(article.category ? { articleSection: article.category } : {}),
+      ...(citations.length ? { citation: citations } : {}),
+      ...(hasLocation
+        ? {
+            contentLocation: {
+              '@type': 'Place',
+              ...(locationName ? { name: locationName } : {}),
+              geo: {
+                '@type': 'GeoCoordinates',
+                latitude: Number(article.location_lat),
+                longitude: Number(article.location_lng),
+              },
+            },
+          }
+        : {}),
     };
 
     // Search engines get the full page with NO redirect (dynamic rendering);
@@ -182,7 +356,7 @@ export default async function handler(req, res) {
     <meta name="twitter:description" content="${escapedDescription}" />
     <meta name="twitter:image" content="${primaryImage}" />
 
-    <script type="application/ld+json">${JSON.stringify(jsonLd)}</script>
+    <script type="application/ld+json">${JSON.stringify(jsonLd).replace(/</g, '\\u003c')}</script>
     ${refreshTag}
     <style>
       body { font-family: Georgia, serif; max-width: 44rem; margin: 2rem auto; padding: 0 1rem; line-height: 1.7; color: #1a1a1a; }
@@ -198,7 +372,24 @@ export default async function handler(req, res) {
         publishedAt ? ` · ${new Date(publishedAt).toDateString()}` : ''
       }</p>
       ${imageUrls.length ? `<img src="${imageUrls[0]}" alt="${title}">` : ''}
-      ${article.content || `<p>${escapedDescription}</p>`}
+      ${article.content ? renderStaticMaps(article.content) : `<p>${escapedDescription}</p>`}
+      ${
+        hasLocation
+          ? staticMapFigure(
+              {
+                markers: [
+                  {
+                    lat: Number(article.location_lat),
+                    lng: Number(article.location_lng),
+                    label: locationName,
+                  },
+                ],
+                zoom: 10,
+              },
+              locationName ? `Map of ${locationName}` : 'Map'
+            )
+          : ''
+      }
       <p><a href="${articleUrl}">Read on NewsPlatform</a> · <a href="${siteUrl}">More stories</a></p>
     </article>
   </body>
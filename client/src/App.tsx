@@ -19,12 +19,14 @@ import AuthCallback from "./pages/auth-callback";
 import ProfilePage from "./pages/profile-page";
 import EditArticle from "@/pages/edit-article";
 import ManageSubscribersPage from "@/pages/manage-subscribers";
+import ChannelAnalyticsPage from "@/pages/channel-analytics";
 import AdminPage from "@/pages/admin-page";
 import ApiKeysPage from "@/pages/api-keys-page";
 import ApiDocsPage from "@/pages/api-docs-page";
 import PrivacyPage from "@/pages/privacy-page";
 import TermsPage from "@/pages/terms-page";
 import AdvertisePage from "@/pages/advertise-page";
+import SearchPage from "@/pages/search-page";
 import { Analytics } from "@vercel/analytics/react";
 import { HelmetProvider } from "react-helmet-async";
 import { useEffect } from "react";
@@ -77,6 +79,10 @@ function Router() {
         path="/channels/:id/subscribers"
         component={ManageSubscribersPage}
       />
+      <ProtectedRoute
+        path="/channels/:id/analytics"
+        component={ChannelAnalyticsPage}
+      />
       <Route path="/channels/:id" component={ChannelPage} />
       <Route path="/channels" component={ChannelsPage} />
       <ProtectedRoute path="/articles/new" component={CreateArticle} />
@@ -91,6 +97,7 @@ function Router() {
       <Route path="/privacy" component={PrivacyPage} />
       <Route path="/terms" component={TermsPage} />
       <Route path="/advertise" component={AdvertisePage} />
+      <Route path="/search" component={SearchPage} />
       <Route path="/api-keys">
         <ApiAccessRouteGuard>
           <ApiKeysPage />
@@ -0,0 +1,175 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { LoadingSpinner } from "@/components/ui/loading-spinner";
+import { formatDate } from "@/lib/date-utils";
+import { createSlugUrl } from "@/lib/slug-utils";
+import { useToast } from "@/hooks/use-toast";
+import { Check, EyeOff } from "lucide-react";
+
+// Shape returned by GET /api/admin/comment-flags
+interface FlaggedComment {
+  comment: {
+    id: number;
+    content: string;
+    createdAt: string;
+    editedAt: string | null;
+    deleted: boolean;
+    hidden: boolean;
+    author: { id: number; username: string } | null;
+  };
+  article: { id: number; title: string; slug: string | null } | null;
+  flags: {
+    id: number;
+    reason: string;
+    details: string | null;
+    createdAt: string;
+    reporter: { id: number; username: string } | null;
+  }[];
+}
+
+const REASON_LABELS: Record<string, string> = {
+  spam: "Spam",
+  harassment: "Harassment",
+  off_topic: "Off topic",
+  other: "Other",
+};
+
+export function AdminCommentModeration() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: queue, isLoading, error } = useQuery<FlaggedComment[], Error>({
+    queryKey: ["adminCommentFlags"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/admin/comment-flags");
+      return await response.json();
+    },
+  });
+
+  const mutation = useMutation<
+    unknown,
+    Error,
+    { commentId: number; action: "approve" | "remove"; articleId?: number }
+  >({
+    mutationFn: async ({ commentId, action }) => {
+      const response = await apiRequest(
+        "POST",
+        `/api/admin/comment-flags/${commentId}`,
+        { action }
+      );
+      return await response.json();
+    },
+    onSuccess: (_data, { commentId, action, articleId }) => {
+      queryClient.setQueryData<FlaggedComment[]>(["adminCommentFlags"], (oldData) =>
+        oldData?.filter((item) => item.comment.id !== commentId)
+      );
+      if (articleId) {
+        queryClient.invalidateQueries({
+          queryKey: [`/api/articles/${articleId}/comments`],
+        });
+      }
+      toast({
+        title: action === "approve" ? "Comment approved" : "Comment removed",
+        description:
+          action === "approve"
+            ? "The flags were dismissed and the comment stays visible."
+            : "The comment is now hidden from readers.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Moderation failed",
+        description: error.message || "An unknown error occurred.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) return <LoadingSpinner />;
+  if (error) {
+    return (
+      <p className="text-sm text-red-600 dark:text-red-400">
+        Failed to load flagged comments: {error.message}
+      </p>
+    );
+  }
+  if (!queue || queue.length === 0) {
+    return <p className="text-sm text-muted-foreground">No flagged comments. All clear.</p>;
+  }
+
+  return (
+    <div className="border rounded-md divide-y">
+      {queue.map(({ comment, article, flags }) => (
+        <div key={comment.id} className="p-4 space-y-3">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="font-medium">
+              {comment.author?.username ?? "[deleted]"}
+            </span>
+            <span className="text-muted-foreground">
+              {formatDate(comment.createdAt, true)}
+              {comment.editedAt && " (edited)"}
+            </span>
+            {article && (
+              <Link
+                href={createSlugUrl("/articles/", article.slug ?? "", article.id)}
+                className="text-muted-foreground underline underline-offset-2"
+              >
+                on “{article.title}”
+              </Link>
+            )}
+            {comment.hidden && <Badge variant="secondary">Hidden</Badge>}
+            {comment.deleted && <Badge variant="secondary">Deleted by author</Badge>}
+          </div>
+
+          <p className="text-sm whitespace-pre-wrap rounded-md bg-muted p-3">
+            {comment.deleted ? "(content deleted)" : comment.content}
+          </p>
+
+          <div className="space-y-1">
+            <p className="text-xs font-semibold text-muted-foreground">
+              {flags.length} {flags.length === 1 ? "flag" : "flags"}
+            </p>
+            {flags.map((flag) => (
+              <p key={flag.id} className="text-xs text-muted-foreground">
+                <Badge variant="outline" className="mr-2">
+                  {REASON_LABELS[flag.reason] ?? flag.reason}
+                </Badge>
+                {flag.reporter?.username ?? "Unknown user"} ·{" "}
+                {formatDate(flag.createdAt, true)}
+                {flag.details && ` — ${flag.details}`}
+              </p>
+            ))}
+          </div>
+
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={mutation.isPending}
+              onClick={() =>
+                mutation.mutate({ commentId: comment.id, action: "approve", articleId: article?.id })
+              }
+            >
+              <Check className="h-4 w-4 mr-1" />
+              Approve
+            </Button>
+            <Button
+              size="sm"
+              variant="destructive"
+              disabled={mutation.isPending}
+              onClick={() =>
+                mutation.mutate({ commentId: comment.id, action: "remove", articleId: article?.id })
+              }
+            >
+              <EyeOff className="h-4 w-4 mr-1" />
+              Remove
+            </Button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
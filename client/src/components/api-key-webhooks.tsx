@@ -0,0 +1,256 @@
+import React from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Loader2 } from "lucide-react";
+import { formatDate } from "@/lib/date-utils";
+
+// Keep in sync with WEBHOOK_EVENTS in server/webhooks.ts
+const WEBHOOK_EVENTS = [
+  "article.published",
+  "article.updated",
+  "article.deleted",
+  "comment.created",
+  "channel.subscribed",
+];
+
+interface Webhook {
+  id: string;
+  url: string;
+  events: string[];
+  isActive: boolean;
+  secretPrefix: string | null;
+  createdAt: string;
+}
+
+interface WebhookDelivery {
+  id: string;
+  event: string;
+  status: "pending" | "succeeded" | "failed";
+  attempts: number;
+  nextAttemptAt: string | null;
+  lastStatusCode: number | null;
+  lastError: string | null;
+  createdAt: string;
+  deliveredAt: string | null;
+}
+
+const STATUS_STYLES: Record<WebhookDelivery["status"], string> = {
+  succeeded: "bg-green-100 dark:bg-green-900 text-green-700 dark:text-green-300",
+  pending: "bg-yellow-100 dark:bg-yellow-900 text-yellow-700 dark:text-yellow-300",
+  failed: "bg-red-100 dark:bg-red-900 text-red-700 dark:text-red-300",
+};
+
+// apiRequest errors look like `400: {"error":"..."}`
+function errorText(error: Error): string {
+  const body = error.message.replace(/^\d+:\s*/, "");
+  try {
+    return JSON.parse(body).error || body;
+  } catch {
+    return body;
+  }
+}
+
+function DeliveryLog({ webhookId }: { webhookId: string }) {
+  const { data: deliveries, isLoading } = useQuery<WebhookDelivery[]>({
+    queryKey: [`/api/v1/webhooks/${webhookId}/deliveries`],
+  });
+
+  if (isLoading) {
+    return <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />;
+  }
+  if (!deliveries || deliveries.length === 0) {
+    return <p className="text-xs text-muted-foreground">No deliveries yet.</p>;
+  }
+
+  return (
+    <div className="border rounded-md divide-y text-xs max-h-64 overflow-y-auto">
+      {deliveries.map((d) => (
+        <div key={d.id} className="flex items-center justify-between gap-2 px-2 py-1.5">
+          <div className="min-w-0">
+            <span className="font-mono">{d.event}</span>
+            <span className="text-muted-foreground ml-2">{formatDate(d.createdAt, true)}</span>
+            {d.lastError && (
+              <span className="text-muted-foreground ml-2 truncate">— {d.lastError}</span>
+            )}
+          </div>
+          <div className="flex items-center gap-2 shrink-0">
+            <span className="text-muted-foreground">
+              {d.attempts} attempt{d.attempts === 1 ? "" : "s"}
+            </span>
+            <span className={`px-1.5 py-0.5 rounded ${STATUS_STYLES[d.status]}`}>
+              {d.status}
+            </span>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function ApiKeyWebhooks({ apiKeyId }: { apiKeyId: string }) {
+  const { toast } = useToast();
+  const [url, setUrl] = React.useState("");
+  const [events, setEvents] = React.useState<string[]>(["article.published"]);
+  const [createdSecret, setCreatedSecret] = React.useState<string | null>(null);
+  const [openLog, setOpenLog] = React.useState<string | null>(null);
+
+  const listKey = [`/api/v1/api-keys/${apiKeyId}/webhooks`];
+  const { data: webhooks, isLoading } = useQuery<Webhook[]>({ queryKey: listKey });
+
+  const onError = (title: string) => (error: Error) =>
+    toast({ title, description: errorText(error), variant: "destructive" });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/v1/api-keys/${apiKeyId}/webhooks`, {
+        url: url.trim(),
+        events,
+      });
+      return res.json();
+    },
+    onSuccess: (data) => {
+      setCreatedSecret(data.secret);
+      setUrl("");
+      queryClient.invalidateQueries({ queryKey: listKey });
+    },
+    onError: onError("Failed to add webhook"),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) =>
+      apiRequest("PATCH", `/api/v1/webhooks/${id}`, { isActive }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: listKey }),
+    onError: onError("Failed to update webhook"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest("DELETE", `/api/v1/webhooks/${id}`),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: listKey }),
+    onError: onError("Failed to delete webhook"),
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("POST", `/api/v1/webhooks/${id}/test`);
+      return res.json() as Promise<WebhookDelivery>;
+    },
+    onSuccess: (delivery, id) => {
+      toast(
+        delivery.status === "succeeded"
+          ? { title: "Test event delivered", description: `HTTP ${delivery.lastStatusCode}` }
+          : {
+              title: "Test event failed",
+              description: `${delivery.lastError}. It will be retried.`,
+              variant: "destructive",
+            }
+      );
+      setOpenLog(id);
+      queryClient.invalidateQueries({ queryKey: [`/api/v1/webhooks/${id}/deliveries`] });
+    },
+    onError: onError("Failed to send test event"),
+  });
+
+  const toggleEvent = (event: string, checked: boolean) =>
+    setEvents(checked ? [...events, event] : events.filter((e) => e !== event));
+
+  return (
+    <div className="space-y-4 pt-3">
+      {isLoading ? (
+        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+      ) : !webhooks || webhooks.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No webhooks on this key.</p>
+      ) : (
+        <div className="space-y-3">
+          {webhooks.map((w) => (
+            <div key={w.id} className="border rounded-md p-3 space-y-2">
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="text-sm font-mono break-all">{w.url}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {w.events.join(", ")} · secret {w.secretPrefix}...
+                  </p>
+                </div>
+                <Switch
+                  checked={w.isActive}
+                  onCheckedChange={(isActive) => updateMutation.mutate({ id: w.id, isActive })}
+                  aria-label="Active"
+                />
+              </div>
+              <div className="flex gap-1">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="text-xs"
+                  disabled={testMutation.isPending}
+                  onClick={() => testMutation.mutate(w.id)}
+                >
+                  Send test
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-xs"
+                  onClick={() => setOpenLog(openLog === w.id ? null : w.id)}
+                >
+                  {openLog === w.id ? "Hide deliveries" : "Deliveries"}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-red-600 hover:text-red-700 text-xs ml-auto"
+                  onClick={() => deleteMutation.mutate(w.id)}
+                >
+                  Delete
+                </Button>
+              </div>
+              {openLog === w.id && <DeliveryLog webhookId={w.id} />}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <h4 className="text-sm font-semibold">Add Webhook</h4>
+        <input
+          type="url"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          placeholder="https://example.com/webhooks/newsplatform"
+          className="w-full px-3 py-2 border rounded-md bg-background text-sm"
+        />
+        <div className="flex flex-wrap gap-x-4 gap-y-1">
+          {WEBHOOK_EVENTS.map((event) => (
+            <label key={event} className="flex items-center gap-1.5 text-xs">
+              <Checkbox
+                checked={events.includes(event)}
+                onCheckedChange={(checked) => toggleEvent(event, checked === true)}
+              />
+              <span className="font-mono">{event}</span>
+            </label>
+          ))}
+        </div>
+        <Button
+          size="sm"
+          onClick={() => createMutation.mutate()}
+          disabled={createMutation.isPending || !url.trim() || events.length === 0}
+        >
+          {createMutation.isPending ? "Adding..." : "Add Webhook"}
+        </Button>
+        {createdSecret && (
+          <div className="p-3 bg-green-50 dark:bg-green-950 border border-green-200 dark:border-green-800 rounded-md">
+            <p className="text-sm font-medium text-green-800 dark:text-green-200 mb-1">
+              Signing secret — copy it now, it won't be shown again:
+            </p>
+            <code className="text-xs break-all bg-green-100 dark:bg-green-900 p-2 rounded block">
+              {createdSecret}
+            </code>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
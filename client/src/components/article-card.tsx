@@ -35,6 +35,7 @@ import { cn } from "@/lib/utils";
 import { createSlugUrl } from "@/lib/slug-utils";
 import { categoryColor } from "@/lib/category-colors";
 import { useImageVisibility } from "@/components/image-toggle";
+import { BookmarkButton } from "@/components/bookmarks";
 
 // Define a more flexible type for article that accommodates both camelCase and snake_case
 type ArticleWithSnakeCase = Article & {
@@ -202,7 +203,7 @@ export function ArticleCard({
         <AlertDialogHeader>
           <AlertDialogTitle>Authentication Required</AlertDialogTitle>
           <AlertDialogDescription>
-            Sign in to like articles and follow channels.
+            Sign in to like, save and follow.
           </AlertDialogDescription>
         </AlertDialogHeader>
         <AlertDialogFooter>
@@ -459,6 +460,11 @@ export function ArticleCard({
                     </div>
                   </Link>
                 )}
+                <BookmarkButton
+                  articleId={article.id}
+                  onRequireAuth={() => setShowAuthDialog(true)}
+                  className="ml-auto"
+                />
               </div>
             </div>
           </div>
@@ -524,6 +530,11 @@ export function ArticleCard({
                       </div>
                     </Link>
                   )}
+                  <BookmarkButton
+                    articleId={article.id}
+                    onRequireAuth={() => setShowAuthDialog(true)}
+                    className="ml-auto"
+                  />
                 </div>
               </div>
               {/* Right side: Image filling the right third */}
@@ -592,6 +603,11 @@ export function ArticleCard({
                     </div>
                   </Link>
                 )}
+                <BookmarkButton
+                  articleId={article.id}
+                  onRequireAuth={() => setShowAuthDialog(true)}
+                  className="ml-auto"
+                />
               </div>
             </div>
           )}
@@ -684,6 +700,13 @@ export function ArticleCard({
                     </div>
                   </Link>
                 )}
+
+                <BookmarkButton
+                  articleId={article.id}
+                  onRequireAuth={() => setShowAuthDialog(true)}
+                  className="text-muted-foreground"
+                  iconClassName="h-4 w-4"
+                />
               </div>
             </CardFooter>
           </div>
@@ -49,6 +49,8 @@ import imageCompression from "browser-image-compression";
 import { useQueryClient } from "@tanstack/react-query";
 import { supabase as defaultSupabase } from "@/lib/supabase"; // Import the default client
 import { RichTextEditor } from "./rich-text-editor";
+import { formatDate, toDateTimeLocalValue } from "@/lib/date-utils";
+import { useChannelRoles } from "./channel-members";
 
 // Re-export the MapboxLocationPicker, StandaloneLocationPicker, and MapboxLocation for use in other components
 export { MapboxLocation };
@@ -872,8 +874,30 @@ export function ArticleEditor({
   const [images, setImages] = useState<{ file: File; caption: string }[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isDraft, setIsDraft] = useState(
-    existingArticle ? existingArticle.published === false : false
+    existingArticle
+      ? existingArticle.published === false &&
+          existingArticle.status !== "scheduled"
+      : false
   );
+  // Scheduled articles stay unpublished until published_at, then the
+  // server-side scheduler promotes them
+  const [isScheduled, setIsScheduled] = useState(
+    existingArticle?.status === "scheduled"
+  );
+  const [scheduledFor, setScheduledFor] = useState(
+    existingArticle?.status === "scheduled"
+      ? toDateTimeLocalValue(
+          existingArticle.published_at || existingArticle.publishedAt
+        )
+      : ""
+  );
+  const scheduledLabel = scheduledFor ? formatDate(scheduledFor, true) : "";
+  // Live blogs carry a stream of timestamped updates posted from the
+  // article page (see components/live-blog.tsx)
+  const existingLiveStatus = (existingArticle?.live_status ??
+    existingArticle?.liveStatus ??
+    null) as "live" | "ended" | null;
+  const [isLiveBlog, setIsLiveBlog] = useState(!!existingLiveStatus);
   const [selectedCategories, setSelectedCategories] = useState<
     { id: number; path: string }[]
   >([]);
@@ -981,11 +1005,14 @@ export function ArticleEditor({
     ),
   });
 
-  // Update status when isDraft changes
+  // Update status when isDraft or isScheduled changes
   useEffect(() => {
-    form.setValue("status", isDraft ? "draft" : "published");
-    form.setValue("published", !isDraft);
-  }, [isDraft, form]);
+    form.setValue(
+      "status",
+      isScheduled ? "scheduled" : isDraft ? "draft" : "published"
+    );
+    form.setValue("published", !isDraft && !isScheduled);
+  }, [isDraft, isScheduled, form]);
 
   // Set default channelId when channels are loaded or defaultChannelId changes
   useEffect(() => {
@@ -1000,6 +1027,17 @@ export function ArticleEditor({
     }
   }, [channels, form, defaultChannelId]);
 
+  // Contributors can't publish or schedule; their articles wait as drafts
+  // for an editor or the channel owner
+  const channelRoles = useChannelRoles();
+  const draftOnly = channelRoles.get(form.watch("channelId")) === "contributor";
+  useEffect(() => {
+    if (draftOnly) {
+      setIsDraft(true);
+      setIsScheduled(false);
+    }
+  }, [draftOnly]);
+
   // Extract all categories into a flat list for search
   const flatCategories = useMemo(() => {
     const flattenCategories = (
@@ -1118,6 +1156,18 @@ export function ArticleEditor({
         return;
       }
 
+      if (isScheduled) {
+        const publishAt = scheduledFor ? new Date(scheduledFor) : null;
+        if (!publishAt || isNaN(publishAt.getTime()) || publishAt <= new Date()) {
+          toast({
+            title: "Error",
+            description: "Please pick a publish time in the future",
+            variant: "destructive",
+          });
+          return;
+        }
+      }
+
       // Upload images first
       const imageUploads = await Promise.all(
         images.map(async (img) => {
@@ -1168,6 +1218,19 @@ export function ArticleEditor({
         location_name: data.location_name || data.location || "",
         location_lat: data.location_lat,
         location_lng: data.location_lng,
+        // null un-schedules an article that was scheduled before
+        scheduledFor: isScheduled
+          ? new Date(scheduledFor).toISOString()
+          : existingArticle?.status === "scheduled"
+          ? null
+          : undefined,
+        // Editing keeps ended coverage ended; switching off makes it a
+        // regular article again
+        liveStatus: isLiveBlog
+          ? existingLiveStatus || "live"
+          : existingLiveStatus
+          ? null
+          : undefined,
       };
 
       let articleId: number;
@@ -1232,7 +1295,9 @@ export function ArticleEditor({
 
       toast({
         title: "Success",
-        description: isDraft
+        description: isScheduled
+          ? `Article scheduled for ${scheduledLabel}`
+          : isDraft
           ? "Article saved as draft"
           : existingArticle
           ? "Article updated successfully"
@@ -1273,7 +1338,9 @@ export function ArticleEditor({
 
       toast({
         title: "Success",
-        description: isDraft
+        description: isScheduled
+          ? `Article scheduled for ${scheduledLabel}`
+          : isDraft
           ? "Article saved as draft"
           : "Article published successfully",
       });
@@ -1318,7 +1385,9 @@ export function ArticleEditor({
 
       toast({
         title: "Success",
-        description: isDraft
+        description: isScheduled
+          ? `Article scheduled for ${scheduledLabel}`
+          : isDraft
           ? "Article saved as draft"
           : "Article updated successfully",
       });
@@ -1644,15 +1713,70 @@ export function ArticleEditor({
           </FormControl>
         </FormItem>
 
-        <div className="flex items-center space-x-2 mb-4">
-          <Switch
-            id="draft-mode"
-            checked={isDraft}
-            onCheckedChange={setIsDraft}
-          />
-          <Label htmlFor="draft-mode">Save as draft</Label>
+        <div className="mb-4 space-y-1">
+          <div className="flex items-center space-x-2">
+            <Switch id="live-blog" checked={isLiveBlog} onCheckedChange={setIsLiveBlog} />
+            <Label htmlFor="live-blog">Live blog</Label>
+          </div>
+          {isLiveBlog && (
+            <p className="text-xs text-muted-foreground">
+              Post timestamped updates from the article page while the story
+              develops.
+            </p>
+          )}
         </div>
 
+        {draftOnly ? (
+          <p className="mb-4 text-sm text-muted-foreground">
+            As a contributor, your article is saved as a draft for an editor
+            to publish.
+          </p>
+        ) : (
+          <>
+            <div className="flex items-center space-x-2 mb-4">
+              <Switch
+                id="draft-mode"
+                checked={isDraft}
+                onCheckedChange={(checked) => {
+                  setIsDraft(checked);
+                  if (checked) setIsScheduled(false);
+                }}
+              />
+              <Label htmlFor="draft-mode">Save as draft</Label>
+            </div>
+
+            <div className="mb-4 space-y-2">
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="schedule-mode"
+                  checked={isScheduled}
+                  onCheckedChange={(checked) => {
+                    setIsScheduled(checked);
+                    if (checked) setIsDraft(false);
+                  }}
+                />
+                <Label htmlFor="schedule-mode">Schedule for later</Label>
+              </div>
+              {isScheduled && (
+                <div className="max-w-xs">
+                  <Input
+                    type="datetime-local"
+                    aria-label="Publish date and time"
+                    value={scheduledFor}
+                    min={toDateTimeLocalValue(new Date())}
+                    onChange={(e) => setScheduledFor(e.target.value)}
+                  />
+                  <p className="mt-1 text-xs text-muted-foreground">
+                    {scheduledLabel
+                      ? `Goes live ${scheduledLabel} (your local time)`
+                      : "Pick when this article should go live"}
+                  </p>
+                </div>
+              )}
+            </div>
+          </>
+        )}
+
         <Button
           type="submit"
           className="w-full"
@@ -1669,6 +1793,8 @@ export function ArticleEditor({
               <Loader2 className="mr-2 h-4 w-4 animate-spin" />
               {isSubmitting
                 ? "Submitting..."
+                : isScheduled
+                ? "Scheduling..."
                 : existingArticle
                 ? isDraft
                   ? "Saving draft..."
@@ -1679,7 +1805,13 @@ export function ArticleEditor({
             </>
           ) : (
             <>
-              {existingArticle ? "Update" : isDraft ? "Save draft" : "Publish"}
+              {isScheduled
+                ? "Schedule"
+                : existingArticle
+                ? "Update"
+                : isDraft
+                ? "Save draft"
+                : "Publish"}
             </>
           )}
         </Button>
@@ -0,0 +1,200 @@
+import { useEffect, useRef, useState } from "react";
+import { MapPin } from "lucide-react";
+
+// Rendered from ```map fenced blocks (see docs/article-format.md).
+export interface MapSpec {
+  markers?: Array<{ lat: number; lng: number; label?: string }>;
+  /** GeoJSON geometry, Feature or FeatureCollection outlined on the map */
+  area?: any;
+  caption?: string;
+  zoom?: number;
+}
+
+const MAP_STYLE = "mapbox/streets-v12";
+const MAP_COLOR = "e4572e";
+const MAP_AREA_STYLE = {
+  stroke: `#${MAP_COLOR}`,
+  "stroke-width": 2,
+  "stroke-opacity": 0.9,
+  fill: `#${MAP_COLOR}`,
+  "fill-opacity": 0.15,
+};
+const DEFAULT_ZOOM = 12;
+// Mapbox caps static images at 1280px a side and URLs at 8192 characters
+const MAX_SIZE = 1280;
+const MAX_URL_LENGTH = 8000;
+
+const round = (n: number) => Math.round(n * 1e5) / 1e5;
+/** Rounded GeoJSON coordinates, or null when they aren't numbers in nested arrays */
+const roundCoords = (c: any): any => {
+  if (typeof c === "number") return Number.isFinite(c) ? round(c) : null;
+  if (!Array.isArray(c)) return null;
+  const rounded = c.map(roundCoords);
+  return rounded.includes(null) ? null : rounded;
+};
+
+/**
+ * Markers with usable coordinates, keeping only string labels: specs from
+ * HTML content reach here without passing through the markdown converter
+ */
+export function mapMarkers(spec: MapSpec) {
+  return (Array.isArray(spec?.markers) ? spec.markers : [])
+    .filter(
+      (m) =>
+        Number.isFinite(m?.lat) &&
+        Number.isFinite(m?.lng) &&
+        Math.abs(m.lat) <= 90 &&
+        Math.abs(m.lng) <= 180
+    )
+    .map((m) => ({
+      lat: m.lat,
+      lng: m.lng,
+      label: typeof m.label === "string" ? m.label : undefined,
+    }));
+}
+
+/** The area as one FeatureCollection carrying the outline style */
+function styledArea(area: any) {
+  if (!area || typeof area !== "object") return null;
+  const features =
+    area.type === "FeatureCollection"
+      ? Array.isArray(area.features) ? area.features : []
+      : [area.type === "Feature" ? area : { type: "Feature", geometry: area }];
+  // Features with malformed coordinates are skipped rather than breaking the map
+  const styled = features
+    .map((f: any) => ({ type: f?.geometry?.type, coordinates: roundCoords(f?.geometry?.coordinates) }))
+    .filter((geometry: any) => typeof geometry.type === "string" && geometry.coordinates)
+    .map((geometry: any) => ({ type: "Feature", geometry, properties: MAP_AREA_STYLE }));
+  return styled.length ? { type: "FeatureCollection", features: styled } : null;
+}
+
+/**
+ * Mapbox Static Images URL for a map block. Markers are numbered when there
+ * is more than one; the view fits everything unless the spec sets a zoom.
+ * An area too detailed for the URL limit is left out. Keep in sync with
+ * staticMapUrl in api/prerender-article.js.
+ */
+export function staticMapUrl(
+  spec: MapSpec,
+  width: number,
+  height: number,
+  token: string
+): string | null {
+  const markers = mapMarkers(spec);
+  const area = styledArea(spec.area);
+  const overlays: string[] = [];
+  if (area) overlays.push(`geojson(${encodeURIComponent(JSON.stringify(area))})`);
+  markers.slice(0, 99).forEach((m, i) => {
+    const label = markers.length > 1 ? `-${i + 1}` : "";
+    overlays.push(`pin-s${label}+${MAP_COLOR}(${round(m.lng)},${round(m.lat)})`);
+  });
+  if (!overlays.length) return null;
+
+  let position = "auto";
+  if (markers.length && (spec.zoom != null || (markers.length === 1 && !area))) {
+    const lng = markers.reduce((sum, m) => sum + m.lng, 0) / markers.length;
+    const lat = markers.reduce((sum, m) => sum + m.lat, 0) / markers.length;
+    position = `${round(lng)},${round(lat)},${spec.zoom ?? DEFAULT_ZOOM}`;
+  }
+  const size = `${Math.min(width, MAX_SIZE)}x${Math.min(height, MAX_SIZE)}@2x`;
+  const url = `https://api.mapbox.com/styles/v1/${MAP_STYLE}/static/${overlays.join(
+    ","
+  )}/${position}/${size}?access_token=${token}${position === "auto" ? "&padding=48" : ""}`;
+
+  if (url.length > MAX_URL_LENGTH && area) {
+    return staticMapUrl({ ...spec, area: undefined }, width, height, token);
+  }
+  return url.length > MAX_URL_LENGTH ? null : url;
+}
+
+/** OpenStreetMap link centred on the markers, for the full interactive map */
+function openMapUrl(spec: MapSpec) {
+  const markers = mapMarkers(spec);
+  if (!markers.length) return null;
+  const lat = round(markers.reduce((sum, m) => sum + m.lat, 0) / markers.length);
+  const lng = round(markers.reduce((sum, m) => sum + m.lng, 0) / markers.length);
+  return `https://www.openstreetmap.org/?mlat=${lat}&mlon=${lng}#map=${
+    spec.zoom ?? DEFAULT_ZOOM
+  }/${lat}/${lng}`;
+}
+
+export function ArticleMap({ spec }: { spec: MapSpec }) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [width, setWidth] = useState(0);
+  const token = import.meta.env.VITE_MAPBOX_TOKEN as string | undefined;
+
+  // Size the image to the column, in 80px steps so resizing doesn't refetch
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const measure = () => setWidth(Math.max(240, Math.ceil(el.clientWidth / 80) * 80));
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  const markers = mapMarkers(spec);
+  const height = Math.round((width * 9) / 16);
+  const src = token && width ? staticMapUrl(spec, width, height, token) : null;
+  const openUrl = openMapUrl(spec);
+  const labelled = markers.some((m) => m.label);
+
+  return (
+    <div className="article-map-inner" ref={containerRef}>
+      {src ? (
+        <a href={openUrl || undefined} target="_blank" rel="noopener noreferrer">
+          <img
+            src={src}
+            alt={spec.caption || "Map"}
+            width={width}
+            height={height}
+            loading="lazy"
+            className="article-map-image"
+          />
+        </a>
+      ) : (
+        <div className="article-map-empty">
+          <MapPin className="h-5 w-5" />
+          {openUrl ? (
+            <a href={openUrl} target="_blank" rel="noopener noreferrer">
+              Open map
+            </a>
+          ) : (
+            "Map unavailable"
+          )}
+        </div>
+      )}
+      {labelled && (
+        <ol className="article-map-legend" data-numbered={markers.length > 1 || undefined}>
+          {markers.map((m, i) => (
+            <li key={i}>{m.label || `${round(m.lat)}, ${round(m.lng)}`}</li>
+          ))}
+        </ol>
+      )}
+      {spec.caption && <div className="article-map-caption">{spec.caption}</div>}
+    </div>
+  );
+}
+
+/** Automatic map for an article's own location, shown after the body */
+export function LocationMapCard({
+  name,
+  lat,
+  lng,
+}: {
+  name?: string | null;
+  lat: number;
+  lng: number;
+}) {
+  if (!import.meta.env.VITE_MAPBOX_TOKEN) return null;
+  return (
+    <aside className="my-8 rounded-xl border bg-card p-4">
+      <div className="mb-3 flex items-center gap-1.5 text-xs font-bold uppercase tracking-wider text-muted-foreground">
+        <MapPin className="h-3.5 w-3.5" />
+        {name || "Location"}
+      </div>
+      <ArticleMap spec={{ markers: [{ lat, lng }], zoom: 10 }} />
+    </aside>
+  );
+}
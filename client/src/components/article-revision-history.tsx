@@ -0,0 +1,298 @@
+import { useEffect, useMemo, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { formatDate } from "@/lib/date-utils";
+import { diffWords, htmlToPlainText } from "@/lib/word-diff";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { History, Loader2, RotateCcw } from "lucide-react";
+
+// Shape returned by GET /api/articles/:id/revisions
+interface ArticleRevision {
+  id: number;
+  revisionNumber: number;
+  title: string;
+  status: string | null;
+  published: boolean | null;
+  source: "original" | "edit" | "status" | "restore";
+  restoredFrom: number | null;
+  createdAt: string;
+  editedBy: { id: number; username: string } | null;
+  content?: string;
+}
+
+const SOURCE_LABELS: Record<ArticleRevision["source"], string> = {
+  original: "Original",
+  edit: "Edited",
+  status: "Status change",
+  restore: "Restored",
+};
+
+function useRevision(articleId: number, revisionId: number | null) {
+  return useQuery<ArticleRevision>({
+    queryKey: [`/api/articles/${articleId}/revisions/${revisionId}`],
+    enabled: revisionId !== null,
+    staleTime: Infinity, // revisions never change once written
+  });
+}
+
+interface ArticleRevisionHistoryProps {
+  articleId: number;
+  onRestored?: () => void;
+}
+
+export function ArticleRevisionHistory({
+  articleId,
+  onRestored,
+}: ArticleRevisionHistoryProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [fromId, setFromId] = useState<number | null>(null);
+  const [toId, setToId] = useState<number | null>(null);
+  const [restoreTarget, setRestoreTarget] = useState<ArticleRevision | null>(
+    null
+  );
+
+  const { data: revisions, isLoading } = useQuery<ArticleRevision[]>({
+    queryKey: [`/api/articles/${articleId}/revisions`],
+  });
+
+  // Default to comparing the two most recent revisions
+  useEffect(() => {
+    if (!revisions || revisions.length === 0) return;
+    if (toId === null || !revisions.some((r) => r.id === toId)) {
+      setToId(revisions[0].id);
+      setFromId(revisions[1]?.id ?? revisions[0].id);
+    }
+  }, [revisions, toId]);
+
+  const { data: fromRevision } = useRevision(articleId, fromId);
+  const { data: toRevision } = useRevision(articleId, toId);
+
+  const diff = useMemo(() => {
+    if (!fromRevision || !toRevision) return null;
+    return {
+      title: diffWords(fromRevision.title, toRevision.title),
+      content: diffWords(
+        htmlToPlainText(fromRevision.content || ""),
+        htmlToPlainText(toRevision.content || "")
+      ),
+    };
+  }, [fromRevision, toRevision]);
+
+  const restoreMutation = useMutation({
+    mutationFn: async (revision: ArticleRevision) => {
+      const res = await apiRequest(
+        "POST",
+        `/api/articles/${articleId}/revisions/${revision.id}/restore`
+      );
+      return res.json();
+    },
+    onSuccess: async (_data, revision) => {
+      toast({
+        title: "Revision restored",
+        description: `The article now matches revision ${revision.revisionNumber}.`,
+      });
+      await queryClient.invalidateQueries({
+        queryKey: [`/api/articles/${articleId}/revisions`],
+      });
+      onRestored?.();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to restore revision",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const selectClass =
+    "px-3 py-2 border rounded-md bg-background text-sm w-full";
+
+  return (
+    <Card className="mt-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Revision history
+        </CardTitle>
+        <CardDescription>
+          Every save is kept. Compare any two revisions or restore an earlier
+          one — restoring creates a new revision, so it can be undone too.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        ) : !revisions || revisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No revisions yet. One is recorded each time you save a change.
+          </p>
+        ) : (
+          <>
+            <ul className="divide-y rounded-md border">
+              {revisions.map((revision, index) => (
+                <li
+                  key={revision.id}
+                  className="flex items-center justify-between gap-4 px-4 py-3"
+                >
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">
+                        #{revision.revisionNumber}
+                      </span>
+                      <Badge variant="secondary">
+                        {SOURCE_LABELS[revision.source] || revision.source}
+                      </Badge>
+                      {revision.restoredFrom && (
+                        <span className="text-xs text-muted-foreground">
+                          from #{revision.restoredFrom}
+                        </span>
+                      )}
+                      {index === 0 && <Badge variant="outline">Current</Badge>}
+                    </div>
+                    <p className="truncate text-sm">{revision.title}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatDate(revision.createdAt, true)}
+                      {revision.editedBy && ` by ${revision.editedBy.username}`}
+                    </p>
+                  </div>
+                  {index > 0 && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setRestoreTarget(revision)}
+                      disabled={restoreMutation.isPending}
+                    >
+                      <RotateCcw className="mr-1 h-4 w-4" />
+                      Restore
+                    </Button>
+                  )}
+                </li>
+              ))}
+            </ul>
+
+            {revisions.length > 1 && (
+              <div className="space-y-3">
+                <div className="grid grid-cols-2 gap-4">
+                  <label className="text-sm font-medium">
+                    From
+                    <select
+                      className={selectClass}
+                      value={fromId ?? ""}
+                      onChange={(e) => setFromId(Number(e.target.value))}
+                    >
+                      {revisions.map((r) => (
+                        <option key={r.id} value={r.id}>
+                          #{r.revisionNumber} — {formatDate(r.createdAt, true)}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="text-sm font-medium">
+                    To
+                    <select
+                      className={selectClass}
+                      value={toId ?? ""}
+                      onChange={(e) => setToId(Number(e.target.value))}
+                    >
+                      {revisions.map((r) => (
+                        <option key={r.id} value={r.id}>
+                          #{r.revisionNumber} — {formatDate(r.createdAt, true)}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                </div>
+
+                {!diff ? (
+                  <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                ) : (
+                  <div className="space-y-3 rounded-md border p-4 text-sm">
+                    <h3 className="text-base font-semibold">
+                      <DiffText parts={diff.title} />
+                    </h3>
+                    <div className="max-h-[32rem] overflow-y-auto whitespace-pre-wrap leading-relaxed">
+                      <DiffText parts={diff.content} />
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+
+      <AlertDialog
+        open={restoreTarget !== null}
+        onOpenChange={(open) => !open && setRestoreTarget(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Restore revision #{restoreTarget?.revisionNumber}?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              The article's title and content will be replaced with this
+              revision. Unsaved changes in the editor will be lost. The URL and
+              publish status stay the same.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => restoreTarget && restoreMutation.mutate(restoreTarget)}
+            >
+              Restore
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
+
+function DiffText({ parts }: { parts: ReturnType<typeof diffWords> }) {
+  return (
+    <>
+      {parts.map((part, i) =>
+        part.type === "added" ? (
+          <ins
+            key={i}
+            className="bg-green-100 text-green-900 no-underline dark:bg-green-900/40 dark:text-green-100"
+          >
+            {part.text}
+          </ins>
+        ) : part.type === "removed" ? (
+          <del
+            key={i}
+            className="bg-red-100 text-red-900 dark:bg-red-900/40 dark:text-red-100"
+          >
+            {part.text}
+          </del>
+        ) : (
+          <span key={i}>{part.text}</span>
+        )
+      )}
+    </>
+  );
+}
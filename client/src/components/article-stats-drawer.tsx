@@ -0,0 +1,218 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format, subDays } from "date-fns";
+import { BarChart3, Loader2 } from "lucide-react";
+import { ArticleChart } from "@/components/article-chart";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import { cn } from "@/lib/utils";
+
+// Shape returned by GET /api/articles/:id/stats
+interface ArticleStats {
+  range: { from: string; to: string };
+  totals: {
+    views: number;
+    trackedViews: number;
+    engagedViews: number;
+    avgReadCompletion: number | null;
+    completionRate: number | null;
+    avgTimeOnPage: number | null;
+  };
+  daily: { date: string; views: number }[];
+  sources: { source: string; views: number }[];
+  campaigns: { campaign: string; views: number }[];
+  devices: { device: string; views: number }[];
+}
+
+const PRESETS = [
+  { label: "7 days", days: 7 },
+  { label: "30 days", days: 30 },
+  { label: "90 days", days: 90 },
+];
+
+const DEVICE_LABELS: Record<string, string> = {
+  mobile: "Mobile",
+  tablet: "Tablet",
+  desktop: "Desktop",
+  bot: "Bots",
+};
+
+const toApiDay = (date: Date) => format(date, "yyyy-MM-dd");
+// API days are UTC dates; parse them as local dates for display
+const fromApiDay = (day: string) => new Date(`${day}T00:00:00`);
+
+function formatDuration(seconds: number | null) {
+  if (seconds == null) return "—";
+  const rounded = Math.round(seconds);
+  if (rounded < 60) return `${rounded}s`;
+  return `${Math.floor(rounded / 60)}m ${rounded % 60}s`;
+}
+
+function sourceLabel(source: string) {
+  if (source === "direct") return "Direct";
+  if (source === "unknown") return "Before tracking";
+  if (source === window.location.hostname.replace(/^www\./, "")) return "This site";
+  return source;
+}
+
+function StatTile({ label, value, hint }: { label: string; value: string; hint?: string }) {
+  return (
+    <div className="rounded-md border p-3">
+      <p className="text-xs font-medium uppercase tracking-wider text-muted-foreground">
+        {label}
+      </p>
+      <p className="mt-1 text-xl font-bold">{value}</p>
+      {hint && <p className="text-xs text-muted-foreground">{hint}</p>}
+    </div>
+  );
+}
+
+/** Share-of-views bars for sources and campaigns */
+function ViewShareList({ rows, total }: { rows: { label: string; views: number }[]; total: number }) {
+  return (
+    <ul className="space-y-2">
+      {rows.map((row) => (
+        <li key={row.label} className="space-y-1">
+          <div className="flex justify-between gap-2 text-sm">
+            <span className="truncate">{row.label}</span>
+            <span className="shrink-0 text-muted-foreground">{row.views.toLocaleString()}</span>
+          </div>
+          <Progress value={total > 0 ? (row.views / total) * 100 : 0} className="h-1.5" />
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/**
+ * Author-only stats for one article: traffic sources, read completion and
+ * views over time. Data loads when the drawer opens.
+ */
+export function ArticleStatsDrawer({ articleId }: { articleId: number }) {
+  const [open, setOpen] = useState(false);
+  const [days, setDays] = useState(30);
+  const to = new Date();
+  const from = subDays(to, days - 1);
+
+  const { data: stats, isLoading, error } = useQuery<ArticleStats, Error>({
+    queryKey: [`/api/articles/${articleId}/stats?from=${toApiDay(from)}&to=${toApiDay(to)}`],
+    enabled: open,
+  });
+  const totals = stats?.totals;
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button variant="outline" size="sm">
+          <BarChart3 className="h-4 w-4 mr-2" />
+          Stats
+        </Button>
+      </SheetTrigger>
+      <SheetContent side="right" className="w-full overflow-y-auto sm:max-w-lg">
+        <SheetHeader>
+          <SheetTitle>Article stats</SheetTitle>
+          <SheetDescription>Only you can see these numbers</SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-4 flex gap-2">
+          {PRESETS.map((preset) => (
+            <Button
+              key={preset.days}
+              variant={days === preset.days ? "default" : "outline"}
+              size="sm"
+              onClick={() => setDays(preset.days)}
+            >
+              {preset.label}
+            </Button>
+          ))}
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-16">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : error || !stats || !totals ? (
+          <div className="py-16 text-center text-muted-foreground">
+            Failed to load stats{error?.message ? `: ${error.message}` : ""}
+          </div>
+        ) : (
+          <div className="mt-6 space-y-6">
+            <div className="grid grid-cols-2 gap-3">
+              <StatTile label="Views" value={totals.views.toLocaleString()} />
+              <StatTile
+                label="Avg. read completion"
+                value={totals.avgReadCompletion == null ? "—" : `${Math.round(totals.avgReadCompletion)}%`}
+                hint={`${totals.engagedViews.toLocaleString()} measured reads`}
+              />
+              <StatTile
+                label="Read to the end"
+                value={totals.completionRate == null ? "—" : `${Math.round(totals.completionRate * 100)}%`}
+              />
+              <StatTile label="Avg. time on page" value={formatDuration(totals.avgTimeOnPage)} />
+            </div>
+
+            <section className="space-y-2">
+              <h3 className="text-sm font-semibold">Views over time</h3>
+              <ArticleChart
+                spec={{
+                  type: "line",
+                  labels: stats.daily.map((d) => format(fromApiDay(d.date), "MMM d")),
+                  series: [{ name: "Views", data: stats.daily.map((d) => d.views) }],
+                }}
+              />
+            </section>
+
+            <section className="space-y-2">
+              <h3 className="text-sm font-semibold">Traffic sources</h3>
+              {stats.sources.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No views in this range</p>
+              ) : (
+                <ViewShareList
+                  rows={stats.sources.map((s) => ({ label: sourceLabel(s.source), views: s.views }))}
+                  total={totals.views}
+                />
+              )}
+            </section>
+
+            {stats.campaigns.length > 0 && (
+              <section className="space-y-2">
+                <h3 className="text-sm font-semibold">Campaigns</h3>
+                <ViewShareList
+                  rows={stats.campaigns.map((c) => ({ label: c.campaign, views: c.views }))}
+                  total={totals.views}
+                />
+              </section>
+            )}
+
+            {stats.devices.length > 0 && (
+              <section className="space-y-2">
+                <h3 className="text-sm font-semibold">Devices</h3>
+                <div className="flex flex-wrap gap-2">
+                  {stats.devices.map((d) => (
+                    <span
+                      key={d.device}
+                      className={cn(
+                        "rounded-full border px-3 py-1 text-sm",
+                        d.device === "bot" && "text-muted-foreground"
+                      )}
+                    >
+                      {DEVICE_LABELS[d.device] ?? d.device} · {d.views.toLocaleString()}
+                    </span>
+                  ))}
+                </div>
+              </section>
+            )}
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,244 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Bookmark, BookmarkCheck, Pencil, Trash2 } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { formatDate } from "@/lib/date-utils";
+import { createSlugUrl } from "@/lib/slug-utils";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { LoadingSpinner } from "@/components/ui/loading-spinner";
+
+// Shape returned by GET /api/user/bookmarks
+export interface SavedArticle {
+  articleId: number;
+  savedAt: string;
+  note: string | null;
+  article: {
+    id: number;
+    title: string;
+    slug: string | null;
+    publishedAt: string;
+    channel: { id: number; name: string; slug: string | null } | null;
+  } | null;
+}
+
+const BOOKMARKS_KEY = ["/api/user/bookmarks"];
+const NOTE_MAX_LENGTH = 2000;
+
+/** The signed-in reader's saved articles (empty when signed out) */
+export function useBookmarks() {
+  const { user } = useAuth();
+  const { data, isLoading } = useQuery<SavedArticle[]>({
+    queryKey: BOOKMARKS_KEY,
+    enabled: !!user,
+  });
+  const bookmarks = user ? data ?? [] : [];
+  return {
+    bookmarks,
+    isLoading: !!user && isLoading,
+    isSaved: (articleId: number) => bookmarks.some((b) => b.articleId === articleId),
+  };
+}
+
+function useBookmarkMutations() {
+  const { toast } = useToast();
+
+  const saveMutation = useMutation({
+    mutationFn: async (body: { articleId: number; note?: string | null }) => {
+      const res = await apiRequest("POST", "/api/user/bookmarks", body);
+      return (await res.json()) as SavedArticle;
+    },
+    onSuccess: (saved) => {
+      queryClient.setQueryData<SavedArticle[]>(BOOKMARKS_KEY, (old = []) => {
+        const exists = old.some((b) => b.articleId === saved.articleId);
+        return exists
+          ? old.map((b) => (b.articleId === saved.articleId ? saved : b))
+          : [saved, ...old];
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't save article", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (articleId: number) => {
+      await apiRequest("DELETE", `/api/user/bookmarks/${articleId}`);
+      return articleId;
+    },
+    onSuccess: (articleId) => {
+      queryClient.setQueryData<SavedArticle[]>(BOOKMARKS_KEY, (old = []) =>
+        old.filter((b) => b.articleId !== articleId)
+      );
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't remove bookmark", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return { saveMutation, removeMutation };
+}
+
+/**
+ * Save / unsave toggle for an article. Signed-out readers trigger
+ * onRequireAuth instead. Stops the click so it works inside card links.
+ */
+export function BookmarkButton({
+  articleId,
+  onRequireAuth,
+  showLabel = false,
+  className,
+  iconClassName = "h-3.5 w-3.5",
+}: {
+  articleId: number;
+  onRequireAuth: () => void;
+  showLabel?: boolean;
+  className?: string;
+  iconClassName?: string;
+}) {
+  const { user } = useAuth();
+  const { isSaved } = useBookmarks();
+  const { saveMutation, removeMutation } = useBookmarkMutations();
+  const saved = isSaved(articleId);
+  const Icon = saved ? BookmarkCheck : Bookmark;
+
+  const handleClick = (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (!user) {
+      onRequireAuth();
+      return;
+    }
+    if (saved) removeMutation.mutate(articleId);
+    else saveMutation.mutate({ articleId });
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      disabled={saveMutation.isPending || removeMutation.isPending}
+      aria-pressed={saved}
+      aria-label={saved ? "Remove from saved articles" : "Save article for later"}
+      title={saved ? "Saved" : "Save for later"}
+      className={cn(
+        "flex items-center transition-colors hover:text-[hsl(var(--edition-accent))]",
+        saved && "text-[hsl(var(--edition-accent))]",
+        className
+      )}
+    >
+      <Icon className={cn(iconClassName, showLabel && "mr-2")} />
+      {showLabel && <span className="text-sm font-medium">{saved ? "Saved" : "Save"}</span>}
+    </button>
+  );
+}
+
+/** The profile page's Saved list: saved articles with their private notes */
+export function SavedArticles() {
+  const { bookmarks, isLoading } = useBookmarks();
+  const { saveMutation, removeMutation } = useBookmarkMutations();
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [draft, setDraft] = useState("");
+
+  const startEditing = (bookmark: SavedArticle) => {
+    setEditingId(bookmark.articleId);
+    setDraft(bookmark.note ?? "");
+  };
+
+  const saveNote = (articleId: number) => {
+    saveMutation.mutate(
+      { articleId, note: draft },
+      { onSuccess: () => setEditingId(null) }
+    );
+  };
+
+  if (isLoading) return <LoadingSpinner />;
+  if (bookmarks.length === 0) {
+    return (
+      <div className="text-center py-4 text-muted-foreground">
+        Nothing saved yet. Use the bookmark icon on any story to read it later.
+      </div>
+    );
+  }
+
+  return (
+    <div className="divide-y">
+      {bookmarks.map((bookmark) =>
+        bookmark.article ? (
+          <div key={bookmark.articleId} className="py-3 space-y-2">
+            <div className="flex items-start justify-between gap-3">
+              <div className="min-w-0">
+                <Link
+                  href={createSlugUrl("/articles/", bookmark.article.slug ?? "", bookmark.article.id)}
+                  className="font-medium hover:underline"
+                >
+                  {bookmark.article.title}
+                </Link>
+                <p className="text-xs text-muted-foreground">
+                  {bookmark.article.channel?.name && `${bookmark.article.channel.name} · `}
+                  Saved {formatDate(bookmark.savedAt)}
+                </p>
+              </div>
+              <div className="flex shrink-0 gap-1">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  aria-label={bookmark.note ? "Edit note" : "Add note"}
+                  onClick={() => startEditing(bookmark)}
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  aria-label="Remove from saved articles"
+                  disabled={removeMutation.isPending}
+                  onClick={() => removeMutation.mutate(bookmark.articleId)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+
+            {editingId === bookmark.articleId ? (
+              <div className="space-y-2">
+                <Textarea
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  maxLength={NOTE_MAX_LENGTH}
+                  placeholder="A private note, only visible to you"
+                  rows={3}
+                  autoFocus
+                />
+                <div className="flex justify-end gap-2">
+                  <Button variant="outline" size="sm" onClick={() => setEditingId(null)}>
+                    Cancel
+                  </Button>
+                  <Button
+                    size="sm"
+                    disabled={saveMutation.isPending}
+                    onClick={() => saveNote(bookmark.articleId)}
+                  >
+                    Save note
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              bookmark.note && (
+                <p className="text-sm whitespace-pre-wrap rounded-md bg-muted p-2">
+                  {bookmark.note}
+                </p>
+              )
+            )}
+          </div>
+        ) : null
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,330 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Loader2, UserPlus, Users, X } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+// Keep in sync with CHANNEL_ROLES in server/channel-members.ts
+export type ChannelRole = "owner" | "editor" | "contributor";
+
+const ROLE_LABELS: Record<ChannelRole, string> = {
+  owner: "Owner",
+  editor: "Editor",
+  contributor: "Contributor",
+};
+
+const ROLE_HINTS: Record<ChannelRole, string> = {
+  owner: "Runs the channel",
+  editor: "Edits and publishes any article",
+  contributor: "Writes drafts for an editor to publish",
+};
+
+// Shape returned by GET /api/user/channel-memberships
+export interface ChannelMembership {
+  channelId: number;
+  role: ChannelRole;
+  pending: boolean;
+  invitedAt: string;
+  channel: { id: number; name: string; slug: string | null } | null;
+}
+
+// Shape returned by GET /api/channels/:id/members
+interface ChannelMember {
+  userId: number;
+  username: string | null;
+  role: ChannelRole;
+  invitedAt: string;
+  acceptedAt: string | null;
+  pending: boolean;
+}
+
+const MEMBERSHIPS_KEY = ["/api/user/channel-memberships"];
+
+function errorMessage(error: unknown, fallback: string) {
+  const body = String((error as Error)?.message || "").replace(/^\d+:\s*/, "");
+  try {
+    return JSON.parse(body).error || fallback;
+  } catch {
+    return body || fallback;
+  }
+}
+
+/** The signed-in user's channel memberships, including pending invitations */
+export function useChannelMemberships() {
+  const { user } = useAuth();
+  return useQuery<ChannelMembership[]>({
+    queryKey: MEMBERSHIPS_KEY,
+    enabled: !!user,
+  });
+}
+
+/** Accepted roles by channel id, for deciding what the user may do */
+export function useChannelRoles() {
+  const { data: memberships } = useChannelMemberships();
+  return new Map(
+    (memberships || [])
+      .filter((m) => !m.pending)
+      .map((m) => [m.channelId, m.role] as const)
+  );
+}
+
+function refreshMembership(channelId: number) {
+  queryClient.invalidateQueries({ queryKey: MEMBERSHIPS_KEY });
+  queryClient.invalidateQueries({ queryKey: [`/api/channels/${channelId}/members`] });
+  queryClient.invalidateQueries({ queryKey: ["/api/channels"] });
+}
+
+/** Accept / decline banner shown on a channel the user has been invited to */
+export function ChannelInviteBanner({ channelId }: { channelId: number }) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { data: memberships } = useChannelMemberships();
+  const invite = memberships?.find((m) => m.channelId === channelId && m.pending);
+
+  const respond = useMutation({
+    mutationFn: async (accept: boolean) => {
+      if (accept) {
+        await apiRequest("POST", `/api/channels/${channelId}/members/accept`);
+      } else {
+        await apiRequest("DELETE", `/api/channels/${channelId}/members/${user!.id}`);
+      }
+      return accept;
+    },
+    onSuccess: (accepted) => {
+      refreshMembership(channelId);
+      toast({
+        title: accepted ? "Invitation accepted" : "Invitation declined",
+        description: accepted
+          ? `You can now write for ${invite?.channel?.name || "this channel"}.`
+          : undefined,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: errorMessage(error, "Failed to answer the invitation"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!user || !invite) return null;
+
+  return (
+    <div className="mb-6 flex flex-wrap items-center justify-between gap-3 rounded-md border border-primary/30 bg-primary/5 p-4">
+      <p className="text-sm">
+        You've been invited to write for this channel as{" "}
+        <span className="font-medium">{ROLE_LABELS[invite.role].toLowerCase()}</span>.{" "}
+        <span className="text-muted-foreground">{ROLE_HINTS[invite.role]}.</span>
+      </p>
+      <div className="flex gap-2">
+        <Button size="sm" onClick={() => respond.mutate(true)} disabled={respond.isPending}>
+          {respond.isPending && respond.variables ? (
+            <Loader2 className="h-4 w-4 animate-spin mr-2" />
+          ) : null}
+          Accept
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => respond.mutate(false)}
+          disabled={respond.isPending}
+        >
+          Decline
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/** Owner-only dialog: invite people by username, change roles, remove members */
+export function ManageMembersDialog({ channelId }: { channelId: number }) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [username, setUsername] = useState("");
+  const [role, setRole] = useState<ChannelRole>("contributor");
+
+  const { data: members, isLoading } = useQuery<ChannelMember[]>({
+    queryKey: [`/api/channels/${channelId}/members`],
+    enabled: open,
+  });
+
+  const query = username.trim();
+  const { data: suggestions } = useQuery<{ id: number; username: string }[]>({
+    queryKey: [`/api/users/search?q=${encodeURIComponent(query)}`],
+    enabled: open && query.length >= 2,
+  });
+  const memberIds = new Set((members || []).map((m) => m.userId));
+  const openSuggestions = (suggestions || []).filter(
+    (u) => !memberIds.has(u.id) && u.username !== query
+  );
+
+  const onError = (fallback: string) => (error: unknown) =>
+    toast({ title: "Error", description: errorMessage(error, fallback), variant: "destructive" });
+
+  const invite = useMutation({
+    mutationFn: () =>
+      apiRequest("POST", `/api/channels/${channelId}/members`, { username: query, role }),
+    onSuccess: () => {
+      refreshMembership(channelId);
+      toast({ title: "Invitation sent", description: `${query} has been invited.` });
+      setUsername("");
+    },
+    onError: onError("Failed to send the invitation"),
+  });
+
+  const changeRole = useMutation({
+    mutationFn: ({ userId, role }: { userId: number; role: ChannelRole }) =>
+      apiRequest("PATCH", `/api/channels/${channelId}/members/${userId}`, { role }),
+    onSuccess: () => refreshMembership(channelId),
+    onError: onError("Failed to change the role"),
+  });
+
+  const remove = useMutation({
+    mutationFn: (userId: number) =>
+      apiRequest("DELETE", `/api/channels/${channelId}/members/${userId}`),
+    onSuccess: () => refreshMembership(channelId),
+    onError: onError("Failed to remove the member"),
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="w-full">
+          <Users className="h-4 w-4 mr-2" />
+          Manage Members
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Channel members</DialogTitle>
+          <DialogDescription>
+            Editors can edit and publish any article. Contributors write drafts
+            that an editor or you publish.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form
+          className="space-y-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (query) invite.mutate();
+          }}
+        >
+          <div className="flex gap-2">
+            <div className="relative flex-1">
+              <Input
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                placeholder="Username"
+                aria-label="Username to invite"
+                autoComplete="off"
+              />
+              {openSuggestions.length > 0 && (
+                <ul className="absolute z-10 mt-1 w-full rounded-md border bg-popover py-1 shadow-md">
+                  {openSuggestions.map((u) => (
+                    <li key={u.id}>
+                      <button
+                        type="button"
+                        className="w-full px-3 py-1.5 text-left text-sm hover:bg-accent"
+                        onClick={() => setUsername(u.username)}
+                      >
+                        {u.username}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+            <Select value={role} onValueChange={(value) => setRole(value as ChannelRole)}>
+              <SelectTrigger className="w-36" aria-label="Role">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="editor">Editor</SelectItem>
+                <SelectItem value="contributor">Contributor</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button type="submit" disabled={!query || invite.isPending}>
+              {invite.isPending ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <UserPlus className="h-4 w-4" />
+              )}
+              <span className="sr-only">Invite</span>
+            </Button>
+          </div>
+        </form>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <ul className="divide-y">
+            {(members || []).map((member) => (
+              <li key={member.userId} className="flex items-center justify-between gap-2 py-2">
+                <div className="min-w-0">
+                  <p className="truncate text-sm font-medium">
+                    {member.username || `User ${member.userId}`}
+                  </p>
+                  {member.pending && (
+                    <p className="text-xs text-muted-foreground">Invitation pending</p>
+                  )}
+                </div>
+                {member.role === "owner" ? (
+                  <span className="text-sm text-muted-foreground">Owner</span>
+                ) : (
+                  <div className="flex items-center gap-1">
+                    <Select
+                      value={member.role}
+                      onValueChange={(value) =>
+                        changeRole.mutate({ userId: member.userId, role: value as ChannelRole })
+                      }
+                    >
+                      <SelectTrigger className="h-8 w-32" aria-label={`Role of ${member.username}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="editor">Editor</SelectItem>
+                        <SelectItem value="contributor">Contributor</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => remove.mutate(member.userId)}
+                      disabled={remove.isPending}
+                      aria-label={member.pending ? "Withdraw invitation" : "Remove member"}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
@@ -7,56 +7,269 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { Form, FormControl, FormField, FormItem } from "@/components/ui/form";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/use-auth";
-import { Loader2, User } from "lucide-react";
+import {
+  ArrowBigDown,
+  ArrowBigUp,
+  Flag,
+  Link2,
+  Loader2,
+  MinusSquare,
+  PlusSquare,
+  User,
+} from "lucide-react";
 import {
   Tooltip,
   TooltipContent,
   TooltipProvider,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { z } from "zod";
 
-// Type for API response format
+// Type for API response format. Deleted comments come back with null content
+// and user; hidden ones with null content unless the viewer can moderate.
 interface CommentResponse {
   id: number;
-  content: string;
+  content: string | null;
   created_at: string;
+  edited_at: string | null;
   parent_id: number | null;
+  deleted: boolean;
+  hidden: boolean;
+  upvotes: number;
+  downvotes: number;
+  score: number;
+  user_vote: number; // the viewer's vote: 1, -1 or 0
   user: {
     id: number;
     username: string;
-  };
+  } | null;
 }
 
 interface CommentSectionProps {
   articleId: number;
   onCommentsLoaded?: (count: number) => void;
+  // Channel owner or admin: may hide and restore comments
+  canModerate?: boolean;
 }
 
+type CommentSort = "top" | "newest" | "oldest";
+
+const SORT_LABELS: Record<CommentSort, string> = {
+  top: "Top",
+  newest: "Newest",
+  oldest: "Oldest",
+};
+const SORT_STORAGE_KEY = "commentSort";
+
+// Replies keep nesting, but indentation stops here so deep threads stay readable
+const MAX_INDENT_DEPTH = 6;
+const HIGHLIGHT_MS = 3000;
+
+const FLAG_REASONS = [
+  { value: "spam", label: "Spam" },
+  { value: "harassment", label: "Harassment" },
+  { value: "off_topic", label: "Off topic" },
+  { value: "other", label: "Something else" },
+];
+
 // Define a simple schema for comment validation
 const commentSchema = z.object({
   content: z.string().min(1, "Comment cannot be empty"),
 });
 type CommentFormValues = z.infer<typeof commentSchema>;
 
+/** Anchor id for a comment, used by permalinks (#comment-123) */
+export function commentAnchor(commentId: number) {
+  return `comment-${commentId}`;
+}
+
+function compareComments(sort: CommentSort) {
+  const time = (c: CommentResponse) => new Date(c.created_at).getTime();
+  return (a: CommentResponse, b: CommentResponse) => {
+    if (sort === "newest") return time(b) - time(a);
+    if (sort === "top") return b.score - a.score || time(a) - time(b);
+    return time(a) - time(b);
+  };
+}
+
+// Format relative time (e.g., "5 minutes ago")
+function formatTimeAgo(dateString: string) {
+  const date = new Date(dateString);
+  const now = new Date();
+  const diffInSeconds = Math.floor((now.getTime() - date.getTime()) / 1000);
+
+  if (diffInSeconds < 60) {
+    return diffInSeconds <= 1 ? "just now" : `${diffInSeconds} seconds ago`;
+  }
+
+  const diffInMinutes = Math.floor(diffInSeconds / 60);
+  if (diffInMinutes < 60) {
+    return diffInMinutes === 1
+      ? "1 minute ago"
+      : `${diffInMinutes} minutes ago`;
+  }
+
+  const diffInHours = Math.floor(diffInMinutes / 60);
+  if (diffInHours < 24) {
+    return diffInHours === 1 ? "1 hour ago" : `${diffInHours} hours ago`;
+  }
+
+  const diffInDays = Math.floor(diffInHours / 24);
+  if (diffInDays < 7) {
+    return diffInDays === 1 ? "1 day ago" : `${diffInDays} days ago`;
+  }
+
+  const diffInWeeks = Math.floor(diffInDays / 7);
+  if (diffInWeeks < 4) {
+    return diffInWeeks === 1 ? "1 week ago" : `${diffInWeeks} weeks ago`;
+  }
+
+  const diffInMonths = Math.floor(diffInDays / 30);
+  if (diffInMonths < 12) {
+    return diffInMonths === 1
+      ? "1 month ago"
+      : `${diffInMonths} months ago`;
+  }
+
+  const diffInYears = Math.floor(diffInDays / 365);
+  return diffInYears === 1 ? "1 year ago" : `${diffInYears} years ago`;
+}
+
 export function CommentSection({
   articleId,
   onCommentsLoaded,
+  canModerate = false,
 }: CommentSectionProps) {
   const { user } = useAuth();
   const [replyToId, setReplyToId] = useState<number | null>(null);
+  const [replyContent, setReplyContent] = useState("");
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [editContent, setEditContent] = useState("");
+  const [collapsedIds, setCollapsedIds] = useState<Set<number>>(new Set());
+  const [highlightedId, setHighlightedId] = useState<number | null>(null);
+  const [sort, setSort] = useState<CommentSort>(() => {
+    const saved = localStorage.getItem(SORT_STORAGE_KEY);
+    return saved && saved in SORT_LABELS ? (saved as CommentSort) : "top";
+  });
 
   // Query for comments with the correct response type
   const { data: comments, isLoading } = useQuery<CommentResponse[]>({
     queryKey: [`/api/articles/${articleId}/comments`],
   });
 
+  // Removed comments only stay in the list to hold their replies in place
+  const visibleCount =
+    comments?.filter((c) => !c.deleted && !c.hidden).length || 0;
+
   // Send the comment count to the parent component when comments are loaded
   useEffect(() => {
     if (comments && onCommentsLoaded) {
-      onCommentsLoaded(comments.length);
+      onCommentsLoaded(visibleCount);
     }
-  }, [comments, onCommentsLoaded]);
+  }, [comments, visibleCount, onCommentsLoaded]);
+
+  // Replies grouped by parent, each group in the chosen order. Comments whose
+  // parent isn't in the list are treated as top level.
+  const { childrenOf, parentOf } = useMemo(() => {
+    const childrenOf = new Map<number | null, CommentResponse[]>();
+    const parentOf = new Map<number, number | null>();
+    const ids = new Set((comments || []).map((c) => c.id));
+    for (const comment of comments || []) {
+      const parentId =
+        comment.parent_id !== null && ids.has(comment.parent_id)
+          ? comment.parent_id
+          : null;
+      parentOf.set(comment.id, parentId);
+      if (!childrenOf.has(parentId)) childrenOf.set(parentId, []);
+      childrenOf.get(parentId)!.push(comment);
+    }
+    childrenOf.forEach((group) => group.sort(compareComments(sort)));
+    return { childrenOf, parentOf };
+  }, [comments, sort]);
+
+  const countReplies = (commentId: number): number =>
+    (childrenOf.get(commentId) || []).reduce(
+      (total, child) => total + 1 + countReplies(child.id),
+      0
+    );
+
+  // Permalinks: when the URL points at a comment, open its thread, scroll to
+  // it and highlight it briefly
+  useEffect(() => {
+    if (!comments) return;
+
+    const focusFromHash = () => {
+      const match = window.location.hash.match(/^#comment-(\d+)$/);
+      if (!match) return;
+      const targetId = parseInt(match[1], 10);
+      if (!parentOf.has(targetId)) return;
+
+      setCollapsedIds((current) => {
+        const next = new Set(current);
+        let ancestor = parentOf.get(targetId) ?? null;
+        while (ancestor !== null) {
+          next.delete(ancestor);
+          ancestor = parentOf.get(ancestor) ?? null;
+        }
+        return next;
+      });
+      setHighlightedId(targetId);
+      requestAnimationFrame(() => {
+        document
+          .getElementById(commentAnchor(targetId))
+          ?.scrollIntoView({ behavior: "smooth", block: "center" });
+      });
+    };
+
+    focusFromHash();
+    window.addEventListener("hashchange", focusFromHash);
+    return () => window.removeEventListener("hashchange", focusFromHash);
+  }, [comments, parentOf]);
+
+  useEffect(() => {
+    if (highlightedId === null) return;
+    const timer = setTimeout(() => setHighlightedId(null), HIGHLIGHT_MS);
+    return () => clearTimeout(timer);
+  }, [highlightedId]);
+
+  const changeSort = (value: CommentSort) => {
+    setSort(value);
+    localStorage.setItem(SORT_STORAGE_KEY, value);
+  };
+
+  const toggleCollapsed = (commentId: number) => {
+    setCollapsedIds((current) => {
+      const next = new Set(current);
+      if (next.has(commentId)) next.delete(commentId);
+      else next.add(commentId);
+      return next;
+    });
+  };
+
+  const copyPermalink = async (commentId: number) => {
+    const url = `${window.location.origin}${window.location.pathname}#${commentAnchor(commentId)}`;
+    window.history.replaceState(null, "", url);
+    setHighlightedId(commentId);
+    try {
+      await navigator.clipboard.writeText(url);
+    } catch {
+      // Clipboard access can be refused; the address bar has the link anyway
+    }
+  };
 
   const form = useForm<CommentFormValues>({
     resolver: zodResolver(commentSchema),
@@ -66,14 +279,14 @@ export function CommentSection({
   });
 
   const commentMutation = useMutation({
-    mutationFn: async (data: CommentFormValues) => {
+    mutationFn: async (data: { content: string; parent_id: number | null }) => {
       if (!user) {
         throw new Error("You must be logged in to post a comment");
       }
 
       console.log("Attempting to post comment:", {
         content: data.content,
-        parent_id: replyToId,
+        parent_id: data.parent_id,
         articleId: articleId,
       });
 
@@ -83,7 +296,7 @@ export function CommentSection({
           `/api/articles/${articleId}/comments`,
           {
             content: data.content,
-            parent_id: replyToId,
+            parent_id: data.parent_id,
           }
         );
 
@@ -101,7 +314,7 @@ export function CommentSection({
         throw err;
       }
     },
-    onSuccess: () => {
+    onSuccess: (_data, variables) => {
       queryClient.invalidateQueries({
         queryKey: [`/api/articles/${articleId}/comments`],
       });
@@ -109,8 +322,12 @@ export function CommentSection({
         queryKey: [`/api/articles/${articleId}`],
       });
       queryClient.invalidateQueries({ queryKey: [`/api/articles`] });
-      form.reset();
-      setReplyToId(null);
+      if (variables.parent_id === null) {
+        form.reset();
+      } else {
+        setReplyToId(null);
+        setReplyContent("");
+      }
     },
     onError: (error: Error) => {
       console.error("Error posting comment:", error);
@@ -119,6 +336,85 @@ export function CommentSection({
     },
   });
 
+  const invalidateComments = () => {
+    queryClient.invalidateQueries({
+      queryKey: [`/api/articles/${articleId}/comments`],
+    });
+    queryClient.invalidateQueries({
+      queryKey: [`/api/articles/${articleId}`],
+    });
+  };
+
+  const editMutation = useMutation({
+    mutationFn: async ({ id, content }: { id: number; content: string }) => {
+      const res = await apiRequest("PATCH", `/api/comments/${id}`, { content });
+      return await res.json();
+    },
+    onSuccess: () => {
+      invalidateComments();
+      setEditingId(null);
+    },
+    onError: (error: Error) => {
+      window.alert(error.message || "Failed to edit comment");
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/comments/${id}`);
+    },
+    onSuccess: invalidateComments,
+    onError: (error: Error) => {
+      window.alert(error.message || "Failed to delete comment");
+    },
+  });
+
+  const visibilityMutation = useMutation({
+    mutationFn: async ({ id, hidden }: { id: number; hidden: boolean }) => {
+      const res = await apiRequest("PUT", `/api/comments/${id}/visibility`, { hidden });
+      return await res.json();
+    },
+    onSuccess: invalidateComments,
+    onError: (error: Error) => {
+      window.alert(error.message || "Failed to update comment");
+    },
+  });
+
+  const flagMutation = useMutation({
+    mutationFn: async ({ id, reason }: { id: number; reason: string }) => {
+      const res = await apiRequest("POST", `/api/comments/${id}/flag`, { reason });
+      return await res.json();
+    },
+    onSuccess: (data: { message: string }) => {
+      window.alert(data.message);
+    },
+    onError: (error: Error) => {
+      window.alert(error.message || "Failed to flag comment");
+    },
+  });
+
+  // Votes update the cached thread in place so the list doesn't reorder
+  // under the reader's cursor; "Top" re-sorts on the next load
+  const voteMutation = useMutation({
+    mutationFn: async ({ id, value }: { id: number; value: number }) => {
+      const res = await apiRequest("POST", `/api/comments/${id}/vote`, { value });
+      return (await res.json()) as Pick<
+        CommentResponse,
+        "id" | "upvotes" | "downvotes" | "score" | "user_vote"
+      >;
+    },
+    onSuccess: (tally) => {
+      queryClient.setQueryData<CommentResponse[]>(
+        [`/api/articles/${articleId}/comments`],
+        (current) =>
+          current?.map((c) => (c.id === tally.id ? { ...c, ...tally } : c))
+      );
+    },
+    onError: (error: Error) => {
+      window.alert(error.message || "Failed to vote");
+    },
+  });
+
   // Helper function to handle form submission
   const handleSubmit = (data: CommentFormValues) => {
     // Check if user is authenticated
@@ -128,54 +424,55 @@ export function CommentSection({
     }
 
     // Submit the comment
-    commentMutation.mutate(data);
+    commentMutation.mutate({ content: data.content, parent_id: null });
   };
 
-  function CommentComponent({ comment }: { comment: CommentResponse }) {
-    const isReply = comment.parent_id !== null;
-
-    // Format relative time (e.g., "5 minutes ago")
-    function formatTimeAgo(dateString: string) {
-      const date = new Date(dateString);
-      const now = new Date();
-      const diffInSeconds = Math.floor((now.getTime() - date.getTime()) / 1000);
-
-      if (diffInSeconds < 60) {
-        return diffInSeconds <= 1 ? "just now" : `${diffInSeconds} seconds ago`;
-      }
-
-      const diffInMinutes = Math.floor(diffInSeconds / 60);
-      if (diffInMinutes < 60) {
-        return diffInMinutes === 1
-          ? "1 minute ago"
-          : `${diffInMinutes} minutes ago`;
-      }
-
-      const diffInHours = Math.floor(diffInMinutes / 60);
-      if (diffInHours < 24) {
-        return diffInHours === 1 ? "1 hour ago" : `${diffInHours} hours ago`;
-      }
-
-      const diffInDays = Math.floor(diffInHours / 24);
-      if (diffInDays < 7) {
-        return diffInDays === 1 ? "1 day ago" : `${diffInDays} days ago`;
-      }
-
-      const diffInWeeks = Math.floor(diffInDays / 7);
-      if (diffInWeeks < 4) {
-        return diffInWeeks === 1 ? "1 week ago" : `${diffInWeeks} weeks ago`;
-      }
+  function renderVoteButtons(comment: CommentResponse, isAuthor: boolean) {
+    const canVote = !!user && !isAuthor && !comment.hidden;
+    const vote = (value: number) =>
+      voteMutation.mutate({
+        id: comment.id,
+        value: comment.user_vote === value ? 0 : value,
+      });
 
-      const diffInMonths = Math.floor(diffInDays / 30);
-      if (diffInMonths < 12) {
-        return diffInMonths === 1
-          ? "1 month ago"
-          : `${diffInMonths} months ago`;
-      }
+    return (
+      <div className="flex items-center gap-0.5 text-muted-foreground">
+        <Button
+          variant="ghost"
+          size="icon"
+          className={`h-7 w-7 ${comment.user_vote === 1 ? "text-orange-600" : ""}`}
+          disabled={!canVote || voteMutation.isPending}
+          onClick={() => vote(1)}
+          aria-label="Upvote"
+          aria-pressed={comment.user_vote === 1}
+        >
+          <ArrowBigUp className="h-4 w-4" />
+        </Button>
+        <span className="min-w-[1.5rem] text-center text-xs font-medium tabular-nums">
+          {comment.score}
+        </span>
+        <Button
+          variant="ghost"
+          size="icon"
+          className={`h-7 w-7 ${comment.user_vote === -1 ? "text-blue-600" : ""}`}
+          disabled={!canVote || voteMutation.isPending}
+          onClick={() => vote(-1)}
+          aria-label="Downvote"
+          aria-pressed={comment.user_vote === -1}
+        >
+          <ArrowBigDown className="h-4 w-4" />
+        </Button>
+      </div>
+    );
+  }
 
-      const diffInYears = Math.floor(diffInDays / 365);
-      return diffInYears === 1 ? "1 year ago" : `${diffInYears} years ago`;
-    }
+  function renderComment(comment: CommentResponse, depth: number) {
+    const isReply = depth > 0;
+    const isAuthor = !!user && comment.user?.id === user.id;
+    const isRemoved = comment.deleted || (comment.hidden && comment.content === null);
+    const isEditing = editingId === comment.id;
+    const isCollapsed = collapsedIds.has(comment.id);
+    const replies = childrenOf.get(comment.id) || [];
 
     // Format absolute date (e.g., "Mar 15, 2023, 2:30 PM")
     const formattedDate = comment.created_at
@@ -184,44 +481,247 @@ export function CommentSection({
 
     return (
       <div
+        key={comment.id}
         className={`${
-          isReply ? "ml-8 mt-4" : "mt-6"
+          isReply ? (depth <= MAX_INDENT_DEPTH ? "ml-4 sm:ml-8 mt-4" : "mt-4") : "mt-6"
         } border-l-2 pl-4 border-slate-200 dark:border-slate-700`}
       >
-        <div className="flex items-start gap-4">
-          <div className="flex-1">
-            <div className="flex items-center gap-2 mb-1">
-              <div className="flex items-center text-sm font-medium">
-                <User className="h-4 w-4 mr-1 text-slate-400" />
-                {comment.user?.username || "Anonymous"}
-              </div>
-              <span className="text-sm text-muted-foreground">•</span>
+        <div
+          id={commentAnchor(comment.id)}
+          className={`scroll-mt-24 rounded-md transition-colors duration-700 ${
+            highlightedId === comment.id ? "bg-yellow-100 dark:bg-yellow-900/30" : ""
+          }`}
+        >
+          <div className="flex items-center gap-2 mb-1">
+            {replies.length > 0 && (
+              <button
+                type="button"
+                className="text-muted-foreground hover:text-foreground"
+                onClick={() => toggleCollapsed(comment.id)}
+                aria-label={isCollapsed ? "Expand thread" : "Collapse thread"}
+                aria-expanded={!isCollapsed}
+              >
+                {isCollapsed ? (
+                  <PlusSquare className="h-4 w-4" />
+                ) : (
+                  <MinusSquare className="h-4 w-4" />
+                )}
+              </button>
+            )}
+            <div className="flex items-center text-sm font-medium">
+              <User className="h-4 w-4 mr-1 text-slate-400" />
+              {comment.deleted ? "[deleted]" : comment.user?.username || "Anonymous"}
+            </div>
+            <span className="text-sm text-muted-foreground">•</span>
+            <TooltipProvider>
+              <Tooltip>
+                <TooltipTrigger className="cursor-default">
+                  <span className="text-sm text-muted-foreground">
+                    {formatTimeAgo(comment.created_at)}
+                  </span>
+                </TooltipTrigger>
+                <TooltipContent>
+                  <p>{formattedDate}</p>
+                </TooltipContent>
+              </Tooltip>
+            </TooltipProvider>
+            {comment.edited_at && !comment.deleted && (
               <TooltipProvider>
                 <Tooltip>
                   <TooltipTrigger className="cursor-default">
-                    <span className="text-sm text-muted-foreground">
-                      {formatTimeAgo(comment.created_at)}
-                    </span>
+                    <span className="text-xs text-muted-foreground">(edited)</span>
                   </TooltipTrigger>
                   <TooltipContent>
-                    <p>{formattedDate}</p>
+                    <p>Edited {new Date(comment.edited_at).toLocaleString()}</p>
                   </TooltipContent>
                 </Tooltip>
               </TooltipProvider>
-            </div>
-            <p className="text-sm">{comment.content}</p>
-            {user && !isReply && (
-              <Button
-                variant="link"
-                size="sm"
-                className="px-0 text-muted-foreground"
-                onClick={() => setReplyToId(comment.id)}
-              >
-                Reply
-              </Button>
+            )}
+            {comment.hidden && !isRemoved && (
+              <span className="text-xs rounded bg-muted px-1.5 py-0.5 text-muted-foreground">
+                Hidden from readers
+              </span>
             )}
           </div>
+
+          {isCollapsed ? (
+            <button
+              type="button"
+              className="text-xs text-muted-foreground hover:underline"
+              onClick={() => toggleCollapsed(comment.id)}
+            >
+              {countReplies(comment.id) === 1
+                ? "1 reply hidden"
+                : `${countReplies(comment.id)} replies hidden`}
+            </button>
+          ) : (
+            <>
+              {isEditing ? (
+                <div className="space-y-2">
+                  <Textarea
+                    value={editContent}
+                    onChange={(e) => setEditContent(e.target.value)}
+                    autoFocus
+                  />
+                  <div className="flex items-center gap-2">
+                    <Button
+                      size="sm"
+                      disabled={!editContent.trim() || editMutation.isPending}
+                      onClick={() =>
+                        editMutation.mutate({ id: comment.id, content: editContent })
+                      }
+                    >
+                      Save
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => setEditingId(null)}>
+                      Cancel
+                    </Button>
+                  </div>
+                </div>
+              ) : isRemoved ? (
+                <p className="text-sm italic text-muted-foreground">
+                  {comment.deleted
+                    ? "This comment was deleted."
+                    : "This comment was removed by a moderator."}
+                </p>
+              ) : (
+                <p className={`text-sm ${comment.hidden ? "text-muted-foreground" : ""}`}>
+                  {comment.content}
+                </p>
+              )}
+
+              {!isEditing && (
+                <div className="flex flex-wrap items-center gap-3">
+                  {!isRemoved && renderVoteButtons(comment, isAuthor)}
+                  {user && !isRemoved && !comment.hidden && (
+                    <Button
+                      variant="link"
+                      size="sm"
+                      className="px-0 text-muted-foreground"
+                      onClick={() => {
+                        setReplyToId(comment.id);
+                        setReplyContent("");
+                      }}
+                    >
+                      Reply
+                    </Button>
+                  )}
+                  {isAuthor && !isRemoved && !comment.hidden && (
+                    <Button
+                      variant="link"
+                      size="sm"
+                      className="px-0 text-muted-foreground"
+                      onClick={() => {
+                        setEditingId(comment.id);
+                        setEditContent(comment.content || "");
+                      }}
+                    >
+                      Edit
+                    </Button>
+                  )}
+                  {isAuthor && !isRemoved && (
+                    <Button
+                      variant="link"
+                      size="sm"
+                      className="px-0 text-muted-foreground"
+                      disabled={deleteMutation.isPending}
+                      onClick={() => {
+                        if (window.confirm("Delete this comment? Replies to it will stay.")) {
+                          deleteMutation.mutate(comment.id);
+                        }
+                      }}
+                    >
+                      Delete
+                    </Button>
+                  )}
+                  {canModerate && !isRemoved && (
+                    <Button
+                      variant="link"
+                      size="sm"
+                      className="px-0 text-muted-foreground"
+                      disabled={visibilityMutation.isPending}
+                      onClick={() =>
+                        visibilityMutation.mutate({ id: comment.id, hidden: !comment.hidden })
+                      }
+                    >
+                      {comment.hidden ? "Restore" : "Hide"}
+                    </Button>
+                  )}
+                  <Button
+                    variant="link"
+                    size="sm"
+                    className="px-0 text-muted-foreground"
+                    onClick={() => copyPermalink(comment.id)}
+                    aria-label="Copy link to comment"
+                  >
+                    <Link2 className="h-3.5 w-3.5" />
+                  </Button>
+                  {user && !isAuthor && !isRemoved && !comment.hidden && (
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button
+                          variant="link"
+                          size="sm"
+                          className="px-0 text-muted-foreground"
+                          aria-label="Flag comment"
+                        >
+                          <Flag className="h-3.5 w-3.5" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="start">
+                        <DropdownMenuLabel>Flag for moderators</DropdownMenuLabel>
+                        {FLAG_REASONS.map((reason) => (
+                          <DropdownMenuItem
+                            key={reason.value}
+                            onClick={() =>
+                              flagMutation.mutate({ id: comment.id, reason: reason.value })
+                            }
+                          >
+                            {reason.label}
+                          </DropdownMenuItem>
+                        ))}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  )}
+                </div>
+              )}
+
+              {replyToId === comment.id && (
+                <div className="mt-2 space-y-2">
+                  <Textarea
+                    placeholder={`Reply to ${comment.user?.username || "this comment"}...`}
+                    value={replyContent}
+                    onChange={(e) => setReplyContent(e.target.value)}
+                    autoFocus
+                  />
+                  <div className="flex items-center gap-2">
+                    <Button
+                      size="sm"
+                      disabled={!replyContent.trim() || commentMutation.isPending}
+                      onClick={() =>
+                        commentMutation.mutate({
+                          content: replyContent,
+                          parent_id: comment.id,
+                        })
+                      }
+                    >
+                      Post Reply
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setReplyToId(null)}
+                    >
+                      Cancel
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </>
+          )}
         </div>
+
+        {!isCollapsed && replies.map((reply) => renderComment(reply, depth + 1))}
       </div>
     );
   }
@@ -234,14 +734,29 @@ export function CommentSection({
     );
   }
 
-  const parentComments = comments?.filter((c) => !c.parent_id) || [];
-  const childComments = comments?.filter((c) => c.parent_id) || [];
+  const topLevelComments = childrenOf.get(null) || [];
 
   return (
     <div id="comments">
-      <h2 className="text-2xl font-semibold mb-6">
-        Comments ({comments?.length || 0})
-      </h2>
+      <div className="flex items-center justify-between gap-4 mb-6">
+        <h2 className="text-2xl font-semibold">
+          Comments ({visibleCount})
+        </h2>
+        {topLevelComments.length > 1 && (
+          <Select value={sort} onValueChange={(value) => changeSort(value as CommentSort)}>
+            <SelectTrigger className="w-32" aria-label="Sort comments">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(SORT_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
 
       {user && (
         <Form {...form}>
@@ -260,35 +775,15 @@ export function CommentSection({
                 </FormItem>
               )}
             />
-            <div className="flex items-center gap-4">
-              <Button type="submit" disabled={commentMutation.isPending}>
-                Post Comment
-              </Button>
-              {replyToId && (
-                <Button
-                  type="button"
-                  variant="ghost"
-                  onClick={() => setReplyToId(null)}
-                >
-                  Cancel Reply
-                </Button>
-              )}
-            </div>
+            <Button type="submit" disabled={commentMutation.isPending}>
+              Post Comment
+            </Button>
           </form>
         </Form>
       )}
 
       <div className="space-y-6">
-        {parentComments.map((comment) => (
-          <div key={comment.id}>
-            <CommentComponent comment={comment} />
-            {childComments
-              .filter((c) => c.parent_id === comment.id)
-              .map((reply) => (
-                <CommentComponent key={reply.id} comment={reply} />
-              ))}
-          </div>
-        ))}
+        {topLevelComments.map((comment) => renderComment(comment, 0))}
       </div>
     </div>
   );
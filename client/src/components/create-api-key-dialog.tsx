@@ -0,0 +1,173 @@
+import React from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Channel } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest } from "@/lib/queryClient";
+import { useChannelRoles } from "@/components/channel-members";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+
+// Keep in sync with API_KEY_SCOPES in server/api-auth.ts
+const API_KEY_SCOPES = [
+  { value: "articles:write", label: "Create articles" },
+  { value: "articles:read", label: "Read your articles" },
+  { value: "channels:read", label: "List your channels" },
+  { value: "images:write", label: "Attach images to articles" },
+];
+
+export function CreateApiKeyDialog({ onCreated }: { onCreated: (key: string) => void }) {
+  const { user } = useAuth();
+  const channelRoles = useChannelRoles();
+  const [open, setOpen] = React.useState(false);
+  const [name, setName] = React.useState("");
+  const [scopes, setScopes] = React.useState(API_KEY_SCOPES.map((s) => s.value));
+  const [restrictChannels, setRestrictChannels] = React.useState(false);
+  const [channelIds, setChannelIds] = React.useState<number[]>([]);
+  const [loading, setLoading] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const { data: channels } = useQuery<Channel[]>({
+    queryKey: ["/api/channels"],
+    // Channels the user owns or edits; keys can't be scoped to others
+    select: (all) =>
+      all?.filter((c) => c.userId === user?.id || channelRoles.get(c.id) === "editor") || [],
+    enabled: open && !!user,
+  });
+
+  const toggle = <T,>(list: T[], value: T, checked: boolean) =>
+    checked ? [...list, value] : list.filter((v) => v !== value);
+
+  function reset() {
+    setName("");
+    setScopes(API_KEY_SCOPES.map((s) => s.value));
+    setRestrictChannels(false);
+    setChannelIds([]);
+    setError(null);
+  }
+
+  async function createKey() {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await apiRequest("POST", "/api/v1/api-keys", {
+        name: name.trim(),
+        scopes,
+        channelIds: restrictChannels ? channelIds : null,
+      });
+      const data = await res.json();
+      onCreated(data.key);
+      reset();
+      setOpen(false);
+    } catch (e: any) {
+      const body = String(e.message || "").replace(/^\d+:\s*/, "");
+      try {
+        setError(JSON.parse(body).error);
+      } catch {
+        setError(body || "Failed to create API key");
+      }
+    }
+    setLoading(false);
+  }
+
+  const canSubmit =
+    !!name.trim() && scopes.length > 0 && (!restrictChannels || channelIds.length > 0);
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (!next) reset();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button size="sm">Generate Key</Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Generate API Key</DialogTitle>
+          <DialogDescription>
+            Give the key only the access your integration needs.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="space-y-2">
+            <Label htmlFor="api-key-name">Name</Label>
+            <input
+              id="api-key-name"
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Key name (e.g. Claude Cowork)"
+              className="w-full px-3 py-2 border rounded-md bg-background text-sm"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Permissions</Label>
+            {API_KEY_SCOPES.map((scope) => (
+              <label key={scope.value} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={scopes.includes(scope.value)}
+                  onCheckedChange={(checked) =>
+                    setScopes(toggle(scopes, scope.value, checked === true))
+                  }
+                />
+                {scope.label}
+                <code className="text-xs text-muted-foreground">{scope.value}</code>
+              </label>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <label className="flex items-center gap-2 text-sm font-medium">
+              <Checkbox
+                checked={restrictChannels}
+                onCheckedChange={(checked) => setRestrictChannels(checked === true)}
+              />
+              Only these channels
+            </label>
+            {restrictChannels && (
+              <div className="pl-6 space-y-1 max-h-40 overflow-y-auto">
+                {!channels || channels.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">You don't have any channels yet.</p>
+                ) : (
+                  channels.map((channel) => (
+                    <label key={channel.id} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={channelIds.includes(channel.id)}
+                        onCheckedChange={(checked) =>
+                          setChannelIds(toggle(channelIds, channel.id, checked === true))
+                        }
+                      />
+                      {channel.name}
+                    </label>
+                  ))
+                )}
+              </div>
+            )}
+          </div>
+
+          {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button onClick={createKey} disabled={loading || !canSubmit}>
+            {loading ? "Creating..." : "Generate Key"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
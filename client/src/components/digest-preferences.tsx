@@ -0,0 +1,85 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Mail } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface DigestPreferences {
+  frequency: "off" | "daily" | "weekly";
+  lastSentAt: string | null;
+}
+
+const FREQUENCY_LABELS: Record<DigestPreferences["frequency"], string> = {
+  off: "Off",
+  daily: "Daily",
+  weekly: "Weekly",
+};
+
+/** Email digest setting for the current user's channel subscriptions */
+export function DigestPreferencesControl() {
+  const { toast } = useToast();
+  const { data: preferences, isLoading } = useQuery<DigestPreferences>({
+    queryKey: ["/api/digest-preferences"],
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (frequency: DigestPreferences["frequency"]) => {
+      const res = await apiRequest("PUT", "/api/digest-preferences", { frequency });
+      return (await res.json()) as DigestPreferences;
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(["/api/digest-preferences"], data);
+      toast({
+        title: "Email digest updated",
+        description:
+          data.frequency === "off"
+            ? "You won't get digest emails."
+            : `You'll get a ${data.frequency} email with new stories from your channels.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Update failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="flex flex-col sm:flex-row sm:items-center gap-3 rounded-md border p-3 mb-4">
+      <div className="flex items-start gap-2 flex-1">
+        <Mail className="h-4 w-4 mt-0.5 text-muted-foreground" />
+        <div>
+          <Label htmlFor="digest-frequency">Email digest</Label>
+          <p className="text-xs text-muted-foreground">
+            New stories from the channels you subscribe to, with their summaries.
+          </p>
+        </div>
+      </div>
+      <Select
+        value={preferences?.frequency}
+        onValueChange={(value) => updateMutation.mutate(value as DigestPreferences["frequency"])}
+        disabled={isLoading || updateMutation.isPending}
+      >
+        <SelectTrigger id="digest-frequency" className="w-full sm:w-32">
+          <SelectValue placeholder="Off" />
+        </SelectTrigger>
+        <SelectContent>
+          {Object.entries(FREQUENCY_LABELS).map(([value, label]) => (
+            <SelectItem key={value} value={value}>
+              {label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
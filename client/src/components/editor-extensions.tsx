@@ -8,15 +8,21 @@
  *   - <div class="article-gallery" data-gallery>          (image gallery)
  *   - <div class="video-embed"><iframe>                   (YouTube/Vimeo)
  *   - <div class="article-chart" data-chart="{json}">     (chart block)
+ *   - <div class="article-map" data-map="{json}">         (map block)
  *   - <aside class="callout callout-X" data-callout>      (callout box)
  *   - <figure class="pull-quote"><blockquote><figcaption> (pull quote)
  *   - <aside class="callout callout-stat">                 (big stat)
- * Editing an API-authored article round-trips losslessly.
+ *   - <div class="article-timeline" data-timeline><ol>     (timeline)
+ *   - <sup class="footnote-ref"><a data-footnote-ref>     (footnote reference)
+ *   - <section class="footnotes" data-footnotes>           (footnote list)
+ * Editing an API-authored article round-trips losslessly. The footnote list
+ * is kept as-is rather than edited in place.
  */
 
 import { Node, mergeAttributes } from "@tiptap/core";
-import { ReactNodeViewRenderer, NodeViewWrapper } from "@tiptap/react";
+import { ReactNodeViewRenderer, NodeViewWrapper, NodeViewContent } from "@tiptap/react";
 import { ArticleChart, type ChartSpec } from "@/components/article-chart";
+import { ArticleMap, type MapSpec } from "@/components/article-map";
 
 /* ---------------------------------- Figure --------------------------------- */
 
@@ -190,6 +196,56 @@ export const ArticleChartNode = Node.create({
   },
 });
 
+/* ----------------------------------- Map ----------------------------------- */
+
+function MapNodeView({ node }: { node: { attrs: { spec: string } } }) {
+  let spec: MapSpec | null = null;
+  try {
+    spec = JSON.parse(node.attrs.spec);
+  } catch {
+    /* invalid spec */
+  }
+  return (
+    <NodeViewWrapper className="article-map" data-drag-handle>
+      {spec ? (
+        <ArticleMap spec={spec} />
+      ) : (
+        <div className="p-4 text-sm text-muted-foreground">Invalid map data</div>
+      )}
+    </NodeViewWrapper>
+  );
+}
+
+export const ArticleMapNode = Node.create({
+  name: "articleMap",
+  group: "block",
+  atom: true,
+  draggable: true,
+
+  addAttributes() {
+    return { spec: { default: "{}" } };
+  },
+
+  parseHTML() {
+    return [
+      {
+        tag: "div.article-map",
+        getAttrs: (el) => ({
+          spec: (el as HTMLElement).getAttribute("data-map") || "{}",
+        }),
+      },
+    ];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ["div", { class: "article-map", "data-map": HTMLAttributes.spec }];
+  },
+
+  addNodeView() {
+    return ReactNodeViewRenderer(MapNodeView as any);
+  },
+});
+
 /* --------------------------------- Callout --------------------------------- */
 
 export const CALLOUT_TYPES = [
@@ -198,6 +254,7 @@ export const CALLOUT_TYPES = [
   { value: "context", label: "Context" },
   { value: "tip", label: "Worth knowing" },
   { value: "warning", label: "Caution" },
+  { value: "sources", label: "Sources" },
 ] as const;
 
 const CALLOUT_DEFAULT_TITLES: Record<string, string> = {
@@ -208,6 +265,7 @@ const CALLOUT_DEFAULT_TITLES: Record<string, string> = {
   note: "Note",
   important: "Important",
   warning: "Caution",
+  sources: "Sources",
 };
 
 export const Callout = Node.create({
@@ -253,6 +311,112 @@ export const Callout = Node.create({
   },
 });
 
+/* --------------------------------- Timeline --------------------------------- */
+
+// Same rule as the markdown converter: only ISO dates get a datetime
+const ISO_DATE = /^\d{4}(?:-\d{2}(?:-\d{2}(?:[ T]\d{2}:\d{2})?)?)?$/;
+
+function TimelineEntryView({
+  node,
+  updateAttributes,
+}: {
+  node: { attrs: { date: string } };
+  updateAttributes: (attrs: Record<string, unknown>) => void;
+}) {
+  return (
+    <NodeViewWrapper as="li">
+      <input
+        className="timeline-date w-full bg-transparent outline-none"
+        value={node.attrs.date}
+        placeholder="Date"
+        aria-label="Timeline date"
+        onChange={(e) => updateAttributes({ date: e.target.value })}
+      />
+      <NodeViewContent className="timeline-text" />
+    </NodeViewWrapper>
+  );
+}
+
+export const TimelineEntry = Node.create({
+  name: "timelineEntry",
+  content: "inline*",
+  defining: true,
+
+  addAttributes() {
+    return { date: { default: "" } };
+  },
+
+  parseHTML() {
+    return [
+      {
+        tag: "li",
+        context: "articleTimeline/",
+        priority: 60,
+        contentElement: ".timeline-text",
+        getAttrs: (el) => ({
+          date:
+            (el as HTMLElement).querySelector(".timeline-date")?.textContent?.trim() || "",
+        }),
+      },
+    ];
+  },
+
+  renderHTML({ node }) {
+    const date = String(node.attrs.date || "");
+    return [
+      "li",
+      {},
+      [
+        "time",
+        {
+          class: "timeline-date",
+          datetime: ISO_DATE.test(date) ? date.replace(" ", "T") : null,
+        },
+        date,
+      ],
+      ["div", { class: "timeline-text" }, 0],
+    ];
+  },
+
+  addNodeView() {
+    return ReactNodeViewRenderer(TimelineEntryView as any);
+  },
+});
+
+export const ArticleTimeline = Node.create({
+  name: "articleTimeline",
+  group: "block",
+  content: "timelineEntry+",
+  defining: true,
+
+  addAttributes() {
+    return { title: { default: null } };
+  },
+
+  parseHTML() {
+    return [
+      {
+        tag: "div.article-timeline",
+        contentElement: "ol",
+        getAttrs: (el) => ({
+          title:
+            (el as HTMLElement).querySelector(".timeline-title")?.textContent ||
+            null,
+        }),
+      },
+    ];
+  },
+
+  renderHTML({ node }) {
+    return [
+      "div",
+      { class: "article-timeline", "data-timeline": "" },
+      ["div", { class: "timeline-title" }, node.attrs.title || "Timeline"],
+      ["ol", {}, 0],
+    ];
+  },
+});
+
 /* -------------------------------- Pull quote -------------------------------- */
 
 export const PullQuote = Node.create({
@@ -353,3 +517,73 @@ export const StatCallout = Node.create({
     return ReactNodeViewRenderer(StatNodeView as any);
   },
 });
+
+/* --------------------------------- Footnotes -------------------------------- */
+
+export const FootnoteRef = Node.create({
+  name: "footnoteRef",
+  group: "inline",
+  inline: true,
+  atom: true,
+
+  addAttributes() {
+    return {
+      number: { default: "1" },
+      refId: { default: null },
+    };
+  },
+
+  parseHTML() {
+    return [
+      {
+        tag: "sup.footnote-ref",
+        getAttrs: (el) => {
+          const link = (el as HTMLElement).querySelector("a[data-footnote-ref]");
+          if (!link) return false;
+          return { number: link.textContent?.trim() || "1", refId: link.id || null };
+        },
+      },
+    ];
+  },
+
+  renderHTML({ node }) {
+    const n = node.attrs.number;
+    return [
+      "sup",
+      { class: "footnote-ref" },
+      [
+        "a",
+        { href: `#fn-${n}`, id: node.attrs.refId || `fnref-${n}`, "data-footnote-ref": "" },
+        n,
+      ],
+    ];
+  },
+});
+
+export const Footnotes = Node.create({
+  name: "footnotes",
+  group: "block",
+  atom: true,
+
+  addAttributes() {
+    return { html: { default: "" } };
+  },
+
+  parseHTML() {
+    return [
+      {
+        tag: "section[data-footnotes]",
+        getAttrs: (el) => ({ html: (el as HTMLElement).innerHTML }),
+      },
+    ];
+  },
+
+  renderHTML({ node }) {
+    const section = document.createElement("section");
+    section.className = "footnotes";
+    section.setAttribute("data-footnotes", "");
+    section.setAttribute("aria-label", "Notes");
+    section.innerHTML = node.attrs.html;
+    return { dom: section };
+  },
+});
@@ -0,0 +1,375 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { ArrowUp, Loader2, Pin, PinOff, Radio, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatDate, formatTimeAgo } from "@/lib/date-utils";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RichArticleContent } from "@/components/rich-article-content";
+import { RichTextEditor } from "@/components/rich-text-editor";
+
+// Keep in sync with LIVE_STATUSES in server/live-blog.ts
+export type LiveStatus = "live" | "ended";
+
+// Shape returned by GET /api/articles/:id/updates
+interface LiveUpdate {
+  id: number;
+  articleId: number;
+  title: string | null;
+  content: string;
+  pinned: boolean;
+  createdAt: string;
+  updatedAt: string | null;
+  author: { id: number; username: string } | null;
+}
+
+interface LiveUpdatesResponse {
+  liveStatus: LiveStatus | null;
+  updates: LiveUpdate[];
+}
+
+// How often readers check for new entries while coverage is running
+const POLL_INTERVAL = 20_000;
+// How long a newly arrived entry stays highlighted
+const FRESH_HIGHLIGHT_MS = 6_000;
+
+function errorMessage(error: unknown, fallback: string) {
+  const body = String((error as Error)?.message || "").replace(/^\d+:\s*/, "");
+  try {
+    return JSON.parse(body).error || fallback;
+  } catch {
+    return body || fallback;
+  }
+}
+
+// The editor leaves "<p></p>" behind when emptied
+function hasEntryContent(html: string) {
+  return /<(img|figure|iframe|div)\b/i.test(html) || html.replace(/<[^>]+>/g, "").trim() !== "";
+}
+
+// Today's entries show the time of day; older ones the full date
+function entryTime(date: string) {
+  const d = new Date(date);
+  return d.toDateString() === new Date().toDateString()
+    ? d.toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit" })
+    : formatDate(d, true);
+}
+
+/** Red "Live" marker while coverage runs, a muted one once it has ended */
+export function LiveBadge({ status }: { status: LiveStatus }) {
+  return status === "live" ? (
+    <span className="inline-flex items-center gap-1.5 rounded-full bg-red-600 px-2.5 py-0.5 text-xs font-bold uppercase tracking-wider text-white">
+      <span className="relative flex h-2 w-2">
+        <span className="absolute inline-flex h-full w-full animate-ping rounded-full bg-white opacity-75" />
+        <span className="relative inline-flex h-2 w-2 rounded-full bg-white" />
+      </span>
+      Live
+    </span>
+  ) : (
+    <span className="inline-flex items-center gap-1.5 rounded-full bg-muted px-2.5 py-0.5 text-xs font-bold uppercase tracking-wider text-muted-foreground">
+      <Radio className="h-3 w-3" />
+      Coverage ended
+    </span>
+  );
+}
+
+/**
+ * The stream of a live blog, shown under the article body: pinned entries
+ * first, then newest first. Polls for new entries while coverage is live and
+ * highlights them as they arrive. People who may post get a composer and
+ * pin / delete / end-coverage controls.
+ */
+export function LiveBlogStream({
+  articleId,
+  canPost,
+  onStatusChange,
+}: {
+  articleId: number;
+  canPost: boolean;
+  onStatusChange?: () => void;
+}) {
+  const { toast } = useToast();
+  const queryKey = [`/api/articles/${articleId}/updates`];
+  const streamRef = useRef<HTMLElement>(null);
+  const seenRef = useRef<Set<number> | null>(null);
+  const scrolledToHash = useRef(false);
+  const [freshIds, setFreshIds] = useState<Set<number>>(new Set());
+  const [unseenCount, setUnseenCount] = useState(0);
+
+  const [title, setTitle] = useState("");
+  const [content, setContent] = useState("");
+  const [pinned, setPinned] = useState(false);
+  // Remounts the editor, which doesn't follow its content prop
+  const [composerKey, setComposerKey] = useState(0);
+
+  const { data, isLoading } = useQuery<LiveUpdatesResponse>({
+    queryKey,
+    refetchInterval: (query) =>
+      query.state.data?.liveStatus === "live" ? POLL_INTERVAL : false,
+  });
+  const status = data?.liveStatus ?? null;
+  const updates = data?.updates || [];
+
+  // Highlight entries that arrived since the last poll; count them when the
+  // reader has scrolled past the top of the stream
+  useEffect(() => {
+    if (!data) return;
+    const ids = data.updates.map((u) => u.id);
+    const seen = seenRef.current;
+    seenRef.current = new Set(ids);
+    if (!seen) return;
+    const added = ids.filter((id) => !seen.has(id));
+    if (added.length === 0) return;
+
+    setFreshIds(new Set(added));
+    if ((streamRef.current?.getBoundingClientRect().top ?? 0) < 0) {
+      setUnseenCount((count) => count + added.length);
+    }
+  }, [data]);
+
+  useEffect(() => {
+    if (freshIds.size === 0) return;
+    const timer = setTimeout(() => setFreshIds(new Set()), FRESH_HIGHLIGHT_MS);
+    return () => clearTimeout(timer);
+  }, [freshIds]);
+
+  // Links from the feed point at #update-<id>
+  useEffect(() => {
+    if (!data || scrolledToHash.current) return;
+    scrolledToHash.current = true;
+    const match = window.location.hash.match(/^#update-(\d+)$/);
+    if (match) {
+      document.getElementById(`update-${match[1]}`)?.scrollIntoView({ block: "start" });
+    }
+  }, [data]);
+
+  // The new-updates pill goes away once the reader is back at the top
+  useEffect(() => {
+    if (unseenCount === 0) return;
+    const onScroll = () => {
+      if ((streamRef.current?.getBoundingClientRect().top ?? 0) >= -40) setUnseenCount(0);
+    };
+    window.addEventListener("scroll", onScroll, { passive: true });
+    return () => window.removeEventListener("scroll", onScroll);
+  }, [unseenCount]);
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey });
+  const onError = (fallback: string) => (error: unknown) =>
+    toast({ title: "Error", description: errorMessage(error, fallback), variant: "destructive" });
+
+  const post = useMutation({
+    mutationFn: () =>
+      apiRequest("POST", `/api/articles/${articleId}/updates`, {
+        title: title.trim() || null,
+        content,
+        contentFormat: "html",
+        pinned,
+      }),
+    onSuccess: () => {
+      setTitle("");
+      setContent("");
+      setPinned(false);
+      setComposerKey((key) => key + 1);
+      refresh();
+    },
+    onError: onError("Failed to post the update"),
+  });
+
+  const togglePin = useMutation({
+    mutationFn: (update: LiveUpdate) =>
+      apiRequest("PATCH", `/api/articles/${articleId}/updates/${update.id}`, {
+        pinned: !update.pinned,
+      }),
+    onSuccess: refresh,
+    onError: onError("Failed to change the pin"),
+  });
+
+  const remove = useMutation({
+    mutationFn: (updateId: number) =>
+      apiRequest("DELETE", `/api/articles/${articleId}/updates/${updateId}`),
+    onSuccess: refresh,
+    onError: onError("Failed to delete the update"),
+  });
+
+  const setLiveStatus = useMutation({
+    mutationFn: (liveStatus: LiveStatus) =>
+      apiRequest("PATCH", `/api/articles/${articleId}`, { liveStatus }),
+    onSuccess: (_, liveStatus) => {
+      refresh();
+      onStatusChange?.();
+      toast({
+        title: liveStatus === "live" ? "Coverage resumed" : "Coverage ended",
+        description:
+          liveStatus === "live"
+            ? "Readers see new updates as you post them."
+            : "The updates stay on the page.",
+      });
+    },
+    onError: onError("Failed to change the live status"),
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+  if (!status) return null;
+
+  return (
+    <section ref={streamRef} className="my-8" aria-label="Live updates">
+      <header className="mb-4 flex flex-wrap items-center justify-between gap-3 border-b pb-3">
+        <div className="flex items-center gap-2">
+          <LiveBadge status={status} />
+          <h2 className="text-lg font-semibold">Live updates</h2>
+          <span className="text-sm text-muted-foreground">
+            {updates.length} {updates.length === 1 ? "update" : "updates"}
+          </span>
+        </div>
+        {canPost && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setLiveStatus.mutate(status === "live" ? "ended" : "live")}
+            disabled={setLiveStatus.isPending}
+          >
+            {setLiveStatus.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+            {status === "live" ? "End coverage" : "Resume coverage"}
+          </Button>
+        )}
+      </header>
+
+      {canPost && status === "live" && (
+        <form
+          className="mb-6 space-y-3 rounded-md border p-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (hasEntryContent(content)) post.mutate();
+          }}
+        >
+          <Input
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            placeholder="Headline (optional)"
+            aria-label="Update headline"
+            maxLength={200}
+          />
+          <RichTextEditor key={composerKey} content="" onChange={setContent} compact />
+          <div className="flex items-center justify-between gap-3">
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id={`live-pin-${articleId}`}
+                checked={pinned}
+                onCheckedChange={(checked) => setPinned(checked === true)}
+              />
+              <Label htmlFor={`live-pin-${articleId}`}>Pin to top</Label>
+            </div>
+            <Button type="submit" disabled={!hasEntryContent(content) || post.isPending}>
+              {post.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+              Post update
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {updates.length === 0 ? (
+        <p className="py-6 text-center text-sm text-muted-foreground">
+          {status === "live" ? "Updates will appear here as the story develops." : "No updates were posted."}
+        </p>
+      ) : (
+        <ol className="space-y-4">
+          {updates.map((update) => (
+            <li
+              key={update.id}
+              id={`update-${update.id}`}
+              className={cn(
+                "scroll-mt-20 rounded-md border-l-4 border-border py-2 pl-4 pr-2 transition-colors duration-1000",
+                update.pinned && "border-primary bg-primary/5",
+                freshIds.has(update.id) && "border-red-600 bg-red-500/10"
+              )}
+            >
+              <div className="mb-1 flex flex-wrap items-center gap-x-2 gap-y-1 text-sm">
+                <a
+                  href={`#update-${update.id}`}
+                  className="font-semibold text-foreground hover:underline"
+                  title={formatDate(update.createdAt, true)}
+                >
+                  <time dateTime={update.createdAt}>{entryTime(update.createdAt)}</time>
+                </a>
+                <span className="text-muted-foreground">{formatTimeAgo(update.createdAt)}</span>
+                {update.author && (
+                  <Link
+                    href={`/users/${update.author.username}`}
+                    className="text-muted-foreground hover:underline"
+                  >
+                    {update.author.username}
+                  </Link>
+                )}
+                {update.pinned && (
+                  <span className="inline-flex items-center gap-1 text-xs font-medium text-primary">
+                    <Pin className="h-3 w-3" />
+                    Pinned
+                  </span>
+                )}
+                {update.updatedAt && (
+                  <span className="text-xs text-muted-foreground">(edited)</span>
+                )}
+                {canPost && (
+                  <div className="ml-auto flex items-center gap-1">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={() => togglePin.mutate(update)}
+                      disabled={togglePin.isPending}
+                      aria-label={update.pinned ? "Unpin update" : "Pin update"}
+                    >
+                      {update.pinned ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={() => {
+                        if (window.confirm("Delete this update?")) remove.mutate(update.id);
+                      }}
+                      disabled={remove.isPending}
+                      aria-label="Delete update"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+              {update.title && <h3 className="mb-1 text-lg font-semibold">{update.title}</h3>}
+              <RichArticleContent
+                className="article-body prose dark:prose-invert max-w-none"
+                html={update.content}
+              />
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {unseenCount > 0 && (
+        <button
+          type="button"
+          className="fixed bottom-6 left-1/2 z-40 flex -translate-x-1/2 items-center gap-1.5 rounded-full bg-red-600 px-4 py-2 text-sm font-medium text-white shadow-lg hover:bg-red-700"
+          onClick={() => {
+            streamRef.current?.scrollIntoView({ behavior: "smooth", block: "start" });
+            setUnseenCount(0);
+          }}
+        >
+          <ArrowUp className="h-4 w-4" />
+          {unseenCount} new {unseenCount === 1 ? "update" : "updates"}
+        </button>
+      )}
+    </section>
+  );
+}
@@ -17,6 +17,7 @@ import {
   Menu,
   Users,
   ChevronRight,
+  Search,
 } from "lucide-react";
 import { useQuery } from "@tanstack/react-query";
 import { Channel } from "@shared/schema";
@@ -24,6 +25,7 @@ import { useEffect, useState, useMemo } from "react";
 import { useSelectedChannel } from "@/hooks/use-selected-channel";
 import { ThemeToggle } from "@/components/theme-toggle";
 import { ImageToggle } from "@/components/image-toggle";
+import { NotificationBell } from "@/components/notification-bell";
 import {
   Sheet,
   SheetContent,
@@ -37,6 +39,35 @@ import {
   CollapsibleTrigger,
 } from "@/components/ui/collapsible";
 import { createSlugUrl } from "@/lib/slug-utils";
+import { Input } from "@/components/ui/input";
+import { useChannelRoles } from "@/components/channel-members";
+
+// Site search box — submits to the /search results page
+function NavSearch({ className = "" }: { className?: string }) {
+  const [, setLocation] = useLocation();
+  const [query, setQuery] = useState("");
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const q = query.trim();
+    if (!q) return;
+    setLocation(`/search?q=${encodeURIComponent(q)}`);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} role="search" className={`relative ${className}`}>
+      <Search className="absolute left-2.5 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+      <Input
+        type="search"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Search"
+        aria-label="Search articles, channels and categories"
+        className="h-9 pl-8"
+      />
+    </form>
+  );
+}
 
 // Define type for the debug endpoint response
 interface DebugChannelsResponse {
@@ -84,12 +115,14 @@ export function NavigationBar({
     undefined
   );
 
-  // Fetch user's owned channels if the user is logged in
+  // Fetch the channels the user owns or writes for if the user is logged in
+  const channelRoles = useChannelRoles();
   const { data: userChannels, isLoading: isUserChannelsLoading } = useQuery<
     Channel[]
   >({
     queryKey: ["/api/channels", user?.id],
-    select: (channels) => channels?.filter((c) => c.userId === user?.id) || [],
+    select: (channels) =>
+      channels?.filter((c) => c.userId === user?.id || channelRoles.has(c.id)) || [],
     enabled: !!user,
   });
 
@@ -223,6 +256,7 @@ export function NavigationBar({
                 <SheetTitle>Menu</SheetTitle>
               </SheetHeader>
               <div className="py-4">
+                <NavSearch className="mb-4" />
                 <div className="pb-4">
                   <Link href="/" className="flex items-center gap-2 py-2">
                     <Newspaper className="h-5 w-5" />
@@ -390,6 +424,8 @@ export function NavigationBar({
         </div>
 
         <div className="flex items-center gap-4">
+          <NavSearch className="hidden lg:block w-56" />
+
           {/* Show channel info if user is logged in and has created at least one channel */}
           {user && displayedChannel && (
             <DropdownMenu>
@@ -438,6 +474,7 @@ export function NavigationBar({
                   <div className="flex items-center gap-2">
                     <ThemeToggle />
                     <ImageToggle />
+                    <NotificationBell />
                     <DropdownMenu>
                       <DropdownMenuTrigger asChild>
                         <Button
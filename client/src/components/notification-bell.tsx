@@ -0,0 +1,191 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Bell, MessageSquare, Newspaper, ThumbsUp, ThumbsDown, UserPlus } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { useLocation } from "wouter";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { createSlugUrl } from "@/lib/slug-utils";
+import { commentAnchor } from "@/components/comment-section";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+
+interface AppNotification {
+  id: number;
+  type: "comment_reply" | "article_published" | "article_reaction" | "channel_invite";
+  actor: { id: number; username: string } | null;
+  articleId: number | null;
+  commentId: number | null;
+  channelId: number | null;
+  data: {
+    articleTitle?: string | null;
+    articleSlug?: string | null;
+    channelName?: string | null;
+    excerpt?: string;
+    isLike?: boolean;
+    role?: string;
+  };
+  readAt: string | null;
+  createdAt: string;
+}
+
+interface NotificationList {
+  notifications: AppNotification[];
+  unreadCount: number;
+}
+
+const NOTIFICATIONS_KEY = ["/api/notifications"];
+const POLL_INTERVAL_MS = 60 * 1000;
+
+function describe(notification: AppNotification): string {
+  const actor = notification.actor?.username ?? "Someone";
+  const title = notification.data.articleTitle ?? "your article";
+  switch (notification.type) {
+    case "comment_reply":
+      return `${actor} replied to your comment on “${title}”`;
+    case "article_published":
+      return `New in ${notification.data.channelName ?? "a channel you follow"}: ${title}`;
+    case "article_reaction":
+      return `${actor} ${notification.data.isLike ? "liked" : "disliked"} “${title}”`;
+    case "channel_invite":
+      return `${actor} invited you to write for ${
+        notification.data.channelName ?? "their channel"
+      } as ${notification.data.role === "editor" ? "an editor" : "a contributor"}`;
+    default:
+      return "New activity";
+  }
+}
+
+function NotificationIcon({ notification }: { notification: AppNotification }) {
+  const className = "h-4 w-4 mt-0.5 shrink-0 text-muted-foreground";
+  if (notification.type === "comment_reply") return <MessageSquare className={className} />;
+  if (notification.type === "article_published") return <Newspaper className={className} />;
+  if (notification.type === "channel_invite") return <UserPlus className={className} />;
+  return notification.data.isLike === false ? (
+    <ThumbsDown className={className} />
+  ) : (
+    <ThumbsUp className={className} />
+  );
+}
+
+/** Nav bar bell: unread badge, recent notifications, mark-all-read */
+export function NotificationBell() {
+  const [, setLocation] = useLocation();
+  const { data } = useQuery<NotificationList>({
+    queryKey: NOTIFICATIONS_KEY,
+    refetchInterval: POLL_INTERVAL_MS,
+  });
+  const notifications = data?.notifications ?? [];
+  const unreadCount = data?.unreadCount ?? 0;
+
+  const markReadMutation = useMutation({
+    mutationFn: async (body: { ids: number[] } | { all: true }) => {
+      const res = await apiRequest("PATCH", "/api/notifications", body);
+      return (await res.json()) as { unreadCount: number };
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: NOTIFICATIONS_KEY });
+    },
+  });
+
+  const openNotification = (notification: AppNotification) => {
+    if (!notification.readAt) {
+      markReadMutation.mutate({ ids: [notification.id] });
+    }
+    if (notification.articleId) {
+      const articleUrl = createSlugUrl(
+        "/articles/",
+        notification.data.articleSlug ?? "",
+        notification.articleId
+      );
+      setLocation(
+        notification.commentId
+          ? `${articleUrl}#${commentAnchor(notification.commentId)}`
+          : articleUrl
+      );
+    } else if (notification.channelId) {
+      // Invitations are answered on the channel page
+      setLocation(createSlugUrl("/channels/", "", notification.channelId));
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="relative h-8 w-8"
+          aria-label={
+            unreadCount > 0 ? `Notifications (${unreadCount} unread)` : "Notifications"
+          }
+        >
+          <Bell className="h-4 w-4" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-[1rem] h-4 px-1 rounded-full bg-[hsl(var(--edition-accent))] text-white text-[10px] leading-4 text-center">
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent className="w-80" align="end">
+        <div className="flex items-center justify-between">
+          <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+          {unreadCount > 0 && (
+            <Button
+              variant="link"
+              size="sm"
+              className="h-auto px-2 text-xs"
+              disabled={markReadMutation.isPending}
+              onClick={(e) => {
+                e.preventDefault();
+                markReadMutation.mutate({ all: true });
+              }}
+            >
+              Mark all read
+            </Button>
+          )}
+        </div>
+        <DropdownMenuSeparator />
+        {notifications.length === 0 ? (
+          <p className="px-2 py-6 text-center text-sm text-muted-foreground">
+            You're all caught up.
+          </p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.map((notification) => (
+              <DropdownMenuItem
+                key={notification.id}
+                onClick={() => openNotification(notification)}
+                className={`flex items-start gap-2 py-2 ${
+                  notification.readAt ? "" : "bg-muted/60"
+                }`}
+              >
+                <NotificationIcon notification={notification} />
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm leading-snug">{describe(notification)}</p>
+                  {notification.data.excerpt && (
+                    <p className="text-xs text-muted-foreground truncate">
+                      {notification.data.excerpt}
+                    </p>
+                  )}
+                  <p className="text-xs text-muted-foreground">
+                    {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                  </p>
+                </div>
+                {!notification.readAt && (
+                  <span className="mt-1.5 h-2 w-2 shrink-0 rounded-full bg-[hsl(var(--edition-accent))]" />
+                )}
+              </DropdownMenuItem>
+            ))}
+          </div>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
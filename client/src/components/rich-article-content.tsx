@@ -4,18 +4,34 @@ import { Dialog, DialogContent } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { ChevronLeft, ChevronRight } from "lucide-react";
 import { ArticleChart } from "@/components/article-chart";
+import { ArticleMap } from "@/components/article-map";
 
 interface LightboxImage {
   src: string;
   caption: string;
 }
 
+interface FootnotePreview {
+  html: string;
+  top: number;
+  left: number;
+}
+
+const FOOTNOTE_PREVIEW_WIDTH = 320;
+// Timelines with at least this many entries start folded
+const TIMELINE_FOLD_AT = 7;
+
 /**
  * Renders rich article HTML (produced by the markdown pipeline — see
  * docs/article-format.md) and progressively enhances it:
- *  - hydrates <div data-chart> placeholders into live recharts charts
+ *  - hydrates <div data-chart> placeholders into live recharts charts and
+ *    <div data-map> placeholders into maps
  *  - opens a full-screen lightbox (with prev/next + keyboard arrows) when any
  *    content figure/gallery image is clicked
+ *  - previews a footnote's text when its superscript reference is hovered or
+ *    focused
+ *  - folds long timelines down to their first and latest entries, with a
+ *    button to show the rest
  * Legacy plain-HTML articles render unchanged.
  */
 export function RichArticleContent({
@@ -30,19 +46,22 @@ export function RichArticleContent({
     images: LightboxImage[];
     index: number;
   } | null>(null);
+  const [footnote, setFootnote] = useState<FootnotePreview | null>(null);
 
-  // Hydrate chart placeholders
+  // Hydrate chart and map placeholders
   useEffect(() => {
     const container = containerRef.current;
     if (!container) return;
     const roots: Root[] = [];
-    container.querySelectorAll("[data-chart]").forEach((el) => {
-      const raw = el.getAttribute("data-chart");
+    container.querySelectorAll("[data-chart], [data-map]").forEach((el) => {
+      const raw = el.getAttribute("data-chart") || el.getAttribute("data-map");
       if (!raw) return;
       try {
         const spec = JSON.parse(raw);
         const root = createRoot(el as HTMLElement);
-        root.render(<ArticleChart spec={spec} />);
+        root.render(
+          el.hasAttribute("data-chart") ? <ArticleChart spec={spec} /> : <ArticleMap spec={spec} />
+        );
         roots.push(root);
       } catch {
         /* invalid spec — leave the empty div */
@@ -54,9 +73,34 @@ export function RichArticleContent({
     };
   }, [html]);
 
-  // Lightbox: event delegation over all content images
+  // Fold long timelines
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    container.querySelectorAll<HTMLElement>("[data-timeline]").forEach((timeline) => {
+      const count = timeline.querySelectorAll(":scope > ol > li").length;
+      if (count < TIMELINE_FOLD_AT || timeline.querySelector(".timeline-toggle")) return;
+      const toggle = document.createElement("button");
+      toggle.type = "button";
+      toggle.className = "timeline-toggle";
+      toggle.textContent = `Show all ${count} events`;
+      timeline.setAttribute("data-folded", "");
+      timeline.appendChild(toggle);
+    });
+  }, [html]);
+
+  // Lightbox: event delegation over all content images; timeline toggles
   const handleClick = useCallback((e: React.MouseEvent) => {
     const target = e.target as HTMLElement;
+    const toggle = target.closest?.(".timeline-toggle");
+    const timeline = toggle?.closest("[data-timeline]");
+    if (toggle && timeline) {
+      const folded = timeline.toggleAttribute("data-folded");
+      toggle.textContent = folded
+        ? `Show all ${timeline.querySelectorAll(":scope > ol > li").length} events`
+        : "Show fewer";
+      return;
+    }
     if (target.tagName !== "IMG" || !containerRef.current) return;
     const imgs = Array.from(
       containerRef.current.querySelectorAll<HTMLImageElement>(
@@ -75,6 +119,36 @@ export function RichArticleContent({
     });
   }, []);
 
+  // Footnote previews: the note's text (minus its back link) under the reference
+  const showFootnote = useCallback((e: React.SyntheticEvent) => {
+    const ref = (e.target as HTMLElement).closest?.("a[data-footnote-ref]");
+    const id = ref?.getAttribute("href")?.replace(/^#/, "");
+    const note = id ? containerRef.current?.querySelector(`[id="${CSS.escape(id)}"]`) : null;
+    if (!ref || !note) return;
+    const text = note.cloneNode(true) as HTMLElement;
+    text.querySelectorAll(".footnote-backref").forEach((el) => el.remove());
+    const rect = ref.getBoundingClientRect();
+    setFootnote({
+      html: text.innerHTML.trim(),
+      top: rect.bottom + 8,
+      left: Math.max(
+        8,
+        Math.min(rect.left - 16, window.innerWidth - FOOTNOTE_PREVIEW_WIDTH - 8)
+      ),
+    });
+  }, []);
+
+  const hideFootnote = useCallback((e: React.SyntheticEvent) => {
+    if ((e.target as HTMLElement).closest?.("a[data-footnote-ref]")) setFootnote(null);
+  }, []);
+
+  useEffect(() => {
+    if (!footnote) return;
+    const hide = () => setFootnote(null);
+    window.addEventListener("scroll", hide, { passive: true });
+    return () => window.removeEventListener("scroll", hide);
+  }, [footnote]);
+
   const step = useCallback(
     (delta: number) => {
       setLightbox((lb) =>
@@ -97,9 +171,22 @@ export function RichArticleContent({
         ref={containerRef}
         className={className}
         onClick={handleClick}
+        onMouseOver={showFootnote}
+        onMouseOut={hideFootnote}
+        onFocus={showFootnote}
+        onBlur={hideFootnote}
         dangerouslySetInnerHTML={{ __html: html }}
       />
 
+      {footnote && (
+        <div
+          role="tooltip"
+          className="pointer-events-none fixed z-50 rounded-md border bg-popover p-3 text-sm text-popover-foreground shadow-md"
+          style={{ top: footnote.top, left: footnote.left, width: FOOTNOTE_PREVIEW_WIDTH }}
+          dangerouslySetInnerHTML={{ __html: footnote.html }}
+        />
+      )}
+
       <Dialog open={!!lightbox} onOpenChange={(o) => !o && setLightbox(null)}>
         <DialogContent
           className="max-w-6xl border-none bg-black/95 p-2 shadow-2xl outline-none sm:p-4"
@@ -48,6 +48,7 @@ import {
   Lightbulb,
   TextQuote,
   TrendingUp,
+  CalendarClock,
   Loader2,
   ChevronDown,
 } from "lucide-react";
@@ -56,9 +57,14 @@ import {
   ArticleGallery,
   VideoEmbed,
   ArticleChartNode,
+  ArticleMapNode,
   Callout,
   PullQuote,
   StatCallout,
+  FootnoteRef,
+  Footnotes,
+  ArticleTimeline,
+  TimelineEntry,
   CALLOUT_TYPES,
   videoEmbedSrc,
 } from "@/components/editor-extensions";
@@ -256,6 +262,19 @@ const MenuBar = ({ editor }: { editor: any }) => {
       .run();
   };
 
+  const insertTimeline = () => {
+    const title = window.prompt("Timeline title (optional)") || null;
+    editor
+      .chain()
+      .focus()
+      .insertContent({
+        type: "articleTimeline",
+        attrs: { title },
+        content: [{ type: "timelineEntry", attrs: { date: "" } }],
+      })
+      .run();
+  };
+
   const insertPullQuote = () => {
     const selection = editor.state.doc.textBetween(
       editor.state.selection.from,
@@ -455,6 +474,14 @@ const MenuBar = ({ editor }: { editor: any }) => {
       >
         <TrendingUp className="h-4 w-4" />
       </Button>
+      <Button
+        variant={editor.isActive("articleTimeline") ? "default" : "outline"}
+        size="icon"
+        onClick={insertTimeline}
+        title="Timeline (Enter adds an entry)"
+      >
+        <CalendarClock className="h-4 w-4" />
+      </Button>
       <Button
         variant={editor.isActive("table") ? "default" : "outline"}
         size="icon"
@@ -667,6 +694,8 @@ interface RichTextEditorProps {
   content: string;
   onChange: (content: string) => void;
   placeholder?: string;
+  /** Shorter writing area, for live blog entries */
+  compact?: boolean;
 }
 
 const isPlainText = (content: string): boolean =>
@@ -683,6 +712,7 @@ const convertPlainTextToHtml = (plainText: string): string => {
 export const RichTextEditor = ({
   content,
   onChange,
+  compact,
 }: RichTextEditorProps) => {
   const initialContent = isPlainText(content)
     ? convertPlainTextToHtml(content)
@@ -704,9 +734,14 @@ export const RichTextEditor = ({
       ArticleGallery,
       VideoEmbed,
       ArticleChartNode,
+      ArticleMapNode,
       Callout,
       PullQuote,
       StatCallout,
+      FootnoteRef,
+      Footnotes,
+      ArticleTimeline,
+      TimelineEntry,
     ],
     content: initialContent,
     onUpdate: ({ editor }) => {
@@ -714,7 +749,7 @@ export const RichTextEditor = ({
     },
     editorProps: {
       attributes: {
-        class: "focus:outline-none min-h-[500px] p-4",
+        class: `focus:outline-none p-4 ${compact ? "min-h-[160px]" : "min-h-[500px]"}`,
       },
     },
   });
@@ -0,0 +1,106 @@
+import { RefObject, useEffect } from "react";
+
+/**
+ * Where this visit came from, sent with the view beacon. document.referrer
+ * only describes the page the reader landed on; after in-app navigation the
+ * referrer is this site, which the stats drawer shows as internal traffic.
+ */
+export function getViewContext() {
+  const [navigation] = performance.getEntriesByType(
+    "navigation"
+  ) as PerformanceNavigationTiming[];
+  const landedHere =
+    !navigation || new URL(navigation.name).pathname === window.location.pathname;
+  const params = new URLSearchParams(window.location.search);
+  return {
+    referrer: landedHere ? document.referrer || null : window.location.origin,
+    utm: {
+      source: params.get("utm_source"),
+      medium: params.get("utm_medium"),
+      campaign: params.get("utm_campaign"),
+    },
+  };
+}
+
+/**
+ * Measures how far through the article body the reader scrolls and how long
+ * the page stays visible, and reports it for the given view whenever the page
+ * is hidden or the reader navigates away. Uses sendBeacon so the report
+ * survives the tab closing; the server keeps the best read per view.
+ */
+export function useReadTracking(
+  slug: string | undefined,
+  viewId: number | null,
+  contentRef: RefObject<HTMLElement>
+) {
+  useEffect(() => {
+    if (!slug || !viewId) return;
+
+    let maxDepth = 0;
+    let visibleMs = 0;
+    let visibleSince: number | null =
+      document.visibilityState === "visible" ? Date.now() : null;
+    let frame = 0;
+
+    const measureDepth = () => {
+      frame = 0;
+      const rect = contentRef.current?.getBoundingClientRect();
+      if (!rect || rect.height <= 0) return;
+      const seen = (window.innerHeight - rect.top) / rect.height;
+      maxDepth = Math.max(maxDepth, Math.min(Math.max(seen, 0), 1) * 100);
+    };
+
+    const onScroll = () => {
+      if (!frame) frame = requestAnimationFrame(measureDepth);
+    };
+
+    const send = () => {
+      const timeOnPage =
+        (visibleMs + (visibleSince ? Date.now() - visibleSince : 0)) / 1000;
+      if (maxDepth === 0 && timeOnPage < 1) return;
+      const url = `/api/articles/${slug}/engagement`;
+      const body = JSON.stringify({
+        viewId,
+        scrollDepth: Math.round(maxDepth),
+        timeOnPage: Math.round(timeOnPage),
+      });
+      const queued = navigator.sendBeacon?.(
+        url,
+        new Blob([body], { type: "application/json" })
+      );
+      if (!queued) {
+        fetch(url, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body,
+          keepalive: true,
+        }).catch(() => {});
+      }
+    };
+
+    const onVisibilityChange = () => {
+      if (document.visibilityState === "hidden") {
+        if (visibleSince) {
+          visibleMs += Date.now() - visibleSince;
+          visibleSince = null;
+        }
+        send();
+      } else {
+        visibleSince = Date.now();
+      }
+    };
+
+    measureDepth();
+    window.addEventListener("scroll", onScroll, { passive: true });
+    window.addEventListener("pagehide", send);
+    document.addEventListener("visibilitychange", onVisibilityChange);
+    return () => {
+      if (frame) cancelAnimationFrame(frame);
+      window.removeEventListener("scroll", onScroll);
+      window.removeEventListener("pagehide", send);
+      document.removeEventListener("visibilitychange", onVisibilityChange);
+      // In-app navigation away from the article
+      send();
+    };
+  }, [slug, viewId, contentRef]);
+}
@@ -8,6 +8,7 @@ import {
 import { useAuth } from "./use-auth";
 import { useQuery } from "@tanstack/react-query";
 import { Channel } from "@shared/schema";
+import { useChannelRoles } from "@/components/channel-members";
 
 type SelectedChannelContextType = {
   selectedChannelId: number | undefined;
@@ -28,10 +29,12 @@ export function SelectedChannelProvider({ children }: { children: ReactNode }) {
     number | undefined
   >(undefined);
 
-  // Get user's channels
+  // Get the channels the user owns or writes for
+  const channelRoles = useChannelRoles();
   const { data: userChannels } = useQuery<Channel[]>({
     queryKey: ["/api/channels"],
-    select: (channels) => channels?.filter((c) => c.userId === user?.id) || [],
+    select: (channels) =>
+      channels?.filter((c) => c.userId === user?.id || channelRoles.has(c.id)) || [],
     enabled: !!user,
   });
 
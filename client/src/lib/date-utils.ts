@@ -97,4 +97,16 @@ export function formatTimeAgo(dateString: string | Date | null | undefined): str
   } catch (e) {
     return "Invalid date";
   }
-} 
\ No newline at end of file
+} 
+/**
+ * Format a date as the local-time value a <input type="datetime-local"> expects
+ * @param dateString The date to format
+ * @returns A "YYYY-MM-DDTHH:mm" string, or "" if the date is missing/invalid
+ */
+export function toDateTimeLocalValue(dateString: string | Date | null | undefined): string {
+  if (!dateString) return "";
+  const date = new Date(dateString);
+  if (isNaN(date.getTime())) return "";
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
@@ -0,0 +1,98 @@
+/**
+ * Word-level diffing for comparing article revisions
+ */
+
+export type DiffPart = {
+  type: "same" | "added" | "removed";
+  text: string;
+};
+
+// Above this many LCS cells we fall back to a coarse "replaced" diff rather
+// than lock up the browser on a very long article.
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Convert stored article HTML (or markdown) to plain text for diffing
+ * @param html Article content
+ * @returns Text with tags stripped and block boundaries kept as newlines
+ */
+export function htmlToPlainText(html: string): string {
+  if (!html) return "";
+  const withBreaks = html
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|h[1-6]|li|blockquote|tr|figure)>/gi, "\n");
+  const doc = new DOMParser().parseFromString(withBreaks, "text/html");
+  return (doc.body.textContent || "").replace(/\n{3,}/g, "\n\n").trim();
+}
+
+/**
+ * Diff two texts word by word (whitespace is kept attached to the tokens)
+ * @param before The older text
+ * @param after The newer text
+ * @returns Runs of unchanged, added and removed text in reading order
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = before.match(/\s*\S+\s*/g) || [];
+  const b = after.match(/\s*\S+\s*/g) || [];
+
+  // Trim the common prefix and suffix — most edits touch a small region
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (type: DiffPart["type"], text: string) => {
+    if (!text) return;
+    const last = parts[parts.length - 1];
+    if (last && last.type === type) last.text += text;
+    else parts.push({ type, text });
+  };
+
+  push("same", a.slice(0, start).join(""));
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const n = midA.length;
+  const m = midB.length;
+
+  if (n * m > MAX_LCS_CELLS) {
+    push("removed", midA.join(""));
+    push("added", midB.join(""));
+  } else {
+    // Longest-common-subsequence table, filled from the end
+    const lcs: Uint32Array[] = [];
+    for (let i = 0; i <= n; i++) lcs.push(new Uint32Array(m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i][j] =
+          midA[i] === midB[j]
+            ? lcs[i + 1][j + 1] + 1
+            : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (midA[i] === midB[j]) {
+        push("same", midA[i]);
+        i++;
+        j++;
+      } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+        push("removed", midA[i++]);
+      } else {
+        push("added", midB[j++]);
+      }
+    }
+    while (i < n) push("removed", midA[i++]);
+    while (j < m) push("added", midB[j++]);
+  }
+
+  push("same", a.slice(endA).join(""));
+  return parts;
+}
@@ -1,17 +1,19 @@
 import React from "react";
 import { AdminArticleTable } from "@/components/admin-article-table";
 import { AdminChannelTable } from "@/components/admin-channel-table";
+import { AdminCommentModeration } from "@/components/admin-comment-moderation";
 import { Link } from "wouter";
 import { ExternalLink, X } from "lucide-react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
 import { apiRequest } from "@/lib/queryClient";
+import { ApiKeyWebhooks } from "@/components/api-key-webhooks";
+import { CreateApiKeyDialog } from "@/components/create-api-key-dialog";
 
 export function ApiKeySection() {
   const [keys, setKeys] = React.useState<any[]>([]);
-  const [newKeyName, setNewKeyName] = React.useState("");
   const [createdKey, setCreatedKey] = React.useState<string | null>(null);
-  const [loading, setLoading] = React.useState(false);
+  const [webhooksKeyId, setWebhooksKeyId] = React.useState<string | null>(null);
 
   React.useEffect(() => {
     fetchKeys();
@@ -24,26 +26,6 @@ export function ApiKeySection() {
     } catch {}
   }
 
-  async function createKey() {
-    if (!newKeyName.trim()) return;
-    setLoading(true);
-    try {
-      const res = await fetch("/api/v1/api-keys", {
-        method: "POST",
-        credentials: "include",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ name: newKeyName.trim() }),
-      });
-      if (res.ok) {
-        const data = await res.json();
-        setCreatedKey(data.key);
-        setNewKeyName("");
-        fetchKeys();
-      }
-    } catch {}
-    setLoading(false);
-  }
-
   async function revokeKey(id: string) {
     try {
       await fetch(`/api/v1/api-keys/${id}`, {
@@ -57,22 +39,17 @@ export function ApiKeySection() {
   return (
     <div className="space-y-6">
       <div>
-        <h3 className="text-lg font-semibold mb-2">Generate API Key</h3>
-        <div className="flex gap-2">
-          <input
-            type="text"
-            value={newKeyName}
-            onChange={(e) => setNewKeyName(e.target.value)}
-            placeholder="Key name (e.g. Claude Cowork)"
-            className="flex-1 px-3 py-2 border rounded-md bg-background text-sm"
-            onKeyDown={(e) => e.key === "Enter" && createKey()}
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-lg font-semibold">Generate API Key</h3>
+          <CreateApiKeyDialog
+            onCreated={(key) => {
+              setCreatedKey(key);
+              fetchKeys();
+            }}
           />
-          <Button onClick={createKey} disabled={loading || !newKeyName.trim()} size="sm">
-            {loading ? "Creating..." : "Generate Key"}
-          </Button>
         </div>
         {createdKey && (
-          <div className="mt-3 p-3 bg-green-50 dark:bg-green-950 border border-green-200 dark:border-green-800 rounded-md">
+          <div className="p-3 bg-green-50 dark:bg-green-950 border border-green-200 dark:border-green-800 rounded-md">
             <p className="text-sm font-medium text-green-800 dark:text-green-200 mb-1">
               API Key created! Copy it now — it won't be shown again:
             </p>
@@ -90,26 +67,54 @@ export function ApiKeySection() {
         ) : (
           <div className="border rounded-md divide-y">
             {keys.map((k: any) => (
-              <div key={k.id} className="flex items-center justify-between p-3">
-                <div>
-                  <span className="font-medium text-sm">{k.name}</span>
-                  <span className="text-xs text-muted-foreground ml-2">({k.prefix}...)</span>
-                  {k.isRevoked && (
-                    <span className="ml-2 text-xs bg-red-100 dark:bg-red-900 text-red-700 dark:text-red-300 px-1.5 py-0.5 rounded">
-                      Revoked
-                    </span>
+              <div key={k.id} className="p-3">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <span className="font-medium text-sm">{k.name}</span>
+                    <span className="text-xs text-muted-foreground ml-2">({k.prefix}...)</span>
+                    {k.isRevoked && (
+                      <span className="ml-2 text-xs bg-red-100 dark:bg-red-900 text-red-700 dark:text-red-300 px-1.5 py-0.5 rounded">
+                        Revoked
+                      </span>
+                    )}
+                    <p className="text-xs text-muted-foreground">
+                      {(k.scopes || []).join(", ")}
+                      {" · "}
+                      {k.channelIds?.length
+                        ? `${k.channelIds.length} channel${k.channelIds.length === 1 ? "" : "s"} only`
+                        : "all channels"}
+                    </p>
+                    {k.usage && (
+                      <p className="text-xs text-muted-foreground">
+                        {k.usage.requestsToday} requests today
+                        {k.usage.throttledToday > 0 && ` (${k.usage.throttledToday} rate limited)`}
+                        {" · "}
+                        {k.usage.requestsLast7Days} in the last 7 days
+                      </p>
+                    )}
+                  </div>
+                  {!k.isRevoked && (
+                    <div className="flex gap-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-xs"
+                        onClick={() => setWebhooksKeyId(webhooksKeyId === k.id ? null : k.id)}
+                      >
+                        Webhooks
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-red-600 hover:text-red-700 text-xs"
+                        onClick={() => revokeKey(k.id)}
+                      >
+                        Revoke
+                      </Button>
+                    </div>
                   )}
                 </div>
-                {!k.isRevoked && (
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    className="text-red-600 hover:text-red-700 text-xs"
-                    onClick={() => revokeKey(k.id)}
-                  >
-                    Revoke
-                  </Button>
-                )}
+                {webhooksKeyId === k.id && !k.isRevoked && <ApiKeyWebhooks apiKeyId={k.id} />}
               </div>
             ))}
           </div>
@@ -235,6 +240,63 @@ function ApiAccessManager() {
   );
 }
 
+function ApiUsageSection() {
+  const [data, setData] = React.useState<{ limits: Record<string, any>; keys: any[] } | null>(null);
+
+  React.useEffect(() => {
+    (async () => {
+      try {
+        const res = await apiRequest("GET", "/api/v1/admin/api-usage");
+        setData(await res.json());
+      } catch {}
+    })();
+  }, []);
+
+  if (!data) return <p className="text-sm text-muted-foreground">Loading usage...</p>;
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-muted-foreground">
+        Limits per key:{" "}
+        {Object.entries(data.limits)
+          .map(([route, l]) => `${route} ${l.capacity} burst, ${l.perMinute}/min`)
+          .join(" · ")}
+      </p>
+      {data.keys.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No API keys yet.</p>
+      ) : (
+        <div className="border rounded-md overflow-hidden">
+          <table className="w-full text-sm">
+            <thead className="bg-muted">
+              <tr>
+                <th className="text-left p-2 font-semibold">Key</th>
+                <th className="text-left p-2 font-semibold">Owner</th>
+                <th className="text-right p-2 font-semibold">Today</th>
+                <th className="text-right p-2 font-semibold">Rate limited</th>
+                <th className="text-right p-2 font-semibold">7 days</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {data.keys.map((k) => (
+                <tr key={k.id} className={k.isRevoked ? "text-muted-foreground" : ""}>
+                  <td className="p-2">
+                    {k.name}
+                    <span className="text-xs text-muted-foreground ml-2">({k.prefix}...)</span>
+                  </td>
+                  <td className="p-2">{k.username}</td>
+                  <td className="p-2 text-right">{k.usage.requestsToday}</td>
+                  <td className="p-2 text-right">{k.usage.throttledToday}</td>
+                  <td className="p-2 text-right">{k.usage.requestsLast7Days}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
 function HomepageSettingsSection() {
   const [settings, setSettings] = React.useState<any>(null);
   const [loading, setLoading] = React.useState(false);
@@ -325,6 +387,7 @@ function HomepageSettingsSection() {
           </option>
           <option value="newest">Newest story</option>
           <option value="most_read_all_time">Most-read all-time</option>
+          <option value="trending">Trending now (fastest-rising reads)</option>
           <option value="manual">Manual — pick an article</option>
           <option value="manual_sponsored">
             Manual — sponsored placement (labelled)
@@ -377,7 +440,8 @@ function HomepageSettingsSection() {
           “Most read” window
         </label>
         <p className="text-xs text-muted-foreground mb-2">
-          Time range for the Most-read rail.
+          Time range for the Most-read rail, or rank it by trending score
+          (recent reads per hour, boosted by likes).
         </p>
         <select
           className={selectClass}
@@ -388,6 +452,7 @@ function HomepageSettingsSection() {
           <option value="7d">This week (7d)</option>
           <option value="30d">This month (30d)</option>
           <option value="all">All time</option>
+          <option value="trending">Trending now</option>
         </select>
       </div>
 
@@ -441,6 +506,7 @@ export default function AdminPage() {
           <TabsList className="mb-6">
             <TabsTrigger value="articles">Manage Articles</TabsTrigger>
             <TabsTrigger value="channels">Manage Channels</TabsTrigger>
+            <TabsTrigger value="moderation">Moderation</TabsTrigger>
             <TabsTrigger value="api">API</TabsTrigger>
             <TabsTrigger value="homepage">Homepage</TabsTrigger>
           </TabsList>
@@ -469,6 +535,19 @@ export default function AdminPage() {
             </section>
           </TabsContent>
 
+          <TabsContent value="moderation">
+            <section>
+              <h2 className="text-2xl font-semibold mb-4">
+                Comment Moderation
+              </h2>
+              <p className="text-muted-foreground mb-4">
+                Comments readers have flagged. Approve to dismiss the flags, or
+                remove to hide the comment from readers
+              </p>
+              <AdminCommentModeration />
+            </section>
+          </TabsContent>
+
           <TabsContent value="api">
             <section className="space-y-10">
               <div>
@@ -490,6 +569,16 @@ export default function AdminPage() {
                 </p>
                 <ApiAccessManager />
               </div>
+
+              <div className="border-t pt-8">
+                <h2 className="text-2xl font-semibold mb-4">
+                  API Usage
+                </h2>
+                <p className="text-muted-foreground mb-4">
+                  Content API requests per key (UTC days). Rate-limited requests are counted separately
+                </p>
+                <ApiUsageSection />
+              </div>
             </section>
           </TabsContent>
 
@@ -1,7 +1,8 @@
 import { NavigationBar } from "@/components/navigation-bar";
 import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
-import { Copy, Check, ChevronDown, ChevronRight, Key, BookOpen, Zap, Code2, Shield } from "lucide-react";
+import { Copy, Check, ChevronDown, ChevronRight, Key, BookOpen, Zap, Code2, Shield, Webhook, FileJson, Lock } from "lucide-react";
 
 function CopyButton({ text }: { text: string }) {
   const [copied, setCopied] = useState(false);
@@ -51,6 +52,7 @@ function EndpointSection({
   const methodColors: Record<string, string> = {
     GET: "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300",
     POST: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300",
+    PATCH: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300",
     DELETE: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300",
   };
 
@@ -82,10 +84,287 @@ function EndpointSection({
   );
 }
 
+// ---- Endpoint reference, rendered from the OpenAPI spec ----
+// GET /api/v1/openapi.json is built from the Zod schemas in shared/schema.ts
+// (server/openapi.ts), so this list can't drift from what SDKs generate from.
+
+type JsonSchema = Record<string, any>;
+
+interface OpenApiSpec {
+  paths: Record<string, Record<string, any>>;
+  components: { schemas: Record<string, JsonSchema> };
+}
+
+const HTTP_METHODS = ["get", "post", "patch", "put", "delete"];
+
+function refName(schema: JsonSchema): string | null {
+  return typeof schema?.$ref === "string" ? schema.$ref.split("/").pop() ?? null : null;
+}
+
+function resolveSchema(spec: OpenApiSpec, schema: JsonSchema): JsonSchema {
+  const name = refName(schema);
+  return name ? spec.components.schemas[name] || {} : schema || {};
+}
+
+function typeLabel(schema: JsonSchema): string {
+  if (!schema) return "any";
+  const name = refName(schema);
+  if (name) return name;
+  if (schema.enum) return schema.enum.map((v: any) => JSON.stringify(v)).join(" | ");
+  if (schema.anyOf) return schema.anyOf.map(typeLabel).join(" | ");
+  const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type || "any"];
+  return types
+    .map((t) => (t === "array" ? `${typeLabel(schema.items)}[]` : t))
+    .join(" | ");
+}
+
+// A plausible value for a schema, for the example blocks
+function exampleFor(spec: OpenApiSpec, schema: JsonSchema, depth = 0): any {
+  if (!schema) return null;
+  if (refName(schema)) return exampleFor(spec, resolveSchema(spec, schema), depth);
+  if (schema.default !== undefined) return schema.default;
+  if (schema.const !== undefined) return schema.const;
+  if (schema.enum) return schema.enum[0];
+  if (schema.anyOf) return exampleFor(spec, schema.anyOf[0], depth);
+
+  const type = Array.isArray(schema.type) ? schema.type.find((t: string) => t !== "null") : schema.type;
+  switch (type) {
+    case "string":
+      if (schema.format === "date-time") return "2026-10-19T12:00:00.000Z";
+      if (schema.format === "uri") return "https://example.com";
+      return "string";
+    case "integer":
+      return 1;
+    case "number":
+      return 1.5;
+    case "boolean":
+      return true;
+    case "array":
+      return depth > 2 ? [] : [exampleFor(spec, schema.items, depth + 1)];
+    case "object":
+      if (!schema.properties) return {};
+      return Object.fromEntries(
+        Object.entries<JsonSchema>(schema.properties).map(([key, value]) => [
+          key,
+          exampleFor(spec, value, depth + 1),
+        ])
+      );
+    default:
+      return null;
+  }
+}
+
+function FieldTable({ spec, schema }: { spec: OpenApiSpec; schema: JsonSchema }) {
+  let resolved = resolveSchema(spec, schema);
+  if (resolved.type === "array") resolved = resolveSchema(spec, resolved.items);
+  if (!resolved.properties) return null;
+  const required: string[] = resolved.required || [];
+
+  return (
+    <div className="border rounded-lg overflow-x-auto">
+      <table className="w-full text-xs">
+        <tbody className="divide-y">
+          {Object.entries<JsonSchema>(resolved.properties).map(([name, field]) => (
+            <tr key={name}>
+              <td className="p-2 font-mono whitespace-nowrap align-top">
+                {name}
+                {required.includes(name) && <span className="text-red-500">*</span>}
+              </td>
+              <td className="p-2 font-mono text-muted-foreground align-top">{typeLabel(field)}</td>
+              <td className="p-2 text-muted-foreground align-top">
+                {field.description}
+                {field.default !== undefined && (
+                  <span className="block">Default: <code>{JSON.stringify(field.default)}</code></span>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function authLabel(operation: any): string {
+  const schemes = (operation.security || []).flatMap((s: any) => Object.keys(s));
+  const auth = schemes.includes("apiKey")
+    ? "API Key or Bearer JWT"
+    : operation["x-admin-only"]
+      ? "Bearer JWT (admins only)"
+      : "Bearer JWT only";
+  return operation["x-scope"] ? `${auth} · scope ${operation["x-scope"]}` : auth;
+}
+
+function OperationSection({
+  spec,
+  method,
+  path,
+  operation,
+  defaultOpen,
+}: {
+  spec: OpenApiSpec;
+  method: string;
+  path: string;
+  operation: any;
+  defaultOpen?: boolean;
+}) {
+  const parameters: any[] = operation.parameters || [];
+  const body = operation.requestBody?.content?.["application/json"];
+  const [status, success] = Object.entries<any>(operation.responses).find(([code]) => code.startsWith("2"))!;
+  const successSchema = success.content?.["application/json"]?.schema;
+  const errors = Object.entries<any>(operation.responses).filter(([code]) => !code.startsWith("2"));
+  const rateLimit = operation["x-rate-limit"];
+
+  return (
+    <EndpointSection
+      method={method.toUpperCase()}
+      path={path}
+      description={operation.summary}
+      auth={authLabel(operation)}
+      defaultOpen={defaultOpen}
+    >
+      {operation.description && (
+        <p className="text-sm text-muted-foreground">{operation.description}</p>
+      )}
+      {parameters.length > 0 && (
+        <div>
+          <h4 className="text-sm font-semibold mb-2">Parameters</h4>
+          <div className="border rounded-lg overflow-x-auto">
+            <table className="w-full text-xs">
+              <tbody className="divide-y">
+                {parameters.map((param) => (
+                  <tr key={`${param.in}-${param.name}`}>
+                    <td className="p-2 font-mono whitespace-nowrap align-top">
+                      {param.name}
+                      {param.required && <span className="text-red-500">*</span>}
+                    </td>
+                    <td className="p-2 text-muted-foreground align-top">{param.in}</td>
+                    <td className="p-2 font-mono text-muted-foreground align-top">{typeLabel(param.schema)}</td>
+                    <td className="p-2 text-muted-foreground align-top">
+                      {param.description}
+                      {param.schema?.default !== undefined && ` (default ${param.schema.default})`}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+      {body && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold">Request Body</h4>
+          <FieldTable spec={spec} schema={body.schema} />
+          <CodeBlock
+            language="json"
+            code={JSON.stringify(body.example ?? exampleFor(spec, body.schema), null, 2)}
+          />
+        </div>
+      )}
+      <div className="space-y-2">
+        <h4 className="text-sm font-semibold">Response ({status})</h4>
+        <p className="text-sm text-muted-foreground">{success.description}</p>
+        {successSchema && (
+          <>
+            <FieldTable spec={spec} schema={successSchema} />
+            <CodeBlock language="json" code={JSON.stringify(exampleFor(spec, successSchema), null, 2)} />
+          </>
+        )}
+      </div>
+      <div className="text-xs text-muted-foreground space-y-1">
+        {rateLimit && (
+          <p>Rate limit: {rateLimit.capacity} burst, {rateLimit.perMinute}/min per API key</p>
+        )}
+        <p>
+          Errors:{" "}
+          {errors.map(([code, response], i) => (
+            <span key={code} title={response.description}>
+              {i > 0 && ", "}
+              <code>{code}</code>
+            </span>
+          ))}
+        </p>
+      </div>
+    </EndpointSection>
+  );
+}
+
+function OperationList({
+  tags,
+  spec,
+  specError,
+  defaultOpen,
+}: {
+  tags: string[];
+  spec?: OpenApiSpec;
+  specError: boolean;
+  defaultOpen?: string; // operationId to expand
+}) {
+  if (specError) {
+    return (
+      <p className="text-sm text-muted-foreground border rounded-lg p-4">
+        Couldn't load the endpoint reference. The raw spec is at{" "}
+        <a href="/api/v1/openapi.json" className="underline">/api/v1/openapi.json</a>.
+      </p>
+    );
+  }
+  if (!spec) {
+    return <p className="text-sm text-muted-foreground border rounded-lg p-4">Loading endpoints...</p>;
+  }
+
+  const operations = Object.entries(spec.paths).flatMap(([path, item]) =>
+    HTTP_METHODS.filter((method) => item[method] && tags.includes(item[method].tags?.[0])).map(
+      (method) => ({ path, method, operation: item[method] })
+    )
+  );
+  operations.sort((a, b) => tags.indexOf(a.operation.tags[0]) - tags.indexOf(b.operation.tags[0]));
+
+  return (
+    <div className="space-y-3">
+      {operations.map(({ path, method, operation }) => (
+        <OperationSection
+          key={`${method} ${path}`}
+          spec={spec}
+          method={method}
+          path={path}
+          operation={operation}
+          defaultOpen={operation.operationId === defaultOpen}
+        />
+      ))}
+    </div>
+  );
+}
+
+function OperationGroup({
+  title,
+  icon,
+  ...listProps
+}: {
+  title: string;
+  icon: React.ReactNode;
+  tags: string[];
+  spec?: OpenApiSpec;
+  specError: boolean;
+  defaultOpen?: string;
+}) {
+  return (
+    <section className="mb-10">
+      <h2 className="text-2xl font-semibold mb-4 flex items-center gap-2">
+        {icon}
+        {title}
+      </h2>
+      <OperationList {...listProps} />
+    </section>
+  );
+}
+
 export default function ApiDocsPage() {
   const baseUrl = typeof window !== "undefined" && window.location.hostname !== "localhost"
     ? `https://${window.location.hostname}`
     : "https://newsplatform.org";
+  const { data: spec, isError: specError } = useQuery<OpenApiSpec>({
+    queryKey: ["/api/v1/openapi.json"],
+  });
 
   return (
     <div className="min-h-screen bg-background">
@@ -100,6 +379,13 @@ export default function ApiDocsPage() {
           <p className="text-lg text-muted-foreground">
             Programmatically create and manage articles on NewsPlatform. Build integrations, automate publishing, or connect AI tools to generate content at scale.
           </p>
+          <a
+            href="/api/v1/openapi.json"
+            className="inline-flex items-center gap-1.5 mt-3 text-sm text-primary hover:underline"
+          >
+            <FileJson className="h-4 w-4" />
+            OpenAPI 3.1 spec — import it into Postman or an SDK generator
+          </a>
         </div>
 
         {/* Quick Start */}
@@ -177,268 +463,117 @@ export default function ApiDocsPage() {
                 An API key authenticates as the user who created it. You can only create articles in channels you own. Keys are stored as SHA-256 hashes and can be revoked at any time.
               </p>
             </div>
+            <div className="bg-muted/50 rounded-lg p-4 text-sm space-y-2">
+              <p className="font-medium">Scopes</p>
+              <p className="text-muted-foreground">
+                Each key carries a set of scopes and, optionally, a list of channels it is limited to. A request outside either returns 403. Bearer tokens have full access.
+              </p>
+              <ul className="text-muted-foreground list-disc pl-5 space-y-1">
+                <li><code className="text-xs">articles:write</code> — creating, updating, publishing and deleting articles</li>
+                <li><code className="text-xs">articles:read</code> — GET /content/articles and /content/articles/:id</li>
+                <li><code className="text-xs">channels:read</code> — GET /content/channels</li>
+                <li><code className="text-xs">images:write</code> — sending <code className="text-xs">images</code> when creating an article</li>
+              </ul>
+              <p className="text-muted-foreground">
+                GET /content/categories needs no scope. A channel-limited key only sees, creates in, and receives webhooks for its listed channels.
+              </p>
+            </div>
           </div>
         </section>
 
-        {/* API Key Management */}
-        <section className="mb-10">
-          <h2 className="text-2xl font-semibold mb-4 flex items-center gap-2">
-            <Key className="h-5 w-5" />
-            API Key Management
-          </h2>
-          <div className="space-y-3">
-            <EndpointSection
-              method="POST"
-              path="/api/v1/api-keys"
-              description="Generate a new API key"
-              auth="Bearer JWT only"
-            >
-              <div>
-                <h4 className="text-sm font-semibold mb-2">Request Body</h4>
-                <CodeBlock language="json" code={`{
-  "name": "My Bot",           // Required - descriptive name
-  "expiresInDays": 365        // Optional - days until expiry (null = never)
-}`} />
-              </div>
-              <div>
-                <h4 className="text-sm font-semibold mb-2">Response (201)</h4>
-                <CodeBlock language="json" code={`{
-  "id": "uuid",
-  "key": "nk_abc123...",      // Only shown once!
-  "prefix": "nk_abc123",
-  "name": "My Bot",
-  "createdAt": "2026-02-10T...",
-  "expiresAt": "2027-02-10T..."
-}`} />
-              </div>
-            </EndpointSection>
-
-            <EndpointSection
-              method="GET"
-              path="/api/v1/api-keys"
-              description="List your API keys"
-              auth="Bearer JWT only"
-            >
-              <div>
-                <h4 className="text-sm font-semibold mb-2">Response (200)</h4>
-                <CodeBlock language="json" code={`[
-  {
-    "id": "uuid",
-    "prefix": "nk_abc123",
-    "name": "My Bot",
-    "createdAt": "2026-02-10T...",
-    "lastUsedAt": "2026-02-10T...",
-    "expiresAt": null,
-    "isRevoked": false
-  }
-]`} />
-              </div>
-            </EndpointSection>
-
-            <EndpointSection
-              method="DELETE"
-              path="/api/v1/api-keys/:id"
-              description="Revoke an API key"
-              auth="Bearer JWT only"
-            >
-              <p className="text-sm text-muted-foreground">Immediately revokes the key. Any requests using it will return 401.</p>
-              <div>
-                <h4 className="text-sm font-semibold mb-2">Response (200)</h4>
-                <CodeBlock language="json" code={`{ "message": "API key revoked" }`} />
-              </div>
-            </EndpointSection>
-          </div>
-        </section>
+        <OperationGroup
+          title="API Key Management"
+          icon={<Key className="h-5 w-5" />}
+          tags={["API Keys"]}
+          spec={spec}
+          specError={specError}
+        />
+
+        <OperationGroup
+          title="Content Endpoints"
+          icon={<Code2 className="h-5 w-5" />}
+          tags={["Articles", "Channels & Categories"]}
+          spec={spec}
+          specError={specError}
+          defaultOpen="createArticle"
+        />
 
-        {/* Content API */}
+        {/* Webhooks */}
         <section className="mb-10">
           <h2 className="text-2xl font-semibold mb-4 flex items-center gap-2">
-            <Code2 className="h-5 w-5" />
-            Content Endpoints
+            <Webhook className="h-5 w-5" />
+            Webhooks
           </h2>
-          <div className="space-y-3">
-            {/* Create Article */}
-            <EndpointSection
-              method="POST"
-              path="/api/v1/content/articles"
-              description="Create a single article"
-              auth="API Key or Bearer JWT"
-              defaultOpen={true}
-            >
-              <div>
-                <h4 className="text-sm font-semibold mb-2">Request Body</h4>
-                <CodeBlock language="json" code={`{
-  "title": "Article Title",                    // Required
-  "content": "# Markdown content here...",     // Required
-  "contentFormat": "markdown",                 // "markdown" (default) or "html"
-  "channelId": 5,                              // Required - must own this channel
-  "categoryIds": [3, 12],                      // Optional - up to 3 category IDs
-  "location": "New York",                      // Optional
-  "locationLat": 40.7128,                      // Optional
-  "locationLng": -74.0060,                     // Optional
-  "published": true,                           // Optional (default: true)
-  "images": [                                  // Optional - external image URLs
-    {
-      "url": "https://example.com/photo.jpg",
-      "caption": "Photo description",
-      "order": 0
-    }
-  ]
-}`} />
-              </div>
-              <div>
-                <h4 className="text-sm font-semibold mb-2">Response (201)</h4>
-                <CodeBlock language="json" code={`{
-  "id": 456,
-  "title": "Article Title",
-  "slug": "2026-02-10-article-title",
-  "channelId": 5,
-  "status": "published",
-  "published": true,
-  "createdAt": "2026-02-10T...",
-  "url": "/articles/456/2026-02-10-article-title",
-  "images": [...],
-  "categories": [3, 12]
-}`} />
-              </div>
-              <div className="bg-muted/50 rounded-lg p-3 text-sm space-y-1">
-                <p className="font-medium">Notes:</p>
-                <ul className="list-disc list-inside text-muted-foreground space-y-1">
-                  <li>Markdown is converted to HTML that matches the web editor output</li>
-                  <li>External image URLs are downloaded and stored on our servers</li>
-                  <li>Duplicate detection: same title + channel within 24h returns 409</li>
-                  <li>Slugs are auto-generated with date prefix and collision handling</li>
-                </ul>
-              </div>
-            </EndpointSection>
-
-            {/* Batch Create */}
-            <EndpointSection
-              method="POST"
-              path="/api/v1/content/articles/batch"
-              description="Create multiple articles"
-              auth="API Key or Bearer JWT"
-            >
-              <div>
-                <h4 className="text-sm font-semibold mb-2">Request Body</h4>
-                <CodeBlock language="json" code={`{
-  "articles": [
-    {
-      "title": "First Article",
-      "content": "# Content...",
-      "contentFormat": "markdown",
-      "channelId": 5,
-      "categoryIds": [3],
-      "published": true
-    },
-    {
-      "title": "Second Article",
-      "content": "# More content...",
-      "contentFormat": "markdown",
-      "channelId": 5,
-      "categoryIds": [4]
-    }
-  ]
-}`} />
+          <div className="border rounded-lg p-5 space-y-4 mb-4">
+            <p className="text-sm text-muted-foreground">
+              Instead of polling, subscribe a URL to events on one of your API keys (from the API Keys page, or the endpoints below). We POST a JSON payload to it whenever one of those events happens to your content. Webhooks stop firing when their key is revoked or expires.
+            </p>
+            <div>
+              <h4 className="text-sm font-semibold mb-2">Events</h4>
+              <div className="space-y-1 text-sm text-muted-foreground">
+                <p><code className="bg-muted px-1 rounded">article.published</code> An article went live (including scheduled articles coming due)</p>
+                <p><code className="bg-muted px-1 rounded">article.updated</code> An article was edited or unpublished</p>
+                <p><code className="bg-muted px-1 rounded">article.deleted</code> An article was deleted</p>
+                <p><code className="bg-muted px-1 rounded">comment.created</code> Someone commented on one of your articles</p>
+                <p><code className="bg-muted px-1 rounded">channel.subscribed</code> Someone subscribed to one of your channels</p>
               </div>
-              <div>
-                <h4 className="text-sm font-semibold mb-2">Response (201)</h4>
-                <CodeBlock language="json" code={`{
-  "created": [
-    { "index": 0, "id": 456, "title": "First Article", "slug": "..." }
-  ],
-  "failed": [
-    { "index": 1, "title": "Second Article", "error": "Channel not found" }
-  ],
-  "summary": { "total": 2, "succeeded": 1, "failed": 1 }
+            </div>
+            <div>
+              <h4 className="text-sm font-semibold mb-2">Request</h4>
+              <CodeBlock code={`POST https://your-app.example.com/webhooks
+Content-Type: application/json
+X-NewsPlatform-Event: article.published
+X-NewsPlatform-Delivery: 6f1c…          // same id on every retry
+X-NewsPlatform-Signature: t=1760875200,v1=5d41402abc4b…
+
+{
+  "id": "6f1c…",
+  "event": "article.published",
+  "createdAt": "2026-10-19T12:00:00.000Z",
+  "data": {
+    "id": 456,
+    "title": "Article Title",
+    "slug": "2026-10-19-article-title",
+    "channelId": 5,
+    "status": "published",
+    "published": true,
+    "publishedAt": "2026-10-19T12:00:00.000Z",
+    "url": "https://www.newsplatform.org/articles/456/2026-10-19-article-title"
+  }
 }`} />
-              </div>
-              <p className="text-sm text-muted-foreground">Maximum 10 articles per batch. Partial failures do not roll back successful creates.</p>
-            </EndpointSection>
-
-            {/* Get Article */}
-            <EndpointSection
-              method="GET"
-              path="/api/v1/content/articles/:id"
-              description="Get article details"
-              auth="API Key or Bearer JWT"
-            >
-              <p className="text-sm text-muted-foreground">
-                Accepts a numeric article ID or slug. Returns full article details including images and categories. Only returns articles you own.
+            </div>
+            <div>
+              <h4 className="text-sm font-semibold mb-2">Verifying signatures</h4>
+              <p className="text-sm text-muted-foreground mb-2">
+                <code>v1</code> is the hex HMAC-SHA256 of <code>{"<t>.<raw body>"}</code>, keyed with the webhook's signing secret. Compute it over the raw request body, compare in constant time, and reject old timestamps to block replays.
               </p>
-              <div>
-                <h4 className="text-sm font-semibold mb-2">Response (200)</h4>
-                <CodeBlock language="json" code={`{
-  "id": 456,
-  "title": "Article Title",
-  "slug": "2026-02-10-article-title",
-  "channelId": 5,
-  "channelName": "Tech News",
-  "status": "published",
-  "published": true,
-  "createdAt": "2026-02-10T...",
-  "viewCount": 150,
-  "url": "/articles/456/2026-02-10-article-title",
-  "images": [...],
-  "categories": [...]
+              <CodeBlock language="javascript" code={`import { createHmac, timingSafeEqual } from "crypto";
+
+function verify(rawBody, header, secret) {
+  const { t, v1 } = Object.fromEntries(header.split(",").map((p) => p.split("=")));
+  if (Math.abs(Date.now() / 1000 - Number(t)) > 300) return false;
+  const expected = createHmac("sha256", secret).update(\`\${t}.\${rawBody}\`).digest("hex");
+  return expected.length === v1.length && timingSafeEqual(Buffer.from(expected), Buffer.from(v1));
 }`} />
-              </div>
-            </EndpointSection>
-
-            {/* List Channels */}
-            <EndpointSection
-              method="GET"
-              path="/api/v1/content/channels"
-              description="List your channels"
-              auth="API Key or Bearer JWT"
-            >
-              <p className="text-sm text-muted-foreground">
-                Returns all channels owned by the authenticated user, with article and subscriber counts.
-              </p>
-              <div>
-                <h4 className="text-sm font-semibold mb-2">Response (200)</h4>
-                <CodeBlock language="json" code={`[
-  {
-    "id": 5,
-    "name": "Tech News",
-    "slug": "tech-news",
-    "description": "Daily technology updates",
-    "category": "Technology",
-    "articleCount": 42,
-    "subscriberCount": 1234
-  }
-]`} />
-              </div>
-            </EndpointSection>
-
-            {/* List Categories */}
-            <EndpointSection
-              method="GET"
-              path="/api/v1/content/categories"
-              description="List all categories"
-              auth="API Key or Bearer JWT"
-            >
-              <p className="text-sm text-muted-foreground">
-                Returns the full category hierarchy. Use category IDs when creating articles.
+            </div>
+            <div className="bg-muted/50 rounded-lg p-4 text-sm">
+              <p className="font-medium mb-1">Retries</p>
+              <p className="text-muted-foreground">
+                Respond with any 2xx within 5 seconds. Otherwise the delivery is retried after 1 minute, 5 minutes, 30 minutes, 2 hours and 12 hours, then marked failed. Every attempt shows up in the webhook's delivery log. Use the delivery id to ignore duplicates.
               </p>
-              <div>
-                <h4 className="text-sm font-semibold mb-2">Response (200)</h4>
-                <CodeBlock language="json" code={`[
-  {
-    "id": 3,
-    "name": "Technology",
-    "parent_id": null,
-    "children": [
-      { "id": 45, "name": "Artificial Intelligence", "parent_id": 3, "children": [] },
-      { "id": 46, "name": "Cybersecurity", "parent_id": 3, "children": [] }
-    ]
-  }
-]`} />
-              </div>
-            </EndpointSection>
+            </div>
           </div>
+          <OperationList tags={["Webhooks"]} spec={spec} specError={specError} />
         </section>
 
+        <OperationGroup
+          title="Administration"
+          icon={<Lock className="h-5 w-5" />}
+          tags={["Admin"]}
+          spec={spec}
+          specError={specError}
+        />
+
         {/* Error Codes */}
         <section className="mb-10">
           <h2 className="text-2xl font-semibold mb-4">Error Codes</h2>
@@ -453,15 +588,40 @@ export default function ApiDocsPage() {
               <tbody className="divide-y">
                 <tr><td className="p-3 font-mono">400</td><td className="p-3 text-muted-foreground">Bad Request — missing or invalid fields</td></tr>
                 <tr><td className="p-3 font-mono">401</td><td className="p-3 text-muted-foreground">Unauthorized — invalid or missing API key / token</td></tr>
-                <tr><td className="p-3 font-mono">403</td><td className="p-3 text-muted-foreground">Forbidden — you don't own this channel or article</td></tr>
+                <tr><td className="p-3 font-mono">403</td><td className="p-3 text-muted-foreground">Forbidden — you don't own this channel or article, or the API key lacks the scope or channel</td></tr>
                 <tr><td className="p-3 font-mono">404</td><td className="p-3 text-muted-foreground">Not Found — channel or article doesn't exist</td></tr>
-                <tr><td className="p-3 font-mono">409</td><td className="p-3 text-muted-foreground">Conflict — duplicate article (same title + channel within 24h)</td></tr>
+                <tr><td className="p-3 font-mono">409</td><td className="p-3 text-muted-foreground">Conflict — duplicate article (same title + channel within 24h), or a request with the same Idempotency-Key is still running</td></tr>
+                <tr><td className="p-3 font-mono">422</td><td className="p-3 text-muted-foreground">Unprocessable — Idempotency-Key was already used with a different body</td></tr>
+                <tr><td className="p-3 font-mono">429</td><td className="p-3 text-muted-foreground">Too Many Requests — rate limit exceeded; wait Retry-After seconds</td></tr>
                 <tr><td className="p-3 font-mono">500</td><td className="p-3 text-muted-foreground">Server Error — something went wrong on our end</td></tr>
               </tbody>
             </table>
           </div>
         </section>
 
+        {/* Idempotency */}
+        <section className="mb-10">
+          <h2 className="text-2xl font-semibold mb-4">Safe Retries</h2>
+          <div className="border rounded-lg p-5 space-y-3 text-sm">
+            <p className="text-muted-foreground">
+              <code className="text-xs">POST /content/articles</code> and <code className="text-xs">POST /content/articles/batch</code> accept an <code className="text-xs">Idempotency-Key</code> header (1-255 visible ASCII characters, e.g. a UUID). Send the same key when retrying after a timeout or network error: if the first request went through, you get its original response back with <code className="text-xs">Idempotent-Replayed: true</code> and nothing is created twice.
+            </p>
+            <CodeBlock code={`curl -X POST ${baseUrl}/api/v1/content/articles \\
+  -H "X-API-Key: nk_your_api_key_here" \\
+  -H "Idempotency-Key: 7c0e9a52-3f1d-4b8e-9a55-2d4c1f6e8b90" \\
+  -H "Content-Type: application/json" \\
+  -d '{"title": "...", "content": "...", "channelId": 5}'`} />
+            <ul className="text-muted-foreground list-disc pl-5 space-y-1">
+              <li>Keys are remembered for 24 hours per account and endpoint.</li>
+              <li>Reusing a key with a different body returns 422.</li>
+              <li>Retrying while the first request is still running returns 409.</li>
+              <li>Server errors (5xx) are not stored, so the same key can be retried.</li>
+              <li>Batch dry runs write nothing and ignore the key.</li>
+              <li>With a key, the title + channel duplicate check is skipped — the key is what prevents duplicates.</li>
+            </ul>
+          </div>
+        </section>
+
         {/* Content Format */}
         <section className="mb-10">
           <h2 className="text-2xl font-semibold mb-4">Content Format</h2>
@@ -510,8 +670,28 @@ export default function ApiDocsPage() {
               </div>
               <div>
                 <p className="font-semibold mb-1">Deduplication</p>
-                <p className="text-muted-foreground">Same title + channel blocked for 24 hours</p>
+                <p className="text-muted-foreground">Same title + channel blocked for 24 hours, unless the request carries an Idempotency-Key</p>
+              </div>
+            </div>
+            <div className="border-t mt-4 pt-4 space-y-3 text-sm">
+              <p className="font-semibold">Rate limits</p>
+              <p className="text-muted-foreground">
+                Requests made with an API key are limited per key with a token bucket: you can burst up to the bucket size, after which tokens refill at a steady rate. Requests authenticated with a Bearer JWT are not limited.
+              </p>
+              <div className="grid gap-2 sm:grid-cols-3 text-muted-foreground">
+                <p><code className="bg-muted px-1 rounded">POST /articles</code> 30 burst, 10/min</p>
+                <p><code className="bg-muted px-1 rounded">POST /articles/batch</code> 5 burst, 1/min</p>
+                <p><code className="bg-muted px-1 rounded">PATCH</code>, <code className="bg-muted px-1 rounded">DELETE</code>, publish/unpublish 60 burst, 20/min</p>
+                <p><code className="bg-muted px-1 rounded">GET</code> endpoints 120 burst, 60/min</p>
               </div>
+              <p className="text-muted-foreground">Every response carries the state of the bucket it used:</p>
+              <CodeBlock code={`X-RateLimit-Limit: 30        // bucket size
+X-RateLimit-Remaining: 29    // requests left right now
+X-RateLimit-Reset: 6         // seconds until the bucket is full again
+Retry-After: 6               // 429 responses only`} />
+              <p className="text-muted-foreground">
+                Daily request counts for each key are shown on the API Keys page.
+              </p>
             </div>
           </div>
         </section>
@@ -5,8 +5,13 @@ import {
   RichArticleContent,
   ReadingProgress,
 } from "@/components/rich-article-content";
+import { LocationMapCard } from "@/components/article-map";
+import { LiveBadge, LiveBlogStream } from "@/components/live-blog";
 import { ArticleCard } from "@/components/article-card";
 import { CommentSection } from "@/components/comment-section";
+import { BookmarkButton } from "@/components/bookmarks";
+import { ArticleStatsDrawer } from "@/components/article-stats-drawer";
+import { useChannelRoles } from "@/components/channel-members";
 import { useParams, useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
 import {
@@ -28,8 +33,10 @@ import {
 } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/use-auth";
+import { useAdminAuth } from "@/hooks/use-admin-auth";
+import { getViewContext, useReadTracking } from "@/hooks/use-read-tracking";
 import { formatDate } from "@/lib/date-utils";
-import { useState, useEffect, useMemo } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
 import { useToast } from "@/hooks/use-toast";
 import { useMutation } from "@tanstack/react-query";
 import {
@@ -83,6 +90,7 @@ type ArticleWithSnakeCase = Article & {
   last_edited?: string | Date;
   status?: string;
   published?: boolean;
+  live_status?: "live" | "ended" | null;
   view_count?: number;
   viewCount?: number;
   commentCount?: number;
@@ -103,6 +111,7 @@ type ArticleWithSnakeCase = Article & {
     comments?: number;
   };
   images?: Array<{ imageUrl: string; caption?: string }>;
+  bylines?: Array<{ id: number; username: string }>;
 };
 
 // Helper function to capitalize the first letter of a string
@@ -191,6 +200,7 @@ export default function ArticlePage() {
   // Extract just the numeric ID portion if it contains a slash
   const articleId = id.includes("/") ? id.split("/")[0] : id;
   const { user } = useAuth();
+  const { isAdmin } = useAdminAuth();
   const [showAuthDialog, setShowAuthDialog] = useState(false);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const { toast } = useToast();
@@ -284,6 +294,28 @@ export default function ArticlePage() {
     !!article &&
     (article.userId === user.id || article.user_id === user.id);
 
+  // Channel editors (and the owner) edit and publish any article in the
+  // channel; contributors edit their own but can't publish them.
+  // Keep in sync with getArticleAccess in server/channel-members.ts
+  const channelRoles = useChannelRoles();
+  const articleRole = articleChannelId ? channelRoles.get(articleChannelId) : undefined;
+  const canPublishArticle =
+    articleRole === "owner" ||
+    articleRole === "editor" ||
+    (isOwner && !articleChannelId);
+  const canEditArticle =
+    canPublishArticle || (isOwner && articleRole === "contributor");
+  // Published live blogs take entries from editors only, since they go out
+  // at once. Keep in sync with canPostLiveUpdates in server/live-blog.ts
+  const liveStatus = article?.live_status ?? (article?.liveStatus as "live" | "ended" | null);
+  const canPostLiveUpdates = article?.published === false ? canEditArticle : canPublishArticle;
+
+  // The channel owner and admins can hide and restore comments
+  const articleChannelOwnerId =
+    (article as any)?.channel?.user_id ?? (article as any)?.channel?.userId;
+  const canModerateComments =
+    isAdmin || (!!user && articleChannelOwnerId === user.id);
+
   // Log ownership debugging info to console
   useEffect(() => {
     if (article && user) {
@@ -489,15 +521,21 @@ export default function ArticlePage() {
   // Check if article is in draft state
   const isDraft = article?.status === "draft" || article?.published === false;
 
+  // The recorded view that read depth is reported against
+  const [viewId, setViewId] = useState<number | null>(null);
+  const articleBodyRef = useRef<HTMLDivElement>(null);
+
   // Increment view count when the article is loaded
   useEffect(() => {
     if (articleId && !isLoading && article) {
       console.log("Recording view for article:", article.slug);
-      apiRequest("POST", `/api/articles/${article.slug}/view`, {})
+      apiRequest("POST", `/api/articles/${article.slug}/view`, getViewContext())
         .then((response) => response.json())
         .then((data) => {
           console.log("View count response:", data);
 
+          if (data.viewId) setViewId(data.viewId);
+
           // Update view count locally if returned from API
           if (data.view_count !== undefined) {
             console.log(`Setting view count override to ${data.view_count}`);
@@ -540,6 +578,9 @@ export default function ArticlePage() {
     }
   }, [articleId, isLoading, article]);
 
+  // Report scroll depth and time on page for the recorded view
+  useReadTracking(article?.slug ?? undefined, viewId, articleBodyRef);
+
   const [likeCount, setLikeCount] = useState(0);
   const [dislikeCount, setDislikeCount] = useState(0);
   const [userReaction, setUserReaction] = useState<boolean | null>(null);
@@ -1244,7 +1285,31 @@ export default function ArticlePage() {
                     className="text-4xl font-bold mb-4 w-full p-2 border border-input bg-background rounded-md"
                   />
                 ) : (
-                  <h1 className="text-4xl font-bold mb-4">{article.title}</h1>
+                  <>
+                    {liveStatus && (
+                      <div className="mb-3">
+                        <LiveBadge status={liveStatus} />
+                      </div>
+                    )}
+                    <h1 className="text-4xl font-bold mb-4">{article.title}</h1>
+                  </>
+                )}
+                {!isEditing && article.bylines && article.bylines.length > 1 && (
+                  <p className="text-muted-foreground -mt-2 mb-4">
+                    By{" "}
+                    {article.bylines.map((byline, index) => (
+                      <span key={byline.id}>
+                        {index > 0 &&
+                          (index === article.bylines!.length - 1 ? " and " : ", ")}
+                        <Link
+                          href={`/users/${byline.username}`}
+                          className="font-medium text-foreground hover:underline"
+                        >
+                          {byline.username}
+                        </Link>
+                      </span>
+                    ))}
+                  </p>
                 )}
               </div>
 
@@ -1273,8 +1338,8 @@ export default function ArticlePage() {
             </div>
 
             <div className="flex justify-between items-start mt-4">
-              {/* Owner actions */}
-              {isOwner && (
+              {/* Owner and channel member actions */}
+              {canEditArticle && (
                 <div className="flex gap-2">
                   {isEditing ? (
                     <>
@@ -1318,21 +1383,23 @@ export default function ArticlePage() {
 
                   {!isEditing && (
                     <>
-                      <Button
-                        variant={isDraft ? "default" : "outline"}
-                        size="sm"
-                        onClick={() => togglePublishMutation.mutate()}
-                        disabled={togglePublishMutation.isPending}
-                      >
-                        {togglePublishMutation.isPending ? (
-                          <Loader2 className="h-4 w-4 animate-spin mr-2" />
-                        ) : isDraft ? (
-                          <ExternalLink className="h-4 w-4 mr-2" />
-                        ) : (
-                          <FileDown className="h-4 w-4 mr-2" />
-                        )}
-                        {isDraft ? "Publish" : "Move to Drafts"}
-                      </Button>
+                      {canPublishArticle && (
+                        <Button
+                          variant={isDraft ? "default" : "outline"}
+                          size="sm"
+                          onClick={() => togglePublishMutation.mutate()}
+                          disabled={togglePublishMutation.isPending}
+                        >
+                          {togglePublishMutation.isPending ? (
+                            <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                          ) : isDraft ? (
+                            <ExternalLink className="h-4 w-4 mr-2" />
+                          ) : (
+                            <FileDown className="h-4 w-4 mr-2" />
+                          )}
+                          {isDraft ? "Publish" : "Move to Drafts"}
+                        </Button>
+                      )}
 
                       <AlertDialog
                         open={showDeleteDialog}
@@ -1363,6 +1430,8 @@ export default function ArticlePage() {
                           </AlertDialogFooter>
                         </AlertDialogContent>
                       </AlertDialog>
+
+                      {isOwner && !isDraft && <ArticleStatsDrawer articleId={article.id} />}
                     </>
                   )}
                 </div>
@@ -1676,13 +1745,29 @@ export default function ArticlePage() {
                   </div>
                 )}
 
+                {article && (
+                  <BookmarkButton
+                    articleId={article.id}
+                    onRequireAuth={() =>
+                      toast({
+                        title: "Authentication Required",
+                        description: "Please log in to save articles",
+                        variant: "destructive",
+                      })
+                    }
+                    showLabel
+                    className="ml-auto h-9 px-3 rounded-md text-primary hover:bg-accent"
+                    iconClassName="h-5 w-5"
+                  />
+                )}
+
                 {/* Replace the Share button with a dropdown menu */}
                 <DropdownMenu>
                   <DropdownMenuTrigger asChild>
                     <Button
                       variant="ghost"
                       size="sm"
-                      className="ml-auto flex items-center text-primary"
+                      className="flex items-center text-primary"
                     >
                       <Share className="h-5 w-5 mr-2" />
                       <span className="text-sm font-medium">Share</span>
@@ -1820,7 +1905,7 @@ export default function ArticlePage() {
             )}
 
           {/* Article content */}
-          <div className="prose dark:prose-invert max-w-none">
+          <div ref={articleBodyRef} className="prose dark:prose-invert max-w-none">
             {/* Article content */}
             {isEditing ? (
               <>
@@ -1914,6 +1999,28 @@ export default function ArticlePage() {
             )}
           </div>
 
+          {/* Live blog: timestamped updates, polled while coverage runs */}
+          {!isEditing && liveStatus && (
+            <LiveBlogStream
+              articleId={article.id}
+              canPost={canPostLiveUpdates}
+              onStatusChange={() =>
+                queryClient.invalidateQueries({ queryKey: [`/api/articles/${articleId}`] })
+              }
+            />
+          )}
+
+          {/* Automatic map of the article's location */}
+          {!isEditing &&
+            article.location_lat != null &&
+            article.location_lng != null && (
+              <LocationMapCard
+                name={article.location_name || article.location}
+                lat={Number(article.location_lat)}
+                lng={Number(article.location_lng)}
+              />
+            )}
+
           {/* Interactive like/dislike buttons at the bottom */}
           <div className="flex items-center gap-4 my-8 border-t border-b py-6">
             {!isEditing && (
@@ -1990,6 +2097,7 @@ export default function ArticlePage() {
             <CommentSection
               articleId={parseInt(articleId)}
               onCommentsLoaded={setRealTimeCommentCount}
+              canModerate={canModerateComments}
             />
           )}
         </article>
@@ -0,0 +1,391 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link, useLocation, useParams } from "wouter";
+import { format, subDays } from "date-fns";
+import type { DateRange } from "react-day-picker";
+import { ArrowLeft, CalendarIcon, Loader2 } from "lucide-react";
+import { Channel } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { NavigationBar } from "@/components/navigation-bar";
+import { ArticleChart } from "@/components/article-chart";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { createSlugUrl } from "@/lib/slug-utils";
+
+// Shape returned by GET /api/channels/:id/analytics
+interface ChannelAnalytics {
+  range: { from: string; to: string };
+  totals: {
+    views: number;
+    uniqueReaders: number;
+    comments: number;
+    newSubscribers: number;
+    subscribers: number;
+    likes: number;
+    dislikes: number;
+    likeRatio: number | null;
+    articles: number;
+  };
+  daily: {
+    date: string;
+    views: number;
+    uniqueReaders: number;
+    comments: number;
+    newSubscribers: number;
+    subscribers: number;
+  }[];
+  topArticles: {
+    id: number;
+    title: string;
+    slug: string | null;
+    publishedAt: string | null;
+    views: number;
+    uniqueReaders: number;
+    likes: number;
+    dislikes: number;
+    comments: number;
+  }[];
+}
+
+type ExtendedChannel = Channel & { user_id?: number };
+
+const PRESETS = [
+  { label: "7 days", days: 7 },
+  { label: "30 days", days: 30 },
+  { label: "90 days", days: 90 },
+];
+
+const toApiDay = (date: Date) => format(date, "yyyy-MM-dd");
+// API days are UTC dates; parse them as local dates for display
+const fromApiDay = (day: string) => new Date(`${day}T00:00:00`);
+
+function lastDays(days: number): { from: Date; to: Date } {
+  const to = new Date();
+  return { from: subDays(to, days - 1), to };
+}
+
+function StatCard({ label, value, hint }: { label: string; value: string; hint?: string }) {
+  return (
+    <Card>
+      <CardContent className="p-4">
+        <p className="text-xs font-medium uppercase tracking-wider text-muted-foreground">
+          {label}
+        </p>
+        <p className="mt-1 text-2xl font-bold">{value}</p>
+        {hint && <p className="text-xs text-muted-foreground">{hint}</p>}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function ChannelAnalyticsPage() {
+  const { user } = useAuth();
+  const { id } = useParams<{ id: string }>();
+  const [, setLocation] = useLocation();
+  const [range, setRange] = useState<{ from: Date; to: Date }>(() => lastDays(30));
+  const [pickerRange, setPickerRange] = useState<DateRange | undefined>();
+  const [pickerOpen, setPickerOpen] = useState(false);
+
+  const { data: channel, isLoading: channelLoading } = useQuery<ExtendedChannel>({
+    queryKey: [`/api/channels/${id}`],
+  });
+  const isOwner =
+    !!channel && !!user && (channel.userId === user.id || channel.user_id === user.id);
+
+  const {
+    data: analytics,
+    isLoading: analyticsLoading,
+    error,
+  } = useQuery<ChannelAnalytics, Error>({
+    queryKey: [
+      `/api/channels/${id}/analytics?from=${toApiDay(range.from)}&to=${toApiDay(range.to)}`,
+    ],
+    enabled: isOwner,
+  });
+
+  if (channelLoading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <NavigationBar />
+        <div className="flex items-center justify-center h-[calc(100vh-64px)]">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      </div>
+    );
+  }
+
+  if (!channel || !isOwner) {
+    return (
+      <div className="min-h-screen bg-background">
+        <NavigationBar />
+        <div className="container max-w-4xl mx-auto py-8 px-4">
+          <div className="text-center">
+            {!channel ? "Channel not found" : "You don't have permission to view this page"}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const labels = (analytics?.daily ?? []).map((d) => format(fromApiDay(d.date), "MMM d"));
+  const totals = analytics?.totals;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <NavigationBar />
+      <div className="container max-w-5xl mx-auto py-8 px-4 space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div className="flex items-center gap-2">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setLocation(`/channels/${id}`)}
+              title="Return to Channel Profile"
+            >
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <div>
+              <h1 className="text-2xl font-bold">Analytics</h1>
+              <p className="text-sm text-muted-foreground">{channel.name}</p>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            {PRESETS.map((preset) => (
+              <Button
+                key={preset.days}
+                variant="outline"
+                size="sm"
+                onClick={() => setRange(lastDays(preset.days))}
+              >
+                {preset.label}
+              </Button>
+            ))}
+            <Popover
+              open={pickerOpen}
+              onOpenChange={(open) => {
+                setPickerOpen(open);
+                if (open) setPickerRange(range);
+              }}
+            >
+              <PopoverTrigger asChild>
+                <Button variant="outline" size="sm" className="gap-2">
+                  <CalendarIcon className="h-4 w-4" />
+                  {format(range.from, "MMM d, yyyy")} – {format(range.to, "MMM d, yyyy")}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0" align="end">
+                <Calendar
+                  mode="range"
+                  numberOfMonths={2}
+                  selected={pickerRange}
+                  onSelect={setPickerRange}
+                  defaultMonth={range.from}
+                  disabled={{ after: new Date() }}
+                />
+                <div className="flex justify-end gap-2 border-t p-3">
+                  <Button variant="ghost" size="sm" onClick={() => setPickerOpen(false)}>
+                    Cancel
+                  </Button>
+                  <Button
+                    size="sm"
+                    disabled={!pickerRange?.from}
+                    onClick={() => {
+                      if (!pickerRange?.from) return;
+                      setRange({ from: pickerRange.from, to: pickerRange.to ?? pickerRange.from });
+                      setPickerOpen(false);
+                    }}
+                  >
+                    Apply
+                  </Button>
+                </div>
+              </PopoverContent>
+            </Popover>
+          </div>
+        </div>
+
+        {analyticsLoading ? (
+          <div className="flex justify-center py-16">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : error || !analytics || !totals ? (
+          <div className="text-center py-16 text-muted-foreground">
+            Failed to load analytics{error?.message ? `: ${error.message}` : ""}
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 gap-4 md:grid-cols-5">
+              <StatCard label="Views" value={totals.views.toLocaleString()} />
+              <StatCard label="Unique readers" value={totals.uniqueReaders.toLocaleString()} />
+              <StatCard
+                label="Subscribers"
+                value={totals.subscribers.toLocaleString()}
+                hint={`+${totals.newSubscribers.toLocaleString()} in this range`}
+              />
+              <StatCard
+                label="Like ratio"
+                value={totals.likeRatio == null ? "—" : `${Math.round(totals.likeRatio * 100)}%`}
+                hint={`${totals.likes} likes · ${totals.dislikes} dislikes`}
+              />
+              <StatCard label="Comments" value={totals.comments.toLocaleString()} />
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Views per day</CardTitle>
+                <CardDescription>
+                  All views and unique readers across the channel's articles
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ArticleChart
+                  spec={{
+                    type: "line",
+                    labels,
+                    series: [
+                      { name: "Views", data: analytics.daily.map((d) => d.views) },
+                      { name: "Unique readers", data: analytics.daily.map((d) => d.uniqueReaders) },
+                    ],
+                  }}
+                />
+              </CardContent>
+            </Card>
+
+            <div className="grid gap-6 md:grid-cols-2">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Subscriber growth</CardTitle>
+                  <CardDescription>Current subscribers by the day they joined</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <ArticleChart
+                    spec={{
+                      type: "area",
+                      labels,
+                      series: [
+                        { name: "Subscribers", data: analytics.daily.map((d) => d.subscribers) },
+                      ],
+                    }}
+                  />
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Comments per day</CardTitle>
+                  <CardDescription>New comments on the channel's articles</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <ArticleChart
+                    spec={{
+                      type: "bar",
+                      labels,
+                      series: [
+                        { name: "Comments", data: analytics.daily.map((d) => d.comments) },
+                      ],
+                    }}
+                  />
+                </CardContent>
+              </Card>
+            </div>
+
+            <div className="grid gap-6 md:grid-cols-3">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Reactions</CardTitle>
+                  <CardDescription>All-time likes and dislikes</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {totals.likes + totals.dislikes === 0 ? (
+                    <p className="py-12 text-center text-sm text-muted-foreground">
+                      No reactions yet
+                    </p>
+                  ) : (
+                    <ArticleChart
+                      spec={{
+                        type: "pie",
+                        labels: ["Likes", "Dislikes"],
+                        series: [{ name: "Reactions", data: [totals.likes, totals.dislikes] }],
+                      }}
+                    />
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card className="md:col-span-2">
+                <CardHeader>
+                  <CardTitle>Top articles</CardTitle>
+                  <CardDescription>Most viewed in this range</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {analytics.topArticles.length === 0 ? (
+                    <p className="py-12 text-center text-sm text-muted-foreground">
+                      No published articles yet
+                    </p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Article</TableHead>
+                          <TableHead className="text-right">Views</TableHead>
+                          <TableHead className="text-right">Readers</TableHead>
+                          <TableHead className="text-right">Likes</TableHead>
+                          <TableHead className="text-right">Comments</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {analytics.topArticles.map((article) => (
+                          <TableRow key={article.id}>
+                            <TableCell className="max-w-[260px] truncate font-medium">
+                              <Link
+                                href={createSlugUrl("/articles/", article.slug ?? "", article.id)}
+                                className="hover:underline"
+                              >
+                                {article.title}
+                              </Link>
+                            </TableCell>
+                            <TableCell className="text-right">{article.views.toLocaleString()}</TableCell>
+                            <TableCell className="text-right">
+                              {article.uniqueReaders.toLocaleString()}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              {article.likes}
+                              {article.dislikes > 0 && (
+                                <span className="text-muted-foreground"> / {article.dislikes}</span>
+                              )}
+                            </TableCell>
+                            <TableCell className="text-right">{article.comments}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
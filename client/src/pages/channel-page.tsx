@@ -64,6 +64,11 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { ImageCropModal } from "@/components/image-crop-modal";
+import {
+  ChannelInviteBanner,
+  ManageMembersDialog,
+  useChannelRoles,
+} from "@/components/channel-members";
 
 type SortField =
   | "title"
@@ -139,7 +144,11 @@ export default function ChannelPage() {
     select: (data) => data || [], // Ensure we always have an array
   });
 
-  // Fetch draft articles for this channel (only for channel owner)
+  // Editors and contributors write for the channel alongside its owner
+  const channelRoles = useChannelRoles();
+  const memberRole = channel ? channelRoles.get(channel.id) : undefined;
+
+  // Fetch draft articles for this channel (owner and members only)
   const { data: drafts, isLoading: loadingDrafts } = useQuery<
     ArticleWithSnakeCase[]
   >({
@@ -147,15 +156,20 @@ export default function ChannelPage() {
     select: (data) => data || [], // Ensure we always have an array
     enabled:
       !!user &&
-      !!(channel?.user_id === user?.id || channel?.userId === user?.id),
+      !!(
+        channel?.user_id === user?.id ||
+        channel?.userId === user?.id ||
+        memberRole
+      ),
   });
 
-  // Fetch all channels owned by the current user
+  // Fetch all channels the current user owns or writes for
   const { data: userChannels, isLoading: loadingUserChannels } = useQuery<
     Channel[]
   >({
     queryKey: ["/api/channels"],
-    select: (channels) => channels.filter((c) => c.userId === user?.id),
+    select: (channels) =>
+      channels.filter((c) => c.userId === user?.id || channelRoles.has(c.id)),
     enabled: !!user, // Only run if user is logged in
   });
 
@@ -190,6 +204,7 @@ export default function ChannelPage() {
 
 
   const isOwner = user?.id === (channel?.user_id || channel?.userId);
+  const isMember = isOwner || !!memberRole;
   // Use the server-provided isSubscribed flag from channel data when available
   // Fall back to client-side calculation if not present (backwards compatibility)
   const isSubscribed =
@@ -693,11 +708,20 @@ export default function ChannelPage() {
                 >
                   {article.title}
                 </Link>
-                {isDrafts && (
-                  <span className="ml-2 text-xs text-muted-foreground">
-                    (Draft)
-                  </span>
-                )}
+                {isDrafts &&
+                  (article.status === "scheduled" ? (
+                    <span className="ml-2 text-xs text-primary">
+                      Scheduled for{" "}
+                      {formatDate(
+                        article.published_at || article.publishedAt,
+                        true
+                      )}
+                    </span>
+                  ) : (
+                    <span className="ml-2 text-xs text-muted-foreground">
+                      (Draft)
+                    </span>
+                  ))}
               </TableCell>
               <TableCell>
                 {formatDate(
@@ -1058,7 +1082,9 @@ export default function ChannelPage() {
                 </div>
               </div>
 
-              {isOwner ? (
+              {channel && <ChannelInviteBanner channelId={channel.id} />}
+
+              {isMember ? (
                 <>
                   <div className="flex items-center justify-between mb-4">
                     <h2 className="text-xl font-semibold">Articles</h2>
@@ -1220,17 +1246,12 @@ export default function ChannelPage() {
                     <Button
                       variant="outline"
                       className="w-full"
-                      disabled
-                      onClick={() =>
-                        toast({
-                          title: "Coming soon",
-                          description:
-                            "Channel analytics feature is coming soon!",
-                        })
-                      }
+                      onClick={() => setLocation(`/channels/${id}/analytics`)}
                     >
                       Channel Analytics
                     </Button>
+
+                    {channel && <ManageMembersDialog channelId={channel.id} />}
                   </div>
                 </div>
               )}
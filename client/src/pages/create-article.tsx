@@ -8,6 +8,7 @@ import { useEffect, useState } from "react";
 import { useSelectedChannel } from "@/hooks/use-selected-channel";
 import { apiRequest } from "@/lib/queryClient";
 import { useQuery } from "@tanstack/react-query";
+import { useChannelRoles } from "@/components/channel-members";
 
 export default function CreateArticle() {
   const { user } = useAuth();
@@ -21,12 +22,15 @@ export default function CreateArticle() {
     enabled: !!user,
   });
 
-  // Filter channels owned by the current user
+  // Filter channels the current user owns or writes for
+  const channelRoles = useChannelRoles();
   const userChannels = user
     ? allChannels.filter(
         (c: Channel) =>
           // Check both camelCase and snake_case versions of the user ID property
-          c.userId === user.id || (c as any).user_id === user.id
+          c.userId === user.id ||
+          (c as any).user_id === user.id ||
+          channelRoles.has(c.id)
       )
     : [];
 
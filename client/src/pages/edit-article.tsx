@@ -1,6 +1,8 @@
 import { NavigationBar } from "@/components/navigation-bar";
 import { ArticleEditor } from "@/components/article-editor";
+import { ArticleRevisionHistory } from "@/components/article-revision-history";
 import { useQuery } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
 import { Article, Channel } from "@shared/schema";
 import { useAuth } from "@/hooks/use-auth";
 import { Redirect, useParams } from "wouter";
@@ -59,6 +61,15 @@ export default function EditArticle() {
   // Combine remote and local data
   const articleData = article || storedArticle;
 
+  // Bumped after a revision restore so the editor remounts with the new content
+  const [editorKey, setEditorKey] = useState(0);
+
+  const handleRevisionRestored = async () => {
+    sessionStorage.removeItem("editArticleData");
+    await queryClient.invalidateQueries({ queryKey: [`/api/articles/${id}`] });
+    setEditorKey((k) => k + 1);
+  };
+
   // Log article data when it's available
   useEffect(() => {
     if (articleData) {
@@ -102,7 +113,17 @@ export default function EditArticle() {
       <div className="container mx-auto max-w-4xl py-8">
         <h1 className="mb-8 text-3xl font-bold">Edit Article</h1>
         {articleData && channels ? (
-          <ArticleEditor existingArticle={articleData} channels={channels} />
+          <>
+            <ArticleEditor
+              key={editorKey}
+              existingArticle={articleData}
+              channels={channels}
+            />
+            <ArticleRevisionHistory
+              articleId={articleData.id}
+              onRestored={handleRevisionRestored}
+            />
+          </>
         ) : (
           <div className="flex flex-1 items-center justify-center">
             <div className="flex flex-col items-center gap-2">
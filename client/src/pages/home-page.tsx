@@ -39,6 +39,7 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { cn } from "@/lib/utils";
 import { useSelectedChannel } from "@/hooks/use-selected-channel";
@@ -48,6 +49,9 @@ import { createSlugUrl } from "@/lib/slug-utils";
 type OrderField = "createdAt" | "viewCount" | "comments" | "likes" | "dislikes";
 type OrderDirection = "asc" | "desc";
 
+// Home feed tabs: the edition ranking, or the per-reader For You ranking
+type FeedTab = "top" | "for-you";
+
 // Define a more flexible type for article that accommodates both camelCase and snake_case
 type ArticleWithSnakeCase = Article & {
   created_at?: string | Date;
@@ -116,6 +120,21 @@ export default function HomePage() {
   const [locationSearchTerm, setLocationSearchTerm] = useState("");
   const [showLocationSuggestions, setShowLocationSuggestions] = useState(false);
   const [availableLocations, setAvailableLocations] = useState<string[]>([]);
+  // Selected feed tab — persisted so returning readers land on their choice.
+  const [feedTab, setFeedTab] = useState<FeedTab>(() =>
+    typeof window !== "undefined" &&
+    localStorage.getItem("np_home_feed") === "for-you"
+      ? "for-you"
+      : "top"
+  );
+  const selectFeedTab = (tab: FeedTab) => {
+    try {
+      localStorage.setItem("np_home_feed", tab);
+    } catch {}
+    setFeedTab(tab);
+  };
+  // For You needs an account; signed-out readers always get Top stories.
+  const showForYou = !!user && feedTab === "for-you";
 
   // Get all articles
   const { data: articles, isLoading: loadingArticles } = useQuery<
@@ -145,6 +164,15 @@ export default function HomePage() {
     enabled: !!user,
   });
 
+  // Personalized For You ranking — ids and scores only; the cards are joined
+  // from the article list above.
+  const { data: forYouFeed, isLoading: loadingForYou } = useQuery<{
+    items: { articleId: number; score: number }[];
+  }>({
+    queryKey: ["/api/feed/for-you"],
+    enabled: showForYou,
+  });
+
   // Homepage algorithm settings (admin-controlled via /admin → Homepage tab).
   // Falls back to sensible defaults if the endpoint/table isn't available yet.
   const { data: algoRaw } = useQuery<any>({
@@ -162,6 +190,15 @@ export default function HomePage() {
       algoRaw?.showReadingNow ?? algoRaw?.show_reading_now ?? true,
   };
 
+  // Trending ranking (view velocity) — only fetched when the admin picked it
+  // for the hero or the Most-read rail.
+  const usesTrending =
+    algo.heroMode === "trending" || algo.mostReadWindow === "trending";
+  const { data: trending } = useQuery<{ id: number }[]>({
+    queryKey: ["/api/articles/trending"],
+    enabled: usesTrending,
+  });
+
   // Filter out user's own channels
   useEffect(() => {
     if (channels && user) {
@@ -459,6 +496,14 @@ export default function HomePage() {
     if (algo.heroMode === "most_read_all_time") {
       return list.reduce((m, a) => (getViews(a) > getViews(m) ? a : m), list[0]);
     }
+    // 'trending': the hottest trending story in the feed. Falls through to the
+    // default below while trending is loading or nothing is trending.
+    if (algo.heroMode === "trending") {
+      for (const t of trending ?? []) {
+        const hot = list.find((a) => a.id === t.id);
+        if (hot) return hot;
+      }
+    }
     // Default 'recency_most_read': most-read within the most recent
     // `heroRecencyHours` of content, so the lead is fresh and never stale.
     // Collapses to simply the newest story when content is sparse.
@@ -475,10 +520,23 @@ export default function HomePage() {
     return best;
   };
 
+  // Server-ranked lists (For You, trending) arrive as ids; cards come from here.
+  const articlesById = new Map((articles ?? []).map((a) => [a.id, a]));
+
+  // For You keeps the server's order as-is: ranking and diversity rules are
+  // already applied, so the hero is simply its first pick.
+  const forYouArticles = (forYouFeed?.items ?? [])
+    .map((item) => articlesById.get(item.articleId))
+    .filter((a): a is ArticleWithSnakeCase => !!a);
+
   let heroArticle: ArticleWithSnakeCase | undefined;
   let moreStories: ArticleWithSnakeCase[] = [];
   let gridArticles: ArticleWithSnakeCase[] = [];
-  if (filteredArticles.length > 0) {
+  if (showForYou) {
+    heroArticle = forYouArticles[0];
+    moreStories = forYouArticles.slice(1, 6);
+    gridArticles = forYouArticles.slice(6);
+  } else if (filteredArticles.length > 0) {
     heroArticle = isDefaultView
       ? pickHero(filteredArticles)
       : filteredArticles[0];
@@ -487,8 +545,8 @@ export default function HomePage() {
     gridArticles = rest.slice(5);
   }
 
-  // "Most read" rail — client-side ranking within the admin-configured window.
-  // TODO: swap for a server-side article_views aggregation (real view events).
+  // "Most read" rail — client-side ranking within the admin-configured window,
+  // or the server's trending order (article_views velocity) when "trending".
   const mostReadWindowHours: Record<string, number> = {
     "24h": 24,
     "7d": 24 * 7,
@@ -498,15 +556,21 @@ export default function HomePage() {
   const mrNow = Date.now();
   // Exclude the hero so it never appears as both the lead and #1 in the rail.
   const notHero = (a: ArticleWithSnakeCase) => a.id !== heroArticle?.id;
-  let mostRead = (articles ? [...articles] : [])
-    .filter(notHero)
-    .filter((a) =>
-      mrWindow === undefined
-        ? true
-        : mrNow - getTime(a) <= mrWindow * 60 * 60 * 1000
-    )
-    .sort((a, b) => getViews(b) - getViews(a))
-    .slice(0, 4);
+  const mrTrending = algo.mostReadWindow === "trending";
+  let mostRead = mrTrending
+    ? (trending ?? [])
+        .map((t) => articlesById.get(t.id))
+        .filter((a): a is ArticleWithSnakeCase => !!a && notHero(a))
+        .slice(0, 4)
+    : (articles ? [...articles] : [])
+        .filter(notHero)
+        .filter((a) =>
+          mrWindow === undefined
+            ? true
+            : mrNow - getTime(a) <= mrWindow * 60 * 60 * 1000
+        )
+        .sort((a, b) => getViews(b) - getViews(a))
+        .slice(0, 4);
   // If the window yields nothing (e.g. only older content), fall back to
   // all-time top reads so the rail is never awkwardly empty.
   if (mostRead.length === 0 && articles?.length) {
@@ -551,6 +615,8 @@ export default function HomePage() {
           if (categoryId) {
             setFilterCategories([]);
             setSearchTerm("");
+            // Category browsing happens on the Top stories ranking
+            selectFeedTab("top");
           }
         }}
         userLocation={userLocation}
@@ -605,238 +671,259 @@ export default function HomePage() {
 
             {/* Header section */}
             <div>
+              {user && (
+                <Tabs
+                  value={feedTab}
+                  onValueChange={(value) => selectFeedTab(value as FeedTab)}
+                  className="mb-3"
+                >
+                  <TabsList>
+                    <TabsTrigger value="top">Top stories</TabsTrigger>
+                    <TabsTrigger value="for-you">For You</TabsTrigger>
+                  </TabsList>
+                </Tabs>
+              )}
               <h1 className="text-3xl font-display font-bold">
-                {ribbonCategory
-                  ? ribbonCategory.charAt(0).toUpperCase() + ribbonCategory.slice(1) + " News"
-                  : "Top stories"}
+                {showForYou
+                  ? "For You"
+                  : ribbonCategory
+                    ? ribbonCategory.charAt(0).toUpperCase() + ribbonCategory.slice(1) + " News"
+                    : "Top stories"}
               </h1>
               <div className="flex justify-between items-center mt-2">
                 <p className="text-muted-foreground">
-                  {ribbonCategory
-                    ? `Showing ${ribbonCategory} articles`
-                    : user
-                      ? "Fresh stories from your favorite channels"
-                      : "Today's top stories from across NewsPlatform"}
+                  {showForYou
+                    ? "Picked from your subscriptions, likes and reading history"
+                    : ribbonCategory
+                      ? `Showing ${ribbonCategory} articles`
+                      : user
+                        ? "Fresh stories from your favorite channels"
+                        : "Today's top stories from across NewsPlatform"}
                 </p>
 
                 {/* Article control buttons - now contained in article column */}
                 <div className="flex items-center gap-3">
-                  {/* Order Dropdown */}
-                  <DropdownMenu>
-                    <DropdownMenuTrigger asChild>
-                      <Button variant="outline" className="gap-2">
-                        <SlidersHorizontal className="h-4 w-4" />
-                        Sort
-                        {orderDirection === "asc" ? (
-                          <ChevronUp className="h-3 w-3" />
-                        ) : (
-                          <ChevronDown className="h-3 w-3" />
-                        )}
-                      </Button>
-                    </DropdownMenuTrigger>
-                    <DropdownMenuContent align="end" className="w-56">
-                      <DropdownMenuLabel>Sort Articles By</DropdownMenuLabel>
-                      <DropdownMenuSeparator />
-                      <DropdownMenuRadioGroup
-                        value={orderField}
-                        onValueChange={(value) =>
-                          setOrderField(value as OrderField)
-                        }
-                      >
-                        <DropdownMenuRadioItem value="createdAt">
-                          Published Date
-                        </DropdownMenuRadioItem>
-                        <DropdownMenuRadioItem value="viewCount">
-                          View Count
-                        </DropdownMenuRadioItem>
-                        <DropdownMenuRadioItem value="comments">
-                          Comment Count
-                        </DropdownMenuRadioItem>
-                        <DropdownMenuRadioItem value="likes">
-                          Likes
-                        </DropdownMenuRadioItem>
-                        <DropdownMenuRadioItem value="dislikes">
-                          Dislikes
-                        </DropdownMenuRadioItem>
-                      </DropdownMenuRadioGroup>
-                      <DropdownMenuSeparator />
-                      <DropdownMenuItem onClick={toggleDirection}>
-                        {orderDirection === "asc"
-                          ? "Ascending ↑"
-                          : "Descending ↓"}
-                      </DropdownMenuItem>
-                    </DropdownMenuContent>
-                  </DropdownMenu>
-
-                  {/* Filter Popover */}
-                  <Popover>
-                    <PopoverTrigger asChild>
-                      <Button variant="outline" className="gap-2 relative">
-                        <Filter className="h-4 w-4" />
-                        Filter
-                        {activeFilterCount > 0 && (
-                          <Badge
-                            className="absolute -top-2 -right-2 h-5 w-5 p-0 flex items-center justify-center"
-                            variant="destructive"
+                  {/* Sort and filter apply to Top stories; For You has its own order */}
+                  {!showForYou && (
+                    <>
+                      {/* Order Dropdown */}
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="outline" className="gap-2">
+                            <SlidersHorizontal className="h-4 w-4" />
+                            Sort
+                            {orderDirection === "asc" ? (
+                              <ChevronUp className="h-3 w-3" />
+                            ) : (
+                              <ChevronDown className="h-3 w-3" />
+                            )}
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end" className="w-56">
+                          <DropdownMenuLabel>Sort Articles By</DropdownMenuLabel>
+                          <DropdownMenuSeparator />
+                          <DropdownMenuRadioGroup
+                            value={orderField}
+                            onValueChange={(value) =>
+                              setOrderField(value as OrderField)
+                            }
                           >
-                            {activeFilterCount}
-                          </Badge>
-                        )}
-                      </Button>
-                    </PopoverTrigger>
-                    <PopoverContent align="end" className="w-80">
-                      <div className="space-y-4">
-                        <h4 className="font-medium">Filter Articles</h4>
-
-                        {/* Search */}
-                        <div className="space-y-2">
-                          <Label htmlFor="search">Search</Label>
-                          <div className="relative">
-                            <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
-                            <Input
-                              id="search"
-                              placeholder="Search in title or content..."
-                              className="pl-8"
-                              value={searchTerm}
-                              onChange={(e) => setSearchTerm(e.target.value)}
-                            />
-                          </div>
-                        </div>
+                            <DropdownMenuRadioItem value="createdAt">
+                              Published Date
+                            </DropdownMenuRadioItem>
+                            <DropdownMenuRadioItem value="viewCount">
+                              View Count
+                            </DropdownMenuRadioItem>
+                            <DropdownMenuRadioItem value="comments">
+                              Comment Count
+                            </DropdownMenuRadioItem>
+                            <DropdownMenuRadioItem value="likes">
+                              Likes
+                            </DropdownMenuRadioItem>
+                            <DropdownMenuRadioItem value="dislikes">
+                              Dislikes
+                            </DropdownMenuRadioItem>
+                          </DropdownMenuRadioGroup>
+                          <DropdownMenuSeparator />
+                          <DropdownMenuItem onClick={toggleDirection}>
+                            {orderDirection === "asc"
+                              ? "Ascending ↑"
+                              : "Descending ↓"}
+                          </DropdownMenuItem>
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+
+                      {/* Filter Popover */}
+                      <Popover>
+                        <PopoverTrigger asChild>
+                          <Button variant="outline" className="gap-2 relative">
+                            <Filter className="h-4 w-4" />
+                            Filter
+                            {activeFilterCount > 0 && (
+                              <Badge
+                                className="absolute -top-2 -right-2 h-5 w-5 p-0 flex items-center justify-center"
+                                variant="destructive"
+                              >
+                                {activeFilterCount}
+                              </Badge>
+                            )}
+                          </Button>
+                        </PopoverTrigger>
+                        <PopoverContent align="end" className="w-80">
+                          <div className="space-y-4">
+                            <h4 className="font-medium">Filter Articles</h4>
 
-                        {/* Categories */}
-                        <div className="space-y-2">
-                          <Label>Categories</Label>
-                          <ScrollArea className="h-32">
+                            {/* Search */}
                             <div className="space-y-2">
-                              {availableCategories.map((category) => (
-                                <div
-                                  key={category}
-                                  className="flex items-center space-x-2"
-                                >
-                                  <Checkbox
-                                    id={`category-${category}`}
-                                    checked={filterCategories.includes(
-                                      category
-                                    )}
-                                    onCheckedChange={() =>
-                                      toggleCategory(category)
-                                    }
-                                  />
-                                  <Label
-                                    htmlFor={`category-${category}`}
-                                    className="capitalize"
-                                  >
-                                    {category}
-                                  </Label>
+                              <Label htmlFor="search">Search</Label>
+                              <div className="relative">
+                                <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+                                <Input
+                                  id="search"
+                                  placeholder="Search in title or content..."
+                                  className="pl-8"
+                                  value={searchTerm}
+                                  onChange={(e) => setSearchTerm(e.target.value)}
+                                />
+                              </div>
+                            </div>
+
+                            {/* Categories */}
+                            <div className="space-y-2">
+                              <Label>Categories</Label>
+                              <ScrollArea className="h-32">
+                                <div className="space-y-2">
+                                  {availableCategories.map((category) => (
+                                    <div
+                                      key={category}
+                                      className="flex items-center space-x-2"
+                                    >
+                                      <Checkbox
+                                        id={`category-${category}`}
+                                        checked={filterCategories.includes(
+                                          category
+                                        )}
+                                        onCheckedChange={() =>
+                                          toggleCategory(category)
+                                        }
+                                      />
+                                      <Label
+                                        htmlFor={`category-${category}`}
+                                        className="capitalize"
+                                      >
+                                        {category}
+                                      </Label>
+                                    </div>
+                                  ))}
                                 </div>
-                              ))}
+                              </ScrollArea>
                             </div>
-                          </ScrollArea>
-                        </div>
 
-                        {/* Locations */}
-                        <div className="space-y-2">
-                          <Label htmlFor="location-search">Location</Label>
-                          <div className="relative">
-                            <MapPin className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
-                            <Input
-                              id="location-search"
-                              placeholder="Search by location..."
-                              className="pl-8"
-                              value={locationSearchTerm}
-                              onChange={(e) => {
-                                setLocationSearchTerm(e.target.value);
-                                setShowLocationSuggestions(true);
-                              }}
-                              onFocus={() => setShowLocationSuggestions(true)}
-                              onBlur={() => {
-                                // Delay to allow clicking on suggestions
-                                setTimeout(() => setShowLocationSuggestions(false), 200);
-                              }}
-                            />
+                            {/* Locations */}
+                            <div className="space-y-2">
+                              <Label htmlFor="location-search">Location</Label>
+                              <div className="relative">
+                                <MapPin className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+                                <Input
+                                  id="location-search"
+                                  placeholder="Search by location..."
+                                  className="pl-8"
+                                  value={locationSearchTerm}
+                                  onChange={(e) => {
+                                    setLocationSearchTerm(e.target.value);
+                                    setShowLocationSuggestions(true);
+                                  }}
+                                  onFocus={() => setShowLocationSuggestions(true)}
+                                  onBlur={() => {
+                                    // Delay to allow clicking on suggestions
+                                    setTimeout(() => setShowLocationSuggestions(false), 200);
+                                  }}
+                                />
                             
-                            {/* Typeahead suggestions */}
-                            {showLocationSuggestions && locationSearchTerm && (
-                              <div className="absolute top-full left-0 right-0 mt-1 max-h-48 overflow-y-auto rounded-md border bg-popover p-1 shadow-md z-50">
-                                {availableLocations
-                                  .filter(location => 
-                                    location.toLowerCase().includes(locationSearchTerm.toLowerCase())
-                                  )
-                                  .slice(0, 8) // Show max 8 suggestions
-                                  .map((location) => (
-                                    <button
-                                      key={location}
-                                      className="flex w-full items-center gap-2 rounded-sm px-2 py-1.5 text-sm hover:bg-accent hover:text-accent-foreground"
-                                      onClick={() => {
-                                        setLocationSearchTerm(location);
-                                        setShowLocationSuggestions(false);
-                                      }}
-                                    >
-                                      <MapPin className="h-3 w-3" />
-                                      {location}
-                                    </button>
-                                  ))
-                                }
-                                {availableLocations.filter(location => 
-                                  location.toLowerCase().includes(locationSearchTerm.toLowerCase())
-                                ).length === 0 && (
-                                  <p className="px-2 py-1.5 text-sm text-muted-foreground">
-                                    No locations found
-                                  </p>
+                                {/* Typeahead suggestions */}
+                                {showLocationSuggestions && locationSearchTerm && (
+                                  <div className="absolute top-full left-0 right-0 mt-1 max-h-48 overflow-y-auto rounded-md border bg-popover p-1 shadow-md z-50">
+                                    {availableLocations
+                                      .filter(location => 
+                                        location.toLowerCase().includes(locationSearchTerm.toLowerCase())
+                                      )
+                                      .slice(0, 8) // Show max 8 suggestions
+                                      .map((location) => (
+                                        <button
+                                          key={location}
+                                          className="flex w-full items-center gap-2 rounded-sm px-2 py-1.5 text-sm hover:bg-accent hover:text-accent-foreground"
+                                          onClick={() => {
+                                            setLocationSearchTerm(location);
+                                            setShowLocationSuggestions(false);
+                                          }}
+                                        >
+                                          <MapPin className="h-3 w-3" />
+                                          {location}
+                                        </button>
+                                      ))
+                                    }
+                                    {availableLocations.filter(location => 
+                                      location.toLowerCase().includes(locationSearchTerm.toLowerCase())
+                                    ).length === 0 && (
+                                      <p className="px-2 py-1.5 text-sm text-muted-foreground">
+                                        No locations found
+                                      </p>
+                                    )}
+                                  </div>
                                 )}
                               </div>
-                            )}
-                          </div>
-                          {locationSearchTerm && (
-                            <p className="text-xs text-muted-foreground">
-                              Filtering articles from "{locationSearchTerm}"
-                            </p>
-                          )}
-                        </div>
+                              {locationSearchTerm && (
+                                <p className="text-xs text-muted-foreground">
+                                  Filtering articles from "{locationSearchTerm}"
+                                </p>
+                              )}
+                            </div>
 
-                        {/* Channels */}
-                        {channels && channels.length > 0 && (
-                          <div className="space-y-2">
-                            <Label>Channels</Label>
-                            <ScrollArea className="h-32">
+                            {/* Channels */}
+                            {channels && channels.length > 0 && (
                               <div className="space-y-2">
-                                {channels.map((channel) => (
-                                  <div
-                                    key={channel.id}
-                                    className="flex items-center space-x-2"
-                                  >
-                                    <Checkbox
-                                      id={`channel-${channel.id}`}
-                                      checked={filterChannels.includes(
-                                        channel.id
-                                      )}
-                                      onCheckedChange={() =>
-                                        toggleChannel(channel.id)
-                                      }
-                                    />
-                                    <Label htmlFor={`channel-${channel.id}`}>
-                                      {channel.name}
-                                    </Label>
+                                <Label>Channels</Label>
+                                <ScrollArea className="h-32">
+                                  <div className="space-y-2">
+                                    {channels.map((channel) => (
+                                      <div
+                                        key={channel.id}
+                                        className="flex items-center space-x-2"
+                                      >
+                                        <Checkbox
+                                          id={`channel-${channel.id}`}
+                                          checked={filterChannels.includes(
+                                            channel.id
+                                          )}
+                                          onCheckedChange={() =>
+                                            toggleChannel(channel.id)
+                                          }
+                                        />
+                                        <Label htmlFor={`channel-${channel.id}`}>
+                                          {channel.name}
+                                        </Label>
+                                      </div>
+                                    ))}
                                   </div>
-                                ))}
+                                </ScrollArea>
                               </div>
-                            </ScrollArea>
+                            )}
+
+                            {/* Clear filters button */}
+                            {activeFilterCount > 0 && (
+                              <Button
+                                variant="outline"
+                                className="w-full"
+                                onClick={clearFilters}
+                              >
+                                Clear All Filters
+                              </Button>
+                            )}
                           </div>
-                        )}
-
-                        {/* Clear filters button */}
-                        {activeFilterCount > 0 && (
-                          <Button
-                            variant="outline"
-                            className="w-full"
-                            onClick={clearFilters}
-                          >
-                            Clear All Filters
-                          </Button>
-                        )}
-                      </div>
-                    </PopoverContent>
-                  </Popover>
+                        </PopoverContent>
+                      </Popover>
+                    </>
+                  )}
 
                   {/* Write Article Button */}
                   {user && (
@@ -858,7 +945,7 @@ export default function HomePage() {
             </div>
 
             {/* Display active filters */}
-            {activeFilterCount > 0 && (
+            {!showForYou && activeFilterCount > 0 && (
               <div className="flex flex-wrap gap-2 mb-4">
                 {orderField !== "createdAt" && (
                   <Badge
@@ -947,7 +1034,8 @@ export default function HomePage() {
             )}
 
             {/* Articles list */}
-            {loadingArticles || (!!articles && !filtersReady) ? (
+            {loadingArticles ||
+            (showForYou ? loadingForYou : !!articles && !filtersReady) ? (
               /* Skeleton mirrors the edition layout: hero + story rows */
               <div className="space-y-8">
                 <div>
@@ -969,7 +1057,12 @@ export default function HomePage() {
                   ))}
                 </div>
               </div>
-            ) : filteredArticles.length === 0 ? (
+            ) : showForYou && forYouArticles.length === 0 ? (
+              <div className="text-center py-12 text-muted-foreground">
+                Nothing to recommend yet. Follow a few channels and like the
+                stories you enjoy, and this feed will fill up.
+              </div>
+            ) : !showForYou && filteredArticles.length === 0 ? (
               <div className="text-center py-12 text-muted-foreground">
                 {articles && articles.length > 0
                   ? "No articles match your filters"
@@ -985,12 +1078,15 @@ export default function HomePage() {
                       variant="hero"
                       showReadingNow={algo.showReadingNow}
                       eyebrow={
-                        algo.heroMode === "manual_sponsored" &&
-                        heroArticle.id === algo.featuredArticleId
-                          ? "Sponsored"
-                          : undefined
+                        showForYou
+                          ? "Picked for you"
+                          : algo.heroMode === "manual_sponsored" &&
+                              heroArticle.id === algo.featuredArticleId
+                            ? "Sponsored"
+                            : undefined
                       }
                       eyebrowColor={
+                        !showForYou &&
                         algo.heroMode === "manual_sponsored" &&
                         heroArticle.id === algo.featuredArticleId
                           ? "hsl(var(--cat-business))"
@@ -1004,7 +1100,7 @@ export default function HomePage() {
                 {moreStories.length > 0 && (
                   <div>
                     <h2 className="mb-1 text-xs font-bold uppercase tracking-wider text-muted-foreground">
-                      More top stories
+                      {showForYou ? "More for you" : "More top stories"}
                     </h2>
                     <div>
                       {moreStories.map((article) => (
@@ -1093,7 +1189,7 @@ export default function HomePage() {
             {mostRead.length > 0 && (
               <div>
                 <h2 className="text-xl font-display font-bold mb-4">
-                  Most read
+                  {mrTrending ? "Trending" : "Most read"}
                 </h2>
                 <ol className="space-y-4">
                   {mostRead.map((article, i) => {
@@ -57,6 +57,8 @@ import {
 } from "@/components/ui/tooltip";
 import { getQueryFn } from "../lib/queryClient";
 import { createSlugUrl } from "@/lib/slug-utils";
+import { DigestPreferencesControl } from "@/components/digest-preferences";
+import { SavedArticles } from "@/components/bookmarks";
 
 // Extended User type to include created_at and profile images
 type ExtendedUser = User & {
@@ -608,6 +610,7 @@ export default function ProfilePage() {
                 </CardDescription>
               </CardHeader>
               <CardContent>
+                <DigestPreferencesControl />
                 {!effectiveSubscriptionCount ? (
                   <div className="text-center py-4 text-muted-foreground">
                     Not yet subscribed to any channels
@@ -739,6 +742,21 @@ export default function ProfilePage() {
             </Card>
           )}
 
+          {/* Saved articles (bookmarks) are private, so own profile only */}
+          {isOwnProfile && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Saved</CardTitle>
+                <CardDescription>
+                  Articles you saved to read later, with your private notes
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <SavedArticles />
+              </CardContent>
+            </Card>
+          )}
+
           {/* Always show My Channels section for logged in users */}
           {isOwnProfile && (
             <Card>
@@ -0,0 +1,326 @@
+import { NavigationBar } from "@/components/navigation-bar";
+import { useQuery } from "@tanstack/react-query";
+import { Link, useLocation, useSearch } from "wouter";
+import { useEffect, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Loader2, Search, MapPin } from "lucide-react";
+import { formatDate } from "@/lib/date-utils";
+import { createSlugUrl } from "@/lib/slug-utils";
+
+// Shape returned by GET /api/search
+interface SearchResponse {
+  query: string;
+  articles: {
+    id: number;
+    title: string;
+    slug: string | null;
+    titleHighlight: string;
+    snippet: string;
+    category: string | null;
+    locationName: string | null;
+    publishedAt: string | null;
+    createdAt: string;
+    channel: { id: number; name: string; slug: string | null } | null;
+    url: string;
+  }[];
+  totalArticles: number;
+  channels: {
+    id: number;
+    name: string;
+    slug: string | null;
+    description: string;
+    category: string | null;
+  }[];
+  categories: { id: number; name: string; parentId: number | null }[];
+}
+
+const PAGE_SIZE = 20;
+const FILTER_KEYS = ["category", "location", "from", "to"] as const;
+
+// Snippets come back with <mark> around matches. Render them as React nodes
+// rather than raw HTML so stray markup in article text can't leak through.
+function Highlighted({ text }: { text: string }) {
+  const decode = (s: string) =>
+    new DOMParser().parseFromString(s, "text/html").body.textContent || "";
+  return (
+    <>
+      {text.split(/(<mark>[\s\S]*?<\/mark>)/g).map((part, i) =>
+        part.startsWith("<mark>") ? (
+          <mark key={i} className="bg-yellow-200 dark:bg-yellow-700/60 rounded-sm px-0.5">
+            {decode(part.slice(6, -7))}
+          </mark>
+        ) : (
+          <span key={i}>{decode(part)}</span>
+        )
+      )}
+    </>
+  );
+}
+
+export default function SearchPage() {
+  const search = useSearch();
+  const [, setLocation] = useLocation();
+  const params = new URLSearchParams(search);
+  const q = params.get("q") || "";
+  const type = params.get("type") || "all";
+  const offset = parseInt(params.get("offset") || "0", 10) || 0;
+
+  const [draft, setDraft] = useState({
+    q,
+    category: params.get("category") || "",
+    location: params.get("location") || "",
+    from: params.get("from") || "",
+    to: params.get("to") || "",
+  });
+
+  // Keep the form in sync when the URL changes (e.g. a new nav-bar search)
+  useEffect(() => {
+    const p = new URLSearchParams(search);
+    setDraft({
+      q: p.get("q") || "",
+      category: p.get("category") || "",
+      location: p.get("location") || "",
+      from: p.get("from") || "",
+      to: p.get("to") || "",
+    });
+  }, [search]);
+
+  const updateUrl = (changes: Record<string, string>) => {
+    const next = new URLSearchParams(search);
+    for (const [key, value] of Object.entries(changes)) {
+      if (value) next.set(key, value);
+      else next.delete(key);
+    }
+    setLocation(`/search?${next.toString()}`);
+  };
+
+  const apiParams = new URLSearchParams(search);
+  apiParams.set("limit", String(PAGE_SIZE));
+  const { data, isLoading, error } = useQuery<SearchResponse>({
+    queryKey: [`/api/search?${apiParams.toString()}`],
+    enabled: q.trim().length >= 2,
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateUrl({ ...draft, q: draft.q.trim(), offset: "" });
+  };
+
+  const hasFilters = FILTER_KEYS.some((key) => params.get(key));
+
+  return (
+    <div className="min-h-screen bg-background">
+      <NavigationBar />
+      <div className="container mx-auto max-w-4xl px-4 py-6">
+        <h1 className="text-3xl font-bold mb-4">Search</h1>
+
+        <form onSubmit={handleSubmit} className="space-y-3 mb-6">
+          <div className="flex gap-2">
+            <Input
+              value={draft.q}
+              onChange={(e) => setDraft({ ...draft, q: e.target.value })}
+              placeholder="Search articles, channels and categories"
+              aria-label="Search"
+              autoFocus
+            />
+            <Button type="submit">
+              <Search className="h-4 w-4 mr-2" />
+              Search
+            </Button>
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+            <Input
+              value={draft.category}
+              onChange={(e) => setDraft({ ...draft, category: e.target.value })}
+              placeholder="Category"
+              aria-label="Category"
+            />
+            <Input
+              value={draft.location}
+              onChange={(e) => setDraft({ ...draft, location: e.target.value })}
+              placeholder="Location"
+              aria-label="Location"
+            />
+            <Input
+              type="date"
+              value={draft.from}
+              onChange={(e) => setDraft({ ...draft, from: e.target.value })}
+              aria-label="From date"
+            />
+            <Input
+              type="date"
+              value={draft.to}
+              onChange={(e) => setDraft({ ...draft, to: e.target.value })}
+              aria-label="To date"
+            />
+          </div>
+          {hasFilters && (
+            <Button
+              type="button"
+              variant="link"
+              size="sm"
+              className="px-0"
+              onClick={() =>
+                updateUrl({ category: "", location: "", from: "", to: "", offset: "" })
+              }
+            >
+              Clear filters
+            </Button>
+          )}
+        </form>
+
+        <Tabs
+          value={type}
+          onValueChange={(value) =>
+            updateUrl({ type: value === "all" ? "" : value, offset: "" })
+          }
+          className="mb-6"
+        >
+          <TabsList>
+            <TabsTrigger value="all">All</TabsTrigger>
+            <TabsTrigger value="articles">Articles</TabsTrigger>
+            <TabsTrigger value="channels">Channels</TabsTrigger>
+            <TabsTrigger value="categories">Categories</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        {q.trim().length < 2 ? (
+          <p className="text-muted-foreground">
+            Type at least two characters to search.
+          </p>
+        ) : isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : error || !data ? (
+          <p className="text-destructive">Search failed. Please try again.</p>
+        ) : (
+          <div className="space-y-8">
+            {data.categories.length > 0 && (
+              <section>
+                <h2 className="text-lg font-semibold mb-2">Categories</h2>
+                <div className="flex flex-wrap gap-2">
+                  {data.categories.map((category) => (
+                    <Badge
+                      key={category.id}
+                      variant="secondary"
+                      className="cursor-pointer"
+                      onClick={() =>
+                        updateUrl({
+                          type: "articles",
+                          category: String(category.id),
+                          offset: "",
+                        })
+                      }
+                    >
+                      {category.name}
+                    </Badge>
+                  ))}
+                </div>
+              </section>
+            )}
+
+            {data.channels.length > 0 && (
+              <section>
+                <h2 className="text-lg font-semibold mb-2">Channels</h2>
+                <ul className="divide-y rounded-md border">
+                  {data.channels.map((channel) => (
+                    <li key={channel.id} className="px-4 py-3">
+                      <Link
+                        href={createSlugUrl("/channels/", channel.slug || "", channel.id)}
+                        className="font-medium text-primary hover:underline"
+                      >
+                        {channel.name}
+                      </Link>
+                      <p className="text-sm text-muted-foreground line-clamp-2">
+                        {channel.description}
+                      </p>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            )}
+
+            {(type === "all" || type === "articles") && (
+              <section>
+                <h2 className="text-lg font-semibold mb-2">
+                  Articles{" "}
+                  <span className="text-sm font-normal text-muted-foreground">
+                    ({data.totalArticles})
+                  </span>
+                </h2>
+                {data.articles.length === 0 ? (
+                  <p className="text-muted-foreground">
+                    No articles match “{data.query}”.
+                  </p>
+                ) : (
+                  <ul className="space-y-5">
+                    {data.articles.map((article) => (
+                      <li key={article.id}>
+                        <Link
+                          href={article.url}
+                          className="text-lg font-medium text-primary hover:underline"
+                        >
+                          <Highlighted text={article.titleHighlight || article.title} />
+                        </Link>
+                        <div className="text-xs text-muted-foreground flex flex-wrap items-center gap-2 mt-0.5">
+                          {article.channel && <span>{article.channel.name}</span>}
+                          <span>{formatDate(article.publishedAt || article.createdAt)}</span>
+                          {article.category && <span>{article.category}</span>}
+                          {article.locationName && (
+                            <span className="flex items-center gap-0.5">
+                              <MapPin className="h-3 w-3" />
+                              {article.locationName}
+                            </span>
+                          )}
+                        </div>
+                        {article.snippet && (
+                          <p className="text-sm mt-1">
+                            <Highlighted text={article.snippet} />
+                          </p>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                {data.totalArticles > PAGE_SIZE && (
+                  <div className="flex justify-between mt-6">
+                    <Button
+                      variant="outline"
+                      disabled={offset === 0}
+                      onClick={() =>
+                        updateUrl({ offset: String(Math.max(offset - PAGE_SIZE, 0)) })
+                      }
+                    >
+                      Previous
+                    </Button>
+                    <Button
+                      variant="outline"
+                      disabled={offset + PAGE_SIZE >= data.totalArticles}
+                      onClick={() => updateUrl({ offset: String(offset + PAGE_SIZE) })}
+                    >
+                      Next
+                    </Button>
+                  </div>
+                )}
+              </section>
+            )}
+
+            {type !== "all" &&
+              type !== "articles" &&
+              data.channels.length === 0 &&
+              data.categories.length === 0 && (
+                <p className="text-muted-foreground">
+                  No {type} match “{data.query}”.
+                </p>
+              )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -14,10 +14,11 @@ export type ArticleWithSnakeCase = Article & {
   comment_count?: number;
   like_count?: number;
   last_edited?: string | Date;
+  live_status?: "live" | "ended" | null;
   
   // Additional fields from API responses
   published?: boolean;
-  status?: "published" | "draft";
+  status?: "published" | "draft" | "scheduled";
   categoryId?: number;
   locationId?: number;
   // New location fields for MapboxLocationPicker
@@ -5,6 +5,7 @@ import express from 'express';
 import { createServer } from 'http';
 import { VercelRequest, VercelResponse } from '@vercel/node';
 import handler from '../api/index';
+import { buildOpenApiSpec } from '../server/openapi';
 
 // Set environment variables for development
 process.env.NODE_ENV = 'development';
@@ -38,6 +39,11 @@ app.use((req, res, next) => {
   next();
 });
 
+// On Vercel this path is rewritten to the build-time dist/public/openapi.json
+app.get('/api/v1/openapi.json', (_req, res) => {
+  res.json(buildOpenApiSpec());
+});
+
 // Route all API requests to the serverless handler
 app.all('/api/:path*', async (req, res) => {
   // Convert Express req/res to Vercel req/res format
@@ -0,0 +1,25 @@
+// Writes the v1 OpenAPI spec to dist/public/openapi.json, where production
+// serves it (vercel.json rewrites /api/v1/openapi.json to it). Run after
+// `vite build`, which empties dist/public.
+//
+//   npm run openapi
+import { mkdirSync, writeFileSync } from "fs";
+import { dirname, resolve } from "path";
+import { apiKeyScopeSchema, webhookEventSchema } from "@shared/schema";
+import { API_KEY_SCOPES } from "../server/api-auth";
+import { WEBHOOK_EVENTS } from "../server/webhooks";
+import { buildOpenApiSpec } from "../server/openapi";
+
+// The published enums are copies; fail the build rather than ship stale ones
+function assertSameValues(name: string, published: readonly string[], actual: readonly string[]) {
+  if ([...published].sort().join() !== [...actual].sort().join()) {
+    throw new Error(`${name} in shared/schema.ts is out of sync with the server`);
+  }
+}
+assertSameValues("apiKeyScopeSchema", apiKeyScopeSchema.options, API_KEY_SCOPES);
+assertSameValues("webhookEventSchema", webhookEventSchema.options, WEBHOOK_EVENTS);
+
+const outFile = resolve(process.argv[2] || "dist/public/openapi.json");
+mkdirSync(dirname(outFile), { recursive: true });
+writeFileSync(outFile, JSON.stringify(buildOpenApiSpec(), null, 2) + "\n");
+console.log(`Wrote ${outFile}`);
@@ -0,0 +1,25 @@
+// Send email digests from the command line, for testing templates locally.
+//
+//   MAIL_TRANSPORT=file npm run digests:send -- --force [--user 12]
+//
+// Uses the same MAIL_TRANSPORT as the send-digests cron, falling back to the
+// file transport (.eml files in MAIL_SINK_DIR) when none is configured.
+// --force ignores the daily/weekly schedule; --user limits the run to one user.
+import "dotenv/config";
+
+import { supabase } from "../server/supabase";
+import { createFileTransport, getMailTransport, sendDueDigests } from "../server/email-digests";
+
+const args = process.argv.slice(2);
+const userFlag = args.indexOf("--user");
+const userId = userFlag !== -1 ? parseInt(args[userFlag + 1], 10) : undefined;
+
+const transport = getMailTransport() || createFileTransport(process.env.MAIL_SINK_DIR || ".mail");
+console.log(`Sending digests via ${transport.name}...`);
+
+sendDueDigests(supabase, transport, { force: args.includes("--force"), userId })
+  .then((result) => console.log(result))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,80 @@
+// Local webhook receiver for testing Content API webhooks.
+//
+//   WEBHOOK_SECRET=whsec_... npm run webhook:receive
+//
+// Then subscribe http://localhost:4000/webhook to an API key (plain http to
+// localhost is accepted outside production). Every delivery is logged along
+// with whether its signature checks out. Set WEBHOOK_FAIL=1 to answer 500 and
+// watch the retry schedule kick in.
+import "dotenv/config";
+
+import { createServer } from "http";
+import { createHmac, timingSafeEqual } from "crypto";
+
+const PORT = parseInt(process.env.WEBHOOK_PORT || "4000", 10);
+const SECRET = process.env.WEBHOOK_SECRET;
+const TOLERANCE_SECONDS = 5 * 60; // reject signatures older than 5 minutes
+
+// Verify "t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">"
+function verifySignature(header: string | undefined, body: string): string {
+  if (!SECRET) return "not checked (WEBHOOK_SECRET unset)";
+  if (!header) return "missing";
+
+  const parts = Object.fromEntries(
+    header.split(",").map((part) => part.split("=") as [string, string])
+  );
+  const timestamp = parseInt(parts.t, 10);
+  if (!timestamp || !parts.v1) return "malformed";
+  if (Math.abs(Date.now() / 1000 - timestamp) > TOLERANCE_SECONDS) {
+    return "expired";
+  }
+
+  const expected = createHmac("sha256", SECRET)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+  const valid =
+    expected.length === parts.v1.length &&
+    timingSafeEqual(Buffer.from(expected), Buffer.from(parts.v1));
+  return valid ? "valid" : "INVALID";
+}
+
+const server = createServer((req, res) => {
+  if (req.method !== "POST") {
+    res.writeHead(405).end();
+    return;
+  }
+
+  let body = "";
+  req.on("data", (chunk) => (body += chunk));
+  req.on("end", () => {
+    const signature = verifySignature(
+      req.headers["x-newsplatform-signature"] as string | undefined,
+      body
+    );
+    console.log(
+      `[webhook-receiver] ${new Date().toISOString()} ${req.headers["x-newsplatform-event"]} ` +
+        `delivery=${req.headers["x-newsplatform-delivery"]} signature=${signature}`
+    );
+    try {
+      console.log(JSON.stringify(JSON.parse(body), null, 2));
+    } catch {
+      console.log(body);
+    }
+
+    if (process.env.WEBHOOK_FAIL === "1") {
+      res.writeHead(500).end("failing on purpose");
+    } else if (signature === "INVALID" || signature === "expired") {
+      res.writeHead(401).end("bad signature");
+    } else {
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ received: true }));
+    }
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`[webhook-receiver] Listening on http://localhost:${PORT}/webhook`);
+  if (!SECRET) {
+    console.log("[webhook-receiver] WEBHOOK_SECRET not set; signatures won't be checked");
+  }
+});
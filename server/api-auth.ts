@@ -1,5 +1,90 @@
 import { createHash, randomBytes } from "crypto";
 import { SupabaseClient } from "@supabase/supabase-js";
+import type { Response } from "express";
+import { getChannelRole, canPublishInChannel } from "./channel-members";
+
+/**
+ * What a key may do. A key with channel_ids set can only touch those
+ * channels; NULL means every channel its owner can write to.
+ */
+export const API_KEY_SCOPES = [
+  "articles:write",
+  "articles:read",
+  "channels:read",
+  "images:write",
+];
+
+export interface ApiAccess {
+  scopes: string[];
+  channelIds: number[] | null;
+}
+
+/** Access for session/JWT callers, who act with their full account */
+export const FULL_API_ACCESS: ApiAccess = { scopes: API_KEY_SCOPES, channelIds: null };
+
+/** Whether the access allows the given channel */
+export function canAccessChannel(access: ApiAccess, channelId: number): boolean {
+  return !access.channelIds || access.channelIds.includes(channelId);
+}
+
+/**
+ * Validate the scopes and channel allow-list requested for a new key.
+ * Scopes default to all of them; an empty or missing channel list means
+ * every channel. Listed channels must be ones userId owns or edits.
+ */
+export async function validateApiKeyAccess(
+  supabase: SupabaseClient,
+  userId: number,
+  scopes: unknown,
+  channelIds: unknown
+): Promise<{ access?: ApiAccess; error?: string }> {
+  let resolvedScopes = API_KEY_SCOPES;
+  if (scopes !== undefined && scopes !== null) {
+    if (!Array.isArray(scopes) || scopes.length === 0) {
+      return { error: "scopes must be a non-empty array" };
+    }
+    const unknown = scopes.filter((s) => !API_KEY_SCOPES.includes(s));
+    if (unknown.length > 0) return { error: `Unknown scopes: ${unknown.join(", ")}` };
+    resolvedScopes = Array.from(new Set(scopes as string[]));
+  }
+
+  if (channelIds === undefined || channelIds === null) {
+    return { access: { scopes: resolvedScopes, channelIds: null } };
+  }
+  if (!Array.isArray(channelIds) || channelIds.some((id) => !Number.isInteger(id))) {
+    return { error: "channelIds must be an array of channel IDs" };
+  }
+  if (channelIds.length === 0) {
+    return { access: { scopes: resolvedScopes, channelIds: null } };
+  }
+
+  const ids = Array.from(new Set(channelIds as number[]));
+  const roles = await Promise.all(ids.map((id) => getChannelRole(supabase, id, userId)));
+  if (!roles.every(canPublishInChannel)) {
+    return { error: "channelIds must be channels you own or edit" };
+  }
+  return { access: { scopes: resolvedScopes, channelIds: ids } };
+}
+
+/**
+ * Token-bucket limits per API key and route group. A bucket holds `capacity`
+ * requests and refills at `perMinute`. Buckets live in Postgres (see
+ * consume_api_rate_limit) so every serverless instance shares them.
+ */
+export const API_RATE_LIMITS: Record<string, { capacity: number; perMinute: number }> = {
+  "content.read": { capacity: 120, perMinute: 60 },
+  "articles.create": { capacity: 30, perMinute: 10 },
+  "articles.batch": { capacity: 5, perMinute: 1 },
+  "articles.update": { capacity: 60, perMinute: 20 },
+};
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  reset: number; // seconds until the bucket is full again
+  retryAfter: number; // seconds until the next request would be allowed
+}
 
 /**
  * Generate a new API key and its hash.
@@ -18,14 +103,67 @@ export function hashApiKey(key: string): string {
   return createHash("sha256").update(key).digest("hex");
 }
 
+/**
+ * Take a token from a key's bucket for a route group and count the request
+ * towards the key's daily usage. Returns null (let the request through) if
+ * the limiter itself fails.
+ */
+export async function consumeRateLimit(
+  supabase: SupabaseClient,
+  apiKeyId: string,
+  route: string
+): Promise<RateLimitResult | null> {
+  const config = API_RATE_LIMITS[route];
+  if (!config) return null;
+
+  const { data, error } = await supabase.rpc("consume_api_rate_limit", {
+    p_api_key_id: apiKeyId,
+    p_route: route,
+    p_capacity: config.capacity,
+    p_refill_per_second: config.perMinute / 60,
+  });
+  const row = Array.isArray(data) ? data[0] : data;
+  if (error || !row) {
+    console.error("Error consuming rate limit:", error);
+    return null;
+  }
+
+  return {
+    allowed: row.allowed,
+    limit: config.capacity,
+    remaining: row.remaining,
+    reset: row.reset_seconds,
+    retryAfter: row.retry_after_seconds,
+  };
+}
+
+/** Set X-RateLimit-* headers (and Retry-After when throttled) */
+export function setRateLimitHeaders(res: Response, rateLimit: RateLimitResult) {
+  res.setHeader("X-RateLimit-Limit", rateLimit.limit);
+  res.setHeader("X-RateLimit-Remaining", rateLimit.remaining);
+  res.setHeader("X-RateLimit-Reset", rateLimit.reset);
+  if (!rateLimit.allowed) res.setHeader("Retry-After", rateLimit.retryAfter);
+}
+
 /**
  * Authenticate a request via X-API-Key header.
- * Returns the userId tied to the key, or an error.
+ * Returns the userId tied to the key and what the key may do, or an error.
+ * With `scope`, a key lacking that scope is refused with status 403. With
+ * `route`, the key's rate limit for that route group is applied: a throttled
+ * request comes back with status 429 and the limiter state for the headers.
  */
 export async function authenticateApiKey(
   apiKeyHeader: string,
-  supabase: SupabaseClient
-): Promise<{ userId?: number; error?: string }> {
+  supabase: SupabaseClient,
+  options: { route?: string; scope?: string } = {}
+): Promise<{
+  userId?: number;
+  apiKeyId?: string;
+  access?: ApiAccess;
+  error?: string;
+  status?: number;
+  rateLimit?: RateLimitResult;
+}> {
   if (!apiKeyHeader || !apiKeyHeader.startsWith("nk_")) {
     return { error: "Invalid API key format" };
   }
@@ -34,7 +172,7 @@ export async function authenticateApiKey(
 
   const { data: apiKeyRow, error } = await supabase
     .from("api_keys")
-    .select("id, user_id, is_revoked, expires_at")
+    .select("id, user_id, is_revoked, expires_at, scopes, channel_ids")
     .eq("key_hash", keyHash)
     .single();
 
@@ -50,6 +188,21 @@ export async function authenticateApiKey(
     return { error: "API key has expired" };
   }
 
+  const access: ApiAccess = {
+    scopes: apiKeyRow.scopes || API_KEY_SCOPES,
+    channelIds: apiKeyRow.channel_ids?.length ? apiKeyRow.channel_ids : null,
+  };
+  if (options.scope && !access.scopes.includes(options.scope)) {
+    return { error: `API key is missing the ${options.scope} scope`, status: 403 };
+  }
+
+  const rateLimit = options.route
+    ? await consumeRateLimit(supabase, apiKeyRow.id, options.route)
+    : null;
+  if (rateLimit && !rateLimit.allowed) {
+    return { error: "Rate limit exceeded", status: 429, rateLimit };
+  }
+
   // Update last_used_at (fire-and-forget)
   supabase
     .from("api_keys")
@@ -57,5 +210,53 @@ export async function authenticateApiKey(
     .eq("id", apiKeyRow.id)
     .then(() => {});
 
-  return { userId: apiKeyRow.user_id };
+  return {
+    userId: apiKeyRow.user_id,
+    apiKeyId: apiKeyRow.id,
+    access,
+    rateLimit: rateLimit || undefined,
+  };
+}
+
+export interface ApiKeyUsage {
+  requestsToday: number;
+  throttledToday: number;
+  requestsLast7Days: number;
+}
+
+/** Daily usage counters for a set of keys (UTC days), keyed by key id */
+export async function loadApiKeyUsage(
+  supabase: SupabaseClient,
+  apiKeyIds: string[]
+): Promise<Map<string, ApiKeyUsage>> {
+  const usage = new Map<string, ApiKeyUsage>();
+  for (const id of apiKeyIds) {
+    usage.set(id, { requestsToday: 0, throttledToday: 0, requestsLast7Days: 0 });
+  }
+  if (apiKeyIds.length === 0) return usage;
+
+  const today = new Date().toISOString().slice(0, 10);
+  const weekStart = new Date(Date.now() - 6 * 24 * 60 * 60 * 1000)
+    .toISOString()
+    .slice(0, 10);
+  const { data, error } = await supabase
+    .from("api_key_usage")
+    .select("api_key_id, day, request_count, throttled_count")
+    .in("api_key_id", apiKeyIds)
+    .gte("day", weekStart);
+  if (error) {
+    console.error("Error loading API key usage:", error);
+    return usage;
+  }
+
+  for (const row of data || []) {
+    const entry = usage.get(row.api_key_id);
+    if (!entry) continue;
+    entry.requestsLast7Days += row.request_count;
+    if (row.day === today) {
+      entry.requestsToday = row.request_count;
+      entry.throttledToday = row.throttled_count;
+    }
+  }
+  return usage;
 }
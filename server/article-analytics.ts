@@ -0,0 +1,199 @@
+import { createHmac } from "crypto";
+import { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * Per-article analytics for authors.
+ * The view beacon (POST /api/articles/:slug/view) stores where the reader
+ * came from — the referrer host and UTM parameters the client sends — and a
+ * device class derived from the User-Agent on the article_views row, and
+ * returns the row's id. The client follows up with an engagement beacon
+ * (POST /api/articles/:slug/engagement) when the reader leaves, carrying that
+ * id, the deepest scroll position reached and the seconds the page was
+ * visible. Views are counted once per reader, so engagement keeps the
+ * reader's best read. The beacon is unauthenticated (sendBeacon carries no
+ * token), so each view also stores a keyed hash of the reader's IP and only
+ * that IP, or the signed-in reader the view belongs to, may report on it.
+ * The article_traffic_stats SQL function aggregates it all for the author's
+ * stats drawer (GET /api/articles/:id/stats).
+ *
+ * IMPORTANT: an identical inlined copy lives in api/index.ts (which must stay
+ * self-contained). Keep the two in sync.
+ */
+
+const VIEW_FIELD_MAX_LENGTH = 100;
+const MAX_TIME_ON_PAGE_SECONDS = 4 * 60 * 60;
+const COMPLETED_SCROLL_DEPTH = 90; // a view that reached 90% counts as a full read
+
+export type DeviceClass = "mobile" | "tablet" | "desktop" | "bot";
+
+/** Classify a User-Agent. Requests without one are scripts, not readers. */
+export function deviceClassFromUserAgent(userAgent: unknown): DeviceClass {
+  const ua = typeof userAgent === "string" ? userAgent : "";
+  if (!ua || /bot|crawler|spider|slurp|headless|preview/i.test(ua)) return "bot";
+  if (/ipad|tablet|kindle|silk|playbook/i.test(ua) || (/android/i.test(ua) && !/mobile/i.test(ua))) {
+    return "tablet";
+  }
+  if (/mobi|iphone|ipod|android|blackberry|opera mini|iemobile/i.test(ua)) return "mobile";
+  return "desktop";
+}
+
+function cleanViewField(value: unknown, lowercase = false): string | null {
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim().slice(0, VIEW_FIELD_MAX_LENGTH);
+  if (!trimmed) return null;
+  return lowercase ? trimmed.toLowerCase() : trimmed;
+}
+
+/** Host of the referring page without "www.", or null for direct visits */
+function referrerHost(referrer: unknown): string | null {
+  if (typeof referrer !== "string" || !referrer) return null;
+  try {
+    const url = new URL(referrer);
+    if (url.protocol !== "http:" && url.protocol !== "https:") return null;
+    return url.hostname.toLowerCase().replace(/^www\./, "") || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Keyed hash of the reader's IP (req.ip), stored with their view to tie
+ * engagement beacons to it. Keyed with VIEW_IP_HASH_SECRET so the stored
+ * value can't be reversed by hashing every IPv4 address; without the secret
+ * no hash is stored and only signed-in readers' engagement is recorded.
+ */
+export function viewerIpHash(ip: unknown): string | null {
+  const secret = process.env.VIEW_IP_HASH_SECRET;
+  if (typeof ip !== "string" || !ip.trim() || !secret) return null;
+  return createHmac("sha256", secret).update(ip.trim()).digest("hex");
+}
+
+/**
+ * The article_views columns describing where a view came from. The body is
+ * { referrer?, utm?: { source?, medium?, campaign? } } as sent by the client.
+ */
+export function parseViewContext(body: any, userAgent: unknown, ip: unknown) {
+  const utm = body?.utm && typeof body.utm === "object" ? body.utm : {};
+  return {
+    referrer_host: referrerHost(body?.referrer),
+    utm_source: cleanViewField(utm.source, true),
+    utm_medium: cleanViewField(utm.medium, true),
+    utm_campaign: cleanViewField(utm.campaign),
+    device_class: deviceClassFromUserAgent(userAgent),
+    ip_hash: viewerIpHash(ip),
+  };
+}
+
+/**
+ * Validate an engagement beacon: { viewId, scrollDepth (0-100),
+ * timeOnPage (seconds) }. Out-of-range numbers are clamped.
+ */
+export function parseEngagement(body: any): {
+  viewId?: number;
+  scrollDepth?: number;
+  timeOnPage?: number;
+  error?: string;
+} {
+  const viewId = Number(body?.viewId);
+  if (!Number.isInteger(viewId) || viewId <= 0) return { error: "viewId is required" };
+  const scrollDepth = Number(body?.scrollDepth);
+  const timeOnPage = Number(body?.timeOnPage);
+  if (!Number.isFinite(scrollDepth) || !Number.isFinite(timeOnPage)) {
+    return { error: "scrollDepth and timeOnPage must be numbers" };
+  }
+  return {
+    viewId,
+    scrollDepth: Math.round(Math.min(Math.max(scrollDepth, 0), 100)),
+    timeOnPage: Math.round(Math.min(Math.max(timeOnPage, 0), MAX_TIME_ON_PAGE_SECONDS)),
+  };
+}
+
+/**
+ * Store a view's read depth, keeping the deepest scroll and longest visible
+ * time seen so far; a beacon that improves on neither changes nothing.
+ * Returns false when the view doesn't belong to the article or the viewer —
+ * the signed-in reader it was recorded for, or the IP it was recorded from.
+ */
+export async function recordViewEngagement(
+  supabase: SupabaseClient,
+  articleId: number,
+  viewId: number,
+  viewer: { userId: number | null; ipHash: string | null },
+  engagement: { scrollDepth: number; timeOnPage: number }
+): Promise<boolean> {
+  const { data: view, error } = await supabase
+    .from("article_views")
+    .select("id, user_id, ip_hash, max_scroll_depth, time_on_page_seconds")
+    .eq("id", viewId)
+    .eq("article_id", articleId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!view) return false;
+  const ownView =
+    (viewer.userId !== null && view.user_id === viewer.userId) ||
+    (viewer.ipHash !== null && view.ip_hash === viewer.ipHash);
+  if (!ownView) return false;
+
+  const scrollDepth = view.max_scroll_depth ?? 0;
+  const timeOnPage = view.time_on_page_seconds ?? 0;
+  if (engagement.scrollDepth <= scrollDepth && engagement.timeOnPage <= timeOnPage) {
+    return true;
+  }
+
+  const { error: updateError } = await supabase
+    .from("article_views")
+    .update({
+      max_scroll_depth: Math.max(scrollDepth, engagement.scrollDepth),
+      time_on_page_seconds: Math.max(timeOnPage, engagement.timeOnPage),
+      engaged_at: new Date().toISOString(),
+    })
+    .eq("id", viewId);
+  if (updateError) throw updateError;
+  return true;
+}
+
+/** One article's traffic and engagement for an inclusive range of UTC days */
+export async function getArticleStats(
+  supabase: SupabaseClient,
+  articleId: number,
+  range: { from: string; to: string }
+) {
+  const { data, error } = await supabase.rpc("article_traffic_stats", {
+    article_id_param: articleId,
+    from_day: range.from,
+    to_day: range.to,
+    completed_depth: COMPLETED_SCROLL_DEPTH,
+  });
+  if (error) throw error;
+
+  const stats: any = data || {};
+  const engagedViews = Number(stats.engaged_views || 0);
+  const round1 = (value: unknown) => (value == null ? null : Math.round(Number(value) * 10) / 10);
+
+  return {
+    range,
+    totals: {
+      views: Number(stats.views || 0),
+      trackedViews: Number(stats.tracked_views || 0),
+      engagedViews,
+      // Average of each reader's deepest scroll, 0-100; null until measured
+      avgReadCompletion: round1(stats.avg_scroll_depth),
+      // Share of engaged views that reached the end of the article
+      completionRate: engagedViews > 0 ? Number(stats.completed_views || 0) / engagedViews : null,
+      avgTimeOnPage: round1(stats.avg_time_on_page),
+    },
+    daily: (stats.daily || []).map((row: any) => ({ date: row.day, views: Number(row.views) })),
+    sources: (stats.sources || []).map((row: any) => ({
+      source: row.source,
+      views: Number(row.views),
+    })),
+    campaigns: (stats.campaigns || []).map((row: any) => ({
+      campaign: row.campaign,
+      views: Number(row.views),
+    })),
+    devices: (stats.devices || []).map((row: any) => ({
+      device: row.device,
+      views: Number(row.views),
+    })),
+  };
+}
@@ -0,0 +1,108 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * Article revision history helpers.
+ * Every edit, status toggle and restore appends a snapshot to
+ * article_revisions. Articles written before revisions existed get their
+ * pre-edit state backfilled as revision 1 ("original") on their first edit.
+ *
+ * IMPORTANT: an identical inlined copy lives in api/index.ts (which must stay
+ * self-contained). Keep the two in sync.
+ */
+
+const REVISION_INSERT_ATTEMPTS = 3; // tries at a free revision number
+
+export type RevisionSource = "original" | "edit" | "status" | "restore";
+
+interface ArticleSnapshot {
+  id: number;
+  user_id: number;
+  title: string;
+  content: string;
+  status?: string | null;
+  published?: boolean | null;
+}
+
+/**
+ * Append a revision for `after`. Never throws — a failed history write is
+ * logged but must not fail the edit that triggered it.
+ */
+export async function recordArticleRevision(
+  supabase: SupabaseClient,
+  before: ArticleSnapshot,
+  after: ArticleSnapshot,
+  editedBy: number,
+  source: RevisionSource,
+  restoredFrom?: number
+): Promise<void> {
+  try {
+    // Racing saves can pick the same number and collide on the unique
+    // (article_id, revision_number); the loser reads the latest again
+    for (let attempt = 1; ; attempt++) {
+      const { data: latest } = await supabase
+        .from("article_revisions")
+        .select("revision_number")
+        .eq("article_id", after.id)
+        .order("revision_number", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      let next = (latest?.revision_number || 0) + 1;
+      const rows: any[] = [];
+
+      if (!latest) {
+        // First tracked change: keep what the article looked like beforehand
+        rows.push({
+          article_id: before.id,
+          revision_number: next++,
+          title: before.title,
+          content: before.content,
+          status: before.status ?? null,
+          published: before.published ?? null,
+          source: "original",
+          edited_by: before.user_id,
+        });
+      }
+
+      rows.push({
+        article_id: after.id,
+        revision_number: next,
+        title: after.title,
+        content: after.content,
+        status: after.status ?? null,
+        published: after.published ?? null,
+        source,
+        restored_from: restoredFrom ?? null,
+        edited_by: editedBy,
+      });
+
+      const { error } = await supabase.from("article_revisions").insert(rows);
+      if (!error) return;
+      if (error.code !== "23505" || attempt >= REVISION_INSERT_ATTEMPTS) {
+        console.error("Error recording article revision:", error);
+        return;
+      }
+    }
+  } catch (error) {
+    console.error("Error recording article revision:", error);
+  }
+}
+
+/** Shape a revision row (optionally joined with its editor) for API responses. */
+export function mapRevisionRow(row: any, includeContent = false) {
+  const mapped: Record<string, any> = {
+    id: row.id,
+    revisionNumber: row.revision_number,
+    title: row.title,
+    status: row.status,
+    published: row.published,
+    source: row.source,
+    restoredFrom: row.restored_from,
+    createdAt: row.created_at,
+    editedBy: row.editor
+      ? { id: row.editor.id, username: row.editor.username }
+      : null,
+  };
+  if (includeContent) mapped.content = row.content;
+  return mapped;
+}
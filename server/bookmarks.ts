@@ -0,0 +1,188 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * Reader bookmarks (the read-later list on the profile page).
+ * A reader saves a published article once; saving it again updates the
+ * bookmark's note instead of duplicating it. Each bookmark can carry a
+ * private note, stored as a row in the existing notes table (user_id,
+ * article_id, content) and linked via bookmarks.note_id. Removing the
+ * bookmark removes its note with it.
+ *
+ * IMPORTANT: an identical inlined copy lives in api/index.ts (which must stay
+ * self-contained). Keep the two in sync.
+ */
+
+const BOOKMARK_NOTE_MAX = 2000;
+
+const BOOKMARK_SELECT = `article_id, created_at, note:note_id(id, content),
+  article:article_id(id, title, slug, status, published_at, created_at,
+    channel:channel_id(id, name, slug))`;
+
+function mapBookmarkRow(row: any) {
+  const article: any = row.article;
+  const note: any = row.note;
+  const channel: any = article?.channel;
+  return {
+    articleId: row.article_id,
+    savedAt: row.created_at,
+    note: note?.content ?? null,
+    article: article
+      ? {
+          id: article.id,
+          title: article.title,
+          slug: article.slug,
+          publishedAt: article.published_at ?? article.created_at,
+          channel: channel ? { id: channel.id, name: channel.name, slug: channel.slug } : null,
+        }
+      : null,
+  };
+}
+
+/**
+ * Validate a bookmark's note. undefined leaves an existing note alone, while
+ * null or a blank string clears it.
+ */
+export function parseBookmarkNote(value: unknown): { note?: string | null; error?: string } {
+  if (value === undefined) return {};
+  if (value === null) return { note: null };
+  if (typeof value !== "string") return { error: "note must be a string" };
+  const note = value.trim();
+  if (note.length > BOOKMARK_NOTE_MAX) {
+    return { error: `note must be at most ${BOOKMARK_NOTE_MAX} characters` };
+  }
+  return { note: note || null };
+}
+
+/** The user's saved articles, most recently saved first */
+export async function listBookmarks(supabase: SupabaseClient, userId: number) {
+  const { data, error } = await supabase
+    .from("bookmarks")
+    .select(BOOKMARK_SELECT)
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false });
+  if (error) throw error;
+  // Articles that were unpublished after being saved drop out of the list
+  return (data || [])
+    .filter((row: any) => row.article && row.article.status === "published")
+    .map(mapBookmarkRow);
+}
+
+/** Create, update or delete the private note behind a bookmark */
+async function setBookmarkNote(
+  supabase: SupabaseClient,
+  userId: number,
+  articleId: number,
+  noteId: number | null,
+  note: string | null
+) {
+  if (note === null) {
+    if (!noteId) return;
+    const { error: unlinkError } = await supabase
+      .from("bookmarks")
+      .update({ note_id: null })
+      .eq("user_id", userId)
+      .eq("article_id", articleId);
+    if (unlinkError) throw unlinkError;
+    const { error } = await supabase.from("notes").delete().eq("id", noteId).eq("user_id", userId);
+    if (error) throw error;
+    return;
+  }
+
+  if (noteId) {
+    const { error } = await supabase
+      .from("notes")
+      .update({ content: note })
+      .eq("id", noteId)
+      .eq("user_id", userId);
+    if (error) throw error;
+    return;
+  }
+
+  const { data: created, error } = await supabase
+    .from("notes")
+    .insert({ content: note, user_id: userId, article_id: articleId })
+    .select("id")
+    .single();
+  if (error) throw error;
+  const { error: linkError } = await supabase
+    .from("bookmarks")
+    .update({ note_id: created.id })
+    .eq("user_id", userId)
+    .eq("article_id", articleId);
+  if (linkError) throw linkError;
+}
+
+/**
+ * Save an article for the user, optionally setting its note (see
+ * parseBookmarkNote). Returns the bookmark, or null if the article doesn't
+ * exist or isn't published.
+ */
+export async function saveBookmark(
+  supabase: SupabaseClient,
+  userId: number,
+  articleId: number,
+  note?: string | null
+) {
+  const { data: article, error: articleError } = await supabase
+    .from("articles")
+    .select("id, status")
+    .eq("id", articleId)
+    .maybeSingle();
+  if (articleError) throw articleError;
+  if (!article || article.status !== "published") return null;
+
+  const { error } = await supabase
+    .from("bookmarks")
+    .upsert(
+      { user_id: userId, article_id: articleId },
+      { onConflict: "user_id,article_id", ignoreDuplicates: true }
+    );
+  if (error) throw error;
+
+  if (note !== undefined) {
+    const { data: existing, error: existingError } = await supabase
+      .from("bookmarks")
+      .select("note_id")
+      .eq("user_id", userId)
+      .eq("article_id", articleId)
+      .single();
+    if (existingError) throw existingError;
+    await setBookmarkNote(supabase, userId, articleId, existing.note_id, note);
+  }
+
+  const { data, error: readError } = await supabase
+    .from("bookmarks")
+    .select(BOOKMARK_SELECT)
+    .eq("user_id", userId)
+    .eq("article_id", articleId)
+    .single();
+  if (readError) throw readError;
+  return mapBookmarkRow(data);
+}
+
+/** Remove a bookmark and its note. Returns false if it wasn't saved. */
+export async function removeBookmark(
+  supabase: SupabaseClient,
+  userId: number,
+  articleId: number
+): Promise<boolean> {
+  const { data: removed, error } = await supabase
+    .from("bookmarks")
+    .delete()
+    .eq("user_id", userId)
+    .eq("article_id", articleId)
+    .select("note_id");
+  if (error) throw error;
+  if (!removed || removed.length === 0) return false;
+
+  const noteId = removed[0].note_id;
+  if (noteId) {
+    const { error: noteError } = await supabase
+      .from("notes")
+      .delete()
+      .eq("id", noteId)
+      .eq("user_id", userId);
+    if (noteError) throw noteError;
+  }
+  return true;
+}
@@ -0,0 +1,103 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * Channel analytics for channel owners.
+ * Daily views and unique readers (distinct client_identifier in
+ * article_views), comments and subscriber growth come from the
+ * channel_daily_stats SQL function; per-article views, reactions and comments
+ * from channel_article_stats. Both aggregate in the database so large
+ * article_views tables don't hit the PostgREST row limit. Dates are UTC days.
+ *
+ * IMPORTANT: an identical inlined copy lives in api/index.ts (which must stay
+ * self-contained). Keep the two in sync.
+ */
+
+const ANALYTICS_DEFAULT_DAYS = 30;
+const ANALYTICS_MAX_DAYS = 366;
+const ANALYTICS_TOP_ARTICLES = 10;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const isoDay = (date: Date) => date.toISOString().slice(0, 10);
+
+/**
+ * Validate ?from=YYYY-MM-DD&to=YYYY-MM-DD. Defaults to the last 30 days
+ * ending today; ranges are capped at a year.
+ */
+export function parseAnalyticsRange(query: any): { from?: string; to?: string; error?: string } {
+  const parseDay = (value: unknown): Date | null | undefined => {
+    if (value === undefined || value === "") return undefined;
+    if (typeof value !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+    const date = new Date(`${value}T00:00:00Z`);
+    return isNaN(date.getTime()) ? null : date;
+  };
+
+  const to = parseDay(query?.to);
+  const from = parseDay(query?.from);
+  if (to === null || from === null) return { error: "from and to must be dates (YYYY-MM-DD)" };
+
+  const toDate = to ?? new Date(`${isoDay(new Date())}T00:00:00Z`);
+  const fromDate = from ?? new Date(toDate.getTime() - (ANALYTICS_DEFAULT_DAYS - 1) * DAY_MS);
+  if (fromDate > toDate) return { error: "from must be on or before to" };
+  if ((toDate.getTime() - fromDate.getTime()) / DAY_MS + 1 > ANALYTICS_MAX_DAYS) {
+    return { error: `The range can cover at most ${ANALYTICS_MAX_DAYS} days` };
+  }
+  return { from: isoDay(fromDate), to: isoDay(toDate) };
+}
+
+/** The channel's analytics for an inclusive range of UTC days */
+export async function getChannelAnalytics(
+  supabase: SupabaseClient,
+  channelId: number,
+  range: { from: string; to: string }
+) {
+  const params = { channel_id_param: channelId, from_day: range.from, to_day: range.to };
+  const [dailyResult, articlesResult] = await Promise.all([
+    supabase.rpc("channel_daily_stats", params),
+    supabase.rpc("channel_article_stats", params),
+  ]);
+  if (dailyResult.error) throw dailyResult.error;
+  if (articlesResult.error) throw articlesResult.error;
+
+  const days: any[] = dailyResult.data || [];
+  const articles: any[] = articlesResult.data || [];
+  const sum = (rows: any[], key: string) => rows.reduce((n, row) => n + Number(row[key] || 0), 0);
+
+  const likes = sum(articles, "likes");
+  const dislikes = sum(articles, "dislikes");
+  const lastDay = days[days.length - 1];
+
+  return {
+    range,
+    totals: {
+      views: sum(days, "views"),
+      uniqueReaders: days.length ? Number(days[0].total_unique_readers) : 0,
+      comments: sum(days, "comments"),
+      newSubscribers: sum(days, "new_subscribers"),
+      subscribers: lastDay ? Number(lastDay.subscribers) : 0,
+      likes,
+      dislikes,
+      // Share of reactions that are likes; null before anyone has reacted
+      likeRatio: likes + dislikes > 0 ? likes / (likes + dislikes) : null,
+      articles: articles.length,
+    },
+    daily: days.map((row) => ({
+      date: row.day,
+      views: Number(row.views),
+      uniqueReaders: Number(row.unique_readers),
+      comments: Number(row.comments),
+      newSubscribers: Number(row.new_subscribers),
+      subscribers: Number(row.subscribers),
+    })),
+    topArticles: articles.slice(0, ANALYTICS_TOP_ARTICLES).map((row) => ({
+      id: row.article_id,
+      title: row.title,
+      slug: row.slug,
+      publishedAt: row.published_at,
+      views: Number(row.views),
+      uniqueReaders: Number(row.unique_readers),
+      likes: Number(row.likes),
+      dislikes: Number(row.dislikes),
+      comments: Number(row.comments),
+    })),
+  };
+}
@@ -0,0 +1,295 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+import { notifyChannelInvite } from "./notifications";
+
+/**
+ * Shared channels: members and their roles.
+ * channel_members holds one row per person who writes for a channel. The
+ * owner's row mirrors channels.user_id (a database trigger keeps it in step);
+ * the owner invites editors and contributors by username, and an invitation
+ * grants nothing until the invitee accepts it.
+ *
+ *   owner        everything, including channel settings and members
+ *   editor       write, edit, publish and delete any article in the channel
+ *   contributor  write, edit and delete their own articles; what they write
+ *                stays a draft until an editor or the owner publishes it
+ *
+ * Bylines list an article's author first, then every other current member
+ * whose edits are in its revision history.
+ *
+ * IMPORTANT: an identical inlined copy lives in api/index.ts (which must stay
+ * self-contained). Keep the two in sync.
+ */
+
+export const CHANNEL_ROLES = ["owner", "editor", "contributor"] as const;
+export type ChannelRole = (typeof CHANNEL_ROLES)[number];
+
+// Roles the owner can hand out; ownership itself follows channels.user_id
+const INVITABLE_ROLES: ChannelRole[] = ["editor", "contributor"];
+
+const MEMBER_SELECT =
+  "user_id, role, invited_by, created_at, accepted_at, user:user_id(id, username)";
+
+function mapMemberRow(row: any) {
+  return {
+    userId: row.user_id,
+    username: row.user?.username ?? null,
+    role: row.role as ChannelRole,
+    invitedBy: row.invited_by,
+    invitedAt: row.created_at,
+    acceptedAt: row.accepted_at,
+    pending: !row.accepted_at,
+  };
+}
+
+/** Validate a role the owner may assign: editor or contributor */
+export function parseMemberRole(value: unknown): ChannelRole | null {
+  return INVITABLE_ROLES.includes(value as ChannelRole) ? (value as ChannelRole) : null;
+}
+
+/** The user's role in the channel, or null if they aren't an accepted member */
+export async function getChannelRole(
+  supabase: SupabaseClient,
+  channelId: number,
+  userId: number
+): Promise<ChannelRole | null> {
+  const { data, error } = await supabase
+    .from("channel_members")
+    .select("role")
+    .eq("channel_id", channelId)
+    .eq("user_id", userId)
+    .not("accepted_at", "is", null)
+    .maybeSingle();
+  if (error) throw error;
+  return (data?.role as ChannelRole) ?? null;
+}
+
+/** Editors and the owner publish; contributors only write drafts */
+export function canPublishInChannel(role: ChannelRole | null): boolean {
+  return role === "owner" || role === "editor";
+}
+
+/**
+ * What the user may do with an article, from their role in its channel.
+ * canEdit covers drafts; changes to a published article go through
+ * canEditArticle.
+ */
+export async function getArticleAccess(
+  supabase: SupabaseClient,
+  article: { user_id: number; channel_id?: number | null },
+  userId: number
+) {
+  const role = article.channel_id
+    ? await getChannelRole(supabase, article.channel_id, userId)
+    : null;
+  const isAuthor = article.user_id === userId;
+  // Articles outside any channel stay with their author
+  const canPublish = canPublishInChannel(role) || (isAuthor && !article.channel_id);
+  return {
+    role,
+    canPublish,
+    canEdit: canPublish || (isAuthor && role === "contributor"),
+  };
+}
+
+/**
+ * Whether the user may change the article: edit it, delete it, restore a
+ * revision or take it offline. Once it is published that needs publish
+ * rights, so a contributor's changes never go live without review.
+ */
+export function canEditArticle(
+  article: { published?: boolean | null },
+  access: { canEdit: boolean; canPublish: boolean }
+): boolean {
+  return article.published ? access.canPublish : access.canEdit;
+}
+
+/** Whether the user owns at least one channel (and so can invite people) */
+export async function ownsAnyChannel(supabase: SupabaseClient, userId: number): Promise<boolean> {
+  const { count, error } = await supabase
+    .from("channel_members")
+    .select("channel_id", { count: "exact", head: true })
+    .eq("user_id", userId)
+    .eq("role", "owner");
+  if (error) throw error;
+  return (count || 0) > 0;
+}
+
+/** Members and pending invitations: owner first, then editors, contributors */
+export async function listChannelMembers(supabase: SupabaseClient, channelId: number) {
+  const { data, error } = await supabase
+    .from("channel_members")
+    .select(MEMBER_SELECT)
+    .eq("channel_id", channelId)
+    .order("created_at", { ascending: true });
+  if (error) throw error;
+  return (data || [])
+    .map(mapMemberRow)
+    .sort((a, b) => CHANNEL_ROLES.indexOf(a.role) - CHANNEL_ROLES.indexOf(b.role));
+}
+
+/**
+ * Invite a user by username. Fails with 404 for an unknown username and 409
+ * when they are already a member or already invited.
+ */
+export async function inviteChannelMember(
+  supabase: SupabaseClient,
+  channelId: number,
+  invitedBy: number,
+  username: string,
+  role: ChannelRole
+): Promise<{ member?: ReturnType<typeof mapMemberRow>; error?: string; status?: number }> {
+  const { data: invitee, error: userError } = await supabase
+    .from("users")
+    .select("id, username")
+    .eq("username", username.trim())
+    .maybeSingle();
+  if (userError) throw userError;
+  if (!invitee) return { error: "User not found", status: 404 };
+
+  const { data: existing, error: existingError } = await supabase
+    .from("channel_members")
+    .select("accepted_at")
+    .eq("channel_id", channelId)
+    .eq("user_id", invitee.id)
+    .maybeSingle();
+  if (existingError) throw existingError;
+  if (existing) {
+    return {
+      error: existing.accepted_at
+        ? `${invitee.username} is already a member of this channel`
+        : `${invitee.username} has already been invited`,
+      status: 409,
+    };
+  }
+
+  const { data, error } = await supabase
+    .from("channel_members")
+    .insert({ channel_id: channelId, user_id: invitee.id, role, invited_by: invitedBy })
+    .select(MEMBER_SELECT)
+    .single();
+  if (error) throw error;
+
+  await notifyChannelInvite(supabase, { channelId, userId: invitee.id, invitedBy, role });
+  return { member: mapMemberRow(data) };
+}
+
+/** Change a member's role. Returns null when there is no such non-owner member. */
+export async function updateChannelMemberRole(
+  supabase: SupabaseClient,
+  channelId: number,
+  userId: number,
+  role: ChannelRole
+) {
+  const { data, error } = await supabase
+    .from("channel_members")
+    .update({ role })
+    .eq("channel_id", channelId)
+    .eq("user_id", userId)
+    .neq("role", "owner")
+    .select(MEMBER_SELECT)
+    .maybeSingle();
+  if (error) throw error;
+  return data ? mapMemberRow(data) : null;
+}
+
+/**
+ * Remove a member or withdraw / decline an invitation. The owner can't be
+ * removed. Returns false when there was nothing to remove.
+ */
+export async function removeChannelMember(
+  supabase: SupabaseClient,
+  channelId: number,
+  userId: number
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from("channel_members")
+    .delete()
+    .eq("channel_id", channelId)
+    .eq("user_id", userId)
+    .neq("role", "owner")
+    .select("user_id");
+  if (error) throw error;
+  return (data || []).length > 0;
+}
+
+/** Accept a pending invitation. Returns null when there is none. */
+export async function acceptChannelInvitation(
+  supabase: SupabaseClient,
+  channelId: number,
+  userId: number
+) {
+  const { data, error } = await supabase
+    .from("channel_members")
+    .update({ accepted_at: new Date().toISOString() })
+    .eq("channel_id", channelId)
+    .eq("user_id", userId)
+    .is("accepted_at", null)
+    .select(MEMBER_SELECT)
+    .maybeSingle();
+  if (error) throw error;
+  return data ? mapMemberRow(data) : null;
+}
+
+/** The user's channels with their role, including pending invitations */
+export async function listUserChannelMemberships(supabase: SupabaseClient, userId: number) {
+  const { data, error } = await supabase
+    .from("channel_members")
+    .select("channel_id, role, created_at, accepted_at, channel:channel_id(id, name, slug)")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: true });
+  if (error) throw error;
+  return (data || []).map((row: any) => ({
+    channelId: row.channel_id,
+    role: row.role as ChannelRole,
+    pending: !row.accepted_at,
+    invitedAt: row.created_at,
+    channel: row.channel ?? null,
+  }));
+}
+
+/**
+ * An article's bylines: the author, then other current members of its
+ * channel in the order they first edited it.
+ */
+export async function listArticleBylines(
+  supabase: SupabaseClient,
+  article: { id: number; user_id: number; channel_id?: number | null }
+): Promise<{ id: number; username: string }[]> {
+  const { data: revisions, error } = await supabase
+    .from("article_revisions")
+    .select("edited_by")
+    .eq("article_id", article.id)
+    .in("source", ["edit", "restore"])
+    .order("revision_number", { ascending: true });
+  if (error) throw error;
+
+  let editorIds = Array.from(
+    new Set((revisions || []).map((r: any) => r.edited_by as number))
+  ).filter((id) => id && id !== article.user_id);
+
+  if (editorIds.length > 0) {
+    let memberIds = new Set<number>();
+    if (article.channel_id) {
+      const { data: members, error: membersError } = await supabase
+        .from("channel_members")
+        .select("user_id")
+        .eq("channel_id", article.channel_id)
+        .in("user_id", editorIds)
+        .not("accepted_at", "is", null);
+      if (membersError) throw membersError;
+      memberIds = new Set((members || []).map((m: any) => m.user_id));
+    }
+    editorIds = editorIds.filter((id) => memberIds.has(id));
+  }
+
+  const ids = [article.user_id, ...editorIds];
+  const { data: users, error: usersError } = await supabase
+    .from("users")
+    .select("id, username")
+    .in("id", ids);
+  if (usersError) throw usersError;
+  const usersById = new Map((users || []).map((u: any) => [u.id, u]));
+  return ids
+    .filter((id) => usersById.has(id))
+    .map((id) => ({ id, username: usersById.get(id).username }));
+}
@@ -0,0 +1,371 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * Comment editing, soft deletion and moderation.
+ * Authors can edit their comments (stamping edited_at) and delete them. A
+ * delete is soft: the row stays so replies keep their parent, its content is
+ * cleared and the thread shows a placeholder. The channel owner and admins
+ * can hide a comment, which keeps its content so it can be restored. Readers
+ * flag comments; the admin moderation queue lists comments with open flags
+ * and resolves them as approved or removed. Readers can also vote comments up
+ * or down; the thread view carries each comment's tally.
+ *
+ * IMPORTANT: an identical inlined copy lives in api/index.ts (which must stay
+ * self-contained). Keep the two in sync.
+ */
+
+export const COMMENT_FLAG_REASONS = ["spam", "harassment", "off_topic", "other"];
+export const COMMENT_MODERATION_ACTIONS = ["approve", "remove"];
+
+const COMMENT_FLAG_DETAILS_MAX = 500;
+
+export const COMMENT_SELECT =
+  "id, content, created_at, edited_at, deleted_at, hidden_at, parent_id, user:user_id(id, username)";
+
+/** Trimmed comment text, or null if it's missing or blank */
+export function parseCommentContent(value: unknown): string | null {
+  if (typeof value !== "string" || value.trim() === "") return null;
+  return value.trim();
+}
+
+export interface CommentVoteTally {
+  upvotes: number;
+  downvotes: number;
+  userVote: number; // the viewer's vote: 1, -1 or 0
+}
+
+/**
+ * Shape an article's comment rows for the thread view. Deleted comments lose
+ * their content and author; hidden ones lose their content unless the viewer
+ * moderates the channel. Removed comments with no visible replies beneath
+ * them are dropped entirely so they don't leave empty placeholders.
+ */
+export function shapeCommentThread(
+  rows: any[],
+  options: { showHidden?: boolean; votes?: Map<number, CommentVoteTally> } = {}
+) {
+  const isRemoved = (row: any) => !!row.deleted_at || (!!row.hidden_at && !options.showHidden);
+  const children = new Map<number, any[]>();
+  for (const row of rows) {
+    if (row.parent_id == null) continue;
+    if (!children.has(row.parent_id)) children.set(row.parent_id, []);
+    children.get(row.parent_id)!.push(row);
+  }
+
+  const visible = new Map<number, boolean>();
+  const isVisible = (row: any): boolean => {
+    if (visible.has(row.id)) return visible.get(row.id)!;
+    visible.set(row.id, false); // guards against parent_id cycles
+    const result =
+      !isRemoved(row) || (children.get(row.id) || []).some((child) => isVisible(child));
+    visible.set(row.id, result);
+    return result;
+  };
+
+  return rows.filter(isVisible).map((row) => {
+    const deleted = !!row.deleted_at;
+    const hidden = !deleted && !!row.hidden_at;
+    const tally = options.votes?.get(row.id);
+    return {
+      id: row.id,
+      content: deleted || (hidden && !options.showHidden) ? null : row.content,
+      created_at: row.created_at,
+      edited_at: row.edited_at ?? null,
+      parent_id: row.parent_id ?? null,
+      user: deleted ? null : row.user ?? null,
+      deleted,
+      hidden,
+      upvotes: tally?.upvotes ?? 0,
+      downvotes: tally?.downvotes ?? 0,
+      score: (tally?.upvotes ?? 0) - (tally?.downvotes ?? 0),
+      user_vote: tally?.userVote ?? 0,
+    };
+  });
+}
+
+/** The comment plus the owner of the channel its article belongs to */
+export async function loadCommentForModeration(supabase: SupabaseClient, commentId: number) {
+  const { data, error } = await supabase
+    .from("comments")
+    .select("*, article:article_id(id, user_id, channel:channel_id(id, user_id))")
+    .eq("id", commentId)
+    .maybeSingle();
+  if (error) throw error;
+  return data;
+}
+
+/** Whether the internal user id belongs to an admin */
+export async function isAdminUserId(supabase: SupabaseClient, userId: number): Promise<boolean> {
+  const { data: user } = await supabase
+    .from("users")
+    .select("supabase_uid")
+    .eq("id", userId)
+    .maybeSingle();
+  if (!user?.supabase_uid) return false;
+  const { data: admin } = await supabase
+    .from("admin_users")
+    .select("user_id")
+    .eq("user_id", user.supabase_uid)
+    .maybeSingle();
+  return !!admin;
+}
+
+/** Channel owners and admins may hide and restore an article's comments */
+export async function canModerateArticleComments(
+  supabase: SupabaseClient,
+  userId: number,
+  articleId: number
+): Promise<boolean> {
+  const { data: article } = await supabase
+    .from("articles")
+    .select("id, channel:channel_id(user_id)")
+    .eq("id", articleId)
+    .maybeSingle();
+  const channel: any = article?.channel;
+  if (channel && channel.user_id === userId) return true;
+  return isAdminUserId(supabase, userId);
+}
+
+/** Same check for a row from loadCommentForModeration, without re-reading the article */
+export async function canModerateComment(
+  supabase: SupabaseClient,
+  userId: number,
+  comment: any
+): Promise<boolean> {
+  if (comment.article?.channel?.user_id === userId) return true;
+  return isAdminUserId(supabase, userId);
+}
+
+export async function editComment(supabase: SupabaseClient, commentId: number, content: string) {
+  const { data, error } = await supabase
+    .from("comments")
+    .update({ content, edited_at: new Date().toISOString() })
+    .eq("id", commentId)
+    .select(COMMENT_SELECT)
+    .single();
+  if (error) throw error;
+  return shapeCommentThread([data])[0];
+}
+
+/** Soft delete: clear the content but keep the row for its replies */
+export async function softDeleteComment(supabase: SupabaseClient, commentId: number) {
+  const { error } = await supabase
+    .from("comments")
+    .update({ content: "", deleted_at: new Date().toISOString() })
+    .eq("id", commentId);
+  if (error) throw error;
+}
+
+/**
+ * Hide or restore a comment. Hiding also resolves its open flags as removed,
+ * so the moderation queue doesn't ask about it again.
+ */
+export async function setCommentHidden(
+  supabase: SupabaseClient,
+  commentId: number,
+  hidden: boolean,
+  moderatorId: number
+) {
+  const { data, error } = await supabase
+    .from("comments")
+    .update(
+      hidden
+        ? { hidden_at: new Date().toISOString(), hidden_by: moderatorId }
+        : { hidden_at: null, hidden_by: null }
+    )
+    .eq("id", commentId)
+    .select(COMMENT_SELECT)
+    .single();
+  if (error) throw error;
+  if (hidden) await resolveCommentFlags(supabase, commentId, "removed", moderatorId);
+  return shapeCommentThread([data], { showHidden: true })[0];
+}
+
+/**
+ * Validate a flag request body. Returns the reason and optional details, or
+ * an error message.
+ */
+export function parseCommentFlag(body: any): { reason?: string; details?: string | null; error?: string } {
+  const reason = body?.reason;
+  if (!COMMENT_FLAG_REASONS.includes(reason)) {
+    return { error: `reason must be one of ${COMMENT_FLAG_REASONS.join(", ")}` };
+  }
+  const details =
+    typeof body?.details === "string" && body.details.trim()
+      ? body.details.trim().slice(0, COMMENT_FLAG_DETAILS_MAX)
+      : null;
+  return { reason, details };
+}
+
+/** Record a reader's flag. Flagging the same comment twice is a no-op. */
+export async function flagComment(
+  supabase: SupabaseClient,
+  commentId: number,
+  userId: number,
+  reason: string,
+  details: string | null
+) {
+  const { error } = await supabase
+    .from("comment_flags")
+    .upsert(
+      { comment_id: commentId, user_id: userId, reason, details },
+      { onConflict: "comment_id,user_id", ignoreDuplicates: true }
+    );
+  if (error) throw error;
+}
+
+/** Close every open flag on a comment */
+export async function resolveCommentFlags(
+  supabase: SupabaseClient,
+  commentId: number,
+  resolution: "approved" | "removed",
+  moderatorId: number
+) {
+  const { error } = await supabase
+    .from("comment_flags")
+    .update({
+      resolved_at: new Date().toISOString(),
+      resolved_by: moderatorId,
+      resolution,
+    })
+    .eq("comment_id", commentId)
+    .is("resolved_at", null);
+  if (error) throw error;
+}
+
+/**
+ * Apply a moderation queue decision. approve leaves (or puts) the comment
+ * back on the page; remove hides it. Either way its open flags are closed.
+ */
+export async function moderateFlaggedComment(
+  supabase: SupabaseClient,
+  commentId: number,
+  action: string,
+  moderatorId: number
+) {
+  if (action === "remove") {
+    return setCommentHidden(supabase, commentId, true, moderatorId);
+  }
+  const comment = await setCommentHidden(supabase, commentId, false, moderatorId);
+  await resolveCommentFlags(supabase, commentId, "approved", moderatorId);
+  return comment;
+}
+
+/**
+ * The moderation queue: comments with open flags, most-flagged first, each
+ * with its article and the individual reports.
+ */
+export async function listFlaggedComments(supabase: SupabaseClient) {
+  const { data, error } = await supabase
+    .from("comment_flags")
+    .select(
+      `id, reason, details, created_at, reporter:user_id(id, username),
+       comment:comment_id(id, content, created_at, edited_at, deleted_at, hidden_at,
+         user:user_id(id, username), article:article_id(id, title, slug))`
+    )
+    .is("resolved_at", null)
+    .order("created_at", { ascending: false });
+  if (error) throw error;
+
+  const byComment = new Map<number, any>();
+  for (const flag of data || []) {
+    const comment: any = flag.comment;
+    if (!comment) continue;
+    if (!byComment.has(comment.id)) {
+      byComment.set(comment.id, {
+        comment: {
+          id: comment.id,
+          content: comment.content,
+          createdAt: comment.created_at,
+          editedAt: comment.edited_at,
+          deleted: !!comment.deleted_at,
+          hidden: !!comment.hidden_at,
+          author: comment.user ?? null,
+        },
+        article: comment.article ?? null,
+        flags: [],
+        latestFlagAt: flag.created_at,
+      });
+    }
+    const reporter: any = flag.reporter;
+    byComment.get(comment.id).flags.push({
+      id: flag.id,
+      reason: flag.reason,
+      details: flag.details,
+      createdAt: flag.created_at,
+      reporter: reporter ? { id: reporter.id, username: reporter.username } : null,
+    });
+  }
+
+  return Array.from(byComment.values()).sort(
+    (a, b) =>
+      b.flags.length - a.flags.length ||
+      new Date(b.latestFlagAt).getTime() - new Date(a.latestFlagAt).getTime()
+  );
+}
+
+// ---- Votes ----
+
+/** Vote tallies for the given comments, with the viewer's own vote if known */
+export async function loadCommentVotes(
+  supabase: SupabaseClient,
+  commentIds: number[],
+  viewerId?: number | null
+): Promise<Map<number, CommentVoteTally>> {
+  const tallies = new Map<number, CommentVoteTally>();
+  if (commentIds.length === 0) return tallies;
+
+  const { data, error } = await supabase
+    .from("comment_votes")
+    .select("comment_id, user_id, value")
+    .in("comment_id", commentIds);
+  if (error) throw error;
+
+  for (const vote of data || []) {
+    if (!tallies.has(vote.comment_id)) {
+      tallies.set(vote.comment_id, { upvotes: 0, downvotes: 0, userVote: 0 });
+    }
+    const tally = tallies.get(vote.comment_id)!;
+    if (vote.value > 0) tally.upvotes++;
+    else tally.downvotes++;
+    if (viewerId && vote.user_id === viewerId) tally.userVote = vote.value;
+  }
+  return tallies;
+}
+
+/** Validate a vote request body: { value: 1 | -1 | 0 }, where 0 clears the vote */
+export function parseCommentVote(body: any): { value?: number; error?: string } {
+  const value = body?.value;
+  if (value !== 1 && value !== -1 && value !== 0) {
+    return { error: "value must be 1, -1 or 0" };
+  }
+  return { value };
+}
+
+/** Set or clear the user's vote on a comment. Returns the comment's new tally. */
+export async function setCommentVote(
+  supabase: SupabaseClient,
+  commentId: number,
+  userId: number,
+  value: number
+) {
+  const { error } =
+    value === 0
+      ? await supabase
+          .from("comment_votes")
+          .delete()
+          .eq("comment_id", commentId)
+          .eq("user_id", userId)
+      : await supabase
+          .from("comment_votes")
+          .upsert(
+            { comment_id: commentId, user_id: userId, value },
+            { onConflict: "comment_id,user_id" }
+          );
+  if (error) throw error;
+
+  const tally = (await loadCommentVotes(supabase, [commentId], userId)).get(commentId);
+  const upvotes = tally?.upvotes ?? 0;
+  const downvotes = tally?.downvotes ?? 0;
+  return { id: commentId, upvotes, downvotes, score: upvotes - downvotes, user_vote: value };
+}
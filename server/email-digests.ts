@@ -0,0 +1,546 @@
+import { randomBytes } from "crypto";
+import { promises as fs } from "fs";
+import { createConnection } from "net";
+import path from "path";
+import { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * Email digests for channel subscribers.
+ * Each user picks off / daily / weekly in digest_preferences. The send-digests
+ * cron collects what was published in their subscribed channels since their
+ * last digest, leads each story with its [!SUMMARY] bullets, and sends an HTML
+ * + plain-text email through the configured MailTransport. Every email has an
+ * unsubscribe link (and List-Unsubscribe headers) carrying the user's token.
+ *
+ * Transports (MAIL_TRANSPORT):
+ *   resend  POST to the Resend API with RESEND_API_KEY (the default when set)
+ *   smtp    plain SMTP to SMTP_HOST:SMTP_PORT, for a local sink like Mailpit
+ *   file    write .eml files to MAIL_SINK_DIR (default .mail)
+ *
+ * IMPORTANT: an identical inlined copy lives in api/index.ts (which must stay
+ * self-contained). Keep the two in sync.
+ */
+
+export const DIGEST_FREQUENCIES = ["off", "daily", "weekly"];
+
+const DIGEST_SITE_BASE = process.env.SITE_URL || "https://www.newsplatform.org";
+const DIGEST_FROM = process.env.MAIL_FROM || "NewsPlatform <digest@newsplatform.org>";
+const MAX_DIGEST_ARTICLES = 20;
+// A digest is due this long after the last one; a little under the period so
+// a cron tick that runs a few minutes early doesn't skip a day
+const DIGEST_DUE_AFTER_MS: Record<string, number> = {
+  daily: 20 * 60 * 60 * 1000,
+  weekly: (6 * 24 + 20) * 60 * 60 * 1000,
+};
+// How far back a user's first digest looks
+const DIGEST_LOOKBACK_MS: Record<string, number> = {
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+};
+
+export interface MailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  headers?: Record<string, string>;
+}
+
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+export interface DigestArticle {
+  title: string;
+  url: string;
+  channelName: string;
+  publishedAt: string;
+  summary: string[];
+}
+
+// ---- Mail transports ----
+
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value).toString("base64")}?=`;
+}
+
+function base64Lines(value: string): string {
+  return Buffer.from(value).toString("base64").replace(/.{76}/g, "$&\r\n");
+}
+
+function emailAddress(value: string): string {
+  return value.match(/<([^>]+)>/)?.[1] || value.trim();
+}
+
+/** Render a message as RFC 5322 text with HTML and plain-text alternatives */
+export function formatMimeMessage(message: MailMessage): string {
+  const boundary = `np-${randomBytes(12).toString("hex")}`;
+  const headers: Record<string, string> = {
+    From: message.from,
+    To: message.to,
+    Subject: encodeHeader(message.subject),
+    Date: new Date().toUTCString(),
+    "Message-ID": `<${randomBytes(16).toString("hex")}@${emailAddress(message.from).split("@")[1] || "localhost"}>`,
+    "MIME-Version": "1.0",
+    "Content-Type": `multipart/alternative; boundary="${boundary}"`,
+    ...message.headers,
+  };
+  const part = (type: string, body: string) =>
+    [
+      `--${boundary}`,
+      `Content-Type: ${type}; charset=utf-8`,
+      "Content-Transfer-Encoding: base64",
+      "",
+      base64Lines(body),
+    ].join("\r\n");
+
+  return [
+    ...Object.entries(headers).map(([key, value]) => `${key}: ${value}`),
+    "",
+    part("text/plain", message.text),
+    part("text/html", message.html),
+    `--${boundary}--`,
+    "",
+  ].join("\r\n");
+}
+
+/** Write each message to <dir>/<timestamp>-<to>.eml */
+export function createFileTransport(dir: string): MailTransport {
+  return {
+    name: "file",
+    async send(message) {
+      await fs.mkdir(dir, { recursive: true });
+      const safeTo = emailAddress(message.to).replace(/[^\w.@-]/g, "_");
+      const file = path.join(dir, `${Date.now()}-${safeTo}.eml`);
+      await fs.writeFile(file, formatMimeMessage(message));
+      console.log(`Wrote digest email to ${file}`);
+    },
+  };
+}
+
+/**
+ * Plain SMTP without auth or TLS, for a local sink (Mailpit, MailHog,
+ * smtp4dev). Not meant for a real relay.
+ */
+export function createSmtpTransport(host: string, port: number): MailTransport {
+  return {
+    name: "smtp",
+    send: (message) =>
+      new Promise((resolve, reject) => {
+        const data = formatMimeMessage(message).replace(/^\./gm, "..");
+        const commands = [
+          "EHLO newsplatform.local",
+          `MAIL FROM:<${emailAddress(message.from)}>`,
+          `RCPT TO:<${emailAddress(message.to)}>`,
+          "DATA",
+          `${data}\r\n.`,
+          "QUIT",
+        ];
+        let step = -1; // -1 = waiting for the greeting
+        let pending = "";
+        let done = false;
+        const finish = (error?: Error) => {
+          if (done) return;
+          done = true;
+          socket.destroy();
+          error ? reject(error) : resolve();
+        };
+
+        const socket = createConnection({ host, port });
+        socket.setTimeout(10000, () => finish(new Error("SMTP timeout")));
+        socket.on("error", (error) => finish(error));
+        socket.on("close", () => finish(new Error("SMTP connection closed early")));
+        socket.on("data", (chunk) => {
+          pending += chunk.toString();
+          // A reply is complete once a line reads "NNN text" (no dash)
+          const lines = pending.split("\r\n");
+          const last = lines[lines.length - 2];
+          if (!last || !/^\d{3}( |$)/.test(last)) return;
+          pending = "";
+          if (parseInt(last, 10) >= 400) return finish(new Error(`SMTP error: ${last}`));
+          step++;
+          if (step === commands.length) return finish();
+          socket.write(`${commands[step]}\r\n`);
+        });
+      }),
+  };
+}
+
+export function createResendTransport(apiKey: string): MailTransport {
+  return {
+    name: "resend",
+    async send(message) {
+      const response = await fetch("https://api.resend.com/emails", {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          from: message.from,
+          to: [message.to],
+          subject: message.subject,
+          html: message.html,
+          text: message.text,
+          headers: message.headers,
+        }),
+      });
+      if (!response.ok) {
+        throw new Error(`Resend returned ${response.status}: ${await response.text()}`);
+      }
+    },
+  };
+}
+
+/** The transport picked by MAIL_TRANSPORT, or null when mail isn't configured */
+export function getMailTransport(): MailTransport | null {
+  const kind = process.env.MAIL_TRANSPORT || (process.env.RESEND_API_KEY ? "resend" : "");
+  switch (kind) {
+    case "resend":
+      return process.env.RESEND_API_KEY
+        ? createResendTransport(process.env.RESEND_API_KEY)
+        : null;
+    case "smtp":
+      return createSmtpTransport(
+        process.env.SMTP_HOST || "localhost",
+        parseInt(process.env.SMTP_PORT || "1025", 10)
+      );
+    case "file":
+      return createFileTransport(process.env.MAIL_SINK_DIR || ".mail");
+    default:
+      return null;
+  }
+}
+
+// ---- Digest content ----
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function htmlToText(html: string): string {
+  return html
+    .replace(/<[^>]+>/g, " ")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * The bullets of an article's [!SUMMARY] callout, or its opening paragraph
+ * (trimmed) when it has none.
+ */
+export function extractArticleSummary(html: string): string[] {
+  const aside = (html || "").match(
+    /<aside class="callout callout-summary"[^>]*>([\s\S]*?)<\/aside>/
+  );
+  if (aside) {
+    const body = aside[1].replace(/<div class="callout-title">[\s\S]*?<\/div>/, "");
+    const bullets = Array.from(body.matchAll(/<li[^>]*>([\s\S]*?)<\/li>/g))
+      .map((m) => htmlToText(m[1]))
+      .filter(Boolean);
+    if (bullets.length > 0) return bullets;
+    const text = htmlToText(body);
+    if (text) return [text];
+  }
+
+  const paragraph = (html || "").match(/<p[^>]*>([\s\S]*?)<\/p>/);
+  const text = htmlToText(paragraph ? paragraph[1] : html || "");
+  if (!text) return [];
+  return [text.length > 280 ? `${text.slice(0, 277).trimEnd()}...` : text];
+}
+
+/** Render a digest as a subject line, HTML body and plain-text body */
+export function buildDigestEmail(options: {
+  username: string;
+  frequency: string;
+  articles: DigestArticle[];
+  unsubscribeUrl: string;
+  preferencesUrl: string;
+}): { subject: string; html: string; text: string } {
+  const { username, frequency, articles, unsubscribeUrl, preferencesUrl } = options;
+  const period = frequency === "weekly" ? "this week" : "today";
+  const subject = `${articles.length} new ${articles.length === 1 ? "story" : "stories"} from your channels ${period}`;
+
+  // Group by channel, keeping the newest-first order within each
+  const byChannel = new Map<string, DigestArticle[]>();
+  for (const article of articles) {
+    byChannel.set(article.channelName, [...(byChannel.get(article.channelName) || []), article]);
+  }
+
+  const text = [
+    `Hi ${username},`,
+    "",
+    `Here's what was published ${period} in the channels you follow.`,
+    ...Array.from(byChannel.entries()).flatMap(([channel, items]) => [
+      "",
+      channel.toUpperCase(),
+      ...items.flatMap((a) => ["", a.title, ...a.summary.map((s) => `  - ${s}`), `  ${a.url}`]),
+    ]),
+    "",
+    "--",
+    `Change how often you get this: ${preferencesUrl}`,
+    `Unsubscribe: ${unsubscribeUrl}`,
+    "",
+  ].join("\n");
+
+  const html = `<!DOCTYPE html>
+<html><body style="margin:0;padding:24px;background:#f5f5f5;font-family:-apple-system,Segoe UI,Helvetica,Arial,sans-serif;color:#111">
+<div style="max-width:600px;margin:0 auto;background:#fff;border-radius:8px;padding:24px">
+<p style="margin:0 0 16px">Hi ${escapeHtml(username)},</p>
+<p style="margin:0 0 24px;color:#555">Here's what was published ${period} in the channels you follow.</p>
+${Array.from(byChannel.entries())
+  .map(
+    ([channel, items]) => `<h2 style="font-size:13px;text-transform:uppercase;letter-spacing:.05em;color:#888;margin:24px 0 8px">${escapeHtml(channel)}</h2>
+${items
+  .map(
+    (a) => `<div style="margin:0 0 20px">
+<a href="${escapeHtml(a.url)}" style="font-size:18px;font-weight:600;color:#111;text-decoration:none">${escapeHtml(a.title)}</a>
+${a.summary.length > 0 ? `<ul style="margin:8px 0 0;padding-left:20px;color:#333">${a.summary.map((s) => `<li style="margin:0 0 4px">${escapeHtml(s)}</li>`).join("")}</ul>` : ""}
+</div>`
+  )
+  .join("\n")}`
+  )
+  .join("\n")}
+<hr style="border:none;border-top:1px solid #eee;margin:24px 0 16px">
+<p style="font-size:12px;color:#888;margin:0">You get this ${escapeHtml(frequency)} digest because you subscribe to these channels on NewsPlatform.
+<a href="${escapeHtml(preferencesUrl)}" style="color:#888">Change frequency</a> ·
+<a href="${escapeHtml(unsubscribeUrl)}" style="color:#888">Unsubscribe</a></p>
+</div>
+</body></html>`;
+
+  return { subject, html, text };
+}
+
+/**
+ * The page behind the unsubscribe link. GET shows "confirm" (a form that POSTs
+ * back, so link scanners can't unsubscribe anyone); the POST, or a mail
+ * client's one-click request, shows "done".
+ */
+export function renderUnsubscribePage(state: "confirm" | "done" | "invalid", token = ""): string {
+  const body =
+    state === "confirm"
+      ? `<h1>Stop email digests?</h1>
+<p>You won't get any more digest emails. You can turn them back on from your profile.</p>
+<form method="post" action="?token=${encodeURIComponent(token)}"><button type="submit">Unsubscribe</button></form>`
+      : state === "done"
+        ? `<h1>You're unsubscribed</h1>
+<p>You won't get any more digest emails. Changed your mind? Turn them back on from <a href="/profile">your profile</a>.</p>`
+        : `<h1>Link not recognised</h1>
+<p>This unsubscribe link is invalid. You can manage digests from <a href="/profile">your profile</a>.</p>`;
+  return `<!DOCTYPE html>
+<html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width,initial-scale=1"><title>Email digests - NewsPlatform</title></head>
+<body style="font-family:-apple-system,Segoe UI,Helvetica,Arial,sans-serif;max-width:480px;margin:64px auto;padding:0 16px;color:#111">
+${body}
+</body></html>`;
+}
+
+// ---- Preferences ----
+
+function generateUnsubscribeToken(): string {
+  return randomBytes(24).toString("hex");
+}
+
+/** A user's digest preferences, creating the row (frequency off) if needed */
+export async function getDigestPreferences(supabase: SupabaseClient, userId: number) {
+  const { data: existing } = await supabase
+    .from("digest_preferences")
+    .select("*")
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (existing) return existing;
+
+  const { data: created, error } = await supabase
+    .from("digest_preferences")
+    .insert({ user_id: userId, frequency: "off", unsubscribe_token: generateUnsubscribeToken() })
+    .select()
+    .single();
+  if (error && error.code !== "23505") throw error;
+  if (created) return created;
+
+  // Lost a race with another request creating it
+  const { data } = await supabase
+    .from("digest_preferences")
+    .select("*")
+    .eq("user_id", userId)
+    .single();
+  return data;
+}
+
+export async function setDigestFrequency(
+  supabase: SupabaseClient,
+  userId: number,
+  frequency: string
+) {
+  await getDigestPreferences(supabase, userId);
+  const { data, error } = await supabase
+    .from("digest_preferences")
+    .update({ frequency, updated_at: new Date().toISOString() })
+    .eq("user_id", userId)
+    .select()
+    .single();
+  if (error) throw error;
+  return data;
+}
+
+/** Turn digests off for the token's owner. Returns false for an unknown token. */
+export async function unsubscribeFromDigests(
+  supabase: SupabaseClient,
+  token: string
+): Promise<boolean> {
+  if (!token) return false;
+  const { data } = await supabase
+    .from("digest_preferences")
+    .update({ frequency: "off", updated_at: new Date().toISOString() })
+    .eq("unsubscribe_token", token)
+    .select("user_id");
+  return !!data && data.length > 0;
+}
+
+export function mapDigestPreferences(row: any) {
+  return {
+    frequency: row.frequency,
+    lastSentAt: row.last_sent_at,
+  };
+}
+
+// ---- Sending ----
+
+/** Published articles from the user's subscribed channels, newest first */
+export async function loadDigestArticles(
+  supabase: SupabaseClient,
+  userId: number,
+  since: string
+): Promise<DigestArticle[]> {
+  const { data: subscriptions } = await supabase
+    .from("subscriptions")
+    .select("channel_id")
+    .eq("user_id", userId);
+  const channelIds = (subscriptions || []).map((s: any) => s.channel_id);
+  if (channelIds.length === 0) return [];
+
+  const { data: articles, error } = await supabase
+    .from("articles")
+    .select("id, title, slug, content, published_at, channel:channel_id(name)")
+    .in("channel_id", channelIds)
+    .eq("published", true)
+    .gt("published_at", since)
+    .order("published_at", { ascending: false })
+    .limit(MAX_DIGEST_ARTICLES);
+  if (error) {
+    console.error("Error loading digest articles:", error);
+    return [];
+  }
+
+  return (articles || []).map((a: any) => ({
+    title: a.title,
+    url: `${DIGEST_SITE_BASE}/articles/${a.id}${a.slug ? `/${a.slug}` : ""}`,
+    channelName: a.channel?.name || "NewsPlatform",
+    publishedAt: a.published_at,
+    summary: extractArticleSummary(a.content),
+  }));
+}
+
+/**
+ * Send every digest that is due. A user's row is claimed (last_sent_at moved
+ * to now) before sending so overlapping runs don't double-send; a failed send
+ * puts it back. force ignores the schedule, and userId limits the run to one
+ * user (both for local testing).
+ */
+export async function sendDueDigests(
+  supabase: SupabaseClient,
+  transport: MailTransport,
+  options: { force?: boolean; userId?: number } = {}
+): Promise<{ sent: number; empty: number; failed: number }> {
+  const summary = { sent: 0, empty: 0, failed: 0 };
+  const now = new Date();
+
+  let query = supabase
+    .from("digest_preferences")
+    .select("user_id, frequency, unsubscribe_token, last_sent_at, user:user_id(username, supabase_uid)")
+    .neq("frequency", "off");
+  if (options.userId) query = query.eq("user_id", options.userId);
+  const { data: preferences, error } = await query;
+  if (error) {
+    console.error("Error loading digest preferences:", error);
+    return summary;
+  }
+
+  for (const pref of preferences || []) {
+    const user: any = pref.user;
+    const lastSent = pref.last_sent_at ? new Date(pref.last_sent_at).getTime() : 0;
+    if (!options.force && now.getTime() - lastSent < DIGEST_DUE_AFTER_MS[pref.frequency]) {
+      continue;
+    }
+
+    const since =
+      pref.last_sent_at ||
+      new Date(now.getTime() - DIGEST_LOOKBACK_MS[pref.frequency]).toISOString();
+    const articles = await loadDigestArticles(supabase, pref.user_id, since);
+    if (articles.length === 0) {
+      summary.empty++;
+      continue;
+    }
+
+    const { data: authUser } = user?.supabase_uid
+      ? await supabase.auth.admin.getUserById(user.supabase_uid)
+      : { data: null };
+    const email = authUser?.user?.email;
+    if (!email) {
+      summary.empty++;
+      continue;
+    }
+
+    let claim = supabase
+      .from("digest_preferences")
+      .update({ last_sent_at: now.toISOString() })
+      .eq("user_id", pref.user_id);
+    claim = pref.last_sent_at ? claim.eq("last_sent_at", pref.last_sent_at) : claim.is("last_sent_at", null);
+    const { data: claimed } = await claim.select("user_id");
+    if (!claimed || claimed.length === 0) continue; // another run has it
+
+    const unsubscribeUrl = `${DIGEST_SITE_BASE}/api/digests/unsubscribe?token=${pref.unsubscribe_token}`;
+    const digest = buildDigestEmail({
+      username: user?.username || "there",
+      frequency: pref.frequency,
+      articles,
+      unsubscribeUrl,
+      preferencesUrl: `${DIGEST_SITE_BASE}/profile`,
+    });
+
+    try {
+      await transport.send({
+        from: DIGEST_FROM,
+        to: email,
+        ...digest,
+        headers: {
+          "List-Unsubscribe": `<${unsubscribeUrl}>`,
+          "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+        },
+      });
+      summary.sent++;
+    } catch (sendError) {
+      console.error(`Error sending digest to user ${pref.user_id}:`, sendError);
+      await supabase
+        .from("digest_preferences")
+        .update({ last_sent_at: pref.last_sent_at })
+        .eq("user_id", pref.user_id);
+      summary.failed++;
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,236 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * Personalized "For You" ranking for the home page.
+ * Candidates are recent published articles. Each is scored from the reader's
+ * own signals: channels they subscribe to, categories of articles they liked
+ * (reactions), and channels they keep reading (article_views). A small
+ * popularity term breaks ties, and the whole score decays with age so the feed
+ * stays fresh. Articles the reader has already opened are demoted, not
+ * removed, so a sparse catalogue never leaves the feed empty. The reader's
+ * own articles are left out.
+ *
+ * A greedy re-rank then applies the diversity rules: every earlier pick from
+ * the same channel discounts the next one, the same channel never appears
+ * twice in a row while an alternative exists, and no channel may take more
+ * than a third of the feed unless nothing else is left.
+ *
+ * GET /api/feed/for-you returns the ranked ids with their scores; the client
+ * joins them onto the article list it already has.
+ *
+ * IMPORTANT: an identical inlined copy lives in api/index.ts (which must stay
+ * self-contained). Keep the two in sync.
+ */
+
+const FOR_YOU_CANDIDATE_DAYS = 30;
+const FOR_YOU_MAX_CANDIDATES = 500;
+const FOR_YOU_SIGNAL_LIMIT = 200; // most recent likes / reads considered
+const FOR_YOU_PAGE_SIZE = 30;
+const FOR_YOU_MAX_PAGE_SIZE = 100;
+
+const FOR_YOU_WEIGHTS = {
+  base: 0.2, // every candidate, so cold-start readers get a fresh, popular feed
+  subscribed: 1.0,
+  likedCategory: 0.8, // scaled by how strongly the reader favours the category
+  readChannel: 0.5, // scaled by the channel's share of the reader's reads
+  popularity: 0.3, // scaled log of views against the most-viewed candidate
+};
+const FOR_YOU_HALF_LIFE_HOURS = 36;
+const FOR_YOU_ALREADY_READ_FACTOR = 0.15;
+const FOR_YOU_CHANNEL_REPEAT_FACTOR = 0.6;
+const FOR_YOU_MAX_CHANNEL_SHARE = 1 / 3;
+
+export interface ForYouItem {
+  articleId: number;
+  score: number;
+}
+
+/** Parse the ?limit= query param */
+export function parseForYouLimit(value: unknown): number {
+  return Math.min(
+    Math.max(parseInt(String(value ?? ""), 10) || FOR_YOU_PAGE_SIZE, 1),
+    FOR_YOU_MAX_PAGE_SIZE
+  );
+}
+
+/** Counts normalised so the strongest entry is 1 */
+function normaliseCounts(counts: Map<number, number>): Map<number, number> {
+  const max = Math.max(0, ...Array.from(counts.values()));
+  const normalised = new Map<number, number>();
+  if (max === 0) return normalised;
+  counts.forEach((count, key) => normalised.set(key, count / max));
+  return normalised;
+}
+
+function countBy(values: number[]): Map<number, number> {
+  const counts = new Map<number, number>();
+  for (const value of values) counts.set(value, (counts.get(value) || 0) + 1);
+  return counts;
+}
+
+/** Everything the ranking needs to know about the reader */
+async function loadReaderSignals(supabase: SupabaseClient, userId: number) {
+  const [subscriptionsResult, likesResult, readsResult] = await Promise.all([
+    supabase.from("subscriptions").select("channel_id").eq("user_id", userId),
+    supabase
+      .from("reactions")
+      .select("article_id")
+      .eq("user_id", userId)
+      .eq("is_like", true)
+      .order("id", { ascending: false })
+      .limit(FOR_YOU_SIGNAL_LIMIT),
+    supabase
+      .from("article_views")
+      .select("article_id")
+      .eq("user_id", userId)
+      .order("viewed_at", { ascending: false })
+      .limit(FOR_YOU_SIGNAL_LIMIT),
+  ]);
+  if (subscriptionsResult.error) throw subscriptionsResult.error;
+  if (likesResult.error) throw likesResult.error;
+  if (readsResult.error) throw readsResult.error;
+
+  const likedIds = (likesResult.data || []).map((r) => r.article_id);
+  const readIds = Array.from(new Set((readsResult.data || []).map((r) => r.article_id)));
+
+  let likedCategoryIds: number[] = [];
+  if (likedIds.length > 0) {
+    const { data, error } = await supabase
+      .from("article_categories")
+      .select("category_id")
+      .in("article_id", likedIds);
+    if (error) throw error;
+    likedCategoryIds = (data || []).map((row) => row.category_id);
+  }
+
+  let readChannelIds: number[] = [];
+  if (readIds.length > 0) {
+    const { data, error } = await supabase
+      .from("articles")
+      .select("channel_id")
+      .in("id", readIds);
+    if (error) throw error;
+    readChannelIds = (data || []).map((row) => row.channel_id).filter(Boolean);
+  }
+
+  return {
+    subscribedChannels: new Set((subscriptionsResult.data || []).map((s) => s.channel_id)),
+    categoryAffinity: normaliseCounts(countBy(likedCategoryIds)),
+    channelAffinity: normaliseCounts(countBy(readChannelIds)),
+    readArticles: new Set(readIds),
+  };
+}
+
+/**
+ * Greedy diversity re-rank. Repeatedly takes the best remaining article
+ * after discounting channels already picked, skipping a channel that was just
+ * shown or has reached its share of the feed while anything else remains.
+ */
+function diversify(
+  scored: { articleId: number; channelId: number | null; score: number }[],
+  limit: number
+): ForYouItem[] {
+  const remaining = scored.slice();
+  const picked: ForYouItem[] = [];
+  const perChannel = new Map<number, number>();
+  const maxPerChannel = Math.max(1, Math.floor(limit * FOR_YOU_MAX_CHANNEL_SHARE));
+  let lastChannel: number | null = null;
+
+  while (picked.length < limit && remaining.length > 0) {
+    let best = -1;
+    let bestScore = -Infinity;
+    let fallback = -1;
+    let fallbackScore = -Infinity;
+    remaining.forEach((item, index) => {
+      const seen = item.channelId != null ? perChannel.get(item.channelId) || 0 : 0;
+      const adjusted = item.score * Math.pow(FOR_YOU_CHANNEL_REPEAT_FACTOR, seen);
+      const blocked =
+        item.channelId != null &&
+        (item.channelId === lastChannel || seen >= maxPerChannel);
+      if (!blocked && adjusted > bestScore) {
+        best = index;
+        bestScore = adjusted;
+      }
+      if (adjusted > fallbackScore) {
+        fallback = index;
+        fallbackScore = adjusted;
+      }
+    });
+    const index = best >= 0 ? best : fallback;
+    const [item] = remaining.splice(index, 1);
+    picked.push({
+      articleId: item.articleId,
+      score: Number((best >= 0 ? bestScore : fallbackScore).toPrecision(4)),
+    });
+    if (item.channelId != null) {
+      perChannel.set(item.channelId, (perChannel.get(item.channelId) || 0) + 1);
+    }
+    lastChannel = item.channelId;
+  }
+  return picked;
+}
+
+/** The reader's ranked For You feed, best first */
+export async function rankForYouFeed(
+  supabase: SupabaseClient,
+  userId: number,
+  limit: number = FOR_YOU_PAGE_SIZE
+): Promise<ForYouItem[]> {
+  const since = new Date(Date.now() - FOR_YOU_CANDIDATE_DAYS * 24 * 60 * 60 * 1000);
+  const { data: candidates, error } = await supabase
+    .from("articles")
+    .select("id, channel_id, user_id, view_count, created_at, published_at")
+    .eq("published", true)
+    .neq("user_id", userId)
+    .gte("created_at", since.toISOString())
+    .order("created_at", { ascending: false })
+    .limit(FOR_YOU_MAX_CANDIDATES);
+  if (error) throw error;
+  if (!candidates || candidates.length === 0) return [];
+
+  const signals = await loadReaderSignals(supabase, userId);
+
+  const categoriesByArticle = new Map<number, number[]>();
+  if (signals.categoryAffinity.size > 0) {
+    const { data: rows, error: categoriesError } = await supabase
+      .from("article_categories")
+      .select("article_id, category_id")
+      .in("article_id", candidates.map((a) => a.id));
+    if (categoriesError) throw categoriesError;
+    for (const row of rows || []) {
+      if (!categoriesByArticle.has(row.article_id)) categoriesByArticle.set(row.article_id, []);
+      categoriesByArticle.get(row.article_id)!.push(row.category_id);
+    }
+  }
+
+  const maxViews = Math.max(1, ...candidates.map((a) => a.view_count || 0));
+  const now = Date.now();
+  const scored = candidates.map((article) => {
+    const categoryAffinity = Math.max(
+      0,
+      ...(categoriesByArticle.get(article.id) || []).map(
+        (id) => signals.categoryAffinity.get(id) || 0
+      )
+    );
+    const relevance =
+      FOR_YOU_WEIGHTS.base +
+      (signals.subscribedChannels.has(article.channel_id) ? FOR_YOU_WEIGHTS.subscribed : 0) +
+      FOR_YOU_WEIGHTS.likedCategory * categoryAffinity +
+      FOR_YOU_WEIGHTS.readChannel * (signals.channelAffinity.get(article.channel_id) || 0) +
+      FOR_YOU_WEIGHTS.popularity * (Math.log1p(article.view_count || 0) / Math.log1p(maxViews));
+
+    const publishedAt = new Date(article.published_at || article.created_at).getTime();
+    const ageHours = Math.max(0, (now - publishedAt) / (60 * 60 * 1000));
+    const freshness = Math.pow(0.5, ageHours / FOR_YOU_HALF_LIFE_HOURS);
+    const seen = signals.readArticles.has(article.id) ? FOR_YOU_ALREADY_READ_FACTOR : 1;
+
+    return {
+      articleId: article.id,
+      channelId: article.channel_id ?? null,
+      score: relevance * freshness * seen,
+    };
+  });
+
+  scored.sort((a, b) => b.score - a.score);
+  return diversify(scored, limit);
+}
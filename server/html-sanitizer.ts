@@ -0,0 +1,390 @@
+/**
+ * Allow-list HTML sanitizer for article content.
+ * Every article write runs its HTML through sanitizeArticleHtml after
+ * normalizeContent. Whatever isn't listed below is removed:
+ *   - script, style, object, svg, forms etc. go together with their contents;
+ *     other unknown tags are unwrapped and keep their text
+ *   - attributes outside the per-tag list (on*, srcdoc, formaction, …)
+ *   - href/src/cite URLs whose scheme isn't http(s), mailto or tel (raster
+ *     data: images are allowed in img src); iframes only for the video hosts
+ *     markdownToHtml embeds
+ *   - class names that aren't article markup, and any style but text-align
+ * The allow-list covers what markdownToHtml and the rich text editor emit:
+ * figures, galleries, callouts, pull quotes, stat boxes, tables, charts,
+ * maps, timelines, video embeds and footnotes. The caller gets back a count
+ * of everything removed.
+ * No external dependencies — avoids ESM/CJS issues on Vercel.
+ *
+ * IMPORTANT: an identical inlined copy lives in api/index.ts (which must stay
+ * self-contained). Keep the two in sync.
+ */
+
+export interface SanitizeRemoval {
+  /** element: a tag, with its contents for script and the like;
+   *  attribute: an attribute, class names or style declarations;
+   *  url: an href/src/cite dropped for its scheme or host */
+  kind: "element" | "attribute" | "url";
+  /** Tag name, or tag[attribute] */
+  name: string;
+  count: number;
+}
+
+export interface SanitizeResult {
+  html: string;
+  removed: SanitizeRemoval[];
+}
+
+const SANITIZE_GLOBAL_ATTRS = ["class", "id", "title", "lang", "dir", "aria-label", "aria-hidden"];
+
+// Allowed tags → the attributes each accepts besides the global ones
+const SANITIZE_TAGS: Record<string, string[]> = {
+  a: ["href", "target", "rel", "name", "data-footnote-ref"],
+  abbr: [],
+  aside: ["data-callout"],
+  b: [],
+  blockquote: ["cite"],
+  br: [],
+  caption: [],
+  cite: [],
+  code: [],
+  col: ["span"],
+  colgroup: ["span"],
+  dd: [],
+  del: [],
+  details: ["open"],
+  div: ["data-chart", "data-map", "data-gallery", "data-count", "data-timeline"],
+  dl: [],
+  dt: [],
+  em: [],
+  figcaption: [],
+  figure: [],
+  h1: ["style"],
+  h2: ["style"],
+  h3: ["style"],
+  h4: ["style"],
+  h5: ["style"],
+  h6: ["style"],
+  hr: [],
+  i: [],
+  iframe: ["src", "title", "loading", "allow", "allowfullscreen", "width", "height", "frameborder"],
+  img: ["src", "alt", "width", "height", "loading"],
+  ins: [],
+  kbd: [],
+  li: ["value"],
+  mark: [],
+  ol: ["start", "reversed", "type"],
+  p: ["style"],
+  pre: [],
+  q: ["cite"],
+  s: [],
+  section: ["data-footnotes"],
+  small: [],
+  span: [],
+  strong: [],
+  sub: [],
+  summary: [],
+  sup: [],
+  table: [],
+  tbody: [],
+  td: ["colspan", "rowspan", "colwidth", "style"],
+  tfoot: [],
+  th: ["colspan", "rowspan", "colwidth", "scope", "style"],
+  thead: [],
+  time: ["datetime"],
+  tr: [],
+  u: [],
+  ul: [],
+};
+
+const SANITIZE_VOID_TAGS = new Set(["br", "col", "hr", "img", "input", "meta", "link", "base", "wbr", "source", "track", "area", "param", "embed", "keygen"]);
+
+// Removed together with everything inside them
+const SANITIZE_DROP_TAGS = new Set([
+  "script", "style", "template", "noscript", "object", "embed", "applet", "frame",
+  "frameset", "svg", "math", "head", "title", "textarea", "select", "option",
+  "button", "xmp", "noembed", "noframes", "plaintext", "iframe",
+]);
+
+// Their contents are text, not markup, so skip straight to the closing tag
+const SANITIZE_RAW_TEXT_TAGS = new Set([
+  "script", "style", "textarea", "title", "xmp", "iframe", "noembed", "noframes", "noscript", "plaintext",
+]);
+
+// Hosts markdownToHtml and the editor embed video from
+const SANITIZE_EMBED_HOSTS = new Set(["www.youtube-nocookie.com", "www.youtube.com", "player.vimeo.com"]);
+
+// Class names the article styles define; anything else could restyle the page
+const SANITIZE_CLASS = /^(?:(?:article|callout|video|table|pull|stat|language|footnote|timeline)-[\w-]+|callout|footnotes|underline|text-primary)$/;
+
+const SANITIZE_URL_ATTRS = new Set(["href", "src", "cite"]);
+
+// Sticky patterns, matched in place at an index (no slicing, so long articles
+// stay linear)
+const SANITIZE_END_TAG = new RegExp("</([a-zA-Z][\\w:-]*)[^>]*>", "y");
+const SANITIZE_START_TAG = new RegExp("<([a-zA-Z][\\w:-]*)", "y");
+const SANITIZE_ATTR_NAME = new RegExp("[^\\s/>=]+", "y");
+const SANITIZE_UNQUOTED_VALUE = new RegExp("[^\\s>]*", "y");
+
+function sanitizeMatchAt(pattern: RegExp, html: string, i: number) {
+  pattern.lastIndex = i;
+  return pattern.exec(html);
+}
+
+function sanitizeEscapeAttr(value: string): string {
+  return value
+    .replace(/&(?!#?[a-zA-Z0-9]+;)/g, "&amp;")
+    .replace(/"/g, "&quot;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+/** Decode what a browser would, enough to read a URL's scheme */
+function sanitizeDecodeUrl(value: string): string {
+  const named: Record<string, string> = {
+    amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", colon: ":", tab: "\t", newline: "\n", nbsp: " ",
+  };
+  const char = (code: number) =>
+    code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : "\ufffd";
+  return value
+    .replace(/&#x([0-9a-f]+);?/gi, (_m, hex) => char(parseInt(hex, 16)))
+    .replace(/&#(\d+);?/g, (_m, dec) => char(Number(dec)))
+    .replace(/&([a-z]+);/gi, (m, name) => named[name.toLowerCase()] ?? m);
+}
+
+/** Whether a URL attribute may stay: http(s)/mailto/tel or relative */
+function sanitizeUrlAllowed(tag: string, attr: string, value: string): boolean {
+  const url = sanitizeDecodeUrl(value).replace(/[\u0000- \u007f-\u009f]/g, "");
+  // An entity we couldn't decode before the path could be hiding a scheme
+  const head = url.split(/[/?#]/)[0];
+  if (/&[a-z]+;/i.test(head)) return false;
+  const scheme = url.match(/^([a-z][a-z0-9+.-]*):/i)?.[1].toLowerCase();
+  if (tag === "iframe") {
+    try {
+      const parsed = new URL(url);
+      return parsed.protocol === "https:" && SANITIZE_EMBED_HOSTS.has(parsed.hostname);
+    } catch {
+      return false;
+    }
+  }
+  if (!scheme) return true;
+  if (scheme === "http" || scheme === "https") return true;
+  if (attr === "href") return scheme === "mailto" || scheme === "tel";
+  if (tag === "img" && attr === "src") {
+    return /^data:image\/(?:png|gif|jpe?g|webp);base64,[a-z0-9+/=]*$/i.test(url);
+  }
+  return false;
+}
+
+/** Split a style attribute into the text-align declarations we keep and the rest */
+function sanitizeStyle(value: string) {
+  const declarations = value
+    .split(";")
+    .map((decl) => decl.trim().toLowerCase())
+    .filter(Boolean);
+  const kept = declarations.filter((decl) =>
+    /^text-align\s*:\s*(?:left|right|center|justify)$/.test(decl)
+  );
+  return { style: kept.join("; "), dropped: declarations.length - kept.length };
+}
+
+/** Parse the attributes of a start tag from index i; returns null if unterminated */
+function sanitizeParseTag(html: string, i: number) {
+  const attrs: [string, string | null][] = [];
+  let selfClosing = false;
+  while (i < html.length) {
+    const c = html[i];
+    if (c === ">") return { attrs, end: i + 1, selfClosing };
+    if (/[\s/]/.test(c)) {
+      if (c === "/" && html[i + 1] === ">") selfClosing = true;
+      i++;
+      continue;
+    }
+    const nameMatch = sanitizeMatchAt(SANITIZE_ATTR_NAME, html, i);
+    const name = nameMatch ? nameMatch[0] : html[i];
+    i += name.length;
+    while (/\s/.test(html[i] || "")) i++;
+    let value: string | null = null;
+    if (html[i] === "=") {
+      i++;
+      while (/\s/.test(html[i] || "")) i++;
+      const quote = html[i];
+      if (quote === '"' || quote === "'") {
+        const close = html.indexOf(quote, i + 1);
+        if (close === -1) return null;
+        value = html.slice(i + 1, close);
+        i = close + 1;
+      } else {
+        const unquoted = sanitizeMatchAt(SANITIZE_UNQUOTED_VALUE, html, i)![0];
+        value = unquoted;
+        i += unquoted.length;
+      }
+    }
+    attrs.push([name.toLowerCase(), value]);
+  }
+  return null;
+}
+
+export function sanitizeArticleHtml(html: string): SanitizeResult {
+  const counts = new Map<string, SanitizeRemoval>();
+  const report = (kind: SanitizeRemoval["kind"], name: string) => {
+    const key = `${kind}:${name}`;
+    const entry = counts.get(key) || { kind, name, count: 0 };
+    entry.count++;
+    counts.set(key, entry);
+  };
+
+  const out: string[] = [];
+  // Open elements we emitted, so stray closing tags can be dropped and
+  // anything left open is closed at the end
+  const open: string[] = [];
+  // While inside a dropped element: its name and how deeply it's nested
+  let dropping: { tag: string; depth: number } | null = null;
+  let i = 0;
+
+  while (i < html.length) {
+    const lt = html.indexOf("<", i);
+    if (lt === -1) {
+      if (!dropping) out.push(html.slice(i));
+      break;
+    }
+    if (!dropping) out.push(html.slice(i, lt));
+    i = lt;
+
+    // Comments, doctypes and processing instructions
+    if (html.startsWith("<!--", i)) {
+      const close = html.indexOf("-->", i + 4);
+      i = close === -1 ? html.length : close + 3;
+      if (!dropping) report("element", "#comment");
+      continue;
+    }
+    if (html[i + 1] === "!" || html[i + 1] === "?") {
+      const close = html.indexOf(">", i);
+      i = close === -1 ? html.length : close + 1;
+      if (!dropping) report("element", "#declaration");
+      continue;
+    }
+
+    // Closing tag
+    const endTag = sanitizeMatchAt(SANITIZE_END_TAG, html, i);
+    if (endTag) {
+      i += endTag[0].length;
+      const tag = endTag[1].toLowerCase();
+      if (dropping) {
+        if (tag === dropping.tag && --dropping.depth === 0) dropping = null;
+        continue;
+      }
+      const at = open.lastIndexOf(tag);
+      if (at !== -1) {
+        while (open.length > at) out.push(`</${open.pop()}>`);
+      }
+      continue;
+    }
+
+    // Start tag
+    const startTag = sanitizeMatchAt(SANITIZE_START_TAG, html, i);
+    const parsed = startTag ? sanitizeParseTag(html, i + startTag[0].length) : null;
+    if (!startTag || !parsed) {
+      // A bare "<" is text
+      if (!dropping) out.push("&lt;");
+      i++;
+      continue;
+    }
+    i = parsed.end;
+    const tag = startTag[1].toLowerCase();
+
+    if (SANITIZE_RAW_TEXT_TAGS.has(tag)) {
+      const closePattern = new RegExp(`</${tag}[\\s>/]`, "gi");
+      closePattern.lastIndex = i;
+      const close = closePattern.exec(html);
+      const end = close ? html.indexOf(">", close.index) + 1 : html.length;
+      if (!dropping && tag === "iframe") {
+        const src = parsed.attrs.find(([name]) => name === "src")?.[1];
+        if (src && sanitizeUrlAllowed("iframe", "src", src)) {
+          out.push(sanitizeStartTag(tag, parsed.attrs, report), "</iframe>");
+        } else {
+          report("element", tag);
+        }
+      } else if (!dropping) {
+        report("element", tag);
+      }
+      i = end || html.length;
+      continue;
+    }
+
+    if (dropping) {
+      if (tag === dropping.tag && !parsed.selfClosing) dropping.depth++;
+      continue;
+    }
+
+    if (SANITIZE_DROP_TAGS.has(tag)) {
+      report("element", tag);
+      if (!SANITIZE_VOID_TAGS.has(tag) && !parsed.selfClosing) dropping = { tag, depth: 1 };
+      continue;
+    }
+
+    if (!SANITIZE_TAGS[tag]) {
+      // Unknown tag: unwrap it and keep its contents
+      report("element", tag);
+      continue;
+    }
+
+    out.push(sanitizeStartTag(tag, parsed.attrs, report));
+    if (!SANITIZE_VOID_TAGS.has(tag)) open.push(tag);
+  }
+
+  while (open.length > 0) out.push(`</${open.pop()}>`);
+  return { html: out.join(""), removed: Array.from(counts.values()) };
+}
+
+/** Rebuild an allowed start tag from its permitted attributes */
+function sanitizeStartTag(
+  tag: string,
+  attrs: [string, string | null][],
+  report: (kind: SanitizeRemoval["kind"], name: string) => void
+): string {
+  const allowed = SANITIZE_TAGS[tag];
+  const kept = new Map<string, string | null>();
+  for (const [name, value] of attrs) {
+    if (kept.has(name)) continue;
+    if (!SANITIZE_GLOBAL_ATTRS.includes(name) && !allowed.includes(name)) {
+      report("attribute", `${tag}[${name}]`);
+      continue;
+    }
+    if (SANITIZE_URL_ATTRS.has(name) && !sanitizeUrlAllowed(tag, name, value ?? "")) {
+      report("url", `${tag}[${name}]`);
+      continue;
+    }
+    if (name === "class") {
+      const classes = (value ?? "").split(/\s+/).filter(Boolean);
+      const safe = classes.filter((c) => SANITIZE_CLASS.test(c));
+      if (safe.length < classes.length) report("attribute", `${tag}[class]`);
+      if (safe.length > 0) kept.set(name, safe.join(" "));
+      continue;
+    }
+    if (name === "style") {
+      const { style, dropped } = sanitizeStyle(value ?? "");
+      if (dropped > 0) report("attribute", `${tag}[style]`);
+      if (style) kept.set(name, style);
+      continue;
+    }
+    if (name === "target") {
+      if (value === "_blank") kept.set(name, value);
+      else report("attribute", `${tag}[target]`);
+      continue;
+    }
+    kept.set(name, value);
+  }
+
+  // New tabs mustn't get a handle on this page
+  if (tag === "a" && kept.get("target") === "_blank") {
+    const rel = new Set((kept.get("rel") || "").split(/\s+/).filter(Boolean));
+    rel.add("noopener");
+    rel.add("noreferrer");
+    kept.set("rel", Array.from(rel).join(" "));
+  }
+
+  const rendered = Array.from(kept.entries())
+    .map(([name, value]) => (value === null ? ` ${name}` : ` ${name}="${sanitizeEscapeAttr(value)}"`))
+    .join("");
+  return `<${tag}${rendered}>`;
+}
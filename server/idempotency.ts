@@ -0,0 +1,165 @@
+import { createHash } from "crypto";
+import { SupabaseClient } from "@supabase/supabase-js";
+import type { Response } from "express";
+
+/**
+ * Idempotency keys for the v1 Content API create endpoints.
+ * A client sends `Idempotency-Key: <unique string>` and the first request
+ * with that key claims it; its response is stored once it finishes. A retry
+ * with the same key, body and query string inside IDEMPOTENCY_WINDOW_HOURS
+ * gets the stored response back (marked `Idempotent-Replayed: true`) and
+ * creates nothing. Reusing a key with a different body or query is a 422,
+ * and retrying while the first request is still running is a 409.
+ *
+ * IMPORTANT: an identical inlined copy lives in api/index.ts (which must stay
+ * self-contained). Keep the two in sync.
+ */
+
+export const IDEMPOTENCY_WINDOW_HOURS = 24;
+// A claim with no stored response after this long belongs to a request that
+// died mid-flight (well past the function timeout); a retry may take it over.
+const IDEMPOTENCY_STALE_MS = 5 * 60 * 1000;
+
+export interface IdempotentRequest {
+  userId: number;
+  route: string;
+  key: string;
+}
+
+export interface IdempotencyCheck {
+  request?: IdempotentRequest; // claimed; finish with completeIdempotentRequest
+  replay?: { status: number; body: any };
+  error?: string;
+  status?: number;
+}
+
+/** JSON with object keys sorted, so key order doesn't change the hash */
+function canonicalJson(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    return `{${Object.keys(value)
+      .sort()
+      .filter((k) => value[k] !== undefined)
+      .map((k) => `${JSON.stringify(k)}:${canonicalJson(value[k])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * Fingerprint of a request: its body and query string, since flags like
+ * ?dryRun and ?atomic change what the same body does
+ */
+export function hashRequest(body: any, query: any): string {
+  return createHash("sha256").update(canonicalJson({ body, query: query ?? {} })).digest("hex");
+}
+
+/**
+ * Claim an Idempotency-Key for a request, or say how to answer it instead.
+ * Returns {} when no header was sent, so callers just carry on.
+ */
+export async function beginIdempotentRequest(
+  supabase: SupabaseClient,
+  userId: number,
+  route: string,
+  header: string | string[] | undefined,
+  body: any,
+  query: any
+): Promise<IdempotencyCheck> {
+  if (header === undefined) return {};
+  const key = Array.isArray(header) ? header[0] : header;
+  if (!key || key.length > 255 || !/^[\x21-\x7e]+$/.test(key)) {
+    return { error: "Idempotency-Key must be 1-255 visible ASCII characters", status: 400 };
+  }
+
+  const requestHash = hashRequest(body, query);
+  const request = { userId, route, key };
+
+  // Expired keys may be reused
+  const cutoff = new Date(Date.now() - IDEMPOTENCY_WINDOW_HOURS * 60 * 60 * 1000);
+  await supabase
+    .from("api_idempotency_keys")
+    .delete()
+    .lt("created_at", cutoff.toISOString());
+
+  const { error: insertError } = await supabase.from("api_idempotency_keys").insert({
+    user_id: userId,
+    route,
+    idempotency_key: key,
+    request_hash: requestHash,
+  });
+  if (!insertError) return { request };
+  if (insertError.code !== "23505") {
+    console.error("Error claiming idempotency key:", insertError);
+    return { error: "Failed to record Idempotency-Key", status: 500 };
+  }
+
+  const { data: existing } = await supabase
+    .from("api_idempotency_keys")
+    .select("request_hash, response_status, response_body, created_at")
+    .eq("user_id", userId)
+    .eq("route", route)
+    .eq("idempotency_key", key)
+    .maybeSingle();
+
+  if (!existing) {
+    return { error: "A request with this Idempotency-Key is still being processed", status: 409 };
+  }
+  if (existing.request_hash !== requestHash) {
+    return {
+      error: "Idempotency-Key has already been used with a different request",
+      status: 422,
+    };
+  }
+  if (existing.response_status !== null) {
+    return { replay: { status: existing.response_status, body: existing.response_body } };
+  }
+
+  // Still running, unless the original request died; then take it over
+  if (Date.now() - new Date(existing.created_at).getTime() > IDEMPOTENCY_STALE_MS) {
+    const { data: reclaimed } = await supabase
+      .from("api_idempotency_keys")
+      .update({ created_at: new Date().toISOString() })
+      .eq("user_id", userId)
+      .eq("route", route)
+      .eq("idempotency_key", key)
+      .eq("created_at", existing.created_at)
+      .is("response_status", null)
+      .select("idempotency_key");
+    if (reclaimed && reclaimed.length > 0) return { request };
+  }
+  return { error: "A request with this Idempotency-Key is still being processed", status: 409 };
+}
+
+/**
+ * Store the response for a claimed key. Server errors release the key
+ * instead, so the client can retry the same request.
+ */
+export async function completeIdempotentRequest(
+  supabase: SupabaseClient,
+  request: IdempotentRequest | undefined,
+  status: number,
+  body: any
+): Promise<void> {
+  if (!request) return;
+  const table = supabase.from("api_idempotency_keys");
+  const query =
+    status >= 500
+      ? table.delete()
+      : table.update({ response_status: status, response_body: body });
+  const { error } = await query
+    .eq("user_id", request.userId)
+    .eq("route", request.route)
+    .eq("idempotency_key", request.key);
+  if (error) {
+    console.error("Error storing idempotent response:", error);
+  }
+}
+
+/** Answer with a stored response */
+export function sendIdempotentReplay(res: Response, replay: { status: number; body: any }) {
+  res.setHeader("Idempotent-Replayed", "true");
+  return res.status(replay.status).json(replay.body);
+}
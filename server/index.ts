@@ -12,7 +12,7 @@ app.use(express.urlencoded({ extended: false }));
 // Add this to handle CORS for all HTTP methods including PATCH
 app.use((req, res, next) => {
   res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, PATCH, OPTIONS');
-  res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-API-Key');
+  res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-API-Key, Idempotency-Key');
   if (req.method === 'OPTIONS') {
     return res.sendStatus(200);
   }
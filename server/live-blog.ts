@@ -0,0 +1,225 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+import { normalizeContent } from "./markdown-to-html";
+import { sanitizeArticleHtml, type SanitizeRemoval } from "./html-sanitizer";
+import { canEditArticle } from "./channel-members";
+
+/**
+ * Live blogs: articles that carry a stream of timestamped updates.
+ * articles.live_status is 'live' while coverage is running, 'ended' once it
+ * is over (the stream stays on the page) and NULL for a regular article.
+ * article_updates holds the entries, each with its own author and an
+ * optional pin that keeps it at the top of the stream.
+ *
+ * Entries follow the article's own rules: anyone who can edit a draft can
+ * post to it, but a published live blog takes entries only from people who
+ * can publish in its channel, because they go out straight away.
+ *
+ * IMPORTANT: an identical inlined copy lives in api/index.ts (which must stay
+ * self-contained). Keep the two in sync.
+ */
+
+export const LIVE_STATUSES = ["live", "ended"] as const;
+export type LiveStatus = (typeof LIVE_STATUSES)[number];
+
+const UPDATE_SELECT =
+  "id, article_id, title, content, pinned, created_at, updated_at, author:author_id(id, username)";
+const UPDATE_TITLE_MAX = 200;
+const DEFAULT_UPDATE_LIMIT = 100;
+const MAX_UPDATE_LIMIT = 500;
+
+function mapUpdateRow(row: any) {
+  return {
+    id: row.id,
+    articleId: row.article_id,
+    title: row.title ?? null,
+    content: row.content,
+    pinned: !!row.pinned,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at ?? null,
+    author: row.author ? { id: row.author.id, username: row.author.username } : null,
+  };
+}
+
+export type LiveUpdate = ReturnType<typeof mapUpdateRow>;
+
+/** A valid articles.live_status: 'live', 'ended' or null for a regular article */
+export function isLiveStatus(value: unknown): value is LiveStatus | null {
+  return value === null || LIVE_STATUSES.includes(value as LiveStatus);
+}
+
+/** Whether the user may post, edit and delete entries of this live blog */
+export function canPostLiveUpdates(
+  article: { published?: boolean | null },
+  access: { canEdit: boolean; canPublish: boolean }
+): boolean {
+  return canEditArticle(article, access);
+}
+
+/** ?limit= for the stream: default 100, at most 500 */
+export function parseLiveUpdateLimit(value: unknown): number {
+  const limit = parseInt(String(value ?? ""), 10);
+  if (!Number.isFinite(limit) || limit < 1) return DEFAULT_UPDATE_LIMIT;
+  return Math.min(limit, MAX_UPDATE_LIMIT);
+}
+
+/**
+ * Validate an entry from a request body. Content is markdown or HTML like
+ * article content and is converted and sanitized here; `sanitized` lists
+ * what the sanitizer removed. With `partial`, every field is optional.
+ */
+export function parseLiveUpdateInput(
+  body: any,
+  partial = false
+): {
+  fields?: { title?: string | null; content?: string; pinned?: boolean };
+  sanitized?: SanitizeRemoval[];
+  error?: string;
+} {
+  const fields: { title?: string | null; content?: string; pinned?: boolean } = {};
+  const { title, content, contentFormat, pinned } = body || {};
+
+  if (contentFormat !== undefined && contentFormat !== "markdown" && contentFormat !== "html") {
+    return { error: "contentFormat must be markdown or html" };
+  }
+  if (title !== undefined && title !== null && typeof title !== "string") {
+    return { error: "title must be a string" };
+  }
+  if (typeof title === "string" && title.trim().length > UPDATE_TITLE_MAX) {
+    return { error: `title must be at most ${UPDATE_TITLE_MAX} characters` };
+  }
+  if (pinned !== undefined && typeof pinned !== "boolean") {
+    return { error: "pinned must be a boolean" };
+  }
+  if (content !== undefined && typeof content !== "string") {
+    return { error: "content must be a string" };
+  }
+  if (!partial && !content?.trim()) {
+    return { error: "content is required" };
+  }
+
+  if (title !== undefined) fields.title = title?.trim() || null;
+  if (pinned !== undefined) fields.pinned = pinned;
+  let sanitized: SanitizeRemoval[] | undefined;
+  if (content !== undefined) {
+    if (!content.trim()) return { error: "content must not be empty" };
+    const result = sanitizeArticleHtml(normalizeContent(content, contentFormat));
+    fields.content = result.html;
+    if (result.removed.length > 0) sanitized = result.removed;
+  }
+  return { fields, sanitized };
+}
+
+/** The stream of one live blog: pinned entries first, then newest first */
+export async function listLiveUpdates(
+  supabase: SupabaseClient,
+  articleId: number,
+  limit = DEFAULT_UPDATE_LIMIT
+): Promise<LiveUpdate[]> {
+  const { data, error } = await supabase
+    .from("article_updates")
+    .select(UPDATE_SELECT)
+    .eq("article_id", articleId)
+    .order("pinned", { ascending: false })
+    .order("created_at", { ascending: false })
+    .limit(limit);
+  if (error) throw error;
+  return (data || []).map(mapUpdateRow);
+}
+
+/** Append an entry. The article's last_edited moves with it. */
+export async function createLiveUpdate(
+  supabase: SupabaseClient,
+  articleId: number,
+  authorId: number,
+  fields: { title?: string | null; content?: string; pinned?: boolean }
+): Promise<LiveUpdate> {
+  const { data, error } = await supabase
+    .from("article_updates")
+    .insert({
+      article_id: articleId,
+      author_id: authorId,
+      title: fields.title ?? null,
+      content: fields.content,
+      pinned: fields.pinned ?? false,
+    })
+    .select(UPDATE_SELECT)
+    .single();
+  if (error) throw error;
+
+  const { error: touchError } = await supabase
+    .from("articles")
+    .update({ last_edited: data.created_at })
+    .eq("id", articleId);
+  if (touchError) console.error(`Error touching live blog ${articleId}:`, touchError);
+
+  return mapUpdateRow(data);
+}
+
+/**
+ * Edit an entry or change its pin. Pinning alone doesn't count as an edit.
+ * Returns null when the article has no such entry.
+ */
+export async function updateLiveUpdate(
+  supabase: SupabaseClient,
+  articleId: number,
+  updateId: number,
+  fields: { title?: string | null; content?: string; pinned?: boolean }
+): Promise<LiveUpdate | null> {
+  const changes: Record<string, unknown> = { ...fields };
+  if (fields.title !== undefined || fields.content !== undefined) {
+    changes.updated_at = new Date().toISOString();
+  }
+  const { data, error } = await supabase
+    .from("article_updates")
+    .update(changes)
+    .eq("article_id", articleId)
+    .eq("id", updateId)
+    .select(UPDATE_SELECT)
+    .maybeSingle();
+  if (error) throw error;
+  return data ? mapUpdateRow(data) : null;
+}
+
+/** Remove an entry. Returns false when the article has no such entry. */
+export async function deleteLiveUpdate(
+  supabase: SupabaseClient,
+  articleId: number,
+  updateId: number
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from("article_updates")
+    .delete()
+    .eq("article_id", articleId)
+    .eq("id", updateId)
+    .select("id");
+  if (error) throw error;
+  return (data || []).length > 0;
+}
+
+/**
+ * The latest entries of several live blogs, for feeds: at most `perArticle`
+ * each, newest first, grouped by article id.
+ */
+export async function listLatestLiveUpdates(
+  supabase: SupabaseClient,
+  articleIds: number[],
+  perArticle = 5
+): Promise<Map<number, LiveUpdate[]>> {
+  const byArticle = new Map<number, LiveUpdate[]>();
+  if (articleIds.length === 0) return byArticle;
+
+  const { data, error } = await supabase
+    .from("article_updates")
+    .select(UPDATE_SELECT)
+    .in("article_id", articleIds)
+    .order("created_at", { ascending: false })
+    .limit(articleIds.length * perArticle * 4);
+  if (error) throw error;
+
+  for (const update of (data || []).map(mapUpdateRow)) {
+    const list = byArticle.get(update.articleId) || [];
+    if (list.length < perArticle) list.push(update);
+    byArticle.set(update.articleId, list);
+  }
+  return byArticle;
+}
@@ -3,10 +3,14 @@
  * Implements the contract in docs/article-format.md:
  *   - [!SUMMARY]/[!KEY]/[!CONTEXT]/[!TIP]/[!NOTE]/[!WARNING] callout blocks
  *   - [!QUOTE] pull quotes with attribution, [!STAT] big-number callouts
+ *   - [^id] footnote references + [^id]: definitions → numbered notes
+ *   - [!SOURCES] source lists
+ *   - [!TIMELINE] dated entries → vertical timeline
  *   - GFM pipe tables
  *   - images as <figure> with captions; consecutive images → gallery
  *   - bare YouTube/Vimeo URLs → responsive embeds
  *   - ```chart fenced blocks → <div data-chart> (hydrated client-side)
+ *   - ```map fenced blocks → <div data-map> (hydrated client-side)
  *   - headings, paragraphs, bold, italic, links, lists, blockquotes, code, hr
  * No external dependencies — avoids ESM/CJS issues on Vercel.
  *
@@ -22,9 +26,13 @@ const MD_CALLOUT_TITLES: Record<string, string> = {
   note: "Note",
   important: "Important",
   warning: "Caution",
+  sources: "Sources",
+  timeline: "Timeline",
 };
 
 const MD_IMG_LINE = /^!\[([^\]]*)\]\(([^)\s]+)\)$/;
+const MD_FOOTNOTE_DEF = /^\[\^([^\]\s]+)\]:[ \t]*(.*)$/;
+const MD_ISO_DATE = /^\d{4}(?:-\d{2}(?:-\d{2}(?:[ T]\d{2}:\d{2})?)?)?$/;
 
 function mdEscapeHtml(text: string): string {
   return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
@@ -91,6 +99,140 @@ function mdTable(block: string): string | null {
   return `<div class="table-wrap"><table class="article-table"><thead><tr>${th}</tr></thead><tbody>${trs}</tbody></table></div>`;
 }
 
+const MAP_LABEL_MAX = 120;
+
+/**
+ * ```map block body → its spec, or null unless it's a JSON object with at
+ * least one marker (lat/lng in range) or a GeoJSON `area`. Bad markers are
+ * dropped and markers keep only lat, lng and a string label; caption and
+ * zoom pass through.
+ */
+function mdMapSpec(code: string): Record<string, unknown> | null {
+  let spec: any;
+  try {
+    spec = JSON.parse(code);
+  } catch {
+    return null;
+  }
+  if (!spec || typeof spec !== "object" || Array.isArray(spec)) return null;
+  const markers = (Array.isArray(spec.markers) ? spec.markers : [])
+    .filter(
+      (m: any) =>
+        Number.isFinite(m?.lat) &&
+        Number.isFinite(m?.lng) &&
+        Math.abs(m.lat) <= 90 &&
+        Math.abs(m.lng) <= 180
+    )
+    .map((m: any) => {
+      const label = typeof m.label === "string" ? m.label.trim().slice(0, MAP_LABEL_MAX) : "";
+      return label ? { lat: m.lat, lng: m.lng, label } : { lat: m.lat, lng: m.lng };
+    });
+  const area = spec.area && typeof spec.area === "object" && typeof spec.area.type === "string";
+  if (!markers.length && !area) return null;
+  return {
+    ...(markers.length ? { markers } : {}),
+    ...(area ? { area: spec.area } : {}),
+    ...(typeof spec.caption === "string" && spec.caption.trim()
+      ? { caption: spec.caption.trim() }
+      : {}),
+    ...(Number.isFinite(spec.zoom) ? { zoom: Math.min(22, Math.max(0, spec.zoom)) } : {}),
+  };
+}
+
+/**
+ * Footnotes: pulls `[^id]: text` definitions (indented lines continue one)
+ * out of the markdown and swaps each `[^id]` reference for a superscript
+ * link. Notes are numbered in order of first reference; a reference without
+ * a definition stays as written and an unreferenced definition is dropped.
+ * Code is left alone. Returns the markdown and the notes section, if any.
+ */
+function mdFootnotes(markdown: string): { markdown: string; notes: string } {
+  const parts = markdown.split(/(```[\s\S]*?```)/);
+  const defs = new Map<string, string>();
+
+  for (let i = 0; i < parts.length; i += 2) {
+    const kept: string[] = [];
+    let current: string | null = null;
+    for (const line of parts[i].split("\n")) {
+      const def = line.match(MD_FOOTNOTE_DEF);
+      if (def) {
+        current = defs.has(def[1]) ? null : def[1];
+        if (current) defs.set(current, def[2].trim());
+        continue;
+      }
+      if (current !== null && /^(?: {2,}|\t)\S/.test(line)) {
+        defs.set(current, `${defs.get(current)} ${line.trim()}`.trim());
+        continue;
+      }
+      current = null;
+      kept.push(line);
+    }
+    parts[i] = kept.join("\n");
+  }
+  if (defs.size === 0) return { markdown, notes: "" };
+
+  const order: string[] = [];
+  const uses = new Map<string, number>();
+  const reference = (ref: string, id: string) => {
+    if (!defs.has(id)) return ref;
+    if (!uses.has(id)) order.push(id);
+    const use = (uses.get(id) || 0) + 1;
+    uses.set(id, use);
+    const n = order.indexOf(id) + 1;
+    return `<sup class="footnote-ref"><a href="#fn-${n}" id="fnref-${n}${
+      use > 1 ? `-${use}` : ""
+    }" data-footnote-ref>${n}</a></sup>`;
+  };
+  for (let i = 0; i < parts.length; i += 2) {
+    parts[i] = parts[i]
+      .split(/(`[^`\n]+`)/)
+      .map((seg, j) => (j % 2 ? seg : seg.replace(/\[\^([^\]\s]+)\]/g, reference)))
+      .join("");
+  }
+
+  const items = order
+    .map(
+      (id, i) =>
+        `<li id="fn-${i + 1}">${mdInline(defs.get(id)!)} <a href="#fnref-${i + 1}" class="footnote-backref" aria-label="Back to reference ${i + 1}">↩</a></li>`
+    )
+    .join("");
+  return {
+    markdown: parts.join(""),
+    notes: items
+      ? `<section class="footnotes" data-footnotes aria-label="Notes"><ol>${items}</ol></section>`
+      : "",
+  };
+}
+
+/**
+ * `[!TIMELINE]` body → <ol> entries. Each entry is `date — text` (or
+ * `date: text`); a line without a date continues the entry above it. ISO
+ * dates also go into <time datetime>.
+ */
+function mdTimeline(body: string): string {
+  const entries: { date: string; text: string }[] = [];
+  for (const raw of body.split("\n")) {
+    const line = raw.trim().replace(/^[-*+]\s+/, "");
+    if (!line) continue;
+    const m = line.match(/^(.+?)\s+(?:—|–|--)\s+(.+)$/) || line.match(/^(.+?):\s+(.+)$/);
+    if (m) {
+      entries.push({ date: m[1].replace(/^\*\*(.+)\*\*$/, "$1").trim(), text: m[2].trim() });
+    } else if (entries.length) {
+      entries[entries.length - 1].text += ` ${line}`;
+    } else {
+      entries.push({ date: "", text: line });
+    }
+  }
+  return entries
+    .map(({ date, text }) => {
+      const datetime = MD_ISO_DATE.test(date) ? ` datetime="${date.replace(" ", "T")}"` : "";
+      return `<li><time class="timeline-date"${datetime}>${mdEscapeHtml(date)}</time><div class="timeline-text">${mdInline(
+        text
+      )}</div></li>`;
+    })
+    .join("");
+}
+
 /** `> [!TYPE]` admonition blocks → callouts / pull quotes / stat boxes */
 function mdCallout(block: string): string | null {
   const lines = block.split("\n").map((l) => l.replace(/^>\s?/, ""));
@@ -124,19 +266,44 @@ function mdCallout(block: string): string | null {
     }</aside>`;
   }
 
+  if (type === "timeline") {
+    return `<div class="article-timeline" data-timeline><div class="timeline-title">${mdInline(
+      titleRest || MD_CALLOUT_TITLES.timeline
+    )}</div><ol>${mdTimeline(body)}</ol></div>`;
+  }
+
+  if (type === "sources") {
+    const items = body
+      .split("\n")
+      .map((l) => l.trim().replace(/^(?:[-*+]|\d+\.)\s+/, ""))
+      .filter(Boolean)
+      .map((item) => `<li>${mdInline(item)}</li>`)
+      .join("");
+    return `<aside class="callout callout-sources" data-callout="sources"><div class="callout-title">${mdInline(
+      titleRest || MD_CALLOUT_TITLES.sources
+    )}</div><div class="callout-body"><ol>${items}</ol></div></aside>`;
+  }
+
   const known = ["summary", "key", "context", "tip", "note", "important", "warning"];
   const cls = known.includes(type) ? type : "note";
   const title = titleRest || MD_CALLOUT_TITLES[cls] || cls;
-  const bodyHtml = markdownToHtml(body);
+  const bodyHtml = mdRender(body);
   return `<aside class="callout callout-${cls}" data-callout="${cls}"><div class="callout-title">${mdInline(
     title
   )}</div><div class="callout-body">${bodyHtml}</div></aside>`;
 }
 
 export function markdownToHtml(markdown: string): string {
-  let html = markdown.replace(/\r\n/g, "\n");
+  const { markdown: body, notes } = mdFootnotes(markdown.replace(/\r\n/g, "\n"));
+  const html = mdRender(body);
+  return notes ? `${html}\n${notes}` : html;
+}
+
+/** Block-level rendering; callout bodies recurse into it */
+function mdRender(markdown: string): string {
+  let html = markdown;
 
-  // Fenced blocks first: ```chart → data div; everything else → <pre><code>
+  // Fenced blocks first: ```chart / ```map → data div; everything else → <pre><code>
   html = html.replace(/```(\w*)\n([\s\S]*?)```/g, (_m, lang, code) => {
     if ((lang || "").toLowerCase() === "chart") {
       try {
@@ -146,6 +313,13 @@ export function markdownToHtml(markdown: string): string {
         return `<pre><code>${mdEscapeHtml(code.trimEnd())}</code></pre>`;
       }
     }
+    if ((lang || "").toLowerCase() === "map") {
+      const spec = mdMapSpec(code);
+      if (spec) {
+        return `<div class="article-map" data-map="${mdEscapeAttr(JSON.stringify(spec))}"></div>`;
+      }
+      return `<pre><code>${mdEscapeHtml(code.trimEnd())}</code></pre>`;
+    }
     return `<pre><code>${mdEscapeHtml(code.trimEnd())}</code></pre>`;
   });
 
@@ -160,7 +334,11 @@ export function markdownToHtml(markdown: string): string {
     if (!t) continue;
 
     // Already-processed blocks pass through
-    if (t.startsWith("<pre><code>") || t.startsWith('<div class="article-chart"')) {
+    if (
+      t.startsWith("<pre><code>") ||
+      t.startsWith('<div class="article-chart"') ||
+      t.startsWith('<div class="article-map"')
+    ) {
       output.push(t);
       continue;
     }
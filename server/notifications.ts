@@ -0,0 +1,289 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * In-app notifications.
+ * Rows are fanned out when something happens that a user would want to hear
+ * about: a reply to their comment, a new story in a channel they subscribe
+ * to, a reaction to one of their articles, or an invitation to write for a
+ * channel. The navigation bell lists them
+ * via GET /api/notifications and marks them read with PATCH.
+ *
+ * Fan-out is best effort: failures are logged and never fail the request
+ * that triggered them. Nobody is notified about their own actions.
+ * dedupe_key (unique per recipient) keeps re-publishes and reaction toggles
+ * from notifying the same person twice.
+ *
+ * IMPORTANT: an identical inlined copy lives in api/index.ts (which must stay
+ * self-contained). Keep the two in sync.
+ */
+
+export const NOTIFICATION_TYPES = [
+  "comment_reply",
+  "article_published",
+  "article_reaction",
+  "channel_invite",
+];
+
+const NOTIFICATION_PAGE_SIZE = 20;
+const NOTIFICATION_MAX_PAGE_SIZE = 50;
+const NOTIFICATION_INSERT_CHUNK = 500; // rows per insert when fanning out
+const NOTIFICATION_EXCERPT_LENGTH = 140;
+
+function notificationExcerpt(text: string): string {
+  const plain = String(text || "").replace(/\s+/g, " ").trim();
+  return plain.length > NOTIFICATION_EXCERPT_LENGTH
+    ? `${plain.slice(0, NOTIFICATION_EXCERPT_LENGTH - 1)}…`
+    : plain;
+}
+
+async function insertNotifications(supabase: SupabaseClient, rows: any[]) {
+  for (let i = 0; i < rows.length; i += NOTIFICATION_INSERT_CHUNK) {
+    const chunk = rows.slice(i, i + NOTIFICATION_INSERT_CHUNK);
+    const { error } = await supabase
+      .from("notifications")
+      .upsert(chunk, { onConflict: "user_id,dedupe_key", ignoreDuplicates: true });
+    if (error) throw error;
+  }
+}
+
+// ---- Fan-out ----
+
+/** Tell the parent comment's author about a reply */
+export async function notifyCommentReply(
+  supabase: SupabaseClient,
+  comment: { id: number; article_id: number; parent_id?: number | null; user_id: number; content: string }
+): Promise<void> {
+  if (!comment.parent_id) return;
+  try {
+    const { data: parent } = await supabase
+      .from("comments")
+      .select("id, user_id")
+      .eq("id", comment.parent_id)
+      .maybeSingle();
+    if (!parent || parent.user_id === comment.user_id) return;
+
+    const { data: article } = await supabase
+      .from("articles")
+      .select("title, slug")
+      .eq("id", comment.article_id)
+      .maybeSingle();
+
+    await insertNotifications(supabase, [
+      {
+        user_id: parent.user_id,
+        type: "comment_reply",
+        actor_id: comment.user_id,
+        article_id: comment.article_id,
+        comment_id: comment.id,
+        data: {
+          articleTitle: article?.title ?? null,
+          articleSlug: article?.slug ?? null,
+          excerpt: notificationExcerpt(comment.content),
+        },
+      },
+    ]);
+  } catch (error) {
+    console.error("Error creating comment reply notification:", error);
+  }
+}
+
+/** Tell a channel's subscribers that one of its articles went live */
+export async function notifyArticlePublished(
+  supabase: SupabaseClient,
+  article: { id: number; title: string; slug?: string | null; channel_id?: number | null; user_id: number }
+): Promise<void> {
+  if (!article.channel_id) return;
+  try {
+    const { data: subscribers, error } = await supabase
+      .from("subscriptions")
+      .select("user_id")
+      .eq("channel_id", article.channel_id);
+    if (error) throw error;
+
+    const recipients = Array.from(
+      new Set((subscribers || []).map((s) => s.user_id))
+    ).filter((userId) => userId !== article.user_id);
+    if (recipients.length === 0) return;
+
+    const { data: channel } = await supabase
+      .from("channels")
+      .select("name")
+      .eq("id", article.channel_id)
+      .maybeSingle();
+
+    await insertNotifications(
+      supabase,
+      recipients.map((userId) => ({
+        user_id: userId,
+        type: "article_published",
+        actor_id: article.user_id,
+        article_id: article.id,
+        channel_id: article.channel_id,
+        dedupe_key: `article_published:${article.id}`,
+        data: {
+          articleTitle: article.title,
+          articleSlug: article.slug ?? null,
+          channelName: channel?.name ?? null,
+        },
+      }))
+    );
+  } catch (error) {
+    console.error(`Error notifying subscribers about article ${article.id}:`, error);
+  }
+}
+
+/** Tell an article's author that someone reacted to it (once per reader) */
+export async function notifyArticleReaction(
+  supabase: SupabaseClient,
+  article: { id: number; title: string; slug?: string | null; user_id: number },
+  actorId: number,
+  isLike: boolean
+): Promise<void> {
+  if (article.user_id === actorId) return;
+  try {
+    await insertNotifications(supabase, [
+      {
+        user_id: article.user_id,
+        type: "article_reaction",
+        actor_id: actorId,
+        article_id: article.id,
+        dedupe_key: `article_reaction:${article.id}:${actorId}`,
+        data: {
+          articleTitle: article.title,
+          articleSlug: article.slug ?? null,
+          isLike,
+        },
+      },
+    ]);
+  } catch (error) {
+    console.error(`Error creating reaction notification for article ${article.id}:`, error);
+  }
+}
+
+/** Tell a user they've been invited to write for a channel */
+export async function notifyChannelInvite(
+  supabase: SupabaseClient,
+  invite: { channelId: number; userId: number; invitedBy: number; role: string }
+): Promise<void> {
+  try {
+    const { data: channel } = await supabase
+      .from("channels")
+      .select("name")
+      .eq("id", invite.channelId)
+      .maybeSingle();
+
+    await insertNotifications(supabase, [
+      {
+        user_id: invite.userId,
+        type: "channel_invite",
+        actor_id: invite.invitedBy,
+        channel_id: invite.channelId,
+        data: {
+          channelName: channel?.name ?? null,
+          role: invite.role,
+        },
+      },
+    ]);
+  } catch (error) {
+    console.error(`Error notifying user ${invite.userId} about channel ${invite.channelId}:`, error);
+  }
+}
+
+// ---- Reading ----
+
+export function mapNotificationRow(row: any) {
+  return {
+    id: row.id,
+    type: row.type,
+    actor: row.actor ? { id: row.actor.id, username: row.actor.username } : null,
+    articleId: row.article_id,
+    commentId: row.comment_id,
+    channelId: row.channel_id,
+    data: row.data || {},
+    readAt: row.read_at,
+    createdAt: row.created_at,
+  };
+}
+
+/** Count of the user's unread notifications */
+export async function countUnreadNotifications(
+  supabase: SupabaseClient,
+  userId: number
+): Promise<number> {
+  const { count, error } = await supabase
+    .from("notifications")
+    .select("id", { count: "exact", head: true })
+    .eq("user_id", userId)
+    .is("read_at", null);
+  if (error) throw error;
+  return count || 0;
+}
+
+/**
+ * A page of the user's notifications, newest first, plus the unread count.
+ * Pass the last id seen as `before` to page further back.
+ */
+export async function listNotifications(
+  supabase: SupabaseClient,
+  userId: number,
+  options: { limit?: unknown; before?: unknown; unreadOnly?: boolean } = {}
+) {
+  const limit = Math.min(
+    Math.max(parseInt(String(options.limit ?? ""), 10) || NOTIFICATION_PAGE_SIZE, 1),
+    NOTIFICATION_MAX_PAGE_SIZE
+  );
+  let query = supabase
+    .from("notifications")
+    .select("*, actor:actor_id(id, username)")
+    .eq("user_id", userId)
+    .order("id", { ascending: false })
+    .limit(limit);
+  const before = parseInt(String(options.before ?? ""), 10);
+  if (before > 0) query = query.lt("id", before);
+  if (options.unreadOnly) query = query.is("read_at", null);
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  return {
+    notifications: (data || []).map(mapNotificationRow),
+    unreadCount: await countUnreadNotifications(supabase, userId),
+  };
+}
+
+/**
+ * Mark notifications read: the given ids, or every unread one when ids is
+ * "all". Returns the remaining unread count.
+ */
+export async function markNotificationsRead(
+  supabase: SupabaseClient,
+  userId: number,
+  ids: number[] | "all"
+): Promise<number> {
+  let query = supabase
+    .from("notifications")
+    .update({ read_at: new Date().toISOString() })
+    .eq("user_id", userId)
+    .is("read_at", null);
+  if (ids !== "all") query = query.in("id", ids);
+
+  const { error } = await query;
+  if (error) throw error;
+  return countUnreadNotifications(supabase, userId);
+}
+
+/**
+ * Validate a PATCH /api/notifications body: { all: true } or { ids: [..] }.
+ * Returns the ids to mark (or "all"), or an error message.
+ */
+export function parseMarkReadBody(body: any): { ids?: number[] | "all"; error?: string } {
+  if (body?.all === true) return { ids: "all" };
+  if (!Array.isArray(body?.ids) || body.ids.length === 0) {
+    return { error: "Provide ids (a non-empty array) or all: true" };
+  }
+  const ids = body.ids.map((id: unknown) => Number(id));
+  if (ids.some((id: number) => !Number.isInteger(id) || id <= 0)) {
+    return { error: "ids must be positive integers" };
+  }
+  return { ids };
+}
@@ -0,0 +1,722 @@
+import { z } from "zod";
+import {
+  apiErrorSchema,
+  apiMessageSchema,
+  apiKeyUsageSchema,
+  v1ApiAccessGrantSchema,
+  v1ApiAccessUserSchema,
+  v1ApiKeyCreateSchema,
+  v1ApiKeySchema,
+  v1ApiUsageReportSchema,
+  v1ArticleBatchSchema,
+  v1ArticleCreateSchema,
+  v1ArticleDetailSchema,
+  v1ArticleImageInputSchema,
+  v1ArticleImageSchema,
+  v1ArticleListItemSchema,
+  v1ArticleListSchema,
+  v1ArticleSchema,
+  v1ArticleSearchResultSchema,
+  v1ArticleUpdateSchema,
+  v1BatchItemResultSchema,
+  v1SanitizeRemovalSchema,
+  v1BatchResultSchema,
+  v1CategorySchema,
+  v1ChannelSchema,
+  v1CreatedApiKeySchema,
+  v1CreatedWebhookSchema,
+  v1DeletedArticleSchema,
+  v1EngagementSchema,
+  v1EngagementUpdateSchema,
+  v1LiveUpdateCreateSchema,
+  v1LiveUpdateSchema,
+  v1WebhookCreateSchema,
+  v1WebhookDeliverySchema,
+  v1WebhookSchema,
+  v1WebhookUpdateSchema,
+} from "@shared/schema";
+import { API_RATE_LIMITS } from "./api-auth";
+
+/**
+ * OpenAPI 3.1 description of the /api/v1 routes, built from the Zod schemas
+ * in shared/schema.ts. Served by GET /api/v1/openapi.json in dev; for prod
+ * `npm run openapi` writes it to dist/public/openapi.json at build time and
+ * vercel.json rewrites the API path to that file (api/index.ts can't import
+ * shared/). The /api-docs page renders from it.
+ *
+ * Adding a v1 route: add an entry to V1_OPERATIONS.
+ */
+
+type JsonSchema = Record<string, any>;
+
+// Schemas published under components.schemas and referenced by name
+const COMPONENTS: Record<string, z.ZodTypeAny> = {
+  Error: apiErrorSchema,
+  Message: apiMessageSchema,
+  ApiKeyUsage: apiKeyUsageSchema,
+  ApiKeyCreate: v1ApiKeyCreateSchema,
+  ApiKey: v1ApiKeySchema,
+  CreatedApiKey: v1CreatedApiKeySchema,
+  WebhookCreate: v1WebhookCreateSchema,
+  WebhookUpdate: v1WebhookUpdateSchema,
+  Webhook: v1WebhookSchema,
+  CreatedWebhook: v1CreatedWebhookSchema,
+  WebhookDelivery: v1WebhookDeliverySchema,
+  ApiAccessGrant: v1ApiAccessGrantSchema,
+  ApiAccessUser: v1ApiAccessUserSchema,
+  ApiUsageReport: v1ApiUsageReportSchema,
+  EngagementUpdate: v1EngagementUpdateSchema,
+  Engagement: v1EngagementSchema,
+  ArticleImageInput: v1ArticleImageInputSchema,
+  ArticleCreate: v1ArticleCreateSchema,
+  ArticleUpdate: v1ArticleUpdateSchema,
+  ArticleBatch: v1ArticleBatchSchema,
+  ArticleImage: v1ArticleImageSchema,
+  SanitizeRemoval: v1SanitizeRemovalSchema,
+  Article: v1ArticleSchema,
+  ArticleDetail: v1ArticleDetailSchema,
+  ArticleListItem: v1ArticleListItemSchema,
+  ArticleSearchResult: v1ArticleSearchResultSchema,
+  ArticleList: v1ArticleListSchema,
+  BatchItemResult: v1BatchItemResultSchema,
+  BatchResult: v1BatchResultSchema,
+  DeletedArticle: v1DeletedArticleSchema,
+  LiveUpdateCreate: v1LiveUpdateCreateSchema,
+  LiveUpdate: v1LiveUpdateSchema,
+  Channel: v1ChannelSchema,
+  Category: v1CategorySchema,
+};
+
+const componentNames = new Map<z.ZodTypeAny, string>(
+  Object.entries(COMPONENTS).map(([name, schema]) => [schema, name])
+);
+
+/**
+ * Convert a Zod schema to JSON Schema (draft 2020-12, as OpenAPI 3.1 uses).
+ * Only covers the Zod types the v1 contract uses; anything else throws so a
+ * new one doesn't silently publish as an empty schema. Named components are
+ * emitted as $refs except at the top of their own definition.
+ */
+export function zodToJsonSchema(schema: z.ZodTypeAny, root = false): JsonSchema {
+  const name = componentNames.get(schema);
+  if (name && !root) return { $ref: `#/components/schemas/${name}` };
+
+  const result = convertZodType(schema);
+  if (schema.description) result.description = schema.description;
+  return result;
+}
+
+function convertZodType(schema: z.ZodTypeAny): JsonSchema {
+  const def = schema._def;
+  switch (def.typeName) {
+    case z.ZodFirstPartyTypeKind.ZodString: {
+      const out: JsonSchema = { type: "string" };
+      for (const check of def.checks) {
+        if (check.kind === "min") out.minLength = check.value;
+        else if (check.kind === "max") out.maxLength = check.value;
+        else if (check.kind === "url") out.format = "uri";
+        else if (check.kind === "email") out.format = "email";
+        else if (check.kind === "datetime") out.format = "date-time";
+        else if (check.kind === "uuid") out.format = "uuid";
+      }
+      return out;
+    }
+    case z.ZodFirstPartyTypeKind.ZodNumber: {
+      const out: JsonSchema = { type: "number" };
+      for (const check of def.checks) {
+        if (check.kind === "int") out.type = "integer";
+        else if (check.kind === "min") {
+          out[check.inclusive ? "minimum" : "exclusiveMinimum"] = check.value;
+        } else if (check.kind === "max") {
+          out[check.inclusive ? "maximum" : "exclusiveMaximum"] = check.value;
+        }
+      }
+      return out;
+    }
+    case z.ZodFirstPartyTypeKind.ZodBoolean:
+      return { type: "boolean" };
+    case z.ZodFirstPartyTypeKind.ZodDate:
+      return { type: "string", format: "date-time" };
+    case z.ZodFirstPartyTypeKind.ZodAny:
+    case z.ZodFirstPartyTypeKind.ZodUnknown:
+      return {};
+    case z.ZodFirstPartyTypeKind.ZodLiteral:
+      return { const: def.value };
+    case z.ZodFirstPartyTypeKind.ZodEnum:
+      return { type: "string", enum: [...def.values] };
+    case z.ZodFirstPartyTypeKind.ZodArray: {
+      const out: JsonSchema = { type: "array", items: zodToJsonSchema(def.type) };
+      if (def.minLength) out.minItems = def.minLength.value;
+      if (def.maxLength) out.maxItems = def.maxLength.value;
+      return out;
+    }
+    case z.ZodFirstPartyTypeKind.ZodObject: {
+      const shape = (schema as z.AnyZodObject).shape;
+      const properties: Record<string, JsonSchema> = {};
+      const required: string[] = [];
+      for (const [key, value] of Object.entries<z.ZodTypeAny>(shape)) {
+        properties[key] = zodToJsonSchema(value);
+        if (!value.isOptional()) required.push(key);
+      }
+      const out: JsonSchema = { type: "object", properties };
+      if (required.length > 0) out.required = required;
+      return out;
+    }
+    case z.ZodFirstPartyTypeKind.ZodRecord:
+      return { type: "object", additionalProperties: zodToJsonSchema(def.valueType) };
+    case z.ZodFirstPartyTypeKind.ZodUnion:
+      return { anyOf: def.options.map((option: z.ZodTypeAny) => zodToJsonSchema(option)) };
+    case z.ZodFirstPartyTypeKind.ZodOptional:
+      return zodToJsonSchema(def.innerType);
+    case z.ZodFirstPartyTypeKind.ZodNullable: {
+      const inner = zodToJsonSchema(def.innerType);
+      if (typeof inner.type === "string" && !inner.enum) {
+        return { ...inner, type: [inner.type, "null"] };
+      }
+      return { anyOf: [inner, { type: "null" }] };
+    }
+    case z.ZodFirstPartyTypeKind.ZodDefault:
+      return { ...zodToJsonSchema(def.innerType), default: def.defaultValue() };
+    case z.ZodFirstPartyTypeKind.ZodEffects:
+      return zodToJsonSchema(def.schema);
+    case z.ZodFirstPartyTypeKind.ZodLazy:
+      return zodToJsonSchema(def.getter(), true);
+    default:
+      throw new Error(`zodToJsonSchema: unsupported Zod type ${def.typeName}`);
+  }
+}
+
+// ---- Route table ----
+
+interface V1Operation {
+  method: "get" | "post" | "patch" | "delete";
+  path: string; // Express-style, e.g. /api/v1/webhooks/:id
+  operationId: string;
+  tag: string;
+  summary: string;
+  description?: string;
+  // key: X-API-Key or a bearer JWT; jwt: bearer JWT only; admin: JWT of an admin
+  auth: "key" | "jwt" | "admin";
+  scope?: string;
+  rateLimit?: string; // route key in API_RATE_LIMITS
+  idempotent?: boolean; // accepts Idempotency-Key
+  params?: Record<string, string>;
+  query?: z.AnyZodObject;
+  body?: z.ZodTypeAny;
+  bodyExample?: any;
+  response: { status: number; description: string; schema: z.ZodTypeAny };
+  errors?: number[];
+}
+
+const ERROR_DESCRIPTIONS: Record<number, string> = {
+  400: "Missing or invalid fields",
+  401: "Missing, invalid, revoked or expired API key or token",
+  403: "Not your channel or article, or the key lacks the scope or channel",
+  404: "Not found",
+  409: "Duplicate article, or a request with this Idempotency-Key is still running",
+  422: "Idempotency-Key was already used with a different body or query string",
+  429: "Rate limit exceeded; wait Retry-After seconds",
+};
+
+const articleParam = { id: "Numeric article ID or slug" };
+const keyParam = { id: "API key ID" };
+const webhookParam = { id: "Webhook ID" };
+
+const articleExample = {
+  title: "Breaking: Major Discovery in AI Research",
+  content: "# AI Breakthrough\n\nResearchers have announced a **major** discovery...",
+  contentFormat: "markdown",
+  channelId: 5,
+  categoryIds: [3, 12],
+  published: true,
+  images: [{ url: "https://example.com/photo.jpg", caption: "Photo description", order: 0 }],
+};
+
+const V1_OPERATIONS: V1Operation[] = [
+  // API keys
+  {
+    method: "post",
+    path: "/api/v1/api-keys",
+    operationId: "createApiKey",
+    tag: "API Keys",
+    summary: "Generate a new API key",
+    description: "The full key is returned once, at creation. Store it securely.",
+    auth: "jwt",
+    body: v1ApiKeyCreateSchema,
+    bodyExample: { name: "My Bot", expiresInDays: 365, scopes: ["articles:write", "channels:read"], channelIds: [1, 2] },
+    response: { status: 201, description: "Key created", schema: v1CreatedApiKeySchema },
+    errors: [400, 401],
+  },
+  {
+    method: "get",
+    path: "/api/v1/api-keys",
+    operationId: "listApiKeys",
+    tag: "API Keys",
+    summary: "List your API keys",
+    auth: "jwt",
+    response: { status: 200, description: "Your keys, newest first", schema: z.array(v1ApiKeySchema) },
+    errors: [401],
+  },
+  {
+    method: "delete",
+    path: "/api/v1/api-keys/:id",
+    operationId: "revokeApiKey",
+    tag: "API Keys",
+    summary: "Revoke an API key",
+    description: "Requests using the key return 401 from then on, and its webhooks stop firing.",
+    auth: "jwt",
+    params: keyParam,
+    response: { status: 200, description: "Key revoked", schema: apiMessageSchema },
+    errors: [401, 403, 404],
+  },
+
+  // Content
+  {
+    method: "post",
+    path: "/api/v1/content/articles",
+    operationId: "createArticle",
+    tag: "Articles",
+    summary: "Create a single article",
+    description:
+      "Markdown is converted to the same HTML the web editor produces and external images are downloaded. " +
+      "Markdown and HTML alike pass an allow-list sanitizer; what it removed is listed in sanitized. " +
+      "The same title in the same channel within 24 hours is rejected with 409 unless the request carries an Idempotency-Key.",
+    auth: "key",
+    scope: "articles:write",
+    rateLimit: "articles.create",
+    idempotent: true,
+    body: v1ArticleCreateSchema,
+    bodyExample: articleExample,
+    response: { status: 201, description: "Article created", schema: v1ArticleSchema },
+    errors: [400, 401, 403, 404, 409, 422, 429],
+  },
+  {
+    method: "post",
+    path: "/api/v1/content/articles/batch",
+    operationId: "createArticlesBatch",
+    tag: "Articles",
+    summary: "Create multiple articles",
+    description:
+      "dryRun and atomic may also be sent as query parameters. A dry run returns 200 and ignores Idempotency-Key; " +
+      "a failed atomic batch writes nothing and returns 400 with the same body.",
+    auth: "key",
+    scope: "articles:write",
+    rateLimit: "articles.batch",
+    idempotent: true,
+    query: z.object({
+      dryRun: z.enum(["true", "false"]).optional().describe("Validate and render without writing"),
+      atomic: z.enum(["true", "false"]).optional().describe("Create all items or none"),
+    }),
+    body: v1ArticleBatchSchema,
+    bodyExample: {
+      articles: [
+        { title: "First Article", content: "# Content...", channelId: 5, categoryIds: [3] },
+        { title: "Second Article", content: "# More content...", channelId: 5, published: false },
+      ],
+      atomic: true,
+    },
+    response: { status: 201, description: "Per-item results, in request order", schema: v1BatchResultSchema },
+    errors: [400, 401, 403, 409, 422, 429],
+  },
+  {
+    method: "get",
+    path: "/api/v1/content/articles",
+    operationId: "listArticles",
+    tag: "Articles",
+    summary: "List or search your articles",
+    description:
+      "Lists your articles newest first, including drafts and scheduled ones. Pass q to run a ranked " +
+      "full-text search instead (the same index as the site search).",
+    auth: "key",
+    scope: "articles:read",
+    rateLimit: "content.read",
+    query: z.object({
+      q: z.string().min(2).max(200).optional()
+        .describe('Search terms; supports "quoted phrases" and -exclusions'),
+      category: z.string().optional().describe("Category ID or name (search only)"),
+      location: z.string().optional().describe("Location name contains (search only)"),
+      from: z.string().optional().describe("ISO 8601 date (search only)"),
+      to: z.string().optional().describe("ISO 8601 date; a bare date includes the whole day (search only)"),
+      limit: z.number().int().min(1).max(50).default(20),
+      offset: z.number().int().min(0).default(0),
+    }),
+    response: { status: 200, description: "A page of articles", schema: v1ArticleListSchema },
+    errors: [400, 401, 403, 429],
+  },
+  {
+    method: "get",
+    path: "/api/v1/content/articles/:id",
+    operationId: "getArticle",
+    tag: "Articles",
+    summary: "Get article details",
+    auth: "key",
+    scope: "articles:read",
+    rateLimit: "content.read",
+    params: articleParam,
+    response: { status: 200, description: "The article", schema: v1ArticleDetailSchema },
+    errors: [401, 403, 404, 429],
+  },
+  {
+    method: "patch",
+    path: "/api/v1/content/articles/:id",
+    operationId: "updateArticle",
+    tag: "Articles",
+    summary: "Update an article",
+    description:
+      "Only the fields sent change. categoryIds and images replace the existing sets; a new title gives the article a new slug.",
+    auth: "key",
+    scope: "articles:write",
+    rateLimit: "articles.update",
+    params: articleParam,
+    body: v1ArticleUpdateSchema,
+    bodyExample: { title: "Corrected Title", content: "# Updated\n\nFixed a typo...", contentFormat: "markdown" },
+    response: { status: 200, description: "The updated article", schema: v1ArticleSchema },
+    errors: [400, 401, 403, 404, 429],
+  },
+  {
+    method: "delete",
+    path: "/api/v1/content/articles/:id",
+    operationId: "deleteArticle",
+    tag: "Articles",
+    summary: "Delete an article",
+    description: "Permanently deletes the article with its comments, reactions and images.",
+    auth: "key",
+    scope: "articles:write",
+    rateLimit: "articles.update",
+    params: articleParam,
+    response: { status: 200, description: "Article deleted", schema: v1DeletedArticleSchema },
+    errors: [401, 403, 404, 429],
+  },
+  {
+    method: "post",
+    path: "/api/v1/content/articles/:id/publish",
+    operationId: "publishArticle",
+    tag: "Articles",
+    summary: "Publish an article now",
+    description: "Publishes a draft or scheduled article immediately. Does nothing if it is already published.",
+    auth: "key",
+    scope: "articles:write",
+    rateLimit: "articles.update",
+    params: articleParam,
+    response: { status: 200, description: "The article", schema: v1ArticleSchema },
+    errors: [401, 403, 404, 429],
+  },
+  {
+    method: "post",
+    path: "/api/v1/content/articles/:id/unpublish",
+    operationId: "unpublishArticle",
+    tag: "Articles",
+    summary: "Move an article back to drafts",
+    description: "Also cancels any schedule. Does nothing if it is already a draft.",
+    auth: "key",
+    scope: "articles:write",
+    rateLimit: "articles.update",
+    params: articleParam,
+    response: { status: 200, description: "The article", schema: v1ArticleSchema },
+    errors: [401, 403, 404, 429],
+  },
+  {
+    method: "post",
+    path: "/api/v1/content/articles/:id/updates",
+    operationId: "createLiveUpdate",
+    tag: "Articles",
+    summary: "Post a live blog update",
+    description:
+      "Appends a timestamped entry to a live blog (an article whose liveStatus is \"live\"). Once the article is published, only editors and the channel owner can post.",
+    auth: "key",
+    scope: "articles:write",
+    rateLimit: "articles.update",
+    params: articleParam,
+    body: v1LiveUpdateCreateSchema,
+    bodyExample: {
+      title: "Evacuation order lifted",
+      content: "Residents of the east bank can return from **6pm**, the council says.",
+      pinned: false,
+    },
+    response: { status: 201, description: "The new entry", schema: v1LiveUpdateSchema },
+    errors: [400, 401, 403, 404, 429],
+  },
+  {
+    method: "get",
+    path: "/api/v1/content/channels",
+    operationId: "listChannels",
+    tag: "Channels & Categories",
+    summary: "List your channels",
+    description: "Channels you own, with article and subscriber counts. A channel-limited key only sees its channels.",
+    auth: "key",
+    scope: "channels:read",
+    rateLimit: "content.read",
+    query: z.object({
+      q: z.string().optional().describe("Only channels whose name or description matches"),
+    }),
+    response: { status: 200, description: "Your channels", schema: z.array(v1ChannelSchema) },
+    errors: [401, 403, 429],
+  },
+  {
+    method: "get",
+    path: "/api/v1/content/categories",
+    operationId: "listCategories",
+    tag: "Channels & Categories",
+    summary: "List all categories",
+    description: "The full category tree. Use category IDs when creating articles.",
+    auth: "key",
+    rateLimit: "content.read",
+    query: z.object({
+      q: z.string().optional().describe("Return a flat list of matching categories instead of the tree"),
+    }),
+    response: { status: 200, description: "Root categories with their children", schema: z.array(v1CategorySchema) },
+    errors: [401, 429],
+  },
+
+  // Webhooks
+  {
+    method: "post",
+    path: "/api/v1/api-keys/:id/webhooks",
+    operationId: "createWebhook",
+    tag: "Webhooks",
+    summary: "Subscribe a URL to events",
+    description: "The signing secret is returned once, at creation.",
+    auth: "jwt",
+    params: keyParam,
+    body: v1WebhookCreateSchema,
+    bodyExample: { url: "https://your-app.example.com/webhooks", events: ["article.published", "comment.created"] },
+    response: { status: 201, description: "Webhook created", schema: v1CreatedWebhookSchema },
+    errors: [400, 401, 403, 404],
+  },
+  {
+    method: "get",
+    path: "/api/v1/api-keys/:id/webhooks",
+    operationId: "listWebhooks",
+    tag: "Webhooks",
+    summary: "List a key's webhooks",
+    auth: "jwt",
+    params: keyParam,
+    response: { status: 200, description: "The key's webhooks, newest first", schema: z.array(v1WebhookSchema) },
+    errors: [401, 403, 404],
+  },
+  {
+    method: "patch",
+    path: "/api/v1/webhooks/:id",
+    operationId: "updateWebhook",
+    tag: "Webhooks",
+    summary: "Change a webhook's URL or events, or pause it",
+    auth: "jwt",
+    params: webhookParam,
+    body: v1WebhookUpdateSchema,
+    bodyExample: { isActive: false },
+    response: { status: 200, description: "The updated webhook", schema: v1WebhookSchema },
+    errors: [400, 401, 403, 404],
+  },
+  {
+    method: "delete",
+    path: "/api/v1/webhooks/:id",
+    operationId: "deleteWebhook",
+    tag: "Webhooks",
+    summary: "Delete a webhook",
+    description: "Deletes the webhook and its delivery log.",
+    auth: "jwt",
+    params: webhookParam,
+    response: { status: 200, description: "Webhook deleted", schema: apiMessageSchema },
+    errors: [401, 403, 404],
+  },
+  {
+    method: "get",
+    path: "/api/v1/webhooks/:id/deliveries",
+    operationId: "listWebhookDeliveries",
+    tag: "Webhooks",
+    summary: "Recent deliveries",
+    description: "The last 50 deliveries, newest first.",
+    auth: "jwt",
+    params: webhookParam,
+    response: { status: 200, description: "Deliveries", schema: z.array(v1WebhookDeliverySchema) },
+    errors: [401, 403, 404],
+  },
+  {
+    method: "post",
+    path: "/api/v1/webhooks/:id/test",
+    operationId: "testWebhook",
+    tag: "Webhooks",
+    summary: "Send a ping event",
+    description:
+      "Sends a ping event right away and returns the resulting delivery. To try it locally, run " +
+      "WEBHOOK_SECRET=whsec_... npm run webhook:receive and subscribe http://localhost:4000/webhook.",
+    auth: "jwt",
+    params: webhookParam,
+    response: { status: 200, description: "The ping delivery", schema: v1WebhookDeliverySchema },
+    errors: [401, 403, 404],
+  },
+
+  // Admin
+  {
+    method: "get",
+    path: "/api/v1/api-access-users",
+    operationId: "listApiAccessUsers",
+    tag: "Admin",
+    summary: "List users with API access",
+    auth: "admin",
+    response: { status: 200, description: "Granted users", schema: z.array(v1ApiAccessUserSchema) },
+    errors: [403],
+  },
+  {
+    method: "post",
+    path: "/api/v1/api-access-users",
+    operationId: "grantApiAccess",
+    tag: "Admin",
+    summary: "Grant a user API access",
+    auth: "admin",
+    body: v1ApiAccessGrantSchema,
+    response: { status: 201, description: "Access granted", schema: v1ApiAccessUserSchema },
+    errors: [400, 403, 404, 409],
+  },
+  {
+    method: "delete",
+    path: "/api/v1/api-access-users/:userId",
+    operationId: "revokeApiAccess",
+    tag: "Admin",
+    summary: "Revoke a user's API access",
+    auth: "admin",
+    params: { userId: "The user's Supabase UID" },
+    response: { status: 200, description: "Access revoked", schema: apiMessageSchema },
+    errors: [403],
+  },
+  {
+    method: "get",
+    path: "/api/v1/admin/api-usage",
+    operationId: "getApiUsage",
+    tag: "Admin",
+    summary: "Usage across every API key",
+    description: "Busiest first. Revoked keys are left out once they have had no requests for 7 days.",
+    auth: "admin",
+    response: { status: 200, description: "Rate limits and per-key usage", schema: v1ApiUsageReportSchema },
+    errors: [403],
+  },
+  {
+    method: "post",
+    path: "/api/v1/admin/articles/:id/engagement",
+    operationId: "setArticleEngagement",
+    tag: "Admin",
+    summary: "Set an article's engagement counters",
+    description: "viewCount is the absolute view total; the like and dislike counts are added on top of real reactions.",
+    auth: "admin",
+    params: { id: "Numeric article ID" },
+    body: v1EngagementUpdateSchema,
+    response: { status: 200, description: "The article's counters", schema: v1EngagementSchema },
+    errors: [400, 403, 404],
+  },
+];
+
+const TAGS = [
+  { name: "Articles", description: "Create, read, update and publish your articles" },
+  { name: "Channels & Categories", description: "Look up where articles can go" },
+  { name: "API Keys", description: "Manage keys with your session token" },
+  { name: "Webhooks", description: "Get told about events instead of polling" },
+  { name: "Admin", description: "Platform administration (admins only)" },
+];
+
+const SECURITY: Record<V1Operation["auth"], Record<string, string[]>[]> = {
+  key: [{ apiKey: [] }, { bearerAuth: [] }],
+  jwt: [{ bearerAuth: [] }],
+  admin: [{ bearerAuth: [] }],
+};
+
+function buildOperation(op: V1Operation): JsonSchema {
+  const parameters: JsonSchema[] = [];
+  for (const [name, description] of Object.entries(op.params || {})) {
+    parameters.push({ name, in: "path", required: true, description, schema: { type: "string" } });
+  }
+  if (op.query) {
+    for (const [name, value] of Object.entries<z.ZodTypeAny>(op.query.shape)) {
+      const { description, ...schema } = zodToJsonSchema(value);
+      parameters.push({ name, in: "query", required: !value.isOptional(), description, schema });
+    }
+  }
+  if (op.idempotent) {
+    parameters.push({
+      name: "Idempotency-Key",
+      in: "header",
+      required: false,
+      description: "Makes retries safe: a repeat with the same key and body within 24 hours replays the first response",
+      schema: { type: "string", minLength: 1, maxLength: 255 },
+    });
+  }
+
+  const responses: JsonSchema = {
+    [op.response.status]: {
+      description: op.response.description,
+      content: { "application/json": { schema: zodToJsonSchema(op.response.schema) } },
+    },
+  };
+  for (const status of op.errors || []) {
+    responses[status] = {
+      description: ERROR_DESCRIPTIONS[status],
+      content: { "application/json": { schema: zodToJsonSchema(apiErrorSchema) } },
+    };
+  }
+  responses[500] = {
+    description: "Server error",
+    content: { "application/json": { schema: zodToJsonSchema(apiErrorSchema) } },
+  };
+
+  const operation: JsonSchema = {
+    operationId: op.operationId,
+    tags: [op.tag],
+    summary: op.summary,
+    security: SECURITY[op.auth],
+    responses,
+  };
+  if (op.description) operation.description = op.description;
+  if (parameters.length > 0) operation.parameters = parameters;
+  if (op.body) {
+    const media: JsonSchema = { schema: zodToJsonSchema(op.body) };
+    if (op.bodyExample) media.example = op.bodyExample;
+    operation.requestBody = { required: true, content: { "application/json": media } };
+  }
+  if (op.scope) operation["x-scope"] = op.scope;
+  if (op.auth === "admin") operation["x-admin-only"] = true;
+  if (op.rateLimit) {
+    operation["x-rate-limit"] = { route: op.rateLimit, ...API_RATE_LIMITS[op.rateLimit] };
+  }
+  return operation;
+}
+
+export function buildOpenApiSpec(): JsonSchema {
+  const paths: JsonSchema = {};
+  for (const op of V1_OPERATIONS) {
+    const path = op.path.replace(/:(\w+)/g, "{$1}");
+    paths[path] = { ...paths[path], [op.method]: buildOperation(op) };
+  }
+
+  return {
+    openapi: "3.1.0",
+    jsonSchemaDialect: "https://spec.openapis.org/oas/3.1/dialect/base",
+    info: {
+      title: "NewsPlatform Content API",
+      version: "1.0.0",
+      description:
+        "Create and manage articles on NewsPlatform. Requests made with an API key are rate limited per key " +
+        "(see x-rate-limit on each operation) and report X-RateLimit-Limit, X-RateLimit-Remaining and X-RateLimit-Reset.",
+    },
+    servers: [{ url: "https://newsplatform.org" }],
+    tags: TAGS,
+    paths,
+    components: {
+      securitySchemes: {
+        apiKey: {
+          type: "apiKey",
+          in: "header",
+          name: "X-API-Key",
+          description: "An nk_ key from /api/v1/api-keys, limited to its scopes and channels",
+        },
+        bearerAuth: {
+          type: "http",
+          scheme: "bearer",
+          bearerFormat: "JWT",
+          description: "A Supabase access token; full access to your own content",
+        },
+      },
+      schemas: Object.fromEntries(
+        Object.entries(COMPONENTS).map(([name, schema]) => [name, zodToJsonSchema(schema, true)])
+      ),
+    },
+  };
+}
@@ -1,4 +1,4 @@
-import type { Express, Request } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { setupAuth } from "./auth";
 import { storage } from "./storage-supabase";
@@ -7,9 +7,131 @@ import { z } from "zod";
 import { supabase } from "./supabase";
 import passport from "passport";
 import { isDev } from "./constants";
-import { generateApiKey, hashApiKey, authenticateApiKey } from "./api-auth";
+import {
+  generateApiKey,
+  hashApiKey,
+  authenticateApiKey,
+  setRateLimitHeaders,
+  loadApiKeyUsage,
+  validateApiKeyAccess,
+  canAccessChannel,
+  API_RATE_LIMITS,
+  FULL_API_ACCESS,
+  type ApiAccess,
+} from "./api-auth";
 import { normalizeContent } from "./markdown-to-html";
+import { sanitizeArticleHtml, type SanitizeRemoval } from "./html-sanitizer";
 import { downloadAndUploadImage } from "./image-downloader";
+import { recordArticleRevision, mapRevisionRow } from "./article-revisions";
+import {
+  parseScheduledFor,
+  promoteDueScheduledArticles,
+  promoteDueScheduledArticlesThrottled,
+} from "./scheduled-publishing";
+import {
+  parseSearchParams,
+  searchArticles,
+  searchChannels,
+  searchCategories,
+} from "./search";
+import {
+  validateWebhookUrl,
+  webhookDestinationError,
+  validateWebhookEvents,
+  generateWebhookSecret,
+  mapWebhookRow,
+  mapWebhookDeliveryRow,
+  emitWebhookEvent,
+  emitArticleWebhookEvent,
+  sendWebhookPing,
+  retryDueWebhookDeliveries,
+  webhookArticleData,
+} from "./webhooks";
+import {
+  beginIdempotentRequest,
+  completeIdempotentRequest,
+  sendIdempotentReplay,
+  type IdempotentRequest,
+} from "./idempotency";
+import { buildOpenApiSpec } from "./openapi";
+import {
+  DIGEST_FREQUENCIES,
+  getDigestPreferences,
+  setDigestFrequency,
+  unsubscribeFromDigests,
+  mapDigestPreferences,
+  renderUnsubscribePage,
+  getMailTransport,
+  sendDueDigests,
+} from "./email-digests";
+import {
+  COMMENT_SELECT,
+  COMMENT_MODERATION_ACTIONS,
+  parseCommentContent,
+  shapeCommentThread,
+  loadCommentVotes,
+  parseCommentVote,
+  setCommentVote,
+  loadCommentForModeration,
+  canModerateArticleComments,
+  canModerateComment,
+  editComment,
+  softDeleteComment,
+  setCommentHidden,
+  parseCommentFlag,
+  flagComment,
+  listFlaggedComments,
+  moderateFlaggedComment,
+} from "./comments";
+import {
+  notifyCommentReply,
+  notifyArticlePublished,
+  notifyArticleReaction,
+  listNotifications,
+  markNotificationsRead,
+  parseMarkReadBody,
+} from "./notifications";
+import {
+  listBookmarks,
+  parseBookmarkNote,
+  saveBookmark,
+  removeBookmark,
+} from "./bookmarks";
+import { parseForYouLimit, rankForYouFeed } from "./feed";
+import {
+  isLiveStatus,
+  canPostLiveUpdates,
+  parseLiveUpdateLimit,
+  parseLiveUpdateInput,
+  listLiveUpdates,
+  createLiveUpdate,
+  updateLiveUpdate,
+  deleteLiveUpdate,
+  listLatestLiveUpdates,
+} from "./live-blog";
+import { parseTrendingLimit, listTrendingArticles } from "./trending";
+import { parseAnalyticsRange, getChannelAnalytics } from "./channel-analytics";
+import {
+  parseViewContext,
+  parseEngagement,
+  recordViewEngagement,
+  viewerIpHash,
+  getArticleStats,
+} from "./article-analytics";
+import {
+  parseMemberRole,
+  getChannelRole,
+  canPublishInChannel,
+  getArticleAccess,
+  canEditArticle,
+  ownsAnyChannel,
+  listChannelMembers,
+  inviteChannelMember,
+  updateChannelMemberRole,
+  removeChannelMember,
+  acceptChannelInvitation,
+  listUserChannelMemberships,
+} from "./channel-members";
 
 declare global {
   namespace Express {
@@ -345,17 +467,21 @@ export async function registerRoutes(app: Express): Promise<void> {
       if (channelError) throw channelError;
       if (!channel) return res.status(404).json({ error: "Channel not found" });
       
-      // Only the channel owner can see drafts
-      if (channel.user_id !== req.user.id) {
+      // Members see drafts: editors and the owner all of them, contributors
+      // their own
+      const role = await getChannelRole(supabase, channelId, req.user.id);
+      if (!role) {
         return res.status(403).json({ error: "You don't have permission to view drafts for this channel" });
       }
       
       // Fetch draft articles for this channel
-      const { data: articles, error } = await supabase
+      let draftsQuery = supabase
         .from("articles")
         .select("*")
         .eq("channel_id", channelId)
         .eq("published", false);  // Only return draft articles
+      if (!canPublishInChannel(role)) draftsQuery = draftsQuery.eq("user_id", req.user.id);
+      const { data: articles, error } = await draftsQuery;
         
       if (error) throw error;
       
@@ -371,6 +497,8 @@ export async function registerRoutes(app: Express): Promise<void> {
   
   app.get("/api/articles", async (req, res) => {
     try {
+      await promoteDueScheduledArticlesThrottled(supabase);
+
       // First, fetch the articles (only published ones)
       const { data: articles, error } = await supabase
         .from("articles")
@@ -428,7 +556,9 @@ export async function registerRoutes(app: Express): Promise<void> {
           const { data: commentCountData, error: commentCountError } = await supabase
             .from("comments")
             .select("*", { count: "exact", head: true })
-            .eq("article_id", article.id);
+            .eq("article_id", article.id)
+            .is("deleted_at", null)
+            .is("hidden_at", null);
             
           // Ensure view_count is present, defaulting to 0 if not
           const viewCount = article.view_count || 0;
@@ -468,6 +598,16 @@ export async function registerRoutes(app: Express): Promise<void> {
     }
   });
 
+  // Trending by view velocity (mirrors api/index.ts for prod)
+  app.get("/api/articles/trending", async (req, res) => {
+    try {
+      res.json(await listTrendingArticles(supabase, parseTrendingLimit(req.query.limit)));
+    } catch (error) {
+      console.error("Error fetching trending articles:", error);
+      res.status(500).json({ error: "Failed to fetch trending articles" });
+    }
+  });
+
   // Comment out this endpoint since we're using the one in api/index.ts
   // app.get("/api/articles/:id", async (req, res) => {
   //   try {
@@ -592,22 +732,145 @@ export async function registerRoutes(app: Express): Promise<void> {
   //   }
   // });
 
+  // Drizzle rows are camelCase; revision snapshots use the DB column names
+  const revisionSnapshot = (a: any) => ({
+    id: a.id,
+    user_id: a.userId,
+    title: a.title,
+    content: a.content,
+    status: a.status,
+    published: a.published,
+  });
+
+  // Role-based access to a Drizzle article row (see ./channel-members)
+  const articleAccessFor = (a: any, userId: number) =>
+    getArticleAccess(supabase, { user_id: a.userId, channel_id: a.channelId }, userId);
+
+  // Same idea for the article fields sent with webhook events
+  const webhookArticle = (a: any) =>
+    webhookArticleData({
+      id: a.id,
+      title: a.title,
+      slug: a.slug,
+      channel_id: a.channelId,
+      status: a.status,
+      published: a.published,
+      published_at: a.publishedAt,
+    });
+  const notifyPublished = (a: any) =>
+    notifyArticlePublished(supabase, {
+      id: a.id,
+      title: a.title,
+      slug: a.slug,
+      channel_id: a.channelId,
+      user_id: a.userId,
+    });
+
+  // Article fields any editor of the article may change (see PATCH below)
+  const ARTICLE_EDIT_FIELDS = [
+    "title",
+    "content",
+    "category",
+    "location",
+    "locationId",
+    "liveStatus",
+  ] as const;
+
   app.patch("/api/articles/:id", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     try {
       const article = await storage.getArticle(parseInt(req.params.id));
       if (!article) return res.sendStatus(404);
-      if (article.userId !== req.user!.id) return res.sendStatus(403);
+      const access = await articleAccessFor(article, req.user!.id);
+      if (!canEditArticle(article, access)) return res.sendStatus(403);
+
+      // scheduledFor: a future time (re)schedules, null cancels the schedule
+      const { scheduledFor } = req.body;
+      // Only the fields the editor changes; never the author
+      const body: Record<string, any> = {};
+      for (const field of ARTICLE_EDIT_FIELDS) {
+        if (req.body[field] !== undefined) body[field] = req.body[field];
+      }
+      // Publishing and moving the article to another channel need publish
+      // rights, in the target channel too
+      const { published, channelId } = req.body;
+      if (published !== undefined || (channelId !== undefined && channelId !== article.channelId)) {
+        if (!access.canPublish) {
+          return res
+            .status(403)
+            .json({ error: "Only editors and the channel owner can publish or move articles" });
+        }
+        if (channelId !== undefined && channelId !== article.channelId) {
+          const targetRole = await getChannelRole(supabase, Number(channelId), req.user!.id);
+          if (!canPublishInChannel(targetRole)) {
+            return res.status(403).json({ error: "Not authorized for the target channel" });
+          }
+          body.channelId = Number(channelId);
+        }
+        if (published !== undefined) {
+          body.published = !!published;
+          body.status = published ? "published" : "draft";
+        }
+      }
+      if (body.liveStatus !== undefined && !isLiveStatus(body.liveStatus)) {
+        return res.status(400).json({ error: "liveStatus must be live, ended or null" });
+      }
+      // Editor HTML goes through the same allow-list as API content
+      let sanitized: SanitizeRemoval[] | undefined;
+      if (typeof body.content === "string") {
+        ({ html: body.content, removed: sanitized } = sanitizeArticleHtml(body.content));
+      } else if (body.content !== undefined) {
+        return res.status(400).json({ error: "content must be a string" });
+      }
+      const scheduleUpdates: Record<string, any> = {};
+      if (scheduledFor) {
+        if (!access.canPublish) {
+          return res
+            .status(403)
+            .json({ error: "Only editors and the channel owner can schedule articles" });
+        }
+        const parsed = parseScheduledFor(scheduledFor);
+        if (parsed.error) return res.status(400).json({ error: parsed.error });
+        scheduleUpdates.status = "scheduled";
+        scheduleUpdates.published = false;
+        scheduleUpdates.publishedAt = parsed.date;
+      } else if (scheduledFor === null && article.status === "scheduled") {
+        scheduleUpdates.status = "draft";
+      }
       
       // Add lastEdited timestamp to the update
       const updatedArticle = await storage.updateArticle(
         parseInt(req.params.id),
         {
-          ...req.body,
+          ...body,
+          ...scheduleUpdates,
           lastEdited: new Date()
         }
       );
-      res.json(updatedArticle);
+      if (
+        updatedArticle.title !== article.title ||
+        updatedArticle.content !== article.content
+      ) {
+        await recordArticleRevision(
+          supabase,
+          revisionSnapshot(article),
+          revisionSnapshot(updatedArticle),
+          req.user!.id,
+          "edit"
+        );
+      }
+      await emitArticleWebhookEvent(
+        supabase,
+        req.user!.id,
+        updatedArticle.published && !article.published
+          ? "article.published"
+          : "article.updated",
+        webhookArticle(updatedArticle)
+      );
+      if (updatedArticle.published && !article.published) {
+        await notifyPublished(updatedArticle);
+      }
+      res.json(sanitized ? { ...updatedArticle, sanitized } : updatedArticle);
     } catch (error) {
       console.error("Error updating article:", error);
       res.status(500).json({ error: "Failed to update article" });
@@ -620,9 +883,17 @@ export async function registerRoutes(app: Express): Promise<void> {
     try {
       const article = await storage.getArticle(parseInt(req.params.id));
       if (!article) return res.sendStatus(404);
-      if (article.userId !== req.user!.id) return res.sendStatus(403);
+      if (!canEditArticle(article, await articleAccessFor(article, req.user!.id))) {
+        return res.sendStatus(403);
+      }
       
       await storage.deleteArticle(parseInt(req.params.id));
+      await emitArticleWebhookEvent(
+        supabase,
+        article.userId,
+        "article.deleted",
+        webhookArticle(article)
+      );
       res.sendStatus(204); // No content
     } catch (error) {
       console.error("Error deleting article:", error);
@@ -636,19 +907,44 @@ export async function registerRoutes(app: Express): Promise<void> {
     try {
       const article = await storage.getArticle(parseInt(req.params.id));
       if (!article) return res.sendStatus(404);
-      if (article.userId !== req.user!.id) return res.sendStatus(403);
+      // Editors and the owner publish, schedule and take articles offline
+      const access = await articleAccessFor(article, req.user!.id);
+      const publishing = article.status !== 'published' || !!req.body?.scheduledFor;
+      if (!(publishing ? access.canPublish : canEditArticle(article, access))) return res.sendStatus(403);
       
       const newStatus = article.status === 'published' ? 'draft' : 'published';
       const published = newStatus === 'published';
+
+      let update: Record<string, any> = {
+        status: newStatus,
+        published,
+        publishedAt: published ? new Date() : article.publishedAt
+      };
+      // A future scheduledFor schedules instead of flipping (mirrors api/index.ts)
+      if (req.body?.scheduledFor) {
+        const parsed = parseScheduledFor(req.body.scheduledFor);
+        if (parsed.error) return res.status(400).json({ error: parsed.error });
+        update = { status: "scheduled", published: false, publishedAt: parsed.date };
+      }
       
       const updatedArticle = await storage.updateArticle(
         parseInt(req.params.id),
-        { 
-          status: newStatus,
-          published,
-          publishedAt: published ? new Date() : article.publishedAt
-        }
+        update
+      );
+      await recordArticleRevision(
+        supabase,
+        revisionSnapshot(article),
+        revisionSnapshot(updatedArticle),
+        req.user!.id,
+        "status"
+      );
+      await emitArticleWebhookEvent(
+        supabase,
+        req.user!.id,
+        updatedArticle.published ? "article.published" : "article.updated",
+        webhookArticle(updatedArticle)
       );
+      if (updatedArticle.published) await notifyPublished(updatedArticle);
       
       res.json(updatedArticle);
     } catch (error) {
@@ -657,21 +953,384 @@ export async function registerRoutes(app: Express): Promise<void> {
     }
   });
 
+  // Promote due scheduled articles (mirrors the Vercel cron in api/index.ts)
+  app.get("/api/cron/publish-scheduled", async (req, res) => {
+    const cronSecret = process.env.CRON_SECRET;
+    if (!isDev && (!cronSecret || req.headers.authorization !== `Bearer ${cronSecret}`)) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+    const promoted = await promoteDueScheduledArticles(supabase);
+    res.json({
+      promoted: promoted.length,
+      articles: promoted.map((a) => ({
+        id: a.id,
+        title: a.title,
+        slug: a.slug,
+        publishedAt: a.published_at,
+      })),
+    });
+  });
+
+  // ---- Article revision history (mirrors api/index.ts for prod) ----
+  const REVISION_SELECT =
+    "id, revision_number, title, status, published, source, restored_from, created_at, editor:edited_by(id, username)";
+
+  app.get("/api/articles/:id/revisions", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const article = await storage.getArticle(parseInt(req.params.id));
+      if (!article) return res.sendStatus(404);
+      if (!(await articleAccessFor(article, req.user!.id)).canEdit) return res.sendStatus(403);
+
+      const { data, error } = await supabase
+        .from("article_revisions")
+        .select(REVISION_SELECT)
+        .eq("article_id", article.id)
+        .order("revision_number", { ascending: false });
+      if (error) throw error;
+      res.json((data || []).map((row) => mapRevisionRow(row)));
+    } catch (error) {
+      console.error("Error fetching article revisions:", error);
+      res.status(500).json({ error: "Failed to fetch revisions" });
+    }
+  });
+
+  app.get("/api/articles/:id/revisions/:revisionId", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const article = await storage.getArticle(parseInt(req.params.id));
+      if (!article) return res.sendStatus(404);
+      if (!(await articleAccessFor(article, req.user!.id)).canEdit) return res.sendStatus(403);
+
+      const { data, error } = await supabase
+        .from("article_revisions")
+        .select(`${REVISION_SELECT}, content`)
+        .eq("article_id", article.id)
+        .eq("id", parseInt(req.params.revisionId))
+        .maybeSingle();
+      if (error) throw error;
+      if (!data) return res.status(404).json({ error: "Revision not found" });
+      res.json(mapRevisionRow(data, true));
+    } catch (error) {
+      console.error("Error fetching article revision:", error);
+      res.status(500).json({ error: "Failed to fetch revision" });
+    }
+  });
+
+  app.post("/api/articles/:id/revisions/:revisionId/restore", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const article = await storage.getArticle(parseInt(req.params.id));
+      if (!article) return res.sendStatus(404);
+      if (!canEditArticle(article, await articleAccessFor(article, req.user!.id))) {
+        return res.sendStatus(403);
+      }
+
+      const { data: revision, error } = await supabase
+        .from("article_revisions")
+        .select("id, revision_number, title, content")
+        .eq("article_id", article.id)
+        .eq("id", parseInt(req.params.revisionId))
+        .maybeSingle();
+      if (error) throw error;
+      if (!revision) return res.status(404).json({ error: "Revision not found" });
+
+      // Slug and publish state are left alone so existing links keep working.
+      // Revisions saved before sanitizing existed may hold unsafe markup.
+      const updatedArticle = await storage.updateArticle(article.id, {
+        title: revision.title,
+        content: sanitizeArticleHtml(revision.content || "").html,
+        lastEdited: new Date(),
+      });
+      await recordArticleRevision(
+        supabase,
+        revisionSnapshot(article),
+        revisionSnapshot(updatedArticle),
+        req.user!.id,
+        "restore",
+        revision.revision_number
+      );
+      res.json(updatedArticle);
+    } catch (error) {
+      console.error("Error restoring article revision:", error);
+      res.status(500).json({ error: "Failed to restore revision" });
+    }
+  });
+
+  // ---- Live blogs (mirrors api/index.ts for prod) ----
+  app.get("/api/articles/:id/updates", async (req, res) => {
+    try {
+      const article = await storage.getArticle(parseInt(req.params.id));
+      if (!article) return res.sendStatus(404);
+      if (
+        !article.published &&
+        !(req.isAuthenticated() && (await articleAccessFor(article, req.user!.id)).canEdit)
+      ) {
+        return res.sendStatus(404);
+      }
+      const updates = article.liveStatus
+        ? await listLiveUpdates(supabase, article.id, parseLiveUpdateLimit(req.query.limit))
+        : [];
+      res.json({ liveStatus: article.liveStatus ?? null, updates });
+    } catch (error) {
+      console.error("Error fetching live updates:", error);
+      res.status(500).json({ error: "Server error" });
+    }
+  });
+
+  app.post("/api/articles/:id/updates", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const article = await storage.getArticle(parseInt(req.params.id));
+      if (!article) return res.sendStatus(404);
+      if (!canPostLiveUpdates(article, await articleAccessFor(article, req.user!.id))) {
+        return res.sendStatus(403);
+      }
+      if (article.liveStatus !== "live") {
+        return res.status(400).json({
+          error: article.liveStatus === "ended"
+            ? "Live coverage of this article has ended"
+            : "This article is not a live blog",
+        });
+      }
+      const { fields, sanitized, error: inputError } = parseLiveUpdateInput(req.body);
+      if (!fields) return res.status(400).json({ error: inputError });
+
+      const update = await createLiveUpdate(supabase, article.id, req.user!.id, fields);
+      res.status(201).json(sanitized ? { ...update, sanitized } : update);
+    } catch (error) {
+      console.error("Error posting live update:", error);
+      res.status(500).json({ error: "Server error" });
+    }
+  });
+
+  app.patch("/api/articles/:id/updates/:updateId", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const article = await storage.getArticle(parseInt(req.params.id));
+      if (!article) return res.sendStatus(404);
+      if (!canPostLiveUpdates(article, await articleAccessFor(article, req.user!.id))) {
+        return res.sendStatus(403);
+      }
+      const { fields, sanitized, error: inputError } = parseLiveUpdateInput(req.body, true);
+      if (!fields) return res.status(400).json({ error: inputError });
+
+      const update = await updateLiveUpdate(supabase, article.id, parseInt(req.params.updateId), fields);
+      if (!update) return res.status(404).json({ error: "Update not found" });
+      res.json(sanitized ? { ...update, sanitized } : update);
+    } catch (error) {
+      console.error("Error editing live update:", error);
+      res.status(500).json({ error: "Server error" });
+    }
+  });
+
+  app.delete("/api/articles/:id/updates/:updateId", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const article = await storage.getArticle(parseInt(req.params.id));
+      if (!article) return res.sendStatus(404);
+      if (!canPostLiveUpdates(article, await articleAccessFor(article, req.user!.id))) {
+        return res.sendStatus(403);
+      }
+      const removed = await deleteLiveUpdate(supabase, article.id, parseInt(req.params.updateId));
+      if (!removed) return res.status(404).json({ error: "Update not found" });
+      res.sendStatus(204);
+    } catch (error) {
+      console.error("Error deleting live update:", error);
+      res.status(500).json({ error: "Server error" });
+    }
+  });
+
   // Comments
   app.post("/api/articles/:id/comments", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
-    const commentData = insertCommentSchema.parse(req.body);
-    const comment = await storage.createComment({
-      ...commentData,
-      articleId: parseInt(req.params.id),
-      userId: req.user.id,
-    });
-    res.json(comment);
+    try {
+      const commentData = insertCommentSchema.parse(req.body);
+      if (commentData.parentId) {
+        const { data: parent } = await supabase
+          .from("comments")
+          .select("id, article_id, deleted_at, hidden_at")
+          .eq("id", commentData.parentId)
+          .maybeSingle();
+        if (!parent || parent.article_id !== parseInt(req.params.id)) {
+          return res.status(400).json({ error: "Parent comment not found" });
+        }
+        if (parent.deleted_at || parent.hidden_at) {
+          return res.status(409).json({ error: "Cannot reply to a removed comment" });
+        }
+      }
+      const comment = await storage.createComment({
+        ...commentData,
+        articleId: parseInt(req.params.id),
+        userId: req.user.id,
+      });
+      const article = await storage.getArticle(comment.articleId);
+      if (article) {
+        await emitWebhookEvent(supabase, article.userId, "comment.created", {
+          id: comment.id,
+          articleId: comment.articleId,
+          parentId: comment.parentId ?? null,
+          content: comment.content,
+          author: { id: req.user.id, username: req.user.username },
+          createdAt: comment.createdAt,
+        });
+      }
+      await notifyCommentReply(supabase, {
+        id: comment.id,
+        article_id: comment.articleId,
+        parent_id: comment.parentId,
+        user_id: req.user.id,
+        content: comment.content,
+      });
+      res.json(comment);
+    } catch (error) {
+      console.error("Error posting comment:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      res.status(500).json({ error: "Server error" });
+    }
   });
 
   app.get("/api/articles/:id/comments", async (req, res) => {
-    const comments = await storage.listComments(parseInt(req.params.id));
-    res.json(comments);
+    try {
+      const articleId = parseInt(req.params.id);
+      const { data: comments, error } = await supabase
+        .from("comments")
+        .select(COMMENT_SELECT)
+        .eq("article_id", articleId)
+        .order("created_at", { ascending: true });
+      if (error) return res.status(500).json({ error: "Failed to fetch comments" });
+      const viewerId = req.isAuthenticated() ? req.user.id : null;
+      const showHidden = viewerId
+        ? await canModerateArticleComments(supabase, viewerId, articleId)
+        : false;
+      const votes = await loadCommentVotes(supabase, (comments || []).map((c) => c.id), viewerId);
+      res.json(shapeCommentThread(comments || [], { showHidden, votes }));
+    } catch (error) {
+      console.error("Error fetching comments:", error);
+      res.status(500).json({ error: "Server error" });
+    }
+  });
+
+  app.patch("/api/comments/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const comment = await loadCommentForModeration(supabase, parseInt(req.params.id));
+      if (!comment) return res.status(404).json({ error: "Comment not found" });
+      if (comment.user_id !== req.user.id) {
+        return res.status(403).json({ error: "You can only edit your own comments" });
+      }
+      if (comment.deleted_at || comment.hidden_at) {
+        return res.status(409).json({ error: "This comment has been removed" });
+      }
+      const content = parseCommentContent(req.body?.content);
+      if (!content) return res.status(400).json({ error: "Comment content is required" });
+      res.json(await editComment(supabase, comment.id, content));
+    } catch (error) {
+      console.error("Error editing comment:", error);
+      res.status(500).json({ error: "Server error" });
+    }
+  });
+
+  app.delete("/api/comments/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const comment = await loadCommentForModeration(supabase, parseInt(req.params.id));
+      if (!comment) return res.status(404).json({ error: "Comment not found" });
+      if (comment.user_id !== req.user.id) {
+        return res.status(403).json({ error: "You can only delete your own comments" });
+      }
+      if (!comment.deleted_at) await softDeleteComment(supabase, comment.id);
+      res.sendStatus(204);
+    } catch (error) {
+      console.error("Error deleting comment:", error);
+      res.status(500).json({ error: "Server error" });
+    }
+  });
+
+  app.put("/api/comments/:id/visibility", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      if (typeof req.body?.hidden !== "boolean") {
+        return res.status(400).json({ error: "hidden must be true or false" });
+      }
+      const comment = await loadCommentForModeration(supabase, parseInt(req.params.id));
+      if (!comment) return res.status(404).json({ error: "Comment not found" });
+      if (!(await canModerateComment(supabase, req.user.id, comment))) {
+        return res.status(403).json({ error: "Only the channel owner or an admin can moderate comments" });
+      }
+      res.json(await setCommentHidden(supabase, comment.id, req.body.hidden, req.user.id));
+    } catch (error) {
+      console.error("Error changing comment visibility:", error);
+      res.status(500).json({ error: "Server error" });
+    }
+  });
+
+  app.post("/api/comments/:id/vote", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const { value, error: voteError } = parseCommentVote(req.body);
+      if (voteError) return res.status(400).json({ error: voteError });
+      const comment = await loadCommentForModeration(supabase, parseInt(req.params.id));
+      if (!comment) return res.status(404).json({ error: "Comment not found" });
+      if (comment.deleted_at || comment.hidden_at) {
+        return res.status(409).json({ error: "This comment has been removed" });
+      }
+      if (comment.user_id === req.user.id) {
+        return res.status(400).json({ error: "You can't vote on your own comment" });
+      }
+      res.json(await setCommentVote(supabase, comment.id, req.user.id, value!));
+    } catch (error) {
+      console.error("Error voting on comment:", error);
+      res.status(500).json({ error: "Server error" });
+    }
+  });
+
+  app.post("/api/comments/:id/flag", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const { reason, details, error: flagError } = parseCommentFlag(req.body);
+      if (flagError) return res.status(400).json({ error: flagError });
+      const comment = await loadCommentForModeration(supabase, parseInt(req.params.id));
+      if (!comment || comment.deleted_at) return res.status(404).json({ error: "Comment not found" });
+      if (comment.user_id === req.user.id) {
+        return res.status(400).json({ error: "You can't flag your own comment" });
+      }
+      await flagComment(supabase, comment.id, req.user.id, reason!, details ?? null);
+      res.status(201).json({ message: "Thanks, a moderator will review this comment" });
+    } catch (error) {
+      console.error("Error flagging comment:", error);
+      res.status(500).json({ error: "Server error" });
+    }
+  });
+
+  app.get("/api/admin/comment-flags", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      if (!(await isDevAdmin(req))) return res.status(403).json({ error: "Admin access required" });
+      res.json(await listFlaggedComments(supabase));
+    } catch (error) {
+      console.error("Error loading flagged comments:", error);
+      res.status(500).json({ error: "Server error" });
+    }
+  });
+
+  app.post("/api/admin/comment-flags/:commentId", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      if (!(await isDevAdmin(req))) return res.status(403).json({ error: "Admin access required" });
+      const action = req.body?.action;
+      if (!COMMENT_MODERATION_ACTIONS.includes(action)) {
+        return res.status(400).json({ error: `action must be one of ${COMMENT_MODERATION_ACTIONS.join(", ")}` });
+      }
+      const comment = await loadCommentForModeration(supabase, parseInt(req.params.commentId));
+      if (!comment) return res.status(404).json({ error: "Comment not found" });
+      res.json(await moderateFlaggedComment(supabase, comment.id, action, req.user.id));
+    } catch (error) {
+      console.error("Error moderating flagged comment:", error);
+      res.status(500).json({ error: "Server error" });
+    }
   });
 
   // Reactions
@@ -684,6 +1343,14 @@ export async function registerRoutes(app: Express): Promise<void> {
       const isLike = req.body.isLike;
       
       console.log("Processing reaction:", { articleId, userId, isLike });
+      const notifyReaction = async () => {
+        const { data: article } = await supabase
+          .from("articles")
+          .select("id, user_id, title, slug")
+          .eq("id", articleId)
+          .maybeSingle();
+        if (article) await notifyArticleReaction(supabase, article, userId, isLike);
+      };
       
       // First, clean up any duplicate reactions (temporary fix)
       try {
@@ -767,6 +1434,7 @@ export async function registerRoutes(app: Express): Promise<void> {
           throw updateError;
         }
         
+        await notifyReaction();
         return res.json(updatedReaction);
       }
       
@@ -790,6 +1458,7 @@ export async function registerRoutes(app: Express): Promise<void> {
         throw createError;
       }
       
+      await notifyReaction();
       res.json(newReaction);
     } catch (error) {
       console.error("Error handling reaction:", error);
@@ -843,6 +1512,15 @@ export async function registerRoutes(app: Express): Promise<void> {
       channelId: parseInt(req.params.id),
       userId: req.user.id,
     });
+    const channel = await storage.getChannel(subscription.channelId);
+    if (channel) {
+      await emitWebhookEvent(supabase, channel.userId, "channel.subscribed", {
+        channelId: channel.id,
+        channelName: channel.name,
+        subscriberId: req.user.id,
+        subscribedAt: new Date().toISOString(),
+      });
+    }
     res.json(subscription);
   });
 
@@ -1082,7 +1760,7 @@ export async function registerRoutes(app: Express): Promise<void> {
       // Check if this client has viewed this article before (anti-gaming mechanism)
       const { data: existingViews, error: viewsError } = await supabase
         .from("article_views")
-        .select("id")
+        .select("id, ip_hash")
         .eq("article_id", articleId)
         .eq("client_identifier", clientIdentifier);
         
@@ -1092,26 +1770,35 @@ export async function registerRoutes(app: Express): Promise<void> {
       }
       
       // If user has already viewed this article before, don't count another view
+      const ipHash = viewerIpHash(req.ip);
       if (existingViews && existingViews.length > 0) {
         console.log('View already recorded for this client, not incrementing count');
+        // A returning reader may be on another network; their engagement beacon comes from this one
+        if (ipHash && existingViews[0].ip_hash !== ipHash) {
+          await supabase.from("article_views").update({ ip_hash: ipHash }).eq("id", existingViews[0].id);
+        }
         return res.json({
           counted: false, 
           message: "View already counted for this article",
           alreadyViewed: true,
-          view_count: currentCount 
+          view_count: currentCount,
+          viewId: existingViews[0].id
         });
       }
       
       console.log('New view detected, recording view');
       
       // Record this view in article_views table
-      const { error: insertError } = await supabase
+      const { data: insertedView, error: insertError } = await supabase
         .from("article_views")
         .insert({
           article_id: articleId,
           user_id: userId,
-          client_identifier: clientIdentifier
-        });
+          client_identifier: clientIdentifier,
+          ...parseViewContext(req.body, req.headers["user-agent"], req.ip)
+        })
+        .select("id")
+        .single();
         
       if (insertError) {
         console.error("Error recording view:", insertError);
@@ -1137,7 +1824,8 @@ export async function registerRoutes(app: Express): Promise<void> {
       return res.json({ 
         counted: true, 
         message: "View recorded",
-        view_count: updatedViewCount
+        view_count: updatedViewCount,
+        viewId: insertedView.id
       });
     } catch (error) {
       console.error("Error handling view count:", error);
@@ -1149,16 +1837,21 @@ export async function registerRoutes(app: Express): Promise<void> {
   // Content API v1 — Programmatic article creation (dev mode)
   // ===================================================================
 
-  // Unified auth for dev mode: check X-API-Key, fall back to session auth
+  // Unified auth for dev mode: check X-API-Key (scoped, and rate limited per
+  // route group), fall back to session auth with full access
   async function authenticateDevRequest(
-    req: Request
-  ): Promise<{ userId?: number; error?: string }> {
+    req: Request,
+    res?: Response,
+    options: { route?: string; scope?: string } = {}
+  ): Promise<{ userId?: number; access?: ApiAccess; error?: string; status?: number }> {
     const apiKeyHeader = req.headers["x-api-key"] as string | undefined;
     if (apiKeyHeader) {
-      return authenticateApiKey(apiKeyHeader, supabase);
+      const result = await authenticateApiKey(apiKeyHeader, supabase, options);
+      if (res && result.rateLimit) setRateLimitHeaders(res, result.rateLimit);
+      return result;
     }
     if (req.isAuthenticated() && req.user) {
-      return { userId: (req.user as any).id };
+      return { userId: (req.user as any).id, access: FULL_API_ACCESS };
     }
     return { error: "Authentication required" };
   }
@@ -1168,10 +1861,14 @@ export async function registerRoutes(app: Express): Promise<void> {
   app.post("/api/v1/api-keys", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     try {
-      const { name, expiresInDays } = req.body;
+      const { name, expiresInDays, scopes, channelIds } = req.body;
       if (!name?.trim()) {
         return res.status(400).json({ error: "Key name is required" });
       }
+      const { access, error: accessError } = await validateApiKeyAccess(
+        supabase, req.user!.id, scopes, channelIds
+      );
+      if (!access) return res.status(400).json({ error: accessError });
 
       const { key, hash, prefix } = generateApiKey();
       const expiresAt = expiresInDays
@@ -1186,6 +1883,8 @@ export async function registerRoutes(app: Express): Promise<void> {
           user_id: req.user!.id,
           name: name.trim(),
           expires_at: expiresAt,
+          scopes: access.scopes,
+          channel_ids: access.channelIds,
         }])
         .select()
         .single();
@@ -1199,6 +1898,8 @@ export async function registerRoutes(app: Express): Promise<void> {
         key,
         prefix,
         name: apiKeyRow.name,
+        scopes: apiKeyRow.scopes,
+        channelIds: apiKeyRow.channel_ids,
         createdAt: apiKeyRow.created_at,
         expiresAt: apiKeyRow.expires_at,
       });
@@ -1213,7 +1914,7 @@ export async function registerRoutes(app: Express): Promise<void> {
     try {
       const { data: keys, error } = await supabase
         .from("api_keys")
-        .select("id, key_prefix, name, created_at, last_used_at, expires_at, is_revoked")
+        .select("id, key_prefix, name, scopes, channel_ids, created_at, last_used_at, expires_at, is_revoked")
         .eq("user_id", req.user!.id)
         .order("created_at", { ascending: false });
 
@@ -1221,14 +1922,18 @@ export async function registerRoutes(app: Express): Promise<void> {
         return res.status(500).json({ error: "Failed to list API keys" });
       }
 
+      const usage = await loadApiKeyUsage(supabase, keys.map((k: any) => k.id));
       return res.json(keys.map((k: any) => ({
         id: k.id,
         prefix: k.key_prefix,
         name: k.name,
+        scopes: k.scopes,
+        channelIds: k.channel_ids,
         createdAt: k.created_at,
         lastUsedAt: k.last_used_at,
         expiresAt: k.expires_at,
         isRevoked: k.is_revoked,
+        usage: usage.get(k.id),
       })));
     } catch (error) {
       console.error("Error in GET /api/v1/api-keys:", error);
@@ -1261,51 +1966,535 @@ export async function registerRoutes(app: Express): Promise<void> {
     }
   });
 
-  // --- API Access Management (admin-only) ---
+  // --- Webhooks (mirrors api/index.ts for prod) ---
 
-  // Helper: check if the current session user is admin
-  async function isDevAdmin(req: Request): Promise<boolean> {
-    if (!req.isAuthenticated()) return false;
-    const userId = (req.user as any).id;
-    const { data: dbUser } = await supabase
-      .from("users")
-      .select("supabase_uid")
-      .eq("id", userId)
-      .maybeSingle();
-    if (!dbUser?.supabase_uid) return false;
-    const { data: admin } = await supabase
-      .from("admin_users")
-      .select("user_id")
-      .eq("user_id", dbUser.supabase_uid)
-      .maybeSingle();
-    return !!admin;
+  // Load a key or webhook row and check it belongs to the session user
+  async function loadOwnedRow(table: string, id: string, req: Request) {
+    const { data } = await supabase.from(table).select("*").eq("id", id).maybeSingle();
+    if (!data) return { status: 404 };
+    if (data.user_id !== req.user!.id) return { status: 403 };
+    return { row: data };
   }
 
-  // Helper: get Supabase UUID for the current dev session user
-  async function getDevSupabaseUid(req: Request): Promise<string | null> {
-    if (!req.isAuthenticated()) return null;
-    const userId = (req.user as any).id;
-    const { data } = await supabase
-      .from("users")
-      .select("supabase_uid")
-      .eq("id", userId)
-      .maybeSingle();
-    return data?.supabase_uid || null;
-  }
+  app.get("/api/v1/api-keys/:id/webhooks", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const { row: key, status } = await loadOwnedRow("api_keys", req.params.id, req);
+      if (!key) return res.sendStatus(status!);
+      const { data, error } = await supabase
+        .from("webhook_subscriptions")
+        .select("*")
+        .eq("api_key_id", key.id)
+        .order("created_at", { ascending: false });
+      if (error) throw error;
+      res.json((data || []).map(mapWebhookRow));
+    } catch (error) {
+      console.error("Error listing webhooks:", error);
+      res.status(500).json({ error: "Failed to list webhooks" });
+    }
+  });
 
-  app.get("/api/v1/api-access-users", async (req, res) => {
+  app.post("/api/v1/api-keys/:id/webhooks", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
-    if (!(await isDevAdmin(req))) return res.status(403).json({ error: "Admin access required" });
+    try {
+      const { row: key, status } = await loadOwnedRow("api_keys", req.params.id, req);
+      if (!key) return res.sendStatus(status!);
+      if (key.is_revoked) {
+        return res.status(400).json({ error: "API key has been revoked" });
+      }
 
-    const { data: grants } = await supabase
-      .from("api_access_users")
-      .select("user_id, created_at, granted_by")
-      .order("created_at", { ascending: false });
+      const { url, events } = req.body;
+      const validationError =
+        validateWebhookUrl(url, isDev) ||
+        validateWebhookEvents(events) ||
+        (await webhookDestinationError(url, isDev));
+      if (validationError) return res.status(400).json({ error: validationError });
 
-    const results = [];
-    for (const grant of grants || []) {
-      const { data: authUser } = await supabase
-        .from("users")
+      const secret = generateWebhookSecret();
+      const { data, error } = await supabase
+        .from("webhook_subscriptions")
+        .insert([{
+          api_key_id: key.id,
+          user_id: req.user!.id,
+          url: url.trim(),
+          events: Array.from(new Set(events)),
+          secret,
+        }])
+        .select()
+        .single();
+      if (error) throw error;
+      res.status(201).json({ ...mapWebhookRow(data), secret });
+    } catch (error) {
+      console.error("Error creating webhook:", error);
+      res.status(500).json({ error: "Failed to create webhook" });
+    }
+  });
+
+  app.patch("/api/v1/webhooks/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const { row: subscription, status } = await loadOwnedRow("webhook_subscriptions", req.params.id, req);
+      if (!subscription) return res.sendStatus(status!);
+
+      const { url, events, isActive } = req.body;
+      const updates: Record<string, any> = {};
+      if (url !== undefined) {
+        const urlError = validateWebhookUrl(url, isDev) || (await webhookDestinationError(url, isDev));
+        if (urlError) return res.status(400).json({ error: urlError });
+        updates.url = url.trim();
+      }
+      if (events !== undefined) {
+        const eventsError = validateWebhookEvents(events);
+        if (eventsError) return res.status(400).json({ error: eventsError });
+        updates.events = Array.from(new Set(events));
+      }
+      if (isActive !== undefined) {
+        if (typeof isActive !== "boolean") {
+          return res.status(400).json({ error: "isActive must be a boolean" });
+        }
+        updates.is_active = isActive;
+      }
+      if (Object.keys(updates).length === 0) {
+        return res.status(400).json({ error: "Nothing to update" });
+      }
+
+      const { data, error } = await supabase
+        .from("webhook_subscriptions")
+        .update(updates)
+        .eq("id", subscription.id)
+        .select()
+        .single();
+      if (error) throw error;
+      res.json(mapWebhookRow(data));
+    } catch (error) {
+      console.error("Error updating webhook:", error);
+      res.status(500).json({ error: "Failed to update webhook" });
+    }
+  });
+
+  app.delete("/api/v1/webhooks/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const { row: subscription, status } = await loadOwnedRow("webhook_subscriptions", req.params.id, req);
+      if (!subscription) return res.sendStatus(status!);
+      await supabase.from("webhook_subscriptions").delete().eq("id", subscription.id);
+      res.json({ message: "Webhook deleted" });
+    } catch (error) {
+      console.error("Error deleting webhook:", error);
+      res.status(500).json({ error: "Failed to delete webhook" });
+    }
+  });
+
+  app.get("/api/v1/webhooks/:id/deliveries", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const { row: subscription, status } = await loadOwnedRow("webhook_subscriptions", req.params.id, req);
+      if (!subscription) return res.sendStatus(status!);
+      const { data, error } = await supabase
+        .from("webhook_deliveries")
+        .select("*")
+        .eq("subscription_id", subscription.id)
+        .order("created_at", { ascending: false })
+        .limit(50);
+      if (error) throw error;
+      res.json((data || []).map(mapWebhookDeliveryRow));
+    } catch (error) {
+      console.error("Error listing webhook deliveries:", error);
+      res.status(500).json({ error: "Failed to list deliveries" });
+    }
+  });
+
+  app.post("/api/v1/webhooks/:id/test", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const { row: subscription, status } = await loadOwnedRow("webhook_subscriptions", req.params.id, req);
+      if (!subscription) return res.sendStatus(status!);
+      res.json(mapWebhookDeliveryRow(await sendWebhookPing(supabase, subscription)));
+    } catch (error) {
+      console.error("Error sending test webhook:", error);
+      res.status(500).json({ error: "Failed to send test webhook" });
+    }
+  });
+
+  // Retry due webhook deliveries (mirrors the Vercel cron in api/index.ts)
+  app.get("/api/cron/deliver-webhooks", async (req, res) => {
+    const cronSecret = process.env.CRON_SECRET;
+    if (!isDev && (!cronSecret || req.headers.authorization !== `Bearer ${cronSecret}`)) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+    try {
+      res.json(await retryDueWebhookDeliveries(supabase));
+    } catch (error) {
+      console.error("Error retrying webhook deliveries:", error);
+      res.status(500).json({ error: "Server error" });
+    }
+  });
+
+  // ---- Email digests (mirrors api/index.ts for prod) ----
+  app.get("/api/digest-preferences", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      res.json(mapDigestPreferences(await getDigestPreferences(supabase, req.user.id)));
+    } catch (error) {
+      console.error("Error loading digest preferences:", error);
+      res.status(500).json({ error: "Server error" });
+    }
+  });
+
+  app.put("/api/digest-preferences", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const { frequency } = req.body || {};
+    if (!DIGEST_FREQUENCIES.includes(frequency)) {
+      return res.status(400).json({ error: `frequency must be one of ${DIGEST_FREQUENCIES.join(", ")}` });
+    }
+    try {
+      res.json(mapDigestPreferences(await setDigestFrequency(supabase, req.user.id, frequency)));
+    } catch (error) {
+      console.error("Error saving digest preferences:", error);
+      res.status(500).json({ error: "Server error" });
+    }
+  });
+
+  app.get("/api/digests/unsubscribe", (req, res) => {
+    const token = String(req.query.token || "");
+    res.type("html").send(renderUnsubscribePage(token ? "confirm" : "invalid", token));
+  });
+
+  app.post("/api/digests/unsubscribe", async (req, res) => {
+    try {
+      const done = await unsubscribeFromDigests(supabase, String(req.query.token || ""));
+      res.status(done ? 200 : 404).type("html").send(renderUnsubscribePage(done ? "done" : "invalid"));
+    } catch (error) {
+      console.error("Error unsubscribing from digests:", error);
+      res.status(500).json({ error: "Server error" });
+    }
+  });
+
+  app.get("/api/cron/send-digests", async (req, res) => {
+    const cronSecret = process.env.CRON_SECRET;
+    if (!isDev && (!cronSecret || req.headers.authorization !== `Bearer ${cronSecret}`)) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+    const transport = getMailTransport();
+    if (!transport) return res.status(503).json({ error: "Mail transport is not configured" });
+    try {
+      res.json(await sendDueDigests(supabase, transport));
+    } catch (error) {
+      console.error("Error sending digests:", error);
+      res.status(500).json({ error: "Server error" });
+    }
+  });
+
+  // ---- Notifications (mirrors api/index.ts for prod) ----
+  app.get("/api/notifications", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      res.json(
+        await listNotifications(supabase, req.user.id, {
+          limit: req.query.limit,
+          before: req.query.before,
+          unreadOnly: req.query.unread === "true",
+        })
+      );
+    } catch (error) {
+      res.status(500).json({ error: "Server error" });
+    }
+  });
+
+  app.patch("/api/notifications", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const { ids, error: bodyError } = parseMarkReadBody(req.body);
+    if (bodyError) return res.status(400).json({ error: bodyError });
+    try {
+      res.json({ unreadCount: await markNotificationsRead(supabase, req.user.id, ids!) });
+    } catch (error) {
+      res.status(500).json({ error: "Server error" });
+    }
+  });
+
+  // ---- Bookmarks (mirrors api/index.ts for prod) ----
+  app.get("/api/user/bookmarks", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      res.json(await listBookmarks(supabase, req.user.id));
+    } catch (error) {
+      res.status(500).json({ error: "Server error" });
+    }
+  });
+
+  app.post("/api/user/bookmarks", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const articleId = Number(req.body?.articleId);
+    if (!Number.isInteger(articleId) || articleId <= 0) {
+      return res.status(400).json({ error: "articleId must be a positive integer" });
+    }
+    const { note, error: noteError } = parseBookmarkNote(req.body?.note);
+    if (noteError) return res.status(400).json({ error: noteError });
+    try {
+      const bookmark = await saveBookmark(supabase, req.user.id, articleId, note);
+      if (!bookmark) return res.status(404).json({ error: "Article not found" });
+      res.json(bookmark);
+    } catch (error) {
+      res.status(500).json({ error: "Server error" });
+    }
+  });
+
+  app.delete("/api/user/bookmarks/:articleId", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const articleId = Number(req.params.articleId);
+    if (!Number.isInteger(articleId) || articleId <= 0) {
+      return res.status(400).json({ error: "Invalid article ID" });
+    }
+    try {
+      const removed = await removeBookmark(supabase, req.user.id, articleId);
+      if (!removed) return res.status(404).json({ error: "Bookmark not found" });
+      res.sendStatus(204);
+    } catch (error) {
+      res.status(500).json({ error: "Server error" });
+    }
+  });
+
+  // ---- For You feed (mirrors api/index.ts for prod) ----
+  app.get("/api/feed/for-you", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      res.json({
+        items: await rankForYouFeed(supabase, req.user.id, parseForYouLimit(req.query.limit)),
+      });
+    } catch (error) {
+      console.error("Error loading For You feed:", error);
+      res.status(500).json({ error: "Server error" });
+    }
+  });
+
+  // ---- Channel analytics (mirrors api/index.ts for prod) ----
+  app.get("/api/channels/:id/analytics", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const channelId = Number(req.params.id);
+    if (!Number.isInteger(channelId) || channelId <= 0) {
+      return res.status(400).json({ error: "Invalid channel ID" });
+    }
+    const { from, to, error: rangeError } = parseAnalyticsRange(req.query);
+    if (rangeError) return res.status(400).json({ error: rangeError });
+    try {
+      const { data: channel } = await supabase
+        .from("channels")
+        .select("id, user_id")
+        .eq("id", channelId)
+        .maybeSingle();
+      if (!channel) return res.status(404).json({ error: "Channel not found" });
+      if (channel.user_id !== req.user.id) {
+        return res.status(403).json({ error: "Only the channel owner can view analytics" });
+      }
+      res.json(await getChannelAnalytics(supabase, channelId, { from: from!, to: to! }));
+    } catch (error) {
+      console.error("Error loading channel analytics:", error);
+      res.status(500).json({ error: "Server error" });
+    }
+  });
+
+  // ---- Article analytics (mirrors api/index.ts for prod) ----
+  app.post("/api/articles/:slug/engagement", async (req, res) => {
+    const { viewId, scrollDepth, timeOnPage, error: engagementError } = parseEngagement(req.body);
+    if (engagementError) return res.status(400).json({ error: engagementError });
+    try {
+      const { data: article } = await supabase
+        .from("articles")
+        .select("id")
+        .eq("slug", req.params.slug)
+        .maybeSingle();
+      if (!article) return res.status(404).json({ error: "Article not found" });
+
+      const viewer = {
+        userId: req.isAuthenticated() ? req.user.id : null,
+        ipHash: viewerIpHash(req.ip),
+      };
+      const recorded = await recordViewEngagement(supabase, article.id, viewId!, viewer, {
+        scrollDepth: scrollDepth!,
+        timeOnPage: timeOnPage!,
+      });
+      if (!recorded) return res.status(404).json({ error: "View not found" });
+      res.sendStatus(204);
+    } catch (error) {
+      console.error("Error recording article engagement:", error);
+      res.status(500).json({ error: "Server error" });
+    }
+  });
+
+  app.get("/api/articles/:id/stats", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const articleId = Number(req.params.id);
+    if (!Number.isInteger(articleId) || articleId <= 0) {
+      return res.status(400).json({ error: "Invalid article ID" });
+    }
+    const { from, to, error: rangeError } = parseAnalyticsRange(req.query);
+    if (rangeError) return res.status(400).json({ error: rangeError });
+    try {
+      const { data: article } = await supabase
+        .from("articles")
+        .select("id, user_id")
+        .eq("id", articleId)
+        .maybeSingle();
+      if (!article) return res.status(404).json({ error: "Article not found" });
+      if (article.user_id !== req.user.id) {
+        return res.status(403).json({ error: "Only the author can view article stats" });
+      }
+      res.json(await getArticleStats(supabase, articleId, { from: from!, to: to! }));
+    } catch (error) {
+      console.error("Error loading article stats:", error);
+      res.status(500).json({ error: "Server error" });
+    }
+  });
+
+  // ---- Channel members (mirrors api/index.ts for prod) ----
+  const parseMemberRouteIds = (req: Request) => {
+    const channelId = Number(req.params.id);
+    const memberId = req.params.userId === undefined ? undefined : Number(req.params.userId);
+    const valid =
+      Number.isInteger(channelId) &&
+      channelId > 0 &&
+      (memberId === undefined || (Number.isInteger(memberId) && memberId > 0));
+    return { channelId, memberId: memberId as number, valid };
+  };
+
+  app.get("/api/channels/:id/members", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const { channelId, valid } = parseMemberRouteIds(req);
+    if (!valid) return res.status(400).json({ error: "Invalid channel ID" });
+    try {
+      if (!(await getChannelRole(supabase, channelId, req.user.id))) {
+        return res.status(403).json({ error: "Only channel members can see the member list" });
+      }
+      res.json(await listChannelMembers(supabase, channelId));
+    } catch (error) {
+      res.status(500).json({ error: "Server error" });
+    }
+  });
+
+  app.post("/api/channels/:id/members", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const { channelId, valid } = parseMemberRouteIds(req);
+    if (!valid) return res.status(400).json({ error: "Invalid channel ID" });
+    const username = typeof req.body?.username === "string" ? req.body.username.trim() : "";
+    const role = parseMemberRole(req.body?.role);
+    if (!username) return res.status(400).json({ error: "username is required" });
+    if (!role) return res.status(400).json({ error: "role must be editor or contributor" });
+    try {
+      if ((await getChannelRole(supabase, channelId, req.user.id)) !== "owner") {
+        return res.status(403).json({ error: "Only the channel owner can invite members" });
+      }
+      const result = await inviteChannelMember(supabase, channelId, req.user.id, username, role);
+      if (result.error) return res.status(result.status || 400).json({ error: result.error });
+      res.status(201).json(result.member);
+    } catch (error) {
+      res.status(500).json({ error: "Server error" });
+    }
+  });
+
+  app.post("/api/channels/:id/members/accept", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const { channelId, valid } = parseMemberRouteIds(req);
+    if (!valid) return res.status(400).json({ error: "Invalid channel ID" });
+    try {
+      const member = await acceptChannelInvitation(supabase, channelId, req.user.id);
+      if (!member) return res.status(404).json({ error: "No pending invitation" });
+      res.json(member);
+    } catch (error) {
+      res.status(500).json({ error: "Server error" });
+    }
+  });
+
+  app.patch("/api/channels/:id/members/:userId", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const { channelId, memberId, valid } = parseMemberRouteIds(req);
+    if (!valid) return res.status(400).json({ error: "Invalid channel or user ID" });
+    const role = parseMemberRole(req.body?.role);
+    if (!role) return res.status(400).json({ error: "role must be editor or contributor" });
+    try {
+      if ((await getChannelRole(supabase, channelId, req.user.id)) !== "owner") {
+        return res.status(403).json({ error: "Only the channel owner can change roles" });
+      }
+      const member = await updateChannelMemberRole(supabase, channelId, memberId, role);
+      if (!member) return res.status(404).json({ error: "Member not found" });
+      res.json(member);
+    } catch (error) {
+      res.status(500).json({ error: "Server error" });
+    }
+  });
+
+  app.delete("/api/channels/:id/members/:userId", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const { channelId, memberId, valid } = parseMemberRouteIds(req);
+    if (!valid) return res.status(400).json({ error: "Invalid channel or user ID" });
+    try {
+      if (
+        memberId !== req.user.id &&
+        (await getChannelRole(supabase, channelId, req.user.id)) !== "owner"
+      ) {
+        return res.status(403).json({ error: "Only the channel owner can remove members" });
+      }
+      const removed = await removeChannelMember(supabase, channelId, memberId);
+      if (!removed) return res.status(404).json({ error: "Member not found" });
+      res.sendStatus(204);
+    } catch (error) {
+      res.status(500).json({ error: "Server error" });
+    }
+  });
+
+  app.get("/api/user/channel-memberships", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      res.json(await listUserChannelMemberships(supabase, req.user.id));
+    } catch (error) {
+      res.status(500).json({ error: "Server error" });
+    }
+  });
+
+  // --- API Access Management (admin-only) ---
+
+  // Helper: check if the current session user is admin
+  async function isDevAdmin(req: Request): Promise<boolean> {
+    if (!req.isAuthenticated()) return false;
+    const userId = (req.user as any).id;
+    const { data: dbUser } = await supabase
+      .from("users")
+      .select("supabase_uid")
+      .eq("id", userId)
+      .maybeSingle();
+    if (!dbUser?.supabase_uid) return false;
+    const { data: admin } = await supabase
+      .from("admin_users")
+      .select("user_id")
+      .eq("user_id", dbUser.supabase_uid)
+      .maybeSingle();
+    return !!admin;
+  }
+
+  // Helper: get Supabase UUID for the current dev session user
+  async function getDevSupabaseUid(req: Request): Promise<string | null> {
+    if (!req.isAuthenticated()) return null;
+    const userId = (req.user as any).id;
+    const { data } = await supabase
+      .from("users")
+      .select("supabase_uid")
+      .eq("id", userId)
+      .maybeSingle();
+    return data?.supabase_uid || null;
+  }
+
+  app.get("/api/v1/api-access-users", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    if (!(await isDevAdmin(req))) return res.status(403).json({ error: "Admin access required" });
+
+    const { data: grants } = await supabase
+      .from("api_access_users")
+      .select("user_id, created_at, granted_by")
+      .order("created_at", { ascending: false });
+
+    const results = [];
+    for (const grant of grants || []) {
+      const { data: authUser } = await supabase
+        .from("users")
         .select("id, username")
         .eq("supabase_uid", grant.user_id)
         .maybeSingle();
@@ -1319,6 +2508,36 @@ export async function registerRoutes(app: Express): Promise<void> {
     return res.json(results);
   });
 
+  // Usage across every API key (mirrors api/index.ts)
+  app.get("/api/v1/admin/api-usage", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    if (!(await isDevAdmin(req))) return res.status(403).json({ error: "Admin access required" });
+
+    const { data: keys, error } = await supabase
+      .from("api_keys")
+      .select("id, key_prefix, name, is_revoked, last_used_at, user:user_id(id, username)");
+    if (error) return res.status(500).json({ error: "Failed to load API usage" });
+
+    const usage = await loadApiKeyUsage(supabase, keys.map((k: any) => k.id));
+    const results = keys
+      .map((k: any) => ({
+        id: k.id,
+        prefix: k.key_prefix,
+        name: k.name,
+        username: k.user?.username || "Unknown",
+        isRevoked: k.is_revoked,
+        lastUsedAt: k.last_used_at,
+        usage: usage.get(k.id)!,
+      }))
+      .filter((k) => !k.isRevoked || k.usage.requestsLast7Days > 0)
+      .sort(
+        (a, b) =>
+          b.usage.requestsToday - a.usage.requestsToday ||
+          b.usage.requestsLast7Days - a.usage.requestsLast7Days
+      );
+    return res.json({ limits: API_RATE_LIMITS, keys: results });
+  });
+
   app.post("/api/v1/api-access-users", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     if (!(await isDevAdmin(req))) return res.status(403).json({ error: "Admin access required" });
@@ -1369,60 +2588,141 @@ export async function registerRoutes(app: Express): Promise<void> {
     return res.json({ message: "API access revoked" });
   });
 
+  // Admins search users; channel owners search for people to invite
   app.get("/api/users/search", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
-    if (!(await isDevAdmin(req))) return res.status(403).json({ error: "Admin access required" });
+    try {
+      if (!(await isDevAdmin(req)) && !(await ownsAnyChannel(supabase, req.user.id))) {
+        return res.status(403).json({ error: "Admin or channel owner access required" });
+      }
 
-    const q = ((req.query.q as string) || "").trim();
-    if (!q) return res.json([]);
+      const q = ((req.query.q as string) || "").trim();
+      if (!q) return res.json([]);
 
-    const { data: users } = await supabase
-      .from("users")
-      .select("id, username")
-      .ilike("username", `%${q}%`)
-      .limit(10);
+      const { data: users } = await supabase
+        .from("users")
+        .select("id, username")
+        .ilike("username", `%${q}%`)
+        .limit(10);
 
-    return res.json(users || []);
+      return res.json(users || []);
+    } catch (error) {
+      console.error("Error searching users:", error);
+      res.status(500).json({ error: "Server error" });
+    }
   });
 
   // --- Content API Endpoints ---
 
-  // Helper: create a single article (shared by single and batch endpoints)
-  async function createSingleArticleDev(articleData: any, userId: number): Promise<any> {
+  // Errors from the content helpers carry a code and, where one is to blame,
+  // the request field (batch results report both; mirrors api/index.ts)
+  const contentError = (message: string, code: string, field?: string, status?: number) =>
+    Object.assign(new Error(message), { code, field, status }) as Error & Record<string, any>;
+
+  // Validate an article for creation and render its content without writing
+  async function prepareSingleArticleDev(
+    articleData: any,
+    userId: number,
+    access: ApiAccess = FULL_API_ACCESS,
+    options: { skipDuplicateCheck?: boolean; checkReferences?: boolean } = {}
+  ) {
     const {
       title, content, contentFormat = "markdown", channelId,
       categoryIds = [], location, locationLat, locationLng,
-      published = true, images = [],
-    } = articleData;
-
-    if (!title?.trim()) throw new Error("Title is required");
-    if (!content?.trim()) throw new Error("Content is required");
-    if (!channelId) throw new Error("channelId is required");
-    if (categoryIds.length > 3) throw new Error("Maximum 3 categories allowed");
-    if (images.length > 5) throw new Error("Maximum 5 images allowed");
+      published = true, images = [], liveStatus = null,
+    } = articleData || {};
+
+    if (typeof title !== "string" || !title.trim()) throw contentError("Title is required", "required", "title");
+    if (typeof content !== "string" || !content.trim()) throw contentError("Content is required", "required", "content");
+    if (!channelId) throw contentError("channelId is required", "required", "channelId");
+    if (!isLiveStatus(liveStatus)) throw contentError("liveStatus must be live, ended or null", "invalid", "liveStatus");
+    if (!Array.isArray(categoryIds)) throw contentError("categoryIds must be an array", "invalid", "categoryIds");
+    if (!Array.isArray(images)) throw contentError("images must be an array", "invalid", "images");
+    if (categoryIds.length > 3) throw contentError("Maximum 3 categories allowed", "too_many", "categoryIds");
+    if (images.length > 5) throw contentError("Maximum 5 images allowed", "too_many", "images");
+    if (images.length > 0 && !access.scopes.includes("images:write")) {
+      throw contentError("Not authorized: API key is missing the images:write scope", "missing_scope", "images");
+    }
 
-    const htmlContent = normalizeContent(content, contentFormat);
+    // Render to HTML, then strip anything outside the sanitizer's allow-list
+    const { html: htmlContent, removed: sanitized } = sanitizeArticleHtml(
+      normalizeContent(content, contentFormat)
+    );
 
-    // Verify channel ownership
+    // Verify the caller writes for the channel
     const { data: channel } = await supabase
       .from("channels").select("id, user_id").eq("id", channelId).single();
-    if (!channel) throw new Error("Channel not found");
-    if (channel.user_id !== userId) throw new Error("Not authorized for this channel");
+    if (!channel) throw contentError("Channel not found", "not_found", "channelId");
+    const role = await getChannelRole(supabase, channel.id, userId);
+    if (!role) throw contentError("Not authorized for this channel", "forbidden", "channelId");
+    if (!canAccessChannel(access, channel.id)) {
+      throw contentError("Not authorized: API key is restricted to other channels", "channel_restricted", "channelId");
+    }
 
-    // Duplicate check
-    const oneDayAgo = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
-    const { data: existing } = await supabase
-      .from("articles").select("id").eq("channel_id", channelId)
-      .eq("title", title.trim()).gte("created_at", oneDayAgo);
-    if (existing && existing.length > 0) {
-      const err: any = new Error(`Duplicate: "${title}" already published in last 24h`);
-      err.status = 409;
-      err.existingArticleId = existing[0].id;
-      throw err;
+    // Duplicate check (an Idempotency-Key replaces it)
+    if (!options.skipDuplicateCheck) {
+      const oneDayAgo = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+      const { data: existing } = await supabase
+        .from("articles").select("id").eq("channel_id", channelId)
+        .eq("title", title.trim()).gte("created_at", oneDayAgo);
+      if (existing && existing.length > 0) {
+        const err = contentError(`Duplicate: "${title}" already published in last 24h`, "duplicate", "title", 409);
+        err.existingArticleId = existing[0].id;
+        throw err;
+      }
+    }
+
+    if (options.checkReferences) {
+      if (categoryIds.length > 0) {
+        const { data: found } = await supabase.from("categories").select("id").in("id", categoryIds);
+        const foundIds = new Set((found || []).map((c: any) => c.id));
+        const missing = categoryIds.findIndex((id: any) => !foundIds.has(Number(id)));
+        if (missing !== -1) {
+          throw contentError(`Category ${categoryIds[missing]} not found`, "not_found", `categoryIds[${missing}]`);
+        }
+      }
+      images.forEach((image: any, i: number) => {
+        let protocol = "";
+        try { protocol = new URL(image?.url).protocol; } catch {}
+        if (protocol !== "http:" && protocol !== "https:") {
+          throw contentError(`Image ${i + 1} needs an http(s) url`, "invalid", `images[${i}].url`);
+        }
+      });
     }
 
+    return {
+      title: title.trim(), htmlContent, sanitized, channelId, categoryIds, images,
+      // Contributors' articles wait as drafts for an editor
+      published: published && canPublishInChannel(role),
+      location, locationLat, locationLng, liveStatus,
+    };
+  }
+
+  // Undo an article created moments ago, including its uploaded images
+  async function removeCreatedArticleDev(articleId: number) {
+    await storage.deleteArticle(articleId).catch((err) =>
+      console.error(`Error removing article ${articleId}:`, err)
+    );
+    const { data: files } = await supabase.storage
+      .from("article-images").list("", { search: `api_${articleId}_` });
+    const paths = (files || []).map((f) => f.name).filter((n) => n.startsWith(`api_${articleId}_`));
+    if (paths.length > 0) await supabase.storage.from("article-images").remove(paths);
+  }
+
+  // Insert a prepared article; strictImages fails (and removes it) when an
+  // image can't be fetched, deferWebhooks leaves article.published to the caller
+  async function insertPreparedArticleDev(
+    prepared: Awaited<ReturnType<typeof prepareSingleArticleDev>>,
+    userId: number,
+    options: { strictImages?: boolean; deferWebhooks?: boolean } = {}
+  ) {
+    const {
+      title, htmlContent, sanitized, channelId, categoryIds, images, published,
+      location, locationLat, locationLng, liveStatus,
+    } = prepared;
+
     // Generate slug with collision handling
-    const baseSlug = title.trim().toLowerCase().replace(/[^a-z0-9]+/g, "-")
+    const baseSlug = title.toLowerCase().replace(/[^a-z0-9]+/g, "-")
       .replace(/^-+|-+$/g, "").substring(0, 60);
     const d = new Date();
     const dateStr = `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
@@ -1435,11 +2735,12 @@ export async function registerRoutes(app: Express): Promise<void> {
     }
 
     const articleRecord: any = {
-      title: title.trim(), content: htmlContent, channel_id: channelId,
+      title, content: htmlContent, channel_id: channelId,
       user_id: userId, category: "", slug: fullSlug, published,
       status: published ? "published" : "draft", view_count: 0,
       location: location || null, location_name: location || null,
       location_lat: locationLat || null, location_lng: locationLng || null,
+      live_status: liveStatus,
     };
     if (locationLat && locationLng) {
       articleRecord.geom = `SRID=4326;POINT(${locationLng} ${locationLat})`;
@@ -1447,67 +2748,199 @@ export async function registerRoutes(app: Express): Promise<void> {
 
     const { data: article, error: createError } = await supabase
       .from("articles").insert([articleRecord]).select().single();
-    if (createError || !article) throw new Error(`Failed to create article: ${createError?.message}`);
-
-    // Categories
-    const categoryResults = [];
-    for (let i = 0; i < categoryIds.length; i++) {
-      const { error: catError } = await supabase.from("article_categories").insert([{
-        article_id: article.id, category_id: categoryIds[i], is_primary: i === 0,
-      }]);
-      if (!catError) categoryResults.push(categoryIds[i]);
-    }
-    if (categoryIds.length > 0) {
-      const { data: catData } = await supabase.from("categories").select("name").eq("id", categoryIds[0]).single();
-      if (catData) await supabase.from("articles").update({ category: catData.name }).eq("id", article.id);
+    if (createError || !article) {
+      throw contentError(`Failed to create article: ${createError?.message}`, "create_failed");
     }
 
-    // Images
-    const processedImages = [];
-    for (let i = 0; i < images.length; i++) {
-      const result = await downloadAndUploadImage(images[i], article.id, i, supabase);
-      if (result) {
-        const { data: imgRecord } = await supabase.from("article_images").insert([{
-          article_id: article.id, image_url: result.imageUrl, caption: result.caption, order: result.order,
-        }]).select().single();
-        if (imgRecord) processedImages.push(imgRecord);
+    const categoryResults: number[] = [];
+    const processedImages: any[] = [];
+    try {
+      // Categories
+      for (let i = 0; i < categoryIds.length; i++) {
+        const { error: catError } = await supabase.from("article_categories").insert([{
+          article_id: article.id, category_id: categoryIds[i], is_primary: i === 0,
+        }]);
+        if (!catError) categoryResults.push(categoryIds[i]);
+      }
+      if (categoryIds.length > 0) {
+        const { data: catData } = await supabase.from("categories").select("name").eq("id", categoryIds[0]).single();
+        if (catData) await supabase.from("articles").update({ category: catData.name }).eq("id", article.id);
       }
+
+      // Images
+      for (let i = 0; i < images.length; i++) {
+        const result = await downloadAndUploadImage(images[i], article.id, i, supabase);
+        if (!result && options.strictImages) {
+          throw contentError(`Image ${i + 1} could not be downloaded`, "image_failed", `images[${i}].url`);
+        }
+        if (result) {
+          const { data: imgRecord } = await supabase.from("article_images").insert([{
+            article_id: article.id, image_url: result.imageUrl, caption: result.caption, order: result.order,
+          }]).select().single();
+          if (imgRecord) processedImages.push(imgRecord);
+        }
+      }
+    } catch (error) {
+      await removeCreatedArticleDev(article.id);
+      throw error;
+    }
+
+    if (article.published && !options.deferWebhooks) {
+      await emitArticleWebhookEvent(supabase, userId, "article.published", webhookArticleData(article));
+      await notifyArticlePublished(supabase, article);
     }
 
     return {
-      id: article.id, title: article.title, slug: article.slug,
-      channelId: article.channel_id, status: article.status,
-      published: article.published, createdAt: article.created_at,
-      url: `/articles/${article.id}/${article.slug}`,
-      images: processedImages, categories: categoryResults,
+      article,
+      result: {
+        id: article.id, title: article.title, slug: article.slug,
+        channelId: article.channel_id, status: article.status,
+        published: article.published, createdAt: article.created_at,
+        url: `/articles/${article.id}/${article.slug}`,
+        liveStatus: article.live_status ?? null,
+        images: processedImages, categories: categoryResults,
+        sanitized,
+      },
     };
   }
 
+  // Helper: create a single article (shared by single and batch endpoints)
+  async function createSingleArticleDev(
+    articleData: any,
+    userId: number,
+    access: ApiAccess = FULL_API_ACCESS,
+    options: { skipDuplicateCheck?: boolean } = {}
+  ): Promise<any> {
+    const prepared = await prepareSingleArticleDev(articleData, userId, access, options);
+    return (await insertPreparedArticleDev(prepared, userId)).result;
+  }
+
+  const batchItemFailure = (index: number, item: any, error: any) => ({
+    index, status: "failed", title: item?.title || "Unknown",
+    error: error.message, code: error.code || "invalid", field: error.field || null,
+  });
+
+  // Batch import: dryRun validates and renders only; atomic validates all
+  // items first and deletes what it created if a later insert fails
+  async function runArticleBatchDev(
+    articles: any[],
+    userId: number,
+    access: ApiAccess,
+    options: { dryRun?: boolean; atomic?: boolean; skipDuplicateCheck?: boolean }
+  ): Promise<any[]> {
+    const results: any[] = [];
+
+    if (!options.dryRun && !options.atomic) {
+      for (let i = 0; i < articles.length; i++) {
+        try {
+          const result = await createSingleArticleDev(articles[i], userId, access, {
+            skipDuplicateCheck: options.skipDuplicateCheck,
+          });
+          results.push({ index: i, status: "created", title: result.title, article: result });
+        } catch (err: any) {
+          results.push(batchItemFailure(i, articles[i], err));
+        }
+      }
+      return results;
+    }
+
+    const prepared: any[] = [];
+    const seen = new Set<string>();
+    for (let i = 0; i < articles.length; i++) {
+      try {
+        const item = await prepareSingleArticleDev(articles[i], userId, access, {
+          skipDuplicateCheck: options.skipDuplicateCheck,
+          checkReferences: true,
+        });
+        const seenKey = `${item.channelId}:${item.title}`;
+        if (!options.skipDuplicateCheck && seen.has(seenKey)) {
+          throw contentError(`Duplicate: "${item.title}" appears more than once in this batch`, "duplicate", "title", 409);
+        }
+        seen.add(seenKey);
+        prepared[i] = item;
+        results.push({
+          index: i, status: "valid", title: item.title, channelId: item.channelId,
+          html: item.htmlContent, sanitized: item.sanitized,
+        });
+      } catch (err: any) {
+        results.push(batchItemFailure(i, articles[i], err));
+      }
+    }
+    if (options.dryRun) return results;
+
+    const skipped = (i: number) => ({ index: i, status: "skipped", title: results[i].title });
+    if (results.some((r) => r.status === "failed")) {
+      return results.map((r, i) => (r.status === "failed" ? r : skipped(i)));
+    }
+
+    const inserted: any[] = [];
+    for (let i = 0; i < prepared.length; i++) {
+      try {
+        const { article, result } = await insertPreparedArticleDev(prepared[i], userId, {
+          strictImages: true,
+          deferWebhooks: true,
+        });
+        inserted.push(article);
+        results[i] = { index: i, status: "created", title: result.title, article: result };
+      } catch (err: any) {
+        for (const article of inserted) await removeCreatedArticleDev(article.id);
+        const failure = batchItemFailure(i, articles[i], err);
+        return results.map((r, j) =>
+          j < i ? { index: j, status: "rolled_back", title: r.title } : j === i ? failure : skipped(j)
+        );
+      }
+    }
+
+    for (const article of inserted) {
+      if (article.published) {
+        await emitArticleWebhookEvent(supabase, userId, "article.published", webhookArticleData(article));
+        await notifyArticlePublished(supabase, article);
+      }
+    }
+    return results;
+  }
+
   // Create single article
   app.post("/api/v1/content/articles", async (req, res) => {
+    let idempotent: IdempotentRequest | undefined;
     try {
-      const { userId, error: authError } = await authenticateDevRequest(req);
+      const { userId, access, error: authError, status: authStatus } =
+        await authenticateDevRequest(req, res, { route: "articles.create", scope: "articles:write" });
       if (authError || !userId) {
-        return res.status(401).json({ error: authError || "Authentication required" });
+        return res.status(authStatus || 401).json({ error: authError || "Authentication required" });
       }
-      const result = await createSingleArticleDev(req.body, userId);
+      const idem = await beginIdempotentRequest(
+        supabase, userId, "articles.create", req.headers["idempotency-key"], req.body, req.query
+      );
+      if (idem.error) return res.status(idem.status!).json({ error: idem.error });
+      if (idem.replay) return sendIdempotentReplay(res, idem.replay);
+      idempotent = idem.request;
+
+      const result = await createSingleArticleDev(req.body, userId, access, {
+        skipDuplicateCheck: !!idempotent,
+      });
+      await completeIdempotentRequest(supabase, idempotent, 201, result);
       return res.status(201).json(result);
     } catch (error: any) {
-      if (error.status === 409) {
-        return res.status(409).json({ error: "Duplicate article detected", message: error.message });
-      }
-      const status = error.message?.includes("Not authorized") ? 403
+      const status = error.status === 409 ? 409
+        : error.message?.includes("Not authorized") ? 403
         : error.message?.includes("not found") ? 404 : 400;
-      return res.status(status).json({ error: error.message });
+      const body = status === 409
+        ? { error: "Duplicate article detected", message: error.message, existingArticleId: error.existingArticleId }
+        : { error: error.message };
+      await completeIdempotentRequest(supabase, idempotent, status, body);
+      return res.status(status).json(body);
     }
   });
 
   // Batch create articles
   app.post("/api/v1/content/articles/batch", async (req, res) => {
+    let idempotent: IdempotentRequest | undefined;
     try {
-      const { userId, error: authError } = await authenticateDevRequest(req);
+      const { userId, access, error: authError, status: authStatus } =
+        await authenticateDevRequest(req, res, { route: "articles.batch", scope: "articles:write" });
       if (authError || !userId) {
-        return res.status(401).json({ error: authError || "Authentication required" });
+        return res.status(authStatus || 401).json({ error: authError || "Authentication required" });
       }
 
       const { articles } = req.body;
@@ -1518,20 +2951,86 @@ export async function registerRoutes(app: Express): Promise<void> {
         return res.status(400).json({ error: "Maximum 10 articles per batch" });
       }
 
-      const created: any[] = [];
-      const failed: any[] = [];
-      for (let i = 0; i < articles.length; i++) {
-        try {
-          const result = await createSingleArticleDev(articles[i], userId);
-          created.push({ index: i, ...result });
-        } catch (err: any) {
-          failed.push({ index: i, title: articles[i]?.title || "Unknown", error: err.message });
-        }
+      const dryRun = req.query.dryRun === "true" || req.body.dryRun === true;
+      const atomic = req.query.atomic === "true" || req.body.atomic === true;
+
+      if (!dryRun) {
+        const idem = await beginIdempotentRequest(
+          supabase, userId, "articles.batch", req.headers["idempotency-key"], req.body, req.query
+        );
+        if (idem.error) return res.status(idem.status!).json({ error: idem.error });
+        if (idem.replay) return sendIdempotentReplay(res, idem.replay);
+        idempotent = idem.request;
       }
 
-      return res.status(201).json({
-        created, failed,
-        summary: { total: articles.length, succeeded: created.length, failed: failed.length },
+      const results = await runArticleBatchDev(articles, userId, access!, {
+        dryRun, atomic, skipDuplicateCheck: !!idempotent,
+      });
+      const count = (status: string) => results.filter((r) => r.status === status).length;
+      const failed = results.filter((r) => r.status === "failed").map(({ status, ...r }) => r);
+
+      const response = {
+        dryRun, atomic, results,
+        created: results.filter((r) => r.status === "created").map((r) => ({ index: r.index, ...r.article })),
+        failed,
+        summary: {
+          total: articles.length,
+          succeeded: count(dryRun ? "valid" : "created"),
+          failed: failed.length,
+          rolledBack: count("rolled_back"),
+          skipped: count("skipped"),
+        },
+      };
+      const status = dryRun ? 200 : atomic && failed.length > 0 ? 400 : 201;
+      await completeIdempotentRequest(supabase, idempotent, status, response);
+      return res.status(status).json(response);
+    } catch (error) {
+      await completeIdempotentRequest(supabase, idempotent, 500, null);
+      return res.status(500).json({ error: "Server error" });
+    }
+  });
+
+  // List or search the caller's own articles (mirrors api/index.ts)
+  app.get("/api/v1/content/articles", async (req, res) => {
+    try {
+      const { userId, access, error: authError, status: authStatus } =
+        await authenticateDevRequest(req, res, { route: "content.read", scope: "articles:read" });
+      if (authError || !userId) {
+        return res.status(authStatus || 401).json({ error: authError || "Authentication required" });
+      }
+
+      if (req.query.q !== undefined) {
+        const { params, error: paramsError } = parseSearchParams(req.query);
+        if (!params) return res.status(400).json({ error: paramsError });
+        const { results, total } = await searchArticles(supabase, params, userId, access!.channelIds);
+        return res.json({ articles: results, total, limit: params.limit, offset: params.offset });
+      }
+
+      const limit = Math.min(Math.max(parseInt(String(req.query.limit || "20"), 10) || 20, 1), 50);
+      const offset = Math.max(parseInt(String(req.query.offset || "0"), 10) || 0, 0);
+      let listQuery = supabase
+        .from("articles")
+        .select(
+          "id, title, slug, channel_id, status, published, category, created_at, published_at, live_status",
+          { count: "exact" }
+        )
+        .eq("user_id", userId);
+      if (access!.channelIds) listQuery = listQuery.in("channel_id", access!.channelIds);
+      const { data, count } = await listQuery
+        .order("created_at", { ascending: false })
+        .range(offset, offset + limit - 1);
+
+      return res.json({
+        articles: (data || []).map((a: any) => ({
+          id: a.id, title: a.title, slug: a.slug, channelId: a.channel_id,
+          status: a.status, published: a.published, category: a.category,
+          createdAt: a.created_at, publishedAt: a.published_at,
+          url: `/articles/${a.id}/${a.slug}`,
+          liveStatus: a.live_status ?? null,
+        })),
+        total: count || 0,
+        limit,
+        offset,
       });
     } catch (error) {
       return res.status(500).json({ error: "Server error" });
@@ -1541,9 +3040,10 @@ export async function registerRoutes(app: Express): Promise<void> {
   // Get article details
   app.get("/api/v1/content/articles/:id", async (req, res) => {
     try {
-      const { userId, error: authError } = await authenticateDevRequest(req);
+      const { userId, access, error: authError, status: authStatus } =
+        await authenticateDevRequest(req, res, { route: "content.read", scope: "articles:read" });
       if (authError || !userId) {
-        return res.status(401).json({ error: authError || "Authentication required" });
+        return res.status(authStatus || 401).json({ error: authError || "Authentication required" });
       }
 
       const articleId = req.params.id;
@@ -1553,7 +3053,12 @@ export async function registerRoutes(app: Express): Promise<void> {
 
       const { data: article } = await query.single();
       if (!article) return res.status(404).json({ error: "Article not found" });
-      if (article.user_id !== userId) return res.status(403).json({ error: "Not authorized" });
+      if (!(await getArticleAccess(supabase, article, userId)).canEdit) {
+        return res.status(403).json({ error: "Not authorized" });
+      }
+      if (!canAccessChannel(access!, article.channel_id)) {
+        return res.status(403).json({ error: "API key is restricted to other channels" });
+      }
 
       const { data: channel } = await supabase.from("channels").select("id, name, slug").eq("id", article.channel_id).single();
       const { data: images } = await supabase.from("article_images").select("*").eq("article_id", article.id).order("order");
@@ -1565,6 +3070,7 @@ export async function registerRoutes(app: Express): Promise<void> {
         status: article.status, published: article.published,
         createdAt: article.created_at, viewCount: article.view_count,
         url: `/articles/${article.id}/${article.slug}`,
+        liveStatus: article.live_status ?? null,
         images: images || [], categories: categories || [],
       });
     } catch (error) {
@@ -1572,16 +3078,314 @@ export async function registerRoutes(app: Express): Promise<void> {
     }
   });
 
+  // ---- v1 article updates (mirrors api/index.ts for prod) ----
+  const contentErrorStatus = (error: any): number =>
+    error.status ? error.status
+      : error.message?.includes("Not authorized") ? 403
+      : error.message?.includes("not found") ? 404 : 400;
+
+  async function loadContentArticleDev(
+    idOrSlug: string,
+    userId: number,
+    access: ApiAccess,
+    options: { publishing?: boolean } = {}
+  ) {
+    let query = supabase.from("articles").select("*");
+    query = /^\d+$/.test(idOrSlug) ? query.eq("id", parseInt(idOrSlug)) : query.eq("slug", idOrSlug);
+    const { data: article } = await query.single();
+    if (!article) throw new Error("Article not found");
+    const articleAccess = await getArticleAccess(supabase, article, userId);
+    const allowed = options.publishing
+      ? articleAccess.canPublish
+      : canEditArticle(article, articleAccess);
+    if (!allowed) throw new Error("Not authorized to modify this article");
+    if (!canAccessChannel(access, article.channel_id)) {
+      throw new Error("Not authorized: API key is restricted to other channels");
+    }
+    return article;
+  }
+
+  async function contentArticleResultDev(article: any) {
+    const { data: images } = await supabase.from("article_images").select("*").eq("article_id", article.id).order("order");
+    const { data: categories } = await supabase.from("article_categories").select("category_id, is_primary").eq("article_id", article.id);
+    return {
+      id: article.id, title: article.title, slug: article.slug,
+      channelId: article.channel_id, status: article.status,
+      published: article.published, createdAt: article.created_at,
+      url: `/articles/${article.id}/${article.slug}`,
+      liveStatus: article.live_status ?? null,
+      images: images || [],
+      categories: (categories || [])
+        .sort((a: any, b: any) => Number(b.is_primary) - Number(a.is_primary))
+        .map((c: any) => c.category_id),
+    };
+  }
+
+  // Write the new category links before dropping the old ones so a failed
+  // insert leaves the article's categories untouched.
+  async function replaceCategoriesDev(articleId: number, categoryIds: number[]) {
+    if (categoryIds.some((id) => !Number.isInteger(id))) {
+      throw contentError("categoryIds must be category IDs", "invalid", "categoryIds");
+    }
+    if (categoryIds.length > 0) {
+      const { error } = await supabase.from("article_categories").upsert(
+        categoryIds.map((categoryId, i) => ({ article_id: articleId, category_id: categoryId, is_primary: i === 0 })),
+        { onConflict: "article_id,category_id" }
+      );
+      if (error?.code === "23503") throw contentError("Category not found", "not_found", "categoryIds");
+      if (error) throw contentError(`Failed to update categories: ${error.message}`, "update_failed", "categoryIds", 500);
+    }
+    let stale = supabase.from("article_categories").delete().eq("article_id", articleId);
+    if (categoryIds.length > 0) stale = stale.not("category_id", "in", `(${categoryIds.join(",")})`);
+    const { error: staleError } = await stale;
+    if (staleError) {
+      throw contentError(`Failed to update categories: ${staleError.message}`, "update_failed", "categoryIds", 500);
+    }
+    const { data: catData } = categoryIds.length > 0
+      ? await supabase.from("categories").select("name").eq("id", categoryIds[0]).single()
+      : { data: null };
+    await supabase.from("articles").update({ category: catData?.name || "" }).eq("id", articleId);
+  }
+
+  // Attach every new image before removing the old rows; if one fails, the
+  // ones already attached are removed and the old images stay.
+  async function replaceImagesDev(articleId: number, images: any[]) {
+    const { data: previous, error: previousError } = await supabase
+      .from("article_images").select("id").eq("article_id", articleId);
+    if (previousError) {
+      throw contentError(`Failed to update images: ${previousError.message}`, "update_failed", "images", 500);
+    }
+    const attached: number[] = [];
+    const discardAttached = async () => {
+      if (attached.length) await supabase.from("article_images").delete().in("id", attached);
+    };
+    for (let i = 0; i < images.length; i++) {
+      const result = await downloadAndUploadImage(images[i], articleId, i, supabase);
+      if (!result) {
+        await discardAttached();
+        throw contentError(`Image ${i + 1} could not be downloaded`, "image_failed", `images[${i}].url`);
+      }
+      const { data: imgRecord, error } = await supabase.from("article_images").insert([{
+        article_id: articleId, image_url: result.imageUrl, caption: result.caption, order: result.order,
+      }]).select("id").single();
+      if (error || !imgRecord) {
+        await discardAttached();
+        throw contentError(
+          `Failed to attach image ${i + 1}: ${error?.message || "Unknown error"}`, "update_failed", `images[${i}]`, 500
+        );
+      }
+      attached.push(imgRecord.id);
+    }
+    const previousIds = (previous || []).map((img: any) => img.id);
+    if (previousIds.length > 0) {
+      const { error } = await supabase.from("article_images").delete().in("id", previousIds);
+      if (error) throw contentError(`Failed to remove replaced images: ${error.message}`, "update_failed", "images", 500);
+    }
+  }
+
+  async function updateSingleArticleDev(article: any, articleData: any, userId: number, access: ApiAccess) {
+    const {
+      title, content, contentFormat = "markdown", channelId,
+      categoryIds, location, locationLat, locationLng, images, liveStatus,
+    } = articleData || {};
+    const updates: Record<string, any> = {};
+    let sanitized: SanitizeRemoval[] | undefined;
+
+    if (title !== undefined) {
+      if (typeof title !== "string" || !title.trim()) throw new Error("Title cannot be empty");
+      if (title.trim() !== article.title) {
+        updates.title = title.trim();
+        const baseSlug = title.trim().toLowerCase().replace(/[^a-z0-9]+/g, "-")
+          .replace(/^-+|-+$/g, "").substring(0, 60);
+        const d = new Date();
+        const dateStr = `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+        updates.slug = `${dateStr}-${baseSlug}`;
+        for (let attempt = 0; attempt < 10; attempt++) {
+          const candidate = attempt === 0 ? updates.slug : `${dateStr}-${baseSlug}-${attempt + 1}`;
+          const { data: ex } = await supabase.from("articles").select("id").eq("slug", candidate).single();
+          if (!ex || ex.id === article.id) { updates.slug = candidate; break; }
+        }
+      }
+    }
+    if (content !== undefined) {
+      if (typeof content !== "string" || !content.trim()) throw new Error("Content cannot be empty");
+      ({ html: updates.content, removed: sanitized } = sanitizeArticleHtml(
+        normalizeContent(content, contentFormat)
+      ));
+    }
+    if (categoryIds !== undefined && (!Array.isArray(categoryIds) || categoryIds.length > 3)) {
+      throw new Error("Maximum 3 categories allowed");
+    }
+    if (images !== undefined && (!Array.isArray(images) || images.length > 5)) {
+      throw new Error("Maximum 5 images allowed");
+    }
+    if (images?.length > 0 && !access.scopes.includes("images:write")) {
+      throw new Error("Not authorized: API key is missing the images:write scope");
+    }
+
+    if (channelId !== undefined && channelId !== article.channel_id) {
+      const { data: channel } = await supabase.from("channels").select("id, user_id").eq("id", channelId).single();
+      if (!channel) throw new Error("Channel not found");
+      if (!(await getChannelRole(supabase, channel.id, userId))) {
+        throw new Error("Not authorized for this channel");
+      }
+      if (!canAccessChannel(access, channel.id)) {
+        throw new Error("Not authorized: API key is restricted to other channels");
+      }
+      updates.channel_id = channelId;
+    }
+
+    if (location !== undefined) {
+      updates.location = location || null;
+      updates.location_name = location || null;
+    }
+    if (locationLat !== undefined) updates.location_lat = locationLat;
+    if (locationLng !== undefined) updates.location_lng = locationLng;
+    if (typeof locationLat === "number" && typeof locationLng === "number") {
+      updates.geom = `SRID=4326;POINT(${locationLng} ${locationLat})`;
+    } else if (locationLat === null && locationLng === null) {
+      updates.geom = null;
+    }
+    if (liveStatus !== undefined) {
+      if (!isLiveStatus(liveStatus)) throw new Error("liveStatus must be live, ended or null");
+      updates.live_status = liveStatus;
+    }
+
+    if (Object.keys(updates).length === 0 && categoryIds === undefined && images === undefined) {
+      throw new Error("No fields to update");
+    }
+    updates.last_edited = new Date().toISOString();
+
+    const { data: updated, error: updateError } = await supabase
+      .from("articles").update(updates).eq("id", article.id).select().single();
+    if (updateError || !updated) throw new Error(`Failed to update article: ${updateError?.message}`);
+
+    if (categoryIds !== undefined) await replaceCategoriesDev(article.id, categoryIds);
+    if (images !== undefined) await replaceImagesDev(article.id, images);
+
+    if (updated.title !== article.title || updated.content !== article.content) {
+      await recordArticleRevision(supabase, article, updated, userId, "edit");
+    }
+    await emitArticleWebhookEvent(supabase, userId, "article.updated", webhookArticleData(updated));
+    const result = await contentArticleResultDev(updated);
+    return sanitized ? { ...result, sanitized } : result;
+  }
+
+  async function setContentArticlePublishedDev(article: any, published: boolean, userId: number) {
+    if (article.published === published && article.status !== "scheduled") {
+      return contentArticleResultDev(article);
+    }
+    const updates: Record<string, any> = {
+      published,
+      status: published ? "published" : "draft",
+      last_edited: new Date().toISOString(),
+    };
+    if (published) updates.published_at = new Date().toISOString();
+
+    const { data: updated, error: updateError } = await supabase
+      .from("articles").update(updates).eq("id", article.id).select().single();
+    if (updateError || !updated) throw new Error(`Failed to update article: ${updateError?.message}`);
+
+    await recordArticleRevision(supabase, article, updated, userId, "status");
+    await emitArticleWebhookEvent(
+      supabase,
+      userId,
+      published ? "article.published" : "article.updated",
+      webhookArticleData(updated)
+    );
+    if (published) await notifyArticlePublished(supabase, updated);
+    return contentArticleResultDev(updated);
+  }
+
+  app.patch("/api/v1/content/articles/:id", async (req, res) => {
+    try {
+      const { userId, access, error: authError, status: authStatus } =
+        await authenticateDevRequest(req, res, { route: "articles.update", scope: "articles:write" });
+      if (authError || !userId) {
+        return res.status(authStatus || 401).json({ error: authError || "Authentication required" });
+      }
+      const article = await loadContentArticleDev(req.params.id, userId, access!);
+      return res.json(await updateSingleArticleDev(article, req.body, userId, access!));
+    } catch (error: any) {
+      return res.status(contentErrorStatus(error)).json({ error: error.message });
+    }
+  });
+
+  app.delete("/api/v1/content/articles/:id", async (req, res) => {
+    try {
+      const { userId, access, error: authError, status: authStatus } =
+        await authenticateDevRequest(req, res, { route: "articles.update", scope: "articles:write" });
+      if (authError || !userId) {
+        return res.status(authStatus || 401).json({ error: authError || "Authentication required" });
+      }
+      const article = await loadContentArticleDev(req.params.id, userId, access!);
+      await storage.deleteArticle(article.id);
+      await emitArticleWebhookEvent(supabase, userId, "article.deleted", webhookArticleData(article));
+      return res.json({ message: "Article deleted", id: article.id });
+    } catch (error: any) {
+      return res.status(contentErrorStatus(error)).json({ error: error.message });
+    }
+  });
+
+  const contentPublishHandler = (published: boolean) => async (req: Request, res: Response) => {
+    try {
+      const { userId, access, error: authError, status: authStatus } =
+        await authenticateDevRequest(req, res, { route: "articles.update", scope: "articles:write" });
+      if (authError || !userId) {
+        return res.status(authStatus || 401).json({ error: authError || "Authentication required" });
+      }
+      const article = await loadContentArticleDev(req.params.id, userId, access!, { publishing: published });
+      return res.json(await setContentArticlePublishedDev(article, published, userId));
+    } catch (error: any) {
+      return res.status(contentErrorStatus(error)).json({ error: error.message });
+    }
+  };
+  app.post("/api/v1/content/articles/:id/publish", contentPublishHandler(true));
+  app.post("/api/v1/content/articles/:id/unpublish", contentPublishHandler(false));
+
+  // Append an entry to a live blog
+  app.post("/api/v1/content/articles/:id/updates", async (req, res) => {
+    try {
+      const { userId, access, error: authError, status: authStatus } =
+        await authenticateDevRequest(req, res, { route: "articles.update", scope: "articles:write" });
+      if (authError || !userId) {
+        return res.status(authStatus || 401).json({ error: authError || "Authentication required" });
+      }
+      const article = await loadContentArticleDev(req.params.id, userId, access!);
+      if (article.live_status !== "live") {
+        return res.status(400).json({
+          error: article.live_status === "ended"
+            ? "Live coverage of this article has ended"
+            : "This article is not a live blog",
+        });
+      }
+      const { fields, sanitized, error: inputError } = parseLiveUpdateInput(req.body);
+      if (!fields) return res.status(400).json({ error: inputError });
+
+      const update = await createLiveUpdate(supabase, article.id, userId, fields);
+      return res.status(201).json(sanitized ? { ...update, sanitized } : update);
+    } catch (error: any) {
+      return res.status(contentErrorStatus(error)).json({ error: error.message });
+    }
+  });
+
   // List user's channels
   app.get("/api/v1/content/channels", async (req, res) => {
     try {
-      const { userId, error: authError } = await authenticateDevRequest(req);
+      const { userId, access, error: authError, status: authStatus } =
+        await authenticateDevRequest(req, res, { route: "content.read", scope: "channels:read" });
       if (authError || !userId) {
-        return res.status(401).json({ error: authError || "Authentication required" });
+        return res.status(authStatus || 401).json({ error: authError || "Authentication required" });
       }
 
-      const { data: channels } = await supabase
+      let channelsQuery = supabase
         .from("channels").select("*").eq("user_id", userId).order("created_at", { ascending: false });
+      if (access!.channelIds) channelsQuery = channelsQuery.in("id", access!.channelIds);
+      if (req.query.q) {
+        const matches = await searchChannels(supabase, String(req.query.q), 50, userId);
+        channelsQuery = channelsQuery.in("id", matches.map((c) => c.id));
+      }
+      const { data: channels } = await channelsQuery;
 
       const enriched = await Promise.all(
         (channels || []).map(async (ch: any) => {
@@ -1606,9 +3410,14 @@ export async function registerRoutes(app: Express): Promise<void> {
   // List categories (hierarchical)
   app.get("/api/v1/content/categories", async (req, res) => {
     try {
-      const { userId, error: authError } = await authenticateDevRequest(req);
+      const { userId, error: authError, status: authStatus } =
+        await authenticateDevRequest(req, res, { route: "content.read" });
       if (authError || !userId) {
-        return res.status(401).json({ error: authError || "Authentication required" });
+        return res.status(authStatus || 401).json({ error: authError || "Authentication required" });
+      }
+
+      if (req.query.q) {
+        return res.json(await searchCategories(supabase, String(req.query.q), 50));
       }
 
       const { data: categories } = await supabase.from("categories").select("*").order("name");
@@ -1633,6 +3442,41 @@ export async function registerRoutes(app: Express): Promise<void> {
     }
   });
 
+  // OpenAPI spec for /api/v1. Prod serves the build-time copy instead (see
+  // scripts/generate-openapi.ts).
+  app.get("/api/v1/openapi.json", (_req, res) => {
+    res.json(buildOpenApiSpec());
+  });
+
+  // ---- Site search (mirrors api/index.ts for prod) ----
+  app.get("/api/search", async (req, res) => {
+    try {
+      const { params, error: paramsError } = parseSearchParams(req.query);
+      if (!params) return res.status(400).json({ error: paramsError });
+
+      const wants = (type: string) => params.type === "all" || params.type === type;
+      const sideLimit = params.type === "all" ? 5 : params.limit;
+      const [articles, channels, categories] = await Promise.all([
+        wants("articles")
+          ? searchArticles(supabase, params)
+          : Promise.resolve({ results: [], total: 0 }),
+        wants("channels") ? searchChannels(supabase, params.q, sideLimit) : Promise.resolve([]),
+        wants("categories") ? searchCategories(supabase, params.q, sideLimit) : Promise.resolve([]),
+      ]);
+
+      res.json({
+        query: params.q,
+        articles: articles.results,
+        totalArticles: articles.total,
+        channels,
+        categories,
+      });
+    } catch (error) {
+      console.error("Error in GET /api/search:", error);
+      res.status(500).json({ error: "Search failed" });
+    }
+  });
+
   // ---- Homepage algorithm settings (mirrors api/index.ts for prod) ----
   const mapHomepageSettingsRow = (row: any) => {
     const defaults = {
@@ -1660,8 +3504,9 @@ export async function registerRoutes(app: Express): Promise<void> {
       "most_read_all_time",
       "manual",
       "manual_sponsored",
+      "trending",
     ];
-    const MOST_READ_WINDOWS = ["24h", "7d", "30d", "all"];
+    const MOST_READ_WINDOWS = ["24h", "7d", "30d", "all", "trending"];
     if (body.heroMode !== undefined && !HERO_MODES.includes(body.heroMode))
       return "Invalid heroMode";
     if (
@@ -1769,24 +3614,72 @@ export async function registerRoutes(app: Express): Promise<void> {
       .replace(/>/g, "&gt;")
       .replace(/"/g, "&quot;")
       .replace(/'/g, "&apos;");
-  const rssItemXml = (a: any): string => {
-    const link = `${SITE_BASE}/articles/${a.id}${a.slug ? `/${a.slug}` : ""}`;
-    const desc = String(a.content || "")
+  const RSS_ARTICLE_SELECT =
+    "id, slug, title, content, category, created_at, published_at, live_status";
+  const RSS_MAX_ITEMS = 50;
+  const RSS_LIVE_UPDATES = 5;
+  const rssText = (html: any, length: number): string =>
+    String(html || "")
       .replace(/<[^>]+>/g, " ")
       .replace(/\s+/g, " ")
       .trim()
-      .slice(0, 300);
+      .slice(0, length);
+  const rssItemXml = (a: any): string => {
+    const link = `${SITE_BASE}/articles/${a.id}${a.slug ? `/${a.slug}` : ""}`;
+    const desc = rssText(a.content, 300);
     const pub = a.published_at || a.created_at;
     return `<item><title>${xmlEscape(a.title)}</title><link>${xmlEscape(link)}</link><guid isPermaLink="true">${xmlEscape(link)}</guid>${
       pub ? `<pubDate>${new Date(pub).toUTCString()}</pubDate>` : ""
     }${a.category ? `<category>${xmlEscape(a.category)}</category>` : ""}<description>${xmlEscape(desc)}</description></item>`;
   };
+  const rssLiveUpdateItemXml = (a: any, u: any): string => {
+    const link = `${SITE_BASE}/articles/${a.id}${a.slug ? `/${a.slug}` : ""}#update-${u.id}`;
+    const desc = rssText(u.content, 300);
+    const title = `${a.title}: ${u.title || rssText(u.content, 80) || "Update"}`;
+    return `<item><title>${xmlEscape(title)}</title><link>${xmlEscape(link)}</link><guid isPermaLink="true">${xmlEscape(link)}</guid><pubDate>${new Date(
+      u.createdAt
+    ).toUTCString()}</pubDate>${a.category ? `<category>${xmlEscape(a.category)}</category>` : ""}<description>${xmlEscape(desc)}</description></item>`;
+  };
+  // The feed's articles plus the latest entries of its running live blogs
+  const rssItemsXml = async (articles: any[], channelId?: number): Promise<string> => {
+    let liveQuery = supabase
+      .from("articles")
+      .select(RSS_ARTICLE_SELECT)
+      .eq("published", true)
+      .eq("live_status", "live")
+      .limit(10);
+    if (channelId) liveQuery = liveQuery.eq("channel_id", channelId);
+    const { data: running } = await liveQuery;
+
+    const liveBlogs = new Map<number, any>();
+    for (const a of [...articles, ...(running || [])]) {
+      if (a.live_status) liveBlogs.set(a.id, a);
+    }
+    const updates = await listLatestLiveUpdates(
+      supabase,
+      Array.from(liveBlogs.keys()),
+      RSS_LIVE_UPDATES
+    );
+
+    const items = articles.map((a) => ({ date: a.published_at || a.created_at, xml: rssItemXml(a) }));
+    updates.forEach((entries, articleId) => {
+      for (const u of entries) {
+        items.push({ date: u.createdAt, xml: rssLiveUpdateItemXml(liveBlogs.get(articleId), u) });
+      }
+    });
+    return items
+      .sort((x, y) => new Date(y.date || 0).getTime() - new Date(x.date || 0).getTime())
+      .slice(0, RSS_MAX_ITEMS)
+      .map((item) => item.xml)
+      .join("");
+  };
   const rssFeedXml = (title: string, link: string, description: string, items: string): string =>
     `<?xml version="1.0" encoding="UTF-8"?>
 <rss version="2.0"><channel><title>${xmlEscape(title)}</title><link>${xmlEscape(link)}</link><description>${xmlEscape(description)}</description><language>en</language>${items}</channel></rss>`;
 
   app.get("/sitemap.xml", async (req, res) => {
     try {
+      await promoteDueScheduledArticlesThrottled(supabase);
       const { data: articles } = await supabase
         .from("articles")
         .select("id, slug, created_at, last_edited")
@@ -1824,17 +3717,18 @@ export async function registerRoutes(app: Express): Promise<void> {
 
   app.get("/rss.xml", async (req, res) => {
     try {
+      await promoteDueScheduledArticlesThrottled(supabase);
       const { data: articles } = await supabase
         .from("articles")
-        .select("id, slug, title, content, category, created_at, published_at")
+        .select(RSS_ARTICLE_SELECT)
         .eq("published", true)
-        .order("created_at", { ascending: false })
-        .limit(50);
+        .order("published_at", { ascending: false, nullsFirst: false })
+        .limit(RSS_MAX_ITEMS);
       const xml = rssFeedXml(
         "NewsPlatform",
         SITE_BASE,
         "Today's top stories from independent channels on NewsPlatform.",
-        (articles || []).map(rssItemXml).join("")
+        await rssItemsXml(articles || [])
       );
       res.setHeader("Content-Type", "application/rss+xml");
       res.status(200).send(xml);
@@ -1855,18 +3749,19 @@ export async function registerRoutes(app: Express): Promise<void> {
         .eq("id", channelId)
         .maybeSingle();
       if (!channel) return res.status(404).end();
+      await promoteDueScheduledArticlesThrottled(supabase);
       const { data: articles } = await supabase
         .from("articles")
-        .select("id, slug, title, content, category, created_at, published_at")
+        .select(RSS_ARTICLE_SELECT)
         .eq("channel_id", channelId)
         .eq("published", true)
-        .order("created_at", { ascending: false })
-        .limit(50);
+        .order("published_at", { ascending: false, nullsFirst: false })
+        .limit(RSS_MAX_ITEMS);
       const xml = rssFeedXml(
         `${channel.name} — NewsPlatform`,
         `${SITE_BASE}/channels/${channel.id}`,
         channel.description || `Latest articles from ${channel.name} on NewsPlatform.`,
-        (articles || []).map(rssItemXml).join("")
+        await rssItemsXml(articles || [], channelId)
       );
       res.setHeader("Content-Type", "application/rss+xml");
       res.status(200).send(xml);
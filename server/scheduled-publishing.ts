@@ -0,0 +1,80 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+import { emitArticleWebhookEvent, webhookArticleData } from "./webhooks";
+import { notifyArticlePublished } from "./notifications";
+
+/**
+ * Scheduled publishing helpers.
+ * A scheduled article has status "scheduled", published=false and a future
+ * published_at. promoteDueScheduledArticles() flips due ones live; it runs
+ * from the cron endpoint and, throttled, before feeds and the sitemap render
+ * so a missed cron tick never delays a story for long.
+ *
+ * IMPORTANT: an identical inlined copy lives in api/index.ts (which must stay
+ * self-contained). Keep the two in sync.
+ */
+
+const PROMOTION_THROTTLE_MS = 60 * 1000; // 1 minute
+let lastPromotionRun = 0;
+
+/**
+ * Validate a requested publish time. Returns the parsed date, or an error
+ * message if it's unparseable or not in the future.
+ */
+export function parseScheduledFor(value: unknown): {
+  date?: Date;
+  error?: string;
+} {
+  if (typeof value !== "string" && typeof value !== "number") {
+    return { error: "scheduledFor must be an ISO 8601 date string" };
+  }
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    return { error: "scheduledFor must be an ISO 8601 date string" };
+  }
+  if (date.getTime() <= Date.now()) {
+    return { error: "scheduledFor must be in the future" };
+  }
+  return { date };
+}
+
+/**
+ * Publish every scheduled article whose published_at has passed.
+ * Returns the promoted articles (empty on error).
+ */
+export async function promoteDueScheduledArticles(
+  supabase: SupabaseClient
+): Promise<any[]> {
+  lastPromotionRun = Date.now();
+  const { data, error } = await supabase
+    .from("articles")
+    .update({ status: "published", published: true })
+    .eq("status", "scheduled")
+    .lte("published_at", new Date().toISOString())
+    .select("id, title, slug, channel_id, user_id, status, published, published_at");
+
+  if (error) {
+    console.error("Error promoting scheduled articles:", error);
+    return [];
+  }
+  if (data && data.length > 0) {
+    console.log(
+      `Promoted ${data.length} scheduled article(s):`,
+      data.map((a) => a.id).join(", ")
+    );
+    await Promise.all(
+      data.map(async (a) => {
+        await emitArticleWebhookEvent(supabase, a.user_id, "article.published", webhookArticleData(a));
+        await notifyArticlePublished(supabase, a);
+      })
+    );
+  }
+  return data || [];
+}
+
+/** Like promoteDueScheduledArticles, but at most once a minute per instance. */
+export async function promoteDueScheduledArticlesThrottled(
+  supabase: SupabaseClient
+): Promise<void> {
+  if (Date.now() - lastPromotionRun < PROMOTION_THROTTLE_MS) return;
+  await promoteDueScheduledArticles(supabase);
+}
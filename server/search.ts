@@ -0,0 +1,199 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * Site search helpers.
+ * Articles are ranked by the search_articles() Postgres function (weighted
+ * tsvector over title, [!SUMMARY] callout and HTML-stripped body, with
+ * <mark>-highlighted snippets). Channels and categories are small enough to
+ * match with ilike. Used by GET /api/search and the /api/v1/content lookups.
+ *
+ * IMPORTANT: an identical inlined copy lives in api/index.ts (which must stay
+ * self-contained). Keep the two in sync.
+ */
+
+export const SEARCH_TYPES = ["all", "articles", "channels", "categories"];
+const MAX_SEARCH_LIMIT = 50;
+
+export interface SearchParams {
+  q: string;
+  type: string;
+  categoryId: number | null;
+  categoryName: string | null;
+  location: string | null;
+  from: string | null;
+  to: string | null;
+  limit: number;
+  offset: number;
+}
+
+/**
+ * Validate search query-string params. Returns an error message for bad
+ * input, else the normalised params.
+ */
+export function parseSearchParams(query: Record<string, any>): {
+  params?: SearchParams;
+  error?: string;
+} {
+  const q = String(query.q || "").trim();
+  if (q.length < 2) return { error: "Search query must be at least 2 characters" };
+  if (q.length > 200) return { error: "Search query is too long" };
+
+  const type = String(query.type || "all");
+  if (!SEARCH_TYPES.includes(type)) return { error: "Invalid type" };
+
+  const category = query.category ? String(query.category).trim() : "";
+  const isCategoryId = /^\d+$/.test(category);
+
+  const dates: Record<"from" | "to", string | null> = { from: null, to: null };
+  for (const key of ["from", "to"] as const) {
+    if (!query[key]) continue;
+    const d = new Date(String(query[key]));
+    if (isNaN(d.getTime())) return { error: `Invalid ${key} date` };
+    // A bare YYYY-MM-DD "to" date should include that whole day
+    if (key === "to" && /^\d{4}-\d{2}-\d{2}$/.test(String(query.to))) {
+      d.setUTCHours(23, 59, 59, 999);
+    }
+    dates[key] = d.toISOString();
+  }
+
+  const limit = Math.min(
+    Math.max(parseInt(String(query.limit || "20"), 10) || 20, 1),
+    MAX_SEARCH_LIMIT
+  );
+  const offset = Math.max(parseInt(String(query.offset || "0"), 10) || 0, 0);
+
+  return {
+    params: {
+      q,
+      type,
+      categoryId: category && isCategoryId ? parseInt(category, 10) : null,
+      categoryName: category && !isCategoryId ? category : null,
+      location: query.location ? String(query.location).trim() : null,
+      from: dates.from,
+      to: dates.to,
+      limit,
+      offset,
+    },
+  };
+}
+
+// Characters that are wildcards in LIKE or separators in PostgREST or() filters
+function toIlikeTerm(q: string): string {
+  return q.replace(/[%_,()*\\]/g, " ").trim();
+}
+
+/**
+ * Ranked article search. Pass ownerId to search that user's own articles
+ * (drafts and scheduled included) instead of the public published set, and
+ * channelFilter to only search those channels.
+ */
+export async function searchArticles(
+  supabase: SupabaseClient,
+  params: SearchParams,
+  ownerId: number | null = null,
+  channelFilter: number[] | null = null
+): Promise<{ results: any[]; total: number }> {
+  const { data, error } = await supabase.rpc("search_articles", {
+    search_query: params.q,
+    category_id_filter: params.categoryId,
+    category_name_filter: params.categoryName,
+    location_filter: params.location,
+    from_date: params.from,
+    to_date: params.to,
+    owner_filter: ownerId,
+    channel_filter: channelFilter,
+    result_limit: params.limit,
+    result_offset: params.offset,
+  });
+
+  if (error) {
+    console.error("Error in search_articles:", error);
+    throw new Error("Search failed");
+  }
+
+  const rows = data || [];
+  const channelIds = Array.from(new Set(rows.map((r: any) => r.channel_id)));
+  const { data: channels } = channelIds.length
+    ? await supabase
+        .from("channels")
+        .select("id, name, slug")
+        .in("id", channelIds)
+    : { data: [] as any[] };
+  const channelMap = new Map((channels || []).map((c: any) => [c.id, c]));
+
+  return {
+    total: rows.length ? Number(rows[0].total_count) : 0,
+    results: rows.map((r: any) => ({
+      id: r.id,
+      title: r.title,
+      slug: r.slug,
+      titleHighlight: r.title_highlight,
+      snippet: r.snippet,
+      category: r.category,
+      locationName: r.location_name,
+      status: r.status,
+      publishedAt: r.published_at,
+      createdAt: r.created_at,
+      rank: r.rank,
+      channel: channelMap.get(r.channel_id) || null,
+      url: `/articles/${r.id}${r.slug ? `/${r.slug}` : ""}`,
+    })),
+  };
+}
+
+/** Channels whose name or description contains the query. */
+export async function searchChannels(
+  supabase: SupabaseClient,
+  q: string,
+  limit: number,
+  ownerId: number | null = null
+): Promise<any[]> {
+  const term = toIlikeTerm(q);
+  if (!term) return [];
+  let query = supabase
+    .from("channels")
+    .select("id, name, slug, description, category, profile_image")
+    .or(`name.ilike.%${term}%,description.ilike.%${term}%`)
+    .order("name")
+    .limit(limit);
+  if (ownerId !== null) query = query.eq("user_id", ownerId);
+
+  const { data, error } = await query;
+  if (error) {
+    console.error("Error searching channels:", error);
+    throw new Error("Search failed");
+  }
+  return (data || []).map((c: any) => ({
+    id: c.id,
+    name: c.name,
+    slug: c.slug,
+    description: c.description,
+    category: c.category,
+    profileImage: c.profile_image,
+  }));
+}
+
+/** Categories whose name contains the query. */
+export async function searchCategories(
+  supabase: SupabaseClient,
+  q: string,
+  limit: number
+): Promise<any[]> {
+  const term = toIlikeTerm(q);
+  if (!term) return [];
+  const { data, error } = await supabase
+    .from("categories")
+    .select("id, name, parent_id")
+    .ilike("name", `%${term}%`)
+    .order("name")
+    .limit(limit);
+  if (error) {
+    console.error("Error searching categories:", error);
+    throw new Error("Search failed");
+  }
+  return (data || []).map((c: any) => ({
+    id: c.id,
+    name: c.name,
+    parentId: c.parent_id,
+  }));
+}
@@ -0,0 +1,70 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * Trending articles by view velocity.
+ * The trending_articles SQL function scores published articles from their
+ * article_views timestamps: views in the last TRENDING_WINDOW_HOURS, each
+ * decayed by age with a TRENDING_HALF_LIFE_HOURS half-life and expressed as
+ * views per hour, then boosted by net likes. Unlike the fixed most-read
+ * window, a story taking off right now beats one that has been steady all
+ * week. Backs GET /api/articles/trending and the homepage's "trending" hero
+ * and most-read options.
+ *
+ * IMPORTANT: an identical inlined copy lives in api/index.ts (which must stay
+ * self-contained). Keep the two in sync.
+ */
+
+const TRENDING_WINDOW_HOURS = 48;
+const TRENDING_HALF_LIFE_HOURS = 6;
+const TRENDING_REACTION_BOOST = 0.25;
+const TRENDING_PAGE_SIZE = 20;
+const TRENDING_MAX_PAGE_SIZE = 50;
+
+/** Parse the ?limit= query param */
+export function parseTrendingLimit(value: unknown): number {
+  return Math.min(
+    Math.max(parseInt(String(value ?? ""), 10) || TRENDING_PAGE_SIZE, 1),
+    TRENDING_MAX_PAGE_SIZE
+  );
+}
+
+/** Trending articles, hottest first, with their scores and channel */
+export async function listTrendingArticles(
+  supabase: SupabaseClient,
+  limit: number = TRENDING_PAGE_SIZE
+) {
+  const { data: scores, error } = await supabase.rpc("trending_articles", {
+    window_hours: TRENDING_WINDOW_HOURS,
+    half_life_hours: TRENDING_HALF_LIFE_HOURS,
+    reaction_boost: TRENDING_REACTION_BOOST,
+    result_limit: limit,
+  });
+  if (error) throw error;
+  if (!scores || scores.length === 0) return [];
+
+  const { data: articles, error: articlesError } = await supabase
+    .from("articles")
+    .select("id, title, slug, view_count, published_at, created_at, channel:channel_id(id, name, slug)")
+    .in("id", scores.map((s: any) => s.article_id));
+  if (articlesError) throw articlesError;
+  const articleMap = new Map((articles || []).map((a: any) => [a.id, a]));
+
+  return scores
+    .filter((s: any) => articleMap.has(s.article_id))
+    .map((s: any) => {
+      const article: any = articleMap.get(s.article_id);
+      return {
+        id: article.id,
+        title: article.title,
+        slug: article.slug,
+        channel: article.channel ?? null,
+        publishedAt: article.published_at ?? article.created_at,
+        viewCount: article.view_count || 0,
+        trendingScore: Number(Number(s.score).toPrecision(4)),
+        viewsPerHour: Number(Number(s.views_per_hour).toFixed(2)),
+        recentViews: Number(s.recent_views),
+        likes: Number(s.likes),
+        dislikes: Number(s.dislikes),
+      };
+    });
+}
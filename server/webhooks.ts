@@ -0,0 +1,431 @@
+import { createHmac, randomBytes, randomUUID } from "crypto";
+import { lookup } from "dns/promises";
+import { BlockList, isIP, isIPv4 } from "net";
+import { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * Webhooks for Content API consumers.
+ * Subscriptions hang off an API key and list the events they want. When an
+ * event fires for a user's content, a delivery row is written per matching
+ * subscription and attempted straight away; failures are retried with
+ * backoff by the deliver-webhooks cron.
+ *
+ * Each POST carries:
+ *   X-NewsPlatform-Event:     the event name
+ *   X-NewsPlatform-Delivery:  the delivery id (stable across retries)
+ *   X-NewsPlatform-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">
+ *
+ * Subscription URLs must point at the public internet: private, loopback and
+ * link-local (cloud metadata) addresses are refused when a subscription is
+ * saved and again before every delivery, and redirects are not followed.
+ *
+ * IMPORTANT: an identical inlined copy lives in api/index.ts (which must stay
+ * self-contained). Keep the two in sync.
+ */
+
+export const WEBHOOK_EVENTS = [
+  "article.published",
+  "article.updated",
+  "article.deleted",
+  "comment.created",
+  "channel.subscribed",
+];
+
+const WEBHOOK_SITE_BASE = "https://www.newsplatform.org"; // for article urls
+const WEBHOOK_TIMEOUT = 5000; // 5 seconds
+// Delay before retry N (after the first attempt fails); then give up
+const WEBHOOK_RETRY_DELAYS_MS = [
+  60 * 1000, // 1 minute
+  5 * 60 * 1000, // 5 minutes
+  30 * 60 * 1000, // 30 minutes
+  2 * 60 * 60 * 1000, // 2 hours
+  12 * 60 * 60 * 1000, // 12 hours
+];
+// Plain-http localhost subscriptions are allowed outside production
+const WEBHOOK_ALLOW_LOCAL = process.env.NODE_ENV !== "production";
+const LOCAL_WEBHOOK_HOSTS = ["localhost", "127.0.0.1", "::1"];
+
+// Addresses a webhook may never reach: "this" network, RFC 1918, carrier-grade
+// NAT, loopback, link-local, benchmarking, multicast and reserved ranges
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 127], // unspecified and loopback
+  ["fc00::", 7], // unique local
+  ["fe80::", 10], // link-local
+  ["ff00::", 8], // multicast
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+function isPrivateAddress(address: string): boolean {
+  // IPv4-mapped IPv6 (::ffff:10.0.0.1) is checked as the IPv4 address
+  const mapped = address.toLowerCase().match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return PRIVATE_ADDRESSES.check(mapped[1], "ipv4");
+  return PRIVATE_ADDRESSES.check(address, isIPv4(address) ? "ipv4" : "ipv6");
+}
+
+/** Generate a signing secret: whsec_ + 48 hex chars */
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString("hex")}`;
+}
+
+/** Signature header value for a payload body sent at `timestamp` (unix seconds) */
+export function signWebhookPayload(
+  secret: string,
+  timestamp: number,
+  body: string
+): string {
+  const mac = createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+  return `t=${timestamp},v1=${mac}`;
+}
+
+/**
+ * Validate a subscription URL. Returns an error message or null.
+ * Plain http is only accepted for localhost, and only when allowInsecure.
+ */
+export function validateWebhookUrl(
+  url: unknown,
+  allowInsecure: boolean
+): string | null {
+  if (typeof url !== "string" || !url.trim()) return "url is required";
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return "url must be a valid URL";
+  }
+  if (parsed.protocol === "https:") return null;
+  const isLocal = ["localhost", "127.0.0.1", "[::1]"].includes(parsed.hostname);
+  if (parsed.protocol === "http:" && isLocal && allowInsecure) return null;
+  return "url must use https";
+}
+
+/**
+ * Check where a subscription URL leads. Returns an error message when its
+ * host is, or resolves to, a private or local address, else null. Local
+ * hosts pass when allowInsecure, as in validateWebhookUrl.
+ */
+export async function webhookDestinationError(
+  url: string,
+  allowInsecure: boolean
+): Promise<string | null> {
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname.replace(/^\[|\]$/g, "");
+  } catch {
+    return "url must be a valid URL";
+  }
+  if (allowInsecure && LOCAL_WEBHOOK_HOSTS.includes(hostname)) return null;
+
+  let addresses: string[];
+  if (isIP(hostname)) {
+    addresses = [hostname];
+  } else {
+    try {
+      addresses = (await lookup(hostname, { all: true })).map((a) => a.address);
+    } catch {
+      return "url host could not be resolved";
+    }
+  }
+  if (addresses.some(isPrivateAddress)) {
+    return "url must not point to a private or local address";
+  }
+  return null;
+}
+
+/** Validate an events list. Returns an error message or null. */
+export function validateWebhookEvents(events: unknown): string | null {
+  if (!Array.isArray(events) || events.length === 0) {
+    return "events must be a non-empty array";
+  }
+  const unknown = events.filter((e) => !WEBHOOK_EVENTS.includes(e));
+  if (unknown.length > 0) return `Unknown events: ${unknown.join(", ")}`;
+  return null;
+}
+
+/** Shape a subscription row for API responses (never includes the secret) */
+export function mapWebhookRow(row: any) {
+  return {
+    id: row.id,
+    apiKeyId: row.api_key_id,
+    url: row.url,
+    events: row.events,
+    isActive: row.is_active,
+    secretPrefix: row.secret ? row.secret.substring(0, 12) : null,
+    createdAt: row.created_at,
+  };
+}
+
+/** Shape a delivery row for the delivery log */
+export function mapWebhookDeliveryRow(row: any) {
+  return {
+    id: row.id,
+    event: row.event,
+    status: row.status,
+    attempts: row.attempts,
+    nextAttemptAt: row.next_attempt_at,
+    lastStatusCode: row.last_status_code,
+    lastError: row.last_error,
+    createdAt: row.created_at,
+    deliveredAt: row.delivered_at,
+    payload: row.payload,
+  };
+}
+
+/**
+ * POST one delivery and record the outcome. Returns true on a 2xx.
+ */
+export async function attemptWebhookDelivery(
+  supabase: SupabaseClient,
+  delivery: any,
+  subscription: { url: string; secret: string }
+): Promise<boolean> {
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const attempts = (delivery.attempts || 0) + 1;
+  let statusCode: number | null = null;
+  // DNS may have changed since the subscription was saved
+  let errorMessage = await webhookDestinationError(subscription.url, WEBHOOK_ALLOW_LOCAL);
+
+  if (errorMessage === null) {
+    try {
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), WEBHOOK_TIMEOUT);
+      const response = await fetch(subscription.url, {
+        method: "POST",
+        redirect: "manual",
+        signal: controller.signal,
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "NewsPlatform-Webhooks/1.0",
+          "X-NewsPlatform-Event": delivery.event,
+          "X-NewsPlatform-Delivery": delivery.id,
+          "X-NewsPlatform-Signature": signWebhookPayload(
+            subscription.secret,
+            timestamp,
+            body
+          ),
+        },
+        body,
+      });
+      clearTimeout(timeoutId);
+      statusCode = response.status;
+      if (!response.ok) errorMessage = `HTTP ${response.status}`;
+    } catch (error: any) {
+      errorMessage =
+        error?.name === "AbortError" ? "Timed out" : error?.message || "Request failed";
+    }
+  }
+
+  const succeeded = errorMessage === null;
+  const retryDelay = WEBHOOK_RETRY_DELAYS_MS[attempts - 1];
+  const update: Record<string, any> = {
+    attempts,
+    last_status_code: statusCode,
+    last_error: errorMessage,
+  };
+  if (succeeded) {
+    update.status = "succeeded";
+    update.delivered_at = new Date().toISOString();
+    update.next_attempt_at = null;
+  } else if (retryDelay !== undefined) {
+    update.status = "pending";
+    update.next_attempt_at = new Date(Date.now() + retryDelay).toISOString();
+  } else {
+    update.status = "failed";
+    update.next_attempt_at = null;
+  }
+
+  const { error } = await supabase
+    .from("webhook_deliveries")
+    .update(update)
+    .eq("id", delivery.id);
+  if (error) {
+    console.error(`Error recording webhook delivery ${delivery.id}:`, error);
+  }
+  return succeeded;
+}
+
+/**
+ * Fan an event out to every active subscription the content owner has for it.
+ * Never throws — webhook trouble must not fail the request that caused it.
+ */
+export async function emitWebhookEvent(
+  supabase: SupabaseClient,
+  ownerUserId: number,
+  event: string,
+  data: Record<string, any>
+): Promise<void> {
+  try {
+    const { data: subscriptions, error } = await supabase
+      .from("webhook_subscriptions")
+      .select("id, url, secret, api_key:api_key_id(is_revoked, expires_at, channel_ids)")
+      .eq("user_id", ownerUserId)
+      .eq("is_active", true)
+      .contains("events", [event]);
+
+    if (error) {
+      console.error("Error loading webhook subscriptions:", error);
+      return;
+    }
+
+    // Keys that were revoked or expired stop receiving events, and
+    // channel-restricted keys only hear about their own channels
+    const live = (subscriptions || []).filter((s: any) => {
+      const key = s.api_key;
+      if (!key || key.is_revoked) return false;
+      if (key.expires_at && new Date(key.expires_at) <= new Date()) return false;
+      if (!key.channel_ids?.length || !data.channelId) return true;
+      return key.channel_ids.includes(data.channelId);
+    });
+    if (live.length === 0) return;
+
+    // The delivery id goes in the payload so receivers can dedupe retries
+    const createdAt = new Date().toISOString();
+    const deliveries = live.map((s: any) => {
+      const id = randomUUID();
+      return {
+        id,
+        subscription_id: s.id,
+        event,
+        payload: { id, event, createdAt, data },
+      };
+    });
+
+    const { error: insertError } = await supabase
+      .from("webhook_deliveries")
+      .insert(deliveries);
+    if (insertError) {
+      console.error("Error creating webhook deliveries:", insertError);
+      return;
+    }
+
+    await Promise.all(
+      deliveries.map((delivery, i) =>
+        attemptWebhookDelivery(supabase, delivery, live[i])
+      )
+    );
+  } catch (error) {
+    console.error(`Error emitting webhook event ${event}:`, error);
+  }
+}
+
+/**
+ * Send a "ping" event to one subscription so its owner can check their
+ * receiver. Goes through the delivery log like any other event.
+ */
+export async function sendWebhookPing(
+  supabase: SupabaseClient,
+  subscription: any
+): Promise<any> {
+  const id = randomUUID();
+  const delivery = {
+    id,
+    subscription_id: subscription.id,
+    event: "ping",
+    payload: {
+      id,
+      event: "ping",
+      createdAt: new Date().toISOString(),
+      data: { subscriptionId: subscription.id, events: subscription.events },
+    },
+  };
+  const { error } = await supabase.from("webhook_deliveries").insert([delivery]);
+  if (error) throw new Error("Failed to create test delivery");
+
+  await attemptWebhookDelivery(supabase, delivery, subscription);
+  const { data } = await supabase
+    .from("webhook_deliveries")
+    .select("*")
+    .eq("id", id)
+    .single();
+  return data;
+}
+
+/** Retry pending deliveries whose backoff has elapsed (run from cron). */
+export async function retryDueWebhookDeliveries(
+  supabase: SupabaseClient
+): Promise<{ attempted: number; succeeded: number }> {
+  const { data: due, error } = await supabase
+    .from("webhook_deliveries")
+    .select("*, subscription:subscription_id(url, secret, is_active)")
+    .eq("status", "pending")
+    .lte("next_attempt_at", new Date().toISOString())
+    .order("next_attempt_at")
+    .limit(50);
+
+  if (error) {
+    console.error("Error loading due webhook deliveries:", error);
+    return { attempted: 0, succeeded: 0 };
+  }
+
+  let succeeded = 0;
+  for (const delivery of due || []) {
+    if (!delivery.subscription?.is_active) {
+      await supabase
+        .from("webhook_deliveries")
+        .update({ status: "failed", next_attempt_at: null, last_error: "Subscription disabled" })
+        .eq("id", delivery.id);
+      continue;
+    }
+    if (await attemptWebhookDelivery(supabase, delivery, delivery.subscription)) {
+      succeeded++;
+    }
+  }
+  return { attempted: (due || []).length, succeeded };
+}
+
+/** The article fields sent with article.* events */
+export function webhookArticleData(article: any) {
+  return {
+    id: article.id,
+    title: article.title,
+    slug: article.slug,
+    channelId: article.channel_id,
+    status: article.status,
+    published: article.published,
+    publishedAt: article.published_at,
+    url: `${WEBHOOK_SITE_BASE}/articles/${article.id}${article.slug ? `/${article.slug}` : ""}`,
+  };
+}
+
+/**
+ * Emit an article.* event to the owner of the article's channel, whoever
+ * made the change — contributors and editors act on the owner's channel, so
+ * the owner's integrations are the ones listening. Articles outside a channel
+ * go to `fallbackUserId` (the author). Never throws.
+ */
+export async function emitArticleWebhookEvent(
+  supabase: SupabaseClient,
+  fallbackUserId: number,
+  event: string,
+  data: ReturnType<typeof webhookArticleData>
+): Promise<void> {
+  let ownerUserId = fallbackUserId;
+  if (data.channelId) {
+    const { data: channel, error } = await supabase
+      .from("channels")
+      .select("user_id")
+      .eq("id", data.channelId)
+      .maybeSingle();
+    if (error) console.error(`Error loading channel ${data.channelId} for webhook:`, error);
+    if (channel?.user_id) ownerUserId = channel.user_id;
+  }
+  await emitWebhookEvent(supabase, ownerUserId, event, data);
+}
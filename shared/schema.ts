@@ -1,4 +1,4 @@
-import { pgTable, serial, text, integer, boolean, timestamp, primaryKey } from "drizzle-orm/pg-core";
+import { pgTable, serial, text, integer, boolean, timestamp, primaryKey, jsonb } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { relations } from "drizzle-orm";
@@ -63,6 +63,19 @@ export const channels = pgTable('channels', {
   adminSubscriberCount: integer('admin_subscriber_count').default(0),
 });
 
+// Everyone who writes for a channel: the owner (channels.userId), editors and
+// contributors. A row with acceptedAt null is a pending invitation.
+export const channelMembers = pgTable('channel_members', {
+  channelId: integer('channel_id').notNull().references(() => channels.id, { onDelete: 'cascade' }),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  role: text('role').notNull(), // 'owner' | 'editor' | 'contributor'
+  invitedBy: integer('invited_by').references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  acceptedAt: timestamp('accepted_at', { withTimezone: true }),
+}, (t) => ({
+  pk: primaryKey({ columns: [t.channelId, t.userId] })
+}));
+
 export const articles = pgTable('articles', {
   id: serial('id').primaryKey(),
   title: text('title').notNull(),
@@ -78,7 +91,9 @@ export const articles = pgTable('articles', {
   status: text('status').notNull().default('published'),
   lastEdited: timestamp('last_edited').defaultNow(),
   publishedAt: timestamp('published_at').defaultNow(),
-  viewCount: integer('view_count').default(0)
+  viewCount: integer('view_count').default(0),
+  // 'live' or 'ended' for a live blog, null for a regular article
+  liveStatus: text('live_status')
 });
 
 export const comments = pgTable('comments', {
@@ -87,7 +102,13 @@ export const comments = pgTable('comments', {
   articleId: integer('article_id').notNull(),
   userId: integer('user_id').notNull(),
   parentId: integer('parent_id'),
-  createdAt: timestamp('created_at').defaultNow()
+  createdAt: timestamp('created_at').defaultNow(),
+  editedAt: timestamp('edited_at', { withTimezone: true }),
+  // Soft delete by the author; replies stay attached
+  deletedAt: timestamp('deleted_at', { withTimezone: true }),
+  // Hidden by the channel owner or an admin
+  hiddenAt: timestamp('hidden_at', { withTimezone: true }),
+  hiddenBy: integer('hidden_by'),
 });
 
 export const reactions = pgTable('reactions', {
@@ -100,7 +121,8 @@ export const reactions = pgTable('reactions', {
 export const subscriptions = pgTable('subscriptions', {
   id: serial('id').primaryKey(),
   channelId: integer('channel_id').notNull(),
-  userId: integer('user_id').notNull()
+  userId: integer('user_id').notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow() // null for subscriptions made before it was tracked
 });
 
 export const notes = pgTable('notes', {
@@ -111,6 +133,16 @@ export const notes = pgTable('notes', {
   channelId: integer('channel_id')
 });
 
+// Reader bookmarks (read-later list); noteId is an optional private note
+export const bookmarks = pgTable('bookmarks', {
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  articleId: integer('article_id').notNull().references(() => articles.id, { onDelete: 'cascade' }),
+  noteId: integer('note_id').references(() => notes.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+}, (t) => ({
+  pk: primaryKey({ columns: [t.userId, t.articleId] })
+}));
+
 // Junction tables for many-to-many relationships
 export const articleCategories = pgTable('article_categories', {
   articleId: integer('article_id').notNull().references(() => articles.id, { onDelete: 'cascade' }),
@@ -138,6 +170,109 @@ export const apiKeys = pgTable('api_keys', {
   lastUsedAt: timestamp('last_used_at'),
   isRevoked: boolean('is_revoked').default(false),
   expiresAt: timestamp('expires_at'),
+  scopes: text('scopes').array().notNull(), // articles:write | articles:read | channels:read | images:write
+  channelIds: integer('channel_ids').array(), // null = every channel the owner can write to
+});
+
+// Daily per-key request counter for the v1 API, written by the
+// consume_api_rate_limit() function alongside the key's token buckets.
+export const apiKeyUsage = pgTable('api_key_usage', {
+  apiKeyId: text('api_key_id').notNull().references(() => apiKeys.id, { onDelete: 'cascade' }),
+  day: text('day').notNull(), // UTC date
+  requestCount: integer('request_count').notNull().default(0),
+  throttledCount: integer('throttled_count').notNull().default(0),
+}, (t) => ({
+  pk: primaryKey({ columns: [t.apiKeyId, t.day] })
+}));
+
+// Idempotency-Key claims for the v1 create endpoints. responseStatus stays
+// null while the first request runs; replays get responseBody back.
+export const apiIdempotencyKeys = pgTable('api_idempotency_keys', {
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  route: text('route').notNull(), // articles.create | articles.batch
+  idempotencyKey: text('idempotency_key').notNull(),
+  requestHash: text('request_hash').notNull(),
+  responseStatus: integer('response_status'),
+  responseBody: jsonb('response_body'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (t) => ({
+  pk: primaryKey({ columns: [t.userId, t.route, t.idempotencyKey] })
+}));
+
+// Webhook subscriptions hang off an API key; each delivery attempt is logged
+// in webhook_deliveries and retried with backoff by the deliver-webhooks cron.
+export const webhookSubscriptions = pgTable('webhook_subscriptions', {
+  id: text('id').primaryKey(),
+  apiKeyId: text('api_key_id').notNull().references(() => apiKeys.id, { onDelete: 'cascade' }),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  url: text('url').notNull(),
+  events: text('events').array().notNull(),
+  secret: text('secret').notNull(),
+  isActive: boolean('is_active').notNull().default(true),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+});
+
+export const webhookDeliveries = pgTable('webhook_deliveries', {
+  id: text('id').primaryKey(),
+  subscriptionId: text('subscription_id').notNull().references(() => webhookSubscriptions.id, { onDelete: 'cascade' }),
+  event: text('event').notNull(),
+  payload: jsonb('payload').notNull(),
+  status: text('status').notNull().default('pending'), // pending | succeeded | failed
+  attempts: integer('attempts').notNull().default(0),
+  nextAttemptAt: timestamp('next_attempt_at', { withTimezone: true }),
+  lastStatusCode: integer('last_status_code'),
+  lastError: text('last_error'),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+  deliveredAt: timestamp('delivered_at', { withTimezone: true }),
+});
+
+// Email digest settings, one row per user. The send-digests cron mails
+// daily/weekly users; unsubscribeToken powers the link in every email.
+export const digestPreferences = pgTable('digest_preferences', {
+  userId: integer('user_id').primaryKey().references(() => users.id, { onDelete: 'cascade' }),
+  frequency: text('frequency').notNull().default('off'), // off | daily | weekly
+  unsubscribeToken: text('unsubscribe_token').notNull().unique(),
+  lastSentAt: timestamp('last_sent_at', { withTimezone: true }),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+});
+
+// Up/down votes on comments (value +1 or -1), one per reader per comment
+export const commentVotes = pgTable('comment_votes', {
+  commentId: integer('comment_id').notNull().references(() => comments.id, { onDelete: 'cascade' }),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  value: integer('value').notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+}, (t) => ({
+  pk: primaryKey({ columns: [t.commentId, t.userId] })
+}));
+
+// Reader reports on comments, resolved from the admin moderation queue
+export const commentFlags = pgTable('comment_flags', {
+  id: serial('id').primaryKey(),
+  commentId: integer('comment_id').notNull().references(() => comments.id, { onDelete: 'cascade' }),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  reason: text('reason').notNull(), // spam | harassment | off_topic | other
+  details: text('details'),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  resolvedAt: timestamp('resolved_at', { withTimezone: true }),
+  resolvedBy: integer('resolved_by').references(() => users.id, { onDelete: 'set null' }),
+  resolution: text('resolution'), // approved | removed
+});
+
+// In-app notifications behind the nav bell. dedupeKey (unique per user) stops
+// re-publishes and reaction toggles from notifying someone twice.
+export const notifications = pgTable('notifications', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  type: text('type').notNull(), // comment_reply | article_published | article_reaction
+  actorId: integer('actor_id').references(() => users.id, { onDelete: 'set null' }),
+  articleId: integer('article_id').references(() => articles.id, { onDelete: 'cascade' }),
+  commentId: integer('comment_id').references(() => comments.id, { onDelete: 'cascade' }),
+  channelId: integer('channel_id').references(() => channels.id, { onDelete: 'cascade' }),
+  data: jsonb('data').notNull().default({}),
+  dedupeKey: text('dedupe_key'),
+  readAt: timestamp('read_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
 });
 
 export const articleImages = pgTable('article_images', {
@@ -149,6 +284,22 @@ export const articleImages = pgTable('article_images', {
   createdAt: timestamp('created_at').defaultNow(),
 });
 
+// Append-only article history. A snapshot is written on every edit, status
+// toggle and restore; revision_number is sequential per article.
+export const articleRevisions = pgTable('article_revisions', {
+  id: serial('id').primaryKey(),
+  articleId: integer('article_id').notNull().references(() => articles.id, { onDelete: 'cascade' }),
+  revisionNumber: integer('revision_number').notNull(),
+  title: text('title').notNull(),
+  content: text('content').notNull(),
+  status: text('status'),
+  published: boolean('published'),
+  source: text('source').notNull().default('edit'), // original | edit | status | restore
+  restoredFrom: integer('restored_from'),
+  editedBy: integer('edited_by').references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+});
+
 // Per-view event log. Already exists in Supabase (written on every article
 // view); declared here for type-safety and to document the analytics source.
 export const articleViews = pgTable('article_views', {
@@ -157,16 +308,28 @@ export const articleViews = pgTable('article_views', {
   userId: integer('user_id'),
   clientIdentifier: text('client_identifier'),
   viewedAt: timestamp('viewed_at', { withTimezone: true }).defaultNow(),
+  // Traffic source and device, recorded by the view beacon
+  referrerHost: text('referrer_host'),
+  utmSource: text('utm_source'),
+  utmMedium: text('utm_medium'),
+  utmCampaign: text('utm_campaign'),
+  deviceClass: text('device_class'), // 'mobile' | 'tablet' | 'desktop' | 'bot'
+  // Hash of the reader's IP; only that IP or the view's user may send engagement
+  ipHash: text('ip_hash'),
+  // Read depth, recorded by the engagement beacon (the reader's best read)
+  maxScrollDepth: integer('max_scroll_depth'), // 0-100
+  timeOnPageSeconds: integer('time_on_page_seconds'),
+  engagedAt: timestamp('engaged_at', { withTimezone: true }),
 });
 
 // Single-row (id = 1) homepage algorithm settings, controlled from the admin
 // dashboard and read by the public homepage to drive hero/most-read behaviour.
 export const homepageSettings = pgTable('homepage_settings', {
   id: integer('id').primaryKey().default(1),
-  heroMode: text('hero_mode').notNull().default('recency_most_read'), // recency_most_read | newest | most_read_all_time | manual
+  heroMode: text('hero_mode').notNull().default('recency_most_read'), // recency_most_read | newest | most_read_all_time | manual | manual_sponsored | trending
   heroRecencyHours: integer('hero_recency_hours').notNull().default(24),
   featuredArticleId: integer('featured_article_id').references(() => articles.id, { onDelete: 'set null' }),
-  mostReadWindow: text('most_read_window').notNull().default('7d'), // 24h | 7d | 30d | all
+  mostReadWindow: text('most_read_window').notNull().default('7d'), // 24h | 7d | 30d | all | trending
   showReadingNow: boolean('show_reading_now').notNull().default(true),
   updatedBy: text('updated_by'),
   updatedAt: timestamp('updated_at').defaultNow(),
@@ -203,6 +366,7 @@ export const articlesRelations = relations(articles, ({ one, many }) => ({
   comments: many(comments),
   reactions: many(reactions),
   images: many(articleImages),
+  revisions: many(articleRevisions),
 }));
 
 export const articleImagesRelations = relations(articleImages, ({ one }) => ({
@@ -212,6 +376,13 @@ export const articleImagesRelations = relations(articleImages, ({ one }) => ({
   }),
 }));
 
+export const articleRevisionsRelations = relations(articleRevisions, ({ one }) => ({
+  article: one(articles, {
+    fields: [articleRevisions.articleId],
+    references: [articles.id],
+  }),
+}));
+
 // Create Zod schemas from Drizzle schema
 export const insertUserSchema = createInsertSchema(users);
 export const insertChannelSchema = createInsertSchema(channels);
@@ -220,10 +391,15 @@ export const insertArticleSchema = createInsertSchema(articles).omit({
 }).extend({
   locationId: z.number().optional(),
   categoryId: z.number().optional(),
-  status: z.enum(['draft', 'published']).optional()
+  status: z.enum(['draft', 'published', 'scheduled']).optional(),
+  liveStatus: z.enum(['live', 'ended']).nullable().optional()
 });
 export const insertCommentSchema = createInsertSchema(comments).omit({ 
-  createdAt: true 
+  createdAt: true,
+  editedAt: true,
+  deletedAt: true,
+  hiddenAt: true,
+  hiddenBy: true,
 });
 export const insertReactionSchema = createInsertSchema(reactions);
 export const insertSubscriptionSchema = createInsertSchema(subscriptions);
@@ -234,10 +410,330 @@ export const insertArticleCategorySchema = createInsertSchema(articleCategories)
 export const insertChannelCategorySchema = createInsertSchema(channelCategories);
 export const insertArticleImageSchema = createInsertSchema(articleImages);
 export const insertApiKeySchema = createInsertSchema(apiKeys);
+export const insertArticleRevisionSchema = createInsertSchema(articleRevisions);
+
+// ---- v1 API contract ----
+// Request and response bodies for /api/v1/*. The handlers (api/index.ts and
+// server/routes.ts) validate by hand; these schemas describe the same contract
+// and are what server/openapi.ts turns into the published OpenAPI spec, so
+// change them together with the handlers.
+
+// Keep in sync with API_KEY_SCOPES in server/api-auth.ts
+export const apiKeyScopeSchema = z.enum(['articles:write', 'articles:read', 'channels:read', 'images:write']);
+// Keep in sync with WEBHOOK_EVENTS in server/webhooks.ts
+export const webhookEventSchema = z.enum([
+  'article.published',
+  'article.updated',
+  'article.deleted',
+  'comment.created',
+  'channel.subscribed',
+]);
+
+export const apiErrorSchema = z.object({
+  error: z.string(),
+  message: z.string().optional().describe('Longer explanation (duplicate articles)'),
+  existingArticleId: z.number().int().optional().describe('The article a 409 duplicate collided with'),
+});
+
+export const apiMessageSchema = z.object({
+  message: z.string(),
+});
+
+export const v1ArticleImageInputSchema = z.object({
+  url: z.string().url().describe('External image URL; downloaded and stored on our servers'),
+  caption: z.string().optional(),
+  order: z.number().int().optional(),
+});
+
+// Fields shared by create and update; create adds the defaults
+const v1ArticleFields = z.object({
+  title: insertArticleSchema.shape.title.min(1).describe('Headline'),
+  content: insertArticleSchema.shape.content.min(1).describe('Article body in contentFormat'),
+  contentFormat: z.enum(['markdown', 'html']).describe('Markdown is converted to the web editor HTML'),
+  channelId: insertArticleSchema.shape.channelId.describe('A channel you own'),
+  categoryIds: z.array(z.number().int()).max(3).describe('Up to 3 category IDs'),
+  location: z.string().optional(),
+  locationLat: z.number().optional(),
+  locationLng: z.number().optional(),
+  published: z.boolean().describe('false saves a draft'),
+  images: z.array(v1ArticleImageInputSchema).max(5).describe('Needs the images:write scope'),
+  liveStatus: z.enum(['live', 'ended']).nullable().optional()
+    .describe('"live" makes the article a live blog, "ended" closes its coverage, null makes it a regular article'),
+});
+
+export const v1ArticleCreateSchema = v1ArticleFields.extend({
+  contentFormat: v1ArticleFields.shape.contentFormat.default('markdown'),
+  categoryIds: v1ArticleFields.shape.categoryIds.default([]),
+  published: v1ArticleFields.shape.published.default(true),
+  images: v1ArticleFields.shape.images.default([]),
+});
+
+export const v1ArticleUpdateSchema = v1ArticleFields.omit({ published: true }).partial();
+
+export const v1ArticleBatchSchema = z.object({
+  articles: z.array(v1ArticleCreateSchema).min(1).max(10),
+  dryRun: z.boolean().optional().describe('Validate and render every item without writing anything'),
+  atomic: z.boolean().optional().describe('Create all items or none'),
+});
+
+export const v1ArticleStatusSchema = z.enum(['draft', 'published', 'scheduled']);
+
+export const v1ArticleImageSchema = z.object({
+  id: z.number().int(),
+  article_id: z.number().int(),
+  image_url: z.string(),
+  caption: z.string().nullable(),
+  order: z.number().int(),
+});
+
+// Keep in sync with SanitizeRemoval in server/html-sanitizer.ts
+export const v1SanitizeRemovalSchema = z.object({
+  kind: z.enum(['element', 'attribute', 'url']),
+  name: z.string().describe('Tag name, or tag[attribute], e.g. img[onerror]'),
+  count: z.number().int(),
+});
+
+export const v1ArticleSchema = z.object({
+  id: z.number().int(),
+  title: z.string(),
+  slug: z.string(),
+  channelId: z.number().int(),
+  status: v1ArticleStatusSchema,
+  published: z.boolean(),
+  createdAt: z.string().datetime(),
+  url: z.string().describe('Site-relative article URL'),
+  images: z.array(v1ArticleImageSchema),
+  categories: z.array(z.number().int()),
+  liveStatus: z.enum(['live', 'ended']).nullable().describe('Set on live blogs'),
+  sanitized: z.array(v1SanitizeRemovalSchema).optional()
+    .describe('Markup the sanitizer removed from the content sent (present when content was sent)'),
+});
+
+export const v1ArticleDetailSchema = v1ArticleSchema.omit({ categories: true, sanitized: true }).extend({
+  channelName: z.string().nullable(),
+  viewCount: z.number().int().nullable(),
+  categories: z.array(z.object({
+    category_id: z.number().int(),
+    is_primary: z.boolean().nullable(),
+    categories: z.object({ id: z.number().int(), name: z.string() }).nullable(),
+  })),
+});
+
+export const v1ArticleListItemSchema = v1ArticleSchema.omit({ images: true, categories: true, sanitized: true }).extend({
+  category: z.string().nullable(),
+  publishedAt: z.string().datetime().nullable(),
+});
+
+export const v1ArticleSearchResultSchema = z.object({
+  id: z.number().int(),
+  title: z.string(),
+  slug: z.string().nullable(),
+  titleHighlight: z.string().describe('Title with <mark> around matches'),
+  snippet: z.string().describe('Matching excerpt with <mark> around matches'),
+  category: z.string().nullable(),
+  locationName: z.string().nullable(),
+  status: v1ArticleStatusSchema,
+  publishedAt: z.string().datetime().nullable(),
+  createdAt: z.string().datetime(),
+  rank: z.number(),
+  channel: z.object({ id: z.number().int(), name: z.string(), slug: z.string().nullable() }).nullable(),
+  url: z.string(),
+});
+
+export const v1ArticleListSchema = z.object({
+  articles: z.array(z.union([v1ArticleListItemSchema, v1ArticleSearchResultSchema]))
+    .describe('Search results when q is sent, otherwise newest first'),
+  total: z.number().int(),
+  limit: z.number().int(),
+  offset: z.number().int(),
+});
+
+export const v1BatchItemResultSchema = z.object({
+  index: z.number().int(),
+  status: z.enum(['created', 'valid', 'failed', 'rolled_back', 'skipped']),
+  title: z.string(),
+  article: v1ArticleSchema.optional().describe('status "created"'),
+  html: z.string().optional().describe('Rendered content (dry run)'),
+  sanitized: z.array(v1SanitizeRemovalSchema).optional().describe('Markup removed from the content (dry run)'),
+  error: z.string().optional(),
+  code: z.enum([
+    'required', 'invalid', 'too_many', 'not_found', 'forbidden', 'channel_restricted',
+    'missing_scope', 'duplicate', 'image_failed', 'create_failed',
+  ]).optional(),
+  field: z.string().nullable().optional().describe('The field at fault, e.g. categoryIds[1]'),
+});
+
+export const v1BatchResultSchema = z.object({
+  dryRun: z.boolean(),
+  atomic: z.boolean(),
+  results: z.array(v1BatchItemResultSchema),
+  created: z.array(z.object({
+    index: z.number().int(),
+    id: z.number().int(),
+    title: z.string(),
+    slug: z.string(),
+  })),
+  failed: z.array(v1BatchItemResultSchema.omit({ status: true, article: true, html: true, sanitized: true })),
+  summary: z.object({
+    total: z.number().int(),
+    succeeded: z.number().int(),
+    failed: z.number().int(),
+    rolledBack: z.number().int(),
+    skipped: z.number().int(),
+  }),
+});
+
+// Keep in sync with parseLiveUpdateInput in server/live-blog.ts
+export const v1LiveUpdateCreateSchema = z.object({
+  title: z.string().max(200).nullable().optional().describe('Short headline for the entry'),
+  content: z.string().min(1).describe('Entry body in contentFormat'),
+  contentFormat: z.enum(['markdown', 'html']).optional()
+    .describe('Detected from the content when omitted'),
+  pinned: z.boolean().optional().describe('Keep the entry at the top of the stream'),
+});
+
+export const v1LiveUpdateSchema = z.object({
+  id: z.number().int(),
+  articleId: z.number().int(),
+  title: z.string().nullable(),
+  content: z.string().describe('Sanitized HTML'),
+  pinned: z.boolean(),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime().nullable(),
+  author: z.object({ id: z.number().int(), username: z.string() }).nullable(),
+  sanitized: z.array(v1SanitizeRemovalSchema).optional()
+    .describe('Markup the sanitizer removed from the content sent'),
+});
+
+export const v1DeletedArticleSchema = apiMessageSchema.extend({
+  id: z.number().int(),
+});
+
+export const v1ChannelSchema = z.object({
+  id: z.number().int(),
+  name: z.string(),
+  slug: z.string().nullable(),
+  description: z.string().nullable(),
+  category: z.string().nullable(),
+  articleCount: z.number().int(),
+  subscriberCount: z.number().int(),
+});
+
+export type V1Category = {
+  id: number;
+  name: string;
+  parent_id: number | null;
+  children?: V1Category[];
+};
+
+export const v1CategorySchema: z.ZodType<V1Category> = z.lazy(() => z.object({
+  id: z.number().int(),
+  name: z.string(),
+  parent_id: z.number().int().nullable(),
+  children: z.array(v1CategorySchema).optional().describe('Omitted in ?q= search results'),
+}));
+
+export const apiKeyUsageSchema = z.object({
+  requestsToday: z.number().int(),
+  throttledToday: z.number().int(),
+  requestsLast7Days: z.number().int(),
+});
+
+export const v1ApiKeyCreateSchema = insertApiKeySchema.pick({ name: true }).extend({
+  expiresInDays: z.number().int().positive().nullable().optional().describe('Days until expiry; omit for never'),
+  scopes: z.array(apiKeyScopeSchema).min(1).optional().describe('Defaults to all scopes'),
+  channelIds: z.array(z.number().int()).nullable().optional().describe('Channels you own; null for all'),
+});
+
+export const v1ApiKeySchema = z.object({
+  id: z.string(),
+  prefix: z.string(),
+  name: z.string(),
+  scopes: z.array(apiKeyScopeSchema),
+  channelIds: z.array(z.number().int()).nullable(),
+  createdAt: z.string().datetime(),
+  lastUsedAt: z.string().datetime().nullable(),
+  expiresAt: z.string().datetime().nullable(),
+  isRevoked: z.boolean(),
+  usage: apiKeyUsageSchema,
+});
+
+export const v1CreatedApiKeySchema = v1ApiKeySchema
+  .omit({ lastUsedAt: true, isRevoked: true, usage: true })
+  .extend({ key: z.string().describe('The full key. Only returned once') });
+
+export const v1WebhookCreateSchema = z.object({
+  url: z.string().url().describe('https only (http://localhost in development)'),
+  events: z.array(webhookEventSchema).min(1),
+});
+
+export const v1WebhookUpdateSchema = v1WebhookCreateSchema.partial().extend({
+  isActive: z.boolean().optional().describe('Paused webhooks get no deliveries'),
+});
+
+export const v1WebhookSchema = z.object({
+  id: z.string(),
+  apiKeyId: z.string(),
+  url: z.string(),
+  events: z.array(webhookEventSchema),
+  isActive: z.boolean(),
+  secretPrefix: z.string().nullable(),
+  createdAt: z.string().datetime(),
+});
+
+export const v1CreatedWebhookSchema = v1WebhookSchema.extend({
+  secret: z.string().describe('Signing secret. Only returned once'),
+});
+
+export const v1WebhookDeliverySchema = z.object({
+  id: z.string(),
+  event: z.string(),
+  status: z.enum(['pending', 'succeeded', 'failed']),
+  attempts: z.number().int(),
+  nextAttemptAt: z.string().datetime().nullable(),
+  lastStatusCode: z.number().int().nullable(),
+  lastError: z.string().nullable(),
+  createdAt: z.string().datetime(),
+  deliveredAt: z.string().datetime().nullable(),
+  payload: z.record(z.any()),
+});
+
+export const v1ApiAccessGrantSchema = z.object({
+  username: z.string().min(1),
+});
+
+export const v1ApiAccessUserSchema = z.object({
+  supabaseUid: z.string(),
+  username: z.string(),
+  localUserId: z.number().int().nullable(),
+  grantedAt: z.string().datetime().optional(),
+});
+
+export const v1ApiUsageReportSchema = z.object({
+  limits: z.record(z.object({ capacity: z.number().int(), perMinute: z.number() }))
+    .describe('Token bucket per rate-limit route'),
+  keys: z.array(v1ApiKeySchema.pick({ id: true, prefix: true, name: true, lastUsedAt: true, isRevoked: true, usage: true })
+    .extend({ username: z.string() })),
+});
+
+export const v1EngagementUpdateSchema = z.object({
+  viewCount: z.number().int().min(0).optional(),
+  adminLikeCount: z.number().int().min(0).optional().describe('Added on top of real likes'),
+  adminDislikeCount: z.number().int().min(0).optional().describe('Added on top of real dislikes'),
+});
+
+export const v1EngagementSchema = z.object({
+  id: z.number().int(),
+  title: z.string(),
+  view_count: z.number().int(),
+  admin_like_count: z.number().int(),
+  admin_dislike_count: z.number().int(),
+});
 
 // Export types
 export type User = typeof users.$inferSelect;
 export type Channel = typeof channels.$inferSelect;
+export type ChannelMember = typeof channelMembers.$inferSelect;
 export type Article = typeof articles.$inferSelect;
 export type Comment = typeof comments.$inferSelect;
 export type Reaction = typeof reactions.$inferSelect;
@@ -249,8 +745,14 @@ export type ArticleCategory = typeof articleCategories.$inferSelect;
 export type ChannelCategory = typeof channelCategories.$inferSelect;
 export type ArticleImage = typeof articleImages.$inferSelect;
 export type ApiKey = typeof apiKeys.$inferSelect;
+export type ArticleRevision = typeof articleRevisions.$inferSelect;
 export type ArticleView = typeof articleViews.$inferSelect;
 export type HomepageSettings = typeof homepageSettings.$inferSelect;
+export type DigestPreferences = typeof digestPreferences.$inferSelect;
+export type Bookmark = typeof bookmarks.$inferSelect;
+export type CommentVote = typeof commentVotes.$inferSelect;
+export type CommentFlag = typeof commentFlags.$inferSelect;
+export type Notification = typeof notifications.$inferSelect;
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type InsertChannel = z.infer<typeof insertChannelSchema>;
@@ -265,6 +767,7 @@ export type InsertArticleCategory = z.infer<typeof insertArticleCategorySchema>;
 export type InsertChannelCategory = z.infer<typeof insertChannelCategorySchema>;
 export type InsertArticleImage = z.infer<typeof insertArticleImageSchema>;
 export type InsertApiKey = z.infer<typeof insertApiKeySchema>;
+export type InsertArticleRevision = z.infer<typeof insertArticleRevisionSchema>;
 
 // Database functions for atomic updates
 export const dbFunctions = {
@@ -0,0 +1,29 @@
+-- Article revision history: a snapshot is appended on every edit, status
+-- toggle and restore, so a clobbered story can always be recovered.
+CREATE TABLE IF NOT EXISTS "public"."article_revisions" (
+    "id" serial PRIMARY KEY,
+    "article_id" integer NOT NULL,
+    "revision_number" integer NOT NULL,
+    "title" text NOT NULL,
+    "content" text NOT NULL,
+    "status" text,
+    "published" boolean,
+    "source" text NOT NULL DEFAULT 'edit', -- original | edit | status | restore
+    "restored_from" integer,
+    "edited_by" integer,
+    "created_at" timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT "article_revisions_article_id_fkey" FOREIGN KEY ("article_id")
+        REFERENCES "public"."articles"("id") ON DELETE CASCADE,
+    CONSTRAINT "article_revisions_edited_by_fkey" FOREIGN KEY ("edited_by")
+        REFERENCES "public"."users"("id") ON DELETE SET NULL,
+    CONSTRAINT "article_revisions_article_number_key" UNIQUE ("article_id", "revision_number")
+);
+
+-- Listing an article's history newest-first is the main query path
+CREATE INDEX IF NOT EXISTS "article_revisions_article_id_idx"
+    ON "public"."article_revisions" USING btree ("article_id", "revision_number" DESC);
+
+-- Both backends use the service-role key; keep browsers holding the anon key out.
+ALTER TABLE "public"."article_revisions" ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON TABLE "public"."article_revisions" FROM "anon", "authenticated";
+GRANT ALL ON TABLE "public"."article_revisions" TO "service_role";
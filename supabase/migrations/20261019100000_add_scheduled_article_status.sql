@@ -0,0 +1,10 @@
+-- Scheduled publishing: a 'scheduled' article is unpublished until its
+-- published_at passes, when the scheduler promotes it to 'published'.
+ALTER TABLE "public"."articles" DROP CONSTRAINT IF EXISTS "articles_status_check";
+ALTER TABLE "public"."articles" ADD CONSTRAINT "articles_status_check"
+    CHECK (("status" = ANY (ARRAY['draft'::"text", 'published'::"text", 'unpublished'::"text", 'scheduled'::"text"])));
+
+-- The scheduler polls for due articles every few minutes
+CREATE INDEX IF NOT EXISTS "articles_scheduled_published_at_idx"
+    ON "public"."articles" USING btree ("published_at")
+    WHERE ("status" = 'scheduled'::"text");
@@ -0,0 +1,85 @@
+-- Full-text search over articles, used by GET /api/search and the
+-- /api/v1/content article lookups.
+--
+-- search_vector weights the title (A) over the [!SUMMARY] callout (B) and
+-- the body text (C). Content is stored as HTML, so tags are stripped first.
+ALTER TABLE "public"."articles"
+    ADD COLUMN IF NOT EXISTS "search_vector" tsvector
+    GENERATED ALWAYS AS (
+        setweight(to_tsvector('english'::regconfig, coalesce("title", '')), 'A') ||
+        setweight(to_tsvector('english'::regconfig, regexp_replace(
+            coalesce(substring("content" from '<aside class="callout callout-summary".*?</aside>'), ''),
+            '<[^>]+>', ' ', 'g')), 'B') ||
+        setweight(to_tsvector('english'::regconfig, regexp_replace(
+            coalesce("content", ''), '<[^>]+>', ' ', 'g')), 'C')
+    ) STORED;
+
+CREATE INDEX IF NOT EXISTS "articles_search_vector_idx"
+    ON "public"."articles" USING gin ("search_vector");
+
+-- Ranked search with highlighted snippets (<mark>…</mark>).
+-- Published articles only, unless owner_filter is given, in which case that
+-- user's drafts and scheduled articles are searched too.
+CREATE OR REPLACE FUNCTION "public"."search_articles"(
+    "search_query" text,
+    "category_id_filter" integer DEFAULT NULL,
+    "category_name_filter" text DEFAULT NULL,
+    "location_filter" text DEFAULT NULL,
+    "from_date" timestamp with time zone DEFAULT NULL,
+    "to_date" timestamp with time zone DEFAULT NULL,
+    "owner_filter" integer DEFAULT NULL,
+    "result_limit" integer DEFAULT 20,
+    "result_offset" integer DEFAULT 0
+)
+RETURNS TABLE (
+    "id" integer,
+    "title" text,
+    "slug" text,
+    "channel_id" integer,
+    "user_id" integer,
+    "category" text,
+    "location_name" text,
+    "status" text,
+    "published_at" timestamp with time zone,
+    "created_at" timestamp with time zone,
+    "rank" real,
+    "title_highlight" text,
+    "snippet" text,
+    "total_count" bigint
+)
+LANGUAGE sql STABLE
+AS $$
+    WITH q AS (
+        SELECT websearch_to_tsquery('english'::regconfig, search_query) AS query
+    ), matches AS (
+        SELECT a.*, ts_rank_cd(a.search_vector, q.query) AS rank, q.query
+        FROM public.articles a, q
+        WHERE a.search_vector @@ q.query
+          AND (CASE WHEN owner_filter IS NULL THEN a.published
+                    ELSE a.user_id = owner_filter END)
+          AND (category_id_filter IS NULL OR EXISTS (
+                SELECT 1 FROM public.article_categories ac
+                WHERE ac.article_id = a.id AND ac.category_id = category_id_filter))
+          AND (category_name_filter IS NULL OR lower(a.category) = lower(category_name_filter))
+          AND (location_filter IS NULL
+               OR a.location_name ILIKE '%' || location_filter || '%'
+               OR a.location ILIKE '%' || location_filter || '%')
+          AND (from_date IS NULL OR coalesce(a.published_at, a.created_at) >= from_date)
+          AND (to_date IS NULL OR coalesce(a.published_at, a.created_at) <= to_date)
+    )
+    SELECT m.id, m.title, m.slug, m.channel_id, m.user_id, m.category,
+           m.location_name, m.status, m.published_at, m.created_at, m.rank,
+           ts_headline('english'::regconfig, m.title, m.query,
+               'StartSel=<mark>, StopSel=</mark>, HighlightAll=true'),
+           ts_headline('english'::regconfig,
+               regexp_replace(m.content, '<[^>]+>', ' ', 'g'), m.query,
+               'StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "'),
+           count(*) OVER ()
+    FROM matches m
+    ORDER BY m.rank DESC, coalesce(m.published_at, m.created_at) DESC
+    LIMIT result_limit OFFSET result_offset;
+$$;
+
+-- Only the service-role backends call this
+REVOKE ALL ON FUNCTION "public"."search_articles"(text, integer, text, text, timestamp with time zone, timestamp with time zone, integer, integer, integer) FROM "anon", "authenticated", PUBLIC;
+GRANT EXECUTE ON FUNCTION "public"."search_articles"(text, integer, text, text, timestamp with time zone, timestamp with time zone, integer, integer, integer) TO "service_role";
@@ -0,0 +1,59 @@
+-- Webhooks for Content API consumers. Each subscription belongs to an API
+-- key and receives HMAC-signed POSTs for the events it lists.
+CREATE TABLE IF NOT EXISTS "public"."webhook_subscriptions" (
+    "id" uuid DEFAULT gen_random_uuid() NOT NULL,
+    "api_key_id" uuid NOT NULL,
+    "user_id" integer NOT NULL,
+    "url" text NOT NULL,
+    "events" text[] NOT NULL, -- article.published | article.updated | article.deleted | comment.created | channel.subscribed
+    "secret" text NOT NULL, -- signing secret; needed in plaintext to compute signatures
+    "is_active" boolean DEFAULT true NOT NULL,
+    "created_at" timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT "webhook_subscriptions_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "webhook_subscriptions_api_key_id_fkey" FOREIGN KEY ("api_key_id")
+        REFERENCES "public"."api_keys"("id") ON DELETE CASCADE,
+    CONSTRAINT "webhook_subscriptions_user_id_fkey" FOREIGN KEY ("user_id")
+        REFERENCES "public"."users"("id") ON DELETE CASCADE
+);
+
+-- Fan-out looks up a content owner's active subscriptions
+CREATE INDEX IF NOT EXISTS "webhook_subscriptions_user_id_idx"
+    ON "public"."webhook_subscriptions" USING btree ("user_id") WHERE "is_active";
+
+CREATE INDEX IF NOT EXISTS "webhook_subscriptions_api_key_id_idx"
+    ON "public"."webhook_subscriptions" USING btree ("api_key_id");
+
+-- Delivery log: one row per event per subscription, updated on each attempt
+CREATE TABLE IF NOT EXISTS "public"."webhook_deliveries" (
+    "id" uuid DEFAULT gen_random_uuid() NOT NULL,
+    "subscription_id" uuid NOT NULL,
+    "event" text NOT NULL,
+    "payload" jsonb NOT NULL,
+    "status" text DEFAULT 'pending' NOT NULL, -- pending | succeeded | failed
+    "attempts" integer DEFAULT 0 NOT NULL,
+    "next_attempt_at" timestamp with time zone,
+    "last_status_code" integer,
+    "last_error" text,
+    "created_at" timestamp with time zone DEFAULT now() NOT NULL,
+    "delivered_at" timestamp with time zone,
+    CONSTRAINT "webhook_deliveries_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "webhook_deliveries_subscription_id_fkey" FOREIGN KEY ("subscription_id")
+        REFERENCES "public"."webhook_subscriptions"("id") ON DELETE CASCADE,
+    CONSTRAINT "webhook_deliveries_status_check" CHECK (("status" = ANY (ARRAY['pending'::"text", 'succeeded'::"text", 'failed'::"text"])))
+);
+
+-- The retry job scans for due pending deliveries
+CREATE INDEX IF NOT EXISTS "webhook_deliveries_retry_idx"
+    ON "public"."webhook_deliveries" USING btree ("next_attempt_at") WHERE ("status" = 'pending'::"text");
+
+-- The delivery log lists a subscription's deliveries newest first
+CREATE INDEX IF NOT EXISTS "webhook_deliveries_subscription_id_idx"
+    ON "public"."webhook_deliveries" USING btree ("subscription_id", "created_at" DESC);
+
+-- Signing secrets live here; only the service-role backends may read them.
+ALTER TABLE "public"."webhook_subscriptions" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "public"."webhook_deliveries" ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON TABLE "public"."webhook_subscriptions" FROM "anon", "authenticated";
+REVOKE ALL ON TABLE "public"."webhook_deliveries" FROM "anon", "authenticated";
+GRANT ALL ON TABLE "public"."webhook_subscriptions" TO "service_role";
+GRANT ALL ON TABLE "public"."webhook_deliveries" TO "service_role";
@@ -0,0 +1,90 @@
+-- Per-key, per-route token buckets for the v1 Content API, plus a daily
+-- request counter per key. Both are only touched through
+-- consume_api_rate_limit() so concurrent serverless instances share state.
+CREATE TABLE IF NOT EXISTS "public"."api_rate_limit_buckets" (
+    "api_key_id" uuid NOT NULL,
+    "route" text NOT NULL, -- articles.create | articles.batch | content.read
+    "tokens" double precision NOT NULL,
+    "updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT "api_rate_limit_buckets_pkey" PRIMARY KEY ("api_key_id", "route"),
+    CONSTRAINT "api_rate_limit_buckets_api_key_id_fkey" FOREIGN KEY ("api_key_id")
+        REFERENCES "public"."api_keys"("id") ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS "public"."api_key_usage" (
+    "api_key_id" uuid NOT NULL,
+    "day" date NOT NULL, -- UTC
+    "request_count" integer DEFAULT 0 NOT NULL, -- requests let through
+    "throttled_count" integer DEFAULT 0 NOT NULL, -- requests answered with 429
+    CONSTRAINT "api_key_usage_pkey" PRIMARY KEY ("api_key_id", "day"),
+    CONSTRAINT "api_key_usage_api_key_id_fkey" FOREIGN KEY ("api_key_id")
+        REFERENCES "public"."api_keys"("id") ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS "api_key_usage_day_idx"
+    ON "public"."api_key_usage" USING btree ("day");
+
+-- Take one token from a key's bucket for a route and count the request.
+-- The bucket holds up to p_capacity tokens and refills continuously at
+-- p_refill_per_second. remaining/reset_seconds feed the X-RateLimit-*
+-- headers; retry_after_seconds is 0 when the request is allowed.
+CREATE OR REPLACE FUNCTION "public"."consume_api_rate_limit"(
+    "p_api_key_id" uuid,
+    "p_route" text,
+    "p_capacity" integer,
+    "p_refill_per_second" double precision
+)
+RETURNS TABLE (
+    "allowed" boolean,
+    "remaining" integer,
+    "reset_seconds" integer,
+    "retry_after_seconds" integer
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_now timestamp with time zone := clock_timestamp();
+    v_tokens double precision;
+BEGIN
+    -- Upsert takes the row lock, so concurrent requests queue here
+    INSERT INTO public.api_rate_limit_buckets AS b (api_key_id, route, tokens, updated_at)
+    VALUES (p_api_key_id, p_route, p_capacity, v_now)
+    ON CONFLICT (api_key_id, route) DO UPDATE
+        SET tokens = LEAST(p_capacity::double precision,
+                b.tokens + EXTRACT(EPOCH FROM (v_now - b.updated_at)) * p_refill_per_second),
+            updated_at = v_now
+    RETURNING b.tokens INTO v_tokens;
+
+    allowed := v_tokens >= 1;
+    IF allowed THEN
+        v_tokens := v_tokens - 1;
+        UPDATE public.api_rate_limit_buckets b
+        SET tokens = v_tokens
+        WHERE b.api_key_id = p_api_key_id AND b.route = p_route;
+    END IF;
+
+    INSERT INTO public.api_key_usage AS u (api_key_id, day, request_count, throttled_count)
+    VALUES (p_api_key_id, (v_now AT TIME ZONE 'UTC')::date,
+            CASE WHEN allowed THEN 1 ELSE 0 END,
+            CASE WHEN allowed THEN 0 ELSE 1 END)
+    ON CONFLICT (api_key_id, day) DO UPDATE
+        SET request_count = u.request_count + EXCLUDED.request_count,
+            throttled_count = u.throttled_count + EXCLUDED.throttled_count;
+
+    remaining := floor(v_tokens)::integer;
+    reset_seconds := ceil((p_capacity - v_tokens) / p_refill_per_second)::integer;
+    retry_after_seconds := CASE WHEN allowed THEN 0
+        ELSE ceil((1 - v_tokens) / p_refill_per_second)::integer END;
+    RETURN NEXT;
+END;
+$$;
+
+-- Only the service-role backends touch these
+ALTER TABLE "public"."api_rate_limit_buckets" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "public"."api_key_usage" ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON TABLE "public"."api_rate_limit_buckets" FROM "anon", "authenticated";
+REVOKE ALL ON TABLE "public"."api_key_usage" FROM "anon", "authenticated";
+GRANT ALL ON TABLE "public"."api_rate_limit_buckets" TO "service_role";
+GRANT ALL ON TABLE "public"."api_key_usage" TO "service_role";
+REVOKE ALL ON FUNCTION "public"."consume_api_rate_limit"(uuid, text, integer, double precision) FROM "anon", "authenticated", PUBLIC;
+GRANT EXECUTE ON FUNCTION "public"."consume_api_rate_limit"(uuid, text, integer, double precision) TO "service_role";
@@ -0,0 +1,82 @@
+-- Scoped API keys. scopes limits what a key may do; channel_ids, when set,
+-- limits it to those of the owner's channels (NULL = all of them).
+-- Existing keys keep every scope so current integrations carry on working.
+ALTER TABLE "public"."api_keys"
+    ADD COLUMN IF NOT EXISTS "scopes" text[] DEFAULT ARRAY['articles:write', 'articles:read', 'channels:read', 'images:write']::text[] NOT NULL,
+    ADD COLUMN IF NOT EXISTS "channel_ids" integer[];
+
+ALTER TABLE "public"."api_keys"
+    DROP CONSTRAINT IF EXISTS "api_keys_scopes_check";
+ALTER TABLE "public"."api_keys"
+    ADD CONSTRAINT "api_keys_scopes_check"
+    CHECK ("scopes" <@ ARRAY['articles:write', 'articles:read', 'channels:read', 'images:write']::text[]);
+
+-- search_articles gains channel_filter so channel-restricted keys only
+-- search their own channels. The signature changes, so drop the old one.
+DROP FUNCTION IF EXISTS "public"."search_articles"(text, integer, text, text, timestamp with time zone, timestamp with time zone, integer, integer, integer);
+
+CREATE OR REPLACE FUNCTION "public"."search_articles"(
+    "search_query" text,
+    "category_id_filter" integer DEFAULT NULL,
+    "category_name_filter" text DEFAULT NULL,
+    "location_filter" text DEFAULT NULL,
+    "from_date" timestamp with time zone DEFAULT NULL,
+    "to_date" timestamp with time zone DEFAULT NULL,
+    "owner_filter" integer DEFAULT NULL,
+    "channel_filter" integer[] DEFAULT NULL,
+    "result_limit" integer DEFAULT 20,
+    "result_offset" integer DEFAULT 0
+)
+RETURNS TABLE (
+    "id" integer,
+    "title" text,
+    "slug" text,
+    "channel_id" integer,
+    "user_id" integer,
+    "category" text,
+    "location_name" text,
+    "status" text,
+    "published_at" timestamp with time zone,
+    "created_at" timestamp with time zone,
+    "rank" real,
+    "title_highlight" text,
+    "snippet" text,
+    "total_count" bigint
+)
+LANGUAGE sql STABLE
+AS $$
+    WITH q AS (
+        SELECT websearch_to_tsquery('english'::regconfig, search_query) AS query
+    ), matches AS (
+        SELECT a.*, ts_rank_cd(a.search_vector, q.query) AS rank, q.query
+        FROM public.articles a, q
+        WHERE a.search_vector @@ q.query
+          AND (CASE WHEN owner_filter IS NULL THEN a.published
+                    ELSE a.user_id = owner_filter END)
+          AND (channel_filter IS NULL OR a.channel_id = ANY (channel_filter))
+          AND (category_id_filter IS NULL OR EXISTS (
+                SELECT 1 FROM public.article_categories ac
+                WHERE ac.article_id = a.id AND ac.category_id = category_id_filter))
+          AND (category_name_filter IS NULL OR lower(a.category) = lower(category_name_filter))
+          AND (location_filter IS NULL
+               OR a.location_name ILIKE '%' || location_filter || '%'
+               OR a.location ILIKE '%' || location_filter || '%')
+          AND (from_date IS NULL OR coalesce(a.published_at, a.created_at) >= from_date)
+          AND (to_date IS NULL OR coalesce(a.published_at, a.created_at) <= to_date)
+    )
+    SELECT m.id, m.title, m.slug, m.channel_id, m.user_id, m.category,
+           m.location_name, m.status, m.published_at, m.created_at, m.rank,
+           ts_headline('english'::regconfig, m.title, m.query,
+               'StartSel=<mark>, StopSel=</mark>, HighlightAll=true'),
+           ts_headline('english'::regconfig,
+               regexp_replace(m.content, '<[^>]+>', ' ', 'g'), m.query,
+               'StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "'),
+           count(*) OVER ()
+    FROM matches m
+    ORDER BY m.rank DESC, coalesce(m.published_at, m.created_at) DESC
+    LIMIT result_limit OFFSET result_offset;
+$$;
+
+-- Only the service-role backends call this
+REVOKE ALL ON FUNCTION "public"."search_articles"(text, integer, text, text, timestamp with time zone, timestamp with time zone, integer, integer[], integer, integer) FROM "anon", "authenticated", PUBLIC;
+GRANT EXECUTE ON FUNCTION "public"."search_articles"(text, integer, text, text, timestamp with time zone, timestamp with time zone, integer, integer[], integer, integer) TO "service_role";
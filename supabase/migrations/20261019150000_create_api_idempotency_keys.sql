@@ -0,0 +1,24 @@
+-- Idempotency-Key support for the v1 Content API create endpoints. The first
+-- request with a key claims the row (response_status NULL while it runs);
+-- the finished response is stored so replays get it back verbatim.
+CREATE TABLE IF NOT EXISTS "public"."api_idempotency_keys" (
+    "user_id" integer NOT NULL,
+    "route" text NOT NULL, -- articles.create | articles.batch
+    "idempotency_key" text NOT NULL,
+    "request_hash" text NOT NULL, -- SHA-256 of the canonical JSON body
+    "response_status" integer,
+    "response_body" jsonb,
+    "created_at" timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT "api_idempotency_keys_pkey" PRIMARY KEY ("user_id", "route", "idempotency_key"),
+    CONSTRAINT "api_idempotency_keys_user_id_fkey" FOREIGN KEY ("user_id")
+        REFERENCES "public"."users"("id") ON DELETE CASCADE
+);
+
+-- Expired keys are purged by created_at
+CREATE INDEX IF NOT EXISTS "api_idempotency_keys_created_at_idx"
+    ON "public"."api_idempotency_keys" USING btree ("created_at");
+
+-- Only the service-role backends touch this table
+ALTER TABLE "public"."api_idempotency_keys" ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON TABLE "public"."api_idempotency_keys" FROM "anon", "authenticated";
+GRANT ALL ON TABLE "public"."api_idempotency_keys" TO "service_role";
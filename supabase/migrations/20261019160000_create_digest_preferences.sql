@@ -0,0 +1,27 @@
+-- Email digest preferences for channel subscribers. One row per user; the
+-- send-digests cron mails users whose frequency is daily or weekly once their
+-- last_sent_at is old enough. unsubscribe_token goes in every email's
+-- unsubscribe link so it works without signing in.
+CREATE TABLE IF NOT EXISTS "public"."digest_preferences" (
+    "user_id" integer NOT NULL,
+    "frequency" text DEFAULT 'off' NOT NULL,
+    "unsubscribe_token" text NOT NULL,
+    "last_sent_at" timestamp with time zone,
+    "updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT "digest_preferences_pkey" PRIMARY KEY ("user_id"),
+    CONSTRAINT "digest_preferences_user_id_fkey" FOREIGN KEY ("user_id")
+        REFERENCES "public"."users"("id") ON DELETE CASCADE,
+    CONSTRAINT "digest_preferences_frequency_check"
+        CHECK ("frequency" IN ('off', 'daily', 'weekly')),
+    CONSTRAINT "digest_preferences_unsubscribe_token_key" UNIQUE ("unsubscribe_token")
+);
+
+-- The cron only looks at users who want digests
+CREATE INDEX IF NOT EXISTS "digest_preferences_active_idx"
+    ON "public"."digest_preferences" USING btree ("frequency")
+    WHERE "frequency" <> 'off';
+
+-- Only the service-role backends touch this table
+ALTER TABLE "public"."digest_preferences" ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON TABLE "public"."digest_preferences" FROM "anon", "authenticated";
+GRANT ALL ON TABLE "public"."digest_preferences" TO "service_role";
@@ -0,0 +1,44 @@
+-- In-app notifications shown behind the navigation bell. Rows are fanned out
+-- by the backends on comment replies, new articles in subscribed channels and
+-- reactions to a user's articles. dedupe_key is set for events that can
+-- recur (re-publishing, toggling a reaction) so each person hears once; it is
+-- NULL for comment replies, which are always distinct.
+CREATE TABLE IF NOT EXISTS "public"."notifications" (
+    "id" serial NOT NULL,
+    "user_id" integer NOT NULL,
+    "type" text NOT NULL,
+    "actor_id" integer,
+    "article_id" integer,
+    "comment_id" integer,
+    "channel_id" integer,
+    "data" jsonb DEFAULT '{}'::jsonb NOT NULL,
+    "dedupe_key" text,
+    "read_at" timestamp with time zone,
+    "created_at" timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT "notifications_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "notifications_user_id_fkey" FOREIGN KEY ("user_id")
+        REFERENCES "public"."users"("id") ON DELETE CASCADE,
+    CONSTRAINT "notifications_actor_id_fkey" FOREIGN KEY ("actor_id")
+        REFERENCES "public"."users"("id") ON DELETE SET NULL,
+    CONSTRAINT "notifications_article_id_fkey" FOREIGN KEY ("article_id")
+        REFERENCES "public"."articles"("id") ON DELETE CASCADE,
+    CONSTRAINT "notifications_comment_id_fkey" FOREIGN KEY ("comment_id")
+        REFERENCES "public"."comments"("id") ON DELETE CASCADE,
+    CONSTRAINT "notifications_channel_id_fkey" FOREIGN KEY ("channel_id")
+        REFERENCES "public"."channels"("id") ON DELETE CASCADE,
+    CONSTRAINT "notifications_type_check"
+        CHECK ("type" IN ('comment_reply', 'article_published', 'article_reaction')),
+    CONSTRAINT "notifications_user_id_dedupe_key_key" UNIQUE ("user_id", "dedupe_key")
+);
+
+-- The bell lists newest first and counts unread rows
+CREATE INDEX IF NOT EXISTS "notifications_user_id_idx"
+    ON "public"."notifications" USING btree ("user_id", "id" DESC);
+CREATE INDEX IF NOT EXISTS "notifications_unread_idx"
+    ON "public"."notifications" USING btree ("user_id")
+    WHERE "read_at" IS NULL;
+
+-- Only the service-role backends touch this table
+ALTER TABLE "public"."notifications" ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON TABLE "public"."notifications" FROM "anon", "authenticated";
+GRANT ALL ON TABLE "public"."notifications" TO "service_role";
@@ -0,0 +1,52 @@
+-- Comment editing, soft deletion and moderation.
+-- edited_at marks comments their author has changed. deleted_at is set when
+-- the author deletes a comment: the row (and so any replies under it) stays,
+-- its content is cleared and the thread shows a placeholder. hidden_at is set
+-- by the channel owner or an admin; the content is kept so the comment can be
+-- restored.
+ALTER TABLE "public"."comments"
+    ADD COLUMN IF NOT EXISTS "edited_at" timestamp with time zone,
+    ADD COLUMN IF NOT EXISTS "deleted_at" timestamp with time zone,
+    ADD COLUMN IF NOT EXISTS "hidden_at" timestamp with time zone,
+    ADD COLUMN IF NOT EXISTS "hidden_by" integer;
+
+ALTER TABLE "public"."comments"
+    ADD CONSTRAINT "comments_hidden_by_fkey" FOREIGN KEY ("hidden_by")
+        REFERENCES "public"."users"("id") ON DELETE SET NULL;
+
+-- Reader reports. One open or closed flag per reader per comment; the admin
+-- moderation queue lists comments with unresolved flags and resolves them all
+-- at once as approved (comment stays) or removed (comment hidden).
+CREATE TABLE IF NOT EXISTS "public"."comment_flags" (
+    "id" serial NOT NULL,
+    "comment_id" integer NOT NULL,
+    "user_id" integer NOT NULL,
+    "reason" text NOT NULL,
+    "details" text,
+    "created_at" timestamp with time zone DEFAULT now() NOT NULL,
+    "resolved_at" timestamp with time zone,
+    "resolved_by" integer,
+    "resolution" text,
+    CONSTRAINT "comment_flags_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "comment_flags_comment_id_fkey" FOREIGN KEY ("comment_id")
+        REFERENCES "public"."comments"("id") ON DELETE CASCADE,
+    CONSTRAINT "comment_flags_user_id_fkey" FOREIGN KEY ("user_id")
+        REFERENCES "public"."users"("id") ON DELETE CASCADE,
+    CONSTRAINT "comment_flags_resolved_by_fkey" FOREIGN KEY ("resolved_by")
+        REFERENCES "public"."users"("id") ON DELETE SET NULL,
+    CONSTRAINT "comment_flags_reason_check"
+        CHECK ("reason" IN ('spam', 'harassment', 'off_topic', 'other')),
+    CONSTRAINT "comment_flags_resolution_check"
+        CHECK ("resolution" IS NULL OR "resolution" IN ('approved', 'removed')),
+    CONSTRAINT "comment_flags_comment_id_user_id_key" UNIQUE ("comment_id", "user_id")
+);
+
+-- The moderation queue only reads open flags
+CREATE INDEX IF NOT EXISTS "comment_flags_open_idx"
+    ON "public"."comment_flags" USING btree ("comment_id")
+    WHERE "resolved_at" IS NULL;
+
+-- Only the service-role backends touch this table
+ALTER TABLE "public"."comment_flags" ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON TABLE "public"."comment_flags" FROM "anon", "authenticated";
+GRANT ALL ON TABLE "public"."comment_flags" TO "service_role";
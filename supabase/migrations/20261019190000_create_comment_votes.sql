@@ -0,0 +1,19 @@
+-- Up/down votes on comments, one per reader per comment. value is +1 or -1;
+-- clearing a vote deletes the row. Scores are summed when a thread loads.
+CREATE TABLE IF NOT EXISTS "public"."comment_votes" (
+    "comment_id" integer NOT NULL,
+    "user_id" integer NOT NULL,
+    "value" smallint NOT NULL,
+    "created_at" timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT "comment_votes_pkey" PRIMARY KEY ("comment_id", "user_id"),
+    CONSTRAINT "comment_votes_comment_id_fkey" FOREIGN KEY ("comment_id")
+        REFERENCES "public"."comments"("id") ON DELETE CASCADE,
+    CONSTRAINT "comment_votes_user_id_fkey" FOREIGN KEY ("user_id")
+        REFERENCES "public"."users"("id") ON DELETE CASCADE,
+    CONSTRAINT "comment_votes_value_check" CHECK ("value" IN (-1, 1))
+);
+
+-- Only the service-role backends touch this table
+ALTER TABLE "public"."comment_votes" ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON TABLE "public"."comment_votes" FROM "anon", "authenticated";
+GRANT ALL ON TABLE "public"."comment_votes" TO "service_role";
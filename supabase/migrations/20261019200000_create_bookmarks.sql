@@ -0,0 +1,32 @@
+-- Reader bookmarks (read-later list). One row per reader per article;
+-- note_id points at an optional private note in the existing notes table.
+CREATE TABLE IF NOT EXISTS "public"."bookmarks" (
+    "user_id" integer NOT NULL,
+    "article_id" integer NOT NULL,
+    "note_id" integer,
+    "created_at" timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT "bookmarks_pkey" PRIMARY KEY ("user_id", "article_id"),
+    CONSTRAINT "bookmarks_user_id_fkey" FOREIGN KEY ("user_id")
+        REFERENCES "public"."users"("id") ON DELETE CASCADE,
+    CONSTRAINT "bookmarks_article_id_fkey" FOREIGN KEY ("article_id")
+        REFERENCES "public"."articles"("id") ON DELETE CASCADE,
+    CONSTRAINT "bookmarks_note_id_fkey" FOREIGN KEY ("note_id")
+        REFERENCES "public"."notes"("id") ON DELETE SET NULL
+);
+
+-- The Saved list reads a reader's bookmarks newest first
+CREATE INDEX IF NOT EXISTS "bookmarks_user_id_created_at_idx"
+    ON "public"."bookmarks" USING btree ("user_id", "created_at" DESC);
+
+-- Only the service-role backends touch this table
+ALTER TABLE "public"."bookmarks" ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON TABLE "public"."bookmarks" FROM "anon", "authenticated";
+GRANT ALL ON TABLE "public"."bookmarks" TO "service_role";
+
+-- Notes now hold readers' private bookmark notes, so close the table to the
+-- public API keys as well
+ALTER TABLE "public"."notes" ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON TABLE "public"."notes" FROM "anon", "authenticated";
+REVOKE ALL ON SEQUENCE "public"."notes_id_seq" FROM "anon", "authenticated";
+GRANT ALL ON TABLE "public"."notes" TO "service_role";
+GRANT ALL ON SEQUENCE "public"."notes_id_seq" TO "service_role";
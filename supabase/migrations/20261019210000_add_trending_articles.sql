@@ -0,0 +1,62 @@
+-- Trending articles by view velocity, used by GET /api/articles/trending and
+-- the "trending" hero / most-read options on the homepage.
+--
+-- Every view in the last window_hours counts, decayed by its age with the
+-- given half-life, so a story picking up readers right now outranks one that
+-- has been steady all week. The decayed sum is scaled to views per hour.
+-- Net likes (real users only) multiply the score by
+-- 1 + reaction_boost * ln(1 + net likes).
+CREATE OR REPLACE FUNCTION "public"."trending_articles"(
+    "window_hours" integer DEFAULT 48,
+    "half_life_hours" double precision DEFAULT 6,
+    "reaction_boost" double precision DEFAULT 0.25,
+    "result_limit" integer DEFAULT 20
+)
+RETURNS TABLE (
+    "article_id" integer,
+    "score" double precision,
+    "views_per_hour" double precision,
+    "recent_views" bigint,
+    "likes" bigint,
+    "dislikes" bigint
+)
+LANGUAGE sql STABLE
+AS $$
+    WITH velocity AS (
+        SELECT v.article_id,
+               sum(power(0.5, extract(epoch FROM (now() - v.viewed_at)) / 3600.0 / half_life_hours))
+                   * ln(2) / half_life_hours AS views_per_hour,
+               count(*) AS recent_views
+        FROM public.article_views v
+        JOIN public.articles a ON a.id = v.article_id AND a.published
+        WHERE v.viewed_at >= now() - make_interval(hours => window_hours)
+        GROUP BY v.article_id
+    ), reaction_counts AS (
+        SELECT r.article_id,
+               count(*) FILTER (WHERE r.is_like) AS likes,
+               count(*) FILTER (WHERE NOT r.is_like) AS dislikes
+        FROM public.reactions r
+        WHERE r.user_id > 0
+          AND r.article_id IN (SELECT velocity.article_id FROM velocity)
+        GROUP BY r.article_id
+    )
+    SELECT velocity.article_id,
+           velocity.views_per_hour
+               * (1 + reaction_boost * ln(1 + greatest(coalesce(rc.likes, 0) - coalesce(rc.dislikes, 0), 0)))
+               AS score,
+           velocity.views_per_hour,
+           velocity.recent_views,
+           coalesce(rc.likes, 0) AS likes,
+           coalesce(rc.dislikes, 0) AS dislikes
+    FROM velocity
+    LEFT JOIN reaction_counts rc ON rc.article_id = velocity.article_id
+    ORDER BY score DESC, velocity.recent_views DESC
+    LIMIT result_limit;
+$$;
+
+-- The window scan filters article_views by viewed_at
+CREATE INDEX IF NOT EXISTS "idx_article_views_viewed_at"
+    ON "public"."article_views" USING btree ("viewed_at");
+
+REVOKE ALL ON FUNCTION "public"."trending_articles"(integer, double precision, double precision, integer) FROM "anon", "authenticated", PUBLIC;
+GRANT EXECUTE ON FUNCTION "public"."trending_articles"(integer, double precision, double precision, integer) TO "service_role";
@@ -0,0 +1,140 @@
+-- Channel analytics for owners (GET /api/channels/:id/analytics).
+--
+-- Subscriptions had no timestamp, so growth could not be charted. New rows
+-- now record when they were made; existing rows stay NULL and are counted as
+-- the baseline before tracking started. Unsubscribing deletes the row, so
+-- growth is the history of the channel's current subscribers.
+ALTER TABLE "public"."subscriptions"
+    ADD COLUMN IF NOT EXISTS "created_at" timestamp with time zone;
+ALTER TABLE "public"."subscriptions"
+    ALTER COLUMN "created_at" SET DEFAULT now();
+
+CREATE INDEX IF NOT EXISTS "subscriptions_channel_id_created_at_idx"
+    ON "public"."subscriptions" USING btree ("channel_id", "created_at");
+
+-- One row per day in [from_day, to_day] (zero-filled): views and unique
+-- readers (distinct client_identifier) across the channel's articles, new
+-- comments, new subscribers and the running subscriber total.
+-- total_unique_readers is the distinct count over the whole range.
+CREATE OR REPLACE FUNCTION "public"."channel_daily_stats"(
+    "channel_id_param" integer,
+    "from_day" date,
+    "to_day" date
+)
+RETURNS TABLE (
+    "day" date,
+    "views" bigint,
+    "unique_readers" bigint,
+    "comments" bigint,
+    "new_subscribers" bigint,
+    "subscribers" bigint,
+    "total_unique_readers" bigint
+)
+LANGUAGE sql STABLE
+AS $$
+    WITH days AS (
+        SELECT generate_series(from_day, to_day, interval '1 day')::date AS day
+    ), channel_articles AS (
+        SELECT a.id FROM public.articles a WHERE a.channel_id = channel_id_param
+    ), range_views AS (
+        SELECT v.viewed_at::date AS day, v.client_identifier
+        FROM public.article_views v
+        WHERE v.article_id IN (SELECT channel_articles.id FROM channel_articles)
+          AND v.viewed_at >= from_day AND v.viewed_at < to_day + 1
+    ), daily_views AS (
+        SELECT range_views.day, count(*) AS views,
+               count(DISTINCT range_views.client_identifier) AS unique_readers
+        FROM range_views
+        GROUP BY range_views.day
+    ), daily_comments AS (
+        SELECT c.created_at::date AS day, count(*) AS comments
+        FROM public.comments c
+        WHERE c.article_id IN (SELECT channel_articles.id FROM channel_articles)
+          AND c.deleted_at IS NULL AND c.hidden_at IS NULL
+          AND c.created_at >= from_day AND c.created_at < to_day + 1
+        GROUP BY 1
+    ), daily_subscribers AS (
+        SELECT s.created_at::date AS day, count(*) AS new_subscribers
+        FROM public.subscriptions s
+        WHERE s.channel_id = channel_id_param
+          AND s.created_at >= from_day AND s.created_at < to_day + 1
+        GROUP BY 1
+    ), baseline AS (
+        SELECT count(*) AS subscribers
+        FROM public.subscriptions s
+        WHERE s.channel_id = channel_id_param
+          AND (s.created_at IS NULL OR s.created_at < from_day)
+    )
+    SELECT days.day,
+           coalesce(dv.views, 0),
+           coalesce(dv.unique_readers, 0),
+           coalesce(dc.comments, 0),
+           coalesce(ds.new_subscribers, 0),
+           (SELECT baseline.subscribers FROM baseline)
+               + sum(coalesce(ds.new_subscribers, 0)) OVER (ORDER BY days.day)::bigint,
+           (SELECT count(DISTINCT range_views.client_identifier) FROM range_views)
+    FROM days
+    LEFT JOIN daily_views dv ON dv.day = days.day
+    LEFT JOIN daily_comments dc ON dc.day = days.day
+    LEFT JOIN daily_subscribers ds ON ds.day = days.day
+    ORDER BY days.day;
+$$;
+
+-- Per-article totals for the channel's published articles, most viewed
+-- first: views, unique readers and comments inside the range, plus all-time
+-- likes and dislikes from real users (reactions carry no timestamp).
+CREATE OR REPLACE FUNCTION "public"."channel_article_stats"(
+    "channel_id_param" integer,
+    "from_day" date,
+    "to_day" date
+)
+RETURNS TABLE (
+    "article_id" integer,
+    "title" text,
+    "slug" text,
+    "published_at" timestamp with time zone,
+    "views" bigint,
+    "unique_readers" bigint,
+    "likes" bigint,
+    "dislikes" bigint,
+    "comments" bigint
+)
+LANGUAGE sql STABLE
+AS $$
+    SELECT a.id, a.title, a.slug, a.published_at,
+           coalesce(v.views, 0),
+           coalesce(v.unique_readers, 0),
+           coalesce(r.likes, 0),
+           coalesce(r.dislikes, 0),
+           coalesce(c.comments, 0)
+    FROM public.articles a
+    LEFT JOIN (
+        SELECT av.article_id, count(*) AS views,
+               count(DISTINCT av.client_identifier) AS unique_readers
+        FROM public.article_views av
+        WHERE av.viewed_at >= from_day AND av.viewed_at < to_day + 1
+        GROUP BY av.article_id
+    ) v ON v.article_id = a.id
+    LEFT JOIN (
+        SELECT re.article_id,
+               count(*) FILTER (WHERE re.is_like) AS likes,
+               count(*) FILTER (WHERE NOT re.is_like) AS dislikes
+        FROM public.reactions re
+        WHERE re.user_id > 0
+        GROUP BY re.article_id
+    ) r ON r.article_id = a.id
+    LEFT JOIN (
+        SELECT co.article_id, count(*) AS comments
+        FROM public.comments co
+        WHERE co.deleted_at IS NULL AND co.hidden_at IS NULL
+          AND co.created_at >= from_day AND co.created_at < to_day + 1
+        GROUP BY co.article_id
+    ) c ON c.article_id = a.id
+    WHERE a.channel_id = channel_id_param AND a.published
+    ORDER BY coalesce(v.views, 0) DESC, a.published_at DESC;
+$$;
+
+REVOKE ALL ON FUNCTION "public"."channel_daily_stats"(integer, date, date) FROM "anon", "authenticated", PUBLIC;
+GRANT EXECUTE ON FUNCTION "public"."channel_daily_stats"(integer, date, date) TO "service_role";
+REVOKE ALL ON FUNCTION "public"."channel_article_stats"(integer, date, date) FROM "anon", "authenticated", PUBLIC;
+GRANT EXECUTE ON FUNCTION "public"."channel_article_stats"(integer, date, date) TO "service_role";
@@ -0,0 +1,94 @@
+-- Per-article analytics for authors (GET /api/articles/:id/stats).
+--
+-- The view beacon now records where each reader came from (referrer host and
+-- UTM parameters) and their device class; the engagement beacon sent when the
+-- reader leaves records how far they scrolled (0-100) and how long the page
+-- was visible. A view is counted once per reader, so the engagement columns
+-- hold that reader's best read. Rows written before this change have a NULL
+-- device_class and are reported as an "unknown" source.
+ALTER TABLE "public"."article_views"
+    ADD COLUMN IF NOT EXISTS "referrer_host" text,
+    ADD COLUMN IF NOT EXISTS "utm_source" text,
+    ADD COLUMN IF NOT EXISTS "utm_medium" text,
+    ADD COLUMN IF NOT EXISTS "utm_campaign" text,
+    ADD COLUMN IF NOT EXISTS "device_class" text,
+    ADD COLUMN IF NOT EXISTS "max_scroll_depth" smallint,
+    ADD COLUMN IF NOT EXISTS "time_on_page_seconds" integer,
+    ADD COLUMN IF NOT EXISTS "engaged_at" timestamp with time zone;
+
+ALTER TABLE "public"."article_views"
+    ADD CONSTRAINT "article_views_device_class_check"
+        CHECK ("device_class" IN ('mobile', 'tablet', 'desktop', 'bot')),
+    ADD CONSTRAINT "article_views_max_scroll_depth_check"
+        CHECK ("max_scroll_depth" BETWEEN 0 AND 100),
+    ADD CONSTRAINT "article_views_time_on_page_seconds_check"
+        CHECK ("time_on_page_seconds" >= 0);
+
+CREATE INDEX IF NOT EXISTS "article_views_article_id_viewed_at_idx"
+    ON "public"."article_views" USING btree ("article_id", "viewed_at");
+
+-- One article's traffic for [from_day, to_day] as a single JSON document:
+-- view totals, engagement (average scroll depth, share of engaged views that
+-- reached completed_depth, average visible time), zero-filled daily views and
+-- the top traffic sources, campaigns and device classes. A view's source is
+-- its utm_source, else its referrer host, else 'direct'.
+CREATE OR REPLACE FUNCTION "public"."article_traffic_stats"(
+    "article_id_param" integer,
+    "from_day" date,
+    "to_day" date,
+    "completed_depth" integer DEFAULT 90,
+    "top_limit" integer DEFAULT 10
+)
+RETURNS jsonb
+LANGUAGE sql STABLE
+AS $$
+    WITH range_views AS (
+        SELECT v.viewed_at::date AS day,
+               coalesce(v.utm_source, v.referrer_host,
+                        CASE WHEN v.device_class IS NULL THEN 'unknown' ELSE 'direct' END) AS source,
+               v.utm_campaign, v.device_class, v.max_scroll_depth, v.time_on_page_seconds
+        FROM public.article_views v
+        WHERE v.article_id = article_id_param
+          AND v.viewed_at >= from_day AND v.viewed_at < to_day + 1
+    ), days AS (
+        SELECT generate_series(from_day, to_day, interval '1 day')::date AS day
+    ), daily AS (
+        SELECT days.day, count(range_views.day) AS views
+        FROM days
+        LEFT JOIN range_views ON range_views.day = days.day
+        GROUP BY days.day
+    ), sources AS (
+        SELECT range_views.source, count(*) AS views
+        FROM range_views
+        GROUP BY range_views.source
+        ORDER BY count(*) DESC, range_views.source
+        LIMIT top_limit
+    ), campaigns AS (
+        SELECT range_views.utm_campaign AS campaign, count(*) AS views
+        FROM range_views
+        WHERE range_views.utm_campaign IS NOT NULL
+        GROUP BY range_views.utm_campaign
+        ORDER BY count(*) DESC, range_views.utm_campaign
+        LIMIT top_limit
+    ), devices AS (
+        SELECT range_views.device_class AS device, count(*) AS views
+        FROM range_views
+        WHERE range_views.device_class IS NOT NULL
+        GROUP BY range_views.device_class
+    )
+    SELECT jsonb_build_object(
+        'views', (SELECT count(*) FROM range_views),
+        'tracked_views', (SELECT count(*) FROM range_views WHERE range_views.device_class IS NOT NULL),
+        'engaged_views', (SELECT count(*) FROM range_views WHERE range_views.max_scroll_depth IS NOT NULL),
+        'completed_views', (SELECT count(*) FROM range_views WHERE range_views.max_scroll_depth >= completed_depth),
+        'avg_scroll_depth', (SELECT avg(range_views.max_scroll_depth) FROM range_views),
+        'avg_time_on_page', (SELECT avg(range_views.time_on_page_seconds) FROM range_views),
+        'daily', (SELECT coalesce(jsonb_agg(jsonb_build_object('day', daily.day, 'views', daily.views) ORDER BY daily.day), '[]'::jsonb) FROM daily),
+        'sources', (SELECT coalesce(jsonb_agg(jsonb_build_object('source', sources.source, 'views', sources.views) ORDER BY sources.views DESC, sources.source), '[]'::jsonb) FROM sources),
+        'campaigns', (SELECT coalesce(jsonb_agg(jsonb_build_object('campaign', campaigns.campaign, 'views', campaigns.views) ORDER BY campaigns.views DESC, campaigns.campaign), '[]'::jsonb) FROM campaigns),
+        'devices', (SELECT coalesce(jsonb_agg(jsonb_build_object('device', devices.device, 'views', devices.views) ORDER BY devices.views DESC), '[]'::jsonb) FROM devices)
+    );
+$$;
+
+REVOKE ALL ON FUNCTION "public"."article_traffic_stats"(integer, date, date, integer, integer) FROM "anon", "authenticated", PUBLIC;
+GRANT EXECUTE ON FUNCTION "public"."article_traffic_stats"(integer, date, date, integer, integer) TO "service_role";
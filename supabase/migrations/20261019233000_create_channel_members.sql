@@ -0,0 +1,74 @@
+-- Shared channels. channel_members lists everyone who writes for a channel
+-- with their role: the owner (channels.user_id), editors and contributors.
+-- Owners invite by username; an invitation is a row with accepted_at NULL
+-- and grants nothing until the invitee accepts it.
+CREATE TABLE IF NOT EXISTS "public"."channel_members" (
+    "channel_id" integer NOT NULL,
+    "user_id" integer NOT NULL,
+    "role" text NOT NULL,
+    "invited_by" integer,
+    "created_at" timestamp with time zone DEFAULT now() NOT NULL,
+    "accepted_at" timestamp with time zone,
+    CONSTRAINT "channel_members_pkey" PRIMARY KEY ("channel_id", "user_id"),
+    CONSTRAINT "channel_members_channel_id_fkey" FOREIGN KEY ("channel_id")
+        REFERENCES "public"."channels"("id") ON DELETE CASCADE,
+    CONSTRAINT "channel_members_user_id_fkey" FOREIGN KEY ("user_id")
+        REFERENCES "public"."users"("id") ON DELETE CASCADE,
+    CONSTRAINT "channel_members_invited_by_fkey" FOREIGN KEY ("invited_by")
+        REFERENCES "public"."users"("id") ON DELETE SET NULL,
+    CONSTRAINT "channel_members_role_check"
+        CHECK ("role" IN ('owner', 'editor', 'contributor'))
+);
+
+-- A user's memberships and pending invitations
+CREATE INDEX IF NOT EXISTS "channel_members_user_id_idx"
+    ON "public"."channel_members" USING btree ("user_id");
+
+-- Exactly one owner row per channel, mirroring channels.user_id
+CREATE UNIQUE INDEX IF NOT EXISTS "channel_members_one_owner_idx"
+    ON "public"."channel_members" USING btree ("channel_id")
+    WHERE "role" = 'owner';
+
+-- Keep the owner row in step with channels.user_id: new channels get one,
+-- and reassigning a channel moves it to the new owner
+CREATE OR REPLACE FUNCTION "public"."sync_channel_owner_member"()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF TG_OP = 'UPDATE' AND NEW.user_id IS DISTINCT FROM OLD.user_id THEN
+        DELETE FROM public.channel_members
+        WHERE channel_id = NEW.id AND user_id = OLD.user_id AND role = 'owner';
+    END IF;
+    IF NEW.user_id IS NOT NULL THEN
+        INSERT INTO public.channel_members (channel_id, user_id, role, accepted_at)
+        VALUES (NEW.id, NEW.user_id, 'owner', now())
+        ON CONFLICT (channel_id, user_id) DO UPDATE
+            SET role = 'owner',
+                accepted_at = coalesce(channel_members.accepted_at, now());
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS "channels_sync_owner_member" ON "public"."channels";
+CREATE TRIGGER "channels_sync_owner_member"
+    AFTER INSERT OR UPDATE OF "user_id" ON "public"."channels"
+    FOR EACH ROW EXECUTE FUNCTION "public"."sync_channel_owner_member"();
+
+-- Existing channels: their owners become owner members
+INSERT INTO "public"."channel_members" ("channel_id", "user_id", "role", "created_at", "accepted_at")
+SELECT c.id, c.user_id, 'owner', coalesce(c.created_at, now()), coalesce(c.created_at, now())
+FROM "public"."channels" c
+WHERE c.user_id IS NOT NULL
+ON CONFLICT ("channel_id", "user_id") DO NOTHING;
+
+-- Invitations arrive as notifications
+ALTER TABLE "public"."notifications" DROP CONSTRAINT IF EXISTS "notifications_type_check";
+ALTER TABLE "public"."notifications" ADD CONSTRAINT "notifications_type_check"
+    CHECK ("type" IN ('comment_reply', 'article_published', 'article_reaction', 'channel_invite'));
+
+-- Only the service-role backends touch this table
+ALTER TABLE "public"."channel_members" ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON TABLE "public"."channel_members" FROM "anon", "authenticated";
+GRANT ALL ON TABLE "public"."channel_members" TO "service_role";
@@ -0,0 +1,35 @@
+-- Live blogs. An article with live_status set is a live blog: besides its
+-- body it carries a stream of timestamped updates, each with its own author,
+-- that are appended while the story develops. 'ended' keeps the stream on
+-- the page once coverage is over; NULL is a regular article.
+ALTER TABLE "public"."articles"
+    ADD COLUMN IF NOT EXISTS "live_status" text;
+
+ALTER TABLE "public"."articles" DROP CONSTRAINT IF EXISTS "articles_live_status_check";
+ALTER TABLE "public"."articles" ADD CONSTRAINT "articles_live_status_check"
+    CHECK ("live_status" IN ('live', 'ended'));
+
+-- content is sanitized HTML, like articles.content
+CREATE TABLE IF NOT EXISTS "public"."article_updates" (
+    "id" serial PRIMARY KEY,
+    "article_id" integer NOT NULL,
+    "author_id" integer,
+    "title" text,
+    "content" text NOT NULL,
+    "pinned" boolean DEFAULT false NOT NULL,
+    "created_at" timestamp with time zone DEFAULT now() NOT NULL,
+    "updated_at" timestamp with time zone,
+    CONSTRAINT "article_updates_article_id_fkey" FOREIGN KEY ("article_id")
+        REFERENCES "public"."articles"("id") ON DELETE CASCADE,
+    CONSTRAINT "article_updates_author_id_fkey" FOREIGN KEY ("author_id")
+        REFERENCES "public"."users"("id") ON DELETE SET NULL
+);
+
+-- The stream of one article, newest first
+CREATE INDEX IF NOT EXISTS "article_updates_article_id_created_at_idx"
+    ON "public"."article_updates" USING btree ("article_id", "created_at" DESC);
+
+-- Only the service-role backends touch this table
+ALTER TABLE "public"."article_updates" ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON TABLE "public"."article_updates" FROM "anon", "authenticated";
+GRANT ALL ON TABLE "public"."article_updates" TO "service_role";
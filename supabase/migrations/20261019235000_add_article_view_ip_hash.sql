@@ -0,0 +1,8 @@
+-- The engagement beacon is unauthenticated, so a view id alone must not be
+-- enough to write read depth onto someone else's view. Each view now keeps a
+-- hash of the reader's IP (refreshed when a signed-in reader returns from
+-- another network); engagement is accepted only from that IP or from the
+-- signed-in reader the view belongs to. Older views have no hash and take
+-- engagement from their signed-in reader only.
+ALTER TABLE "public"."article_views"
+    ADD COLUMN IF NOT EXISTS "ip_hash" text;